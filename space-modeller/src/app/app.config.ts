@@ -13,7 +13,7 @@ import { GlobalErrorHandler } from './core/services/error-handler.service';
  * 
  * Configures:
  * - Zone.js with event coalescing for better performance
- * - Routing with lazy loading
+ * - Routing with lazy loading and deep links to models and views
  * - Global error handler for uncaught errors
  */
 export const appConfig: ApplicationConfig = {
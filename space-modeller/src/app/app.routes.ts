@@ -1,8 +1,27 @@
-import { Routes } from '@angular/router';
+import { Routes, UrlMatchResult, UrlSegment } from '@angular/router';
+import { DEEP_LINK_CONFIG } from './shared/constants/viewer.constants';
+
+/**
+ * Match the viewer at `/` and at `/model/:id`
+ * Both URLs share one route so the viewer is kept (not recreated) when a loaded model
+ * changes the URL to its deep link
+ */
+export function matchViewer(segments: UrlSegment[]): UrlMatchResult | null {
+  if (segments.length === 0) {
+    return { consumed: segments };
+  }
+
+  const [first, id] = segments;
+  if (segments.length === 2 && first?.path === DEEP_LINK_CONFIG.modelPath && id) {
+    return { consumed: segments, posParams: { id } };
+  }
+
+  return null;
+}
 
 export const routes: Routes = [
   {
-    path: '',
+    matcher: matchViewer,
     loadComponent: () =>
       import('./features/ifc-viewer/ifc-viewer.component').then((m) => m.IfcViewerComponent),
   },
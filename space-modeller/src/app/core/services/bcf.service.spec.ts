@@ -0,0 +1,186 @@
+import { TestBed } from '@angular/core/testing';
+import { WritableSignal, signal } from '@angular/core';
+import { BcfCapture, BcfService } from './bcf.service';
+import { ErrorHandlerService } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { IfcClassInfo, IfcFilterService } from './ifc-filter.service';
+import { SelectionService } from './selection.service';
+import { ClippingService } from './clipping.service';
+import { ViewpointService } from './viewpoint.service';
+import { ElementReference } from '../../shared/models/selection.model';
+import { BcfTopicDraft } from '../../shared/models/bcf.model';
+import { BCF_CONFIG } from '../../shared/constants/viewer.constants';
+
+describe('BcfService', () => {
+  let service: BcfService;
+  let fragmentsService: jasmine.SpyObj<FragmentsService>;
+  let viewpointService: jasmine.SpyObj<ViewpointService>;
+  let errorHandler: jasmine.SpyObj<ErrorHandlerService>;
+  let selection: WritableSignal<ElementReference | null>;
+
+  const draft: BcfTopicDraft = {
+    title: 'Clash',
+    status: 'Open',
+    assignedTo: ' mep@example.com ',
+    description: '',
+  };
+
+  const capture: BcfCapture = {
+    camera: { type: 'perspective', position: { x: 10, y: 0, z: 0 }, target: { x: 0, y: 0, z: 0 }, zoom: 1 },
+    fieldOfView: 60,
+    aspectRatio: 1.5,
+    snapshot: 'data:image/png;base64,AAAA',
+  };
+
+  const classes: IfcClassInfo[] = [
+    { name: 'IfcSpace', count: 2, visible: false },
+    { name: 'IfcWall', count: 2, visible: true },
+  ];
+
+  beforeEach(() => {
+    localStorage.removeItem(BCF_CONFIG.authorStorageKey);
+    selection = signal<ElementReference | null>(null);
+
+    const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', [
+      'getItemGuids',
+      'findItemsByGuids',
+      'setItemsVisibility',
+    ]);
+    fragmentsServiceSpy.getItemGuids.and.callFake((modelId: string, localIds: number[]) =>
+      Promise.resolve(localIds.map((localId) => `guid-${localId}`))
+    );
+    fragmentsServiceSpy.findItemsByGuids.and.returnValue(Promise.resolve([]));
+    fragmentsServiceSpy.setItemsVisibility.and.returnValue(Promise.resolve(true));
+
+    const ifcFilterServiceSpy = jasmine.createSpyObj('IfcFilterService', ['getClassItems'], {
+      availableClasses: signal(classes),
+    });
+    ifcFilterServiceSpy.getClassItems.and.callFake((className: string) =>
+      className === 'IfcSpace' ? new Map([['m1', [1, 2]]]) : new Map([['m1', [3, 4]]])
+    );
+
+    const viewpointServiceSpy = jasmine.createSpyObj('ViewpointService', ['apply']);
+    viewpointServiceSpy.apply.and.returnValue(Promise.resolve());
+
+    TestBed.configureTestingModule({
+      providers: [
+        BcfService,
+        { provide: ErrorHandlerService, useValue: jasmine.createSpyObj('ErrorHandlerService', ['handleError']) },
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: IfcFilterService, useValue: ifcFilterServiceSpy },
+        { provide: SelectionService, useValue: jasmine.createSpyObj('SelectionService', [], { selection }) },
+        {
+          provide: ClippingService,
+          useValue: jasmine.createSpyObj('ClippingService', [], {
+            planes: signal([]),
+            sectionBox: signal({ enabled: false, min: { x: 0, y: 0, z: 0 }, max: { x: 0, y: 0, z: 0 } }),
+          }),
+        },
+        { provide: ViewpointService, useValue: viewpointServiceSpy },
+      ],
+    });
+
+    service = TestBed.inject(BcfService);
+    fragmentsService = TestBed.inject(FragmentsService) as jasmine.SpyObj<FragmentsService>;
+    viewpointService = TestBed.inject(ViewpointService) as jasmine.SpyObj<ViewpointService>;
+    errorHandler = TestBed.inject(ErrorHandlerService) as jasmine.SpyObj<ErrorHandlerService>;
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(BCF_CONFIG.authorStorageKey);
+  });
+
+  it('should be created without topics', () => {
+    expect(service).toBeTruthy();
+    expect(service.hasTopics()).toBe(false);
+  });
+
+  it('should bind new topics to the current view', async () => {
+    service.setAuthor('arch@example.com');
+    selection.set({ modelId: 'm1', localId: 3 });
+
+    const topic = await service.createTopic(draft, capture);
+
+    expect(topic.title).toBe('Clash');
+    expect(topic.assignedTo).toBe('mep@example.com');
+    expect(topic.author).toBe('arch@example.com');
+    expect(topic.viewpoint!.selection).toEqual(['guid-3']);
+    expect(topic.viewpoint!.exceptions).toEqual(['guid-1', 'guid-2']);
+    expect(topic.viewpoint!.camera!.direction).toEqual({ x: -1, y: 0, z: 0 });
+    expect(topic.viewpoint!.snapshot).toBe(capture.snapshot);
+    expect(service.topics().length).toBe(1);
+  });
+
+  it('should remember the author', () => {
+    service.setAuthor(' arch@example.com ');
+
+    expect(localStorage.getItem(BCF_CONFIG.authorStorageKey)).toBe('arch@example.com');
+  });
+
+  it('should update topics and add comments', async () => {
+    const topic = await service.createTopic(draft, capture);
+
+    service.updateTopic(topic.guid, { status: 'Closed' });
+    service.addComment(topic.guid, 'Fixed in rev B');
+    service.addComment(topic.guid, '   ');
+
+    const updated = service.topics()[0]!;
+    expect(updated.status).toBe('Closed');
+    expect(updated.comments.map((comment) => comment.comment)).toEqual(['Fixed in rev B']);
+    expect(updated.modifiedDate).not.toBeNull();
+  });
+
+  it('should remove and clear topics', async () => {
+    const first = await service.createTopic(draft, capture);
+    await service.createTopic(draft, capture);
+
+    service.removeTopic(first.guid);
+    expect(service.topics().length).toBe(1);
+
+    service.clear();
+    expect(service.hasTopics()).toBe(false);
+  });
+
+  it('should export and import topics', async () => {
+    const topic = await service.createTopic(draft, capture);
+    const data = service.exportBcf('3.0')!;
+
+    service.clear();
+    expect(service.importBcf(data)).toBe(1);
+    expect(service.topics()[0]!.guid).toBe(topic.guid);
+
+    // Importing again replaces topics with the same GUID
+    service.importBcf(data);
+    expect(service.topics().length).toBe(1);
+  });
+
+  it('should report invalid archives', () => {
+    expect(service.importBcf(new Uint8Array([1, 2, 3]))).toBe(0);
+    expect(errorHandler.handleError).toHaveBeenCalled();
+  });
+
+  it('should place the camera of a topic in front of the models', async () => {
+    const topic = await service.createTopic(draft, capture);
+
+    const camera = service.getCamera(topic, { x: 4, y: 0, z: 0 })!;
+
+    expect(camera.position).toEqual({ x: 10, y: 0, z: 0 });
+    expect(camera.target.x).toBeCloseTo(4);
+  });
+
+  it('should restore hidden classes, single hidden elements and the selection', async () => {
+    const topic = await service.createTopic(draft, capture);
+    topic.viewpoint!.exceptions = ['guid-1', 'guid-2', 'guid-3'];
+    topic.viewpoint!.selection = ['guid-4'];
+    fragmentsService.findItemsByGuids.and.returnValue(
+      Promise.resolve([1, 2, 3].map((localId) => ({ modelId: 'm1', localId })))
+    );
+
+    await service.apply(topic);
+
+    expect(viewpointService.apply).toHaveBeenCalledWith(
+      jasmine.objectContaining({ hiddenClasses: ['IfcSpace'], selectedGlobalId: 'guid-4' })
+    );
+    expect(fragmentsService.setItemsVisibility).toHaveBeenCalledWith('m1', [3], false);
+  });
+});
@@ -0,0 +1,314 @@
+import { Injectable, inject, computed, signal } from '@angular/core';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { IfcFilterService } from './ifc-filter.service';
+import { SelectionService } from './selection.service';
+import { ClippingService } from './clipping.service';
+import { ViewpointService } from './viewpoint.service';
+import { BcfTopic, BcfTopicDraft, BcfVersion, BcfViewpoint } from '../../shared/models/bcf.model';
+import { Vector3Config } from '../../shared/models/viewer.model';
+import { ViewpointCamera } from '../../shared/models/viewpoint.model';
+import { BCF_CONFIG } from '../../shared/constants/viewer.constants';
+import {
+  fromBcfCamera,
+  fromBcfClippingPlanes,
+  getBcfTargetDistance,
+  readBcfZip,
+  resolveBcfVisibility,
+  toBcfCamera,
+  toBcfClippingPlanes,
+  writeBcfZip,
+} from '../../shared/utils/bcf.utils';
+
+/**
+ * Camera and view details captured by the viewer for a new topic
+ */
+export interface BcfCapture {
+  /** Camera state */
+  camera: ViewpointCamera;
+  /** Vertical field of view of the perspective camera in degrees */
+  fieldOfView: number;
+  /** Width / height of the view */
+  aspectRatio: number;
+  /** Snapshot of the viewer canvas as a data URL */
+  snapshot: string | null;
+}
+
+/**
+ * Service for BCF (BIM Collaboration Format) issues
+ *
+ * Features:
+ * - Topics with title, status, assignee, description and comments
+ * - Each topic bound to a viewpoint with the selected element and hidden elements as GlobalIds
+ * - Export to BCF 2.1 or 3.0 .bcfzip with snapshots
+ * - Import of .bcfzip archives and restore of their visibility, selection and sections
+ *
+ * Topics live in memory; the .bcfzip archive is the exchange and storage format.
+ *
+ * @example
+ * ```typescript
+ * const topic = await this.bcfService.createTopic(draft, capture);
+ * const data = this.bcfService.exportBcf('3.0');
+ *
+ * const camera = this.bcfService.getCamera(topic, sceneCenter);
+ * await this.bcfService.apply(topic);
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class BcfService {
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly ifcFilterService = inject(IfcFilterService);
+  private readonly selectionService = inject(SelectionService);
+  private readonly clippingService = inject(ClippingService);
+  private readonly viewpointService = inject(ViewpointService);
+
+  // Signals for reactive state
+  readonly topics = signal<BcfTopic[]>([]);
+  readonly author = signal<string>(this.readAuthor());
+  readonly hasTopics = computed(() => this.topics().length > 0);
+
+  /**
+   * Set the author of new topics and comments (remembered between sessions)
+   * @param author - Author name or email address
+   */
+  setAuthor(author: string): void {
+    this.author.set(author.trim());
+    try {
+      localStorage.setItem(BCF_CONFIG.authorStorageKey, this.author());
+    } catch {
+      // The author is still used for this session
+    }
+  }
+
+  /**
+   * Create a topic bound to the current view
+   * @param draft - Title, status, assignee and description
+   * @param capture - Camera and snapshot captured by the viewer
+   * @returns The created topic
+   */
+  async createTopic(draft: BcfTopicDraft, capture: BcfCapture): Promise<BcfTopic> {
+    const topic: BcfTopic = {
+      guid: crypto.randomUUID(),
+      title: draft.title.trim() || 'Untitled',
+      type: BCF_CONFIG.topicType,
+      status: draft.status,
+      assignedTo: draft.assignedTo.trim(),
+      description: draft.description.trim(),
+      author: this.author() || 'Unknown',
+      creationDate: new Date().toISOString(),
+      modifiedDate: null,
+      comments: [],
+      viewpoint: await this.captureViewpoint(capture),
+    };
+
+    this.topics.update((topics) => [...topics, topic]);
+    console.log(`📝 Created BCF topic: ${topic.title}`);
+    return topic;
+  }
+
+  /**
+   * Change the status or assignee of a topic
+   * @param guid - Topic GUID
+   * @param changes - Changed fields
+   */
+  updateTopic(guid: string, changes: Partial<Pick<BcfTopic, 'status' | 'assignedTo'>>): void {
+    this.modifyTopic(guid, (topic) => ({ ...topic, ...changes }));
+  }
+
+  /**
+   * Add a comment to a topic
+   * @param guid - Topic GUID
+   * @param text - Comment text
+   */
+  addComment(guid: string, text: string): void {
+    if (!text.trim()) {
+      return;
+    }
+
+    this.modifyTopic(guid, (topic) => ({
+      ...topic,
+      comments: [
+        ...topic.comments,
+        {
+          guid: crypto.randomUUID(),
+          comment: text.trim(),
+          author: this.author() || 'Unknown',
+          date: new Date().toISOString(),
+        },
+      ],
+    }));
+  }
+
+  /**
+   * Delete a topic
+   * @param guid - Topic GUID
+   */
+  removeTopic(guid: string): void {
+    this.topics.update((topics) => topics.filter((topic) => topic.guid !== guid));
+  }
+
+  /**
+   * Delete every topic
+   */
+  clear(): void {
+    this.topics.set([]);
+  }
+
+  /**
+   * Export the topics as a .bcfzip archive
+   * @param version - BCF version
+   * @returns Archive contents or null if the export failed
+   */
+  exportBcf(version: BcfVersion): Uint8Array | null {
+    try {
+      const data = writeBcfZip(this.topics(), version);
+      console.log(`✅ Exported ${this.topics().length} BCF ${version} topics`);
+      return data;
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.ERROR, {
+        operation: 'exportBcf',
+        version,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Import the topics of a .bcfzip archive (topics with the same GUID are replaced)
+   * @param data - Archive contents
+   * @returns Number of imported topics
+   */
+  importBcf(data: Uint8Array): number {
+    try {
+      const { version, topics } = readBcfZip(data);
+      const byGuid = new Map(this.topics().map((topic) => [topic.guid, topic]));
+      topics.forEach((topic) => byGuid.set(topic.guid, topic));
+      this.topics.set(Array.from(byGuid.values()));
+
+      console.log(`📝 Imported ${topics.length} BCF ${version} topics`);
+      return topics.length;
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'importBcf',
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Camera of a topic viewpoint
+   * @param topic - Topic
+   * @param sceneCenter - Center of the loaded models (used as orbit target)
+   * @returns Camera or null if the topic has no camera
+   */
+  getCamera(topic: BcfTopic, sceneCenter: Vector3Config | null): ViewpointCamera | null {
+    const camera = topic.viewpoint?.camera;
+    if (!camera) {
+      return null;
+    }
+
+    return fromBcfCamera(
+      camera,
+      getBcfTargetDistance(camera, sceneCenter, BCF_CONFIG.defaultTargetDistance)
+    );
+  }
+
+  /**
+   * Restore the visibility, selection and sections of a topic viewpoint
+   * Elements are matched by GlobalId in every loaded model
+   * @param topic - Topic
+   */
+  async apply(topic: BcfTopic): Promise<void> {
+    const viewpoint = topic.viewpoint;
+    if (!viewpoint) {
+      return;
+    }
+
+    try {
+      const classItems = new Map(
+        this.ifcFilterService
+          .availableClasses()
+          .map((ifcClass) => [ifcClass.name, this.ifcFilterService.getClassItems(ifcClass.name)])
+      );
+      const exceptions = await this.fragmentsService.findItemsByGuids(viewpoint.exceptions);
+      const { hiddenClasses, hiddenItems } = resolveBcfVisibility(
+        classItems,
+        exceptions,
+        viewpoint.defaultVisibility
+      );
+
+      await this.viewpointService.apply({
+        name: topic.title,
+        hiddenClasses,
+        selectedGlobalId: viewpoint.selection[0] ?? null,
+        clipping: fromBcfClippingPlanes(viewpoint.clippingPlanes),
+      });
+
+      for (const [modelId, localIds] of hiddenItems) {
+        await this.fragmentsService.setItemsVisibility(modelId, localIds, false);
+      }
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'applyBcfViewpoint',
+        topic: topic.title,
+      });
+    }
+  }
+
+  /**
+   * Build the viewpoint of a new topic from the current viewer state
+   * Hidden classes are exported as visibility exceptions
+   */
+  private async captureViewpoint(capture: BcfCapture): Promise<BcfViewpoint> {
+    const selection = this.selectionService.selection();
+    const [selectedGuid] = selection
+      ? await this.fragmentsService.getItemGuids(selection.modelId, [selection.localId])
+      : [];
+
+    const exceptions: string[] = [];
+    for (const ifcClass of this.ifcFilterService.availableClasses()) {
+      if (ifcClass.visible) {
+        continue;
+      }
+      for (const [modelId, localIds] of this.ifcFilterService.getClassItems(ifcClass.name)) {
+        const guids = await this.fragmentsService.getItemGuids(modelId, localIds);
+        exceptions.push(...guids.filter((guid): guid is string => guid !== null));
+      }
+    }
+
+    return {
+      guid: crypto.randomUUID(),
+      camera: toBcfCamera(capture.camera, capture.fieldOfView, capture.aspectRatio),
+      selection: selectedGuid ? [selectedGuid] : [],
+      defaultVisibility: true,
+      exceptions,
+      clippingPlanes: toBcfClippingPlanes(this.clippingService.planes(), this.clippingService.sectionBox()),
+      snapshot: capture.snapshot,
+    };
+  }
+
+  /**
+   * Replace a topic and set its modification date
+   */
+  private modifyTopic(guid: string, modify: (topic: BcfTopic) => BcfTopic): void {
+    this.topics.update((topics) =>
+      topics.map((topic) =>
+        topic.guid === guid ? { ...modify(topic), modifiedDate: new Date().toISOString() } : topic
+      )
+    );
+  }
+
+  /**
+   * Read the remembered author
+   */
+  private readAuthor(): string {
+    try {
+      return localStorage.getItem(BCF_CONFIG.authorStorageKey) ?? '';
+    } catch {
+      return '';
+    }
+  }
+}
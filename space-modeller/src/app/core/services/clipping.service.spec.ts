@@ -0,0 +1,421 @@
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+import { ClippingService } from './clipping.service';
+import { FragmentsService } from './fragments.service';
+import { ErrorHandlerService } from './error-handler.service';
+import { CLIPPING_CONFIG } from '../../shared/constants/viewer.constants';
+
+describe('ClippingService', () => {
+  let service: ClippingService;
+  let fragmentsService: jasmine.SpyObj<FragmentsService>;
+  let renderer: any;
+  let scene: THREE.Scene;
+
+  // Model filling the box (0, 0, 0) → (10, 4, 6)
+  const createModelObject = () => {
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry(10, 4, 6));
+    mesh.position.set(5, 2, 3);
+    const object = new THREE.Group();
+    object.add(mesh);
+    object.updateMatrixWorld(true);
+    return object;
+  };
+
+  const section = {
+    buffer: new Float32Array([0, 2, 0, 10, 2, 0, 10, 2, 6]),
+    index: 2,
+    fillsIndices: [0, 1, 2],
+  };
+
+  const rendererPlanes = () => renderer.clippingPlanes as THREE.Plane[];
+
+  beforeEach(() => {
+    const model = { object: createModelObject() };
+    const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', [
+      'getAllModels',
+      'getModelIds',
+      'getModel',
+      'getSection',
+    ]);
+    const errorHandlerSpy = jasmine.createSpyObj('ErrorHandlerService', ['handleError']);
+
+    fragmentsServiceSpy.getAllModels.and.returnValue([model]);
+    fragmentsServiceSpy.getModelIds.and.returnValue(['model-1']);
+    fragmentsServiceSpy.getModel.and.returnValue(model);
+    fragmentsServiceSpy.getSection.and.returnValue(Promise.resolve(section));
+
+    TestBed.configureTestingModule({
+      providers: [
+        ClippingService,
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: ErrorHandlerService, useValue: errorHandlerSpy },
+      ],
+    });
+
+    service = TestBed.inject(ClippingService);
+    fragmentsService = TestBed.inject(FragmentsService) as jasmine.SpyObj<FragmentsService>;
+
+    renderer = { clippingPlanes: [], autoClear: true, render: jasmine.createSpy('render') };
+    scene = new THREE.Scene();
+    service.attach(renderer, scene);
+  });
+
+  afterEach(() => {
+    service.dispose();
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+    expect(scene.getObjectByName('ClippingCaps')).toBeDefined();
+  });
+
+  describe('fitToModels', () => {
+    it('should fit to the loaded models', () => {
+      service.fitToModels();
+
+      expect(service.hasModelBox()).toBe(true);
+      expect(service.canAddPlane()).toBe(true);
+      expect(service.sectionBox().max.x).toBeGreaterThan(10);
+    });
+
+    it('should clear everything when no model is loaded', () => {
+      service.fitToModels();
+      service.addPlane('y');
+      fragmentsService.getAllModels.and.returnValue([]);
+
+      service.fitToModels();
+
+      expect(service.hasModelBox()).toBe(false);
+      expect(service.planes().length).toBe(0);
+      expect(rendererPlanes().length).toBe(0);
+    });
+  });
+
+  describe('section planes', () => {
+    beforeEach(() => {
+      service.fitToModels();
+    });
+
+    it('should not add planes before a model is loaded', () => {
+      service.clear();
+
+      expect(service.addPlane('x')).toBeNull();
+    });
+
+    it('should add an axis-aligned plane through the model center', () => {
+      const plane = service.addPlane('y')!;
+
+      expect(plane.label).toBe('Plane 1 (Y)');
+      expect(plane.normal.y).toBe(-1);
+      expect(plane.constant).toBeCloseTo(2);
+      expect(rendererPlanes().length).toBe(1);
+      expect(service.hasActiveClipping()).toBe(true);
+    });
+
+    it('should add a plane facing the view direction', () => {
+      const plane = service.addPlane('view', {
+        direction: new THREE.Vector3(0, 0, -1),
+        target: new THREE.Vector3(0, 0, 3),
+      })!;
+
+      expect(plane.axis).toBe('view');
+      expect(plane.normal.z).toBe(-1);
+      expect(service.addPlane('view')).toBeNull();
+    });
+
+    it('should limit the number of planes', () => {
+      for (let i = 0; i < CLIPPING_CONFIG.maxPlanes; i++) {
+        service.addPlane('x');
+      }
+
+      expect(service.canAddPlane()).toBe(false);
+      expect(service.addPlane('z')).toBeNull();
+      expect(service.planes().length).toBe(CLIPPING_CONFIG.maxPlanes);
+    });
+
+    it('should flip a plane', () => {
+      const plane = service.addPlane('x')!;
+
+      service.flipPlane(plane.id);
+
+      expect(service.planes()[0]!.normal.x).toBe(1);
+      expect(service.planes()[0]!.constant).toBeCloseTo(-5);
+    });
+
+    it('should hide a plane without removing it', () => {
+      const plane = service.addPlane('x')!;
+
+      service.togglePlane(plane.id);
+
+      expect(service.planes()[0]!.enabled).toBe(false);
+      expect(rendererPlanes().length).toBe(0);
+      expect(service.hasActiveClipping()).toBe(false);
+
+      service.togglePlane(plane.id);
+
+      expect(rendererPlanes().length).toBe(1);
+    });
+
+    it('should move a plane along its normal within the model range', () => {
+      const plane = service.addPlane('y')!;
+      const range = service.getPlaneOffsetRange(plane.id)!;
+
+      service.setPlaneOffset(plane.id, -3);
+
+      expect(range.min).toBeCloseTo(-4);
+      expect(range.max).toBeCloseTo(0);
+      expect(service.planes()[0]!.constant).toBe(3);
+      expect(rendererPlanes()[0]!.constant).toBe(3);
+    });
+
+    it('should delete planes', () => {
+      const first = service.addPlane('x')!;
+      service.addPlane('y');
+
+      service.removePlane(first.id);
+
+      expect(service.planes().map((p) => p.label)).toEqual(['Plane 2 (Y)']);
+
+      service.clearPlanes();
+
+      expect(service.planes().length).toBe(0);
+      expect(rendererPlanes().length).toBe(0);
+    });
+  });
+
+  describe('section box', () => {
+    beforeEach(() => {
+      service.fitToModels();
+    });
+
+    it('should add six box planes when enabled', () => {
+      service.setSectionBoxEnabled(true);
+
+      expect(service.sectionBox().enabled).toBe(true);
+      expect(rendererPlanes().length).toBe(6);
+
+      service.toggleSectionBox();
+
+      expect(rendererPlanes().length).toBe(0);
+    });
+
+    it('should return copies of the planes that cut the models', () => {
+      service.addPlane('x');
+      service.setSectionBoxEnabled(true);
+
+      const planes = service.getCuttingPlanes();
+
+      expect(planes.length).toBe(7);
+      expect(planes[0]).not.toBe(rendererPlanes()[0]!);
+      expect(planes[0]!.equals(rendererPlanes()[0]!)).toBe(true);
+    });
+
+    it('should fit the box around the model with padding', () => {
+      const box = service.sectionBox();
+
+      expect(box.min.x).toBeCloseTo(-10 * CLIPPING_CONFIG.boxPadding);
+      expect(box.max.y).toBeCloseTo(4 + 4 * CLIPPING_CONFIG.boxPadding);
+    });
+
+    it('should keep a dragged box when models change and refit on reset', () => {
+      service.setSectionBoxEnabled(true);
+      (service as any).box.max.x = 5;
+
+      service.fitToModels();
+      expect(service.sectionBox().max.x).toBe(5);
+
+      service.resetSectionBox();
+      expect(service.sectionBox().max.x).toBeGreaterThan(10);
+    });
+  });
+
+  describe('restore', () => {
+    beforeEach(() => {
+      service.fitToModels();
+    });
+
+    it('should replace the planes with saved ones', () => {
+      service.addPlane('x');
+      service.addPlane('y');
+
+      service.restore(
+        [
+          {
+            id: 'saved',
+            label: 'Plane 4 (Z)',
+            axis: 'z',
+            normal: { x: 0, y: 0, z: -2 },
+            constant: 3,
+            enabled: false,
+          },
+        ],
+        { enabled: false, min: { x: 0, y: 0, z: 0 }, max: { x: 0, y: 0, z: 0 } }
+      );
+
+      const [plane] = service.planes();
+      expect(service.planes().length).toBe(1);
+      expect(plane!.label).toBe('Plane 4 (Z)');
+      expect(plane!.normal).toEqual({ x: 0, y: 0, z: -1 });
+      expect(plane!.enabled).toBe(false);
+      expect(rendererPlanes().length).toBe(0);
+      expect(service.addPlane('x')!.label).toBe('Plane 2 (X)');
+    });
+
+    it('should restore the section box bounds', () => {
+      service.restore([], { enabled: true, min: { x: 1, y: 1, z: 1 }, max: { x: 2, y: 3, z: 4 } });
+
+      expect(service.sectionBox()).toEqual({
+        enabled: true,
+        min: { x: 1, y: 1, z: 1 },
+        max: { x: 2, y: 3, z: 4 },
+      });
+      expect(rendererPlanes().length).toBe(6);
+    });
+
+    it('should not enable the section box without a model', () => {
+      service.clear();
+
+      service.restore([], { enabled: true, min: { x: 1, y: 1, z: 1 }, max: { x: 2, y: 3, z: 4 } });
+
+      expect(service.sectionBox().enabled).toBe(false);
+    });
+  });
+
+  describe('dragging', () => {
+    const rect = { left: 0, top: 0, width: 100, height: 100 };
+    const dom = { getBoundingClientRect: () => rect } as unknown as HTMLElement;
+    let camera: THREE.PerspectiveCamera;
+
+    const toClient = (point: THREE.Vector3) => {
+      const ndc = point.clone().project(camera);
+      return new THREE.Vector2(((ndc.x + 1) / 2) * rect.width, ((1 - ndc.y) / 2) * rect.height);
+    };
+
+    beforeEach(() => {
+      camera = new THREE.PerspectiveCamera(60, 1, 0.1, 1000);
+      camera.position.set(20, 20, 20);
+      camera.lookAt(5, 2, 3);
+      camera.updateMatrixWorld(true);
+      service.fitToModels();
+    });
+
+    it('should not start a drag away from the handles', () => {
+      expect(service.beginDrag(camera, new THREE.Vector2(0, 0), dom)).toBe(false);
+      expect(service.isDragging).toBe(false);
+    });
+
+    it('should drag a plane along its normal', () => {
+      service.addPlane('y');
+
+      expect(service.beginDrag(camera, toClient(new THREE.Vector3(5, 2, 3)), dom)).toBe(true);
+
+      service.dragTo(camera, toClient(new THREE.Vector3(5, 3, 3)), dom);
+      service.endDrag();
+
+      expect(service.isDragging).toBe(false);
+      expect(service.planes()[0]!.constant).toBeCloseTo(3);
+    });
+
+    it('should drag a section box face without inverting the box', () => {
+      service.setSectionBoxEnabled(true);
+      const top = service.sectionBox().max.y;
+
+      expect(service.beginDrag(camera, toClient(new THREE.Vector3(5, top, 3)), dom)).toBe(true);
+
+      service.dragTo(camera, toClient(new THREE.Vector3(5, -50, 3)), dom);
+      service.endDrag();
+
+      const box = service.sectionBox();
+      expect(box.max.y).toBeCloseTo(box.min.y + CLIPPING_CONFIG.minBoxSize);
+    });
+  });
+
+  describe('caps', () => {
+    beforeEach(() => {
+      service.fitToModels();
+    });
+
+    it('should create cap fills and outlines for every enabled plane', async () => {
+      service.addPlane('y');
+
+      await service.updateCaps();
+
+      const plane = fragmentsService.getSection.calls.mostRecent().args[1];
+      const caps = scene.getObjectByName('ClippingCaps')!;
+      expect(plane.constant).toBeCloseTo(2 - CLIPPING_CONFIG.capOffset);
+      expect(caps.children.length).toBe(2);
+      expect(caps.children.some((c) => c instanceof THREE.LineSegments)).toBe(true);
+    });
+
+    it('should remove caps when the planes are removed', async () => {
+      service.addPlane('y');
+      await service.updateCaps();
+
+      service.clearPlanes();
+      await service.updateCaps();
+
+      expect(scene.getObjectByName('ClippingCaps')!.children.length).toBe(0);
+    });
+  });
+
+  describe('plan cut', () => {
+    beforeEach(() => {
+      service.fitToModels();
+    });
+
+    it('should keep the slice between the view depth and the cut', () => {
+      service.setPlanCut({ bottom: 0.5, top: 2 });
+
+      const [cut, depth] = service.getCuttingPlanes();
+      expect(rendererPlanes().length).toBe(2);
+      expect(service.hasActiveClipping()).toBe(true);
+      expect(cut!.distanceToPoint(new THREE.Vector3(0, 1, 0))).toBeGreaterThan(0);
+      expect(cut!.distanceToPoint(new THREE.Vector3(0, 3, 0))).toBeLessThan(0);
+      expect(depth!.distanceToPoint(new THREE.Vector3(0, 0, 0))).toBeLessThan(0);
+    });
+
+    it('should only cap the cut', async () => {
+      service.setPlanCut({ bottom: 0.5, top: 2 });
+
+      await service.updateCaps();
+
+      expect(fragmentsService.getSection).toHaveBeenCalledTimes(1);
+      expect(fragmentsService.getSection.calls.mostRecent().args[1].normal.y).toBe(-1);
+    });
+
+    it('should keep section planes and remove the cut', () => {
+      service.addPlane('x');
+      service.setPlanCut({ bottom: 0.5, top: 2 });
+      expect(rendererPlanes().length).toBe(3);
+
+      service.setPlanCut(null);
+
+      expect(rendererPlanes().length).toBe(1);
+      expect(service.planCut()).toBeNull();
+    });
+  });
+
+  describe('renderOverlay', () => {
+    it('should skip rendering when no helper is visible', () => {
+      service.renderOverlay(renderer, new THREE.PerspectiveCamera());
+
+      expect(renderer.render).not.toHaveBeenCalled();
+    });
+
+    it('should render helpers without clipping and restore the renderer', () => {
+      service.fitToModels();
+      service.addPlane('x');
+      const planes = rendererPlanes();
+
+      renderer.render.and.callFake(() => {
+        expect(renderer.clippingPlanes.length).toBe(0);
+        expect(renderer.autoClear).toBe(false);
+      });
+      service.renderOverlay(renderer, new THREE.PerspectiveCamera());
+
+      expect(renderer.render).toHaveBeenCalled();
+      expect(renderer.clippingPlanes).toBe(planes);
+      expect(renderer.autoClear).toBe(true);
+    });
+  });
+});
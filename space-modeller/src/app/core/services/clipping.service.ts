@@ -0,0 +1,854 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import * as THREE from 'three';
+import type * as FRAGS from '@thatopen/fragments';
+import { FragmentsService } from './fragments.service';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import { CLIPPING_CONFIG, PLAN_CONFIG } from '../../shared/constants/viewer.constants';
+import {
+  ClippingPlaneAxis,
+  ClippingPlaneInfo,
+  PlanCut,
+  SectionBoxInfo,
+} from '../../shared/models/clipping.model';
+import { calculateBoundingBox } from '../../shared/utils/three.utils';
+import {
+  createAxisPlane,
+  createSectionBoxPlanes,
+  createViewPlane,
+  fitSectionBox,
+  getAxisDragOffset,
+  getPlaneOffsetRange,
+  toClippingVector,
+} from '../../shared/utils/clipping.utils';
+
+/**
+ * Section plane with its viewport helpers
+ */
+interface ClippingPlaneEntry {
+  id: string;
+  label: string;
+  axis: ClippingPlaneAxis;
+  enabled: boolean;
+  plane: THREE.Plane;
+  helper: THREE.Mesh;
+  handle: THREE.Mesh;
+}
+
+/**
+ * Handle that can be dragged in the viewport
+ */
+type ClippingDragTarget = { kind: 'plane'; id: string } | { kind: 'box'; face: number };
+
+/**
+ * Active handle drag
+ */
+interface ClippingDrag {
+  target: ClippingDragTarget;
+  origin: THREE.Vector3;
+  direction: THREE.Vector3;
+  start: number;
+  initial: number;
+}
+
+const BOX_AXES = ['x', 'y', 'z'] as const;
+
+/**
+ * Service for section planes and the section box
+ *
+ * Features:
+ * - Up to six axis-aligned or view-aligned section planes
+ * - Section box fitted to the bounding box of the loaded models
+ * - Flip, hide and delete planes, move them with an offset
+ * - Drag handles in the viewport for planes and box faces
+ * - Capped cut faces and outlines computed by the fragments models
+ * - Horizontal floor plan cut with darker caps, independent of the section planes
+ * - Restore of saved planes and section box (viewpoints)
+ *
+ * Planes are applied as renderer clipping planes so every model is cut. Helpers and
+ * handles live in an overlay scene that is rendered after the model without clipping.
+ *
+ * @example
+ * ```typescript
+ * constructor(private clipping: ClippingService) {}
+ *
+ * this.clipping.attach(renderer, scene);
+ * this.clipping.fitToModels();
+ * this.clipping.addPlane('y');
+ * this.clipping.setSectionBoxEnabled(true);
+ *
+ * // In the render loop, after rendering the scene
+ * this.clipping.renderOverlay(renderer, camera);
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ClippingService {
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly errorHandler = inject(ErrorHandlerService);
+
+  // Three.js objects
+  private renderer?: THREE.WebGLRenderer;
+  private scene?: THREE.Scene;
+  private readonly overlay = new THREE.Scene();
+  private readonly capsGroup = new THREE.Group();
+  private readonly raycaster = new THREE.Raycaster();
+  private readonly capMaterial = new THREE.MeshBasicMaterial({
+    color: CLIPPING_CONFIG.capColor,
+    side: THREE.DoubleSide,
+  });
+  private readonly edgeMaterial = new THREE.LineBasicMaterial({ color: CLIPPING_CONFIG.edgeColor });
+  private readonly helperMaterial = new THREE.MeshBasicMaterial({
+    color: CLIPPING_CONFIG.helperColor,
+    transparent: true,
+    opacity: CLIPPING_CONFIG.helperOpacity,
+    side: THREE.DoubleSide,
+    depthWrite: false,
+  });
+  private readonly handleMaterial = new THREE.MeshBasicMaterial({
+    color: CLIPPING_CONFIG.helperColor,
+    side: THREE.DoubleSide,
+    depthTest: false,
+  });
+
+  // State
+  private readonly entries = new Map<string, ClippingPlaneEntry>();
+  private modelBox: THREE.Box3 | null = null;
+  private readonly box = new THREE.Box3();
+  private readonly boxPlanes = createSectionBoxPlanes(new THREE.Box3(new THREE.Vector3(), new THREE.Vector3()));
+  private readonly boxHelper = new THREE.Box3Helper(this.box, new THREE.Color(CLIPPING_CONFIG.helperColor));
+  private readonly boxHandles: THREE.Mesh[] = [];
+  private readonly planPlanes = [
+    new THREE.Plane(new THREE.Vector3(0, -1, 0), 0), // Cut: keeps everything below
+    new THREE.Plane(new THREE.Vector3(0, 1, 0), 0), // View depth: keeps everything above
+  ] as const;
+  private boxEnabled = false;
+  private drag: ClippingDrag | null = null;
+  private nextPlaneNumber = 1;
+  private capsRequestId = 0;
+  private capsTimer?: ReturnType<typeof setTimeout>;
+
+  // Signals for reactive state
+  readonly planes = signal<ClippingPlaneInfo[]>([]);
+  readonly sectionBox = signal<SectionBoxInfo>({
+    enabled: false,
+    min: { x: 0, y: 0, z: 0 },
+    max: { x: 0, y: 0, z: 0 },
+  });
+  readonly planCut = signal<PlanCut | null>(null);
+  readonly hasModelBox = signal<boolean>(false);
+  readonly canAddPlane = computed(
+    () => this.hasModelBox() && this.planes().length < CLIPPING_CONFIG.maxPlanes
+  );
+  readonly hasActiveClipping = computed(
+    () => this.planes().some((p) => p.enabled) || this.sectionBox().enabled || this.planCut() !== null
+  );
+
+  constructor() {
+    this.capsGroup.name = 'ClippingCaps';
+    this.boxHelper.visible = false;
+    this.overlay.add(this.boxHelper);
+
+    this.boxPlanes.forEach((_, face) => {
+      const handle = this.createHandle({ kind: 'box', face });
+      handle.visible = false;
+      this.boxHandles.push(handle);
+      this.overlay.add(handle);
+    });
+  }
+
+  /**
+   * Whether a handle is being dragged
+   */
+  get isDragging(): boolean {
+    return this.drag !== null;
+  }
+
+  /**
+   * Attach to the viewer renderer and scene
+   * @param renderer - Renderer whose clipping planes cut the models
+   * @param scene - Scene the caps are added to
+   */
+  attach(renderer: THREE.WebGLRenderer, scene: THREE.Scene): void {
+    this.renderer = renderer;
+    this.scene = scene;
+    scene.add(this.capsGroup);
+    this.applyClippingPlanes();
+    console.log('✓ Clipping attached');
+  }
+
+  /**
+   * Fit the planes and section box to the bounding box of the loaded models
+   * Call after models are loaded or unloaded. Clears everything when no model is left.
+   */
+  fitToModels(): void {
+    const box = new THREE.Box3();
+    for (const model of this.fragmentsService.getAllModels()) {
+      const modelBox = model.object ? calculateBoundingBox(model.object) : null;
+      if (modelBox) {
+        box.union(modelBox);
+      }
+    }
+
+    if (box.isEmpty()) {
+      this.clear();
+      return;
+    }
+
+    this.modelBox = box;
+    this.hasModelBox.set(true);
+
+    // An enabled section box keeps the bounds the user dragged it to
+    if (!this.boxEnabled) {
+      this.box.copy(fitSectionBox(box, CLIPPING_CONFIG.boxPadding));
+    }
+    this.updateBoxObjects();
+    this.entries.forEach((entry) => this.updatePlaneObjects(entry));
+    this.sync();
+  }
+
+  /**
+   * Add a section plane
+   * @param axis - x, y or z for axis-aligned planes, view for a plane facing the camera
+   * @param view - View direction and orbit target (required for view planes)
+   * @returns The new plane or null if the limit is reached or no model is loaded
+   */
+  addPlane(
+    axis: ClippingPlaneAxis,
+    view?: { direction: THREE.Vector3; target: THREE.Vector3 }
+  ): ClippingPlaneInfo | null {
+    if (!this.modelBox) {
+      console.warn('⚠️ Load a model before adding section planes');
+      return null;
+    }
+    if (this.entries.size >= CLIPPING_CONFIG.maxPlanes) {
+      console.warn(`⚠️ Cannot add more than ${CLIPPING_CONFIG.maxPlanes} section planes`);
+      return null;
+    }
+
+    let plane: THREE.Plane;
+    if (axis === 'view') {
+      if (!view) {
+        return null;
+      }
+      plane = createViewPlane(view.direction, view.target);
+    } else {
+      plane = createAxisPlane(axis, this.modelBox);
+    }
+
+    const id = crypto.randomUUID();
+    const entry = this.createEntry(
+      id,
+      `Plane ${this.nextPlaneNumber++} (${axis === 'view' ? 'View' : axis.toUpperCase()})`,
+      axis,
+      plane,
+      true
+    );
+    this.sync();
+
+    console.log(`✂️ Added section plane: ${entry.label}`);
+    return this.planes().find((p) => p.id === id) ?? null;
+  }
+
+  /**
+   * Flip which side of a plane is cut away
+   * @param id - Plane ID
+   */
+  flipPlane(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+
+    entry.plane.negate();
+    this.updatePlaneObjects(entry);
+    this.sync();
+  }
+
+  /**
+   * Enable or disable the cut of a plane (the plane keeps its position)
+   * @param id - Plane ID
+   * @param enabled - Whether the plane cuts the models
+   */
+  setPlaneEnabled(id: string, enabled: boolean): void {
+    const entry = this.entries.get(id);
+    if (!entry || entry.enabled === enabled) {
+      return;
+    }
+
+    entry.enabled = enabled;
+    this.updatePlaneObjects(entry);
+    this.sync();
+  }
+
+  /**
+   * Toggle the cut of a plane
+   * @param id - Plane ID
+   */
+  togglePlane(id: string): void {
+    const entry = this.entries.get(id);
+    if (entry) {
+      this.setPlaneEnabled(id, !entry.enabled);
+    }
+  }
+
+  /**
+   * Move a plane along its normal
+   * @param id - Plane ID
+   * @param offset - Distance from the origin along the normal (-constant)
+   */
+  setPlaneOffset(id: string, offset: number): void {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+
+    entry.plane.constant = -offset;
+    this.updatePlaneObjects(entry);
+    this.sync();
+  }
+
+  /**
+   * Get the offsets at which a plane still cuts the models
+   * @param id - Plane ID
+   * @returns Offset range or null if the plane or model box is missing
+   */
+  getPlaneOffsetRange(id: string): { min: number; max: number } | null {
+    const entry = this.entries.get(id);
+    if (!entry || !this.modelBox) {
+      return null;
+    }
+    return getPlaneOffsetRange(entry.plane.normal, this.modelBox);
+  }
+
+  /**
+   * Delete a plane
+   * @param id - Plane ID
+   */
+  removePlane(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+
+    this.disposePlaneObjects(entry);
+    this.entries.delete(id);
+    this.sync();
+    console.log(`🗑️ Removed section plane: ${entry.label}`);
+  }
+
+  /**
+   * Delete every plane
+   */
+  clearPlanes(): void {
+    this.entries.forEach((entry) => this.disposePlaneObjects(entry));
+    this.entries.clear();
+    this.nextPlaneNumber = 1;
+    this.sync();
+  }
+
+  /**
+   * Enable or disable the section box
+   * @param enabled - Whether the box cuts the models
+   */
+  setSectionBoxEnabled(enabled: boolean): void {
+    if (this.boxEnabled === enabled || (enabled && !this.modelBox)) {
+      return;
+    }
+
+    this.boxEnabled = enabled;
+    this.updateBoxObjects();
+    this.sync();
+    console.log(`📦 Section box ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
+  /**
+   * Toggle the section box
+   */
+  toggleSectionBox(): void {
+    this.setSectionBoxEnabled(!this.boxEnabled);
+  }
+
+  /**
+   * Fit the section box to the models again
+   */
+  resetSectionBox(): void {
+    if (!this.modelBox) {
+      return;
+    }
+
+    this.box.copy(fitSectionBox(this.modelBox, CLIPPING_CONFIG.boxPadding));
+    this.updateBoxObjects();
+    this.sync();
+  }
+
+  /**
+   * Cut the models horizontally for a floor plan
+   * Only the cut at the top is capped, drawn darker than section caps
+   * @param cut - Visible height range or null to remove the plan cut
+   */
+  setPlanCut(cut: PlanCut | null): void {
+    if (cut) {
+      this.planPlanes[0].constant = cut.top;
+      this.planPlanes[1].constant = -cut.bottom;
+    }
+    this.planCut.set(cut ? { ...cut } : null);
+    this.capMaterial.color.set(cut ? PLAN_CONFIG.viewCutColor : CLIPPING_CONFIG.capColor);
+    this.edgeMaterial.color.set(cut ? PLAN_CONFIG.viewEdgeColor : CLIPPING_CONFIG.edgeColor);
+    this.sync();
+  }
+
+  /**
+   * Replace the planes and the section box with a saved state
+   * The section box is only enabled if a model is loaded
+   * @param planes - Saved section planes
+   * @param sectionBox - Saved section box
+   */
+  restore(planes: ClippingPlaneInfo[], sectionBox: SectionBoxInfo): void {
+    this.entries.forEach((entry) => this.disposePlaneObjects(entry));
+    this.entries.clear();
+
+    planes.slice(0, CLIPPING_CONFIG.maxPlanes).forEach((info) => {
+      const normal = new THREE.Vector3(info.normal.x, info.normal.y, info.normal.z).normalize();
+      this.createEntry(crypto.randomUUID(), info.label, info.axis, new THREE.Plane(normal, info.constant), info.enabled);
+    });
+    this.nextPlaneNumber = this.entries.size + 1;
+
+    const min = new THREE.Vector3(sectionBox.min.x, sectionBox.min.y, sectionBox.min.z);
+    const max = new THREE.Vector3(sectionBox.max.x, sectionBox.max.y, sectionBox.max.z);
+    if (this.modelBox && sectionBox.enabled && !min.equals(max)) {
+      this.box.set(min, max);
+      this.boxEnabled = true;
+    } else {
+      this.boxEnabled = false;
+      if (this.modelBox) {
+        this.box.copy(fitSectionBox(this.modelBox, CLIPPING_CONFIG.boxPadding));
+      }
+    }
+
+    this.updateBoxObjects();
+    this.sync();
+    console.log(`✂️ Restored ${this.entries.size} section planes`);
+  }
+
+  /**
+   * Start dragging the handle under the pointer
+   * @param camera - Active camera
+   * @param mouse - Pointer position in client pixels
+   * @param dom - Canvas element
+   * @returns True if a handle was grabbed (orbit controls should be paused)
+   */
+  beginDrag(camera: THREE.Camera, mouse: THREE.Vector2, dom: HTMLElement): boolean {
+    const handles = this.overlay.children.filter(
+      (child) => child.visible && child.userData['clippingTarget']
+    );
+    if (handles.length === 0) {
+      return false;
+    }
+
+    this.overlay.updateMatrixWorld();
+    this.setRayFromPointer(camera, mouse, dom);
+    const hit = this.raycaster.intersectObjects(handles, false)[0];
+    if (!hit) {
+      return false;
+    }
+
+    const target = hit.object.userData['clippingTarget'] as ClippingDragTarget;
+    const origin = hit.object.position.clone();
+    let direction: THREE.Vector3;
+    let initial: number;
+
+    if (target.kind === 'plane') {
+      const entry = this.entries.get(target.id);
+      if (!entry) {
+        return false;
+      }
+      direction = entry.plane.normal.clone();
+      initial = -entry.plane.constant;
+    } else {
+      const axis = BOX_AXES[Math.floor(target.face / 2)]!;
+      direction = new THREE.Vector3().setComponent(BOX_AXES.indexOf(axis), 1);
+      initial = target.face % 2 === 1 ? this.box.max[axis] : this.box.min[axis];
+    }
+
+    const start = getAxisDragOffset(this.raycaster.ray, origin, direction);
+    if (start === null) {
+      return false;
+    }
+
+    this.drag = { target, origin, direction, start, initial };
+    this.capsGroup.visible = false;
+    return true;
+  }
+
+  /**
+   * Move the dragged handle to follow the pointer
+   * @param camera - Active camera
+   * @param mouse - Pointer position in client pixels
+   * @param dom - Canvas element
+   */
+  dragTo(camera: THREE.Camera, mouse: THREE.Vector2, dom: HTMLElement): void {
+    if (!this.drag) {
+      return;
+    }
+
+    this.setRayFromPointer(camera, mouse, dom);
+    const { target, origin, direction, start, initial } = this.drag;
+    const offset = getAxisDragOffset(this.raycaster.ray, origin, direction);
+    if (offset === null) {
+      return;
+    }
+
+    const value = initial + offset - start;
+
+    if (target.kind === 'plane') {
+      const entry = this.entries.get(target.id);
+      if (entry) {
+        entry.plane.constant = -value;
+        this.updatePlaneObjects(entry);
+      }
+      return;
+    }
+
+    const axis = BOX_AXES[Math.floor(target.face / 2)]!;
+    if (target.face % 2 === 1) {
+      this.box.max[axis] = Math.max(value, this.box.min[axis] + CLIPPING_CONFIG.minBoxSize);
+    } else {
+      this.box.min[axis] = Math.min(value, this.box.max[axis] - CLIPPING_CONFIG.minBoxSize);
+    }
+    this.updateBoxObjects();
+  }
+
+  /**
+   * Finish dragging and recompute the caps
+   */
+  endDrag(): void {
+    if (!this.drag) {
+      return;
+    }
+
+    this.drag = null;
+    this.capsGroup.visible = true;
+    this.sync();
+  }
+
+  /**
+   * Render plane helpers, the section box and handles on top of the clipped scene
+   * @param renderer - Viewer renderer
+   * @param camera - Active camera
+   */
+  renderOverlay(renderer: THREE.WebGLRenderer, camera: THREE.Camera): void {
+    if (!this.overlay.children.some((child) => child.visible)) {
+      return;
+    }
+
+    const clippingPlanes = renderer.clippingPlanes;
+    const autoClear = renderer.autoClear;
+
+    renderer.clippingPlanes = [];
+    renderer.autoClear = false;
+    renderer.render(this.overlay, camera);
+
+    renderer.clippingPlanes = clippingPlanes;
+    renderer.autoClear = autoClear;
+  }
+
+  /**
+   * Recompute the capped cut faces and outlines of every enabled plane
+   */
+  async updateCaps(): Promise<void> {
+    clearTimeout(this.capsTimer);
+    const requestId = ++this.capsRequestId;
+    const caps: THREE.Object3D[] = [];
+
+    try {
+      // The view depth of a plan is not capped: its cut faces the floor below
+      const capPlanes = this.getActivePlanes().filter((plane) => plane !== this.planPlanes[1]);
+      for (const plane of capPlanes) {
+        // Move the cap slightly into the kept half-space so its own plane does not clip it
+        const capPlane = plane.clone();
+        capPlane.constant -= CLIPPING_CONFIG.capOffset;
+
+        for (const modelId of this.fragmentsService.getModelIds()) {
+          if (!this.fragmentsService.getModel(modelId)?.object?.visible) {
+            continue;
+          }
+
+          const section = await this.fragmentsService.getSection(modelId, capPlane);
+          if (requestId !== this.capsRequestId) {
+            caps.forEach((cap) => this.disposeCap(cap));
+            return;
+          }
+          if (section) {
+            caps.push(...this.createCapObjects(section));
+          }
+        }
+      }
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'updateCaps',
+      });
+    }
+
+    this.clearCaps();
+    caps.forEach((cap) => this.capsGroup.add(cap));
+  }
+
+  /**
+   * Remove every plane, the section box and the caps
+   */
+  clear(): void {
+    this.clearPlanes();
+    this.planCut.set(null);
+    this.capMaterial.color.set(CLIPPING_CONFIG.capColor);
+    this.edgeMaterial.color.set(CLIPPING_CONFIG.edgeColor);
+    this.boxEnabled = false;
+    this.modelBox = null;
+    this.hasModelBox.set(false);
+    this.box.makeEmpty();
+    this.updateBoxObjects();
+    this.sync();
+  }
+
+  /**
+   * Detach from the viewer and release GPU resources
+   */
+  dispose(): void {
+    this.clear();
+    clearTimeout(this.capsTimer);
+    this.capsRequestId++;
+    this.clearCaps();
+    this.scene?.remove(this.capsGroup);
+    if (this.renderer) {
+      this.renderer.clippingPlanes = [];
+    }
+    this.renderer = undefined;
+    this.scene = undefined;
+
+    this.boxHandles.forEach((handle) => handle.geometry.dispose());
+    this.boxHelper.dispose();
+    [this.capMaterial, this.edgeMaterial, this.helperMaterial, this.handleMaterial].forEach((m) =>
+      m.dispose()
+    );
+  }
+
+  /**
+   * Copies of the planes that currently cut the models (section planes, section box and plan cut)
+   * Points on the negative side of a plane are cut away
+   */
+  getCuttingPlanes(): THREE.Plane[] {
+    return this.getActivePlanes().map((plane) => plane.clone());
+  }
+
+  /**
+   * Planes that currently cut the models
+   */
+  private getActivePlanes(): THREE.Plane[] {
+    const planes = Array.from(this.entries.values())
+      .filter((entry) => entry.enabled)
+      .map((entry) => entry.plane);
+    if (this.boxEnabled) {
+      planes.push(...this.boxPlanes);
+    }
+    if (this.planCut()) {
+      planes.push(...this.planPlanes);
+    }
+    return planes;
+  }
+
+  /**
+   * Publish the state to the signals, apply it to the renderer and schedule a caps update
+   */
+  private sync(): void {
+    this.planes.set(
+      Array.from(this.entries.values()).map((entry) => ({
+        id: entry.id,
+        label: entry.label,
+        axis: entry.axis,
+        normal: toClippingVector(entry.plane.normal),
+        constant: entry.plane.constant,
+        enabled: entry.enabled,
+      }))
+    );
+    this.sectionBox.set({
+      enabled: this.boxEnabled,
+      min: toClippingVector(this.box.isEmpty() ? new THREE.Vector3() : this.box.min),
+      max: toClippingVector(this.box.isEmpty() ? new THREE.Vector3() : this.box.max),
+    });
+
+    this.applyClippingPlanes();
+    this.scheduleCapsUpdate();
+  }
+
+  /**
+   * Set the renderer clipping planes (the array holds the live plane objects)
+   */
+  private applyClippingPlanes(): void {
+    if (this.renderer) {
+      this.renderer.clippingPlanes = this.getActivePlanes();
+    }
+  }
+
+  /**
+   * Recompute the caps once changes settle (offset sliders fire on every step)
+   */
+  private scheduleCapsUpdate(): void {
+    clearTimeout(this.capsTimer);
+    this.capsTimer = setTimeout(() => {
+      this.updateCaps().catch(console.error);
+    }, CLIPPING_CONFIG.capsDelay);
+  }
+
+  /**
+   * Place the helper quad and handle of a plane at the model center
+   */
+  private updatePlaneObjects(entry: ClippingPlaneEntry): void {
+    const box = this.modelBox;
+    entry.helper.visible = entry.enabled && !!box;
+    entry.handle.visible = entry.enabled && !!box;
+    if (!box) {
+      return;
+    }
+
+    const center = entry.plane.projectPoint(box.getCenter(new THREE.Vector3()), new THREE.Vector3());
+    const size = box.getSize(new THREE.Vector3()).length();
+    const quaternion = new THREE.Quaternion().setFromUnitVectors(
+      new THREE.Vector3(0, 0, 1),
+      entry.plane.normal
+    );
+
+    entry.helper.position.copy(center);
+    entry.helper.quaternion.copy(quaternion);
+    entry.helper.scale.setScalar(size);
+
+    entry.handle.position.copy(center);
+    entry.handle.quaternion.copy(quaternion);
+    entry.handle.scale.setScalar(size * CLIPPING_CONFIG.handleScale);
+  }
+
+  /**
+   * Update the live box planes, the box helper and the face handles
+   */
+  private updateBoxObjects(): void {
+    const visible = this.boxEnabled && !this.box.isEmpty();
+    this.boxHelper.visible = visible;
+    this.boxHandles.forEach((handle) => (handle.visible = visible));
+    if (this.box.isEmpty()) {
+      return;
+    }
+
+    createSectionBoxPlanes(this.box).forEach((plane, face) => this.boxPlanes[face]!.copy(plane));
+
+    const center = this.box.getCenter(new THREE.Vector3());
+    const size = this.box.getSize(new THREE.Vector3()).length();
+
+    this.boxHandles.forEach((handle, face) => {
+      const axis = BOX_AXES[Math.floor(face / 2)]!;
+      const normal = this.boxPlanes[face]!.normal;
+      handle.position.copy(center);
+      handle.position[axis] = face % 2 === 1 ? this.box.max[axis] : this.box.min[axis];
+      handle.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), normal);
+      handle.scale.setScalar(size * CLIPPING_CONFIG.handleScale);
+    });
+  }
+
+  /**
+   * Create the cap fill and outline of a section
+   */
+  private createCapObjects(section: FRAGS.ModelSection): THREE.Object3D[] {
+    const objects: THREE.Object3D[] = [];
+    const position = new THREE.BufferAttribute(section.buffer, 3);
+
+    if (section.fillsIndices.length > 0) {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', position);
+      geometry.setIndex(section.fillsIndices);
+      objects.push(new THREE.Mesh(geometry, this.capMaterial));
+    }
+
+    if (section.index > 0) {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', position);
+      geometry.setDrawRange(0, section.index);
+      objects.push(new THREE.LineSegments(geometry, this.edgeMaterial));
+    }
+
+    return objects;
+  }
+
+  /**
+   * Remove the caps from the scene
+   */
+  private clearCaps(): void {
+    for (const cap of [...this.capsGroup.children]) {
+      this.capsGroup.remove(cap);
+      this.disposeCap(cap);
+    }
+  }
+
+  /**
+   * Dispose the geometry of a cap (materials are shared and kept)
+   */
+  private disposeCap(cap: THREE.Object3D): void {
+    if (cap instanceof THREE.Mesh || cap instanceof THREE.LineSegments) {
+      cap.geometry.dispose();
+    }
+  }
+
+  /**
+   * Create a plane entry with its helper and handle
+   */
+  private createEntry(
+    id: string,
+    label: string,
+    axis: ClippingPlaneAxis,
+    plane: THREE.Plane,
+    enabled: boolean
+  ): ClippingPlaneEntry {
+    const entry: ClippingPlaneEntry = {
+      id,
+      label,
+      axis,
+      enabled,
+      plane,
+      helper: new THREE.Mesh(new THREE.PlaneGeometry(1, 1), this.helperMaterial),
+      handle: this.createHandle({ kind: 'plane', id }),
+    };
+
+    this.entries.set(id, entry);
+    this.overlay.add(entry.helper, entry.handle);
+    this.updatePlaneObjects(entry);
+    return entry;
+  }
+
+  /**
+   * Create a draggable handle (drawn on top of the model)
+   */
+  private createHandle(target: ClippingDragTarget): THREE.Mesh {
+    const handle = new THREE.Mesh(new THREE.CircleGeometry(0.5, 24), this.handleMaterial);
+    handle.userData['clippingTarget'] = target;
+    handle.renderOrder = 1;
+    return handle;
+  }
+
+  /**
+   * Remove the helper quad and handle of a plane
+   */
+  private disposePlaneObjects(entry: ClippingPlaneEntry): void {
+    this.overlay.remove(entry.helper, entry.handle);
+    entry.helper.geometry.dispose();
+    entry.handle.geometry.dispose();
+  }
+
+  /**
+   * Set the raycaster from a pointer position in client pixels
+   */
+  private setRayFromPointer(camera: THREE.Camera, mouse: THREE.Vector2, dom: HTMLElement): void {
+    const rect = dom.getBoundingClientRect();
+    const ndc = new THREE.Vector2(
+      ((mouse.x - rect.left) / rect.width) * 2 - 1,
+      -((mouse.y - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(ndc, camera);
+  }
+}
@@ -0,0 +1,144 @@
+import { TestBed } from '@angular/core/testing';
+import { WritableSignal, signal } from '@angular/core';
+import * as THREE from 'three';
+import { DrawingViewService } from './drawing-view.service';
+import { ErrorHandlerService } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { ClippingService } from './clipping.service';
+import { ModelManagerService } from './model-manager.service';
+import { ClippingPlaneInfo } from '../../shared/models/clipping.model';
+import { DRAWING_VIEW_CONFIG } from '../../shared/constants/viewer.constants';
+
+describe('DrawingViewService', () => {
+  let service: DrawingViewService;
+  let fragmentsService: jasmine.SpyObj<FragmentsService>;
+  let planes: WritableSignal<ClippingPlaneInfo[]>;
+  let modelObject: THREE.Object3D;
+
+  const plane: ClippingPlaneInfo = {
+    id: 'plane-1',
+    label: 'Plane 1 (X)',
+    axis: 'x',
+    normal: { x: 1, y: 0, z: 0 },
+    constant: -1,
+    enabled: false,
+  };
+
+  // 2 m cube in front of a 1 m cube when seen from the north (world -z)
+  const boxes: Record<number, THREE.BoxGeometry> = {
+    1: new THREE.BoxGeometry(2, 2, 2).translate(1, 1, -1),
+    2: new THREE.BoxGeometry(1, 1, 1).translate(1, 1, 1),
+  };
+  const mesh = (localId: number) => ({
+    transform: new THREE.Matrix4(),
+    positions: boxes[localId]!.getAttribute('position').array as Float32Array,
+    indices: boxes[localId]!.getIndex()!.array as Uint16Array,
+  });
+
+  const exportSvg = async (id: string) => {
+    const result = await service.export(id);
+    return new TextDecoder().decode(result.data);
+  };
+
+  beforeEach(() => {
+    modelObject = new THREE.Object3D();
+    planes = signal([plane]);
+
+    const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', [
+      'getAllModels',
+      'getVisibleItems',
+      'getItemsGeometry',
+      'getSection',
+    ]);
+    fragmentsServiceSpy.getAllModels.and.returnValue([{ modelId: 'm1', object: modelObject }]);
+    fragmentsServiceSpy.getVisibleItems.and.returnValue(Promise.resolve([1, 2]));
+    fragmentsServiceSpy.getItemsGeometry.and.callFake((_: string, localIds: number[]) =>
+      Promise.resolve(localIds.map((localId) => [mesh(localId)]))
+    );
+    fragmentsServiceSpy.getSection.and.returnValue(
+      Promise.resolve({
+        buffer: new Float32Array([1, 0, 0, 1, 2, 0, 1, 2, -2]),
+        index: 2,
+        fillsIndices: [0, 1, 2],
+      })
+    );
+
+    const clippingServiceSpy = jasmine.createSpyObj('ClippingService', ['getCuttingPlanes'], { planes });
+    clippingServiceSpy.getCuttingPlanes.and.returnValue([]);
+
+    const modelManagerSpy = jasmine.createSpyObj('ModelManagerService', ['getModelByFragmentUuid']);
+    modelManagerSpy.getModelByFragmentUuid.and.returnValue({ name: 'tower.ifc' });
+
+    TestBed.configureTestingModule({
+      providers: [
+        DrawingViewService,
+        { provide: ErrorHandlerService, useValue: jasmine.createSpyObj('ErrorHandlerService', ['handleError']) },
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: ClippingService, useValue: clippingServiceSpy },
+        { provide: ModelManagerService, useValue: modelManagerSpy },
+      ],
+    });
+
+    service = TestBed.inject(DrawingViewService);
+    fragmentsService = TestBed.inject(FragmentsService) as jasmine.SpyObj<FragmentsService>;
+  });
+
+  it('should list the elevations and a section per section plane', () => {
+    expect(service.views().map((view) => view.name)).toEqual([
+      'North Elevation',
+      'South Elevation',
+      'East Elevation',
+      'West Elevation',
+      'Plane 1 (X) Section',
+    ]);
+    // Seen from the cut away side
+    expect(service.getView('plane-1')!.direction.x).toBe(-1);
+
+    planes.set([]);
+
+    expect(service.getView('plane-1')).toBeNull();
+  });
+
+  it('should return the plane of a section view', () => {
+    const sectionPlane = service.getSectionPlane(service.getView('plane-1')!)!;
+
+    expect(sectionPlane.normal.x).toBe(1);
+    expect(sectionPlane.constant).toBe(-1);
+    expect(service.getSectionPlane(service.getView('north')!)).toBeNull();
+  });
+
+  it('should export an elevation with a title block', async () => {
+    const svg = await exportSvg('north');
+
+    expect(svg).toContain('<title>North Elevation</title>');
+    expect(svg).toContain('>tower.ifc</text>');
+    expect(svg).toContain(`stroke="${DRAWING_VIEW_CONFIG.style.projectionStroke}"`);
+    expect(fragmentsService.getSection).not.toHaveBeenCalled();
+  });
+
+  it('should not draw edges hidden behind faces', async () => {
+    const svg = await exportSvg('north');
+
+    fragmentsService.getVisibleItems.and.returnValue(Promise.resolve([1]));
+
+    expect(await exportSvg('north')).toBe(svg);
+  });
+
+  it('should export the cut faces of a section', async () => {
+    const svg = await exportSvg('plane-1');
+
+    expect(svg).toContain('<title>Plane 1 (X) Section</title>');
+    expect(svg).toContain(`fill="${DRAWING_VIEW_CONFIG.style.cutFill}"`);
+    expect(fragmentsService.getSection.calls.mostRecent().args[2]).toEqual([1, 2]);
+  });
+
+  it('should fail for unknown views and without visible models', async () => {
+    expect((await service.export('up')).error).toBe('View not found');
+
+    modelObject.visible = false;
+    const result = await service.export('north');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('No visible geometry in this view');
+  });
+});
@@ -0,0 +1,289 @@
+import { Injectable, computed, inject } from '@angular/core';
+import * as THREE from 'three';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { ClippingService } from './clipping.service';
+import { ModelManagerService } from './model-manager.service';
+import { ExportResult } from '../../shared/models/ifc.model';
+import { CardinalDirection } from '../../shared/models/viewer.model';
+import { Drawing, DrawingPoint, DrawingView } from '../../shared/models/drawing.model';
+import { CARDINAL_DIRECTIONS, DRAWING_VIEW_CONFIG } from '../../shared/constants/viewer.constants';
+import { buildItemGeometry } from '../../shared/utils/gltf.utils';
+import { DrawingBounds, getDrawingBounds, layoutDrawingSheet, writeDrawingSvg } from '../../shared/utils/drawing.utils';
+import {
+  ViewBasis,
+  createDepthBuffer,
+  getViewBasis,
+  getVisibleSegments,
+  projectSection,
+  projectToView,
+  rasterizeTriangle,
+} from '../../shared/utils/hidden-line.utils';
+
+/**
+ * Projected faces and edges of the visible models (view x, y and depth per vertex)
+ */
+interface ProjectedGeometry {
+  triangles: number[];
+  edges: number[];
+}
+
+/**
+ * Service for elevation and section drawings
+ *
+ * Features:
+ * - North, south, east and west elevations (named like the orientation cube faces)
+ * - A section view for every section plane
+ * - Hidden-line SVG export with cut faces and title block
+ * - Active clipping (section planes, section box) applies to every view
+ *
+ * The viewport camera is handled by the viewer, this service only creates the drawings.
+ *
+ * @example
+ * ```typescript
+ * const result = await this.drawingViewService.export('north');
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class DrawingViewService {
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly clippingService = inject(ClippingService);
+  private readonly modelManager = inject(ModelManagerService);
+
+  // Elevations followed by one section per section plane
+  readonly views = computed<DrawingView[]>(() => [
+    ...(Object.keys(CARDINAL_DIRECTIONS) as CardinalDirection[]).map((key) => ({
+      id: key,
+      name: `${CARDINAL_DIRECTIONS[key].name} Elevation`,
+      kind: 'elevation' as const,
+      direction: { ...CARDINAL_DIRECTIONS[key].direction },
+      planeId: null,
+    })),
+    ...this.clippingService.planes().map((plane) => ({
+      id: plane.id,
+      name: `${plane.label} Section`,
+      kind: 'section' as const,
+      // Seen from the cut away side
+      direction: { x: -plane.normal.x, y: -plane.normal.y, z: -plane.normal.z },
+      planeId: plane.id,
+    })),
+  ]);
+
+  /**
+   * Find a view
+   * @param id - View identifier
+   */
+  getView(id: string): DrawingView | null {
+    return this.views().find((view) => view.id === id) ?? null;
+  }
+
+  /**
+   * Plane cutting a section view
+   * @returns World space plane (the kept side is in front of it) or null for elevations
+   */
+  getSectionPlane(view: DrawingView): THREE.Plane | null {
+    const plane = this.clippingService.planes().find((item) => item.id === view.planeId);
+    if (!plane) {
+      return null;
+    }
+
+    return new THREE.Plane(new THREE.Vector3(plane.normal.x, plane.normal.y, plane.normal.z), plane.constant);
+  }
+
+  /**
+   * Export a view as an SVG drawing
+   * @param id - View identifier
+   * @returns Export result with the file contents
+   */
+  async export(id: string): Promise<ExportResult> {
+    const startTime = performance.now();
+    const view = this.getView(id);
+    if (!view) {
+      return { success: false, error: 'View not found' };
+    }
+
+    try {
+      const drawing = await this.createDrawing(view);
+      if (!getDrawingBounds(drawing)) {
+        return {
+          success: false,
+          error: 'No visible geometry in this view',
+          duration: Math.round(performance.now() - startTime),
+        };
+      }
+
+      const sheet = layoutDrawingSheet(
+        drawing,
+        {
+          title: view.name,
+          subtitle: `${view.kind === 'section' ? 'Section' : 'Elevation'}, hidden lines removed`,
+          details: [
+            { label: 'Model', value: this.getModelNames() },
+            { label: 'Date', value: new Date().toISOString().slice(0, 10) },
+          ],
+          northAngle: null,
+        },
+        DRAWING_VIEW_CONFIG.style
+      );
+      const data = new TextEncoder().encode(writeDrawingSvg(sheet));
+      const duration = Math.round(performance.now() - startTime);
+
+      console.log(`✓ Drawing exported: ${view.name} at 1:${sheet.scale} in ${duration}ms`);
+
+      return {
+        success: true,
+        data,
+        fileSize: data.byteLength,
+        duration,
+      };
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.ERROR, {
+        operation: 'exportDrawingView',
+        view: view.id,
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration: Math.round(performance.now() - startTime),
+      };
+    }
+  }
+
+  /**
+   * Cut faces of a section and the visible edges of every visible model
+   */
+  private async createDrawing(view: DrawingView): Promise<Drawing> {
+    const basis = getViewBasis(view.direction);
+    const sectionPlane = this.getSectionPlane(view);
+    const planes = this.clippingService.getCuttingPlanes();
+    if (sectionPlane) {
+      planes.push(sectionPlane);
+    }
+
+    const drawing: Drawing = { cutFills: [], cutEdges: [], projectionEdges: [] };
+    const projected: ProjectedGeometry = { triangles: [], edges: [] };
+
+    for (const model of this.fragmentsService.getAllModels()) {
+      if (!model.object.visible) {
+        continue;
+      }
+
+      const visible = await this.fragmentsService.getVisibleItems(model.modelId);
+      if (sectionPlane) {
+        const section = await this.fragmentsService.getSection(model.modelId, sectionPlane, visible);
+        if (section) {
+          const cut = projectSection(section, basis);
+          drawing.cutFills.push(...cut.cutFills);
+          drawing.cutEdges.push(...cut.cutEdges);
+        }
+      }
+
+      for (let start = 0; start < visible.length; start += DRAWING_VIEW_CONFIG.batchSize) {
+        const batch = visible.slice(start, start + DRAWING_VIEW_CONFIG.batchSize);
+        const geometries = await this.fragmentsService.getItemsGeometry(model.modelId, batch);
+
+        for (const meshes of geometries) {
+          const geometry = buildItemGeometry(meshes, model.object.matrixWorld, planes);
+          if (geometry) {
+            this.projectGeometry(geometry, basis, projected);
+            geometry.dispose();
+          }
+        }
+      }
+    }
+
+    drawing.projectionEdges = this.removeHiddenLines(projected, drawing);
+    return drawing;
+  }
+
+  /**
+   * Project the faces and sharp edges of a world space geometry onto the view
+   */
+  private projectGeometry(geometry: THREE.BufferGeometry, basis: ViewBasis, projected: ProjectedGeometry): void {
+    const vertex = new THREE.Vector3();
+    const push = (target: number[], attribute: THREE.BufferAttribute, index: number) => {
+      projectToView(vertex.fromBufferAttribute(attribute, index), basis, vertex);
+      target.push(vertex.x, vertex.y, vertex.z);
+    };
+
+    const positions = geometry.getAttribute('position') as THREE.BufferAttribute;
+    const index = geometry.getIndex();
+    const count = index ? index.count : positions.count;
+    for (let offset = 0; offset < count - (count % 3); offset++) {
+      push(projected.triangles, positions, index ? index.getX(offset) : offset);
+    }
+
+    const edges = new THREE.EdgesGeometry(geometry, DRAWING_VIEW_CONFIG.edgeAngle);
+    const edgePositions = edges.getAttribute('position') as THREE.BufferAttribute;
+    for (let offset = 0; offset < edgePositions.count; offset++) {
+      push(projected.edges, edgePositions, offset);
+    }
+    edges.dispose();
+  }
+
+  /**
+   * Visible parts of the projected edges, hidden by the projected faces
+   */
+  private removeHiddenLines(projected: ProjectedGeometry, drawing: Drawing): DrawingPoint[][] {
+    const { triangles, edges } = projected;
+    const bounds = this.getBounds(drawing, triangles);
+    if (!bounds || edges.length === 0) {
+      return [];
+    }
+
+    const buffer = createDepthBuffer(bounds);
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const c = new THREE.Vector3();
+    for (let offset = 0; offset + 9 <= triangles.length; offset += 9) {
+      rasterizeTriangle(
+        buffer,
+        a.fromArray(triangles, offset),
+        b.fromArray(triangles, offset + 3),
+        c.fromArray(triangles, offset + 6)
+      );
+    }
+
+    const segments: DrawingPoint[][] = [];
+    for (let offset = 0; offset + 6 <= edges.length; offset += 6) {
+      segments.push(...getVisibleSegments(buffer, a.fromArray(edges, offset), b.fromArray(edges, offset + 3)));
+    }
+    return segments;
+  }
+
+  /**
+   * View bounds of the cut and the projected faces (edges lie on the faces)
+   */
+  private getBounds(drawing: Drawing, triangles: number[]): DrawingBounds | null {
+    const bounds = getDrawingBounds(drawing) ?? {
+      minX: Infinity,
+      minY: Infinity,
+      maxX: -Infinity,
+      maxY: -Infinity,
+    };
+
+    for (let offset = 0; offset + 3 <= triangles.length; offset += 3) {
+      bounds.minX = Math.min(bounds.minX, triangles[offset]!);
+      bounds.maxX = Math.max(bounds.maxX, triangles[offset]!);
+      bounds.minY = Math.min(bounds.minY, triangles[offset + 1]!);
+      bounds.maxY = Math.max(bounds.maxY, triangles[offset + 1]!);
+    }
+
+    return Number.isFinite(bounds.minX) ? bounds : null;
+  }
+
+  /**
+   * Names of the visible models
+   */
+  private getModelNames(): string {
+    return this.fragmentsService
+      .getAllModels()
+      .filter((model) => model.object.visible)
+      .map((model) => this.modelManager.getModelByFragmentUuid(model.modelId)?.name ?? model.modelId)
+      .join(', ');
+  }
+}
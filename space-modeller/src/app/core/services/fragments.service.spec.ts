@@ -5,6 +5,7 @@ import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
 import { ConfigService } from './config.service';
 import * as OBC from '@thatopen/components';
 import * as FRAGS from '@thatopen/fragments';
+import * as WEBIFC from 'web-ifc';
 
 describe('FragmentsService', () => {
   let service: FragmentsService;
@@ -134,7 +135,12 @@ describe('FragmentsService', () => {
         load: jasmine.createSpy('load').and.returnValue(Promise.resolve(mockModel)),
       };
 
-      (service as any).fragmentsManager = {};
+      (service as any).fragmentsManager = {
+        core: {
+          abort: jasmine.createSpy('abort'),
+          disposeModel: jasmine.createSpy('disposeModel').and.returnValue(Promise.resolve()),
+        },
+      };
     });
 
     it('should throw error if buffer is empty', async () => {
@@ -157,6 +163,21 @@ describe('FragmentsService', () => {
       expect(service.modelCount).toBe(1);
     });
 
+    it('should keep both models when the same file is loaded twice', async () => {
+      (service as any).ifcLoader.load.and.callFake((_buffer: Uint8Array, _coordinate: boolean, modelId: string) =>
+        Promise.resolve({ modelId, object: new THREE.Group(), items: new Map() })
+      );
+      const buffer = new Uint8Array([1, 2, 3]);
+
+      const first = await service.loadIfc(buffer, 'test-model');
+      const second = await service.loadIfc(buffer, 'test-model');
+
+      expect(first).not.toBe(second);
+      expect(first).not.toBe('test-model');
+      expect(service.modelCount).toBe(2);
+      expect(service.getModelIds()).toEqual([first, second]);
+    });
+
     it('should call progress callback', fakeAsync(() => {
       const buffer = new Uint8Array([1, 2, 3]);
       const progressSpy = jasmine.createSpy('progress');
@@ -165,10 +186,103 @@ describe('FragmentsService', () => {
       tick(100);
       flush();
 
-      expect(progressSpy).toHaveBeenCalledWith(0);
-      expect(progressSpy).toHaveBeenCalledWith(100);
+      expect(progressSpy).toHaveBeenCalledWith(5, 'parsing');
+      expect(progressSpy).toHaveBeenCalledWith(90, 'fragments');
     }));
 
+    it('should forward conversion progress as stages', async () => {
+      const progressSpy = jasmine.createSpy('progress');
+      (service as any).ifcLoader.load.and.callFake((_buffer: Uint8Array, _coordinate: boolean, _name: string, config: any) => {
+        config.processData.progressCallback(0.25, { process: 'geometries', state: 'inProgress' });
+        return Promise.resolve({ modelId: 'test-uuid', object: new THREE.Group(), items: new Map() });
+      });
+
+      await service.loadIfc(new Uint8Array([1, 2, 3]), 'test-model', progressSpy);
+
+      expect(progressSpy).toHaveBeenCalledWith(42.5, 'geometry');
+    });
+
+    it('should import zones with their spaces', async () => {
+      const importer = { classes: { abstract: new Set<number>() }, relations: new Map<number, unknown>() };
+      (service as any).ifcLoader.load.and.callFake((_buffer: Uint8Array, _coordinate: boolean, _name: string, config: any) => {
+        config.instanceCallback(importer);
+        return Promise.resolve({ modelId: 'test-uuid', object: new THREE.Group(), items: new Map() });
+      });
+
+      await service.loadIfc(new Uint8Array([1, 2, 3]), 'test-model');
+
+      expect(importer.classes.abstract.has(WEBIFC.IFCZONE)).toBe(true);
+      expect(importer.relations.get(WEBIFC.IFCRELASSIGNSTOGROUP)).toEqual({
+        forRelating: 'IsGroupedBy',
+        forRelated: 'HasAssignments',
+      });
+    });
+
+    it('should not start when already cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expectAsync(
+        service.loadIfc(new Uint8Array([1, 2, 3]), 'test-model', undefined, controller.signal)
+      ).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }));
+
+      expect((service as any).ifcLoader.load).not.toHaveBeenCalled();
+    });
+
+    it('should stop the conversion when cancelled', async () => {
+      const controller = new AbortController();
+      (service as any).ifcLoader.load.and.callFake(async (_buffer: Uint8Array, _coordinate: boolean, _name: string, config: any) => {
+        controller.abort();
+        config.processData.progressCallback(0.1, { process: 'geometries', state: 'inProgress' });
+      });
+
+      await expectAsync(
+        service.loadIfc(new Uint8Array([1, 2, 3]), 'test-model', undefined, controller.signal)
+      ).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }));
+
+      expect(errorHandler.handleError).not.toHaveBeenCalled();
+    });
+
+    it('should release the web-ifc APIs of a cancelled conversion', async () => {
+      const controller = new AbortController();
+      const init = spyOn(WEBIFC.IfcAPI.prototype, 'Init').and.callFake(function (this: WEBIFC.IfcAPI) {
+        this.wasmModule = { CloseAllModels: jasmine.createSpy('CloseAllModels') };
+        return Promise.resolve();
+      });
+      const apis: WEBIFC.IfcAPI[] = [];
+      (service as any).ifcLoader.load.and.callFake(async (_buffer: Uint8Array, _coordinate: boolean, _name: string, config: any) => {
+        apis.push(new WEBIFC.IfcAPI());
+        await apis[0]!.Init();
+        controller.abort();
+        config.processData.progressCallback(0.5, { process: 'geometries', state: 'inProgress' });
+      });
+
+      await expectAsync(
+        service.loadIfc(new Uint8Array([1, 2, 3]), 'test-model', undefined, controller.signal)
+      ).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }));
+
+      expect(apis[0]!.wasmModule).toBeUndefined();
+      expect(WEBIFC.IfcAPI.prototype.Init).toBe(init);
+    });
+
+    it('should dispose a model converted after cancelling', async () => {
+      const controller = new AbortController();
+      (service as any).ifcLoader.load.and.callFake(() => {
+        controller.abort();
+        return Promise.resolve({ modelId: 'test-uuid', object: new THREE.Group(), items: new Map() });
+      });
+
+      await expectAsync(
+        service.loadIfc(new Uint8Array([1, 2, 3]), 'test-model', undefined, controller.signal)
+      ).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }));
+
+      const modelId = (service as any).ifcLoader.load.calls.mostRecent().args[2];
+      expect(modelId).not.toBe('test-model');
+      expect((service as any).fragmentsManager.core.abort).toHaveBeenCalledWith(modelId);
+      expect((service as any).fragmentsManager.core.disposeModel).toHaveBeenCalledWith('test-uuid');
+      expect(service.modelCount).toBe(0);
+    });
+
     it('should handle load error', async () => {
       const mockError = new Error('Load failed');
       (service as any).ifcLoader.load.and.returnValue(Promise.reject(mockError));
@@ -197,6 +311,87 @@ describe('FragmentsService', () => {
     });
   });
 
+  describe('loadFragments', () => {
+    let load: jasmine.Spy;
+    let abort: jasmine.Spy;
+
+    beforeEach(() => {
+      (service as any).initialized = true;
+      (service as any).scene = mockScene;
+      (service as any).camera = mockCamera;
+      (service as any).ifcLoader = {
+        load: jasmine.createSpy('load'),
+      };
+
+      load = jasmine
+        .createSpy('load')
+        .and.callFake((_buffer: ArrayBuffer, options: { modelId: string }) =>
+          Promise.resolve({ modelId: options.modelId, object: new THREE.Group(), items: new Map() })
+        );
+      abort = jasmine.createSpy('abort');
+      (service as any).fragmentsManager = { core: { load, abort } };
+    });
+
+    it('should load fragments without converting IFC', async () => {
+      const buffer = new Uint8Array([1, 2, 3]);
+      const progressSpy = jasmine.createSpy('progress');
+
+      const uuid = await service.loadFragments(buffer, 'frag-model', progressSpy);
+
+      expect(uuid).not.toBe('frag-model');
+      expect(load).toHaveBeenCalledWith(buffer, jasmine.objectContaining({ modelId: uuid }));
+      expect((service as any).ifcLoader.load).not.toHaveBeenCalled();
+      expect(service.modelCount).toBe(1);
+      expect(progressSpy).toHaveBeenCalledWith(90, 'fragments');
+    });
+
+    it('should abort building the model when cancelled', async () => {
+      const controller = new AbortController();
+      load.and.callFake(() => {
+        controller.abort();
+        return Promise.reject(Object.assign(new Error('aborted'), { name: 'LoadAbortedError' }));
+      });
+
+      await expectAsync(
+        service.loadFragments(new Uint8Array([1, 2, 3]), 'frag-model', undefined, controller.signal)
+      ).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }));
+
+      expect(abort).toHaveBeenCalledWith(load.calls.mostRecent().args[1].modelId);
+      expect(errorHandler.handleError).not.toHaveBeenCalled();
+    });
+
+    it('should keep both models when the same fragments are loaded twice', async () => {
+      const buffer = new Uint8Array([1, 2, 3]);
+
+      const first = await service.loadFragments(buffer, 'frag-model');
+      const second = await service.loadFragments(buffer, 'frag-model');
+
+      expect(first).not.toBe(second);
+      expect(service.modelCount).toBe(2);
+    });
+
+    it('should throw error if buffer is empty', async () => {
+      await expectAsync(
+        service.loadFragments(new ArrayBuffer(0), 'frag-model')
+      ).toBeRejectedWithError(/Invalid buffer: empty or null/);
+    });
+
+    it('should report invalid fragments files', async () => {
+      const mockError = new Error('Invalid fragments data');
+      load.and.returnValue(Promise.reject(mockError));
+
+      await expectAsync(
+        service.loadFragments(new Uint8Array([1, 2, 3]), 'frag-model')
+      ).toBeRejectedWithError(/Failed to load fragments file/);
+
+      expect(errorHandler.handleError).toHaveBeenCalledWith(
+        mockError,
+        ErrorSeverity.ERROR,
+        jasmine.objectContaining({ operation: 'loadFragments' })
+      );
+    });
+  });
+
   describe('getModel', () => {
     beforeEach(() => {
       (service as any).initialized = true;
@@ -393,6 +588,399 @@ describe('FragmentsService', () => {
     });
   });
 
+  describe('getModelIds', () => {
+    it('should return ids in load order', () => {
+      (service as any).loadedModels.set('first-uuid', { modelId: 'first-uuid' });
+      (service as any).loadedModels.set('second-uuid', { modelId: 'second-uuid' });
+
+      expect(service.getModelIds()).toEqual(['first-uuid', 'second-uuid']);
+    });
+  });
+
+  describe('setModelVisibility', () => {
+    it('should toggle the model object visibility', () => {
+      const mockModel = {
+        modelId: 'test-uuid',
+        object: new THREE.Group(),
+      };
+
+      (service as any).loadedModels.set('test-uuid', mockModel);
+
+      expect(service.setModelVisibility('test-uuid', false)).toBe(true);
+      expect(mockModel.object.visible).toBe(false);
+
+      expect(service.setModelVisibility('test-uuid', true)).toBe(true);
+      expect(mockModel.object.visible).toBe(true);
+    });
+
+    it('should return false if model not found', () => {
+      expect(service.setModelVisibility('nonexistent-uuid', false)).toBe(false);
+    });
+  });
+
+  describe('raycast', () => {
+    const canvas = document.createElement('canvas');
+    const mouse = new THREE.Vector2(10, 10);
+
+    beforeEach(() => {
+      (service as any).initialized = true;
+      (service as any).ifcLoader = {};
+      (service as any).fragmentsManager = {};
+    });
+
+    it('should return the closest hit across visible models', async () => {
+      const near = { localId: 1, distance: 2 };
+      const far = { localId: 2, distance: 8 };
+
+      (service as any).loadedModels.set('far-uuid', {
+        object: new THREE.Group(),
+        raycast: jasmine.createSpy('raycast').and.returnValue(Promise.resolve(far)),
+      });
+      (service as any).loadedModels.set('near-uuid', {
+        object: new THREE.Group(),
+        raycast: jasmine.createSpy('raycast').and.returnValue(Promise.resolve(near)),
+      });
+
+      const result = await service.raycast(mockCamera, mouse, canvas);
+
+      expect(result as any).toBe(near);
+    });
+
+    it('should skip hidden models', async () => {
+      const hidden = new THREE.Group();
+      hidden.visible = false;
+      const raycastSpy = jasmine.createSpy('raycast');
+
+      (service as any).loadedModels.set('hidden-uuid', { object: hidden, raycast: raycastSpy });
+
+      const result = await service.raycast(mockCamera, mouse, canvas);
+
+      expect(raycastSpy).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should throw if not initialized', async () => {
+      (service as any).initialized = false;
+
+      await expectAsync(service.raycast(mockCamera, mouse, canvas)).toBeRejectedWithError(
+        /FragmentsService not initialized/
+      );
+    });
+  });
+
+  describe('raycastWithSnapping', () => {
+    const canvas = document.createElement('canvas');
+    const mouse = new THREE.Vector2(10, 10);
+
+    beforeEach(() => {
+      (service as any).initialized = true;
+      (service as any).ifcLoader = {};
+      (service as any).fragmentsManager = {};
+    });
+
+    it('should collect snap candidates of every visible model', async () => {
+      const vertex = { localId: 1, distance: 2, snappingClass: FRAGS.SnappingClass.POINT };
+      const face = { localId: 2, distance: 1, snappingClass: FRAGS.SnappingClass.FACE };
+      const snapSpy = jasmine.createSpy('raycastWithSnapping').and.returnValue(Promise.resolve([vertex]));
+      const hidden = new THREE.Group();
+      hidden.visible = false;
+
+      (service as any).loadedModels.set('first-uuid', { object: new THREE.Group(), raycastWithSnapping: snapSpy });
+      (service as any).loadedModels.set('second-uuid', {
+        object: new THREE.Group(),
+        raycastWithSnapping: jasmine.createSpy('raycastWithSnapping').and.returnValue(Promise.resolve([face])),
+      });
+      (service as any).loadedModels.set('empty-uuid', {
+        object: new THREE.Group(),
+        raycastWithSnapping: jasmine.createSpy('raycastWithSnapping').and.returnValue(Promise.resolve(null)),
+      });
+      (service as any).loadedModels.set('hidden-uuid', { object: hidden, raycastWithSnapping: snapSpy });
+
+      const results = await service.raycastWithSnapping(mockCamera, mouse, canvas, [
+        FRAGS.SnappingClass.POINT,
+        FRAGS.SnappingClass.FACE,
+      ]);
+
+      expect(results as any[]).toEqual([vertex, face]);
+      expect(snapSpy).toHaveBeenCalledTimes(1);
+      expect(snapSpy.calls.mostRecent().args[0].snappingClasses).toEqual([
+        FRAGS.SnappingClass.POINT,
+        FRAGS.SnappingClass.FACE,
+      ]);
+    });
+  });
+
+  describe('highlight', () => {
+    let mockModel: any;
+
+    beforeEach(() => {
+      mockModel = {
+        highlight: jasmine.createSpy('highlight').and.returnValue(Promise.resolve()),
+        resetHighlight: jasmine.createSpy('resetHighlight').and.returnValue(Promise.resolve()),
+      };
+      (service as any).loadedModels.set('test-uuid', mockModel);
+    });
+
+    it('should highlight items of a model', async () => {
+      const material = {
+        color: new THREE.Color(0xff0000),
+        renderedFaces: FRAGS.RenderedFaces.TWO,
+        opacity: 1,
+        transparent: false,
+      };
+
+      await service.highlightItems('test-uuid', [1, 2], material);
+
+      expect(mockModel.highlight).toHaveBeenCalledWith([1, 2], material);
+    });
+
+    it('should reset the highlight of a model', async () => {
+      await service.resetHighlight('test-uuid', [1]);
+
+      expect(mockModel.resetHighlight).toHaveBeenCalledWith([1]);
+    });
+  });
+
+  describe('getItemsData', () => {
+    it('should request item data from the model', async () => {
+      const data = [{ Name: { value: 'Wall' } }];
+      const mockModel = {
+        getItemsData: jasmine.createSpy('getItemsData').and.returnValue(Promise.resolve(data)),
+      };
+      (service as any).loadedModels.set('test-uuid', mockModel);
+
+      const result = await service.getItemsData('test-uuid', [5], { attributesDefault: true });
+
+      expect(mockModel.getItemsData).toHaveBeenCalledWith([5], { attributesDefault: true });
+      expect(result).toEqual(data);
+    });
+
+    it('should return an empty array for unknown models', async () => {
+      expect(await service.getItemsData('nonexistent-uuid', [5])).toEqual([]);
+    });
+  });
+
+  describe('spatial structure and items', () => {
+    let mockModel: any;
+
+    beforeEach(() => {
+      mockModel = {
+        getSpatialStructure: jasmine
+          .createSpy('getSpatialStructure')
+          .and.returnValue(Promise.resolve({ category: 'IFCPROJECT', localId: 1 })),
+        setVisible: jasmine.createSpy('setVisible').and.returnValue(Promise.resolve()),
+        getMergedBox: jasmine
+          .createSpy('getMergedBox')
+          .and.returnValue(
+            Promise.resolve(new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(1, 1, 1)))
+          ),
+        getBoxes: jasmine
+          .createSpy('getBoxes')
+          .and.returnValue(
+            Promise.resolve([new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(2, 1, 1)), new THREE.Box3()])
+          ),
+        getCoordinates: jasmine.createSpy('getCoordinates').and.returnValue(Promise.resolve([100, 2.5, 200])),
+        getItemsIdsWithGeometry: jasmine
+          .createSpy('getItemsIdsWithGeometry')
+          .and.returnValue(Promise.resolve([10, 11, 12, 10, 13])),
+        getItemsWithGeometryCategories: jasmine
+          .createSpy('getItemsWithGeometryCategories')
+          .and.returnValue(Promise.resolve(['IFCWALL', 'IFCDOOR', 'IFCWALL', 'IFCWALL', null])),
+        getItemsOfCategories: jasmine
+          .createSpy('getItemsOfCategories')
+          .and.returnValue(Promise.resolve({ IFCUNITASSIGNMENT: [7] })),
+        getItemsData: jasmine
+          .createSpy('getItemsData')
+          .and.returnValue(
+            Promise.resolve([
+              { Units: [{ UnitType: { value: 'LENGTHUNIT' }, Name: { value: 'METRE' }, Prefix: { value: 'MILLI' } }] },
+            ])
+          ),
+        getItemsVolume: jasmine.createSpy('getItemsVolume').and.returnValue(Promise.resolve(2.5)),
+        getItemsByVisibility: jasmine.createSpy('getItemsByVisibility').and.returnValue(Promise.resolve([10, 11])),
+        getItemsGeometry: jasmine
+          .createSpy('getItemsGeometry')
+          .and.returnValue(Promise.resolve([[{ transform: new THREE.Matrix4(), localId: 10 }]])),
+        getItemsMaterialDefinition: jasmine.createSpy('getItemsMaterialDefinition').and.returnValue(
+          Promise.resolve([
+            { definition: { color: new THREE.Color(1, 0, 0), opacity: 1 }, localIds: [10] },
+            { definition: { color: new THREE.Color(0, 0, 1), opacity: 0.5 }, localIds: [10, 11] },
+          ])
+        ),
+      };
+      (service as any).loadedModels.set('test-uuid', mockModel);
+    });
+
+    it('should return the spatial structure of a model', async () => {
+      const structure = await service.getSpatialStructure('test-uuid');
+
+      expect(structure?.category).toBe('IFCPROJECT');
+      expect(await service.getSpatialStructure('nonexistent-uuid')).toBeNull();
+    });
+
+    it('should group items with geometry by category', async () => {
+      const itemsByCategory = await service.getItemsByCategory('test-uuid');
+
+      expect(Array.from(itemsByCategory.entries())).toEqual([
+        ['IFCWALL', [10, 12]],
+        ['IFCDOOR', [11]],
+      ]);
+      expect((await service.getItemsByCategory('nonexistent-uuid')).size).toBe(0);
+    });
+
+    it('should return the items of categories', async () => {
+      const categories = [/^IFCUNITASSIGNMENT$/];
+
+      expect(await service.getItemsOfCategories('test-uuid', categories)).toEqual({ IFCUNITASSIGNMENT: [7] });
+      expect(mockModel.getItemsOfCategories).toHaveBeenCalledWith(categories);
+      expect(await service.getItemsOfCategories('nonexistent-uuid', categories)).toEqual({});
+    });
+
+    it('should return the volume of items', async () => {
+      expect(await service.getItemsVolume('test-uuid', [3])).toBe(2.5);
+      expect(await service.getItemsVolume('test-uuid', [])).toBe(0);
+      expect(await service.getItemsVolume('nonexistent-uuid', [3])).toBe(0);
+    });
+
+    it('should return the visible items', async () => {
+      expect(await service.getVisibleItems('test-uuid')).toEqual([10, 11]);
+      expect(mockModel.getItemsByVisibility).toHaveBeenCalledWith(true);
+      expect(await service.getVisibleItems('nonexistent-uuid')).toEqual([]);
+    });
+
+    it('should return the geometry of items', async () => {
+      const geometry = await service.getItemsGeometry('test-uuid', [10]);
+
+      expect(mockModel.getItemsGeometry).toHaveBeenCalledWith([10]);
+      expect(geometry[0]![0]!.localId).toBe(10);
+      expect(await service.getItemsGeometry('test-uuid', [])).toEqual([]);
+    });
+
+    it('should return the first material of each item', async () => {
+      const materials = await service.getItemsMaterials('test-uuid', [10, 11]);
+
+      expect(materials.get(10)!.color.r).toBe(1);
+      expect(materials.get(11)!.opacity).toBe(0.5);
+      expect((await service.getItemsMaterials('nonexistent-uuid', [10])).size).toBe(0);
+    });
+
+    it('should set the visibility of individual items', async () => {
+      expect(await service.setItemsVisibility('test-uuid', [3, 4], false)).toBe(true);
+      expect(mockModel.setVisible).toHaveBeenCalledWith([3, 4], false);
+    });
+
+    it('should return false when setting visibility of an unknown model', async () => {
+      expect(await service.setItemsVisibility('nonexistent-uuid', [3], false)).toBe(false);
+    });
+
+    it('should return the merged box of items', async () => {
+      const box = await service.getItemsBox('test-uuid', [3]);
+
+      expect(mockModel.getMergedBox).toHaveBeenCalledWith([3]);
+      expect(box?.max.x).toBe(1);
+    });
+
+    it('should return null for empty item lists or empty boxes', async () => {
+      expect(await service.getItemsBox('test-uuid', [])).toBeNull();
+
+      mockModel.getMergedBox.and.returnValue(Promise.resolve(new THREE.Box3()));
+      expect(await service.getItemsBox('test-uuid', [3])).toBeNull();
+    });
+
+    it('should return the box of each item', async () => {
+      const boxes = await service.getItemsBoxes('test-uuid', [3, 4]);
+
+      expect(mockModel.getBoxes).toHaveBeenCalledWith([3, 4]);
+      expect(boxes[0]?.max.x).toBe(2);
+      expect(boxes[1]).toBeNull();
+      expect(await service.getItemsBoxes('nonexistent-uuid', [3])).toEqual([null]);
+    });
+
+    it('should read the project units of a model', async () => {
+      const units = await service.getProjectUnits('test-uuid');
+
+      expect(mockModel.getItemsData).toHaveBeenCalledWith([7], jasmine.any(Object));
+      expect(units.length.factor).toBe(1000);
+      expect((await service.getProjectUnits('nonexistent-uuid')).length.factor).toBe(1);
+    });
+
+    it('should return the model coordinates', async () => {
+      expect(await service.getCoordinates('test-uuid')).toEqual([100, 2.5, 200]);
+      expect(await service.getCoordinates('nonexistent-uuid')).toBeNull();
+    });
+  });
+
+  describe('GlobalIds', () => {
+    beforeEach(() => {
+      (service as any).loadedModels.set('first-uuid', {
+        getGuidsByLocalIds: jasmine
+          .createSpy('getGuidsByLocalIds')
+          .and.returnValue(Promise.resolve(['guid-a', null])),
+        getLocalIdsByGuids: jasmine
+          .createSpy('getLocalIdsByGuids')
+          .and.callFake((guids: string[]) => Promise.resolve(guids.map((g) => (g === 'guid-a' ? 5 : null)))),
+      });
+      (service as any).loadedModels.set('second-uuid', {
+        getLocalIdsByGuids: jasmine
+          .createSpy('getLocalIdsByGuids')
+          .and.callFake((guids: string[]) => Promise.resolve(guids.map((g) => (g === 'guid-b' ? 9 : null)))),
+      });
+    });
+
+    it('should return the GlobalIds of items', async () => {
+      expect(await service.getItemGuids('first-uuid', [5, 6])).toEqual(['guid-a', null]);
+      expect(await service.getItemGuids('nonexistent-uuid', [5])).toEqual([null]);
+    });
+
+    it('should find items by GlobalId across models', async () => {
+      const found = await service.findItemsByGuids(['guid-b', 'guid-a', 'missing', 'guid-a']);
+
+      expect(found).toEqual([
+        { modelId: 'first-uuid', localId: 5 },
+        { modelId: 'second-uuid', localId: 9 },
+      ]);
+    });
+  });
+
+  describe('getSection', () => {
+    let mockModel: any;
+
+    beforeEach(() => {
+      mockModel = {
+        object: new THREE.Group(),
+        getSection: jasmine
+          .createSpy('getSection')
+          .and.callFake(() =>
+            Promise.resolve({ buffer: new Float32Array([1, 0, 0, 2, 0, 0]), index: 2, fillsIndices: [] })
+          ),
+      };
+      (service as any).loadedModels.set('test-uuid', mockModel);
+    });
+
+    it('should return null for unknown models', async () => {
+      expect(await service.getSection('nonexistent-uuid', new THREE.Plane())).toBeNull();
+    });
+
+    it('should cut the model in model space and return world positions', async () => {
+      mockModel.object.position.set(10, 0, 0);
+      mockModel.object.updateMatrixWorld(true);
+
+      const plane = new THREE.Plane(new THREE.Vector3(1, 0, 0), -11);
+      const section = await service.getSection('test-uuid', plane);
+
+      const localPlane = mockModel.getSection.calls.mostRecent().args[0] as THREE.Plane;
+      expect(localPlane.constant).toBeCloseTo(-1);
+      expect(Array.from(section!.buffer)).toEqual([11, 0, 0, 12, 0, 0]);
+      expect(section!.index).toBe(2);
+    });
+
+    it('should only cut the given items', async () => {
+      await service.getSection('test-uuid', new THREE.Plane(), [3, 4]);
+
+      expect(mockModel.getSection.calls.mostRecent().args[1]).toEqual([3, 4]);
+    });
+  });
+
   describe('bindCamera', () => {
     it('should bind camera', () => {
       service.bindCamera(mockCamera);
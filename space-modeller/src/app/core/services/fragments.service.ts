@@ -2,14 +2,30 @@ import { Injectable, inject } from '@angular/core';
 import * as THREE from 'three';
 import * as OBC from '@thatopen/components';
 import * as FRAGS from '@thatopen/fragments';
+import * as WEBIFC from 'web-ifc';
 import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
 import { ConfigService } from './config.service';
-import { IfcLoadConfig, ExportResult, ModelStatistics } from '../../shared/models/ifc.model';
+import {
+  IfcLoadConfig,
+  ExportResult,
+  LoadProgressCallback,
+  ModelStatistics,
+} from '../../shared/models/ifc.model';
+import { ElementReference } from '../../shared/models/selection.model';
+import { ProjectUnits } from '../../shared/models/measurement.model';
 import {
   calculateModelStatistics,
   disposeObject,
   estimateMemoryUsage,
 } from '../../shared/utils/three.utils';
+import {
+  createAbortError,
+  getConversionProgress,
+  getStagedProgress,
+  isAbortError,
+  throwIfAborted,
+} from '../../shared/utils/loading.utils';
+import { parseProjectUnits } from '../../shared/utils/measurement.utils';
 
 /**
  * Service for managing ThatOpen Components and Fragments
@@ -18,9 +34,9 @@ import {
  * Features:
  * - Proper error handling and reporting
  * - Resource management and cleanup
- * - Progress tracking
+ * - Staged progress tracking and cancellation
  * - Model statistics
- * - Fragment export
+ * - Fragment export and re-import
  * 
  * @example
  * ```typescript
@@ -190,17 +206,20 @@ export class FragmentsService {
 
   /**
    * Load an IFC file and convert to fragments
+   * Progress of the conversion is reported through the parsing, geometry and fragments stages
    * 
    * @param buffer - IFC file data as Uint8Array
-   * @param name - Model name for identification
-   * @param onProgress - Optional progress callback (0-100)
-   * @returns Fragment model UUID
-   * @throws Error if loading fails
+   * @param name - Model name shown in logs and errors
+   * @param onProgress - Optional progress callback (0-100) with the current stage
+   * @param signal - Optional signal to cancel loading
+   * @returns Fragment model UUID (unique for every load)
+   * @throws Error if loading fails, AbortError if cancelled
    */
   async loadIfc(
     buffer: Uint8Array,
     name: string,
-    onProgress?: (progress: number) => void
+    onProgress?: LoadProgressCallback,
+    signal?: AbortSignal
   ): Promise<string> {
     this.ensureInitialized();
 
@@ -212,18 +231,49 @@ export class FragmentsService {
       throw new Error('Invalid model name');
     }
 
+    throwIfAborted(signal, name);
+
+    // The name is only shown, so files loaded twice or revisions of the same file do not collide
+    const modelId = crypto.randomUUID();
+
+    // Abort building the fragments model once the conversion is done
+    const abortLoad = () => this.fragmentsManager?.core.abort(modelId);
+    signal?.addEventListener('abort', abortLoad, { once: true });
+
     try {
       console.log(`📦 Loading IFC: ${name} (${(buffer.length / 1024 / 1024).toFixed(2)} MB)`);
       
-      onProgress?.(0);
+      onProgress?.(getStagedProgress('parsing', 0), 'parsing');
 
       // Load the IFC file
-      const model = await this.ifcLoader!.load(buffer, true, name);
+      const model = await this.releaseWebIfcApis(() => this.ifcLoader!.load(buffer, true, modelId, {
+        // Zones and their spaces are not imported by default
+        instanceCallback: (importer) => {
+          importer.classes.abstract.add(WEBIFC.IFCZONE);
+          importer.relations.set(WEBIFC.IFCRELASSIGNSTOGROUP, {
+            forRelating: 'IsGroupedBy',
+            forRelated: 'HasAssignments',
+          });
+        },
+        processData: {
+          progressCallback: (progress, data) => {
+            // Throwing here stops the conversion
+            throwIfAborted(signal, name);
+            const converted = getConversionProgress(progress, data);
+            onProgress?.(converted.progress, converted.stage);
+          },
+        },
+      }));
 
       if (!model || !model.modelId) {
         throw new Error('Failed to load IFC model: model is null or has no ID');
       }
 
+      if (signal?.aborted) {
+        await this.fragmentsManager!.core.disposeModel(model.modelId);
+        throw createAbortError(name);
+      }
+
       console.log(`✓ Model loaded: ${name} (ID: ${model.modelId})`);
 
       // Add fragments to scene
@@ -237,16 +287,104 @@ export class FragmentsService {
       // Store model reference
       this.loadedModels.set(model.modelId, model);
 
-      onProgress?.(100);
+      onProgress?.(getStagedProgress('fragments', 1), 'fragments');
 
       return model.modelId;
     } catch (error) {
+      if (signal?.aborted || isAbortError(error)) {
+        console.log(`⏹️ Loading cancelled: ${name}`);
+        throw createAbortError(name);
+      }
+
       this.errorHandler.handleError(error, ErrorSeverity.ERROR, {
         operation: 'loadIfc',
         modelName: name,
         bufferSize: buffer.length,
       });
       throw new Error(`Failed to load IFC file "${name}": ${error}`);
+    } finally {
+      signal?.removeEventListener('abort', abortLoad);
+    }
+  }
+
+  /**
+   * Load a previously exported fragments file
+   * Skips the web-ifc conversion, so converted models open in seconds
+   *
+   * @param buffer - Fragments file data
+   * @param name - Model name shown in logs and errors
+   * @param onProgress - Optional progress callback (0-100) with the current stage
+   * @param signal - Optional signal to cancel loading
+   * @returns Fragment model UUID (unique for every load)
+   * @throws Error if loading fails, AbortError if cancelled
+   */
+  async loadFragments(
+    buffer: Uint8Array | ArrayBuffer,
+    name: string,
+    onProgress?: LoadProgressCallback,
+    signal?: AbortSignal
+  ): Promise<string> {
+    this.ensureInitialized();
+
+    if (!buffer || buffer.byteLength === 0) {
+      throw new Error('Invalid buffer: empty or null');
+    }
+
+    if (!name || typeof name !== 'string') {
+      throw new Error('Invalid model name');
+    }
+
+    throwIfAborted(signal, name);
+
+    const modelId = crypto.randomUUID();
+    const abortLoad = () => this.fragmentsManager?.core.abort(modelId);
+    signal?.addEventListener('abort', abortLoad, { once: true });
+
+    try {
+      console.log(`📦 Loading fragments: ${name} (${(buffer.byteLength / 1024 / 1024).toFixed(2)} MB)`);
+
+      onProgress?.(getStagedProgress('fragments', 0), 'fragments');
+
+      // The buffer is already in the fragments format, load it straight into the manager
+      const model = await this.fragmentsManager!.core.load(buffer, {
+        modelId,
+        onProgress: (event) => onProgress?.(getStagedProgress('fragments', event.progress), 'fragments'),
+      });
+
+      if (!model || !model.modelId) {
+        throw new Error('Failed to load fragments model: model is null or has no ID');
+      }
+
+      console.log(`✓ Fragments loaded: ${name} (ID: ${model.modelId})`);
+
+      // Add fragments to scene
+      const addedCount = this.addFragmentsToScene(model);
+      console.log(`✓ Added ${addedCount} fragment meshes to scene`);
+
+      if (addedCount === 0) {
+        console.warn('⚠️ No fragments were added to scene - model may not be visible');
+      }
+
+      // Store model reference
+      this.loadedModels.set(model.modelId, model);
+
+      onProgress?.(getStagedProgress('fragments', 1), 'fragments');
+
+      return model.modelId;
+    } catch (error) {
+      if (signal?.aborted || isAbortError(error)) {
+        console.log(`⏹️ Loading cancelled: ${name}`);
+        throw createAbortError(name);
+      }
+
+      this.errorHandler.handleError(error, ErrorSeverity.ERROR, {
+        operation: 'loadFragments',
+        modelName: name,
+        bufferSize: buffer.byteLength,
+      });
+      throw new Error(`Failed to load fragments file "${name}": ${error}`);
+    } finally {
+      signal?.removeEventListener('abort', abortLoad);
     }
   }
 
@@ -328,6 +466,453 @@ export class FragmentsService {
     return Array.from(this.loadedModels.values());
   }
 
+  /**
+   * Get the IDs of all loaded models
+   * @returns Array of model UUIDs in load order
+   */
+  getModelIds(): string[] {
+    return Array.from(this.loadedModels.keys());
+  }
+
+  /**
+   * Show or hide a loaded model without unloading it
+   * @param modelId - Model UUID
+   * @param visible - Whether the model should be rendered
+   * @returns True if the model was found and updated
+   */
+  setModelVisibility(modelId: string, visible: boolean): boolean {
+    const model = this.getModel(modelId);
+    if (!model || !model.object) {
+      return false;
+    }
+
+    model.object.visible = visible;
+    console.log(`👁️ Model ${modelId} ${visible ? 'shown' : 'hidden'}`);
+    return true;
+  }
+
+  /**
+   * Raycast all visible models at a screen position
+   * @param camera - Camera used to render the scene
+   * @param mouse - Pointer position in client (CSS pixel) coordinates
+   * @param dom - Canvas the scene is rendered into
+   * @returns Closest hit or null if nothing was hit
+   */
+  async raycast(
+    camera: THREE.PerspectiveCamera | THREE.OrthographicCamera,
+    mouse: THREE.Vector2,
+    dom: HTMLCanvasElement
+  ): Promise<FRAGS.RaycastResult | null> {
+    this.ensureInitialized();
+
+    let closest: FRAGS.RaycastResult | null = null;
+
+    for (const model of this.loadedModels.values()) {
+      if (!model.object?.visible) {
+        continue;
+      }
+
+      const hit = await model.raycast({ camera, mouse, dom });
+      if (hit && (!closest || hit.distance < closest.distance)) {
+        closest = hit;
+      }
+    }
+
+    return closest;
+  }
+
+  /**
+   * Raycast all visible models and snap to vertices, edges and faces
+   * @param camera - Camera used to render the scene
+   * @param mouse - Pointer position in client (CSS pixel) coordinates
+   * @param dom - Canvas the scene is rendered into
+   * @param snappingClasses - Features to snap to
+   * @returns Snap candidates of every model (empty if nothing was hit)
+   */
+  async raycastWithSnapping(
+    camera: THREE.PerspectiveCamera | THREE.OrthographicCamera,
+    mouse: THREE.Vector2,
+    dom: HTMLCanvasElement,
+    snappingClasses: FRAGS.SnappingClass[]
+  ): Promise<FRAGS.RaycastResult[]> {
+    this.ensureInitialized();
+
+    const results: FRAGS.RaycastResult[] = [];
+
+    for (const model of this.loadedModels.values()) {
+      if (!model.object?.visible) {
+        continue;
+      }
+
+      const hits = await model.raycastWithSnapping({ camera, mouse, dom, snappingClasses });
+      if (hits) {
+        results.push(...hits);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Highlight items of a model with a material
+   * @param modelId - Model UUID
+   * @param localIds - Local IDs of the items to highlight
+   * @param material - Highlight material definition
+   */
+  async highlightItems(
+    modelId: string,
+    localIds: number[],
+    material: FRAGS.MaterialDefinition
+  ): Promise<void> {
+    const model = this.getModel(modelId);
+    if (!model) {
+      return;
+    }
+
+    await model.highlight(localIds, material);
+    await this.update();
+  }
+
+  /**
+   * Remove the highlight from items of a model
+   * @param modelId - Model UUID
+   * @param localIds - Local IDs to reset (all items if omitted)
+   */
+  async resetHighlight(modelId: string, localIds?: number[]): Promise<void> {
+    const model = this.getModel(modelId);
+    if (!model) {
+      return;
+    }
+
+    await model.resetHighlight(localIds);
+    await this.update();
+  }
+
+  /**
+   * Get attribute and relation data of items
+   * @param modelId - Model UUID
+   * @param localIds - Local IDs of the items
+   * @param config - Which attributes and relations to include
+   * @returns Item data in the same order as the local IDs
+   */
+  async getItemsData(
+    modelId: string,
+    localIds: number[],
+    config?: Partial<FRAGS.ItemsDataConfig>
+  ): Promise<FRAGS.ItemData[]> {
+    const model = this.getModel(modelId);
+    if (!model) {
+      return [];
+    }
+
+    return model.getItemsData(localIds, config);
+  }
+
+  /**
+   * Get the spatial decomposition of a model (Project → Site → Building → Storey → Element)
+   * @param modelId - Model UUID
+   * @returns Root of the spatial structure or null if model not found
+   */
+  async getSpatialStructure(modelId: string): Promise<FRAGS.SpatialTreeItem | null> {
+    const model = this.getModel(modelId);
+    if (!model) {
+      return null;
+    }
+
+    return model.getSpatialStructure();
+  }
+
+  /**
+   * Group the items with geometry of a model by their IFC category
+   * Categories are the web-ifc type names stored per item (e.g. IFCWALL), so a single
+   * fragment mixing several classes is split correctly
+   * @param modelId - Model UUID
+   * @returns Local IDs by category or an empty map if model not found
+   */
+  async getItemsByCategory(modelId: string): Promise<Map<string, number[]>> {
+    const itemsByCategory = new Map<string, number[]>();
+    const model = this.getModel(modelId);
+    if (!model) {
+      return itemsByCategory;
+    }
+
+    // Both lists come from the same mesh index and share their order
+    const [localIds, categories] = await Promise.all([
+      model.getItemsIdsWithGeometry(),
+      model.getItemsWithGeometryCategories(),
+    ]);
+
+    const seen = new Set<number>();
+    localIds.forEach((localId, index) => {
+      const category = categories[index];
+      if (!category || seen.has(localId)) {
+        return;
+      }
+      seen.add(localId);
+
+      const ids = itemsByCategory.get(category);
+      if (ids) {
+        ids.push(localId);
+      } else {
+        itemsByCategory.set(category, [localId]);
+      }
+    });
+
+    return itemsByCategory;
+  }
+
+  /**
+   * Get the local IDs of the items of given IFC categories (with or without geometry)
+   * @param modelId - Model UUID
+   * @param categories - Category patterns (e.g. /^IFCUNITASSIGNMENT$/)
+   * @returns Local IDs by category or an empty object if model not found
+   */
+  async getItemsOfCategories(
+    modelId: string,
+    categories: RegExp[]
+  ): Promise<Record<string, number[]>> {
+    const model = this.getModel(modelId);
+    if (!model) {
+      return {};
+    }
+
+    return model.getItemsOfCategories(categories);
+  }
+
+  /**
+   * Get the total volume of the geometry of items
+   * @param modelId - Model UUID
+   * @param localIds - Local IDs of the items
+   * @returns Volume in cubic meters (0 if model not found)
+   */
+  async getItemsVolume(modelId: string, localIds: number[]): Promise<number> {
+    const model = this.getModel(modelId);
+    if (!model || localIds.length === 0) {
+      return 0;
+    }
+
+    return model.getItemsVolume(localIds);
+  }
+
+  /**
+   * Get the IFC GlobalIds of items
+   * @param modelId - Model UUID
+   * @param localIds - Local IDs of the items
+   * @returns GlobalIds in the order of the local IDs (null for items without one)
+   */
+  async getItemGuids(modelId: string, localIds: number[]): Promise<(string | null)[]> {
+    const model = this.getModel(modelId);
+    if (!model || localIds.length === 0) {
+      return localIds.map(() => null);
+    }
+
+    return model.getGuidsByLocalIds(localIds);
+  }
+
+  /**
+   * Find items by IFC GlobalId in every loaded model
+   * @param guids - GlobalIds to look up
+   * @returns References of the items found (GlobalIds missing from every model are skipped)
+   */
+  async findItemsByGuids(guids: string[]): Promise<ElementReference[]> {
+    const found: ElementReference[] = [];
+    let remaining = [...new Set(guids)];
+
+    for (const [modelId, model] of this.loadedModels) {
+      if (remaining.length === 0) {
+        break;
+      }
+
+      const localIds = await model.getLocalIdsByGuids(remaining);
+      remaining = remaining.filter((_, index) => {
+        const localId = localIds[index];
+        if (localId === null || localId === undefined) {
+          return true;
+        }
+        found.push({ modelId, localId });
+        return false;
+      });
+    }
+
+    return found;
+  }
+
+  /**
+   * Show or hide individual items of a model
+   * @param modelId - Model UUID
+   * @param localIds - Local IDs of the items (all items if undefined)
+   * @param visible - Whether the items should be rendered
+   * @returns True if the model was found and updated
+   */
+  async setItemsVisibility(
+    modelId: string,
+    localIds: number[] | undefined,
+    visible: boolean
+  ): Promise<boolean> {
+    const model = this.getModel(modelId);
+    if (!model) {
+      return false;
+    }
+
+    await model.setVisible(localIds, visible);
+    await this.update();
+    return true;
+  }
+
+  /**
+   * Get the local IDs of the visible items of a model
+   * @param modelId - Model UUID
+   * @returns Local IDs (empty if model not found)
+   */
+  async getVisibleItems(modelId: string): Promise<number[]> {
+    const model = this.getModel(modelId);
+    if (!model) {
+      return [];
+    }
+
+    return model.getItemsByVisibility(true);
+  }
+
+  /**
+   * Get the triangle meshes of items
+   * @param modelId - Model UUID
+   * @param localIds - Local IDs of the items
+   * @returns Meshes of each item in the order of the local IDs, in model space (empty if model not found)
+   */
+  async getItemsGeometry(modelId: string, localIds: number[]): Promise<FRAGS.MeshData[][]> {
+    const model = this.getModel(modelId);
+    if (!model || localIds.length === 0) {
+      return [];
+    }
+
+    return model.getItemsGeometry(localIds);
+  }
+
+  /**
+   * Get the materials of items
+   * @param modelId - Model UUID
+   * @param localIds - Local IDs of the items
+   * @returns Material of each item that has one
+   */
+  async getItemsMaterials(modelId: string, localIds: number[]): Promise<Map<number, FRAGS.MaterialDefinition>> {
+    const materials = new Map<number, FRAGS.MaterialDefinition>();
+    const model = this.getModel(modelId);
+    if (!model || localIds.length === 0) {
+      return materials;
+    }
+
+    // Items made of several materials keep the first one
+    for (const { definition, localIds: ids } of await model.getItemsMaterialDefinition(localIds)) {
+      ids.filter((localId) => !materials.has(localId)).forEach((localId) => materials.set(localId, definition));
+    }
+
+    return materials;
+  }
+
+  /**
+   * Get the merged bounding box of items of a model
+   * @param modelId - Model UUID
+   * @param localIds - Local IDs of the items
+   * @returns Bounding box or null if the model was not found or the items have no geometry
+   */
+  async getItemsBox(modelId: string, localIds: number[]): Promise<THREE.Box3 | null> {
+    const model = this.getModel(modelId);
+    if (!model || localIds.length === 0) {
+      return null;
+    }
+
+    const box = await model.getMergedBox(localIds);
+    return box.isEmpty() ? null : box;
+  }
+
+  /**
+   * Get the bounding boxes of items
+   * @param modelId - Model UUID
+   * @param localIds - Local IDs of the items
+   * @returns World space boxes in the order of the local IDs (null for items without geometry)
+   */
+  async getItemsBoxes(modelId: string, localIds: number[]): Promise<(THREE.Box3 | null)[]> {
+    const model = this.getModel(modelId);
+    if (!model || localIds.length === 0) {
+      return localIds.map(() => null);
+    }
+
+    const boxes = await model.getBoxes(localIds);
+    return localIds.map((_, index) => {
+      const box = boxes[index];
+      return box && !box.isEmpty() ? box : null;
+    });
+  }
+
+  /**
+   * Get the coordinates of a model (offset of its origin, y up)
+   * @param modelId - Model UUID
+   * @returns Coordinates [x, y, z] or null if model not found
+   */
+  async getCoordinates(modelId: string): Promise<number[] | null> {
+    const model = this.getModel(modelId);
+    if (!model) {
+      return null;
+    }
+
+    return model.getCoordinates();
+  }
+
+  /**
+   * Get the units of a model from its IfcUnitAssignment
+   * Attribute, property and quantity values are stored in these units
+   * @param modelId - Model UUID
+   * @returns Project units (SI defaults for quantities without an assigned unit or if model not found)
+   */
+  async getProjectUnits(modelId: string): Promise<ProjectUnits> {
+    const localIds = Object.values(await this.getItemsOfCategories(modelId, [/^IFCUNITASSIGNMENT$/])).flat();
+    const assignments =
+      localIds.length > 0
+        ? await this.getItemsData(modelId, localIds, {
+            attributesDefault: true,
+            relations: { Units: { attributes: true, relations: false } },
+          })
+        : [];
+
+    return parseProjectUnits(assignments);
+  }
+
+  /**
+   * Get the cut of a model by a plane (outline segments and cap triangles)
+   * @param modelId - Model UUID
+   * @param plane - Section plane in world space
+   * @param localIds - Only cut these items (all items by default)
+   * @returns Section with world space positions or null if model not found
+   */
+  async getSection(modelId: string, plane: THREE.Plane, localIds?: number[]): Promise<FRAGS.ModelSection | null> {
+    const model = this.getModel(modelId);
+    if (!model) {
+      return null;
+    }
+
+    // Sections are computed in model space
+    const matrixWorld = model.object.matrixWorld;
+    const localPlane = plane.clone().applyMatrix4(matrixWorld.clone().invert());
+    const section = await model.getSection(localPlane, localIds);
+
+    if (!matrixWorld.equals(new THREE.Matrix4())) {
+      const positions = new THREE.BufferAttribute(section.buffer.slice(), 3);
+      positions.applyMatrix4(matrixWorld);
+      return { ...section, buffer: positions.array as Float32Array };
+    }
+
+    return section;
+  }
+
+  /**
+   * Request a redraw of the fragments after visual changes
+   */
+  async update(): Promise<void> {
+    if (this.fragmentsManager?.initialized) {
+      await this.fragmentsManager.core.update(true);
+    }
+  }
+
   /**
    * Get model statistics
    * @param modelId - Model UUID
@@ -505,6 +1090,30 @@ export class FragmentsService {
     }
   }
 
+  /**
+   * Run an IFC conversion and dispose the web-ifc APIs it leaves open
+   * The importer creates its web-ifc APIs internally and disposes them only when a stage finishes,
+   * so a cancelled conversion would keep the parsed file in wasm memory
+   * @param convert - Conversion creating its web-ifc APIs
+   * @returns Result of the conversion
+   */
+  private async releaseWebIfcApis<T>(convert: () => Promise<T>): Promise<T> {
+    const prototype = WEBIFC.IfcAPI.prototype;
+    const init = prototype.Init;
+    const opened: WEBIFC.IfcAPI[] = [];
+    prototype.Init = function (this: WEBIFC.IfcAPI, ...args: Parameters<WEBIFC.IfcAPI['Init']>) {
+      opened.push(this);
+      return init.apply(this, args);
+    };
+
+    try {
+      return await convert();
+    } finally {
+      prototype.Init = init;
+      opened.filter((api) => api.wasmModule !== undefined).forEach((api) => api.Dispose());
+    }
+  }
+
   /**
    * Ensure service is initialized
    * @throws Error if not initialized
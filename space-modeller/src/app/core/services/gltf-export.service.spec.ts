@@ -0,0 +1,188 @@
+import { TestBed } from '@angular/core/testing';
+import { WritableSignal, signal } from '@angular/core';
+import * as THREE from 'three';
+import { GltfExportService } from './gltf-export.service';
+import { ErrorHandlerService } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { SelectionService } from './selection.service';
+import { ClippingService } from './clipping.service';
+import { ModelManagerService } from './model-manager.service';
+import { GltfExportOptions } from '../../shared/models/export.model';
+import { ModelLoadingStatus } from '../../shared/models/ifc.model';
+import { ElementReference } from '../../shared/models/selection.model';
+
+describe('GltfExportService', () => {
+  let service: GltfExportService;
+  let fragmentsService: jasmine.SpyObj<FragmentsService>;
+  let clippingService: jasmine.SpyObj<ClippingService>;
+  let selection: WritableSignal<ElementReference | null>;
+  let modelObject: THREE.Object3D;
+
+  const options: GltfExportOptions = {
+    format: 'gltf',
+    selectionOnly: false,
+    mergeByClass: false,
+    applyClipping: false,
+    includeProperties: false,
+  };
+
+  // Unit square in the XZ plane made of two triangles
+  const square = () => ({
+    transform: new THREE.Matrix4(),
+    positions: new Float32Array([0, 0, 0, 1, 0, 0, 1, 0, 1, 0, 0, 1]),
+    indices: new Uint16Array([0, 2, 1, 0, 3, 2]),
+  });
+
+  const exportJson = async (exportOptions: Partial<GltfExportOptions> = {}) => {
+    const result = await service.export({ ...options, ...exportOptions });
+    return JSON.parse(new TextDecoder().decode(result.data)) as {
+      nodes: { name: string; extras?: Record<string, unknown>; children?: number[] }[];
+      materials: { name: string }[];
+    };
+  };
+
+  beforeEach(() => {
+    selection = signal<ElementReference | null>(null);
+    modelObject = new THREE.Object3D();
+
+    const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', [
+      'getAllModels',
+      'getModel',
+      'getVisibleItems',
+      'getItemsByCategory',
+      'getItemsGeometry',
+      'getItemsMaterials',
+      'getItemGuids',
+      'getItemsData',
+    ]);
+    fragmentsServiceSpy.getAllModels.and.returnValue([{ modelId: 'm1', object: modelObject }]);
+    fragmentsServiceSpy.getModel.and.returnValue({ modelId: 'm1', object: modelObject });
+    fragmentsServiceSpy.getVisibleItems.and.returnValue(Promise.resolve([1, 2, 3]));
+    fragmentsServiceSpy.getItemsByCategory.and.returnValue(
+      Promise.resolve(
+        new Map([
+          ['IFCWALL', [1, 2]],
+          ['IFCDOOR', [3, 4]],
+        ])
+      )
+    );
+    fragmentsServiceSpy.getItemsGeometry.and.callFake((_: string, localIds: number[]) =>
+      Promise.resolve(localIds.map(() => [square()]))
+    );
+    fragmentsServiceSpy.getItemsMaterials.and.returnValue(Promise.resolve(new Map()));
+    fragmentsServiceSpy.getItemGuids.and.callFake((_: string, localIds: number[]) =>
+      Promise.resolve(localIds.map((localId) => `guid-${localId}`))
+    );
+    fragmentsServiceSpy.getItemsData.and.callFake((_: string, localIds: number[]) =>
+      Promise.resolve(localIds.map((localId) => ({ _category: { value: 'IFCWALL' }, Tag: { value: `W${localId}` } })))
+    );
+
+    const clippingServiceSpy = jasmine.createSpyObj('ClippingService', ['getCuttingPlanes']);
+    clippingServiceSpy.getCuttingPlanes.and.returnValue([]);
+
+    TestBed.configureTestingModule({
+      providers: [
+        GltfExportService,
+        { provide: ErrorHandlerService, useValue: jasmine.createSpyObj('ErrorHandlerService', ['handleError']) },
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: ClippingService, useValue: clippingServiceSpy },
+        {
+          provide: SelectionService,
+          useValue: jasmine.createSpyObj('SelectionService', [], { selection, properties: signal(null) }),
+        },
+        {
+          provide: ModelManagerService,
+          useValue: jasmine.createSpyObj('ModelManagerService', [], {
+            models: signal([
+              { id: 's1', name: 'tower', status: ModelLoadingStatus.LOADED, progress: 100, fragmentUuid: 'm1' },
+            ]),
+          }),
+        },
+      ],
+    });
+
+    service = TestBed.inject(GltfExportService);
+    fragmentsService = TestBed.inject(FragmentsService) as jasmine.SpyObj<FragmentsService>;
+    clippingService = TestBed.inject(ClippingService) as jasmine.SpyObj<ClippingService>;
+  });
+
+  it('should export visible elements as named nodes grouped by model', async () => {
+    const result = await service.export(options);
+    const json = JSON.parse(new TextDecoder().decode(result.data));
+    const names = json.nodes.map((node: { name: string }) => node.name);
+
+    expect(result.success).toBe(true);
+    expect(result.fileSize).toBe(result.data!.byteLength);
+    expect(result.duration).toEqual(jasmine.any(Number));
+    expect(names).toContain('tower');
+    expect(names).toContain('guid-1 (IfcWall)');
+    expect(names).toContain('guid-3 (IfcDoor)');
+    // Element 4 is hidden
+    expect(names).not.toContain('guid-4 (IfcDoor)');
+  });
+
+  it('should write a binary GLB', async () => {
+    const result = await service.export({ ...options, format: 'glb' });
+
+    // "glTF" magic
+    expect(Array.from(result.data!.slice(0, 4))).toEqual([0x67, 0x6c, 0x54, 0x46]);
+  });
+
+  it('should write IFC properties into the extras', async () => {
+    const json = await exportJson({ includeProperties: true });
+    const wall = json.nodes.find((node) => node.name === 'guid-1 (IfcWall)')!;
+
+    expect(wall.extras!['attributes']).toEqual({ Tag: 'W1' });
+    expect(fragmentsService.getItemsData).toHaveBeenCalled();
+  });
+
+  it('should only write the GlobalId and class without properties', async () => {
+    const json = await exportJson();
+    const wall = json.nodes.find((node) => node.name === 'guid-1 (IfcWall)')!;
+
+    expect(wall.extras).toEqual({ globalId: 'guid-1', ifcClass: 'IfcWall' });
+    expect(fragmentsService.getItemsData).not.toHaveBeenCalled();
+  });
+
+  it('should merge the elements of each class', async () => {
+    const json = await exportJson({ mergeByClass: true });
+    const wall = json.nodes.find((node) => node.name === 'IfcWall')!;
+
+    expect(wall.extras!['globalIds']).toEqual(['guid-1', 'guid-2']);
+    expect(json.nodes.some((node) => node.name === 'guid-1 (IfcWall)')).toBe(false);
+  });
+
+  it('should export only the selected element', async () => {
+    selection.set({ modelId: 'm1', localId: 2 });
+
+    const json = await exportJson({ selectionOnly: true });
+
+    expect(json.nodes.map((node) => node.name)).toEqual(['Models', 'tower', 'guid-2 (IfcProduct)']);
+  });
+
+  it('should fail without a visible selection', async () => {
+    const result = await service.export({ ...options, selectionOnly: true });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No visible element selected');
+  });
+
+  it('should cut the geometry with the active clipping', async () => {
+    // Everything lies at y = 0, below the kept half-space
+    clippingService.getCuttingPlanes.and.returnValue([new THREE.Plane(new THREE.Vector3(0, 1, 0), -1)]);
+
+    const result = await service.export({ ...options, applyClipping: true });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No visible geometry');
+  });
+
+  it('should skip hidden models', async () => {
+    modelObject.visible = false;
+
+    const result = await service.export(options);
+
+    expect(result.success).toBe(false);
+    expect(fragmentsService.getVisibleItems).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,274 @@
+import { Injectable, inject } from '@angular/core';
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { SelectionService } from './selection.service';
+import { ClippingService } from './clipping.service';
+import { ModelManagerService } from './model-manager.service';
+import { ExportResult } from '../../shared/models/ifc.model';
+import { GltfExportOptions } from '../../shared/models/export.model';
+import { GLTF_EXPORT_CONFIG } from '../../shared/constants/viewer.constants';
+import { parseElementProperties, toIfcClassName } from '../../shared/utils/ifc.utils';
+import {
+  buildItemGeometry,
+  createGltfMaterial,
+  getGltfNodeName,
+  getMaterialKey,
+  mergeItemGeometries,
+  toGltfExtras,
+} from '../../shared/utils/gltf.utils';
+import { disposeObject } from '../../shared/utils/three.utils';
+
+/**
+ * Elements of one IFC class of a model
+ */
+interface ExportClass {
+  ifcClass: string;
+  localIds: number[];
+}
+
+/**
+ * Service for exporting the visible geometry as glTF 2.0 (GLB or embedded .gltf)
+ *
+ * Features:
+ * - One node per element named after its GlobalId and IFC class, grouped by model
+ * - Element materials (color, opacity, single or double sided)
+ * - Optional IFC attributes, property sets and quantities in the node extras
+ * - Selection-only export, merging by class and cutting with the active clipping
+ *
+ * Hidden models, classes and elements are left out.
+ *
+ * @example
+ * ```typescript
+ * const result = await this.gltfExport.export({
+ *   format: 'glb',
+ *   selectionOnly: false,
+ *   mergeByClass: false,
+ *   applyClipping: true,
+ *   includeProperties: true,
+ * });
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class GltfExportService {
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly selectionService = inject(SelectionService);
+  private readonly clippingService = inject(ClippingService);
+  private readonly modelManager = inject(ModelManagerService);
+
+  /**
+   * Export the visible geometry
+   * @param options - Format and export options
+   * @returns Export result with the file contents, size and duration
+   */
+  async export(options: GltfExportOptions): Promise<ExportResult> {
+    const startTime = performance.now();
+    const root = new THREE.Group();
+    root.name = 'Models';
+
+    try {
+      console.log(`📤 Exporting ${options.format.toUpperCase()}...`);
+
+      const planes = options.applyClipping ? this.clippingService.getCuttingPlanes() : [];
+      let elementCount = 0;
+
+      for (const [modelId, classes] of await this.collectElements(options.selectionOnly)) {
+        const model = this.fragmentsService.getModel(modelId);
+        if (!model) {
+          continue;
+        }
+
+        const group = new THREE.Group();
+        group.name = this.modelManager.models().find((state) => state.fragmentUuid === modelId)?.name ?? modelId;
+
+        for (const { ifcClass, localIds } of classes) {
+          const matrix = model.object.matrixWorld;
+          elementCount += await this.addClass(group, modelId, matrix, ifcClass, localIds, planes, options);
+        }
+
+        if (group.children.length > 0) {
+          root.add(group);
+        }
+      }
+
+      if (elementCount === 0) {
+        return {
+          success: false,
+          error: options.selectionOnly ? 'No visible element selected' : 'No visible geometry to export',
+          duration: Math.round(performance.now() - startTime),
+        };
+      }
+
+      const output = await new GLTFExporter().parseAsync(root, { binary: options.format === 'glb' });
+      const data =
+        output instanceof ArrayBuffer ? new Uint8Array(output) : new TextEncoder().encode(JSON.stringify(output));
+      const duration = Math.round(performance.now() - startTime);
+
+      console.log(
+        `✓ ${options.format.toUpperCase()} exported: ${elementCount} elements, ${data.byteLength} bytes in ${duration}ms`
+      );
+
+      return {
+        success: true,
+        data,
+        fileSize: data.byteLength,
+        duration,
+      };
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.ERROR, {
+        operation: 'exportGltf',
+        format: options.format,
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration: Math.round(performance.now() - startTime),
+      };
+    } finally {
+      disposeObject(root);
+    }
+  }
+
+  /**
+   * Visible elements grouped by model and IFC class
+   * @param selectionOnly - Only the selected element
+   */
+  private async collectElements(selectionOnly: boolean): Promise<Map<string, ExportClass[]>> {
+    const elements = new Map<string, ExportClass[]>();
+
+    if (selectionOnly) {
+      const selection = this.selectionService.selection();
+      if (selection && (await this.fragmentsService.getVisibleItems(selection.modelId)).includes(selection.localId)) {
+        const ifcClass = this.selectionService.properties()?.ifcClass ?? 'IfcProduct';
+        elements.set(selection.modelId, [{ ifcClass, localIds: [selection.localId] }]);
+      }
+      return elements;
+    }
+
+    for (const model of this.fragmentsService.getAllModels()) {
+      if (!model.object.visible) {
+        continue;
+      }
+
+      const visible = new Set(await this.fragmentsService.getVisibleItems(model.modelId));
+      const classes: ExportClass[] = [];
+      for (const [category, localIds] of await this.fragmentsService.getItemsByCategory(model.modelId)) {
+        const visibleIds = localIds.filter((localId) => visible.has(localId));
+        if (visibleIds.length > 0) {
+          classes.push({ ifcClass: toIfcClassName(category), localIds: visibleIds });
+        }
+      }
+      elements.set(model.modelId, classes);
+    }
+
+    return elements;
+  }
+
+  /**
+   * Add the elements of a class to a model group
+   * @returns Number of exported elements
+   */
+  private async addClass(
+    group: THREE.Group,
+    modelId: string,
+    matrix: THREE.Matrix4,
+    ifcClass: string,
+    localIds: number[],
+    planes: THREE.Plane[],
+    options: GltfExportOptions
+  ): Promise<number> {
+    const materials = new Map<string, THREE.MeshStandardMaterial>();
+    const merged = new Map<
+      string,
+      { geometry: THREE.BufferGeometry; guid: string | null; localId: number; extras: Record<string, unknown> | null }[]
+    >();
+    let count = 0;
+
+    for (let start = 0; start < localIds.length; start += GLTF_EXPORT_CONFIG.batchSize) {
+      const batch = localIds.slice(start, start + GLTF_EXPORT_CONFIG.batchSize);
+      const [geometries, definitions, guids, data] = await Promise.all([
+        this.fragmentsService.getItemsGeometry(modelId, batch),
+        this.fragmentsService.getItemsMaterials(modelId, batch),
+        this.fragmentsService.getItemGuids(modelId, batch),
+        options.includeProperties
+          ? this.fragmentsService.getItemsData(modelId, batch, {
+              attributesDefault: true,
+              relations: { IsDefinedBy: { attributes: true, relations: true } },
+            })
+          : Promise.resolve([]),
+      ]);
+
+      batch.forEach((localId, index) => {
+        const geometry = buildItemGeometry(geometries[index] ?? [], matrix, planes);
+        if (!geometry) {
+          return;
+        }
+
+        const definition = definitions.get(localId);
+        const key = getMaterialKey(definition);
+        if (!materials.has(key)) {
+          materials.set(key, createGltfMaterial(definition));
+        }
+
+        const guid = guids[index] ?? null;
+        const itemData = data[index];
+        const extras = itemData ? toGltfExtras(parseElementProperties(itemData, modelId, localId)) : null;
+        count++;
+
+        if (options.mergeByClass) {
+          merged.set(key, [...(merged.get(key) ?? []), { geometry, guid, localId, extras }]);
+          return;
+        }
+
+        this.addElementMesh(group, geometry, materials.get(key)!, ifcClass, localId, guid, extras);
+      });
+    }
+
+    // One mesh per class and material; the element GlobalIds (and properties) stay in the extras
+    for (const [key, elements] of merged) {
+      const material = materials.get(key)!;
+      const geometry = mergeItemGeometries(elements.map((element) => element.geometry));
+      if (!geometry) {
+        console.warn(`⚠️ ${ifcClass} geometries could not be merged, exporting one mesh per element`);
+        elements.forEach((element) =>
+          this.addElementMesh(group, element.geometry, material, ifcClass, element.localId, element.guid, element.extras)
+        );
+        continue;
+      }
+      elements.forEach((element) => element.geometry.dispose());
+
+      const guids = elements.flatMap((element) => (element.guid ? [element.guid] : []));
+      const mesh = new THREE.Mesh(geometry, material);
+      mesh.name = merged.size > 1 ? `${ifcClass} ${material.name}` : ifcClass;
+      mesh.userData = options.includeProperties
+        ? { ifcClass, globalIds: guids, elements: elements.flatMap((element) => element.extras ?? []) }
+        : { ifcClass, globalIds: guids };
+      group.add(mesh);
+    }
+
+    return count;
+  }
+
+  /**
+   * Add the mesh of a single element, named after its GlobalId
+   */
+  private addElementMesh(
+    group: THREE.Group,
+    geometry: THREE.BufferGeometry,
+    material: THREE.Material,
+    ifcClass: string,
+    localId: number,
+    guid: string | null,
+    extras: Record<string, unknown> | null
+  ): void {
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.name = getGltfNodeName(guid, ifcClass, localId);
+    mesh.userData = extras ?? { globalId: guid, ifcClass };
+    group.add(mesh);
+  }
+}
@@ -1,7 +1,6 @@
 import { Injectable, inject, signal, computed } from '@angular/core';
-import * as THREE from 'three';
-import * as FRAGS from '@thatopen/fragments';
 import { FragmentsService } from './fragments.service';
+import { toIfcClassName } from '../../shared/utils/ifc.utils';
 
 /**
  * IFC Class information
@@ -21,19 +20,23 @@ export interface IfcClassInfo {
  * Service for managing IFC class filtering and visibility
  * 
  * Features:
- * - Extract IFC classes from loaded fragments
- * - Toggle visibility of specific IFC classes
+ * - Resolve IFC classes per element from the model's item categories
+ * - Aggregate classes across every loaded model
+ * - Toggle visibility of specific IFC classes (hides individual items, not whole fragments)
  * - Manage filter state
  * 
  * @example
  * ```typescript
  * constructor(private ifcFilterService: IfcFilterService) {}
  * 
- * // Extract classes after loading model
+ * // Extract classes after loading each model
  * await this.ifcFilterService.extractClasses(modelId);
  * 
- * // Toggle visibility
- * this.ifcFilterService.toggleClassVisibility('IfcWall');
+ * // Toggle visibility (applies to all loaded models)
+ * await this.ifcFilterService.toggleClassVisibility('IfcWall');
+ * 
+ * // Drop a model's classes when it is unloaded
+ * this.ifcFilterService.removeModel(modelId);
  * ```
  */
 @Injectable({
@@ -43,8 +46,8 @@ export class IfcFilterService {
   private readonly fragmentsService = inject(FragmentsService);
 
   // State
-  private currentModelId: string | null = null;
-  private fragmentClassMap = new Map<string, string>(); // fragmentId -> className
+  private readonly modelClassItems = new Map<string, Map<string, number[]>>(); // modelId -> (className -> localIds)
+  private readonly externalClassCounts = new Map<string, Map<string, number>>(); // source -> (className -> count)
   
   // Signals for reactive state
   readonly ifcClasses = signal<Map<string, IfcClassInfo>>(new Map());
@@ -57,16 +60,20 @@ export class IfcFilterService {
   readonly totalClassCount = computed(() => this.ifcClasses().size);
 
   /**
-   * Extract IFC classes from a loaded model
+   * Number of models currently contributing classes
+   */
+  get modelCount(): number {
+    return this.modelClassItems.size;
+  }
+
+  /**
+   * Extract IFC classes from a loaded model and merge them into the aggregated class list
    * @param modelId - Fragment model UUID
-   * @returns Array of discovered IFC classes
+   * @returns Array of IFC classes found in this model (with aggregated counts)
    */
   async extractClasses(modelId: string): Promise<IfcClassInfo[]> {
     try {
       console.log('🔍 Extracting IFC classes from model:', modelId);
-      
-      this.currentModelId = modelId;
-      this.fragmentClassMap.clear();
 
       const model = this.fragmentsService.getModel(modelId);
       if (!model) {
@@ -74,54 +81,41 @@ export class IfcFilterService {
         return [];
       }
 
-      const classMap = new Map<string, IfcClassInfo>();
-
-      // Access fragments from model
-      const modelAny = model as any;
-      
-      if (modelAny.items && typeof modelAny.items.forEach === 'function') {
-        console.log(`📦 Processing ${modelAny.items.size || 0} fragments for class extraction...`);
-
-        modelAny.items.forEach((fragment: any, fragmentId: string) => {
-          // Try to extract IFC class from fragment
-          const ifcClass = this.extractIfcClassFromFragment(fragment, fragmentId);
-          
-          if (ifcClass) {
-            this.fragmentClassMap.set(fragmentId, ifcClass);
-            
-            // Update or create class info
-            if (classMap.has(ifcClass)) {
-              const info = classMap.get(ifcClass)!;
-              info.count++;
-            } else {
-              // IfcSpace elements are hidden by default, all others visible
-              const isVisible = ifcClass !== 'IfcSpace';
-              classMap.set(ifcClass, {
-                name: ifcClass,
-                count: 1,
-                visible: isVisible,
-                color: this.getClassColor(ifcClass),
-              });
-            }
+      // Categories are resolved per item, so fragments mixing classes are split correctly
+      const itemsByCategory = await this.fragmentsService.getItemsByCategory(modelId);
+      const classItems = new Map<string, number[]>();
+
+      itemsByCategory.forEach((localIds, category) => {
+        const ifcClass = toIfcClassName(category);
+        const ids = classItems.get(ifcClass);
+        if (ids) {
+          // Loop instead of spread: large classes exceed the max argument count
+          for (const id of localIds) {
+            ids.push(id);
           }
-        });
-      }
+        } else {
+          classItems.set(ifcClass, [...localIds]);
+        }
+      });
+
+      this.modelClassItems.set(modelId, classItems);
 
-      // Update signal
+      // Update signal with classes aggregated over all models
+      const classMap = this.aggregateClasses();
       this.ifcClasses.set(classMap);
 
-      const classes = Array.from(classMap.values());
+      const classes = Array.from(classMap.values()).filter(c => classItems.has(c.name));
       console.log(`✅ Found ${classes.length} unique IFC classes:`, 
         classes.map(c => `${c.name} (${c.count})`).join(', ')
       );
 
-      // Apply initial visibility state (hide IfcSpace elements by default)
-      classes.forEach(classInfo => {
+      // Apply current visibility state to the new model (IfcSpace is hidden by default)
+      for (const classInfo of classes) {
         if (!classInfo.visible) {
-          this.applyClassVisibility(classInfo.name, false);
+          await this.applyClassVisibility(classInfo.name, false, modelId);
           console.log(`👁️ Hiding ${classInfo.name} by default`);
         }
-      });
+      }
 
       return classes;
     } catch (error) {
@@ -131,96 +125,97 @@ export class IfcFilterService {
   }
 
   /**
-   * Extract IFC class name from a fragment
-   * @param fragment - Fragment object
-   * @param fragmentId - Fragment ID
-   * @returns IFC class name or null
+   * Remove a model's classes from the aggregated class list
+   * @param modelId - Fragment model UUID
    */
-  private extractIfcClassFromFragment(fragment: any, fragmentId: string): string | null {
-    try {
-      // Method 1: Check fragment.name (common in ThatOpen Components)
-      if (fragment.name && typeof fragment.name === 'string') {
-        // Sometimes the name is like "IfcWall" or contains the class name
-        const match = fragment.name.match(/Ifc[A-Z][a-zA-Z]*/);
-        if (match) {
-          return match[0];
-        }
-      }
+  removeModel(modelId: string): void {
+    if (!this.modelClassItems.delete(modelId)) {
+      return;
+    }
 
-      // Method 2: Check fragment.id or fragment.expressID
-      if (fragment.id && typeof fragment.id === 'string') {
-        const match = fragment.id.match(/Ifc[A-Z][a-zA-Z]*/);
-        if (match) {
-          return match[0];
-        }
-      }
+    console.log('🗑️ Removing IFC classes of model:', modelId);
+    this.ifcClasses.set(this.aggregateClasses());
+  }
 
-      // Method 3: Check mesh userData
-      if (fragment.mesh && fragment.mesh.userData) {
-        const userData = fragment.mesh.userData;
-        
-        if (userData.ifcClass) {
-          return userData.ifcClass;
-        }
-        if (userData.type && typeof userData.type === 'string') {
-          const match = userData.type.match(/Ifc[A-Z][a-zA-Z]*/);
-          if (match) {
-            return match[0];
-          }
-        }
-        if (userData.name && typeof userData.name === 'string') {
-          const match = userData.name.match(/Ifc[A-Z][a-zA-Z]*/);
-          if (match) {
-            return match[0];
-          }
-        }
-      }
+  /**
+   * Count elements that are not part of the fragments models (e.g. spaces drawn in the viewer)
+   * Their owner shows and hides them by the class visibility
+   * @param source - Owner of the elements
+   * @param className - IFC class name
+   * @param count - Number of elements (0 removes them)
+   */
+  setExternalClassCount(source: string, className: string, count: number): void {
+    const counts = this.externalClassCounts.get(source) ?? new Map<string, number>();
+    if (count > 0) {
+      counts.set(className, count);
+    } else {
+      counts.delete(className);
+    }
 
-      // Method 4: Check fragment.types (ThatOpen specific)
-      if (fragment.types && fragment.types.size > 0) {
-        // Get the first type as a representative
-        const firstType = Array.from(fragment.types.values())[0];
-        if (typeof firstType === 'string') {
-          const match = firstType.match(/Ifc[A-Z][a-zA-Z]*/);
-          if (match) {
-            return match[0];
-          }
-        }
-      }
+    if (counts.size > 0) {
+      this.externalClassCounts.set(source, counts);
+    } else {
+      this.externalClassCounts.delete(source);
+    }
+    this.ifcClasses.set(this.aggregateClasses());
+  }
 
-      // Method 5: Check fragment.fragments map (if it exists)
-      if (fragment.fragments && typeof fragment.fragments === 'object') {
-        const keys = Object.keys(fragment.fragments);
-        if (keys.length > 0 && keys[0]) {
-          const match = keys[0].match(/Ifc[A-Z][a-zA-Z]*/);
-          if (match) {
-            return match[0];
-          }
-        }
+  /**
+   * Build the class list from every loaded model and external source
+   * Classes that are already known keep their current visibility
+   */
+  private aggregateClasses(): Map<string, IfcClassInfo> {
+    const previous = this.ifcClasses();
+    const classMap = new Map<string, IfcClassInfo>();
+
+    const addCount = (ifcClass: string, count: number) => {
+      const info = classMap.get(ifcClass);
+      if (info) {
+        info.count += count;
+        return;
       }
 
-      // Default: try to extract from fragmentId itself
-      if (fragmentId && typeof fragmentId === 'string') {
-        const match = fragmentId.match(/Ifc[A-Z][a-zA-Z]*/);
-        if (match) {
-          return match[0];
-        }
-      }
+      // IfcSpace elements are hidden by default, all others visible
+      classMap.set(ifcClass, {
+        name: ifcClass,
+        count,
+        visible: previous.get(ifcClass)?.visible ?? ifcClass !== 'IfcSpace',
+        color: this.getClassColor(ifcClass),
+      });
+    };
 
-      // If no IFC class found, return generic
-      return 'IfcElement';
-    } catch (error) {
-      console.warn(`Failed to extract IFC class from fragment ${fragmentId}:`, error);
-      return 'IfcElement';
-    }
+    this.modelClassItems.forEach((classItems) => {
+      classItems.forEach((localIds, ifcClass) => addCount(ifcClass, localIds.length));
+    });
+    this.externalClassCounts.forEach((counts) => {
+      counts.forEach((count, ifcClass) => addCount(ifcClass, count));
+    });
+
+    return classMap;
+  }
+
+  /**
+   * Get the local IDs of every element of a class, per model
+   * @param className - IFC class name
+   * @returns Local IDs by model UUID (models without the class are omitted)
+   */
+  getClassItems(className: string): Map<string, number[]> {
+    const items = new Map<string, number[]>();
+    this.modelClassItems.forEach((classItems, modelId) => {
+      const localIds = classItems.get(className);
+      if (localIds && localIds.length > 0) {
+        items.set(modelId, localIds);
+      }
+    });
+    return items;
   }
 
   /**
-   * Get a color for an IFC class (for visualization)
+   * Get a color for an IFC class (filter swatches and thematic views)
    * @param className - IFC class name
    * @returns Hex color string
    */
-  private getClassColor(className: string): string {
+  getClassColor(className: string): string {
     const colorMap: Record<string, string> = {
       IfcWall: '#FF6B6B',
       IfcWallStandardCase: '#FF6B6B',
@@ -247,7 +242,7 @@ export class IfcFilterService {
    * Toggle visibility of a specific IFC class
    * @param className - IFC class name to toggle
    */
-  toggleClassVisibility(className: string): void {
+  async toggleClassVisibility(className: string): Promise<void> {
     const classInfo = this.ifcClasses().get(className);
     if (!classInfo) {
       console.warn('Class not found:', className);
@@ -264,8 +259,8 @@ export class IfcFilterService {
       return new Map(map);
     });
 
-    // Apply visibility to all fragments of this class
-    this.applyClassVisibility(className, newVisible);
+    // Apply visibility to all elements of this class
+    await this.applyClassVisibility(className, newVisible);
   }
 
   /**
@@ -273,7 +268,7 @@ export class IfcFilterService {
    * @param className - IFC class name
    * @param visible - Whether to show or hide
    */
-  setClassVisibility(className: string, visible: boolean): void {
+  async setClassVisibility(className: string, visible: boolean): Promise<void> {
     const classInfo = this.ifcClasses().get(className);
     if (!classInfo || classInfo.visible === visible) {
       return;
@@ -289,59 +284,55 @@ export class IfcFilterService {
     });
 
     // Apply visibility
-    this.applyClassVisibility(className, visible);
+    await this.applyClassVisibility(className, visible);
   }
 
   /**
    * Show all IFC classes
    */
-  showAllClasses(): void {
+  async showAllClasses(): Promise<void> {
     console.log('👁️ Showing all IFC classes');
-    this.ifcClasses().forEach((_, className) => {
-      this.setClassVisibility(className, true);
-    });
+    for (const className of Array.from(this.ifcClasses().keys())) {
+      await this.setClassVisibility(className, true);
+    }
   }
 
   /**
    * Hide all IFC classes
    */
-  hideAllClasses(): void {
+  async hideAllClasses(): Promise<void> {
     console.log('🙈 Hiding all IFC classes');
-    this.ifcClasses().forEach((_, className) => {
-      this.setClassVisibility(className, false);
-    });
+    for (const className of Array.from(this.ifcClasses().keys())) {
+      await this.setClassVisibility(className, false);
+    }
   }
 
   /**
-   * Apply visibility to all fragments of a specific class
+   * Apply visibility to all elements of a specific class
    * @param className - IFC class name
    * @param visible - Whether to show or hide
+   * @param modelId - Restrict to a single model (defaults to all loaded models)
    */
-  private applyClassVisibility(className: string, visible: boolean): void {
-    if (!this.currentModelId) {
-      return;
-    }
-
-    const model = this.fragmentsService.getModel(this.currentModelId);
-    if (!model) {
-      return;
-    }
-
-    const modelAny = model as any;
+  private async applyClassVisibility(className: string, visible: boolean, modelId?: string): Promise<void> {
+    const modelIds = modelId ? [modelId] : Array.from(this.modelClassItems.keys());
     let updatedCount = 0;
 
-    if (modelAny.items && typeof modelAny.items.forEach === 'function') {
-      modelAny.items.forEach((fragment: any, fragmentId: string) => {
-        const fragmentClass = this.fragmentClassMap.get(fragmentId);
-        
-        if (fragmentClass === className && fragment.mesh) {
-          fragment.mesh.visible = visible;
-          updatedCount++;
+    for (const id of modelIds) {
+      const localIds = this.modelClassItems.get(id)?.get(className);
+      if (!localIds || localIds.length === 0) {
+        continue;
+      }
+
+      try {
+        if (await this.fragmentsService.setItemsVisibility(id, localIds, visible)) {
+          updatedCount += localIds.length;
         }
-      });
+      } catch (error) {
+        console.error(`❌ Failed to update visibility of ${className} in model ${id}:`, error);
+      }
     }
 
-    console.log(`✓ Updated visibility for ${updatedCount} fragments of class ${className}`);
+    console.log(`✓ Updated visibility for ${updatedCount} elements of class ${className}`);
   }
 
   /**
@@ -349,8 +340,8 @@ export class IfcFilterService {
    */
   clear(): void {
     console.log('🗑️ Clearing IFC filter state');
-    this.currentModelId = null;
-    this.fragmentClassMap.clear();
+    this.modelClassItems.clear();
+    this.externalClassCounts.clear();
     this.ifcClasses.set(new Map());
   }
 
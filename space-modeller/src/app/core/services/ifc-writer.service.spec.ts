@@ -0,0 +1,74 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { IfcWriterService } from './ifc-writer.service';
+import { ErrorHandlerService } from './error-handler.service';
+import { ConfigService } from './config.service';
+import { FragmentsService } from './fragments.service';
+import { SpaceAuthoringService } from './space-authoring.service';
+import { SpaceService } from './space.service';
+import { ZoneService } from './zone.service';
+
+describe('IfcWriterService', () => {
+  let service: IfcWriterService;
+  let fragmentsService: jasmine.SpyObj<FragmentsService>;
+
+  beforeEach(() => {
+    const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', ['getModel', 'getCoordinates']);
+    fragmentsServiceSpy.getModel.and.returnValue(undefined);
+
+    TestBed.configureTestingModule({
+      providers: [
+        IfcWriterService,
+        { provide: ErrorHandlerService, useValue: jasmine.createSpyObj('ErrorHandlerService', ['handleError']) },
+        { provide: ConfigService, useValue: jasmine.createSpyObj('ConfigService', [], { config: { wasmPath: '/wasm/' } }) },
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: SpaceAuthoringService, useValue: jasmine.createSpyObj('SpaceAuthoringService', [], { spaces: signal([]) }) },
+        { provide: SpaceService, useValue: jasmine.createSpyObj('SpaceService', { getEditedSpaces: [] }) },
+        {
+          provide: ZoneService,
+          useValue: jasmine.createSpyObj('ZoneService', [], { mapping: signal({ zones: [], occupancy: {} }) }),
+        },
+      ],
+    });
+
+    service = TestBed.inject(IfcWriterService);
+    fragmentsService = TestBed.inject(FragmentsService) as jasmine.SpyObj<FragmentsService>;
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should keep the IFC file of a model', () => {
+    service.setSource('m1', new Uint8Array([1, 2, 3]));
+
+    expect(service.hasSource('m1')).toBe(true);
+    expect(service.sourceModelIds()).toEqual(['m1']);
+  });
+
+  it('should forget the IFC file of an unloaded model', () => {
+    service.setSource('m1', new Uint8Array([1, 2, 3]));
+
+    service.removeModel('m1');
+
+    expect(service.hasSource('m1')).toBe(false);
+    expect(service.sourceModelIds()).toEqual([]);
+  });
+
+  it('should not export a model without its IFC file', async () => {
+    const result = await service.export('m1');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not available');
+    expect(fragmentsService.getCoordinates).not.toHaveBeenCalled();
+  });
+
+  it('should not export a model that is no longer loaded', async () => {
+    service.setSource('m1', new Uint8Array([1, 2, 3]));
+
+    const result = await service.export('m1');
+
+    expect(result.success).toBe(false);
+    expect(fragmentsService.getModel).toHaveBeenCalledWith('m1');
+  });
+});
@@ -0,0 +1,676 @@
+import { Injectable, inject, signal } from '@angular/core';
+import * as THREE from 'three';
+import * as WEBIFC from 'web-ifc';
+import * as FRAGS from '@thatopen/fragments';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import { ConfigService } from './config.service';
+import { FragmentsService } from './fragments.service';
+import { SpaceAuthoringService } from './space-authoring.service';
+import { SpaceService } from './space.service';
+import { ZoneService } from './zone.service';
+import { ExportResult, IfcLineData } from '../../shared/models/ifc.model';
+import { ProjectUnits } from '../../shared/models/measurement.model';
+import {
+  AuthoredSpace,
+  EditedSpace,
+  EditedSpaceQuantity,
+  SpaceBaseQuantity,
+} from '../../shared/models/space.model';
+import { Zone } from '../../shared/models/zone.model';
+import { IFC_WRITER_CONFIG, ZONE_CONFIG } from '../../shared/constants/viewer.constants';
+import {
+  getEditedSpaceQuantities,
+  getObjectPlacementMatrix,
+  getSpaceBaseQuantities,
+  getSpaceProfile,
+} from '../../shared/utils/ifc-writer.utils';
+import { parseProjectUnits } from '../../shared/utils/measurement.utils';
+
+/**
+ * Storey of the IFC file that spaces are added to
+ */
+interface StoreyTarget {
+  expressId: number;
+  globalId: string | null;
+  name: string | null;
+  /** IfcLocalPlacement of the storey */
+  placement: WEBIFC.Handle<unknown> | null;
+  /** Absolute placement matrix (file units) */
+  matrix: THREE.Matrix4;
+  ownerHistory: WEBIFC.Handle<unknown> | null;
+}
+
+/**
+ * Model placement and file data shared by the spaces written to one file
+ */
+interface WriteContext {
+  api: WEBIFC.IfcAPI;
+  ifcModelId: number;
+  schema: string;
+  units: ProjectUnits;
+  bodyContext: WEBIFC.Handle<unknown>;
+  modelMatrix: THREE.Matrix4;
+  coordinates: number[] | null;
+}
+
+/**
+ * Quantity entity of each measure with its value type and attribute
+ */
+const QUANTITY_TYPES: Record<SpaceBaseQuantity['measure'], { entity: number; value: number; attribute: string }> = {
+  length: { entity: WEBIFC.IFCQUANTITYLENGTH, value: WEBIFC.IFCLENGTHMEASURE, attribute: 'LengthValue' },
+  area: { entity: WEBIFC.IFCQUANTITYAREA, value: WEBIFC.IFCAREAMEASURE, attribute: 'AreaValue' },
+  volume: { entity: WEBIFC.IFCQUANTITYVOLUME, value: WEBIFC.IFCVOLUMEMEASURE, attribute: 'VolumeValue' },
+};
+
+/**
+ * Service for writing the spaces authored in the viewer back to IFC
+ *
+ * Features:
+ * - Keeps the IFC file of each model loaded from .ifc
+ * - Adds an IfcSpace per authored space, placed relative to its storey and extruded from its outline
+ * - Aggregates the new spaces to their IfcBuildingStorey (IfcRelAggregates)
+ * - Writes Qto_SpaceBaseQuantities (height, perimeter, areas and volumes) in the project units
+ * - Writes the name, long name, usage and quantities edited in the room schedule to the IfcSpaces of the file
+ * - Writes the imported zones as IfcZone grouping their spaces (IfcRelAssignsToGroup)
+ *
+ * The entities of the original file are written back unchanged, except for the edited IfcSpaces and their
+ * quantities; the authored spaces and zones are added as new entities.
+ *
+ * @example
+ * ```typescript
+ * this.ifcWriter.setSource(modelId, buffer);
+ *
+ * const result = await this.ifcWriter.export(modelId);
+ * if (result.success) {
+ *   // result.data holds the .ifc file
+ * }
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class IfcWriterService {
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly configService = inject(ConfigService);
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly spaceAuthoringService = inject(SpaceAuthoringService);
+  private readonly spaceService = inject(SpaceService);
+  private readonly zoneService = inject(ZoneService);
+
+  // State
+  private readonly sources = new Map<string, Uint8Array>(); // modelId -> IFC file
+  private api: Promise<WEBIFC.IfcAPI> | null = null;
+
+  // Signals for reactive state
+  readonly sourceModelIds = signal<string[]>([]);
+
+  /**
+   * Keep the IFC file of a model so it can be written again
+   * @param modelId - Fragment model UUID
+   * @param buffer - IFC file data
+   */
+  setSource(modelId: string, buffer: Uint8Array): void {
+    this.sources.set(modelId, buffer);
+    this.sourceModelIds.set(Array.from(this.sources.keys()));
+  }
+
+  /**
+   * Whether the IFC file of a model is available
+   */
+  hasSource(modelId: string): boolean {
+    return this.sources.has(modelId);
+  }
+
+  /**
+   * Forget the IFC file of an unloaded model
+   */
+  removeModel(modelId: string): void {
+    if (this.sources.delete(modelId)) {
+      this.sourceModelIds.set(Array.from(this.sources.keys()));
+    }
+  }
+
+  /**
+   * Write the IFC file of a model with its authored and edited spaces and the imported zones
+   * @param modelId - Fragment model UUID
+   * @returns Export result with the file contents, size and duration
+   */
+  async export(modelId: string): Promise<ExportResult> {
+    const startTime = performance.now();
+    const source = this.sources.get(modelId);
+    const model = this.fragmentsService.getModel(modelId);
+
+    if (!source || !model) {
+      return {
+        success: false,
+        error: 'The IFC file of this model is not available',
+        duration: Math.round(performance.now() - startTime),
+      };
+    }
+
+    let api: WEBIFC.IfcAPI | null = null;
+    let ifcModelId: number | null = null;
+
+    try {
+      console.log('📤 Writing IFC...');
+
+      api = await this.getApi();
+      ifcModelId = api.OpenModel(source);
+
+      const edits = this.spaceService.getEditedSpaces(modelId);
+      const edited = edits.length > 0 ? this.writeSpaceEdits(api, ifcModelId, edits) : 0;
+      const spaces = this.spaceAuthoringService.spaces().filter((space) => space.modelId === modelId);
+      const written = spaces.length > 0 ? await this.writeSpaces(api, ifcModelId, model, spaces) : new Map();
+      const zones = this.zoneService.mapping().zones;
+      const zoneCount = zones.length > 0 ? this.writeZones(api, ifcModelId, zones, written) : 0;
+
+      const data = api.SaveModel(ifcModelId);
+      const duration = Math.round(performance.now() - startTime);
+
+      console.log(
+        `✓ IFC written: ${written.size} of ${spaces.length} spaces added, ${edited} edited, ${zoneCount} zones, ${data.byteLength} bytes in ${duration}ms`
+      );
+
+      return {
+        success: true,
+        data,
+        fileSize: data.byteLength,
+        duration,
+      };
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.ERROR, {
+        operation: 'exportIfc',
+        modelId,
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration: Math.round(performance.now() - startTime),
+      };
+    } finally {
+      if (api && ifcModelId !== null) {
+        api.CloseModel(ifcModelId);
+      }
+    }
+  }
+
+  /**
+   * web-ifc API, initialized on first use
+   */
+  private getApi(): Promise<WEBIFC.IfcAPI> {
+    if (!this.api) {
+      const wasmPath = this.configService.config.wasmPath;
+      const api = new WEBIFC.IfcAPI();
+      api.SetWasmPath(wasmPath, wasmPath.startsWith('http'));
+      this.api = api.Init().then(
+        () => api,
+        (error) => {
+          this.api = null;
+          throw error;
+        }
+      );
+    }
+
+    return this.api;
+  }
+
+  /**
+   * Add the authored spaces of a model to its opened IFC file
+   * @returns Handles of the written spaces (spaces whose storey is not in the file are left out)
+   */
+  private async writeSpaces(
+    api: WEBIFC.IfcAPI,
+    ifcModelId: number,
+    model: FRAGS.FragmentsModel,
+    spaces: AuthoredSpace[]
+  ): Promise<Map<AuthoredSpace, WEBIFC.Handle<unknown>>> {
+    const bodyContext = this.findBodyContext(api, ifcModelId);
+    if (!bodyContext) {
+      throw new Error('The IFC file has no geometric representation context');
+    }
+
+    const context: WriteContext = {
+      api,
+      ifcModelId,
+      schema: api.GetModelSchema(ifcModelId),
+      units: parseProjectUnits(this.getLines(api, ifcModelId, WEBIFC.IFCUNITASSIGNMENT, true)),
+      bodyContext,
+      modelMatrix: model.object.matrixWorld,
+      coordinates: await this.fragmentsService.getCoordinates(model.modelId),
+    };
+
+    const storeys = this.readStoreys(api, ifcModelId);
+    const aggregated = new Map<StoreyTarget, WEBIFC.Handle<unknown>[]>();
+    const written = new Map<AuthoredSpace, WEBIFC.Handle<unknown>>();
+
+    for (const space of spaces) {
+      const storey =
+        storeys.find((item) => !!space.storeyGlobalId && item.globalId === space.storeyGlobalId) ??
+        storeys.find((item) => item.name === space.storey);
+      if (!storey) {
+        console.warn(`⚠️ Storey "${space.storey}" of space ${space.number} is not in the IFC file`);
+        continue;
+      }
+
+      const handle = this.writeSpace(context, space, storey);
+      aggregated.set(storey, [...(aggregated.get(storey) ?? []), handle]);
+      written.set(space, handle);
+    }
+
+    for (const [storey, handles] of aggregated) {
+      api.WriteLine(
+        ifcModelId,
+        api.CreateIfcEntity(
+          ifcModelId,
+          WEBIFC.IFCRELAGGREGATES,
+          api.CreateIFCGloballyUniqueId(ifcModelId),
+          storey.ownerHistory,
+          null,
+          null,
+          new WEBIFC.Handle(storey.expressId),
+          handles
+        )
+      );
+    }
+
+    return written;
+  }
+
+  /**
+   * Group the spaces of the file and the written spaces into IfcZones by room number
+   * Zones already in the file and zones without a space in it are left out
+   * @returns Number of zones written
+   */
+  private writeZones(
+    api: WEBIFC.IfcAPI,
+    ifcModelId: number,
+    zones: Zone[],
+    written: Map<AuthoredSpace, WEBIFC.Handle<unknown>>
+  ): number {
+    const spacesByNumber = new Map<string, WEBIFC.Handle<unknown>[]>();
+    const addSpace = (number: string | null, handle: WEBIFC.Handle<unknown>) => {
+      const key = number?.trim();
+      if (key) {
+        spacesByNumber.set(key, [...(spacesByNumber.get(key) ?? []), handle]);
+      }
+    };
+    this.getLines(api, ifcModelId, WEBIFC.IFCSPACE, false).forEach((line) =>
+      addSpace(readValue(line, 'Name'), new WEBIFC.Handle(line['expressID'] as number))
+    );
+    written.forEach((handle, space) => addSpace(space.number, handle));
+
+    const existing = new Set(
+      this.getLines(api, ifcModelId, WEBIFC.IFCZONE, false).map(
+        (line) => `${readValue(line, 'ObjectType') ?? ZONE_CONFIG.defaultCategory}:${readValue(line, 'Name')}`
+      )
+    );
+    const ownerHistory = toHandle(this.getLines(api, ifcModelId, WEBIFC.IFCPROJECT, false)[0]?.['OwnerHistory']);
+    const label = (value: string) => api.CreateIfcType(ifcModelId, WEBIFC.IFCLABEL, value);
+
+    let count = 0;
+    for (const zone of zones) {
+      const spaces = zone.spaceNumbers.flatMap((number) => spacesByNumber.get(number) ?? []);
+      if (spaces.length === 0 || existing.has(`${zone.category}:${zone.name}`)) {
+        continue;
+      }
+
+      // IFC2X3 zones have no LongName, the extra argument is ignored
+      const ifcZone = api.CreateIfcEntity(
+        ifcModelId,
+        WEBIFC.IFCZONE,
+        api.CreateIFCGloballyUniqueId(ifcModelId),
+        ownerHistory,
+        label(zone.name),
+        api.CreateIfcType(ifcModelId, WEBIFC.IFCTEXT, ZONE_CONFIG.description),
+        label(zone.category),
+        null
+      );
+      api.WriteLine(ifcModelId, ifcZone);
+      api.WriteLine(
+        ifcModelId,
+        api.CreateIfcEntity(
+          ifcModelId,
+          WEBIFC.IFCRELASSIGNSTOGROUP,
+          api.CreateIFCGloballyUniqueId(ifcModelId),
+          ownerHistory,
+          null,
+          null,
+          spaces,
+          null,
+          new WEBIFC.Handle(ifcZone.expressID)
+        )
+      );
+      count++;
+    }
+
+    return count;
+  }
+
+  /**
+   * Write an IfcSpace with its placement, swept solid and quantity set
+   * @returns Handle of the written space
+   */
+  private writeSpace(context: WriteContext, space: AuthoredSpace, storey: StoreyTarget): WEBIFC.Handle<unknown> {
+    const { api, ifcModelId, schema, units } = context;
+    const profile = getSpaceProfile(
+      space,
+      context.modelMatrix,
+      context.coordinates,
+      storey.matrix,
+      units.length.factor
+    );
+
+    const point = (coordinates: number[]) =>
+      this.createEntity(
+        context,
+        WEBIFC.IFCCARTESIANPOINT,
+        coordinates.map((value) => api.CreateIfcType(ifcModelId, WEBIFC.IFCLENGTHMEASURE, value))
+      );
+    const direction = (ratios: number[]) =>
+      this.createEntity(
+        context,
+        WEBIFC.IFCDIRECTION,
+        ratios.map((value) => api.CreateIfcType(ifcModelId, WEBIFC.IFCREAL, value))
+      );
+    const label = (value: string) => (value ? api.CreateIfcType(ifcModelId, WEBIFC.IFCLABEL, value) : null);
+
+    const outline = profile.points.map((item) => point([item.x, item.y]));
+    const solid = this.createEntity(
+      context,
+      WEBIFC.IFCEXTRUDEDAREASOLID,
+      this.createEntity(
+        context,
+        WEBIFC.IFCARBITRARYCLOSEDPROFILEDEF,
+        toEnum('AREA'),
+        null,
+        this.createEntity(context, WEBIFC.IFCPOLYLINE, [...outline, outline[0]])
+      ),
+      this.createEntity(context, WEBIFC.IFCAXIS2PLACEMENT3D, point([0, 0, 0]), null, null),
+      direction([0, 0, 1]),
+      api.CreateIfcType(ifcModelId, WEBIFC.IFCPOSITIVELENGTHMEASURE, profile.depth)
+    );
+    const representation = this.createEntity(
+      context,
+      WEBIFC.IFCSHAPEREPRESENTATION,
+      context.bodyContext,
+      label(IFC_WRITER_CONFIG.bodyContext),
+      label('SweptSolid'),
+      [solid]
+    );
+    const placement = this.createEntity(
+      context,
+      WEBIFC.IFCLOCALPLACEMENT,
+      storey.placement,
+      this.createEntity(context, WEBIFC.IFCAXIS2PLACEMENT3D, point([0, 0, profile.elevation]), null, null)
+    );
+
+    const ifcSpace = this.createEntity(
+      context,
+      WEBIFC.IFCSPACE,
+      api.CreateIFCGloballyUniqueId(ifcModelId),
+      storey.ownerHistory,
+      label(space.number),
+      null,
+      label(space.usage),
+      placement,
+      this.createEntity(context, WEBIFC.IFCPRODUCTDEFINITIONSHAPE, null, null, [representation]),
+      label(space.name),
+      toEnum('ELEMENT'),
+      // InteriorOrExteriorSpace in IFC2X3, PredefinedType in later schemas
+      toEnum(schema === 'IFC2X3' ? IFC_WRITER_CONFIG.interiorOrExterior : IFC_WRITER_CONFIG.predefinedType),
+      null
+    );
+    api.WriteLine(ifcModelId, ifcSpace);
+    const handle = new WEBIFC.Handle(ifcSpace.expressID);
+
+    const quantities = getSpaceBaseQuantities(space, units).map((quantity) =>
+      this.createQuantity(api, ifcModelId, quantity)
+    );
+    this.writeQuantitySet(api, ifcModelId, handle, storey.ownerHistory, quantities);
+
+    return handle;
+  }
+
+  /**
+   * Write the values edited in the room schedule to the IfcSpaces of the opened file
+   * Only the edited attributes and quantities are replaced
+   * @returns Number of spaces edited (spaces whose GlobalId is not in the file are left out)
+   */
+  private writeSpaceEdits(api: WEBIFC.IfcAPI, ifcModelId: number, edits: EditedSpace[]): number {
+    const units = parseProjectUnits(this.getLines(api, ifcModelId, WEBIFC.IFCUNITASSIGNMENT, true));
+    const lines = new Map(
+      this.getLines(api, ifcModelId, WEBIFC.IFCSPACE, false).map((line) => [readValue(line, 'GlobalId'), line])
+    );
+    const label = (value: string) => (value ? api.CreateIfcType(ifcModelId, WEBIFC.IFCLABEL, value) : null);
+
+    let count = 0;
+    for (const { globalId, edit } of edits) {
+      const line = lines.get(globalId);
+      if (!line) {
+        console.warn(`⚠️ Space ${globalId} is not in the IFC file`);
+        continue;
+      }
+
+      if (edit.name !== undefined) {
+        line['Name'] = label(edit.name);
+      }
+      if (edit.longName !== undefined) {
+        line['LongName'] = label(edit.longName);
+      }
+      if (edit.usage !== undefined) {
+        line['ObjectType'] = label(edit.usage);
+      }
+      api.WriteLine(ifcModelId, line as unknown as WEBIFC.IfcLineObject);
+
+      const quantities = getEditedSpaceQuantities(edit.quantities, units);
+      if (quantities.length > 0) {
+        this.writeEditedQuantities(api, ifcModelId, line, quantities);
+      }
+      count++;
+    }
+
+    return count;
+  }
+
+  /**
+   * Write edited quantities to the Qto_SpaceBaseQuantities of a space of the file
+   * A set of this space alone is changed in place. A set shared with other objects is replaced for this
+   * space by a new set, which keeps referencing the unchanged quantities
+   */
+  private writeEditedQuantities(
+    api: WEBIFC.IfcAPI,
+    ifcModelId: number,
+    space: IfcLineData,
+    quantities: EditedSpaceQuantity[]
+  ): void {
+    const spaceId = space['expressID'] as number;
+    const relation = this.getLines(api, ifcModelId, WEBIFC.IFCRELDEFINESBYPROPERTIES, false).find((line) => {
+      const definition = toHandle(line['RelatingPropertyDefinition']);
+      return (
+        !!definition &&
+        toHandles(line['RelatedObjects']).some((handle) => handle.value === spaceId) &&
+        api.GetLineType(ifcModelId, definition.value) === WEBIFC.IFCELEMENTQUANTITY &&
+        readValue(api.GetLine(ifcModelId, definition.value, false) as IfcLineData, 'Name') ===
+          IFC_WRITER_CONFIG.quantitySet
+      );
+    });
+    const definition = relation ? toHandle(relation['RelatingPropertyDefinition']) : null;
+    const set = definition ? (api.GetLine(ifcModelId, definition.value, false) as IfcLineData) : null;
+    const isShared = !!relation && toHandles(relation['RelatedObjects']).length > 1;
+
+    // Quantities of the written set: handles of the kept ones, new entities for the changed ones
+    const items: unknown[] = toHandles(set?.['Quantities']);
+    const lines = toHandles(set?.['Quantities']).map(
+      (handle) => api.GetLine(ifcModelId, handle.value, false) as IfcLineData
+    );
+
+    for (const quantity of quantities) {
+      const type = QUANTITY_TYPES[quantity.measure];
+      const matches = lines.filter(
+        (line) => quantity.names.includes(readValue(line, 'Name') ?? '') && type.attribute in line
+      );
+      if (matches.length === 0) {
+        items.push(this.createQuantity(api, ifcModelId, quantity));
+        continue;
+      }
+
+      for (const line of matches) {
+        if (isShared) {
+          const name = readValue(line, 'Name') ?? quantity.name;
+          items[lines.indexOf(line)] = this.createQuantity(api, ifcModelId, { ...quantity, name });
+        } else {
+          line[type.attribute] = api.CreateIfcType(ifcModelId, type.value, quantity.value);
+          api.WriteLine(ifcModelId, line as unknown as WEBIFC.IfcLineObject);
+        }
+      }
+    }
+
+    if (set && !isShared) {
+      set['Quantities'] = items;
+      api.WriteLine(ifcModelId, set as unknown as WEBIFC.IfcLineObject);
+      return;
+    }
+
+    if (relation) {
+      relation['RelatedObjects'] = toHandles(relation['RelatedObjects']).filter((handle) => handle.value !== spaceId);
+      api.WriteLine(ifcModelId, relation as unknown as WEBIFC.IfcLineObject);
+    }
+    this.writeQuantitySet(api, ifcModelId, new WEBIFC.Handle(spaceId), toHandle(space['OwnerHistory']), items);
+  }
+
+  /**
+   * Create a length, area or volume quantity (written with the set that references it)
+   */
+  private createQuantity(api: WEBIFC.IfcAPI, ifcModelId: number, quantity: SpaceBaseQuantity): WEBIFC.IfcLineObject {
+    const type = QUANTITY_TYPES[quantity.measure];
+    // IFC2X3 quantities have no Formula, the extra argument is ignored
+    return api.CreateIfcEntity(
+      ifcModelId,
+      type.entity,
+      api.CreateIfcType(ifcModelId, WEBIFC.IFCLABEL, quantity.name),
+      null,
+      null,
+      api.CreateIfcType(ifcModelId, type.value, quantity.value),
+      null
+    );
+  }
+
+  /**
+   * Write a Qto_SpaceBaseQuantities set of a space with its IfcRelDefinesByProperties
+   * @param quantities - Quantity entities or handles of quantities in the file
+   */
+  private writeQuantitySet(
+    api: WEBIFC.IfcAPI,
+    ifcModelId: number,
+    space: WEBIFC.Handle<unknown>,
+    ownerHistory: WEBIFC.Handle<unknown> | null,
+    quantities: unknown[]
+  ): void {
+    api.WriteLine(
+      ifcModelId,
+      api.CreateIfcEntity(
+        ifcModelId,
+        WEBIFC.IFCRELDEFINESBYPROPERTIES,
+        api.CreateIFCGloballyUniqueId(ifcModelId),
+        ownerHistory,
+        null,
+        null,
+        [space],
+        api.CreateIfcEntity(
+          ifcModelId,
+          WEBIFC.IFCELEMENTQUANTITY,
+          api.CreateIFCGloballyUniqueId(ifcModelId),
+          ownerHistory,
+          api.CreateIfcType(ifcModelId, WEBIFC.IFCLABEL, IFC_WRITER_CONFIG.quantitySet),
+          null,
+          null,
+          quantities
+        )
+      )
+    );
+  }
+
+  /**
+   * Create an entity of the file schema (written with the entity that references it)
+   */
+  private createEntity(context: WriteContext, type: number, ...args: unknown[]): WEBIFC.IfcLineObject {
+    return context.api.CreateIfcEntity(context.ifcModelId, type, ...args);
+  }
+
+  /**
+   * Body subcontext of the 3D model context, or the first representation context
+   */
+  private findBodyContext(api: WEBIFC.IfcAPI, ifcModelId: number): WEBIFC.Handle<unknown> | null {
+    const subContexts = this.getLines(api, ifcModelId, WEBIFC.IFCGEOMETRICREPRESENTATIONSUBCONTEXT, false);
+    const body = subContexts.find((line) => readValue(line, 'ContextIdentifier') === IFC_WRITER_CONFIG.bodyContext);
+    const context = body ?? this.getLines(api, ifcModelId, WEBIFC.IFCGEOMETRICREPRESENTATIONCONTEXT, false)[0];
+
+    return typeof context?.['expressID'] === 'number' ? new WEBIFC.Handle(context['expressID']) : null;
+  }
+
+  /**
+   * Storeys of the opened file with their absolute placements
+   */
+  private readStoreys(api: WEBIFC.IfcAPI, ifcModelId: number): StoreyTarget[] {
+    return this.getLines(api, ifcModelId, WEBIFC.IFCBUILDINGSTOREY, false).map((line) => {
+      const placement = toHandle(line['ObjectPlacement']);
+      const ownerHistory = toHandle(line['OwnerHistory']);
+
+      return {
+        expressId: line['expressID'] as number,
+        globalId: readValue(line, 'GlobalId'),
+        name: readValue(line, 'Name'),
+        placement,
+        matrix: getObjectPlacementMatrix(
+          placement ? (api.GetLine(ifcModelId, placement.value, true) as IfcLineData) : null
+        ),
+        ownerHistory,
+      };
+    });
+  }
+
+  /**
+   * All lines of an IFC type
+   */
+  private getLines(api: WEBIFC.IfcAPI, ifcModelId: number, type: number, flatten: boolean): IfcLineData[] {
+    const ids = api.GetLineIDsWithType(ifcModelId, type);
+    const lines: IfcLineData[] = [];
+    for (let index = 0; index < ids.size(); index++) {
+      lines.push(api.GetLine(ifcModelId, ids.get(index), flatten) as IfcLineData);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Enumeration value of an entity argument
+ */
+function toEnum(value: string): { type: number; value: string } {
+  return { type: 3, value };
+}
+
+/**
+ * Reference attribute of an unflattened line as a handle
+ */
+function toHandle(value: unknown): WEBIFC.Handle<unknown> | null {
+  const reference = value as { type?: number; value?: unknown } | null | undefined;
+  return reference?.type === 5 && typeof reference.value === 'number' ? new WEBIFC.Handle(reference.value) : null;
+}
+
+/**
+ * Reference list attribute of an unflattened line as handles
+ */
+function toHandles(value: unknown): WEBIFC.Handle<unknown>[] {
+  return Array.isArray(value)
+    ? value.map(toHandle).filter((handle): handle is WEBIFC.Handle<unknown> => handle !== null)
+    : [];
+}
+
+/**
+ * Primitive attribute value of a line as a string
+ */
+function readValue(line: IfcLineData, attribute: string): string | null {
+  const value = (line[attribute] as { value?: unknown } | null | undefined)?.value;
+  return value === undefined || value === null ? null : String(value);
+}
@@ -0,0 +1,255 @@
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+import * as FRAGS from '@thatopen/fragments';
+import { MeasurementService } from './measurement.service';
+import { FragmentsService } from './fragments.service';
+import { ErrorHandlerService } from './error-handler.service';
+import { DEFAULT_PROJECT_UNITS } from '../../shared/constants/viewer.constants';
+
+describe('MeasurementService', () => {
+  let service: MeasurementService;
+  let fragmentsService: jasmine.SpyObj<FragmentsService>;
+  let errorHandler: jasmine.SpyObj<ErrorHandlerService>;
+
+  const camera = new THREE.PerspectiveCamera();
+  const canvas = document.createElement('canvas');
+  const mouse = new THREE.Vector2(10, 10);
+
+  const hit = (point: THREE.Vector3, snappingClass = FRAGS.SnappingClass.POINT, extra: object = {}) =>
+    ({
+      point,
+      distance: 1,
+      snappingClass,
+      localId: 42,
+      fragments: { modelId: 'model-1' },
+      ...extra,
+    }) as unknown as FRAGS.RaycastResult;
+
+  const snapTo = (...results: FRAGS.RaycastResult[]) =>
+    fragmentsService.raycastWithSnapping.and.returnValue(Promise.resolve(results));
+
+  const clickAt = (point: THREE.Vector3) => {
+    snapTo(hit(point));
+    return service.pickAt(camera, mouse, canvas);
+  };
+
+  beforeEach(() => {
+    const fragmentsServiceSpy = jasmine.createSpyObj(
+      'FragmentsService',
+      ['raycastWithSnapping', 'getProjectUnits', 'getItemsVolume'],
+      { isInitialized: true }
+    );
+    const errorHandlerSpy = jasmine.createSpyObj('ErrorHandlerService', ['handleError']);
+
+    fragmentsServiceSpy.raycastWithSnapping.and.returnValue(Promise.resolve([]));
+    fragmentsServiceSpy.getProjectUnits.and.returnValue(Promise.resolve(DEFAULT_PROJECT_UNITS));
+    fragmentsServiceSpy.getItemsVolume.and.returnValue(Promise.resolve(0));
+
+    TestBed.configureTestingModule({
+      providers: [
+        MeasurementService,
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: ErrorHandlerService, useValue: errorHandlerSpy },
+      ],
+    });
+
+    service = TestBed.inject(MeasurementService);
+    fragmentsService = TestBed.inject(FragmentsService) as jasmine.SpyObj<FragmentsService>;
+    errorHandler = TestBed.inject(ErrorHandlerService) as jasmine.SpyObj<ErrorHandlerService>;
+  });
+
+  afterEach(() => {
+    service.dispose();
+  });
+
+  it('should be created with the distance tool', () => {
+    expect(service).toBeTruthy();
+    expect(service.tool()).toBe('distance');
+    expect(service.hasMeasurements()).toBe(false);
+  });
+
+  describe('distance', () => {
+    it('should measure between two snapped points', async () => {
+      expect(await clickAt(new THREE.Vector3(0, 0, 0))).toBeNull();
+      expect(service.draftPointCount()).toBe(1);
+
+      const measurement = await clickAt(new THREE.Vector3(3, 4, 0));
+
+      expect(measurement?.label).toBe('Distance 1');
+      expect(measurement?.value).toBeCloseTo(5);
+      expect(service.measurements().length).toBe(1);
+      expect(service.draftPointCount()).toBe(0);
+    });
+
+    it('should prefer a vertex over the face under the pointer', async () => {
+      snapTo(
+        hit(new THREE.Vector3(9, 9, 9), FRAGS.SnappingClass.FACE),
+        hit(new THREE.Vector3(1, 0, 0), FRAGS.SnappingClass.POINT)
+      );
+      await service.pickAt(camera, mouse, canvas);
+      await clickAt(new THREE.Vector3(4, 0, 0));
+
+      expect(service.measurements()[0]!.points[0]).toEqual({ x: 1, y: 0, z: 0 });
+    });
+
+    it('should ignore clicks on empty space', async () => {
+      expect(await service.pickAt(camera, mouse, canvas)).toBeNull();
+      expect(service.draftPointCount()).toBe(0);
+    });
+  });
+
+  describe('polyline', () => {
+    beforeEach(() => {
+      service.setTool('polyline');
+    });
+
+    it('should chain points until finished', async () => {
+      await clickAt(new THREE.Vector3(0, 0, 0));
+      await clickAt(new THREE.Vector3(2, 0, 0));
+      await clickAt(new THREE.Vector3(2, 3, 0));
+
+      expect(service.canFinish()).toBe(true);
+
+      const measurement = service.finishDraft();
+
+      expect(measurement?.value).toBeCloseTo(5);
+      expect(measurement?.points.length).toBe(3);
+    });
+
+    it('should skip the repeated point of a double click', async () => {
+      await clickAt(new THREE.Vector3(0, 0, 0));
+      await clickAt(new THREE.Vector3(0, 0, 0));
+
+      expect(service.draftPointCount()).toBe(1);
+      expect(service.finishDraft()).toBeNull();
+    });
+
+    it('should drop the draft when the tool changes', async () => {
+      await clickAt(new THREE.Vector3(0, 0, 0));
+
+      service.setTool('distance');
+
+      expect(service.draftPointCount()).toBe(0);
+    });
+  });
+
+  describe('angle', () => {
+    it('should measure the angle at the second point', async () => {
+      service.setTool('angle');
+
+      await clickAt(new THREE.Vector3(1, 0, 0));
+      await clickAt(new THREE.Vector3(0, 0, 0));
+      const measurement = await clickAt(new THREE.Vector3(0, 1, 0));
+
+      expect(measurement?.value).toBeCloseTo(Math.PI / 2);
+      expect(service.formatValue(measurement!)).toBe('90.0°');
+    });
+  });
+
+  describe('area and volume', () => {
+    it('should measure the area of the clicked face', async () => {
+      service.setTool('area');
+      snapTo(
+        hit(new THREE.Vector3(1, 0, 1), FRAGS.SnappingClass.FACE, {
+          facePoints: new Float64Array([0, 0, 0, 4, 0, 0, 4, 0, 2, 0, 0, 2]),
+          faceIndices: new Uint16Array([0, 1, 2, 0, 2, 3]),
+        })
+      );
+
+      const measurement = await service.pickAt(camera, mouse, canvas);
+
+      expect(fragmentsService.raycastWithSnapping.calls.mostRecent().args[3]).toEqual([
+        FRAGS.SnappingClass.FACE,
+      ]);
+      expect(measurement?.value).toBeCloseTo(8);
+      expect(measurement?.element).toEqual({ modelId: 'model-1', localId: 42 });
+    });
+
+    it('should measure the volume of the clicked element', async () => {
+      service.setTool('volume');
+      fragmentsService.getItemsVolume.and.returnValue(Promise.resolve(12.5));
+      snapTo(hit(new THREE.Vector3(), FRAGS.SnappingClass.FACE));
+
+      const measurement = await service.pickAt(camera, mouse, canvas);
+
+      expect(fragmentsService.getItemsVolume).toHaveBeenCalledWith('model-1', [42]);
+      expect(measurement?.label).toBe('Volume 1');
+      expect(measurement?.value).toBe(12.5);
+    });
+
+    it('should report raycast errors', async () => {
+      fragmentsService.raycastWithSnapping.and.returnValue(Promise.reject(new Error('worker')));
+
+      expect(await service.pickAt(camera, mouse, canvas)).toBeNull();
+      expect(errorHandler.handleError).toHaveBeenCalled();
+    });
+  });
+
+  describe('units', () => {
+    it('should read the project units', async () => {
+      fragmentsService.getProjectUnits.and.returnValue(
+        Promise.resolve({ ...DEFAULT_PROJECT_UNITS, length: { symbol: 'mm', factor: 1000, decimals: 0 } })
+      );
+
+      await service.loadUnits('model-1');
+
+      expect(fragmentsService.getProjectUnits).toHaveBeenCalledWith('model-1');
+      expect(service.units().length.symbol).toBe('mm');
+    });
+
+    it('should keep the units when they cannot be read', async () => {
+      fragmentsService.getProjectUnits.and.returnValue(Promise.reject(new Error('worker')));
+
+      await service.loadUnits('model-1');
+
+      expect(service.units()).toEqual(DEFAULT_PROJECT_UNITS);
+      expect(errorHandler.handleError).toHaveBeenCalled();
+    });
+  });
+
+  describe('list', () => {
+    beforeEach(async () => {
+      await clickAt(new THREE.Vector3(0, 0, 0));
+      await clickAt(new THREE.Vector3(2, 0, 0));
+    });
+
+    it('should delete measurements', () => {
+      service.removeMeasurement(service.measurements()[0]!.id);
+
+      expect(service.measurements().length).toBe(0);
+    });
+
+    it('should restart numbering after clearing', async () => {
+      service.clearMeasurements();
+      await clickAt(new THREE.Vector3(0, 0, 0));
+      const measurement = await clickAt(new THREE.Vector3(1, 0, 0));
+
+      expect(measurement?.label).toBe('Distance 1');
+    });
+
+    it('should export CSV', () => {
+      const lines = service.exportCsv().split('\n');
+
+      expect(lines.length).toBe(2);
+      expect(lines[1]).toContain('Distance 1,distance,2.000,m');
+    });
+  });
+
+  describe('renderOverlay', () => {
+    it('should render measurements without clipping and restore the renderer', async () => {
+      await clickAt(new THREE.Vector3(0, 0, 0));
+      await clickAt(new THREE.Vector3(2, 0, 0));
+      const planes = [new THREE.Plane()];
+      const renderer: any = { clippingPlanes: planes, autoClear: true, render: jasmine.createSpy('render') };
+
+      renderer.render.and.callFake(() => {
+        expect(renderer.clippingPlanes.length).toBe(0);
+      });
+      service.renderOverlay(renderer, camera);
+
+      expect(renderer.render).toHaveBeenCalled();
+      expect(renderer.clippingPlanes).toBe(planes);
+      expect(renderer.autoClear).toBe(true);
+    });
+  });
+});
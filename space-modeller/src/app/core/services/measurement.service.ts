@@ -0,0 +1,636 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import * as THREE from 'three';
+import * as FRAGS from '@thatopen/fragments';
+import { FragmentsService } from './fragments.service';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import {
+  DEFAULT_PROJECT_UNITS,
+  MEASUREMENT_CONFIG,
+} from '../../shared/constants/viewer.constants';
+import {
+  Measurement,
+  MeasurementSnap,
+  MeasurementType,
+  ProjectUnits,
+} from '../../shared/models/measurement.model';
+import { ElementReference } from '../../shared/models/selection.model';
+import {
+  formatMeasurement,
+  getAngle,
+  getFaceArea,
+  getLabelScale,
+  getPolylineLength,
+  measurementsToCsv,
+  selectSnapResult,
+  toMeasurementPoint,
+  toMeasurementSnap,
+} from '../../shared/utils/measurement.utils';
+
+/**
+ * Completed measurement with its viewport objects
+ */
+interface MeasurementEntry {
+  measurement: Measurement;
+  group: THREE.Group;
+  label: THREE.Sprite;
+  labelPosition: THREE.Vector3;
+}
+
+/**
+ * Snapped point under the pointer
+ */
+interface MeasurementHit {
+  point: THREE.Vector3;
+  snap: MeasurementSnap;
+  result: FRAGS.RaycastResult;
+}
+
+/**
+ * Display names of the measurement tools (used in labels)
+ */
+const TOOL_NAMES: Record<MeasurementType, string> = {
+  distance: 'Distance',
+  polyline: 'Polyline',
+  angle: 'Angle',
+  area: 'Area',
+  volume: 'Volume',
+};
+
+/**
+ * Number of points that complete a measurement (polylines are finished explicitly)
+ */
+const TOOL_POINT_COUNTS: Partial<Record<MeasurementType, number>> = {
+  distance: 2,
+  angle: 3,
+};
+
+const ALL_SNAPS = [FRAGS.SnappingClass.POINT, FRAGS.SnappingClass.LINE, FRAGS.SnappingClass.FACE];
+const FACE_SNAPS = [FRAGS.SnappingClass.FACE];
+
+/**
+ * Service for measuring the loaded models
+ *
+ * Features:
+ * - Snapping to vertices, edges and faces of the fragments meshes
+ * - Point-to-point distances, chained polylines and angles
+ * - Face areas and element volumes
+ * - In-scene labels and a measurements list with CSV export
+ * - Values shown in the units of the project's IfcUnitAssignment
+ *
+ * Lines, points and labels live in an overlay scene rendered on top of the model
+ * without clipping, so measurements stay readable inside section cuts.
+ *
+ * @example
+ * ```typescript
+ * constructor(private measurement: MeasurementService) {}
+ *
+ * await this.measurement.loadUnits(modelId);
+ * this.measurement.setTool('distance');
+ * await this.measurement.pickAt(camera, new THREE.Vector2(event.clientX, event.clientY), canvas);
+ *
+ * // In the render loop, after rendering the scene
+ * this.measurement.renderOverlay(renderer, camera);
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class MeasurementService {
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly errorHandler = inject(ErrorHandlerService);
+
+  // Three.js objects
+  private readonly overlay = new THREE.Scene();
+  private readonly lineMaterial = new THREE.LineBasicMaterial({
+    color: MEASUREMENT_CONFIG.lineColor,
+    depthTest: false,
+  });
+  private readonly pointMaterial = new THREE.PointsMaterial({
+    color: MEASUREMENT_CONFIG.lineColor,
+    size: MEASUREMENT_CONFIG.pointSize,
+    sizeAttenuation: false,
+    depthTest: false,
+  });
+  private readonly areaMaterial = new THREE.MeshBasicMaterial({
+    color: MEASUREMENT_CONFIG.areaColor,
+    transparent: true,
+    opacity: MEASUREMENT_CONFIG.areaOpacity,
+    side: THREE.DoubleSide,
+    depthTest: false,
+    depthWrite: false,
+  });
+  private readonly markerMaterial = new THREE.PointsMaterial({
+    size: MEASUREMENT_CONFIG.markerSize,
+    sizeAttenuation: false,
+    depthTest: false,
+  });
+  private readonly draftLine = new THREE.Line(new THREE.BufferGeometry(), this.lineMaterial);
+  private readonly draftPoints = new THREE.Points(new THREE.BufferGeometry(), this.pointMaterial);
+  private readonly marker = new THREE.Points(new THREE.BufferGeometry(), this.markerMaterial);
+
+  // State
+  private readonly entries = new Map<string, MeasurementEntry>();
+  private readonly labelCounters = new Map<MeasurementType, number>();
+  private draft: THREE.Vector3[] = [];
+  private hoverPoint: THREE.Vector3 | null = null;
+  private isHovering = false;
+  // Incremented when the draft is committed or cancelled so late picks are dropped
+  private draftVersion = 0;
+
+  // Signals for reactive state
+  readonly tool = signal<MeasurementType>('distance');
+  readonly measurements = signal<Measurement[]>([]);
+  readonly units = signal<ProjectUnits>(DEFAULT_PROJECT_UNITS);
+  readonly draftPointCount = signal<number>(0);
+  readonly snap = signal<MeasurementSnap | null>(null);
+  readonly hasMeasurements = computed(() => this.measurements().length > 0);
+  readonly canFinish = computed(() => this.tool() === 'polyline' && this.draftPointCount() >= 2);
+
+  constructor() {
+    this.marker.visible = false;
+    [this.draftLine, this.draftPoints, this.marker].forEach((object) => {
+      object.renderOrder = 2;
+      this.overlay.add(object);
+    });
+  }
+
+  /**
+   * Change the measurement tool (cancels an unfinished measurement)
+   * @param tool - Measurement tool
+   */
+  setTool(tool: MeasurementType): void {
+    this.cancelDraft();
+    this.tool.set(tool);
+  }
+
+  /**
+   * Read the display units from the IfcUnitAssignment of a model
+   * The units of the most recently loaded model are used for every measurement
+   * @param modelId - Fragment model UUID
+   */
+  async loadUnits(modelId: string): Promise<void> {
+    try {
+      this.units.set(await this.fragmentsService.getProjectUnits(modelId));
+      this.entries.forEach((entry) => this.updateLabel(entry));
+      console.log(`📏 Measurement units: ${this.units().length.symbol}, ${this.units().area.symbol}`);
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.INFO, {
+        operation: 'loadUnits',
+        modelId,
+      });
+    }
+  }
+
+  /**
+   * Add a point (or measure the face or element) under the pointer with the current tool
+   * @param camera - Active camera
+   * @param mouse - Pointer position in client (CSS pixel) coordinates
+   * @param dom - Canvas the scene is rendered into
+   * @returns The completed measurement or null if the measurement is not complete yet
+   */
+  async pickAt(
+    camera: THREE.PerspectiveCamera | THREE.OrthographicCamera,
+    mouse: THREE.Vector2,
+    dom: HTMLCanvasElement
+  ): Promise<Measurement | null> {
+    const tool = this.tool();
+    const version = this.draftVersion;
+
+    try {
+      const snaps = tool === 'area' || tool === 'volume' ? FACE_SNAPS : ALL_SNAPS;
+      const hit = await this.snapAt(camera, mouse, dom, snaps);
+      if (!hit || version !== this.draftVersion || tool !== this.tool()) {
+        return null;
+      }
+
+      switch (tool) {
+        case 'area':
+          return this.measureArea(hit);
+        case 'volume':
+          return await this.measureVolume(hit);
+        default:
+          return this.addDraftPoint(hit.point);
+      }
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'measure',
+        tool,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Show the snapped point under the pointer and preview the next segment
+   * Pointer moves are skipped while a previous snap is still computed
+   * @param camera - Active camera
+   * @param mouse - Pointer position in client (CSS pixel) coordinates
+   * @param dom - Canvas the scene is rendered into
+   */
+  async hover(
+    camera: THREE.PerspectiveCamera | THREE.OrthographicCamera,
+    mouse: THREE.Vector2,
+    dom: HTMLCanvasElement
+  ): Promise<void> {
+    if (this.isHovering) {
+      return;
+    }
+
+    this.isHovering = true;
+    try {
+      const tool = this.tool();
+      const hit = await this.snapAt(
+        camera,
+        mouse,
+        dom,
+        tool === 'area' || tool === 'volume' ? FACE_SNAPS : ALL_SNAPS
+      );
+      this.setHover(hit);
+    } catch {
+      this.setHover(null);
+    } finally {
+      this.isHovering = false;
+    }
+  }
+
+  /**
+   * Hide the snap marker and the segment preview
+   */
+  clearHover(): void {
+    this.setHover(null);
+  }
+
+  /**
+   * Complete an unfinished polyline
+   * @returns The polyline or null if it has less than two points
+   */
+  finishDraft(): Measurement | null {
+    if (this.tool() !== 'polyline' || this.draft.length < 2) {
+      return null;
+    }
+    return this.commit('polyline', [...this.draft]);
+  }
+
+  /**
+   * Drop the points of an unfinished measurement
+   */
+  cancelDraft(): void {
+    this.draftVersion++;
+    this.draft = [];
+    this.updateDraftObjects();
+  }
+
+  /**
+   * Delete a measurement
+   * @param id - Measurement ID
+   */
+  removeMeasurement(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+
+    this.disposeEntry(entry);
+    this.entries.delete(id);
+    this.sync();
+  }
+
+  /**
+   * Delete every measurement
+   */
+  clearMeasurements(): void {
+    this.cancelDraft();
+    this.entries.forEach((entry) => this.disposeEntry(entry));
+    this.entries.clear();
+    this.labelCounters.clear();
+    this.sync();
+  }
+
+  /**
+   * Format a measurement value in the project units
+   * @param measurement - Measurement
+   * @returns Value with its unit symbol
+   */
+  formatValue(measurement: Measurement): string {
+    return formatMeasurement(measurement.value, measurement.type, this.units());
+  }
+
+  /**
+   * Export the measurements as CSV
+   * @returns CSV text with a header row
+   */
+  exportCsv(): string {
+    return measurementsToCsv(this.measurements(), this.units());
+  }
+
+  /**
+   * Render measurements, the draft and the snap marker on top of the scene
+   * @param renderer - Viewer renderer
+   * @param camera - Active camera
+   */
+  renderOverlay(
+    renderer: THREE.WebGLRenderer,
+    camera: THREE.PerspectiveCamera | THREE.OrthographicCamera
+  ): void {
+    if (!this.overlay.children.some((child) => child.visible)) {
+      return;
+    }
+
+    // Keep labels at a constant size on screen
+    const scale = getLabelScale(camera, MEASUREMENT_CONFIG.labelHeight);
+    this.entries.forEach(({ label }) => {
+      label.scale.set(scale * (label.userData['aspect'] as number), scale, 1);
+    });
+
+    const clippingPlanes = renderer.clippingPlanes;
+    const autoClear = renderer.autoClear;
+
+    renderer.clippingPlanes = [];
+    renderer.autoClear = false;
+    renderer.render(this.overlay, camera);
+
+    renderer.clippingPlanes = clippingPlanes;
+    renderer.autoClear = autoClear;
+  }
+
+  /**
+   * Delete every measurement and release GPU resources
+   */
+  dispose(): void {
+    this.clearMeasurements();
+    this.clearHover();
+
+    [this.draftLine, this.draftPoints, this.marker].forEach((object) => object.geometry.dispose());
+    [this.lineMaterial, this.pointMaterial, this.areaMaterial, this.markerMaterial].forEach((m) =>
+      m.dispose()
+    );
+  }
+
+  /**
+   * Snap to the geometry under the pointer
+   */
+  private async snapAt(
+    camera: THREE.PerspectiveCamera | THREE.OrthographicCamera,
+    mouse: THREE.Vector2,
+    dom: HTMLCanvasElement,
+    snappingClasses: FRAGS.SnappingClass[]
+  ): Promise<MeasurementHit | null> {
+    if (!this.fragmentsService.isInitialized) {
+      return null;
+    }
+
+    const results = await this.fragmentsService.raycastWithSnapping(camera, mouse, dom, snappingClasses);
+    const result = selectSnapResult(results);
+    if (!result) {
+      return null;
+    }
+
+    return { point: result.point.clone(), snap: toMeasurementSnap(result.snappingClass), result };
+  }
+
+  /**
+   * Add a point to the draft and complete distances and angles
+   */
+  private addDraftPoint(point: THREE.Vector3): Measurement | null {
+    // A double click adds the same point twice
+    const last = this.draft[this.draft.length - 1];
+    if (last && last.distanceTo(point) < MEASUREMENT_CONFIG.pointTolerance) {
+      return null;
+    }
+
+    this.draft.push(point);
+    this.updateDraftObjects();
+
+    const tool = this.tool();
+    if (this.draft.length === TOOL_POINT_COUNTS[tool]) {
+      return this.commit(tool, [...this.draft]);
+    }
+    return null;
+  }
+
+  /**
+   * Measure the area of the face under the pointer
+   */
+  private measureArea(hit: MeasurementHit): Measurement | null {
+    const { facePoints, faceIndices } = hit.result;
+    if (!facePoints || !faceIndices || faceIndices.length < 3) {
+      console.warn('⚠️ No face found to measure');
+      return null;
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(Array.from(facePoints), 3));
+    geometry.setIndex(Array.from(faceIndices));
+    const face = new THREE.Mesh(geometry, this.areaMaterial);
+
+    return this.commit('area', [hit.point], {
+      value: getFaceArea(facePoints, faceIndices),
+      objects: [face],
+      element: this.getElement(hit),
+    });
+  }
+
+  /**
+   * Measure the volume of the element under the pointer
+   */
+  private async measureVolume(hit: MeasurementHit): Promise<Measurement | null> {
+    const element = this.getElement(hit);
+    const value = await this.fragmentsService.getItemsVolume(element.modelId, [element.localId]);
+    if (this.tool() !== 'volume') {
+      return null;
+    }
+
+    return this.commit('volume', [hit.point], { value, element });
+  }
+
+  /**
+   * Reference to the element of a hit
+   */
+  private getElement(hit: MeasurementHit): ElementReference {
+    return { modelId: hit.result.fragments.modelId, localId: hit.result.localId };
+  }
+
+  /**
+   * Store a completed measurement and create its viewport objects
+   */
+  private commit(
+    type: MeasurementType,
+    points: THREE.Vector3[],
+    options: {
+      value?: number;
+      objects?: THREE.Object3D[];
+      element?: ElementReference;
+    } = {}
+  ): Measurement {
+    const count = (this.labelCounters.get(type) ?? 0) + 1;
+    this.labelCounters.set(type, count);
+
+    const measurement: Measurement = {
+      id: crypto.randomUUID(),
+      type,
+      label: `${TOOL_NAMES[type]} ${count}`,
+      value: options.value ?? this.computeValue(type, points),
+      points: points.map(toMeasurementPoint),
+      ...(options.element ? { element: options.element } : {}),
+    };
+
+    const group = new THREE.Group();
+    group.name = measurement.label;
+    group.add(...(options.objects ?? []));
+    if (points.length > 1) {
+      group.add(new THREE.Line(new THREE.BufferGeometry().setFromPoints(points), this.lineMaterial));
+    }
+    group.add(new THREE.Points(new THREE.BufferGeometry().setFromPoints(points), this.pointMaterial));
+
+    const entry: MeasurementEntry = {
+      measurement,
+      group,
+      label: new THREE.Sprite(),
+      labelPosition: this.getLabelPosition(type, points),
+    };
+    this.updateLabel(entry);
+
+    this.entries.set(measurement.id, entry);
+    this.overlay.add(group);
+
+    this.cancelDraft();
+    this.sync();
+
+    console.log(`📏 ${measurement.label}: ${this.formatValue(measurement)}`);
+    return measurement;
+  }
+
+  /**
+   * Compute the value of a point based measurement
+   */
+  private computeValue(type: MeasurementType, points: THREE.Vector3[]): number {
+    if (type === 'angle' && points.length === 3) {
+      return getAngle(points[0]!, points[1]!, points[2]!);
+    }
+    return getPolylineLength(points);
+  }
+
+  /**
+   * Where the label of a measurement is placed
+   * Distances and polylines: middle of the last segment, angles: the vertex, others: the picked point
+   */
+  private getLabelPosition(type: MeasurementType, points: THREE.Vector3[]): THREE.Vector3 {
+    if (type === 'angle') {
+      return points[1]!.clone();
+    }
+    if (points.length > 1) {
+      return points[points.length - 2]!.clone().lerp(points[points.length - 1]!, 0.5);
+    }
+    return points[0]!.clone();
+  }
+
+  /**
+   * Re-create the label sprite of a measurement with its formatted value
+   */
+  private updateLabel(entry: MeasurementEntry): void {
+    const { measurement } = entry;
+    entry.group.remove(entry.label);
+    this.disposeLabel(entry.label);
+
+    entry.label = this.createLabel(`${measurement.label}: ${this.formatValue(measurement)}`);
+    entry.label.position.copy(entry.labelPosition);
+    entry.group.add(entry.label);
+  }
+
+  /**
+   * Create a text sprite drawn on a canvas
+   * The sprite is scaled every frame to a constant screen size (see renderOverlay)
+   */
+  private createLabel(text: string): THREE.Sprite {
+    const fontSize = 32;
+    const padding = 12;
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    const font = `600 ${fontSize}px system-ui, sans-serif`;
+
+    if (context) {
+      context.font = font;
+      canvas.width = Math.ceil(context.measureText(text).width) + padding * 2;
+      canvas.height = fontSize + padding * 2;
+
+      // Resizing resets the context state
+      context.font = font;
+      context.fillStyle = MEASUREMENT_CONFIG.labelBackground;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.fillStyle = MEASUREMENT_CONFIG.labelColor;
+      context.textBaseline = 'middle';
+      context.fillText(text, padding, canvas.height / 2);
+    }
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+
+    const sprite = new THREE.Sprite(
+      new THREE.SpriteMaterial({ map: texture, sizeAttenuation: false, depthTest: false })
+    );
+    sprite.center.set(0.5, 0);
+    sprite.renderOrder = 3;
+    sprite.userData['aspect'] = canvas.width / canvas.height || 1;
+    return sprite;
+  }
+
+  /**
+   * Update the snap marker and the preview of the next segment
+   */
+  private setHover(hit: MeasurementHit | null): void {
+    this.hoverPoint = hit?.point ?? null;
+    this.snap.set(hit?.snap ?? null);
+
+    this.marker.visible = !!hit;
+    if (hit) {
+      this.marker.geometry.setFromPoints([hit.point]);
+      this.markerMaterial.color.set(MEASUREMENT_CONFIG.snapColors[hit.snap]);
+    }
+
+    this.updateDraftObjects();
+  }
+
+  /**
+   * Rebuild the draft line (including the segment to the hovered point)
+   */
+  private updateDraftObjects(): void {
+    this.draftPointCount.set(this.draft.length);
+
+    const preview = this.hoverPoint && this.draft.length > 0 ? [...this.draft, this.hoverPoint] : this.draft;
+
+    this.draftPoints.visible = this.draft.length > 0;
+    this.draftLine.visible = preview.length > 1;
+    this.draftPoints.geometry.dispose();
+    this.draftPoints.geometry = new THREE.BufferGeometry().setFromPoints(this.draft);
+    this.draftLine.geometry.dispose();
+    this.draftLine.geometry = new THREE.BufferGeometry().setFromPoints(preview);
+  }
+
+  /**
+   * Publish the measurements to the signal
+   */
+  private sync(): void {
+    this.measurements.set(Array.from(this.entries.values()).map((entry) => entry.measurement));
+  }
+
+  /**
+   * Remove the objects of a measurement (materials are shared and kept)
+   */
+  private disposeEntry(entry: MeasurementEntry): void {
+    this.overlay.remove(entry.group);
+    entry.group.traverse((object) => {
+      if (object instanceof THREE.Mesh || object instanceof THREE.Line || object instanceof THREE.Points) {
+        object.geometry.dispose();
+      }
+    });
+    this.disposeLabel(entry.label);
+  }
+
+  /**
+   * Release the texture and material of a label
+   */
+  private disposeLabel(label: THREE.Sprite): void {
+    label.material.map?.dispose();
+    label.material.dispose();
+  }
+}
@@ -0,0 +1,225 @@
+import { TestBed } from '@angular/core/testing';
+import { WritableSignal, signal } from '@angular/core';
+import * as THREE from 'three';
+import { ModelDiffService } from './model-diff.service';
+import { ErrorHandlerService } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { ModelManagerService } from './model-manager.service';
+import { ScheduleService } from './schedule.service';
+import { SelectionService } from './selection.service';
+import { ThemeService } from './theme.service';
+import { ScheduleElement } from '../../shared/models/export.model';
+import { IFCModelState } from '../../shared/models/ifc.model';
+
+describe('ModelDiffService', () => {
+  let service: ModelDiffService;
+  let fragmentsService: jasmine.SpyObj<FragmentsService>;
+  let selectionService: jasmine.SpyObj<SelectionService>;
+  let modelManager: jasmine.SpyObj<ModelManagerService>;
+  let elements: WritableSignal<ScheduleElement[]>;
+
+  const element = (modelId: string, localId: number, globalId: string, tag: string): ScheduleElement => ({
+    properties: {
+      modelId,
+      localId,
+      globalId,
+      name: `Wall ${globalId}`,
+      ifcClass: 'IfcWall',
+      attributes: [{ name: 'Tag', value: tag }],
+      propertySets: [],
+      quantitySets: [],
+    },
+    storey: 'Level 1',
+    type: null,
+    material: null,
+  });
+
+  // Item 12 of the revision is moved by one meter
+  const boxOf = (localId: number) => {
+    const x = localId === 12 ? 1 : 0;
+    return new THREE.Box3(new THREE.Vector3(x, 0, 0), new THREE.Vector3(x + 1, 3, 1));
+  };
+
+  const meshOf = (geometry: THREE.BufferGeometry) => [
+    {
+      transform: new THREE.Matrix4(),
+      positions: geometry.getAttribute('position').array as Float32Array,
+      indices: geometry.getIndex()?.array as Uint16Array,
+    },
+  ];
+
+  beforeEach(() => {
+    const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', [
+      'getModelIds',
+      'getModel',
+      'getCoordinates',
+      'getItemsBoxes',
+      'getItemsGeometry',
+      'getVisibleItems',
+      'setItemsVisibility',
+      'highlightItems',
+      'resetHighlight',
+    ]);
+    fragmentsServiceSpy.getModelIds.and.returnValue(['base', 'rev']);
+    fragmentsServiceSpy.getModel.and.returnValue({ object: new THREE.Group() });
+    fragmentsServiceSpy.getCoordinates.and.returnValue(Promise.resolve([0, 0, 0]));
+    fragmentsServiceSpy.getItemsBoxes.and.callFake((_: string, localIds: number[]) =>
+      Promise.resolve(localIds.map(boxOf))
+    );
+    fragmentsServiceSpy.getItemsGeometry.and.callFake((_: string, localIds: number[]) =>
+      Promise.resolve(localIds.map(() => meshOf(new THREE.BoxGeometry(1, 3, 1))))
+    );
+    fragmentsServiceSpy.getVisibleItems.and.returnValue(Promise.resolve([1, 2]));
+    fragmentsServiceSpy.setItemsVisibility.and.returnValue(Promise.resolve(true));
+    fragmentsServiceSpy.highlightItems.and.returnValue(Promise.resolve());
+    fragmentsServiceSpy.resetHighlight.and.returnValue(Promise.resolve());
+
+    elements = signal<ScheduleElement[]>([
+      element('base', 1, 'a', 'W1'),
+      element('base', 2, 'b', 'W2'),
+      element('base', 3, 'c', 'W3'),
+      element('rev', 11, 'a', 'W1b'),
+      element('rev', 12, 'b', 'W2'),
+      element('rev', 14, 'd', 'W4'),
+    ]);
+    const scheduleServiceSpy = jasmine.createSpyObj('ScheduleService', ['ensureLoaded'], { elements });
+    scheduleServiceSpy.ensureLoaded.and.returnValue(Promise.resolve());
+
+    const selectionServiceSpy = jasmine.createSpyObj('SelectionService', ['select', 'refreshHighlight']);
+    selectionServiceSpy.select.and.returnValue(Promise.resolve());
+    selectionServiceSpy.refreshHighlight.and.returnValue(Promise.resolve());
+    const themeServiceSpy = jasmine.createSpyObj('ThemeService', ['clear']);
+    themeServiceSpy.clear.and.returnValue(Promise.resolve());
+    const modelManagerSpy = jasmine.createSpyObj('ModelManagerService', ['getModelByFragmentUuid']);
+    modelManagerSpy.getModelByFragmentUuid.and.callFake((uuid: string) => ({ name: `${uuid}.ifc` }));
+
+    TestBed.configureTestingModule({
+      providers: [
+        ModelDiffService,
+        { provide: ErrorHandlerService, useValue: jasmine.createSpyObj('ErrorHandlerService', ['handleError']) },
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: ModelManagerService, useValue: modelManagerSpy },
+        { provide: ScheduleService, useValue: scheduleServiceSpy },
+        { provide: SelectionService, useValue: selectionServiceSpy },
+        { provide: ThemeService, useValue: themeServiceSpy },
+      ],
+    });
+
+    service = TestBed.inject(ModelDiffService);
+    fragmentsService = TestBed.inject(FragmentsService) as jasmine.SpyObj<FragmentsService>;
+    selectionService = TestBed.inject(SelectionService) as jasmine.SpyObj<SelectionService>;
+    modelManager = TestBed.inject(ModelManagerService) as jasmine.SpyObj<ModelManagerService>;
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should classify the elements of two revisions', async () => {
+    await service.compare('base', 'rev');
+
+    expect(service.summary()).toEqual({ added: 1, removed: 1, geometry: 1, properties: 1, unchanged: 0 });
+    expect(service.entries().map((entry) => [entry.globalId, entry.status])).toEqual([
+      ['d', 'added'],
+      ['c', 'removed'],
+      ['b', 'geometry'],
+      ['a', 'properties'],
+    ]);
+  });
+
+  it('should report elements reshaped within the same box', async () => {
+    // Item 11 of the revision keeps its box but becomes a triangular prism
+    fragmentsService.getItemsGeometry.and.callFake((_: string, localIds: number[]) =>
+      Promise.resolve(
+        localIds.map((localId) =>
+          meshOf(localId === 11 ? new THREE.CylinderGeometry(0.5, 0.5, 3, 3) : new THREE.BoxGeometry(1, 3, 1))
+        )
+      )
+    );
+
+    await service.compare('base', 'rev');
+
+    expect(service.summary()).toEqual({ added: 1, removed: 1, geometry: 2, properties: 1, unchanged: 0 });
+    const reshaped = service.entries().find((entry) => entry.globalId === 'a');
+    expect(reshaped?.status).toBe('geometry');
+    expect(reshaped?.properties.map((change) => change.key)).toEqual(['Tag']);
+  });
+
+  it('should compare two revisions of the same file by their model ids', async () => {
+    // Each load gets its own model id, the file name is only shown
+    const [baseId, revisionId] = ['uuid-1', 'uuid-2'];
+    fragmentsService.getModelIds.and.returnValue([baseId, revisionId]);
+    modelManager.getModelByFragmentUuid.and.returnValue({ name: 'office.ifc' } as IFCModelState);
+    elements.update((items) =>
+      items.map((item) => ({
+        ...item,
+        properties: { ...item.properties, modelId: item.properties.modelId === 'base' ? baseId : revisionId },
+      }))
+    );
+
+    await service.compare(baseId, revisionId);
+
+    expect(service.summary()).toEqual({ added: 1, removed: 1, geometry: 1, properties: 1, unchanged: 0 });
+    expect(fragmentsService.setItemsVisibility).toHaveBeenCalledWith(baseId, [2, 1], false);
+    expect(fragmentsService.highlightItems).toHaveBeenCalledWith(revisionId, [14], jasmine.any(Object));
+    expect(service.getReport().base).toBe('office.ifc');
+    expect(service.getReport().revision).toBe('office.ifc');
+  });
+
+  it('should hide the kept base elements and color the changes', async () => {
+    await service.compare('base', 'rev');
+
+    expect(fragmentsService.setItemsVisibility).toHaveBeenCalledWith('base', [2, 1], false);
+    expect(fragmentsService.highlightItems).toHaveBeenCalledWith('rev', [14], jasmine.any(Object));
+    expect(fragmentsService.highlightItems).toHaveBeenCalledWith('base', [3], jasmine.any(Object));
+  });
+
+  it('should reject comparing a model with itself', async () => {
+    await service.compare('base', 'base');
+
+    expect(service.error()).toBe('Pick two different loaded models');
+    expect(service.entries()).toEqual([]);
+  });
+
+  it('should filter the changes and repaint the shown ones', async () => {
+    await service.compare('base', 'rev');
+    fragmentsService.highlightItems.calls.reset();
+
+    await service.toggleStatus('added');
+
+    expect(service.filteredEntries().map((entry) => entry.globalId)).toEqual(['c', 'b', 'a']);
+    expect(fragmentsService.highlightItems).not.toHaveBeenCalledWith('rev', [14], jasmine.any(Object));
+
+    service.search.set('wall a');
+    expect(service.filteredEntries().map((entry) => entry.globalId)).toEqual(['a']);
+  });
+
+  it('should select the revision element of a change', async () => {
+    await service.compare('base', 'rev');
+
+    await service.select(service.entries()[0]!);
+    expect(selectionService.select).toHaveBeenCalledWith('rev', 14);
+  });
+
+  it('should restore the models when cleared or when a compared model is unloaded', async () => {
+    await service.compare('base', 'rev');
+    await service.removeModel('other');
+    expect(service.entries().length).toBe(4);
+
+    await service.removeModel('rev');
+
+    expect(fragmentsService.setItemsVisibility).toHaveBeenCalledWith('base', [2, 1], true);
+    expect(fragmentsService.resetHighlight).toHaveBeenCalled();
+    expect(service.entries()).toEqual([]);
+    expect(service.baseModelId()).toBeNull();
+  });
+
+  it('should export the report as JSON and CSV', async () => {
+    await service.compare('base', 'rev');
+
+    const report = JSON.parse(service.exportJson());
+    expect(report.base).toBe('base.ifc');
+    expect(report.changes.length).toBe(4);
+    expect(service.exportCsv()).toContain('a,Properties changed,IfcWall,Wall a,Tag,W1,W1b');
+  });
+});
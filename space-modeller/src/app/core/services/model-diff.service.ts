@@ -0,0 +1,333 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import * as THREE from 'three';
+import * as FRAGS from '@thatopen/fragments';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { ModelManagerService } from './model-manager.service';
+import { ScheduleService } from './schedule.service';
+import { SelectionService } from './selection.service';
+import { ThemeService } from './theme.service';
+import { ElementReference } from '../../shared/models/selection.model';
+import { DiffElement, DiffEntry, DiffReport, DiffStatus } from '../../shared/models/diff.model';
+import { DIFF_CONFIG } from '../../shared/constants/viewer.constants';
+import {
+  diffElements,
+  diffReportToCsv,
+  filterDiffEntries,
+  getDiffSummary,
+  getShownDiffStatus,
+  toDiffBox,
+  toDiffElement,
+  toDiffReport,
+  toDiffShape,
+} from '../../shared/utils/diff.utils';
+
+/**
+ * Service for comparing two revisions of a model
+ *
+ * Features:
+ * - Elements of two loaded models matched by GlobalId
+ * - Added, removed, geometry changed (moved, resized or reshaped), properties changed and unchanged elements
+ * - Changes colored in the viewport, with the base copies of kept elements hidden
+ * - Changes filtered by kind, IFC class and search text
+ * - JSON and CSV report of the changes
+ *
+ * @example
+ * ```typescript
+ * await this.modelDiffService.compare(baseUuid, revisionUuid);
+ * console.log(this.modelDiffService.summary().added);
+ *
+ * const csv = this.modelDiffService.exportCsv();
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ModelDiffService {
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly modelManager = inject(ModelManagerService);
+  private readonly scheduleService = inject(ScheduleService);
+  private readonly selectionService = inject(SelectionService);
+  private readonly themeService = inject(ThemeService);
+
+  // State
+  private painted: ElementReference[] = [];
+  private hidden: ElementReference[] = [];
+
+  // Signals for reactive state
+  readonly baseModelId = signal<string | null>(null);
+  readonly revisionModelId = signal<string | null>(null);
+  readonly entries = signal<DiffEntry[]>([]);
+  readonly statuses = signal<DiffStatus[]>([...DIFF_CONFIG.defaultStatuses]);
+  readonly ifcClass = signal<string | null>(null);
+  readonly search = signal<string>('');
+  readonly isComparing = signal<boolean>(false);
+  readonly error = signal<string | null>(null);
+  readonly summary = computed(() => getDiffSummary(this.entries()));
+  readonly classes = computed(() =>
+    [...new Set(this.entries().map((entry) => entry.ifcClass))].sort((a, b) => a.localeCompare(b))
+  );
+  readonly filteredEntries = computed(() =>
+    filterDiffEntries(this.entries(), { statuses: this.statuses(), ifcClass: this.ifcClass(), search: this.search() })
+  );
+
+  /**
+   * Compare two loaded models and color the changes
+   * Replaces a thematic view and a previous comparison
+   * @param baseModelId - Fragment model UUID of the older revision
+   * @param revisionModelId - Fragment model UUID of the newer revision
+   */
+  async compare(baseModelId: string, revisionModelId: string): Promise<void> {
+    const modelIds = this.fragmentsService.getModelIds();
+    if (baseModelId === revisionModelId || !modelIds.includes(baseModelId) || !modelIds.includes(revisionModelId)) {
+      this.error.set('Pick two different loaded models');
+      return;
+    }
+
+    await this.clear();
+    this.isComparing.set(true);
+
+    try {
+      await this.scheduleService.ensureLoaded();
+      const base = await this.getDiffElements(baseModelId);
+      const revision = await this.getDiffElements(revisionModelId);
+
+      this.baseModelId.set(baseModelId);
+      this.revisionModelId.set(revisionModelId);
+      this.entries.set(diffElements(base, revision));
+      this.ifcClass.set(null);
+
+      const { added, removed, geometry, properties } = this.summary();
+      console.log(
+        `🔀 Compared ${base.length} with ${revision.length} elements: ${added} added, ${removed} removed, ${geometry} geometry and ${properties} properties changed`
+      );
+
+      await this.themeService.clear();
+      await this.hideKeptBaseElements();
+      await this.repaint();
+    } catch (error) {
+      this.entries.set([]);
+      this.errorHandler.handleError(error, ErrorSeverity.ERROR, {
+        operation: 'compareModels',
+      });
+      this.error.set('The models could not be compared');
+    } finally {
+      this.isComparing.set(false);
+    }
+  }
+
+  /**
+   * Show or hide one kind of change in the list and the viewport
+   * @param status - Kind of change
+   */
+  async toggleStatus(status: DiffStatus): Promise<void> {
+    this.statuses.update((statuses) =>
+      statuses.includes(status) ? statuses.filter((item) => item !== status) : [...statuses, status]
+    );
+    await this.repaint();
+  }
+
+  /**
+   * Select the element of a change (the revision one unless removed)
+   * @param entry - Compared element
+   */
+  async select(entry: DiffEntry): Promise<void> {
+    const element = entry.revision ?? entry.base;
+    if (element) {
+      await this.selectionService.select(element.modelId, element.localId);
+    }
+  }
+
+  /**
+   * End the comparison and restore the colors and the hidden base elements
+   */
+  async clear(): Promise<void> {
+    const modelIds = this.fragmentsService.getModelIds();
+
+    try {
+      for (const [modelId, localIds] of this.groupByModel(this.painted)) {
+        if (modelIds.includes(modelId)) {
+          await this.fragmentsService.resetHighlight(modelId, localIds);
+        }
+      }
+      for (const [modelId, localIds] of this.groupByModel(this.hidden)) {
+        if (modelIds.includes(modelId)) {
+          await this.fragmentsService.setItemsVisibility(modelId, localIds, true);
+        }
+      }
+      await this.selectionService.refreshHighlight();
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'clearComparison',
+      });
+    }
+
+    this.painted = [];
+    this.hidden = [];
+    this.baseModelId.set(null);
+    this.revisionModelId.set(null);
+    this.entries.set([]);
+    this.error.set(null);
+  }
+
+  /**
+   * End the comparison when one of its models is unloaded
+   * @param modelId - Fragment model UUID
+   */
+  async removeModel(modelId: string): Promise<void> {
+    if (this.baseModelId() === modelId || this.revisionModelId() === modelId) {
+      await this.clear();
+    }
+  }
+
+  /**
+   * Report of the changes
+   * @returns Report with the model names, the counts and the changed elements
+   */
+  getReport(): DiffReport {
+    return toDiffReport(this.entries(), this.getModelName(this.baseModelId()), this.getModelName(this.revisionModelId()));
+  }
+
+  /**
+   * Export the report as JSON
+   */
+  exportJson(): string {
+    return JSON.stringify(this.getReport(), null, 2);
+  }
+
+  /**
+   * Export the report as CSV
+   * @returns CSV text with one row per changed value
+   */
+  exportCsv(): string {
+    return diffReportToCsv(this.getReport());
+  }
+
+  /**
+   * Compared elements of a model with their boxes in file coordinates and the size of their geometry
+   */
+  private async getDiffElements(modelId: string): Promise<DiffElement[]> {
+    const elements = this.scheduleService.elements().filter((element) => element.properties.modelId === modelId);
+    const modelMatrix = this.fragmentsService.getModel(modelId)?.object.matrixWorld ?? new THREE.Matrix4();
+    const coordinates = await this.fragmentsService.getCoordinates(modelId);
+
+    const result: DiffElement[] = [];
+    for (let start = 0; start < elements.length; start += DIFF_CONFIG.batchSize) {
+      const batch = elements.slice(start, start + DIFF_CONFIG.batchSize);
+      const localIds = batch.map((element) => element.properties.localId);
+      const boxes = await this.fragmentsService.getItemsBoxes(modelId, localIds);
+      const geometries = await this.fragmentsService.getItemsGeometry(modelId, localIds);
+
+      batch.forEach((element, index) => {
+        const box = boxes[index];
+        const diffElement = toDiffElement(
+          element,
+          box ? toDiffBox(box, modelMatrix, coordinates) : null,
+          toDiffShape(geometries[index] ?? [])
+        );
+        if (diffElement) {
+          result.push(diffElement);
+        }
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Hide the visible base elements that are kept in the revision, so the two do not overlap
+   */
+  private async hideKeptBaseElements(): Promise<void> {
+    const baseModelId = this.baseModelId();
+    if (!baseModelId) {
+      return;
+    }
+
+    const visible = new Set(await this.fragmentsService.getVisibleItems(baseModelId));
+    this.hidden = this.entries()
+      .filter((entry) => entry.base && entry.revision && visible.has(entry.base.localId))
+      .map((entry) => entry.base!);
+
+    if (this.hidden.length > 0) {
+      await this.fragmentsService.setItemsVisibility(
+        baseModelId,
+        this.hidden.map((element) => element.localId),
+        false
+      );
+    }
+  }
+
+  /**
+   * Restore the painted elements, then paint the shown kinds of change
+   */
+  private async repaint(): Promise<void> {
+    try {
+      const modelIds = this.fragmentsService.getModelIds();
+      for (const [modelId, localIds] of this.groupByModel(this.painted)) {
+        if (modelIds.includes(modelId)) {
+          await this.fragmentsService.resetHighlight(modelId, localIds);
+        }
+      }
+      this.painted = [];
+
+      const statuses = this.statuses();
+      for (const status of Object.keys(DIFF_CONFIG.statuses) as DiffStatus[]) {
+        if (!statuses.includes(status)) {
+          continue;
+        }
+
+        const elements = this.entries()
+          .filter((entry) => getShownDiffStatus(entry, statuses) === status)
+          .map((entry) => (entry.revision ?? entry.base)!);
+        await this.paint(elements, status);
+        this.painted.push(...elements);
+      }
+
+      await this.selectionService.refreshHighlight();
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'paintComparison',
+      });
+    }
+  }
+
+  /**
+   * Color elements by kind of change (unchanged ones are translucent)
+   */
+  private async paint(elements: ElementReference[], status: DiffStatus): Promise<void> {
+    const translucent = status === 'unchanged';
+    const material: FRAGS.MaterialDefinition = {
+      color: new THREE.Color(DIFF_CONFIG.statuses[status].color),
+      renderedFaces: FRAGS.RenderedFaces.TWO,
+      opacity: translucent ? DIFF_CONFIG.unchangedOpacity : 1,
+      transparent: translucent,
+    };
+
+    for (const [modelId, localIds] of this.groupByModel(elements)) {
+      await this.fragmentsService.highlightItems(modelId, localIds, material);
+    }
+  }
+
+  /**
+   * Local IDs of elements per model
+   */
+  private groupByModel(elements: ElementReference[]): Map<string, number[]> {
+    const byModel = new Map<string, number[]>();
+    for (const { modelId, localId } of elements) {
+      const localIds = byModel.get(modelId);
+      if (localIds) {
+        localIds.push(localId);
+      } else {
+        byModel.set(modelId, [localId]);
+      }
+    }
+    return byModel;
+  }
+
+  /**
+   * Display name of a compared model
+   */
+  private getModelName(modelId: string | null): string {
+    return modelId ? (this.modelManager.getModelByFragmentUuid(modelId)?.name ?? modelId) : '';
+  }
+}
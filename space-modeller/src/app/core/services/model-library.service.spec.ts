@@ -0,0 +1,93 @@
+import { TestBed } from '@angular/core/testing';
+import { ModelLibraryService } from './model-library.service';
+import { ErrorHandlerService } from './error-handler.service';
+import { IFCModelState, ModelLoadingStatus } from '../../shared/models/ifc.model';
+
+describe('ModelLibraryService', () => {
+  let service: ModelLibraryService;
+
+  const state = (name: string): IFCModelState => ({
+    id: `${name}-id`,
+    name,
+    status: ModelLoadingStatus.LOADED,
+    progress: 100,
+    fragmentUuid: `${name}-uuid`,
+    fileSize: 4096,
+  });
+
+  beforeEach(async () => {
+    const errorHandlerSpy = jasmine.createSpyObj('ErrorHandlerService', ['handleError']);
+
+    TestBed.configureTestingModule({
+      providers: [ModelLibraryService, { provide: ErrorHandlerService, useValue: errorHandlerSpy }],
+    });
+
+    service = TestBed.inject(ModelLibraryService);
+    await service.clear();
+  });
+
+  afterEach(async () => {
+    await service.clear();
+    service.dispose();
+  });
+
+  it('should be created empty', () => {
+    expect(service).toBeTruthy();
+    expect(service.isAvailable).toBe(true);
+    expect(service.hasEntries()).toBe(false);
+  });
+
+  it('should hash file content', async () => {
+    const a = await service.hash(new Uint8Array([1, 2, 3]));
+    const b = await service.hash(new Uint8Array([1, 2, 4]));
+
+    expect(a?.length).toBe(64);
+    expect(a).not.toBe(b);
+  });
+
+  it('should store and reopen converted fragments', async () => {
+    const data = new Uint8Array([9, 8, 7]);
+
+    expect(await service.store('hash-1', 'tower.ifc', data, state('tower'), null)).toBe(true);
+    const cached = await service.load('hash-1');
+
+    expect(Array.from(cached!.data)).toEqual([9, 8, 7]);
+    expect(cached!.entry.state.name).toBe('tower');
+    expect(cached!.entry.state.fragmentUuid).toBeUndefined();
+    expect(service.totalSize()).toBe(3);
+  });
+
+  it('should return null for unknown models', async () => {
+    expect(await service.load('missing')).toBeNull();
+  });
+
+  it('should list the most recently opened model first', async () => {
+    await service.store('hash-1', 'a.ifc', new Uint8Array([1]), state('a'), null);
+    await service.store('hash-2', 'b.ifc', new Uint8Array([2]), state('b'), null);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await service.load('hash-1');
+
+    expect(service.entries().map((e) => e.hash)).toEqual(['hash-1', 'hash-2']);
+
+    service.entries.set([]);
+    await service.refresh();
+
+    expect(service.entries().map((e) => e.hash)).toEqual(['hash-1', 'hash-2']);
+  });
+
+  it('should remove, evict and clear stored models', async () => {
+    await service.store('hash-1', 'a.ifc', new Uint8Array([1]), state('a'), null);
+    await service.store('hash-2', 'b.ifc', new Uint8Array([2]), state('b'), null);
+    await service.store('hash-3', 'c.ifc', new Uint8Array([3]), state('c'), null);
+
+    await service.remove('hash-2');
+    expect(await service.load('hash-2')).toBeNull();
+
+    await service.evictOldest();
+    expect(service.entries().map((e) => e.hash)).toEqual(['hash-3']);
+
+    await service.clear();
+    await service.refresh();
+    expect(service.hasEntries()).toBe(false);
+  });
+});
@@ -0,0 +1,366 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import { MODEL_LIBRARY_CONFIG } from '../../shared/constants/viewer.constants';
+import { IFCModelState, ModelStatistics } from '../../shared/models/ifc.model';
+import { CachedModel, CachedModelData, StorageQuota } from '../../shared/models/model-library.model';
+import {
+  hashBuffer,
+  selectEvictions,
+  sortByLastOpened,
+  toCachedState,
+  toCachedStatistics,
+} from '../../shared/utils/model-library.utils';
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve when a transaction has been committed
+ */
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Service for the local model library
+ * Stores converted fragments in IndexedDB so models reopen without IFC conversion
+ *
+ * Features:
+ * - Models keyed by the SHA-256 hash of the imported file
+ * - IFCModelState metadata and ModelStatistics stored next to the fragments
+ * - Recently opened models list
+ * - Least recently opened models evicted above the library limits
+ * - Manual removal and storage quota display
+ *
+ * @example
+ * ```typescript
+ * const hash = await this.modelLibrary.hash(buffer);
+ * const cached = hash ? await this.modelLibrary.load(hash) : null;
+ * if (!cached) {
+ *   await this.modelLibrary.store(hash, file.name, fragments, state, stats);
+ * }
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ModelLibraryService {
+  private readonly errorHandler = inject(ErrorHandlerService);
+
+  private database: Promise<IDBDatabase> | null = null;
+
+  // Signals for reactive state
+  readonly entries = signal<CachedModel[]>([]);
+  readonly quota = signal<StorageQuota | null>(null);
+  readonly hasEntries = computed(() => this.entries().length > 0);
+  readonly totalSize = computed(() => this.entries().reduce((sum, entry) => sum + entry.dataSize, 0));
+
+  /**
+   * Whether the browser supports the library (IndexedDB and Web Crypto)
+   */
+  get isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle;
+  }
+
+  /**
+   * Hash file content to look it up in the library
+   * @param buffer - Imported file content
+   * @returns Content hash or null if the library is unavailable
+   */
+  async hash(buffer: Uint8Array): Promise<string | null> {
+    if (!this.isAvailable) {
+      return null;
+    }
+
+    try {
+      return await hashBuffer(buffer);
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'hashModel',
+        bufferSize: buffer.byteLength,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Reload the list of stored models and the storage usage
+   */
+  async refresh(): Promise<void> {
+    if (!this.isAvailable) {
+      return;
+    }
+
+    try {
+      const db = await this.openDatabase();
+      const transaction = db.transaction(MODEL_LIBRARY_CONFIG.metadataStore, 'readonly');
+      const entries = await requestToPromise<CachedModel[]>(
+        transaction.objectStore(MODEL_LIBRARY_CONFIG.metadataStore).getAll()
+      );
+      this.entries.set(sortByLastOpened(entries));
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'refreshModelLibrary',
+      });
+    }
+
+    await this.updateQuota();
+  }
+
+  /**
+   * Read a stored model and mark it as recently opened
+   * @param hash - Content hash
+   * @returns Stored model with its fragments or null if not stored
+   */
+  async load(hash: string): Promise<CachedModelData | null> {
+    if (!this.isAvailable) {
+      return null;
+    }
+
+    try {
+      const db = await this.openDatabase();
+      const transaction = db.transaction(
+        [MODEL_LIBRARY_CONFIG.metadataStore, MODEL_LIBRARY_CONFIG.dataStore],
+        'readwrite'
+      );
+      const metadata = transaction.objectStore(MODEL_LIBRARY_CONFIG.metadataStore);
+      const done = transactionToPromise(transaction);
+
+      const [entry, data] = await Promise.all([
+        requestToPromise<CachedModel | undefined>(metadata.get(hash)),
+        requestToPromise<Uint8Array | undefined>(
+          transaction.objectStore(MODEL_LIBRARY_CONFIG.dataStore).get(hash)
+        ),
+      ]);
+
+      if (!entry || !data) {
+        await done;
+        return null;
+      }
+
+      const opened = { ...entry, lastOpenedAt: new Date() };
+      metadata.put(opened);
+      await done;
+
+      this.entries.update((entries) =>
+        sortByLastOpened(entries.map((e) => (e.hash === hash ? opened : e)))
+      );
+      console.log(`📚 Opened cached model: ${entry.state.name}`);
+
+      return { entry: opened, data };
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'loadCachedModel',
+        hash,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Store converted fragments, evicting the least recently opened models if needed
+   * @param hash - Content hash of the imported file
+   * @param fileName - Name of the imported file
+   * @param data - Fragments data
+   * @param state - Loaded model state
+   * @param stats - Model statistics
+   * @returns True if stored
+   */
+  async store(
+    hash: string,
+    fileName: string,
+    data: Uint8Array,
+    state: IFCModelState,
+    stats: ModelStatistics | null
+  ): Promise<boolean> {
+    if (!this.isAvailable) {
+      return false;
+    }
+
+    if (data.byteLength > MODEL_LIBRARY_CONFIG.maxBytes) {
+      console.warn(`⚠️ ${fileName} is too large for the model library`);
+      return false;
+    }
+
+    try {
+      const others = this.entries().filter((entry) => entry.hash !== hash);
+      const evicted = selectEvictions(others, MODEL_LIBRARY_CONFIG, data.byteLength);
+      const now = new Date();
+      const entry: CachedModel = {
+        hash,
+        fileName,
+        dataSize: data.byteLength,
+        state: toCachedState(state),
+        stats: stats ? toCachedStatistics(stats) : null,
+        storedAt: now,
+        lastOpenedAt: now,
+      };
+
+      await this.write((metadata, fragments) => {
+        evicted.forEach((key) => {
+          metadata.delete(key);
+          fragments.delete(key);
+        });
+        metadata.put(entry);
+        fragments.put(data, hash);
+      });
+
+      this.entries.update((entries) =>
+        sortByLastOpened([entry, ...entries.filter((e) => e.hash !== hash && !evicted.includes(e.hash))])
+      );
+      console.log(
+        `📚 Stored ${state.name} in the model library` +
+          (evicted.length > 0 ? ` (evicted ${evicted.length})` : '')
+      );
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'storeCachedModel',
+        fileName,
+        dataSize: data.byteLength,
+      });
+      return false;
+    }
+
+    await this.updateQuota();
+    return true;
+  }
+
+  /**
+   * Remove stored models
+   * @param hashes - Content hashes
+   */
+  async remove(...hashes: string[]): Promise<void> {
+    if (hashes.length === 0) {
+      return;
+    }
+
+    try {
+      await this.write((metadata, fragments) => {
+        hashes.forEach((hash) => {
+          metadata.delete(hash);
+          fragments.delete(hash);
+        });
+      });
+      this.entries.update((entries) => entries.filter((entry) => !hashes.includes(entry.hash)));
+      console.log(`🗑️ Removed ${hashes.length} cached models`);
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'removeCachedModels',
+        count: hashes.length,
+      });
+    }
+
+    await this.updateQuota();
+  }
+
+  /**
+   * Remove the least recently opened model
+   */
+  async evictOldest(): Promise<void> {
+    const oldest = this.entries().at(-1);
+    if (oldest) {
+      await this.remove(oldest.hash);
+    }
+  }
+
+  /**
+   * Remove every stored model
+   */
+  async clear(): Promise<void> {
+    try {
+      await this.write((metadata, fragments) => {
+        metadata.clear();
+        fragments.clear();
+      });
+      this.entries.set([]);
+      console.log('🗑️ Model library cleared');
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'clearModelLibrary',
+      });
+    }
+
+    await this.updateQuota();
+  }
+
+  /**
+   * Close the database connection
+   */
+  dispose(): void {
+    this.database?.then((db) => db.close()).catch(() => undefined);
+    this.database = null;
+  }
+
+  /**
+   * Read the storage usage of this origin
+   */
+  private async updateQuota(): Promise<void> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      return;
+    }
+
+    try {
+      const estimate = await navigator.storage.estimate();
+      this.quota.set({ usage: estimate.usage ?? 0, quota: estimate.quota ?? 0 });
+    } catch (error) {
+      console.warn('⚠️ Storage estimate unavailable:', error);
+    }
+  }
+
+  /**
+   * Run a read-write transaction over both object stores
+   */
+  private async write(
+    operation: (metadata: IDBObjectStore, fragments: IDBObjectStore) => void
+  ): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(
+      [MODEL_LIBRARY_CONFIG.metadataStore, MODEL_LIBRARY_CONFIG.dataStore],
+      'readwrite'
+    );
+    const done = transactionToPromise(transaction);
+
+    operation(
+      transaction.objectStore(MODEL_LIBRARY_CONFIG.metadataStore),
+      transaction.objectStore(MODEL_LIBRARY_CONFIG.dataStore)
+    );
+
+    await done;
+  }
+
+  /**
+   * Open (and create on first use) the library database
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(MODEL_LIBRARY_CONFIG.databaseName, MODEL_LIBRARY_CONFIG.databaseVersion);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MODEL_LIBRARY_CONFIG.metadataStore)) {
+          db.createObjectStore(MODEL_LIBRARY_CONFIG.metadataStore, { keyPath: 'hash' });
+        }
+        if (!db.objectStoreNames.contains(MODEL_LIBRARY_CONFIG.dataStore)) {
+          db.createObjectStore(MODEL_LIBRARY_CONFIG.dataStore);
+        }
+      };
+
+      this.database = requestToPromise(request).catch((error) => {
+        this.database = null;
+        throw error;
+      });
+    }
+
+    return this.database;
+  }
+}
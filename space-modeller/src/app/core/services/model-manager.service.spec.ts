@@ -0,0 +1,201 @@
+import { TestBed } from '@angular/core/testing';
+import { ModelManagerService } from './model-manager.service';
+import { FragmentsService } from './fragments.service';
+import { IfcFilterService } from './ifc-filter.service';
+import { SelectionService } from './selection.service';
+import { SpatialTreeService } from './spatial-tree.service';
+import { IFCModelState, ModelLoadingStatus } from '../../shared/models/ifc.model';
+
+describe('ModelManagerService', () => {
+  let service: ModelManagerService;
+  let fragmentsService: jasmine.SpyObj<FragmentsService>;
+  let ifcFilterService: jasmine.SpyObj<IfcFilterService>;
+  let selectionService: jasmine.SpyObj<SelectionService>;
+  let spatialTreeService: jasmine.SpyObj<SpatialTreeService>;
+
+  const createState = (id: string, overrides: Partial<IFCModelState> = {}): IFCModelState => ({
+    id,
+    name: `${id}-model`,
+    status: ModelLoadingStatus.LOADED,
+    progress: 100,
+    fragmentUuid: `${id}-uuid`,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', [
+      'removeModel',
+      'setModelVisibility',
+    ]);
+    const ifcFilterServiceSpy = jasmine.createSpyObj('IfcFilterService', ['removeModel', 'clear']);
+    const selectionServiceSpy = jasmine.createSpyObj('SelectionService', ['clearModel']);
+    const spatialTreeServiceSpy = jasmine.createSpyObj('SpatialTreeService', ['removeModel', 'clear']);
+
+    fragmentsServiceSpy.removeModel.and.returnValue(Promise.resolve(true));
+    fragmentsServiceSpy.setModelVisibility.and.returnValue(true);
+
+    TestBed.configureTestingModule({
+      providers: [
+        ModelManagerService,
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: IfcFilterService, useValue: ifcFilterServiceSpy },
+        { provide: SelectionService, useValue: selectionServiceSpy },
+        { provide: SpatialTreeService, useValue: spatialTreeServiceSpy },
+      ],
+    });
+
+    service = TestBed.inject(ModelManagerService);
+    fragmentsService = TestBed.inject(FragmentsService) as jasmine.SpyObj<FragmentsService>;
+    ifcFilterService = TestBed.inject(IfcFilterService) as jasmine.SpyObj<IfcFilterService>;
+    selectionService = TestBed.inject(SelectionService) as jasmine.SpyObj<SelectionService>;
+    spatialTreeService = TestBed.inject(SpatialTreeService) as jasmine.SpyObj<SpatialTreeService>;
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  describe('addModel', () => {
+    it('should append models without replacing previous ones', () => {
+      service.addModel(createState('architecture'));
+      service.addModel(createState('structure'));
+
+      expect(service.modelCount()).toBe(2);
+      expect(service.models().map((m) => m.id)).toEqual(['architecture', 'structure']);
+    });
+
+    it('should make the added model active and visible', () => {
+      service.addModel(createState('architecture'));
+
+      expect(service.activeModelId()).toBe('architecture');
+      expect(service.activeModel()?.visible).toBe(true);
+    });
+  });
+
+  describe('updateModel', () => {
+    it('should merge changes into the matching model only', () => {
+      service.addModel(createState('architecture'));
+      service.addModel(createState('structure'));
+
+      service.updateModel('structure', { progress: 50 });
+
+      expect(service.getModel('structure')?.progress).toBe(50);
+      expect(service.getModel('architecture')?.progress).toBe(100);
+    });
+  });
+
+  describe('loadedModels', () => {
+    it('should only include loaded models with a fragment UUID', () => {
+      service.addModel(createState('architecture'));
+      service.addModel(createState('mep', { status: ModelLoadingStatus.LOADING, fragmentUuid: undefined }));
+
+      expect(service.loadedModels().map((m) => m.id)).toEqual(['architecture']);
+    });
+  });
+
+  describe('visibility', () => {
+    beforeEach(() => {
+      service.addModel(createState('architecture'));
+    });
+
+    it('should hide a model in the fragments service', () => {
+      service.setModelVisibility('architecture', false);
+
+      expect(fragmentsService.setModelVisibility).toHaveBeenCalledWith('architecture-uuid', false);
+      expect(service.getModel('architecture')?.visible).toBe(false);
+    });
+
+    it('should toggle visibility', () => {
+      service.toggleModelVisibility('architecture');
+      expect(service.getModel('architecture')?.visible).toBe(false);
+
+      service.toggleModelVisibility('architecture');
+      expect(service.getModel('architecture')?.visible).toBe(true);
+    });
+  });
+
+  describe('reordering', () => {
+    beforeEach(() => {
+      service.addModel(createState('architecture'));
+      service.addModel(createState('structure'));
+      service.addModel(createState('mep'));
+    });
+
+    it('should move a model to a new index', () => {
+      service.moveModel('mep', 0);
+
+      expect(service.models().map((m) => m.id)).toEqual(['mep', 'architecture', 'structure']);
+    });
+
+    it('should clamp the target index', () => {
+      service.moveModel('architecture', 10);
+
+      expect(service.models().map((m) => m.id)).toEqual(['structure', 'mep', 'architecture']);
+    });
+
+    it('should shift a model by one position', () => {
+      service.shiftModel('structure', -1);
+
+      expect(service.models().map((m) => m.id)).toEqual(['structure', 'architecture', 'mep']);
+    });
+  });
+
+  describe('unloadModel', () => {
+    beforeEach(() => {
+      service.addModel(createState('architecture'));
+      service.addModel(createState('structure'));
+    });
+
+    it('should remove the model from the scene and the class filter', async () => {
+      const result = await service.unloadModel('structure');
+
+      expect(result).toBe(true);
+      expect(fragmentsService.removeModel).toHaveBeenCalledWith('structure-uuid');
+      expect(ifcFilterService.removeModel).toHaveBeenCalledWith('structure-uuid');
+      expect(spatialTreeService.removeModel).toHaveBeenCalledWith('structure-uuid');
+      expect(service.models().map((m) => m.id)).toEqual(['architecture']);
+    });
+
+    it('should drop the selection of the unloaded model', async () => {
+      await service.unloadModel('structure');
+
+      expect(selectionService.clearModel).toHaveBeenCalledWith('structure-uuid');
+    });
+
+    it('should fall back to the last remaining model as active', async () => {
+      await service.unloadModel('structure');
+
+      expect(service.activeModelId()).toBe('architecture');
+    });
+
+    it('should return false for an unknown model', async () => {
+      expect(await service.unloadModel('unknown')).toBe(false);
+    });
+
+    it('should keep a cancelled model and release its partial fragments', async () => {
+      await service.cancelModel('structure', 'structure-uuid');
+
+      const model = service.getModel('structure');
+      expect(model?.status).toBe(ModelLoadingStatus.CANCELLED);
+      expect(model?.fragmentUuid).toBeUndefined();
+      expect(fragmentsService.removeModel).toHaveBeenCalledWith('structure-uuid');
+      expect(spatialTreeService.removeModel).toHaveBeenCalledWith('structure-uuid');
+    });
+
+    it('should cancel a model that has not loaded fragments yet', async () => {
+      await service.cancelModel('architecture');
+
+      expect(service.getModel('architecture')?.status).toBe(ModelLoadingStatus.CANCELLED);
+      expect(fragmentsService.removeModel).not.toHaveBeenCalled();
+    });
+
+    it('should unload every model', async () => {
+      await service.unloadAll();
+
+      expect(service.modelCount()).toBe(0);
+      expect(service.activeModel()).toBeNull();
+      expect(ifcFilterService.clear).toHaveBeenCalled();
+      expect(spatialTreeService.clear).toHaveBeenCalled();
+    });
+  });
+});
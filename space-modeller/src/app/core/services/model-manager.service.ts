@@ -0,0 +1,228 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { FragmentsService } from './fragments.service';
+import { IfcFilterService } from './ifc-filter.service';
+import { SelectionService } from './selection.service';
+import { SpatialTreeService } from './spatial-tree.service';
+import { IFCModelState, ModelLoadingStatus } from '../../shared/models/ifc.model';
+
+/**
+ * Service for managing several IFC models loaded side by side
+ *
+ * Features:
+ * - One IFCModelState per loaded model
+ * - Active model tracking (used for export and model info)
+ * - Per-model visibility
+ * - Reordering of the model list
+ * - Unloading a single model or every model
+ * - Cancelled loads kept in the list with their partial results released
+ *
+ * @example
+ * ```typescript
+ * constructor(private modelManager: ModelManagerService) {}
+ *
+ * this.modelManager.addModel(state);
+ * this.modelManager.updateModel(state.id, { status: ModelLoadingStatus.LOADED });
+ * this.modelManager.toggleModelVisibility(state.id);
+ * await this.modelManager.unloadModel(state.id);
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ModelManagerService {
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly ifcFilterService = inject(IfcFilterService);
+  private readonly selectionService = inject(SelectionService);
+  private readonly spatialTreeService = inject(SpatialTreeService);
+
+  // Signals for reactive state
+  readonly models = signal<IFCModelState[]>([]);
+  readonly activeModelId = signal<string | null>(null);
+  readonly activeModel = computed(() => {
+    const id = this.activeModelId();
+    return this.models().find((m) => m.id === id) ?? null;
+  });
+  readonly loadedModels = computed(() =>
+    this.models().filter((m) => m.status === ModelLoadingStatus.LOADED && !!m.fragmentUuid)
+  );
+  readonly modelCount = computed(() => this.models().length);
+
+  /**
+   * Add a model to the list and make it the active model
+   * @param state - Initial model state
+   */
+  addModel(state: IFCModelState): void {
+    this.models.update((models) => [...models, { visible: true, ...state }]);
+    this.activeModelId.set(state.id);
+  }
+
+  /**
+   * Update the state of a model
+   * @param id - Model state ID
+   * @param changes - Partial state to merge
+   */
+  updateModel(id: string, changes: Partial<IFCModelState>): void {
+    this.models.update((models) =>
+      models.map((m) => (m.id === id ? { ...m, ...changes } : m))
+    );
+  }
+
+  /**
+   * Get a model state by ID
+   * @param id - Model state ID
+   */
+  getModel(id: string): IFCModelState | undefined {
+    return this.models().find((m) => m.id === id);
+  }
+
+  /**
+   * Find a model state by its fragment UUID
+   * @param fragmentUuid - Fragment model UUID
+   */
+  getModelByFragmentUuid(fragmentUuid: string): IFCModelState | undefined {
+    return this.models().find((m) => m.fragmentUuid === fragmentUuid);
+  }
+
+  /**
+   * Make a model the active one
+   * @param id - Model state ID
+   */
+  setActiveModel(id: string): void {
+    if (this.getModel(id)) {
+      this.activeModelId.set(id);
+    }
+  }
+
+  /**
+   * Show or hide a model in the viewport
+   * @param id - Model state ID
+   * @param visible - Whether the model should be rendered
+   */
+  setModelVisibility(id: string, visible: boolean): void {
+    const model = this.getModel(id);
+    if (!model) {
+      console.warn('Model not found:', id);
+      return;
+    }
+
+    if (model.fragmentUuid) {
+      this.fragmentsService.setModelVisibility(model.fragmentUuid, visible);
+    }
+
+    this.updateModel(id, { visible });
+  }
+
+  /**
+   * Toggle the visibility of a model
+   * @param id - Model state ID
+   */
+  toggleModelVisibility(id: string): void {
+    const model = this.getModel(id);
+    if (model) {
+      this.setModelVisibility(id, model.visible === false);
+    }
+  }
+
+  /**
+   * Move a model to a new position in the list
+   * @param id - Model state ID
+   * @param index - Target index (clamped to the list bounds)
+   */
+  moveModel(id: string, index: number): void {
+    const models = [...this.models()];
+    const from = models.findIndex((m) => m.id === id);
+    if (from === -1) {
+      return;
+    }
+
+    const to = Math.max(0, Math.min(models.length - 1, index));
+    if (from === to) {
+      return;
+    }
+
+    const [model] = models.splice(from, 1);
+    models.splice(to, 0, model!);
+    this.models.set(models);
+  }
+
+  /**
+   * Move a model one position up or down in the list
+   * @param id - Model state ID
+   * @param offset - -1 to move up, 1 to move down
+   */
+  shiftModel(id: string, offset: -1 | 1): void {
+    const index = this.models().findIndex((m) => m.id === id);
+    if (index !== -1) {
+      this.moveModel(id, index + offset);
+    }
+  }
+
+  /**
+   * Unload a model from the scene and remove it from the list
+   * @param id - Model state ID
+   * @returns True if the model was found and removed
+   */
+  async unloadModel(id: string): Promise<boolean> {
+    const model = this.getModel(id);
+    if (!model) {
+      return false;
+    }
+
+    console.log(`🗑️ Unloading model: ${model.name}`);
+
+    if (model.fragmentUuid) {
+      await this.releaseFragments(model.fragmentUuid);
+    }
+
+    this.models.update((models) => models.filter((m) => m.id !== id));
+
+    // Fall back to the last model in the list
+    if (this.activeModelId() === id) {
+      const remaining = this.models();
+      this.activeModelId.set(remaining.length > 0 ? remaining[remaining.length - 1]!.id : null);
+    }
+
+    return true;
+  }
+
+  /**
+   * Mark a model as cancelled and release whatever it loaded so far
+   * The state stays in the list so the cancellation is visible
+   * @param id - Model state ID
+   * @param fragmentUuid - Fragment UUID if the fragments were already loaded
+   */
+  async cancelModel(id: string, fragmentUuid?: string): Promise<void> {
+    if (fragmentUuid) {
+      await this.releaseFragments(fragmentUuid);
+    }
+
+    this.updateModel(id, {
+      status: ModelLoadingStatus.CANCELLED,
+      stage: undefined,
+      fragmentUuid: undefined,
+    });
+    console.log(`⏹️ Model loading cancelled: ${this.getModel(id)?.name ?? id}`);
+  }
+
+  /**
+   * Unload every model
+   */
+  async unloadAll(): Promise<void> {
+    const ids = this.models().map((m) => m.id);
+    for (const id of ids) {
+      await this.unloadModel(id);
+    }
+    this.ifcFilterService.clear();
+    this.spatialTreeService.clear();
+  }
+
+  /**
+   * Remove a fragments model from the scene, the selection, the class filter and the spatial tree
+   */
+  private async releaseFragments(fragmentUuid: string): Promise<void> {
+    this.selectionService.clearModel(fragmentUuid);
+    this.ifcFilterService.removeModel(fragmentUuid);
+    this.spatialTreeService.removeModel(fragmentUuid);
+    await this.fragmentsService.removeModel(fragmentUuid);
+  }
+}
@@ -0,0 +1,242 @@
+import { TestBed } from '@angular/core/testing';
+import { WritableSignal, signal } from '@angular/core';
+import * as THREE from 'three';
+import { PlanService } from './plan.service';
+import { ErrorHandlerService } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { ClippingService } from './clipping.service';
+import { SpatialTreeService } from './spatial-tree.service';
+import { ModelManagerService } from './model-manager.service';
+import { SpatialNode } from '../../shared/models/spatial.model';
+import { DEFAULT_PROJECT_UNITS, PLAN_CONFIG } from '../../shared/constants/viewer.constants';
+
+describe('PlanService', () => {
+  let service: PlanService;
+  let fragmentsService: jasmine.SpyObj<FragmentsService>;
+  let clippingService: jasmine.SpyObj<ClippingService>;
+  let trees: WritableSignal<SpatialNode[]>;
+  let modelObject: THREE.Object3D;
+
+  const node = (partial: Partial<SpatialNode>): SpatialNode => ({
+    key: 'k',
+    modelId: 'm1',
+    localId: null,
+    name: '',
+    ifcClass: 'Model',
+    kind: 'model',
+    itemIds: [],
+    elementCount: 0,
+    children: [],
+    ...partial,
+  });
+
+  const storey = (localId: number, name: string, itemIds: number[]) =>
+    node({ key: `m1:${localId}`, localId, name, ifcClass: 'IfcBuildingStorey', kind: 'spatial', itemIds });
+
+  // Unit cube from y = 0 to y = 1 (six faces, two triangles each)
+  const cube = () => {
+    const geometry = new THREE.BoxGeometry(1, 1, 1).translate(0.5, 0.5, 0.5);
+    return {
+      transform: new THREE.Matrix4(),
+      positions: geometry.getAttribute('position').array as Float32Array,
+      indices: geometry.getIndex()!.array as Uint16Array,
+    };
+  };
+
+  beforeEach(() => {
+    modelObject = new THREE.Object3D();
+    trees = signal([node({ children: [storey(2, 'Level 1', [2, 10, 11]), storey(1, 'Ground', [1, 20])] })]);
+
+    const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', [
+      'getAllModels',
+      'getModel',
+      'getItemsData',
+      'getCoordinates',
+      'getProjectUnits',
+      'getItemsBox',
+      'getVisibleItems',
+      'getSection',
+      'getItemsGeometry',
+    ]);
+    fragmentsServiceSpy.getAllModels.and.returnValue([{ modelId: 'm1', object: modelObject }]);
+    fragmentsServiceSpy.getModel.and.returnValue({ modelId: 'm1', object: modelObject });
+    fragmentsServiceSpy.getItemsData.and.returnValue(
+      Promise.resolve([{ Elevation: { value: 3 } }, { Elevation: { value: 0 } }])
+    );
+    fragmentsServiceSpy.getCoordinates.and.returnValue(Promise.resolve([0, 0.5, 0]));
+    fragmentsServiceSpy.getProjectUnits.and.returnValue(Promise.resolve(DEFAULT_PROJECT_UNITS));
+    fragmentsServiceSpy.getItemsBox.and.returnValue(
+      Promise.resolve(new THREE.Box3(new THREE.Vector3(), new THREE.Vector3(10, 3, 10)))
+    );
+    fragmentsServiceSpy.getVisibleItems.and.returnValue(Promise.resolve([1, 2, 10, 20]));
+    fragmentsServiceSpy.getSection.and.returnValue(
+      Promise.resolve({
+        buffer: new Float32Array([0, 1.7, 0, 4, 1.7, 0, 4, 1.7, -2]),
+        index: 2,
+        fillsIndices: [0, 1, 2],
+      })
+    );
+    fragmentsServiceSpy.getItemsGeometry.and.callFake((_: string, localIds: number[]) =>
+      Promise.resolve(localIds.map(() => [cube()]))
+    );
+
+    const modelManagerSpy = jasmine.createSpyObj('ModelManagerService', ['getModelByFragmentUuid']);
+    modelManagerSpy.getModelByFragmentUuid.and.returnValue({ name: 'tower.ifc' });
+
+    TestBed.configureTestingModule({
+      providers: [
+        PlanService,
+        { provide: ErrorHandlerService, useValue: jasmine.createSpyObj('ErrorHandlerService', ['handleError']) },
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: ClippingService, useValue: jasmine.createSpyObj('ClippingService', ['setPlanCut']) },
+        { provide: ModelManagerService, useValue: modelManagerSpy },
+        {
+          provide: SpatialTreeService,
+          useValue: jasmine.createSpyObj('SpatialTreeService', ['getNodeBox'], { trees }),
+        },
+      ],
+    });
+
+    service = TestBed.inject(PlanService);
+    fragmentsService = TestBed.inject(FragmentsService) as jasmine.SpyObj<FragmentsService>;
+    clippingService = TestBed.inject(ClippingService) as jasmine.SpyObj<ClippingService>;
+  });
+
+  it('should list the storeys by world elevation', async () => {
+    await service.refreshStoreys();
+
+    expect(service.storeys().map((item) => [item.name, item.elevation])).toEqual([
+      ['Ground', 0.5],
+      ['Level 1', 3.5],
+    ]);
+    expect(fragmentsService.getItemsData).toHaveBeenCalledWith('m1', [2, 1], jasmine.anything());
+  });
+
+  it('should convert the elevations of millimeter projects to meters', async () => {
+    fragmentsService.getItemsData.and.returnValue(
+      Promise.resolve([{ Elevation: { value: 3000 } }, { Elevation: { value: 0 } }])
+    );
+    fragmentsService.getProjectUnits.and.returnValue(
+      Promise.resolve({ ...DEFAULT_PROJECT_UNITS, length: { symbol: 'mm', factor: 1000, decimals: 0 } })
+    );
+
+    await service.refreshStoreys();
+
+    expect(service.storeys().map((item) => [item.name, item.elevation])).toEqual([
+      ['Ground', 0.5],
+      ['Level 1', 3.5],
+    ]);
+  });
+
+  it('should fall back to the storey geometry without an elevation', async () => {
+    fragmentsService.getItemsData.and.returnValue(
+      Promise.resolve([{ Elevation: { value: null } }, { Elevation: { value: 0 } }])
+    );
+
+    await service.refreshStoreys();
+
+    expect(service.storeys().find((item) => item.name === 'Level 1')!.elevation).toBe(0);
+    expect(fragmentsService.getItemsBox).toHaveBeenCalledWith('m1', [2, 10, 11]);
+  });
+
+  it('should cut the models between the view depth and the cut height', async () => {
+    await service.refreshStoreys();
+
+    service.activate('m1:2');
+    service.setCutHeight(1.5);
+
+    expect(service.isActive()).toBe(true);
+    expect(clippingService.setPlanCut).toHaveBeenCalledWith({ bottom: 3.5 - PLAN_CONFIG.viewDepth, top: 5 });
+  });
+
+  it('should clamp the cut height', () => {
+    service.setCutHeight(100);
+    expect(service.cutHeight()).toBe(PLAN_CONFIG.maxCutHeight);
+
+    service.setCutHeight(Number.NaN);
+    expect(service.cutHeight()).toBe(PLAN_CONFIG.maxCutHeight);
+  });
+
+  it('should leave plan mode when its storey is unloaded', async () => {
+    await service.refreshStoreys();
+    service.activate('m1:1');
+
+    trees.set([]);
+    await service.refreshStoreys();
+
+    expect(service.isActive()).toBe(false);
+    expect(clippingService.setPlanCut).toHaveBeenCalledWith(null);
+  });
+
+  it('should not export without an active storey', async () => {
+    const result = await service.export('svg');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('No storey selected');
+  });
+
+  it('should export the cut and the visible storey elements as SVG', async () => {
+    await service.refreshStoreys();
+    service.activate('m1:1');
+
+    const result = await service.export('svg');
+    const svg = new TextDecoder().decode(result.data);
+
+    expect(result.success).toBe(true);
+    expect(svg).toContain('<title>Ground</title>');
+    expect(svg).toContain('>tower.ifc</text>');
+    expect(svg).toContain(PLAN_CONFIG.style.cutFill);
+    expect(svg).toContain(PLAN_CONFIG.style.projectionStroke);
+    // The cut only includes visible items and the projection only the visible storey elements
+    expect(fragmentsService.getSection.calls.mostRecent().args[2]).toEqual([1, 2, 10, 20]);
+    expect(fragmentsService.getItemsGeometry).toHaveBeenCalledWith('m1', [1, 20]);
+  });
+
+  it('should return the cut outlines of the active storey', async () => {
+    expect(await service.getCutEdges()).toEqual([]);
+
+    await service.refreshStoreys();
+    service.activate('m1:1');
+
+    const edges = await service.getCutEdges();
+
+    expect(edges.length).toBe(1);
+    expect(edges[0]!.map((point) => point.x)).toEqual([0, 4]);
+    expect(fragmentsService.getSection.calls.mostRecent().args[1].constant).toBeCloseTo(1.7);
+  });
+
+  it('should draw the north arrow to true north in PDFs', async () => {
+    await service.refreshStoreys();
+    service.activate('m1:1');
+    service.setTrueNorth('m1', new THREE.Vector2(1, 0));
+
+    const result = await service.export('pdf');
+
+    expect(service.getNorthAngle('m1')).toBeCloseTo(Math.PI / 2);
+    expect(new TextDecoder().decode(result.data).startsWith('%PDF')).toBe(true);
+  });
+
+  it('should remove the storeys of an unloaded model', async () => {
+    await service.refreshStoreys();
+    service.activate('m1:1');
+    service.setTrueNorth('m1', new THREE.Vector2(1, 0));
+
+    service.removeModel('m1');
+
+    expect(service.storeys()).toEqual([]);
+    expect(service.isActive()).toBe(false);
+    expect(service.getNorthAngle('m1')).toBe(0);
+    expect(clippingService.setPlanCut).toHaveBeenCalledWith(null);
+  });
+
+  it('should skip hidden models', async () => {
+    await service.refreshStoreys();
+    service.activate('m1:1');
+    modelObject.visible = false;
+
+    const result = await service.export('svg');
+
+    expect(result.success).toBe(false);
+    expect(fragmentsService.getSection).not.toHaveBeenCalled();
+  });
+});
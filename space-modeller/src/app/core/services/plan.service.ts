@@ -0,0 +1,385 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import * as THREE from 'three';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { ClippingService } from './clipping.service';
+import { SpatialTreeService } from './spatial-tree.service';
+import { ModelManagerService } from './model-manager.service';
+import { ExportResult } from '../../shared/models/ifc.model';
+import { PlanStorey } from '../../shared/models/plan.model';
+import { SpatialNode } from '../../shared/models/spatial.model';
+import { Drawing, DrawingFormat, DrawingPoint } from '../../shared/models/drawing.model';
+import { PLAN_CONFIG } from '../../shared/constants/viewer.constants';
+import { getStoreyNodes } from '../../shared/utils/spatial.utils';
+import { buildItemGeometry } from '../../shared/utils/gltf.utils';
+import { getDrawingBounds, layoutDrawingSheet, writeDrawingPdf, writeDrawingSvg } from '../../shared/utils/drawing.utils';
+import {
+  formatElevation,
+  getEdgeSegments,
+  getNorthAngle,
+  sectionToDrawing,
+} from '../../shared/utils/plan.utils';
+
+/**
+ * Service for 2D floor plans of building storeys
+ *
+ * Features:
+ * - Storeys of every loaded model with their world elevation
+ * - Plan cut at a configurable height above the storey elevation (elements above are cut away)
+ * - SVG and PDF export with cut faces, projected edges, title block, scale bar and north arrow
+ * - True north of each model (project north when unknown)
+ *
+ * The viewport camera is handled by the viewer, this service only cuts the models.
+ *
+ * @example
+ * ```typescript
+ * await this.planService.refreshStoreys();
+ * this.planService.activate(this.planService.storeys()[0]!.key);
+ *
+ * const result = await this.planService.export('pdf');
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PlanService {
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly clippingService = inject(ClippingService);
+  private readonly spatialTreeService = inject(SpatialTreeService);
+  private readonly modelManager = inject(ModelManagerService);
+
+  // True north angle of each model (clockwise from project north)
+  private readonly northAngles = new Map<string, number>();
+
+  // State
+  readonly storeys = signal<PlanStorey[]>([]);
+  readonly activeStoreyKey = signal<string | null>(null);
+  readonly cutHeight = signal<number>(PLAN_CONFIG.cutHeight);
+  readonly activeStorey = computed(
+    () => this.storeys().find((storey) => storey.key === this.activeStoreyKey()) ?? null
+  );
+  readonly isActive = computed(() => this.activeStorey() !== null);
+
+  /**
+   * Read the storeys of the loaded models from their spatial trees
+   * Leaves plan mode if its storey was unloaded
+   */
+  async refreshStoreys(): Promise<void> {
+    const storeys: PlanStorey[] = [];
+
+    for (const tree of this.spatialTreeService.trees()) {
+      const nodes = getStoreyNodes(tree).filter((node) => node.localId !== null);
+      if (nodes.length === 0) {
+        continue;
+      }
+
+      try {
+        const elevations = await this.getElevations(tree.modelId, nodes.map((node) => node.localId!));
+        for (const node of nodes) {
+          const elevation =
+            elevations.get(node.localId!) ??
+            (await this.fragmentsService.getItemsBox(node.modelId, node.itemIds))?.min.y ??
+            null;
+          if (elevation !== null) {
+            storeys.push({
+              key: node.key,
+              modelId: node.modelId,
+              localId: node.localId!,
+              name: node.name,
+              elevation,
+            });
+          }
+        }
+      } catch (error) {
+        this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+          operation: 'refreshStoreys',
+          modelId: tree.modelId,
+        });
+      }
+    }
+
+    storeys.sort((a, b) => a.elevation - b.elevation);
+    this.storeys.set(storeys);
+
+    if (this.activeStoreyKey() && !this.activeStorey()) {
+      this.deactivate();
+    }
+  }
+
+  /**
+   * Set the true north of a model
+   * @param modelId - Fragment model UUID
+   * @param trueNorth - True north direction in IFC coordinates or null when unknown
+   */
+  setTrueNorth(modelId: string, trueNorth: THREE.Vector2 | null): void {
+    if (trueNorth) {
+      this.northAngles.set(modelId, getNorthAngle(trueNorth));
+    } else {
+      this.northAngles.delete(modelId);
+    }
+  }
+
+  /**
+   * Clockwise angle from project north to true north of a model
+   * @returns Angle in radians (0 when the true north is unknown)
+   */
+  getNorthAngle(modelId: string): number {
+    return this.northAngles.get(modelId) ?? 0;
+  }
+
+  /**
+   * Remove the storeys of an unloaded model, leaving plan mode if it showed one of them
+   * @param modelId - Fragment model UUID
+   */
+  removeModel(modelId: string): void {
+    this.northAngles.delete(modelId);
+    this.storeys.update((storeys) => storeys.filter((storey) => storey.modelId !== modelId));
+
+    if (this.activeStoreyKey() && !this.activeStorey()) {
+      this.deactivate();
+    }
+  }
+
+  /**
+   * Show the plan of a storey
+   * @param key - Storey key
+   * @returns The storey or null if not found
+   */
+  activate(key: string): PlanStorey | null {
+    const storey = this.storeys().find((item) => item.key === key) ?? null;
+    if (!storey) {
+      return null;
+    }
+
+    this.activeStoreyKey.set(key);
+    this.applyCut(storey);
+    return storey;
+  }
+
+  /**
+   * Change the cut height above the storey elevation
+   * @param height - Height in meters (clamped to the allowed range)
+   */
+  setCutHeight(height: number): void {
+    if (!Number.isFinite(height)) {
+      return;
+    }
+
+    this.cutHeight.set(Math.min(PLAN_CONFIG.maxCutHeight, Math.max(PLAN_CONFIG.minCutHeight, height)));
+
+    const storey = this.activeStorey();
+    if (storey) {
+      this.applyCut(storey);
+    }
+  }
+
+  /**
+   * Leave plan mode and remove the plan cut
+   */
+  deactivate(): void {
+    this.activeStoreyKey.set(null);
+    this.clippingService.setPlanCut(null);
+  }
+
+  /**
+   * Bounding box of the elements of a storey
+   * @param key - Storey key
+   * @returns Bounding box or null if the storey has no geometry
+   */
+  async getStoreyBox(key: string): Promise<THREE.Box3 | null> {
+    const node = this.findStoreyNode(key);
+    return node ? this.spatialTreeService.getNodeBox(node) : null;
+  }
+
+  /**
+   * Cut outlines of the visible elements at the cut height of the active storey
+   * (e.g. the walls enclosing a room)
+   * @returns Line segments in plan coordinates, empty without an active storey
+   */
+  async getCutEdges(): Promise<DrawingPoint[][]> {
+    const storey = this.activeStorey();
+    if (!storey) {
+      return [];
+    }
+
+    const cutPlane = new THREE.Plane(new THREE.Vector3(0, -1, 0), storey.elevation + this.cutHeight());
+    return (await this.cutVisibleModels(cutPlane)).cutEdges;
+  }
+
+  /**
+   * Export the plan of the active storey
+   * @param format - SVG or PDF
+   * @returns Export result with the file contents
+   */
+  async export(format: DrawingFormat): Promise<ExportResult> {
+    const startTime = performance.now();
+    const storey = this.activeStorey();
+    if (!storey) {
+      return { success: false, error: 'No storey selected' };
+    }
+
+    try {
+      const drawing = await this.createDrawing(storey);
+      if (!getDrawingBounds(drawing)) {
+        return {
+          success: false,
+          error: 'No visible geometry on this storey',
+          duration: Math.round(performance.now() - startTime),
+        };
+      }
+
+      const sheet = layoutDrawingSheet(
+        drawing,
+        {
+          title: storey.name,
+          subtitle: `Floor plan at ${formatElevation(storey.elevation)}, cut ${this.cutHeight().toFixed(2)} m above`,
+          details: [
+            { label: 'Model', value: this.modelManager.getModelByFragmentUuid(storey.modelId)?.name ?? storey.modelId },
+            { label: 'Date', value: new Date().toISOString().slice(0, 10) },
+          ],
+          northAngle: this.getNorthAngle(storey.modelId),
+        },
+        PLAN_CONFIG.style
+      );
+      const data = format === 'pdf' ? writeDrawingPdf(sheet) : new TextEncoder().encode(writeDrawingSvg(sheet));
+      const duration = Math.round(performance.now() - startTime);
+
+      console.log(`✓ Floor plan exported: ${storey.name} at 1:${sheet.scale} as ${format.toUpperCase()} in ${duration}ms`);
+
+      return {
+        success: true,
+        data,
+        fileSize: data.byteLength,
+        duration,
+      };
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.ERROR, {
+        operation: 'exportPlan',
+        storey: storey.key,
+        format,
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration: Math.round(performance.now() - startTime),
+      };
+    }
+  }
+
+  /**
+   * Cut faces of every visible model at the cut height and the edges of the
+   * storey elements seen below it, down to the view depth
+   */
+  private async createDrawing(storey: PlanStorey): Promise<Drawing> {
+    const top = storey.elevation + this.cutHeight();
+    const bottom = storey.elevation - PLAN_CONFIG.viewDepth;
+    const cutPlane = new THREE.Plane(new THREE.Vector3(0, -1, 0), top);
+    const range = [cutPlane, new THREE.Plane(new THREE.Vector3(0, 1, 0), -bottom)];
+    const drawing = await this.cutVisibleModels(cutPlane);
+
+    const model = this.fragmentsService.getModel(storey.modelId);
+    const node = this.findStoreyNode(storey.key);
+    if (!model?.object.visible || !node) {
+      return drawing;
+    }
+
+    const visible = new Set(await this.fragmentsService.getVisibleItems(storey.modelId));
+    const localIds = node.itemIds.filter((localId) => visible.has(localId));
+    for (let start = 0; start < localIds.length; start += PLAN_CONFIG.batchSize) {
+      const batch = localIds.slice(start, start + PLAN_CONFIG.batchSize);
+      const geometries = await this.fragmentsService.getItemsGeometry(storey.modelId, batch);
+
+      for (const meshes of geometries) {
+        const geometry = buildItemGeometry(meshes, model.object.matrixWorld, range);
+        if (geometry) {
+          drawing.projectionEdges.push(...getEdgeSegments(geometry));
+          geometry.dispose();
+        }
+      }
+    }
+
+    return drawing;
+  }
+
+  /**
+   * Cut faces and outlines of the visible elements of every visible model
+   */
+  private async cutVisibleModels(cutPlane: THREE.Plane): Promise<Drawing> {
+    const drawing: Drawing = { cutFills: [], cutEdges: [], projectionEdges: [] };
+
+    for (const model of this.fragmentsService.getAllModels()) {
+      if (!model.object.visible) {
+        continue;
+      }
+
+      const visible = await this.fragmentsService.getVisibleItems(model.modelId);
+      const section = await this.fragmentsService.getSection(model.modelId, cutPlane, visible);
+      if (section) {
+        const cut = sectionToDrawing(section);
+        drawing.cutFills.push(...cut.cutFills);
+        drawing.cutEdges.push(...cut.cutEdges);
+      }
+    }
+
+    return drawing;
+  }
+
+  /**
+   * Spatial tree node of a storey
+   */
+  private findStoreyNode(key: string): SpatialNode | null {
+    for (const tree of this.spatialTreeService.trees()) {
+      const node = getStoreyNodes(tree).find((item) => item.key === key);
+      if (node) {
+        return node;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * World elevations of storeys from their Elevation attribute
+   * The attribute is in the project length unit and relative to the model coordinates,
+   * so it is converted to meters and the coordinates are added back
+   */
+  private async getElevations(modelId: string, localIds: number[]): Promise<Map<number, number>> {
+    const elevations = new Map<number, number>();
+    const model = this.fragmentsService.getModel(modelId);
+    if (!model) {
+      return elevations;
+    }
+
+    const [data, coordinates, units] = await Promise.all([
+      this.fragmentsService.getItemsData(modelId, localIds, {
+        attributesDefault: false,
+        attributes: ['Elevation'],
+      }),
+      this.fragmentsService.getCoordinates(modelId),
+      this.fragmentsService.getProjectUnits(modelId),
+    ]);
+
+    const point = new THREE.Vector3();
+    data.forEach((item, index) => {
+      const elevation = (item['Elevation'] as { value?: unknown } | undefined)?.value;
+      if (typeof elevation === 'number') {
+        const meters = elevation / units.length.factor;
+        point.set(0, meters + (coordinates?.[1] ?? 0), 0).applyMatrix4(model.object.matrixWorld);
+        elevations.set(localIds[index]!, point.y);
+      }
+    });
+
+    return elevations;
+  }
+
+  /**
+   * Cut the models between the view depth below the storey and the cut height above it
+   */
+  private applyCut(storey: PlanStorey): void {
+    this.clippingService.setPlanCut({
+      bottom: storey.elevation - PLAN_CONFIG.viewDepth,
+      top: storey.elevation + this.cutHeight(),
+    });
+  }
+}
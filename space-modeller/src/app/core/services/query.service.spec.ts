@@ -0,0 +1,206 @@
+import { TestBed } from '@angular/core/testing';
+import { WritableSignal, signal } from '@angular/core';
+import { QueryService } from './query.service';
+import { ErrorHandlerService } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { IfcClassInfo, IfcFilterService } from './ifc-filter.service';
+import { ScheduleService } from './schedule.service';
+import { SelectionService } from './selection.service';
+import { BcfService } from './bcf.service';
+import { ScheduleElement } from '../../shared/models/export.model';
+import { ElementReference } from '../../shared/models/selection.model';
+import { getQueryStorageKey } from '../../shared/utils/query.utils';
+
+describe('QueryService', () => {
+  let service: QueryService;
+  let fragmentsService: jasmine.SpyObj<FragmentsService>;
+  let scheduleService: jasmine.SpyObj<ScheduleService>;
+  let selectionService: jasmine.SpyObj<SelectionService>;
+  let elements: WritableSignal<ScheduleElement[]>;
+  let selection: WritableSignal<ElementReference | null>;
+  let author: WritableSignal<string>;
+
+  const element = (localId: number, ifcClass: string, name: string, storey: string): ScheduleElement => ({
+    properties: {
+      modelId: 'm1',
+      localId,
+      globalId: `guid-${localId}`,
+      name,
+      ifcClass,
+      attributes: [],
+      propertySets: [{ name: 'Pset_WallCommon', properties: [{ name: 'IsExternal', value: localId === 1 }] }],
+      quantitySets: [],
+    },
+    storey,
+    type: null,
+    material: null,
+  });
+
+  const loaded = [
+    element(1, 'IfcWall', 'Wall-01', 'Level 1'),
+    element(2, 'IfcWall', 'Wall-02', 'Level 2'),
+    element(3, 'IfcDoor', 'Door-01', 'Level 2'),
+  ];
+
+  const classes: IfcClassInfo[] = [
+    { name: 'IfcDoor', count: 1, visible: true },
+    { name: 'IfcSpace', count: 2, visible: false },
+  ];
+
+  beforeEach(() => {
+    elements = signal<ScheduleElement[]>([]);
+    selection = signal<ElementReference | null>(null);
+    author = signal('');
+
+    const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', [
+      'getModelIds',
+      'setItemsVisibility',
+      'highlightItems',
+      'resetHighlight',
+    ]);
+    fragmentsServiceSpy.getModelIds.and.returnValue(['m1']);
+    fragmentsServiceSpy.setItemsVisibility.and.returnValue(Promise.resolve());
+    fragmentsServiceSpy.highlightItems.and.returnValue(Promise.resolve());
+    fragmentsServiceSpy.resetHighlight.and.returnValue(Promise.resolve());
+
+    const scheduleServiceSpy = jasmine.createSpyObj('ScheduleService', ['ensureLoaded'], { elements });
+    scheduleServiceSpy.ensureLoaded.and.callFake(() => {
+      elements.set(loaded);
+      return Promise.resolve();
+    });
+
+    const ifcFilterServiceSpy = jasmine.createSpyObj('IfcFilterService', ['getClassItems'], {
+      availableClasses: signal(classes),
+    });
+    ifcFilterServiceSpy.getClassItems.and.returnValue(new Map([['m1', [8, 9]]]));
+
+    const selectionServiceSpy = jasmine.createSpyObj('SelectionService', ['refreshHighlight'], { selection });
+    selectionServiceSpy.refreshHighlight.and.returnValue(Promise.resolve());
+
+    TestBed.configureTestingModule({
+      providers: [
+        QueryService,
+        { provide: ErrorHandlerService, useValue: jasmine.createSpyObj('ErrorHandlerService', ['handleError']) },
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: ScheduleService, useValue: scheduleServiceSpy },
+        { provide: IfcFilterService, useValue: ifcFilterServiceSpy },
+        { provide: SelectionService, useValue: selectionServiceSpy },
+        { provide: BcfService, useValue: jasmine.createSpyObj('BcfService', [], { author }) },
+      ],
+    });
+
+    service = TestBed.inject(QueryService);
+    fragmentsService = TestBed.inject(FragmentsService) as jasmine.SpyObj<FragmentsService>;
+    scheduleService = TestBed.inject(ScheduleService) as jasmine.SpyObj<ScheduleService>;
+    selectionService = TestBed.inject(SelectionService) as jasmine.SpyObj<SelectionService>;
+
+    localStorage.removeItem(getQueryStorageKey(''));
+    localStorage.removeItem(getQueryStorageKey('jane@example.com'));
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(getQueryStorageKey(''));
+    localStorage.removeItem(getQueryStorageKey('jane@example.com'));
+  });
+
+  it('should be created without a result', () => {
+    expect(service).toBeTruthy();
+    expect(service.result()).toBeNull();
+    expect(service.matchCount()).toBe(0);
+    expect(service.savedQueries()).toEqual([]);
+  });
+
+  it('should load the elements and count the matches per class', async () => {
+    const result = await service.run('Storey = "Level 2"', 'highlight');
+
+    expect(scheduleService.ensureLoaded).toHaveBeenCalled();
+    expect(result!.elements).toEqual([
+      { modelId: 'm1', localId: 2 },
+      { modelId: 'm1', localId: 3 },
+    ]);
+    expect(service.matchCount()).toBe(2);
+    expect(service.matchedClassCount()).toBe(2);
+    expect(service.result()!.classCounts).toEqual([
+      { name: 'IfcDoor', count: 1 },
+      { name: 'IfcWall', count: 1 },
+    ]);
+  });
+
+  it('should report invalid queries', async () => {
+    expect(await service.run('IfcWall AND', 'isolate')).toBeNull();
+    expect(service.error()).toBe('Expected a condition at the end');
+    expect(fragmentsService.setItemsVisibility).not.toHaveBeenCalled();
+  });
+
+  it('should isolate the matches', async () => {
+    await service.run('IfcWall AND Pset_WallCommon.IsExternal = true', 'isolate');
+
+    expect(fragmentsService.setItemsVisibility).toHaveBeenCalledWith('m1', undefined, false);
+    expect(fragmentsService.setItemsVisibility).toHaveBeenCalledWith('m1', [1], true);
+  });
+
+  it('should color the matches', async () => {
+    await service.run('IfcDoor', 'color', '#ff0000');
+
+    const material = fragmentsService.highlightItems.calls.mostRecent().args[2];
+    expect(fragmentsService.highlightItems.calls.mostRecent().args[1]).toEqual([3]);
+    expect(material.color.getHexString()).toBe('ff0000');
+  });
+
+  it('should restore the class filter when cleared', async () => {
+    await service.run('IfcDoor', 'hide');
+    expect(fragmentsService.setItemsVisibility).toHaveBeenCalledWith('m1', [3], false);
+
+    await service.clear();
+
+    expect(service.result()).toBeNull();
+    expect(fragmentsService.setItemsVisibility).toHaveBeenCalledWith('m1', [3], true);
+    expect(fragmentsService.setItemsVisibility).toHaveBeenCalledWith('m1', [8, 9], false);
+  });
+
+  it('should keep the selection highlight when cleared', async () => {
+    selection.set({ modelId: 'm1', localId: 3 });
+    await service.run('IfcDoor', 'highlight');
+
+    await service.run('IfcWall', 'highlight');
+
+    expect(fragmentsService.resetHighlight).toHaveBeenCalledWith('m1', [3]);
+    expect(selectionService.refreshHighlight).toHaveBeenCalled();
+  });
+
+  it('should clear results of unloaded models', async () => {
+    await service.run('IfcDoor', 'hide');
+
+    await service.removeModel('m2');
+    expect(service.result()).not.toBeNull();
+
+    await service.removeModel('m1');
+    expect(service.result()).toBeNull();
+  });
+
+  it('should save queries per user', () => {
+    service.saveQuery('External walls', 'IfcWall AND Pset_WallCommon.IsExternal = true');
+    expect(service.savedQueries().map((query) => query.name)).toEqual(['External walls']);
+
+    author.set('jane@example.com');
+    expect(service.savedQueries()).toEqual([]);
+
+    service.saveQuery('', 'IfcDoor');
+    expect(service.savedQueries()[0]!.name).toBe('IfcDoor');
+    expect(localStorage.getItem(getQueryStorageKey('Jane@Example.com'))).toContain('IfcDoor');
+  });
+
+  it('should not save invalid queries', () => {
+    expect(service.saveQuery('Broken', 'Name =')).toBeNull();
+    expect(service.savedQueries()).toEqual([]);
+  });
+
+  it('should delete saved queries', () => {
+    const saved = service.saveQuery('Doors', 'IfcDoor')!;
+
+    service.deleteQuery(saved.id);
+
+    expect(service.savedQueries()).toEqual([]);
+    expect(localStorage.getItem(getQueryStorageKey(''))).toBeNull();
+  });
+});
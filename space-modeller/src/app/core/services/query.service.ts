@@ -0,0 +1,317 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import * as THREE from 'three';
+import * as FRAGS from '@thatopen/fragments';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { IfcFilterService } from './ifc-filter.service';
+import { ScheduleService } from './schedule.service';
+import { SelectionService } from './selection.service';
+import { BcfService } from './bcf.service';
+import { ElementReference } from '../../shared/models/selection.model';
+import { QueryAction, QueryResult, SavedQuery } from '../../shared/models/query.model';
+import { QUERY_CONFIG } from '../../shared/constants/viewer.constants';
+import {
+  getQueryClassCounts,
+  getQueryStorageKey,
+  matchesQuery,
+  parseQuery,
+  parseSavedQueries,
+} from '../../shared/utils/query.utils';
+
+/**
+ * Service for property queries over the loaded elements
+ *
+ * Features:
+ * - Query language over classes, attributes, properties, quantities, storeys and types
+ *   (e.g. `IfcWall AND Pset_WallCommon.IsExternal = true`)
+ * - Isolate, hide, highlight or color the matching elements
+ * - Match statistics per IFC class
+ * - Saved queries per user (the BCF author) in local storage
+ *
+ * Element properties are read through the schedule service and reloaded when the
+ * loaded models change. Clearing a result restores the class filter visibility.
+ *
+ * @example
+ * ```typescript
+ * await this.queryService.run('Storey = "Level 2" AND Name ~ "Door*"', 'isolate');
+ * console.log(this.queryService.matchCount());
+ *
+ * await this.queryService.clear();
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class QueryService {
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly ifcFilterService = inject(IfcFilterService);
+  private readonly scheduleService = inject(ScheduleService);
+  private readonly selectionService = inject(SelectionService);
+  private readonly bcfService = inject(BcfService);
+
+  // Incremented after every write so the saved queries are read from storage again
+  private readonly revision = signal(0);
+
+  // State
+  readonly result = signal<QueryResult | null>(null);
+  readonly error = signal<string | null>(null);
+  readonly isRunning = signal<boolean>(false);
+  readonly matchCount = computed(() => this.result()?.elements.length ?? 0);
+  readonly matchedClassCount = computed(() => this.result()?.classCounts.length ?? 0);
+  readonly user = computed(() => this.bcfService.author() || QUERY_CONFIG.anonymousUser);
+  readonly savedQueries = computed(() => {
+    this.revision();
+    return this.read(this.bcfService.author());
+  });
+
+  /**
+   * Run a query and apply an action to the matching elements
+   * The previous result is cleared first
+   * @param query - Query text
+   * @param action - What to do with the matches
+   * @param color - Hex color of the color action
+   * @returns The result or null if the query is invalid or failed
+   */
+  async run(query: string, action: QueryAction, color: string = QUERY_CONFIG.defaultColor): Promise<QueryResult | null> {
+    let parsed;
+    try {
+      parsed = parseQuery(query);
+    } catch (error) {
+      this.error.set(error instanceof Error ? error.message : 'Invalid query');
+      return null;
+    }
+
+    this.isRunning.set(true);
+    this.error.set(null);
+
+    try {
+      await this.clear();
+      await this.scheduleService.ensureLoaded();
+
+      const matches = this.scheduleService.elements().filter((element) => matchesQuery(parsed, element));
+      const result: QueryResult = {
+        query: query.trim(),
+        action,
+        color,
+        elements: matches.map(({ properties }) => ({ modelId: properties.modelId, localId: properties.localId })),
+        classCounts: getQueryClassCounts(matches),
+      };
+
+      await this.applyAction(result);
+      this.result.set(result);
+
+      console.log(`🔎 Query "${result.query}": ${matches.length} elements, ${action}`);
+      return result;
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.ERROR, {
+        operation: 'runQuery',
+        query,
+        action,
+      });
+      this.error.set(error instanceof Error ? error.message : 'Query failed');
+      return null;
+    } finally {
+      this.isRunning.set(false);
+    }
+  }
+
+  /**
+   * Undo the action of the current result
+   * Visibility falls back to the class filter, highlights are removed (the selection keeps its own)
+   */
+  async clear(): Promise<void> {
+    const result = this.result();
+    if (!result) {
+      return;
+    }
+
+    this.result.set(null);
+
+    try {
+      const modelIds = this.fragmentsService.getModelIds();
+      const byModel = this.groupByModel(result.elements.filter((element) => modelIds.includes(element.modelId)));
+
+      if (result.action === 'isolate' || result.action === 'hide') {
+        for (const modelId of result.action === 'isolate' ? modelIds : byModel.keys()) {
+          await this.fragmentsService.setItemsVisibility(modelId, byModel.get(modelId), true);
+        }
+        await this.reapplyClassFilter();
+      } else {
+        for (const [modelId, localIds] of byModel) {
+          await this.fragmentsService.resetHighlight(modelId, localIds);
+        }
+        await this.restoreSelectionHighlight(byModel);
+      }
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'clearQuery',
+      });
+    }
+  }
+
+  /**
+   * Clear the result if it includes elements of an unloaded model
+   * @param modelId - Fragment model UUID
+   */
+  async removeModel(modelId: string): Promise<void> {
+    if (this.result()?.elements.some((element) => element.modelId === modelId)) {
+      await this.clear();
+    }
+  }
+
+  /**
+   * Save a query for the current user
+   * @param name - Display name (defaults to the query text)
+   * @param query - Query text (must be valid)
+   * @returns The saved query or null if invalid or not stored
+   */
+  saveQuery(name: string, query: string): SavedQuery | null {
+    try {
+      parseQuery(query);
+    } catch (error) {
+      this.error.set(error instanceof Error ? error.message : 'Invalid query');
+      return null;
+    }
+
+    const saved: SavedQuery = {
+      id: crypto.randomUUID(),
+      name: name.trim() || query.trim(),
+      query: query.trim(),
+      createdAt: new Date().toISOString(),
+    };
+
+    return this.write([...this.savedQueries(), saved]) ? saved : null;
+  }
+
+  /**
+   * Delete a saved query of the current user
+   * @param id - Saved query ID
+   */
+  deleteQuery(id: string): void {
+    this.write(this.savedQueries().filter((query) => query.id !== id));
+  }
+
+  /**
+   * Isolate, hide, highlight or color the matches of a result
+   */
+  private async applyAction(result: QueryResult): Promise<void> {
+    const byModel = this.groupByModel(result.elements);
+
+    switch (result.action) {
+      case 'isolate':
+        for (const modelId of this.fragmentsService.getModelIds()) {
+          await this.fragmentsService.setItemsVisibility(modelId, undefined, false);
+          const localIds = byModel.get(modelId);
+          if (localIds) {
+            await this.fragmentsService.setItemsVisibility(modelId, localIds, true);
+          }
+        }
+        break;
+      case 'hide':
+        for (const [modelId, localIds] of byModel) {
+          await this.fragmentsService.setItemsVisibility(modelId, localIds, false);
+        }
+        break;
+      case 'highlight':
+      case 'color': {
+        const material = this.createMaterial(result.action === 'color' ? result.color : QUERY_CONFIG.highlightColor);
+        for (const [modelId, localIds] of byModel) {
+          await this.fragmentsService.highlightItems(modelId, localIds, material);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Hide the classes hidden in the class filter again
+   */
+  private async reapplyClassFilter(): Promise<void> {
+    for (const ifcClass of this.ifcFilterService.availableClasses()) {
+      if (ifcClass.visible) {
+        continue;
+      }
+
+      for (const [modelId, localIds] of this.ifcFilterService.getClassItems(ifcClass.name)) {
+        await this.fragmentsService.setItemsVisibility(modelId, localIds, false);
+      }
+    }
+  }
+
+  /**
+   * Highlight the selected element again if its highlight was reset
+   */
+  private async restoreSelectionHighlight(byModel: Map<string, number[]>): Promise<void> {
+    const selection = this.selectionService.selection();
+    if (selection && byModel.get(selection.modelId)?.includes(selection.localId)) {
+      await this.selectionService.refreshHighlight();
+    }
+  }
+
+  /**
+   * Local IDs of elements per model
+   */
+  private groupByModel(elements: ElementReference[]): Map<string, number[]> {
+    const byModel = new Map<string, number[]>();
+    for (const { modelId, localId } of elements) {
+      const localIds = byModel.get(modelId);
+      if (localIds) {
+        localIds.push(localId);
+      } else {
+        byModel.set(modelId, [localId]);
+      }
+    }
+    return byModel;
+  }
+
+  /**
+   * Highlight material of a color
+   */
+  private createMaterial(color: string): FRAGS.MaterialDefinition {
+    return {
+      color: new THREE.Color(color),
+      renderedFaces: FRAGS.RenderedFaces.TWO,
+      opacity: QUERY_CONFIG.highlightOpacity,
+      transparent: true,
+    };
+  }
+
+  /**
+   * Read the saved queries of a user from local storage
+   * Runs inside a computed signal, so failures are only logged
+   */
+  private read(user: string): SavedQuery[] {
+    try {
+      const stored = localStorage.getItem(getQueryStorageKey(user));
+      return stored ? parseSavedQueries(stored) : [];
+    } catch (error) {
+      console.warn(`⚠️ Saved queries of ${user || QUERY_CONFIG.anonymousUser} are unreadable:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Store the saved queries of the current user
+   * @returns True if stored
+   */
+  private write(queries: SavedQuery[]): boolean {
+    const key = getQueryStorageKey(this.bcfService.author());
+
+    try {
+      if (queries.length > 0) {
+        localStorage.setItem(key, JSON.stringify(queries));
+      } else {
+        localStorage.removeItem(key);
+      }
+      this.revision.update((revision) => revision + 1);
+      return true;
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'saveQueries',
+        user: this.user(),
+      });
+      return false;
+    }
+  }
+}
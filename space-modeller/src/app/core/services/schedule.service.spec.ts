@@ -0,0 +1,183 @@
+import { TestBed } from '@angular/core/testing';
+import { WritableSignal, signal } from '@angular/core';
+import { strFromU8, unzipSync } from 'fflate';
+import type * as FRAGS from '@thatopen/fragments';
+import { ScheduleService } from './schedule.service';
+import { ErrorHandlerService } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { IfcFilterService, IfcClassInfo } from './ifc-filter.service';
+import { SpatialTreeService } from './spatial-tree.service';
+import { ScheduleExportOptions } from '../../shared/models/export.model';
+import { SpatialNode } from '../../shared/models/spatial.model';
+
+describe('ScheduleService', () => {
+  let service: ScheduleService;
+  let fragmentsService: jasmine.SpyObj<FragmentsService>;
+  let errorHandler: jasmine.SpyObj<ErrorHandlerService>;
+  let ifcClasses: WritableSignal<Map<string, IfcClassInfo>>;
+
+  const options: ScheduleExportOptions = {
+    format: 'csv',
+    columns: ['globalId', 'ifcClass', 'storey', 'type', 'quantity:Qto_WallBaseQuantities.Length'],
+    excludeHiddenClasses: false,
+  };
+
+  const node = (partial: Partial<SpatialNode>): SpatialNode => ({
+    key: 'k',
+    modelId: 'm1',
+    localId: null,
+    name: '',
+    ifcClass: 'Model',
+    kind: 'model',
+    itemIds: [],
+    elementCount: 0,
+    children: [],
+    ...partial,
+  });
+
+  const itemData = (localId: number) =>
+    localId < 20
+      ? {
+          _category: { value: 'IFCWALL' },
+          GlobalId: { value: `guid-${localId}` },
+          ObjectType: { value: 'Basic Wall' },
+          HasAssociations: [{ _category: { value: 'IFCMATERIAL' }, Name: { value: 'Concrete' } }],
+          IsDefinedBy: [
+            {
+              _category: { value: 'IFCELEMENTQUANTITY' },
+              Name: { value: 'Qto_WallBaseQuantities' },
+              Quantities: [{ Name: { value: 'Length' }, LengthValue: { value: localId / 2 } }],
+            },
+          ],
+        }
+      : { _category: { value: 'IFCDOOR' }, GlobalId: { value: `guid-${localId}` } };
+
+  const decode = (data: Uint8Array | undefined) => new TextDecoder().decode(data);
+
+  beforeEach(() => {
+    ifcClasses = signal(
+      new Map([
+        ['IfcWall', { name: 'IfcWall', count: 2, visible: true }],
+        ['IfcDoor', { name: 'IfcDoor', count: 1, visible: false }],
+      ])
+    );
+
+    const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', [
+      'getAllModels',
+      'getItemsByCategory',
+      'getItemsData',
+    ]);
+    fragmentsServiceSpy.getAllModels.and.returnValue([{ modelId: 'm1' }]);
+    fragmentsServiceSpy.getItemsByCategory.and.returnValue(
+      Promise.resolve(
+        new Map([
+          ['IFCWALL', [10, 11]],
+          ['IFCDOOR', [20]],
+        ])
+      )
+    );
+    fragmentsServiceSpy.getItemsData.and.callFake((_: string, localIds: number[]) =>
+      Promise.resolve(localIds.map(itemData))
+    );
+
+    const storey = node({ kind: 'spatial', localId: 4, name: 'Level 1', ifcClass: 'IfcBuildingStorey', itemIds: [4, 10, 20] });
+
+    TestBed.configureTestingModule({
+      providers: [
+        ScheduleService,
+        { provide: ErrorHandlerService, useValue: jasmine.createSpyObj('ErrorHandlerService', ['handleError']) },
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: IfcFilterService, useValue: jasmine.createSpyObj('IfcFilterService', [], { ifcClasses }) },
+        {
+          provide: SpatialTreeService,
+          useValue: jasmine.createSpyObj('SpatialTreeService', [], {
+            trees: signal([node({ children: [storey] })]),
+          }),
+        },
+      ],
+    });
+
+    service = TestBed.inject(ScheduleService);
+    fragmentsService = TestBed.inject(FragmentsService) as jasmine.SpyObj<FragmentsService>;
+    errorHandler = TestBed.inject(ErrorHandlerService) as jasmine.SpyObj<ErrorHandlerService>;
+  });
+
+  it('should load every element with its storey, type and material', async () => {
+    await service.load();
+
+    const elements = service.elements();
+    expect(elements.length).toBe(3);
+    expect(elements[0]!.properties.globalId).toBe('guid-10');
+    expect(elements[0]!.storey).toBe('Level 1');
+    expect(elements[0]!.type).toBe('Basic Wall');
+    expect(elements[0]!.material).toBe('Concrete');
+    expect(elements[1]!.storey).toBeNull();
+    expect(elements[2]!.material).toBeNull();
+    expect(service.isLoading()).toBe(false);
+  });
+
+  it('should only load again when the models changed', async () => {
+    await service.ensureLoaded();
+    await service.ensureLoaded();
+    expect(fragmentsService.getItemsByCategory).toHaveBeenCalledTimes(1);
+
+    fragmentsService.getAllModels.and.returnValue([{ modelId: 'm1' }, { modelId: 'm2' }] as unknown as FRAGS.FragmentsModel[]);
+    await service.ensureLoaded();
+    expect(fragmentsService.getItemsByCategory).toHaveBeenCalledTimes(3);
+  });
+
+  it('should offer the quantities as columns', async () => {
+    await service.load();
+
+    expect(service.columns().map((column) => column.label)).toContain('Qto_WallBaseQuantities.Length');
+  });
+
+  it('should export the selected columns as CSV', async () => {
+    await service.load();
+
+    const result = await service.export(options);
+    const lines = decode(result.data).replace('\uFEFF', '').split('\n');
+
+    expect(result.success).toBe(true);
+    expect(lines[0]).toBe('GlobalId,Class,Storey,Type,Qto_WallBaseQuantities.Length');
+    expect(lines[1]).toBe('guid-10,IfcWall,Level 1,Basic Wall,5');
+    expect(lines[3]).toBe('guid-20,IfcDoor,Level 1,,');
+  });
+
+  it('should leave out hidden classes when requested', async () => {
+    await service.load();
+
+    const result = await service.export({ ...options, excludeHiddenClasses: true });
+
+    expect(decode(result.data)).not.toContain('IfcDoor');
+    expect(service.getElementCount(true)).toBe(2);
+    expect(service.getElementCount(false)).toBe(3);
+  });
+
+  it('should export an XLSX workbook', async () => {
+    await service.load();
+
+    const result = await service.export({ ...options, format: 'xlsx' });
+    const sheet = strFromU8(unzipSync(result.data!)['xl/worksheets/sheet1.xml']!);
+
+    expect(sheet).toContain('guid-11');
+    expect(sheet).toContain('<v>5.5</v>');
+  });
+
+  it('should fail without columns or elements', async () => {
+    expect((await service.export(options)).error).toBe('No elements to export');
+
+    await service.load();
+
+    expect((await service.export({ ...options, columns: [] })).error).toBe('No columns selected');
+  });
+
+  it('should report loading errors', async () => {
+    fragmentsService.getItemsData.and.returnValue(Promise.reject(new Error('worker failed')));
+
+    await service.load();
+
+    expect(service.elements()).toEqual([]);
+    expect(errorHandler.handleError).toHaveBeenCalled();
+  });
+});
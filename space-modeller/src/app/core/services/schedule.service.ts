@@ -0,0 +1,178 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { IfcFilterService } from './ifc-filter.service';
+import { SpatialTreeService } from './spatial-tree.service';
+import { ExportResult } from '../../shared/models/ifc.model';
+import { ScheduleColumn, ScheduleElement, ScheduleExportOptions } from '../../shared/models/export.model';
+import { SCHEDULE_CONFIG } from '../../shared/constants/viewer.constants';
+import { getElementMaterialName, getElementTypeName, parseElementProperties } from '../../shared/utils/ifc.utils';
+import { getStoreyNames } from '../../shared/utils/spatial.utils';
+import { getScheduleColumns, toScheduleTable } from '../../shared/utils/schedule.utils';
+import { encodeCsv, toCsv } from '../../shared/utils/csv.utils';
+import { writeXlsx } from '../../shared/utils/xlsx.utils';
+
+/**
+ * Service for exporting element schedules (one row per element) as CSV or XLSX
+ *
+ * Features:
+ * - GlobalId, class, name, storey, type and material of every element of the loaded models
+ * - Every property and quantity found on the elements as an optional column
+ * - Leaves out the classes hidden in the class filter on request
+ *
+ * @example
+ * ```typescript
+ * await this.scheduleService.load();
+ *
+ * const result = await this.scheduleService.export({
+ *   format: 'xlsx',
+ *   columns: ['globalId', 'ifcClass', 'name', 'quantity:Qto_WallBaseQuantities.Length'],
+ *   excludeHiddenClasses: true,
+ * });
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ScheduleService {
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly ifcFilterService = inject(IfcFilterService);
+  private readonly spatialTreeService = inject(SpatialTreeService);
+
+  // State
+  readonly elements = signal<ScheduleElement[]>([]);
+  readonly isLoading = signal<boolean>(false);
+  readonly columns = computed(() => getScheduleColumns(this.elements()));
+
+  /**
+   * Load the elements of every loaded model with their properties, storey, type and material
+   */
+  async load(): Promise<void> {
+    this.isLoading.set(true);
+
+    try {
+      const elements: ScheduleElement[] = [];
+
+      for (const model of this.fragmentsService.getAllModels()) {
+        const tree = this.spatialTreeService.trees().find((node) => node.modelId === model.modelId);
+        const storeys = tree ? getStoreyNames(tree) : new Map<number, string>();
+
+        for (const localIds of (await this.fragmentsService.getItemsByCategory(model.modelId)).values()) {
+          for (let start = 0; start < localIds.length; start += SCHEDULE_CONFIG.batchSize) {
+            const batch = localIds.slice(start, start + SCHEDULE_CONFIG.batchSize);
+            const data = await this.fragmentsService.getItemsData(model.modelId, batch, {
+              attributesDefault: true,
+              relations: {
+                IsDefinedBy: { attributes: true, relations: true },
+                HasAssociations: { attributes: true, relations: false },
+              },
+            });
+
+            data.forEach((item, index) => {
+              const localId = batch[index]!;
+              elements.push({
+                properties: parseElementProperties(item, model.modelId, localId),
+                storey: storeys.get(localId) ?? null,
+                type: getElementTypeName(item),
+                material: getElementMaterialName(item),
+              });
+            });
+          }
+        }
+      }
+
+      this.elements.set(elements);
+      console.log(`📋 Schedule loaded: ${elements.length} elements, ${this.columns().length} columns`);
+    } catch (error) {
+      this.elements.set([]);
+      this.errorHandler.handleError(error, ErrorSeverity.ERROR, {
+        operation: 'loadSchedule',
+      });
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  /**
+   * Load the elements unless they are loaded for the current models
+   */
+  async ensureLoaded(): Promise<void> {
+    const loaded = new Set(this.elements().map((element) => element.properties.modelId));
+    const modelIds = this.fragmentsService.getAllModels().map((model) => model.modelId);
+    if (loaded.size === modelIds.length && modelIds.every((modelId) => loaded.has(modelId))) {
+      return;
+    }
+
+    await this.load();
+  }
+
+  /**
+   * Number of loaded elements that an export would include
+   * @param excludeHiddenClasses - Leave out the classes hidden in the class filter
+   */
+  getElementCount(excludeHiddenClasses: boolean): number {
+    return this.getElements(excludeHiddenClasses).length;
+  }
+
+  /**
+   * Export the loaded elements
+   * @param options - Format, columns and class filtering
+   * @returns Export result with the file contents
+   */
+  async export(options: ScheduleExportOptions): Promise<ExportResult> {
+    const startTime = performance.now();
+
+    try {
+      const available = new Map(this.columns().map((column) => [column.key, column]));
+      const columns = options.columns
+        .map((key) => available.get(key))
+        .filter((column): column is ScheduleColumn => column !== undefined);
+      if (columns.length === 0) {
+        return { success: false, error: 'No columns selected' };
+      }
+
+      const elements = this.getElements(options.excludeHiddenClasses);
+      if (elements.length === 0) {
+        return { success: false, error: 'No elements to export' };
+      }
+
+      const table = toScheduleTable(elements, columns);
+      const data =
+        options.format === 'xlsx' ? writeXlsx(SCHEDULE_CONFIG.sheetName, table) : encodeCsv(toCsv(table));
+      const duration = Math.round(performance.now() - startTime);
+
+      console.log(`✓ Schedule exported: ${elements.length} rows, ${columns.length} columns in ${duration}ms`);
+
+      return {
+        success: true,
+        data,
+        fileSize: data.byteLength,
+        duration,
+      };
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.ERROR, {
+        operation: 'exportSchedule',
+        format: options.format,
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration: Math.round(performance.now() - startTime),
+      };
+    }
+  }
+
+  /**
+   * Loaded elements, without the classes hidden in the class filter on request
+   */
+  private getElements(excludeHiddenClasses: boolean): ScheduleElement[] {
+    if (!excludeHiddenClasses) {
+      return this.elements();
+    }
+
+    const classes = this.ifcFilterService.ifcClasses();
+    return this.elements().filter((element) => classes.get(element.properties.ifcClass)?.visible !== false);
+  }
+}
@@ -0,0 +1,145 @@
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+import { SelectionService } from './selection.service';
+import { FragmentsService } from './fragments.service';
+import { ErrorHandlerService } from './error-handler.service';
+
+describe('SelectionService', () => {
+  let service: SelectionService;
+  let fragmentsService: jasmine.SpyObj<FragmentsService>;
+
+  const camera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000);
+  const canvas = document.createElement('canvas');
+  const mouse = new THREE.Vector2(100, 100);
+
+  const itemData = {
+    _category: { value: 'IFCDOOR' },
+    GlobalId: { value: '1hOSvn6df7F8_7GcBWlR72' },
+    Name: { value: 'Single Door' },
+  };
+
+  beforeEach(() => {
+    const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', [
+      'raycast',
+      'highlightItems',
+      'resetHighlight',
+      'getItemsData',
+    ]);
+    const errorHandlerSpy = jasmine.createSpyObj('ErrorHandlerService', ['handleError']);
+
+    fragmentsServiceSpy.highlightItems.and.returnValue(Promise.resolve());
+    fragmentsServiceSpy.resetHighlight.and.returnValue(Promise.resolve());
+    fragmentsServiceSpy.getItemsData.and.returnValue(Promise.resolve([itemData]));
+
+    TestBed.configureTestingModule({
+      providers: [
+        SelectionService,
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: ErrorHandlerService, useValue: errorHandlerSpy },
+      ],
+    });
+
+    service = TestBed.inject(SelectionService);
+    fragmentsService = TestBed.inject(FragmentsService) as jasmine.SpyObj<FragmentsService>;
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+    expect(service.hasSelection()).toBe(false);
+  });
+
+  describe('select', () => {
+    it('should highlight the element and load its properties', async () => {
+      await service.select('model-1', 12);
+
+      expect(service.selection()).toEqual({ modelId: 'model-1', localId: 12 });
+      expect(fragmentsService.highlightItems).toHaveBeenCalledWith(
+        'model-1',
+        [12],
+        jasmine.any(Object)
+      );
+      expect(service.properties()?.globalId).toBe('1hOSvn6df7F8_7GcBWlR72');
+      expect(service.properties()?.name).toBe('Single Door');
+      expect(service.properties()?.ifcClass).toBe('IfcDoor');
+      expect(service.isLoadingProperties()).toBe(false);
+    });
+
+    it('should request property and quantity sets', async () => {
+      await service.select('model-1', 12);
+
+      const config = fragmentsService.getItemsData.calls.mostRecent().args[2];
+      expect(config?.relations?.['IsDefinedBy']).toEqual({ attributes: true, relations: true });
+    });
+
+    it('should reset the highlight of the previous selection', async () => {
+      await service.select('model-1', 12);
+      await service.select('model-1', 13);
+
+      expect(fragmentsService.resetHighlight).toHaveBeenCalledWith('model-1', [12]);
+      expect(service.selection()?.localId).toBe(13);
+    });
+
+    it('should ignore selecting the same element twice', async () => {
+      await service.select('model-1', 12);
+      await service.select('model-1', 12);
+
+      expect(fragmentsService.highlightItems).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('pickAt', () => {
+    it('should select the element that was hit', async () => {
+      fragmentsService.raycast.and.returnValue(
+        Promise.resolve({ localId: 5, fragments: { modelId: 'model-2' } } as any)
+      );
+
+      const result = await service.pickAt(camera, mouse, canvas);
+
+      expect(fragmentsService.raycast).toHaveBeenCalledWith(camera, mouse, canvas);
+      expect(result).toEqual({ modelId: 'model-2', localId: 5 });
+      expect(service.selection()).toEqual({ modelId: 'model-2', localId: 5 });
+    });
+
+    it('should clear the selection when nothing is hit', async () => {
+      await service.select('model-1', 12);
+      fragmentsService.raycast.and.returnValue(Promise.resolve(null));
+
+      const result = await service.pickAt(camera, mouse, canvas);
+
+      expect(result).toBeNull();
+      expect(service.selection()).toBeNull();
+      expect(service.properties()).toBeNull();
+    });
+  });
+
+  describe('clearModel', () => {
+    it('should drop the selection of an unloaded model', async () => {
+      await service.select('model-1', 12);
+
+      service.clearModel('model-1');
+
+      expect(service.selection()).toBeNull();
+    });
+
+    it('should keep the selection of other models', async () => {
+      await service.select('model-1', 12);
+
+      service.clearModel('model-2');
+
+      expect(service.selection()).not.toBeNull();
+    });
+  });
+
+  describe('refreshHighlight', () => {
+    it('should highlight the selected element again', async () => {
+      await service.refreshHighlight();
+      expect(fragmentsService.highlightItems).not.toHaveBeenCalled();
+
+      await service.select('model-1', 12);
+      await service.refreshHighlight();
+
+      expect(fragmentsService.highlightItems).toHaveBeenCalledTimes(2);
+      expect(fragmentsService.highlightItems.calls.mostRecent().args[1]).toEqual([12]);
+    });
+  });
+});
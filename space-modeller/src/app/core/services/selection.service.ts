@@ -0,0 +1,200 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import * as THREE from 'three';
+import * as FRAGS from '@thatopen/fragments';
+import { FragmentsService } from './fragments.service';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import { ElementProperties, ElementReference } from '../../shared/models/selection.model';
+import { SELECTION_CONFIG } from '../../shared/constants/viewer.constants';
+import { parseElementProperties } from '../../shared/utils/ifc.utils';
+
+/**
+ * Service for picking elements in the viewport and inspecting their properties
+ *
+ * Features:
+ * - Raycast picking against every visible model
+ * - Highlight of the selected element
+ * - GlobalId, Name, IFC class, property sets and quantity sets of the selection
+ *
+ * @example
+ * ```typescript
+ * constructor(private selectionService: SelectionService) {}
+ *
+ * await this.selectionService.pickAt(camera, new THREE.Vector2(event.clientX, event.clientY), canvas);
+ * const properties = this.selectionService.properties();
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SelectionService {
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly errorHandler = inject(ErrorHandlerService);
+
+  private readonly highlightMaterial: FRAGS.MaterialDefinition = {
+    color: new THREE.Color(SELECTION_CONFIG.highlightColor),
+    renderedFaces: FRAGS.RenderedFaces.TWO,
+    opacity: SELECTION_CONFIG.highlightOpacity,
+    transparent: SELECTION_CONFIG.highlightOpacity < 1,
+  };
+
+  // Incremented on every selection change so stale property requests are dropped
+  private requestId = 0;
+
+  // Signals for reactive state
+  readonly selection = signal<ElementReference | null>(null);
+  readonly properties = signal<ElementProperties | null>(null);
+  readonly isLoadingProperties = signal<boolean>(false);
+  readonly hasSelection = computed(() => this.selection() !== null);
+
+  /**
+   * Pick the element under the pointer and select it
+   * Clears the selection when nothing is hit
+   *
+   * @param camera - Active camera
+   * @param mouse - Pointer position in client (CSS pixel) coordinates
+   * @param dom - Canvas the scene is rendered into
+   * @returns The picked element or null
+   */
+  async pickAt(
+    camera: THREE.PerspectiveCamera | THREE.OrthographicCamera,
+    mouse: THREE.Vector2,
+    dom: HTMLCanvasElement
+  ): Promise<ElementReference | null> {
+    try {
+      const hit = await this.fragmentsService.raycast(camera, mouse, dom);
+      if (!hit) {
+        await this.clearSelection();
+        return null;
+      }
+
+      const element: ElementReference = { modelId: hit.fragments.modelId, localId: hit.localId };
+      await this.select(element.modelId, element.localId);
+      return element;
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'pickAt',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Select an element, highlight it and load its properties
+   * @param modelId - Fragment model UUID
+   * @param localId - Local ID of the item (expressID)
+   */
+  async select(modelId: string, localId: number): Promise<void> {
+    const current = this.selection();
+    if (current?.modelId === modelId && current.localId === localId) {
+      return;
+    }
+
+    await this.resetCurrentHighlight();
+
+    const requestId = ++this.requestId;
+    this.selection.set({ modelId, localId });
+    this.properties.set(null);
+    this.isLoadingProperties.set(true);
+
+    console.log(`🔍 Selected element ${localId} in model ${modelId}`);
+
+    try {
+      await this.fragmentsService.highlightItems(modelId, [localId], this.highlightMaterial);
+
+      const [data] = await this.fragmentsService.getItemsData(modelId, [localId], {
+        attributesDefault: true,
+        relations: {
+          IsDefinedBy: { attributes: true, relations: true },
+        },
+      });
+
+      if (requestId !== this.requestId) {
+        return;
+      }
+
+      this.properties.set(data ? parseElementProperties(data, modelId, localId) : null);
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'select',
+        modelId,
+        localId,
+      });
+    } finally {
+      if (requestId === this.requestId) {
+        this.isLoadingProperties.set(false);
+      }
+    }
+  }
+
+  /**
+   * Clear the selection and remove its highlight
+   */
+  async clearSelection(): Promise<void> {
+    if (!this.selection()) {
+      return;
+    }
+
+    await this.resetCurrentHighlight();
+    this.resetState();
+  }
+
+  /**
+   * Highlight the selected element again
+   * Used after other highlights of the element were reset or painted over it
+   */
+  async refreshHighlight(): Promise<void> {
+    const current = this.selection();
+    if (!current) {
+      return;
+    }
+
+    try {
+      await this.fragmentsService.highlightItems(current.modelId, [current.localId], this.highlightMaterial);
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.INFO, {
+        operation: 'refreshHighlight',
+        modelId: current.modelId,
+      });
+    }
+  }
+
+  /**
+   * Drop the selection if it belongs to a model that is being unloaded
+   * The highlight is not reset because the model is disposed anyway
+   * @param modelId - Fragment model UUID
+   */
+  clearModel(modelId: string): void {
+    if (this.selection()?.modelId === modelId) {
+      this.resetState();
+    }
+  }
+
+  /**
+   * Remove the highlight of the current selection
+   */
+  private async resetCurrentHighlight(): Promise<void> {
+    const current = this.selection();
+    if (!current) {
+      return;
+    }
+
+    try {
+      await this.fragmentsService.resetHighlight(current.modelId, [current.localId]);
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.INFO, {
+        operation: 'resetHighlight',
+        modelId: current.modelId,
+      });
+    }
+  }
+
+  /**
+   * Reset the selection signals
+   */
+  private resetState(): void {
+    this.requestId++;
+    this.selection.set(null);
+    this.properties.set(null);
+    this.isLoadingProperties.set(false);
+  }
+}
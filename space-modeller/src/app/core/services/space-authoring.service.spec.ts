@@ -0,0 +1,249 @@
+import { TestBed } from '@angular/core/testing';
+import { WritableSignal, computed, signal } from '@angular/core';
+import * as THREE from 'three';
+import { SpaceAuthoringService } from './space-authoring.service';
+import { ErrorHandlerService } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { IfcFilterService } from './ifc-filter.service';
+import { PlanService } from './plan.service';
+import { DrawingPoint } from '../../shared/models/drawing.model';
+import { PlanStorey } from '../../shared/models/plan.model';
+import { SPACE_AUTHORING_CONFIG } from '../../shared/constants/viewer.constants';
+import { getOutlineArea, getSpaceStorageKey } from '../../shared/utils/space-authoring.utils';
+
+describe('SpaceAuthoringService', () => {
+  let service: SpaceAuthoringService;
+  let planService: jasmine.SpyObj<PlanService>;
+  let ifcFilterService: jasmine.SpyObj<IfcFilterService>;
+  let activeStorey: WritableSignal<PlanStorey | null>;
+  let camera: THREE.OrthographicCamera;
+
+  const ground: PlanStorey = { key: 'm1:1', modelId: 'm1', localId: 1, name: 'Ground', elevation: 0 };
+  const level1: PlanStorey = { key: 'm1:2', modelId: 'm1', localId: 2, name: 'Level 1', elevation: 3.5 };
+
+  // 100 x 100 pixel canvas showing the plan from -50 to 50 meters around the origin
+  const dom = { getBoundingClientRect: () => ({ left: 0, top: 0, width: 100, height: 100 }) } as HTMLCanvasElement;
+  const click = (x: number, y: number) => service.pickAt(camera, new THREE.Vector2(50 + x, 50 - y), dom);
+
+  const drawRectangle = async (x: number, y: number, width: number, depth: number) => {
+    await click(x, y);
+    await click(x + width, y);
+    await click(x + width, y + depth);
+    await click(x, y + depth);
+    return click(x, y);
+  };
+
+  const walls = (corners: DrawingPoint[]) =>
+    corners.map((point, index) => [point, corners[(index + 1) % corners.length]!]);
+
+  beforeEach(() => {
+    localStorage.removeItem(getSpaceStorageKey('tower.ifc'));
+    activeStorey = signal<PlanStorey | null>(ground);
+    camera = new THREE.OrthographicCamera(-50, 50, 50, -50, 0.1, 1000);
+    camera.up.set(0, 0, -1);
+    camera.position.set(0, 100, 0);
+    camera.lookAt(0, 0, 0);
+    camera.updateMatrixWorld();
+
+    const planServiceSpy = jasmine.createSpyObj('PlanService', ['getCutEdges'], {
+      activeStorey,
+      isActive: computed(() => activeStorey() !== null),
+      storeys: signal([ground, level1]),
+    });
+    planServiceSpy.getCutEdges.and.returnValue(
+      Promise.resolve(
+        walls([
+          { x: 0, y: 0 },
+          { x: 4, y: 0 },
+          { x: 4, y: 3 },
+          { x: 0, y: 3 },
+        ])
+      )
+    );
+
+    const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', ['getItemGuids']);
+    fragmentsServiceSpy.getItemGuids.and.returnValue(Promise.resolve(['storey-guid']));
+
+    const ifcFilterServiceSpy = jasmine.createSpyObj('IfcFilterService', [
+      'setExternalClassCount',
+      'setClassVisibility',
+    ]);
+    ifcFilterServiceSpy.setClassVisibility.and.returnValue(Promise.resolve());
+
+    TestBed.configureTestingModule({
+      providers: [
+        SpaceAuthoringService,
+        { provide: ErrorHandlerService, useValue: jasmine.createSpyObj('ErrorHandlerService', ['handleError']) },
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: IfcFilterService, useValue: ifcFilterServiceSpy },
+        { provide: PlanService, useValue: planServiceSpy },
+      ],
+    });
+
+    service = TestBed.inject(SpaceAuthoringService);
+    planService = TestBed.inject(PlanService) as jasmine.SpyObj<PlanService>;
+    ifcFilterService = TestBed.inject(IfcFilterService) as jasmine.SpyObj<IfcFilterService>;
+    service.loadModel('m1', 'tower.ifc');
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(getSpaceStorageKey('tower.ifc'));
+  });
+
+  it('should need a storey plan to author spaces', () => {
+    activeStorey.set(null);
+
+    service.setTool('draw');
+
+    expect(service.isActive()).toBe(false);
+    expect(service.error()).toContain('storey plan');
+  });
+
+  it('should create a room by clicking its corners and the first corner again', async () => {
+    service.setTool('draw');
+
+    const [space] = await drawRectangle(0, 0, 4, 3);
+
+    expect(space!.number).toBe('1');
+    expect(space!.name).toBe('Room 1');
+    expect(space!.storey).toBe('Ground');
+    expect(space!.storeyGlobalId).toBe('storey-guid');
+    expect(space!.height).toBeCloseTo(3.5);
+    expect(getOutlineArea(space!.outline)).toBeCloseTo(12);
+    expect(service.draftPointCount()).toBe(0);
+    expect(ifcFilterService.setExternalClassCount).toHaveBeenCalledWith('authored-spaces', 'IfcSpace', 1);
+    expect(ifcFilterService.setClassVisibility).toHaveBeenCalledWith('IfcSpace', true);
+  });
+
+  it('should close an outline on finish', async () => {
+    service.setTool('draw');
+    await click(0, 0);
+    await click(2, 0);
+    await click(2, 2);
+
+    const space = await service.finishDraft();
+
+    expect(getOutlineArea(space!.outline)).toBeCloseTo(2);
+  });
+
+  it('should detect the room enclosed by walls', async () => {
+    service.setTool('detect');
+
+    const [space] = await click(1, 1);
+
+    expect(planService.getCutEdges).toHaveBeenCalled();
+    expect(getOutlineArea(space!.outline)).toBeGreaterThan(11);
+  });
+
+  it('should report points outside an enclosed area', async () => {
+    service.setTool('detect');
+
+    expect(await click(10, 10)).toEqual([]);
+    expect(service.error()).toContain('No area enclosed');
+  });
+
+  it('should store the rooms per model file and read them again', async () => {
+    service.setTool('draw');
+    await drawRectangle(0, 0, 4, 3);
+
+    service.removeModel('m1');
+    expect(service.spaces()).toEqual([]);
+
+    service.loadModel('m2', 'tower.ifc');
+    expect(service.spaces().length).toBe(1);
+    expect(service.spaces()[0]!.modelId).toBe('m2');
+  });
+
+  it('should give a model file loaded twice its own copy of the rooms', async () => {
+    const scene = new THREE.Scene();
+    service.attach(scene);
+    service.setTool('draw');
+    await drawRectangle(0, 0, 4, 3);
+
+    service.loadModel('m2', 'tower.ifc');
+    const [first, second] = service.spaces();
+    expect(second!.modelId).toBe('m2');
+    expect(second!.id).not.toBe(first!.id);
+
+    service.removeModel('m1');
+
+    expect(service.spaces().map((space) => space.modelId)).toEqual(['m2']);
+    expect(scene.getObjectByName('Authored spaces')!.children.length).toBe(1);
+  });
+
+  it('should edit a room and clamp its height', async () => {
+    service.setTool('draw');
+    const [space] = await drawRectangle(0, 0, 4, 3);
+
+    const updated = service.update(space!.id, { number: ' ', name: 'Office', usage: 'Work', height: 100 });
+
+    expect(updated!.number).toBe('1');
+    expect(updated!.name).toBe('Office');
+    expect(updated!.usage).toBe('Work');
+    expect(updated!.height).toBe(20);
+    expect(localStorage.getItem(getSpaceStorageKey('tower.ifc'))).toContain('Office');
+  });
+
+  it('should split a room and merge the parts again', async () => {
+    service.setTool('draw');
+    const [space] = await drawRectangle(0, 0, 4, 3);
+    service.setTool('split');
+
+    const parts = await click(1, -1).then(() => click(1, 5));
+
+    expect(parts.length).toBe(2);
+    expect(parts.map((part) => part.number)).toEqual(['1', '2']);
+    expect(service.storeySpaces().length).toBe(2);
+
+    const merged = service.merge(parts.map((part) => part.id));
+
+    expect(merged!.id).toBe(space!.id);
+    expect(getOutlineArea(merged!.outline)).toBeCloseTo(12);
+    expect(service.spaces().length).toBe(1);
+  });
+
+  it('should not merge rooms without a shared wall', async () => {
+    service.setTool('draw');
+    const [first] = await drawRectangle(0, 0, 2, 2);
+    const [second] = await drawRectangle(5, 0, 2, 2);
+
+    expect(service.merge([first!.id, second!.id])).toBeNull();
+    expect(service.error()).toContain('share a wall');
+    expect(service.spaces().length).toBe(2);
+  });
+
+  it('should list the rooms of the active storey', async () => {
+    service.setTool('draw');
+    await drawRectangle(0, 0, 2, 2);
+
+    activeStorey.set(level1);
+
+    expect(service.spaces().length).toBe(1);
+    expect(service.storeySpaces()).toEqual([]);
+  });
+
+  it('should fill rooms with overlay colors', async () => {
+    const scene = new THREE.Scene();
+    service.attach(scene);
+    service.setTool('draw');
+    const [space] = await drawRectangle(0, 0, 2, 2);
+    const mesh = () => scene.getObjectByName(`Space ${space!.number}`)!.children[0] as THREE.Mesh;
+
+    service.setSpaceColors(new Map([[space!.id, '#ff0000']]));
+    expect((mesh().material as THREE.MeshBasicMaterial).color.getHexString()).toBe('ff0000');
+
+    service.setSpaceColors(new Map());
+    expect((mesh().material as THREE.MeshBasicMaterial).color.getHex()).toBe(SPACE_AUTHORING_CONFIG.fillColor);
+  });
+
+  it('should delete a room', async () => {
+    service.setTool('draw');
+    const [space] = await drawRectangle(0, 0, 2, 2);
+
+    service.remove(space!.id);
+
+    expect(service.spaces()).toEqual([]);
+    expect(localStorage.getItem(getSpaceStorageKey('tower.ifc'))).toBeNull();
+    expect(ifcFilterService.setExternalClassCount).toHaveBeenCalledWith('authored-spaces', 'IfcSpace', 0);
+  });
+});
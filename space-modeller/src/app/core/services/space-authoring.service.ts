@@ -0,0 +1,721 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import * as THREE from 'three';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { IfcFilterService } from './ifc-filter.service';
+import { PlanService } from './plan.service';
+import { DrawingPoint } from '../../shared/models/drawing.model';
+import { PlanStorey } from '../../shared/models/plan.model';
+import {
+  AuthoredSpace,
+  AuthoredSpaceChanges,
+  SpaceAuthoringTool,
+} from '../../shared/models/space.model';
+import { SPACE_AUTHORING_CONFIG } from '../../shared/constants/viewer.constants';
+import {
+  detectEnclosedOutline,
+  extrudeOutline,
+  getNextSpaceNumber,
+  getSpaceStorageKey,
+  getStoreyHeight,
+  mergeOutlines,
+  normalizeOutline,
+  parseAuthoredSpaces,
+  splitOutline,
+  toStoredSpaces,
+} from '../../shared/utils/space-authoring.utils';
+
+/**
+ * Authored space with its viewport objects
+ */
+interface SpaceEntry {
+  space: AuthoredSpace;
+  group: THREE.Group;
+  mesh: THREE.Mesh;
+}
+
+/**
+ * Source name of the authored spaces in the IFC class filter
+ */
+const FILTER_SOURCE = 'authored-spaces';
+
+/**
+ * Service for drawing spaces on storey plans
+ *
+ * Features:
+ * - Draw a room outline by clicking its corners
+ * - Detect the area enclosed by walls around a clicked point
+ * - Rooms are extruded from the storey elevation to the storey above
+ * - Room number, name, usage and height are editable
+ * - Split a room along a line and merge adjacent rooms
+ * - Stored per model file (content hash) in local storage and counted as IfcSpace in the class filter
+ * - Overlay fill colors per room (zones)
+ *
+ * Rooms live in a group of the viewer scene, the draft outline in an overlay scene
+ * rendered on top of the model.
+ *
+ * @example
+ * ```typescript
+ * this.spaceAuthoring.attach(scene);
+ * this.spaceAuthoring.loadModel(modelId, fileHash);
+ *
+ * this.spaceAuthoring.setTool('draw');
+ * await this.spaceAuthoring.pickAt(camera, new THREE.Vector2(event.clientX, event.clientY), canvas);
+ *
+ * // In the render loop, after rendering the scene
+ * this.spaceAuthoring.renderOverlay(renderer, camera);
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SpaceAuthoringService {
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly ifcFilterService = inject(IfcFilterService);
+  private readonly planService = inject(PlanService);
+
+  // Three.js objects
+  private readonly group = new THREE.Group();
+  private readonly overlay = new THREE.Scene();
+  private readonly raycaster = new THREE.Raycaster();
+  private readonly fillMaterial = new THREE.MeshBasicMaterial({
+    color: SPACE_AUTHORING_CONFIG.fillColor,
+    transparent: true,
+    opacity: SPACE_AUTHORING_CONFIG.fillOpacity,
+    side: THREE.DoubleSide,
+    depthWrite: false,
+  });
+  private readonly selectedMaterial = new THREE.MeshBasicMaterial({
+    color: SPACE_AUTHORING_CONFIG.selectedColor,
+    transparent: true,
+    opacity: SPACE_AUTHORING_CONFIG.fillOpacity,
+    side: THREE.DoubleSide,
+    depthWrite: false,
+  });
+  private readonly lineMaterial = new THREE.LineBasicMaterial({ color: SPACE_AUTHORING_CONFIG.lineColor });
+  private readonly draftLineMaterial = new THREE.LineBasicMaterial({
+    color: SPACE_AUTHORING_CONFIG.draftColor,
+    depthTest: false,
+  });
+  private readonly draftPointMaterial = new THREE.PointsMaterial({
+    color: SPACE_AUTHORING_CONFIG.draftColor,
+    size: SPACE_AUTHORING_CONFIG.pointSize,
+    sizeAttenuation: false,
+    depthTest: false,
+  });
+  private readonly draftLine = new THREE.Line(new THREE.BufferGeometry(), this.draftLineMaterial);
+  private readonly draftPoints = new THREE.Points(new THREE.BufferGeometry(), this.draftPointMaterial);
+  private readonly colorMaterials = new Map<string, THREE.MeshBasicMaterial>(); // space id -> overlay color
+
+  // State
+  private readonly entries = new Map<string, SpaceEntry>();
+  private readonly modelKeys = new Map<string, string>(); // modelId -> content hash or name (storage key)
+  private draft: DrawingPoint[] = [];
+  private hoverPoint: DrawingPoint | null = null;
+  // Incremented when the draft is committed or cancelled so late picks are dropped
+  private draftVersion = 0;
+
+  // Signals for reactive state
+  readonly tool = signal<SpaceAuthoringTool | null>(null);
+  readonly spaces = signal<AuthoredSpace[]>([]);
+  readonly selectedIds = signal<string[]>([]);
+  readonly draftPointCount = signal<number>(0);
+  readonly error = signal<string | null>(null);
+  readonly isActive = computed(() => this.tool() !== null);
+  readonly canFinish = computed(() => this.tool() === 'draw' && this.draftPointCount() >= 3);
+  readonly storeySpaces = computed(() => {
+    const storey = this.planService.activeStorey();
+    return storey ? this.spaces().filter((space) => this.isOnStorey(space, storey)) : [];
+  });
+
+  constructor() {
+    this.group.name = 'Authored spaces';
+    [this.draftLine, this.draftPoints].forEach((object) => {
+      object.renderOrder = 2;
+      object.visible = false;
+      this.overlay.add(object);
+    });
+  }
+
+  /**
+   * Add the rooms to the viewer scene
+   * @param scene - Viewer scene
+   */
+  attach(scene: THREE.Scene): void {
+    scene.add(this.group);
+    console.log('✓ Space authoring attached');
+  }
+
+  /**
+   * Show or hide every room (rooms follow the IfcSpace class filter)
+   * @param visible - Whether the rooms are shown
+   */
+  setVisible(visible: boolean): void {
+    this.group.visible = visible;
+  }
+
+  /**
+   * Fill rooms with overlay colors (e.g. their zone), the other rooms keep the default fill
+   * @param colors - Hex color per space ID (empty to restore the default fill)
+   */
+  setSpaceColors(colors: Map<string, string>): void {
+    new Set(this.colorMaterials.values()).forEach((material) => material.dispose());
+    this.colorMaterials.clear();
+
+    const materials = new Map<string, THREE.MeshBasicMaterial>();
+    colors.forEach((color, id) => {
+      const material = materials.get(color) ?? this.fillMaterial.clone();
+      material.color.set(color);
+      materials.set(color, material);
+      this.colorMaterials.set(id, material);
+    });
+    this.updateSelection();
+  }
+
+  /**
+   * Read the rooms stored for a loaded model
+   * A file loaded twice gets its own copy of the rooms, with new IDs
+   * @param modelId - Fragment model UUID
+   * @param modelKey - Content hash of the model file the rooms are stored by (its name if it could not be hashed)
+   */
+  loadModel(modelId: string, modelKey: string): void {
+    this.modelKeys.set(modelId, modelKey);
+
+    try {
+      const stored = localStorage.getItem(getSpaceStorageKey(modelKey));
+      const spaces = (stored ? parseAuthoredSpaces(stored, modelId) : []).map((space) =>
+        this.entries.has(space.id) ? { ...space, id: crypto.randomUUID() } : space
+      );
+      spaces.forEach((space) => this.addEntry(space));
+      this.sync();
+
+      if (spaces.length > 0) {
+        console.log(`🏠 Loaded ${spaces.length} authored spaces`);
+      }
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'loadAuthoredSpaces',
+        modelKey,
+      });
+    }
+  }
+
+  /**
+   * Remove the rooms of an unloaded model (they stay stored)
+   * @param modelId - Fragment model UUID
+   */
+  removeModel(modelId: string): void {
+    this.modelKeys.delete(modelId);
+
+    const removed = Array.from(this.entries.values()).filter((entry) => entry.space.modelId === modelId);
+    if (removed.length === 0) {
+      return;
+    }
+
+    removed.forEach((entry) => this.removeEntry(entry.space.id));
+    this.cancelDraft();
+    this.sync();
+  }
+
+  /**
+   * Change the authoring tool (cancels an unfinished outline)
+   * Tools need a storey shown as floor plan
+   * @param tool - Authoring tool, null to stop authoring
+   */
+  setTool(tool: SpaceAuthoringTool | null): void {
+    this.cancelDraft();
+    this.clearHover();
+    this.error.set(null);
+
+    if (tool && !this.planService.isActive()) {
+      this.error.set('Show a storey plan to draw spaces');
+      this.tool.set(null);
+      return;
+    }
+    this.tool.set(tool);
+  }
+
+  /**
+   * Use the current tool at a pointer position
+   * @param camera - Active camera
+   * @param mouse - Pointer position in client (CSS pixel) coordinates
+   * @param dom - Canvas the scene is rendered into
+   * @returns Rooms created or changed by this click (empty while an outline is drawn)
+   */
+  async pickAt(
+    camera: THREE.PerspectiveCamera | THREE.OrthographicCamera,
+    mouse: THREE.Vector2,
+    dom: HTMLCanvasElement
+  ): Promise<AuthoredSpace[]> {
+    const tool = this.tool();
+    const storey = this.planService.activeStorey();
+    const point = storey ? this.getPlanPoint(camera, mouse, dom, storey.elevation) : null;
+    if (!tool || !storey || !point) {
+      return [];
+    }
+
+    this.error.set(null);
+    try {
+      switch (tool) {
+        case 'draw':
+          return await this.addDraftPoint(point);
+        case 'detect':
+          return await this.detectAt(storey, point);
+        case 'split':
+          return this.splitAt(storey, point);
+      }
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'authorSpace',
+        tool,
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Preview the next edge of the draft outline at a pointer position
+   * @param camera - Active camera
+   * @param mouse - Pointer position in client (CSS pixel) coordinates
+   * @param dom - Canvas the scene is rendered into
+   */
+  hover(
+    camera: THREE.PerspectiveCamera | THREE.OrthographicCamera,
+    mouse: THREE.Vector2,
+    dom: HTMLCanvasElement
+  ): void {
+    const storey = this.planService.activeStorey();
+    this.hoverPoint = storey ? this.getPlanPoint(camera, mouse, dom, storey.elevation) : null;
+    this.updateDraftObjects();
+  }
+
+  /**
+   * Hide the preview of the next edge
+   */
+  clearHover(): void {
+    this.hoverPoint = null;
+    this.updateDraftObjects();
+  }
+
+  /**
+   * Close the drawn outline into a room
+   * @returns The room or null if the outline has no area
+   */
+  async finishDraft(): Promise<AuthoredSpace | null> {
+    const storey = this.planService.activeStorey();
+    if (this.tool() !== 'draw' || !storey || this.draft.length < 3) {
+      return null;
+    }
+
+    const outline = normalizeOutline(this.draft);
+    this.cancelDraft();
+    if (!outline) {
+      this.error.set('The outline encloses no area');
+      return null;
+    }
+    return this.createSpace(storey, outline);
+  }
+
+  /**
+   * Drop the points of an unfinished outline or split line
+   */
+  cancelDraft(): void {
+    this.draftVersion++;
+    this.draft = [];
+    this.updateDraftObjects();
+  }
+
+  /**
+   * Edit the number, name, usage or height of a room
+   * @param id - Room ID
+   * @param changes - Changed fields (empty numbers are ignored, heights are clamped)
+   * @returns The updated room or null if not found
+   */
+  update(id: string, changes: AuthoredSpaceChanges): AuthoredSpace | null {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return null;
+    }
+
+    const space: AuthoredSpace = {
+      ...entry.space,
+      number: changes.number?.trim() || entry.space.number,
+      name: changes.name?.trim() ?? entry.space.name,
+      usage: changes.usage?.trim() ?? entry.space.usage,
+      height:
+        changes.height !== undefined && Number.isFinite(changes.height)
+          ? THREE.MathUtils.clamp(changes.height, SPACE_AUTHORING_CONFIG.minHeight, SPACE_AUTHORING_CONFIG.maxHeight)
+          : entry.space.height,
+    };
+
+    this.removeEntry(id);
+    this.addEntry(space);
+    this.commit(space.modelId);
+    return space;
+  }
+
+  /**
+   * Delete a room
+   * @param id - Room ID
+   */
+  remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+
+    this.removeEntry(id);
+    this.commit(entry.space.modelId);
+    console.log(`🗑️ Space ${entry.space.number} deleted`);
+  }
+
+  /**
+   * Merge rooms of the same storey sharing walls into the first one
+   * @param ids - Room IDs in merge order
+   * @returns The merged room or null if the rooms cannot be merged
+   */
+  merge(ids: string[]): AuthoredSpace | null {
+    const spaces = ids
+      .map((id) => this.entries.get(id)?.space)
+      .filter((space): space is AuthoredSpace => !!space);
+    const first = spaces[0];
+    if (!first || spaces.length < 2) {
+      return null;
+    }
+    if (spaces.some((space) => space.modelId !== first.modelId || space.storey !== first.storey)) {
+      this.error.set('Only rooms of the same storey can be merged');
+      return null;
+    }
+
+    // Rooms are merged one by one with any room already merged, so the order does not matter
+    let outline = first.outline;
+    const pending = spaces.slice(1);
+    while (pending.length > 0) {
+      const index = pending.findIndex((space) => mergeOutlines(outline, space.outline) !== null);
+      if (index === -1) {
+        this.error.set('Rooms must share a wall to be merged');
+        return null;
+      }
+      outline = mergeOutlines(outline, pending.splice(index, 1)[0]!.outline)!;
+    }
+
+    const merged: AuthoredSpace = { ...first, outline };
+    spaces.forEach((space) => this.removeEntry(space.id));
+    this.addEntry(merged);
+    this.selectedIds.set([]);
+    this.error.set(null);
+    this.commit(merged.modelId);
+
+    console.log(`🏠 Merged ${spaces.length} spaces into ${merged.number}`);
+    return merged;
+  }
+
+  /**
+   * Select or deselect a room (selected rooms are highlighted and can be merged)
+   * @param id - Room ID
+   */
+  toggleSelected(id: string): void {
+    this.selectedIds.update((ids) => (ids.includes(id) ? ids.filter((item) => item !== id) : [...ids, id]));
+    this.updateSelection();
+  }
+
+  /**
+   * Render the draft outline on top of the scene
+   * @param renderer - Viewer renderer
+   * @param camera - Active camera
+   */
+  renderOverlay(
+    renderer: THREE.WebGLRenderer,
+    camera: THREE.PerspectiveCamera | THREE.OrthographicCamera
+  ): void {
+    if (!this.overlay.children.some((child) => child.visible)) {
+      return;
+    }
+
+    const clippingPlanes = renderer.clippingPlanes;
+    const autoClear = renderer.autoClear;
+
+    renderer.clippingPlanes = [];
+    renderer.autoClear = false;
+    renderer.render(this.overlay, camera);
+
+    renderer.clippingPlanes = clippingPlanes;
+    renderer.autoClear = autoClear;
+  }
+
+  /**
+   * Remove every room from the scene and release GPU resources
+   */
+  dispose(): void {
+    Array.from(this.entries.keys()).forEach((id) => this.removeEntry(id));
+    this.sync();
+    this.group.removeFromParent();
+
+    [this.draftLine, this.draftPoints].forEach((object) => object.geometry.dispose());
+    [
+      this.fillMaterial,
+      this.selectedMaterial,
+      this.lineMaterial,
+      this.draftLineMaterial,
+      this.draftPointMaterial,
+    ].forEach((material) => material.dispose());
+    this.setSpaceColors(new Map());
+  }
+
+  /**
+   * Add a corner to the drawn outline, clicking the first corner again closes it
+   */
+  private async addDraftPoint(point: DrawingPoint): Promise<AuthoredSpace[]> {
+    const first = this.draft[0];
+    if (first && this.draft.length >= 3 && distance(first, point) <= SPACE_AUTHORING_CONFIG.closeTolerance) {
+      const space = await this.finishDraft();
+      return space ? [space] : [];
+    }
+
+    // A double click adds the same point twice
+    const last = this.draft[this.draft.length - 1];
+    if (!last || distance(last, point) > SPACE_AUTHORING_CONFIG.pointTolerance) {
+      this.draft.push(point);
+      this.updateDraftObjects();
+    }
+    return [];
+  }
+
+  /**
+   * Create a room from the walls enclosing a point
+   */
+  private async detectAt(storey: PlanStorey, point: DrawingPoint): Promise<AuthoredSpace[]> {
+    const version = this.draftVersion;
+    const edges = await this.planService.getCutEdges();
+    if (version !== this.draftVersion || this.tool() !== 'detect') {
+      return [];
+    }
+
+    const outline = detectEnclosedOutline(edges, point);
+    if (!outline) {
+      this.error.set('No area enclosed by walls at this point');
+      return [];
+    }
+
+    const space = await this.createSpace(storey, outline);
+    return space ? [space] : [];
+  }
+
+  /**
+   * Collect the split line and split every room of the storey it crosses
+   */
+  private splitAt(storey: PlanStorey, point: DrawingPoint): AuthoredSpace[] {
+    const start = this.draft[0];
+    if (!start) {
+      this.draft = [point];
+      this.updateDraftObjects();
+      return [];
+    }
+    this.cancelDraft();
+
+    const changed: AuthoredSpace[] = [];
+    for (const space of this.storeySpaces()) {
+      const parts = splitOutline(space.outline, start, point);
+      if (!parts) {
+        continue;
+      }
+
+      // The first part keeps the room, the second becomes a new room with the next number
+      const [kept, added] = parts;
+      this.removeEntry(space.id);
+      const first: AuthoredSpace = { ...space, outline: kept };
+      this.addEntry(first);
+      const second: AuthoredSpace = {
+        ...space,
+        id: crypto.randomUUID(),
+        number: getNextSpaceNumber(Array.from(this.entries.values()).map((entry) => entry.space)),
+        outline: added,
+        createdAt: new Date().toISOString(),
+      };
+      this.addEntry(second);
+      changed.push(first, second);
+    }
+
+    if (changed.length === 0) {
+      this.error.set('The line does not cross a room of this storey');
+      return [];
+    }
+
+    this.commit(storey.modelId);
+    console.log(`✂️ Split ${changed.length / 2} spaces`);
+    return changed;
+  }
+
+  /**
+   * Store a new room of a storey and show it with the IfcSpace class
+   */
+  private async createSpace(storey: PlanStorey, outline: DrawingPoint[]): Promise<AuthoredSpace> {
+    const [storeyGlobalId] = await this.fragmentsService.getItemGuids(storey.modelId, [storey.localId]);
+    const number = getNextSpaceNumber(Array.from(this.entries.values()).map((entry) => entry.space));
+
+    const space: AuthoredSpace = {
+      id: crypto.randomUUID(),
+      modelId: storey.modelId,
+      storey: storey.name,
+      storeyGlobalId: storeyGlobalId ?? null,
+      number,
+      name: `Room ${number}`,
+      usage: '',
+      outline,
+      elevation: storey.elevation,
+      height: getStoreyHeight(this.planService.storeys(), storey),
+      createdAt: new Date().toISOString(),
+    };
+
+    this.addEntry(space);
+    this.commit(space.modelId);
+    await this.ifcFilterService.setClassVisibility('IfcSpace', true);
+
+    console.log(`🏠 Space ${space.number} created on ${storey.name}`);
+    return space;
+  }
+
+  /**
+   * Create the viewport objects of a room
+   */
+  private addEntry(space: AuthoredSpace): void {
+    const geometry = extrudeOutline(space.outline, space.elevation, space.height);
+    const mesh = new THREE.Mesh(geometry, this.colorMaterials.get(space.id) ?? this.fillMaterial);
+    const edges = new THREE.LineSegments(new THREE.EdgesGeometry(geometry), this.lineMaterial);
+
+    const group = new THREE.Group();
+    group.name = `Space ${space.number}`;
+    group.add(mesh, edges);
+    this.group.add(group);
+    this.entries.set(space.id, { space, group, mesh });
+  }
+
+  /**
+   * Remove the viewport objects of a room (materials are shared and kept)
+   */
+  private removeEntry(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+
+    this.group.remove(entry.group);
+    entry.group.traverse((object) => {
+      if (object instanceof THREE.Mesh || object instanceof THREE.LineSegments) {
+        object.geometry.dispose();
+      }
+    });
+    this.entries.delete(id);
+  }
+
+  /**
+   * Publish and store the rooms after a change
+   */
+  private commit(modelId: string): void {
+    this.sync();
+    this.write(modelId);
+  }
+
+  /**
+   * Publish the rooms to the signals and the class filter
+   */
+  private sync(): void {
+    const spaces = Array.from(this.entries.values()).map((entry) => entry.space);
+    this.spaces.set(spaces);
+    this.selectedIds.update((ids) => ids.filter((id) => this.entries.has(id)));
+    this.updateSelection();
+    this.ifcFilterService.setExternalClassCount(FILTER_SOURCE, 'IfcSpace', spaces.length);
+  }
+
+  /**
+   * Store the rooms of a model
+   * @returns True if stored
+   */
+  private write(modelId: string): boolean {
+    const modelKey = this.modelKeys.get(modelId);
+    if (!modelKey) {
+      console.warn('⚠️ Spaces of an unknown model are not stored');
+      return false;
+    }
+
+    try {
+      const key = getSpaceStorageKey(modelKey);
+      const spaces = this.spaces().filter((space) => space.modelId === modelId);
+      if (spaces.length > 0) {
+        localStorage.setItem(key, JSON.stringify(toStoredSpaces(spaces)));
+      } else {
+        localStorage.removeItem(key);
+      }
+      return true;
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'saveAuthoredSpaces',
+        modelKey,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Highlight the selected rooms
+   */
+  private updateSelection(): void {
+    const selected = new Set(this.selectedIds());
+    this.entries.forEach((entry, id) => {
+      entry.mesh.material = selected.has(id)
+        ? this.selectedMaterial
+        : (this.colorMaterials.get(id) ?? this.fillMaterial);
+    });
+  }
+
+  /**
+   * Whether a room lies on a storey
+   */
+  private isOnStorey(space: AuthoredSpace, storey: PlanStorey): boolean {
+    return space.modelId === storey.modelId && space.storey === storey.name;
+  }
+
+  /**
+   * Point under the pointer on the floor of the storey (plan coordinates)
+   */
+  private getPlanPoint(
+    camera: THREE.Camera,
+    mouse: THREE.Vector2,
+    dom: HTMLElement,
+    elevation: number
+  ): DrawingPoint | null {
+    const rect = dom.getBoundingClientRect();
+    const ndc = new THREE.Vector2(
+      ((mouse.x - rect.left) / rect.width) * 2 - 1,
+      -((mouse.y - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(ndc, camera);
+
+    const floor = new THREE.Plane(new THREE.Vector3(0, 1, 0), -elevation);
+    const hit = this.raycaster.ray.intersectPlane(floor, new THREE.Vector3());
+    return hit ? { x: hit.x, y: -hit.z } : null;
+  }
+
+  /**
+   * Rebuild the draft outline (including the edge to the hovered point)
+   */
+  private updateDraftObjects(): void {
+    this.draftPointCount.set(this.draft.length);
+
+    const elevation = this.planService.activeStorey()?.elevation ?? 0;
+    const toWorld = (point: DrawingPoint) => new THREE.Vector3(point.x, elevation, -point.y);
+    const preview = this.hoverPoint && this.draft.length > 0 ? [...this.draft, this.hoverPoint] : this.draft;
+
+    this.draftPoints.visible = this.draft.length > 0;
+    this.draftLine.visible = preview.length > 1;
+    this.draftPoints.geometry.dispose();
+    this.draftPoints.geometry = new THREE.BufferGeometry().setFromPoints(this.draft.map(toWorld));
+    this.draftLine.geometry.dispose();
+    this.draftLine.geometry = new THREE.BufferGeometry().setFromPoints(preview.map(toWorld));
+  }
+}
+
+function distance(a: DrawingPoint, b: DrawingPoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
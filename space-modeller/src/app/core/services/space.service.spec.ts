@@ -0,0 +1,185 @@
+import { TestBed } from '@angular/core/testing';
+import { WritableSignal, signal } from '@angular/core';
+import * as THREE from 'three';
+import type * as FRAGS from '@thatopen/fragments';
+import { SpaceService } from './space.service';
+import { ErrorHandlerService } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { ScheduleService } from './schedule.service';
+import { SpatialTreeService } from './spatial-tree.service';
+import { ScheduleElement } from '../../shared/models/export.model';
+import { ElementPropertySet } from '../../shared/models/selection.model';
+import { SpatialNode } from '../../shared/models/spatial.model';
+import { DEFAULT_PROJECT_UNITS } from '../../shared/constants/viewer.constants';
+
+describe('SpaceService', () => {
+  let service: SpaceService;
+  let fragmentsService: jasmine.SpyObj<FragmentsService>;
+  let spatialTreeService: jasmine.SpyObj<SpatialTreeService>;
+  let elements: WritableSignal<ScheduleElement[]>;
+
+  const element = (localId: number, ifcClass: string, quantitySets: ElementPropertySet[]): ScheduleElement => ({
+    properties: {
+      modelId: 'm1',
+      localId,
+      globalId: `guid-${localId}`,
+      name: `${localId}`,
+      ifcClass,
+      attributes: [],
+      propertySets: [],
+      quantitySets,
+    },
+    storey: 'Level 1',
+    type: null,
+    material: null,
+  });
+
+  const quantities: ElementPropertySet = {
+    name: 'Qto_SpaceBaseQuantities',
+    properties: [
+      { name: 'NetFloorArea', value: 20 },
+      { name: 'GrossFloorArea', value: 22 },
+      { name: 'NetVolume', value: 60 },
+      { name: 'GrossPerimeter', value: 18 },
+    ],
+  };
+
+  // 2 x 1.5 x 3 box: floor 6, volume 9, perimeter 10
+  const box = (): FRAGS.MeshData => {
+    const geometry = new THREE.BoxGeometry(2, 1.5, 3);
+    return {
+      transform: new THREE.Matrix4(),
+      positions: geometry.getAttribute('position').array as Float32Array,
+      indices: geometry.getIndex()!.array as Uint16Array,
+    };
+  };
+
+  const room: SpatialNode = {
+    key: 'm1:5',
+    modelId: 'm1',
+    localId: 5,
+    name: '5',
+    ifcClass: 'IfcSpace',
+    kind: 'spatial',
+    itemIds: [5, 50],
+    elementCount: 1,
+    children: [],
+  };
+
+  beforeEach(() => {
+    elements = signal<ScheduleElement[]>([]);
+
+    const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', ['getModel', 'getItemsGeometry', 'getProjectUnits']);
+    fragmentsServiceSpy.getProjectUnits.and.returnValue(Promise.resolve(DEFAULT_PROJECT_UNITS));
+    fragmentsServiceSpy.getModel.and.returnValue({ object: new THREE.Object3D() });
+    fragmentsServiceSpy.getItemsGeometry.and.callFake((_modelId: string, localIds: number[]) =>
+      Promise.resolve(localIds.map(() => [box()]))
+    );
+
+    const scheduleServiceSpy = jasmine.createSpyObj('ScheduleService', ['ensureLoaded'], { elements });
+    scheduleServiceSpy.ensureLoaded.and.callFake(() => {
+      elements.set([element(5, 'IfcSpace', [quantities]), element(6, 'IfcSpace', []), element(7, 'IfcWall', [])]);
+      return Promise.resolve();
+    });
+
+    const spatialTreeServiceSpy = jasmine.createSpyObj('SpatialTreeService', ['isolate'], {
+      trees: signal([{ ...room, key: 'm1', localId: null, kind: 'model', children: [room] }]),
+    });
+    spatialTreeServiceSpy.isolate.and.returnValue(Promise.resolve());
+
+    TestBed.configureTestingModule({
+      providers: [
+        SpaceService,
+        { provide: ErrorHandlerService, useValue: jasmine.createSpyObj('ErrorHandlerService', ['handleError']) },
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: ScheduleService, useValue: scheduleServiceSpy },
+        { provide: SpatialTreeService, useValue: spatialTreeServiceSpy },
+      ],
+    });
+
+    service = TestBed.inject(SpaceService);
+    fragmentsService = TestBed.inject(FragmentsService) as jasmine.SpyObj<FragmentsService>;
+    spatialTreeService = TestBed.inject(SpatialTreeService) as jasmine.SpyObj<SpatialTreeService>;
+  });
+
+  it('should be created without spaces', () => {
+    expect(service.spaces()).toEqual([]);
+    expect(service.totals().count).toBe(0);
+  });
+
+  it('should list the spaces with their quantities', async () => {
+    await service.load();
+
+    expect(service.spaces().map((space) => space.localId)).toEqual([5, 6]);
+    expect(service.spaces()[0]!.quantities).toEqual({ netFloorArea: 20, grossFloorArea: 22, volume: 60, perimeter: 18 });
+    expect(service.spaces()[0]!.computed).toEqual([]);
+  });
+
+  it('should measure only spaces without quantities from their geometry', async () => {
+    await service.load();
+
+    const measured = service.spaces()[1]!;
+    expect(fragmentsService.getItemsGeometry).toHaveBeenCalledOnceWith('m1', [6]);
+    expect(measured.quantities.netFloorArea).toBeCloseTo(6);
+    expect(measured.quantities.volume).toBeCloseTo(9);
+    expect(measured.quantities.perimeter).toBeCloseTo(10);
+    expect(measured.computed).toEqual(['netFloorArea', 'grossFloorArea', 'volume', 'perimeter']);
+    expect(service.totals().netFloorArea).toBeCloseTo(26);
+  });
+
+  it('should isolate a space with its contents', async () => {
+    await service.load();
+
+    const node = await service.isolate(service.spaces()[0]!);
+
+    expect(node).toBe(room);
+    expect(spatialTreeService.isolate).toHaveBeenCalledWith(room);
+  });
+
+  it('should isolate a space missing from the spatial tree on its own', async () => {
+    await service.load();
+
+    const node = await service.isolate(service.spaces()[1]!);
+
+    expect(node.itemIds).toEqual([6]);
+  });
+
+  it('should drop the spaces of unloaded models', async () => {
+    await service.load();
+    service.edit(service.spaces()[0]!, { longName: 'Office' });
+
+    service.removeModel('m1');
+
+    expect(service.spaces()).toEqual([]);
+    expect(service.getEditedSpaces('m1')).toEqual([]);
+  });
+
+  it('should edit a space and keep the edit when the schedule is reloaded', async () => {
+    await service.load();
+    const [first, second] = service.spaces();
+
+    service.edit(second!, { name: ' ', longName: ' Meeting ', quantities: { netFloorArea: 5.5, volume: -1 } });
+    await service.load();
+
+    const edited = service.spaces().find((space) => space.localId === 6)!;
+    expect(edited.name).toBe('6');
+    expect(edited.longName).toBe('Meeting');
+    expect(edited.quantities.netFloorArea).toBe(5.5);
+    expect(edited.quantities.volume).toBeCloseTo(9);
+    expect(edited.computed).not.toContain('netFloorArea');
+    expect(service.isEdited(edited)).toBe(true);
+    expect(service.isEdited(first!)).toBe(false);
+    expect(service.getEditedSpaces('m1')).toEqual([
+      { globalId: 'guid-6', edit: { longName: 'Meeting', quantities: { netFloorArea: 5.5 } } },
+    ]);
+  });
+
+  it('should export the room schedule as CSV', async () => {
+    await service.load();
+
+    const lines = service.exportCsv().split('\n');
+
+    expect(lines.length).toBe(4);
+    expect(lines[1]).toBe('5,,Level 1,guid-5,20,22,60,18,');
+  });
+});
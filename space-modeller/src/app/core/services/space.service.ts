@@ -0,0 +1,240 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { ScheduleService } from './schedule.service';
+import { SpatialTreeService } from './spatial-tree.service';
+import { ProjectUnits } from '../../shared/models/measurement.model';
+import { EditedSpace, SpaceEdit, SpaceQuantities, SpaceRow } from '../../shared/models/space.model';
+import { SpatialNode } from '../../shared/models/spatial.model';
+import { SPACE_CONFIG } from '../../shared/constants/viewer.constants';
+import { buildItemGeometry } from '../../shared/utils/gltf.utils';
+import {
+  applySpaceEdit,
+  getMissingSpaceQuantities,
+  getSpaceGeometryQuantities,
+  getSpaceQuantities,
+  getSpaceTotals,
+  mergeSpaceEdit,
+  sortSpaceRows,
+  spacesToCsv,
+  toSpaceRow,
+} from '../../shared/utils/space.utils';
+
+/**
+ * Service for the room schedule of the IfcSpace elements of the loaded models
+ *
+ * Features:
+ * - Name, long name, storey, net/gross floor area, volume and perimeter of every space
+ * - Values read from the quantity sets, computed from the geometry when missing
+ * - Name, long name, usage and quantities editable (written back by the IFC export)
+ * - Totals of areas and volumes
+ * - Isolate a room with its contents through the spatial tree
+ * - CSV export
+ *
+ * @example
+ * ```typescript
+ * await this.spaceService.load();
+ * console.log(this.spaceService.totals().netFloorArea);
+ *
+ * const node = await this.spaceService.isolate(this.spaceService.spaces()[0]);
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SpaceService {
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly scheduleService = inject(ScheduleService);
+  private readonly spatialTreeService = inject(SpatialTreeService);
+
+  // State
+  private readonly edits = new Map<string, SpaceEdit>(); // modelId:localId -> edited values
+  readonly spaces = signal<SpaceRow[]>([]);
+  readonly isLoading = signal<boolean>(false);
+  readonly totals = computed(() => getSpaceTotals(this.spaces()));
+
+  /**
+   * Load the spaces of every loaded model
+   * Geometry is only measured for spaces with missing quantities
+   */
+  async load(): Promise<void> {
+    this.isLoading.set(true);
+
+    try {
+      await this.scheduleService.ensureLoaded();
+      const elements = this.scheduleService.elements().filter((element) => element.properties.ifcClass === 'IfcSpace');
+
+      // Local IDs of spaces lacking a quantity, per model
+      const unmeasured = new Map<string, number[]>();
+      for (const { properties } of elements) {
+        if (getMissingSpaceQuantities(getSpaceQuantities(properties)).length > 0) {
+          unmeasured.set(properties.modelId, [...(unmeasured.get(properties.modelId) ?? []), properties.localId]);
+        }
+      }
+
+      const measured = new Map<string, SpaceQuantities>();
+      for (const [modelId, localIds] of unmeasured) {
+        for (const [localId, quantities] of await this.measure(modelId, localIds)) {
+          measured.set(`${modelId}:${localId}`, quantities);
+        }
+      }
+
+      // Quantity sets are stored in the project units of each model
+      const units = new Map<string, ProjectUnits>();
+      for (const modelId of new Set(elements.map((element) => element.properties.modelId))) {
+        units.set(modelId, await this.fragmentsService.getProjectUnits(modelId));
+      }
+
+      const rows = elements.map((element) => {
+        const key = `${element.properties.modelId}:${element.properties.localId}`;
+        const row = toSpaceRow(element, measured.get(key) ?? null, units.get(element.properties.modelId));
+        const edit = this.edits.get(key);
+        return edit ? applySpaceEdit(row, edit) : row;
+      });
+      this.spaces.set(sortSpaceRows(rows));
+
+      console.log(`🏠 Room schedule loaded: ${rows.length} spaces, ${measured.size} measured from geometry`);
+    } catch (error) {
+      this.spaces.set([]);
+      this.errorHandler.handleError(error, ErrorSeverity.ERROR, {
+        operation: 'loadSpaces',
+      });
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  /**
+   * Drop the spaces of an unloaded model
+   * @param modelId - Fragment model UUID
+   */
+  removeModel(modelId: string): void {
+    Array.from(this.edits.keys())
+      .filter((key) => key.startsWith(`${modelId}:`))
+      .forEach((key) => this.edits.delete(key));
+    this.spaces.update((spaces) => spaces.filter((space) => space.modelId !== modelId));
+  }
+
+  /**
+   * Edit the name, long name, usage or quantities of a space
+   * @param space - Room schedule row
+   * @param changes - Changed values (empty names and quantities that are not positive are ignored)
+   * @returns The updated row
+   */
+  edit(space: SpaceRow, changes: SpaceEdit): SpaceRow {
+    const key = this.getKey(space);
+    const edit = mergeSpaceEdit(this.edits.get(key) ?? {}, changes);
+    this.edits.set(key, edit);
+
+    const row = this.spaces().find((item) => this.getKey(item) === key) ?? space;
+    const updated = applySpaceEdit(row, edit);
+    this.spaces.update((spaces) => spaces.map((item) => (this.getKey(item) === key ? updated : item)));
+    return updated;
+  }
+
+  /**
+   * Whether a space was edited in the room schedule
+   */
+  isEdited(space: SpaceRow): boolean {
+    return this.edits.has(this.getKey(space));
+  }
+
+  /**
+   * Edited spaces of a model with their GlobalIds (spaces without one are left out)
+   * @param modelId - Fragment model UUID
+   */
+  getEditedSpaces(modelId: string): EditedSpace[] {
+    return this.spaces()
+      .filter((space) => space.modelId === modelId && !!space.globalId)
+      .flatMap((space) => {
+        const edit = this.edits.get(this.getKey(space));
+        return edit ? [{ globalId: space.globalId!, edit }] : [];
+      });
+  }
+
+  /**
+   * Isolate a space and its contents
+   * @param space - Room schedule row
+   * @returns Spatial tree node of the space (for camera framing)
+   */
+  async isolate(space: SpaceRow): Promise<SpatialNode> {
+    const node = this.findNode(space);
+    await this.spatialTreeService.isolate(node);
+    return node;
+  }
+
+  /**
+   * Export the room schedule as CSV
+   * @returns CSV text with a header row and a totals row
+   */
+  exportCsv(): string {
+    return spacesToCsv(this.spaces());
+  }
+
+  /**
+   * Measure the floor area, volume and perimeter of spaces from their geometry
+   */
+  private async measure(modelId: string, localIds: number[]): Promise<Map<number, SpaceQuantities>> {
+    const measured = new Map<number, SpaceQuantities>();
+    const model = this.fragmentsService.getModel(modelId);
+    if (!model) {
+      return measured;
+    }
+
+    for (let start = 0; start < localIds.length; start += SPACE_CONFIG.batchSize) {
+      const batch = localIds.slice(start, start + SPACE_CONFIG.batchSize);
+      const geometries = await this.fragmentsService.getItemsGeometry(modelId, batch);
+
+      geometries.forEach((meshes, index) => {
+        const geometry = buildItemGeometry(meshes, model.object.matrixWorld);
+        if (geometry) {
+          measured.set(batch[index]!, getSpaceGeometryQuantities(geometry));
+          geometry.dispose();
+        }
+      });
+    }
+
+    return measured;
+  }
+
+  /**
+   * Key of the edits of a space
+   */
+  private getKey(space: SpaceRow): string {
+    return `${space.modelId}:${space.localId}`;
+  }
+
+  /**
+   * Spatial tree node of a space (a single item node if the tree does not contain it)
+   */
+  private findNode(space: SpaceRow): SpatialNode {
+    const find = (node: SpatialNode): SpatialNode | null => {
+      if (node.localId === space.localId) {
+        return node;
+      }
+      for (const child of node.children) {
+        const found = find(child);
+        if (found) {
+          return found;
+        }
+      }
+      return null;
+    };
+
+    const tree = this.spatialTreeService.trees().find((root) => root.modelId === space.modelId);
+    return (
+      (tree && find(tree)) ?? {
+        key: `${space.modelId}:${space.localId}`,
+        modelId: space.modelId,
+        localId: space.localId,
+        name: space.name ?? `IfcSpace #${space.localId}`,
+        ifcClass: 'IfcSpace',
+        kind: 'spatial',
+        itemIds: [space.localId],
+        elementCount: 0,
+        children: [],
+      }
+    );
+  }
+}
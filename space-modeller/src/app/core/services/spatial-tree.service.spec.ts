@@ -0,0 +1,166 @@
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+import { SpatialTreeService } from './spatial-tree.service';
+import { FragmentsService } from './fragments.service';
+import { ErrorHandlerService } from './error-handler.service';
+import { SpatialNode } from '../../shared/models/spatial.model';
+
+describe('SpatialTreeService', () => {
+  let service: SpatialTreeService;
+  let fragmentsService: jasmine.SpyObj<FragmentsService>;
+
+  // Project (1) → Storey (2) → IfcWall group → walls 10, 11
+  const structure = {
+    category: 'IFCPROJECT',
+    localId: 1,
+    children: [
+      {
+        category: 'IFCBUILDINGSTOREY',
+        localId: 2,
+        children: [
+          {
+            category: 'IFCWALL',
+            localId: null,
+            children: [
+              { category: null, localId: 10 },
+              { category: null, localId: 11 },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+
+  const findNode = (node: SpatialNode, key: string): SpatialNode | undefined =>
+    node.key === key ? node : node.children.map((c) => findNode(c, key)).find((n) => !!n);
+
+  beforeEach(() => {
+    const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', [
+      'getSpatialStructure',
+      'getItemsData',
+      'setItemsVisibility',
+      'getItemsBox',
+    ]);
+    const errorHandlerSpy = jasmine.createSpyObj('ErrorHandlerService', ['handleError']);
+
+    fragmentsServiceSpy.getSpatialStructure.and.returnValue(Promise.resolve(structure));
+    fragmentsServiceSpy.getItemsData.and.callFake((_modelId: string, ids: number[]) =>
+      Promise.resolve(ids.map((id) => (id === 2 ? { Name: { value: 'Level 2' } } : {})))
+    );
+    fragmentsServiceSpy.setItemsVisibility.and.returnValue(Promise.resolve(true));
+
+    TestBed.configureTestingModule({
+      providers: [
+        SpatialTreeService,
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: ErrorHandlerService, useValue: errorHandlerSpy },
+      ],
+    });
+
+    service = TestBed.inject(SpatialTreeService);
+    fragmentsService = TestBed.inject(FragmentsService) as jasmine.SpyObj<FragmentsService>;
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  describe('buildTree', () => {
+    it('should build a tree with names and counts', async () => {
+      const tree = await service.buildTree('model-1', 'Architecture');
+
+      expect(tree?.name).toBe('Architecture');
+      expect(tree?.elementCount).toBe(2);
+      expect(findNode(tree!, 'model-1:2')?.name).toBe('Level 2');
+      expect(service.trees().length).toBe(1);
+      expect(service.totalElements()).toBe(2);
+    });
+
+    it('should replace the tree of a model that is rebuilt', async () => {
+      await service.buildTree('model-1', 'Architecture');
+      await service.buildTree('model-1', 'Architecture');
+
+      expect(service.trees().length).toBe(1);
+    });
+
+    it('should return null for models without spatial structure', async () => {
+      fragmentsService.getSpatialStructure.and.returnValue(Promise.resolve({} as any));
+
+      expect(await service.buildTree('model-1', 'Empty')).toBeNull();
+      expect(service.trees().length).toBe(0);
+    });
+  });
+
+  describe('visibility', () => {
+    let tree: SpatialNode;
+
+    beforeEach(async () => {
+      tree = (await service.buildTree('model-1', 'Architecture'))!;
+    });
+
+    it('should hide the items of a node', async () => {
+      const walls = findNode(tree, 'model-1:2/IfcWall')!;
+
+      await service.setNodeVisibility(walls, false);
+
+      expect(fragmentsService.setItemsVisibility).toHaveBeenCalledWith('model-1', [10, 11], false);
+      expect(service.getVisibility(walls)).toBe('hidden');
+      expect(service.getVisibility(tree)).toBe('partial');
+      expect(service.hasHiddenItems()).toBe(true);
+    });
+
+    it('should toggle a hidden node back to visible', async () => {
+      const wall = findNode(tree, 'model-1:10')!;
+
+      await service.toggleNodeVisibility(wall);
+      await service.toggleNodeVisibility(wall);
+
+      expect(service.getVisibility(wall)).toBe('visible');
+    });
+
+    it('should isolate a node', async () => {
+      const wall = findNode(tree, 'model-1:11')!;
+
+      await service.isolate(wall);
+
+      expect(fragmentsService.setItemsVisibility).toHaveBeenCalledWith('model-1', undefined, false);
+      expect(fragmentsService.setItemsVisibility).toHaveBeenCalledWith('model-1', [11], true);
+      expect(service.getVisibility(wall)).toBe('visible');
+      expect(service.getVisibility(findNode(tree, 'model-1:10')!)).toBe('hidden');
+    });
+
+    it('should show everything again', async () => {
+      await service.isolate(findNode(tree, 'model-1:11')!);
+
+      await service.showAll();
+
+      expect(fragmentsService.setItemsVisibility).toHaveBeenCalledWith('model-1', undefined, true);
+      expect(service.hasHiddenItems()).toBe(false);
+    });
+  });
+
+  describe('getNodeBox', () => {
+    it('should request the merged box of the node items', async () => {
+      const tree = (await service.buildTree('model-1', 'Architecture'))!;
+      const box = new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(1, 1, 1));
+      fragmentsService.getItemsBox.and.returnValue(Promise.resolve(box));
+
+      const storey = findNode(tree, 'model-1:2')!;
+
+      expect(await service.getNodeBox(storey)).toBe(box);
+      expect(fragmentsService.getItemsBox).toHaveBeenCalledWith('model-1', [2, 10, 11]);
+    });
+  });
+
+  describe('removeModel', () => {
+    it('should drop the tree and hidden items of a model', async () => {
+      const tree = (await service.buildTree('model-1', 'Architecture'))!;
+      await service.setNodeVisibility(tree, false);
+
+      service.removeModel('model-1');
+
+      expect(service.trees().length).toBe(0);
+      expect(service.hasHiddenItems()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import * as THREE from 'three';
+import { FragmentsService } from './fragments.service';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import { SpatialNode, SpatialNodeVisibility } from '../../shared/models/spatial.model';
+import {
+  buildSpatialTree,
+  collectSpatialLocalIds,
+  getSpatialNodeVisibility,
+} from '../../shared/utils/spatial.utils';
+
+/**
+ * Service for the spatial structure tree of the loaded models
+ * (Project → Site → Building → Storey → Element)
+ *
+ * Features:
+ * - Tree built from IfcRelAggregates / IfcRelContainedInSpatialStructure
+ * - Element counts per node
+ * - Per-node visibility (visible, hidden or partial)
+ * - Isolate a node across every loaded model
+ * - Bounding box of a node for camera framing
+ *
+ * @example
+ * ```typescript
+ * constructor(private spatialTree: SpatialTreeService) {}
+ *
+ * await this.spatialTree.buildTree(modelId, 'Architecture');
+ * await this.spatialTree.isolate(storeyNode);
+ * const box = await this.spatialTree.getNodeBox(storeyNode);
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SpatialTreeService {
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly errorHandler = inject(ErrorHandlerService);
+
+  // Signals for reactive state
+  readonly trees = signal<SpatialNode[]>([]);
+  readonly hiddenItems = signal<ReadonlyMap<string, ReadonlySet<number>>>(new Map());
+  readonly hasHiddenItems = computed(() =>
+    Array.from(this.hiddenItems().values()).some((ids) => ids.size > 0)
+  );
+  readonly totalElements = computed(() =>
+    this.trees().reduce((sum, tree) => sum + tree.elementCount, 0)
+  );
+
+  /**
+   * Build the spatial tree of a loaded model
+   * @param modelId - Fragment model UUID
+   * @param modelName - Display name of the model root
+   * @returns Model root node or null if the model has no spatial structure
+   */
+  async buildTree(modelId: string, modelName: string): Promise<SpatialNode | null> {
+    try {
+      console.log(`🌳 Building spatial tree for: ${modelName}`);
+
+      const structure = await this.fragmentsService.getSpatialStructure(modelId);
+      if (!structure || (structure.localId === undefined && !structure.children)) {
+        console.warn('⚠️ Model has no spatial structure');
+        return null;
+      }
+
+      const names = await this.loadNames(modelId, collectSpatialLocalIds(structure));
+      const tree = buildSpatialTree(structure, modelId, modelName, names);
+
+      this.trees.update((trees) => [...trees.filter((t) => t.modelId !== modelId), tree]);
+
+      console.log(`✅ Spatial tree built: ${tree.elementCount} elements`);
+      return tree;
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'buildTree',
+        modelId,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Load display names (Name, else LongName) of items
+   */
+  private async loadNames(modelId: string, localIds: number[]): Promise<Map<number, string>> {
+    const names = new Map<number, string>();
+    if (localIds.length === 0) {
+      return names;
+    }
+
+    const data = await this.fragmentsService.getItemsData(modelId, localIds, {
+      attributesDefault: false,
+      attributes: ['Name', 'LongName'],
+    });
+
+    data.forEach((item, index) => {
+      const name = (item['Name'] as { value?: unknown } | undefined)?.value
+        ?? (item['LongName'] as { value?: unknown } | undefined)?.value;
+      if (typeof name === 'string' && name.trim() !== '') {
+        names.set(localIds[index]!, name);
+      }
+    });
+
+    return names;
+  }
+
+  /**
+   * Remove the tree of an unloaded model
+   * @param modelId - Fragment model UUID
+   */
+  removeModel(modelId: string): void {
+    this.trees.update((trees) => trees.filter((t) => t.modelId !== modelId));
+    this.hiddenItems.update((hidden) => {
+      const next = new Map(hidden);
+      next.delete(modelId);
+      return next;
+    });
+  }
+
+  /**
+   * Clear every tree
+   */
+  clear(): void {
+    this.trees.set([]);
+    this.hiddenItems.set(new Map());
+  }
+
+  /**
+   * Get the visibility of a node
+   * @param node - Tree node
+   */
+  getVisibility(node: SpatialNode): SpatialNodeVisibility {
+    return getSpatialNodeVisibility(node, this.hiddenItems().get(node.modelId));
+  }
+
+  /**
+   * Show or hide every item of a node
+   * @param node - Tree node
+   * @param visible - Whether the items should be rendered
+   */
+  async setNodeVisibility(node: SpatialNode, visible: boolean): Promise<void> {
+    if (node.itemIds.length === 0) {
+      return;
+    }
+
+    try {
+      await this.fragmentsService.setItemsVisibility(node.modelId, node.itemIds, visible);
+
+      this.hiddenItems.update((hidden) => {
+        const next = new Map(hidden);
+        const ids = new Set(next.get(node.modelId));
+        for (const id of node.itemIds) {
+          if (visible) {
+            ids.delete(id);
+          } else {
+            ids.add(id);
+          }
+        }
+        next.set(node.modelId, ids);
+        return next;
+      });
+
+      console.log(`👁️ ${node.name}: ${visible ? 'shown' : 'hidden'}`);
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'setNodeVisibility',
+        modelId: node.modelId,
+        node: node.key,
+      });
+    }
+  }
+
+  /**
+   * Toggle the visibility of a node (partially hidden nodes become visible)
+   * @param node - Tree node
+   */
+  async toggleNodeVisibility(node: SpatialNode): Promise<void> {
+    await this.setNodeVisibility(node, this.getVisibility(node) !== 'visible');
+  }
+
+  /**
+   * Hide everything except the items of a node
+   * @param node - Tree node to isolate
+   */
+  async isolate(node: SpatialNode): Promise<void> {
+    try {
+      const hidden = new Map<string, ReadonlySet<number>>();
+
+      for (const tree of this.trees()) {
+        await this.fragmentsService.setItemsVisibility(tree.modelId, undefined, false);
+
+        const ids = new Set(tree.itemIds);
+        if (tree.modelId === node.modelId) {
+          await this.fragmentsService.setItemsVisibility(tree.modelId, node.itemIds, true);
+          for (const id of node.itemIds) {
+            ids.delete(id);
+          }
+        }
+        hidden.set(tree.modelId, ids);
+      }
+
+      this.hiddenItems.set(hidden);
+      console.log(`🔍 Isolated: ${node.name}`);
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'isolate',
+        modelId: node.modelId,
+        node: node.key,
+      });
+    }
+  }
+
+  /**
+   * Show every item of every model
+   */
+  async showAll(): Promise<void> {
+    try {
+      for (const tree of this.trees()) {
+        await this.fragmentsService.setItemsVisibility(tree.modelId, undefined, true);
+      }
+      this.hiddenItems.set(new Map());
+      console.log('👁️ All spatial nodes shown');
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'showAll',
+      });
+    }
+  }
+
+  /**
+   * Get the bounding box of a node for camera framing
+   * @param node - Tree node
+   * @returns Bounding box or null if the node has no geometry
+   */
+  async getNodeBox(node: SpatialNode): Promise<THREE.Box3 | null> {
+    try {
+      return await this.fragmentsService.getItemsBox(node.modelId, node.itemIds);
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'getNodeBox',
+        modelId: node.modelId,
+        node: node.key,
+      });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import { TestBed } from '@angular/core/testing';
+import { WritableSignal, signal } from '@angular/core';
+import { ThemeService } from './theme.service';
+import { ErrorHandlerService } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { IfcFilterService } from './ifc-filter.service';
+import { ScheduleService } from './schedule.service';
+import { SelectionService } from './selection.service';
+import { ScheduleColumn, ScheduleElement } from '../../shared/models/export.model';
+import { ThemeOptions } from '../../shared/models/theme.model';
+import { THEME_CONFIG } from '../../shared/constants/viewer.constants';
+
+describe('ThemeService', () => {
+  let service: ThemeService;
+  let fragmentsService: jasmine.SpyObj<FragmentsService>;
+  let selectionService: jasmine.SpyObj<SelectionService>;
+  let elements: WritableSignal<ScheduleElement[]>;
+
+  const element = (localId: number, ifcClass: string, fireRating: string | null): ScheduleElement => ({
+    properties: {
+      modelId: localId < 10 ? 'm1' : 'm2',
+      localId,
+      globalId: `guid-${localId}`,
+      name: null,
+      ifcClass,
+      attributes: [],
+      propertySets:
+        fireRating === null
+          ? []
+          : [{ name: 'Pset_WallCommon', properties: [{ name: 'FireRating', value: fireRating }] }],
+      quantitySets: [],
+    },
+    storey: 'Level 1',
+    type: null,
+    material: null,
+  });
+
+  const loaded = [element(1, 'IfcWall', 'REI60'), element(2, 'IfcWall', 'REI30'), element(11, 'IfcDoor', null)];
+
+  const columns: ScheduleColumn[] = [
+    { key: 'storey', label: 'Storey', source: 'base' },
+    { key: 'property:Pset_WallCommon.FireRating', label: 'Pset_WallCommon.FireRating', source: 'property' },
+  ];
+
+  const options = (partial: Partial<ThemeOptions>): ThemeOptions => ({
+    mode: 'class',
+    field: null,
+    rangeCount: THEME_CONFIG.defaultRangeCount,
+    colors: {},
+    ranges: [],
+    ...partial,
+  });
+
+  beforeEach(() => {
+    elements = signal<ScheduleElement[]>([]);
+
+    const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', [
+      'getModelIds',
+      'highlightItems',
+      'resetHighlight',
+    ]);
+    fragmentsServiceSpy.getModelIds.and.returnValue(['m1', 'm2']);
+    fragmentsServiceSpy.highlightItems.and.returnValue(Promise.resolve());
+    fragmentsServiceSpy.resetHighlight.and.returnValue(Promise.resolve());
+
+    const scheduleServiceSpy = jasmine.createSpyObj('ScheduleService', ['ensureLoaded'], {
+      elements,
+      columns: signal(columns),
+    });
+    scheduleServiceSpy.ensureLoaded.and.callFake(() => {
+      elements.set(loaded);
+      return Promise.resolve();
+    });
+
+    const ifcFilterServiceSpy = jasmine.createSpyObj('IfcFilterService', ['getClassColor']);
+    ifcFilterServiceSpy.getClassColor.and.callFake((name: string) => (name === 'IfcWall' ? '#ff6b6b' : '#4ecdc4'));
+
+    const selectionServiceSpy = jasmine.createSpyObj('SelectionService', ['refreshHighlight']);
+    selectionServiceSpy.refreshHighlight.and.returnValue(Promise.resolve());
+
+    TestBed.configureTestingModule({
+      providers: [
+        ThemeService,
+        { provide: ErrorHandlerService, useValue: jasmine.createSpyObj('ErrorHandlerService', ['handleError']) },
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: ScheduleService, useValue: scheduleServiceSpy },
+        { provide: IfcFilterService, useValue: ifcFilterServiceSpy },
+        { provide: SelectionService, useValue: selectionServiceSpy },
+      ],
+    });
+
+    service = TestBed.inject(ThemeService);
+    fragmentsService = TestBed.inject(FragmentsService) as jasmine.SpyObj<FragmentsService>;
+    selectionService = TestBed.inject(SelectionService) as jasmine.SpyObj<SelectionService>;
+  });
+
+  it('should be created without a thematic view', () => {
+    expect(service.isActive()).toBe(false);
+    expect(service.legend()).toEqual([]);
+  });
+
+  it('should offer the properties and quantities as fields', () => {
+    expect(service.fields()).toEqual(['Pset_WallCommon.FireRating']);
+  });
+
+  it('should color by class with the class filter colors', async () => {
+    expect(await service.apply(options({ mode: 'class' }))).toBe(true);
+
+    expect(service.legend()).toEqual([
+      { label: 'IfcDoor', color: '#4ecdc4', count: 1 },
+      { label: 'IfcWall', color: '#ff6b6b', count: 2 },
+    ]);
+    expect(fragmentsService.highlightItems).toHaveBeenCalledWith('m1', [1, 2], jasmine.anything());
+    expect(fragmentsService.highlightItems.calls.first().args[2].color.getHexString()).toBe('4ecdc4');
+    expect(selectionService.refreshHighlight).toHaveBeenCalled();
+  });
+
+  it('should color by property value with a legend entry for missing values', async () => {
+    await service.apply(options({ mode: 'property', field: 'Pset_WallCommon.FireRating' }));
+
+    expect(service.legend().map((entry) => entry.label)).toEqual(['REI30', 'REI60', THEME_CONFIG.noValueLabel]);
+  });
+
+  it('should require a field for property and range views', async () => {
+    expect(await service.apply(options({ mode: 'range' }))).toBe(false);
+    expect(service.error()).toBe('Choose a property');
+    expect(service.isActive()).toBe(false);
+  });
+
+  it('should restore the original materials when turned off', async () => {
+    await service.apply(options({ mode: 'class' }));
+
+    await service.clear();
+
+    expect(service.isActive()).toBe(false);
+    expect(fragmentsService.resetHighlight).toHaveBeenCalledWith('m1', [1, 2]);
+    expect(fragmentsService.resetHighlight).toHaveBeenCalledWith('m2', [11]);
+  });
+
+  it('should recolor a legend entry', async () => {
+    await service.apply(options({ mode: 'class' }));
+
+    await service.setGroupColor('IfcWall', '#000000');
+
+    expect(service.legend()[1]!.color).toBe('#000000');
+    expect(service.options()!.colors).toEqual({ IfcWall: '#000000' });
+    expect(fragmentsService.highlightItems.calls.mostRecent().args[2].color.getHexString()).toBe('000000');
+  });
+
+  it('should drop unloaded models from the legend', async () => {
+    await service.apply(options({ mode: 'class' }));
+
+    service.removeModel('m2');
+
+    expect(service.legend().map((entry) => entry.label)).toEqual(['IfcWall']);
+  });
+
+  it('should export and import the color mapping as a preset', async () => {
+    await service.apply(options({ mode: 'storey', colors: { 'Level 1': '#123456' } }));
+    const json = service.exportPreset('Storeys')!;
+    await service.clear();
+
+    const preset = await service.importPreset(json);
+
+    expect(preset!.name).toBe('Storeys');
+    expect(service.options()!.mode).toBe('storey');
+    expect(service.legend()).toEqual([{ label: 'Level 1', color: '#123456', count: 3 }]);
+  });
+
+  it('should report files that are not presets', async () => {
+    expect(await service.importPreset('not json')).toBeNull();
+    expect(service.error()).toBe('Not a JSON file');
+
+    expect(await service.importPreset('{}')).toBeNull();
+    expect(service.error()).toBe('Not a color preset file');
+    expect(service.exportPreset('Empty')).toBeNull();
+  });
+});
@@ -0,0 +1,248 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import * as THREE from 'three';
+import * as FRAGS from '@thatopen/fragments';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { IfcFilterService } from './ifc-filter.service';
+import { ScheduleService } from './schedule.service';
+import { SelectionService } from './selection.service';
+import { ElementReference } from '../../shared/models/selection.model';
+import { ThemeGroup, ThemeLegendEntry, ThemeOptions, ThemePreset } from '../../shared/models/theme.model';
+import { THEME_CONFIG } from '../../shared/constants/viewer.constants';
+import { groupThemeElements, parseThemePreset, toThemePreset } from '../../shared/utils/theme.utils';
+
+/**
+ * Service for thematic views that recolor the model by element values
+ *
+ * Features:
+ * - Color by IFC class (the class filter colors), storey, material or any property value
+ * - Color by numeric ranges of a property (e.g. fire rating or U-value)
+ * - Generated legend with editable colors
+ * - Original materials restored when the view is turned off
+ * - Color mappings exported and imported as JSON presets
+ *
+ * @example
+ * ```typescript
+ * await this.themeService.apply({
+ *   mode: 'range',
+ *   field: 'Pset_WallCommon.ThermalTransmittance',
+ *   rangeCount: 5,
+ *   colors: {},
+ *   ranges: [],
+ * });
+ * console.log(this.themeService.legend());
+ *
+ * await this.themeService.clear();
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ThemeService {
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly ifcFilterService = inject(IfcFilterService);
+  private readonly scheduleService = inject(ScheduleService);
+  private readonly selectionService = inject(SelectionService);
+
+  // State
+  readonly options = signal<ThemeOptions | null>(null);
+  readonly groups = signal<ThemeGroup[]>([]);
+  readonly error = signal<string | null>(null);
+  readonly isApplying = signal<boolean>(false);
+  readonly isActive = computed(() => this.options() !== null);
+  readonly legend = computed<ThemeLegendEntry[]>(() =>
+    this.groups().map((group) => ({ label: group.label, color: group.color, count: group.elements.length }))
+  );
+
+  /**
+   * Properties and quantities of the loaded elements (e.g. Pset_WallCommon.FireRating)
+   */
+  readonly fields = computed(() =>
+    this.scheduleService
+      .columns()
+      .filter((column) => column.source !== 'base')
+      .map((column) => column.label)
+  );
+
+  /**
+   * Recolor the loaded elements
+   * Replaces the current thematic view
+   * @param options - Mode, field, range count and color overrides
+   * @returns True if applied
+   */
+  async apply(options: ThemeOptions): Promise<boolean> {
+    if ((options.mode === 'property' || options.mode === 'range') && !options.field) {
+      this.error.set('Choose a property');
+      return false;
+    }
+
+    this.isApplying.set(true);
+    this.error.set(null);
+
+    try {
+      await this.clear();
+      await this.scheduleService.ensureLoaded();
+
+      const getClassColor =
+        options.mode === 'class' ? (label: string) => this.ifcFilterService.getClassColor(label) : undefined;
+      const groups = groupThemeElements(this.scheduleService.elements(), options, getClassColor);
+
+      for (const group of groups) {
+        await this.paint(group.elements, group.color);
+      }
+      await this.selectionService.refreshHighlight();
+
+      this.options.set(options);
+      this.groups.set(groups);
+
+      console.log(`🎨 Colored by ${options.field ?? options.mode}: ${groups.length} values`);
+      return true;
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.ERROR, {
+        operation: 'applyTheme',
+        mode: options.mode,
+        field: options.field,
+      });
+      this.error.set('The model could not be recolored');
+      return false;
+    } finally {
+      this.isApplying.set(false);
+    }
+  }
+
+  /**
+   * Change the color of a legend entry
+   * @param label - Legend entry label
+   * @param color - Hex color
+   */
+  async setGroupColor(label: string, color: string): Promise<void> {
+    const options = this.options();
+    const group = this.groups().find((item) => item.label === label);
+    if (!options || !group) {
+      return;
+    }
+
+    const range = group.range ? { ...group.range, color } : undefined;
+    this.groups.update((groups) => groups.map((item) => (item === group ? { ...item, color, range } : item)));
+    this.options.set({
+      ...options,
+      colors: range ? options.colors : { ...options.colors, [label]: color },
+      ranges: this.groups().flatMap((item) => (item.range ? [item.range] : [])),
+    });
+
+    try {
+      await this.paint(group.elements, color);
+      await this.selectionService.refreshHighlight();
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'setThemeColor',
+        label,
+      });
+    }
+  }
+
+  /**
+   * Turn the thematic view off and restore the original materials
+   */
+  async clear(): Promise<void> {
+    const groups = this.groups();
+    this.options.set(null);
+    this.groups.set([]);
+    if (groups.length === 0) {
+      return;
+    }
+
+    try {
+      const modelIds = this.fragmentsService.getModelIds();
+      for (const [modelId, localIds] of this.groupByModel(groups.flatMap((group) => group.elements))) {
+        if (modelIds.includes(modelId)) {
+          await this.fragmentsService.resetHighlight(modelId, localIds);
+        }
+      }
+      await this.selectionService.refreshHighlight();
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'clearTheme',
+      });
+    }
+  }
+
+  /**
+   * Drop the elements of an unloaded model from the legend
+   * @param modelId - Fragment model UUID
+   */
+  removeModel(modelId: string): void {
+    this.groups.update((groups) =>
+      groups
+        .map((group) => ({ ...group, elements: group.elements.filter((element) => element.modelId !== modelId) }))
+        .filter((group) => group.elements.length > 0)
+    );
+  }
+
+  /**
+   * Export the color mapping of the current view
+   * @param name - Preset name
+   * @returns JSON text or null without an active view
+   */
+  exportPreset(name: string): string | null {
+    const options = this.options();
+    return options ? JSON.stringify(toThemePreset(name, options, this.groups()), null, 2) : null;
+  }
+
+  /**
+   * Apply a color mapping preset
+   * @param text - JSON text of a preset
+   * @returns The preset or null if the file is not a preset or could not be applied
+   */
+  async importPreset(text: string): Promise<ThemePreset | null> {
+    let preset: ThemePreset;
+    try {
+      preset = parseThemePreset(text);
+    } catch (error) {
+      this.error.set(error instanceof SyntaxError ? 'Not a JSON file' : (error as Error).message);
+      return null;
+    }
+
+    const applied = await this.apply({
+      mode: preset.mode,
+      field: preset.field,
+      rangeCount: preset.ranges.length || THEME_CONFIG.defaultRangeCount,
+      colors: preset.colors,
+      ranges: preset.ranges,
+    });
+    return applied ? preset : null;
+  }
+
+  /**
+   * Color elements with an opaque material
+   */
+  private async paint(elements: ElementReference[], color: string): Promise<void> {
+    const material: FRAGS.MaterialDefinition = {
+      color: new THREE.Color(color),
+      renderedFaces: FRAGS.RenderedFaces.TWO,
+      opacity: 1,
+      transparent: false,
+    };
+
+    for (const [modelId, localIds] of this.groupByModel(elements)) {
+      await this.fragmentsService.highlightItems(modelId, localIds, material);
+    }
+  }
+
+  /**
+   * Local IDs of elements per model
+   */
+  private groupByModel(elements: ElementReference[]): Map<string, number[]> {
+    const byModel = new Map<string, number[]>();
+    for (const { modelId, localId } of elements) {
+      const localIds = byModel.get(modelId);
+      if (localIds) {
+        localIds.push(localId);
+      } else {
+        byModel.set(modelId, [localId]);
+      }
+    }
+    return byModel;
+  }
+}
@@ -0,0 +1,201 @@
+import { TestBed } from '@angular/core/testing';
+import { WritableSignal, computed, signal } from '@angular/core';
+import { ViewpointService } from './viewpoint.service';
+import { ErrorHandlerService } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { IfcClassInfo, IfcFilterService } from './ifc-filter.service';
+import { SelectionService } from './selection.service';
+import { ClippingService } from './clipping.service';
+import { ModelManagerService } from './model-manager.service';
+import { IFCModelState, ModelLoadingStatus } from '../../shared/models/ifc.model';
+import { ElementProperties, ElementReference } from '../../shared/models/selection.model';
+import { ViewpointCamera } from '../../shared/models/viewpoint.model';
+import { getViewpointStorageKey } from '../../shared/utils/viewpoint.utils';
+
+describe('ViewpointService', () => {
+  let service: ViewpointService;
+  let fragmentsService: jasmine.SpyObj<FragmentsService>;
+  let ifcFilterService: jasmine.SpyObj<IfcFilterService>;
+  let selectionService: jasmine.SpyObj<SelectionService>;
+  let clippingService: jasmine.SpyObj<ClippingService>;
+  let errorHandler: jasmine.SpyObj<ErrorHandlerService>;
+  let activeModel: WritableSignal<IFCModelState | null>;
+  let selection: WritableSignal<ElementReference | null>;
+  let properties: WritableSignal<ElementProperties | null>;
+
+  const camera: ViewpointCamera = {
+    type: 'perspective',
+    position: { x: 10, y: 10, z: 10 },
+    target: { x: 0, y: 0, z: 0 },
+    zoom: 1,
+  };
+
+  const model = (name: string): IFCModelState => ({
+    id: `${name}-id`,
+    name,
+    status: ModelLoadingStatus.LOADED,
+    progress: 100,
+    fragmentUuid: `${name}-uuid`,
+  });
+
+  const classes: IfcClassInfo[] = [
+    { name: 'IfcSpace', count: 2, visible: false },
+    { name: 'IfcWall', count: 5, visible: true },
+  ];
+
+  beforeEach(() => {
+    activeModel = signal<IFCModelState | null>(model('tower'));
+    selection = signal<ElementReference | null>(null);
+    properties = signal<ElementProperties | null>(null);
+
+    const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', ['getItemGuids', 'findItemsByGuids']);
+    fragmentsServiceSpy.getItemGuids.and.returnValue(Promise.resolve(['guid-7']));
+    fragmentsServiceSpy.findItemsByGuids.and.returnValue(Promise.resolve([{ modelId: 'tower-uuid', localId: 7 }]));
+
+    const ifcFilterServiceSpy = jasmine.createSpyObj('IfcFilterService', ['setClassVisibility'], {
+      availableClasses: signal(classes),
+    });
+    ifcFilterServiceSpy.setClassVisibility.and.returnValue(Promise.resolve());
+
+    const selectionServiceSpy = jasmine.createSpyObj('SelectionService', ['select', 'clearSelection'], {
+      selection,
+      properties,
+    });
+    selectionServiceSpy.select.and.returnValue(Promise.resolve());
+    selectionServiceSpy.clearSelection.and.returnValue(Promise.resolve());
+
+    const clippingServiceSpy = jasmine.createSpyObj('ClippingService', ['restore'], {
+      planes: signal([]),
+      sectionBox: signal({ enabled: true, min: { x: 0, y: 0, z: 0 }, max: { x: 1, y: 1, z: 1 } }),
+    });
+
+    const modelManagerSpy = jasmine.createSpyObj('ModelManagerService', [], {
+      activeModel: computed(() => activeModel()),
+    });
+
+    TestBed.configureTestingModule({
+      providers: [
+        ViewpointService,
+        { provide: ErrorHandlerService, useValue: jasmine.createSpyObj('ErrorHandlerService', ['handleError']) },
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: IfcFilterService, useValue: ifcFilterServiceSpy },
+        { provide: SelectionService, useValue: selectionServiceSpy },
+        { provide: ClippingService, useValue: clippingServiceSpy },
+        { provide: ModelManagerService, useValue: modelManagerSpy },
+      ],
+    });
+
+    service = TestBed.inject(ViewpointService);
+    fragmentsService = TestBed.inject(FragmentsService) as jasmine.SpyObj<FragmentsService>;
+    ifcFilterService = TestBed.inject(IfcFilterService) as jasmine.SpyObj<IfcFilterService>;
+    selectionService = TestBed.inject(SelectionService) as jasmine.SpyObj<SelectionService>;
+    clippingService = TestBed.inject(ClippingService) as jasmine.SpyObj<ClippingService>;
+    errorHandler = TestBed.inject(ErrorHandlerService) as jasmine.SpyObj<ErrorHandlerService>;
+
+    localStorage.removeItem(getViewpointStorageKey('tower'));
+    localStorage.removeItem(getViewpointStorageKey('bridge'));
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(getViewpointStorageKey('tower'));
+    localStorage.removeItem(getViewpointStorageKey('bridge'));
+  });
+
+  it('should be created without viewpoints', () => {
+    expect(service).toBeTruthy();
+    expect(service.modelName()).toBe('tower');
+    expect(service.hasViewpoints()).toBe(false);
+    expect(service.nextName()).toBe('Viewpoint 1');
+  });
+
+  it('should capture hidden classes, selection and section state', async () => {
+    selection.set({ modelId: 'tower-uuid', localId: 7 });
+
+    const viewpoint = await service.save('Entrance', camera);
+
+    expect(viewpoint!.name).toBe('Entrance');
+    expect(viewpoint!.camera).toEqual(camera);
+    expect(viewpoint!.hiddenClasses).toEqual(['IfcSpace']);
+    expect(viewpoint!.selectedGlobalId).toBe('guid-7');
+    expect(fragmentsService.getItemGuids).toHaveBeenCalledWith('tower-uuid', [7]);
+    expect(viewpoint!.clipping.sectionBox.enabled).toBe(true);
+    expect(service.viewpoints().map((v) => v.name)).toEqual(['Entrance']);
+  });
+
+  it('should use a default name', async () => {
+    await service.save('  ', camera);
+
+    expect(service.viewpoints()[0]!.name).toBe('Viewpoint 1');
+    expect(service.nextName()).toBe('Viewpoint 2');
+  });
+
+  it('should not save without an active model', async () => {
+    activeModel.set(null);
+
+    expect(await service.save('Entrance', camera)).toBeNull();
+  });
+
+  it('should persist viewpoints per model', async () => {
+    await service.save('Entrance', camera);
+
+    activeModel.set(model('bridge'));
+    expect(service.hasViewpoints()).toBe(false);
+
+    activeModel.set(model('tower'));
+    expect(service.viewpoints().map((v) => v.name)).toEqual(['Entrance']);
+    expect(localStorage.getItem(getViewpointStorageKey('tower'))).toContain('Entrance');
+  });
+
+  it('should restore classes, sections and selection', async () => {
+    const viewpoint = (await service.save('Entrance', camera))!;
+    viewpoint.hiddenClasses = ['IfcWall'];
+    viewpoint.selectedGlobalId = 'guid-7';
+
+    await service.apply(viewpoint);
+
+    expect(ifcFilterService.setClassVisibility).toHaveBeenCalledWith('IfcSpace', true);
+    expect(ifcFilterService.setClassVisibility).toHaveBeenCalledWith('IfcWall', false);
+    expect(clippingService.restore).toHaveBeenCalledWith(viewpoint.clipping.planes, viewpoint.clipping.sectionBox);
+    expect(fragmentsService.findItemsByGuids).toHaveBeenCalledWith(['guid-7']);
+    expect(selectionService.select).toHaveBeenCalledWith('tower-uuid', 7);
+  });
+
+  it('should clear the selection of viewpoints without one', async () => {
+    const viewpoint = (await service.save('Overview', camera))!;
+
+    await service.apply(viewpoint);
+
+    expect(selectionService.clearSelection).toHaveBeenCalled();
+    expect(selectionService.select).not.toHaveBeenCalled();
+  });
+
+  it('should remove and clear viewpoints', async () => {
+    const first = (await service.save('First', camera))!;
+    await service.save('Second', camera);
+
+    service.remove(first.id);
+    expect(service.viewpoints().map((v) => v.name)).toEqual(['Second']);
+
+    service.clear();
+    expect(service.hasViewpoints()).toBe(false);
+    expect(localStorage.getItem(getViewpointStorageKey('tower'))).toBeNull();
+  });
+
+  it('should export and import viewpoints as JSON', async () => {
+    await service.save('Entrance', camera);
+    const json = service.exportJson();
+
+    activeModel.set(model('bridge'));
+    expect(service.importJson(json)).toBe(1);
+    expect(service.viewpoints().map((v) => v.name)).toEqual(['Entrance']);
+
+    // Importing again replaces the viewpoints with the same ID
+    expect(service.importJson(json)).toBe(1);
+    expect(service.viewpoints().length).toBe(1);
+  });
+
+  it('should report invalid viewpoint files', () => {
+    expect(service.importJson('{"models": []}')).toBe(0);
+    expect(errorHandler.handleError).toHaveBeenCalled();
+  });
+});
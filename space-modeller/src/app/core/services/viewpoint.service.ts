@@ -0,0 +1,238 @@
+import { Injectable, inject, computed, signal } from '@angular/core';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { IfcFilterService } from './ifc-filter.service';
+import { SelectionService } from './selection.service';
+import { ClippingService } from './clipping.service';
+import { ModelManagerService } from './model-manager.service';
+import { Viewpoint, ViewpointCamera, ViewpointState } from '../../shared/models/viewpoint.model';
+import {
+  getNextViewpointName,
+  getViewpointStorageKey,
+  mergeViewpoints,
+  parseViewpoints,
+  toViewpointsFile,
+} from '../../shared/utils/viewpoint.utils';
+
+/**
+ * Service for named viewpoints (saved review positions)
+ *
+ * Features:
+ * - Capture hidden IFC classes, the selected element and the section planes / box
+ * - Restore that state (the camera is captured and animated by the viewer)
+ * - Viewpoints persisted per model in local storage
+ * - JSON export and import to share review positions
+ *
+ * Viewpoints belong to the active model and are keyed by its name, so they are
+ * available again when the same model is reopened. The selection is stored by
+ * GlobalId because local IDs are not stable between conversions.
+ *
+ * @example
+ * ```typescript
+ * const viewpoint = await this.viewpointService.save('Entrance', camera);
+ * await this.viewpointService.apply(viewpoint);
+ *
+ * const json = this.viewpointService.exportJson();
+ * this.viewpointService.importJson(json);
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ViewpointService {
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly ifcFilterService = inject(IfcFilterService);
+  private readonly selectionService = inject(SelectionService);
+  private readonly clippingService = inject(ClippingService);
+  private readonly modelManager = inject(ModelManagerService);
+
+  // Incremented after every write so the list is read from storage again
+  private readonly revision = signal(0);
+
+  // Signals for reactive state
+  readonly modelName = computed(() => this.modelManager.activeModel()?.name ?? null);
+  readonly viewpoints = computed(() => {
+    this.revision();
+    const modelName = this.modelName();
+    return modelName ? this.read(modelName) : [];
+  });
+  readonly hasViewpoints = computed(() => this.viewpoints().length > 0);
+  readonly nextName = computed(() => getNextViewpointName(this.viewpoints()));
+
+  /**
+   * Save the current state as a viewpoint of the active model
+   * @param name - Viewpoint name (defaults to "Viewpoint N")
+   * @param camera - Camera state captured by the viewer
+   * @returns The saved viewpoint or null if no model is active
+   */
+  async save(name: string, camera: ViewpointCamera): Promise<Viewpoint | null> {
+    if (!this.modelName()) {
+      console.warn('⚠️ Load a model before saving viewpoints');
+      return null;
+    }
+
+    const viewpoint: Viewpoint = {
+      id: crypto.randomUUID(),
+      name: name.trim() || this.nextName(),
+      createdAt: new Date().toISOString(),
+      camera,
+      hiddenClasses: this.ifcFilterService
+        .availableClasses()
+        .filter((ifcClass) => !ifcClass.visible)
+        .map((ifcClass) => ifcClass.name),
+      selectedGlobalId: await this.getSelectedGlobalId(),
+      clipping: {
+        planes: this.clippingService.planes(),
+        sectionBox: this.clippingService.sectionBox(),
+      },
+    };
+
+    if (!this.write([...this.viewpoints(), viewpoint])) {
+      return null;
+    }
+
+    console.log(`📌 Saved viewpoint: ${viewpoint.name}`);
+    return viewpoint;
+  }
+
+  /**
+   * Restore the class visibility, selection and section state of a viewpoint
+   * @param viewpoint - Viewpoint (or BCF viewpoint state) to restore
+   */
+  async apply(viewpoint: ViewpointState): Promise<void> {
+    try {
+      const hidden = new Set(viewpoint.hiddenClasses);
+      for (const ifcClass of this.ifcFilterService.availableClasses()) {
+        await this.ifcFilterService.setClassVisibility(ifcClass.name, !hidden.has(ifcClass.name));
+      }
+
+      this.clippingService.restore(viewpoint.clipping.planes, viewpoint.clipping.sectionBox);
+
+      const [element] = viewpoint.selectedGlobalId
+        ? await this.fragmentsService.findItemsByGuids([viewpoint.selectedGlobalId])
+        : [];
+      if (element) {
+        await this.selectionService.select(element.modelId, element.localId);
+      } else {
+        await this.selectionService.clearSelection();
+      }
+
+      console.log(`📌 Restored viewpoint: ${viewpoint.name}`);
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'applyViewpoint',
+        viewpoint: viewpoint.name,
+      });
+    }
+  }
+
+  /**
+   * Delete a viewpoint
+   * @param id - Viewpoint ID
+   */
+  remove(id: string): void {
+    this.write(this.viewpoints().filter((viewpoint) => viewpoint.id !== id));
+  }
+
+  /**
+   * Delete every viewpoint of the active model
+   */
+  clear(): void {
+    this.write([]);
+  }
+
+  /**
+   * Export the viewpoints of the active model
+   * @returns JSON text of a viewpoints file
+   */
+  exportJson(): string {
+    return JSON.stringify(toViewpointsFile(this.modelName() ?? '', this.viewpoints()), null, 2);
+  }
+
+  /**
+   * Import viewpoints into the active model (viewpoints with the same ID are replaced)
+   * @param text - JSON text of a viewpoints file
+   * @returns Number of imported viewpoints
+   */
+  importJson(text: string): number {
+    if (!this.modelName()) {
+      console.warn('⚠️ Load a model before importing viewpoints');
+      return 0;
+    }
+
+    try {
+      const imported = parseViewpoints(text);
+      if (imported.length > 0 && this.write(mergeViewpoints(this.viewpoints(), imported))) {
+        console.log(`📌 Imported ${imported.length} viewpoints`);
+        return imported.length;
+      }
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'importViewpoints',
+      });
+    }
+
+    return 0;
+  }
+
+  /**
+   * GlobalId of the selected element
+   */
+  private async getSelectedGlobalId(): Promise<string | null> {
+    const selection = this.selectionService.selection();
+    if (!selection) {
+      return null;
+    }
+
+    const properties = this.selectionService.properties();
+    if (properties?.globalId) {
+      return properties.globalId;
+    }
+
+    const [guid] = await this.fragmentsService.getItemGuids(selection.modelId, [selection.localId]);
+    return guid ?? null;
+  }
+
+  /**
+   * Read the viewpoints of a model from local storage
+   * Runs inside a computed signal, so failures are only logged
+   */
+  private read(modelName: string): Viewpoint[] {
+    try {
+      const stored = localStorage.getItem(getViewpointStorageKey(modelName));
+      return stored ? parseViewpoints(stored) : [];
+    } catch (error) {
+      console.warn(`⚠️ Stored viewpoints of ${modelName} are unreadable:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Store the viewpoints of the active model
+   * @returns True if stored
+   */
+  private write(viewpoints: Viewpoint[]): boolean {
+    const modelName = this.modelName();
+    if (!modelName) {
+      return false;
+    }
+
+    try {
+      const key = getViewpointStorageKey(modelName);
+      if (viewpoints.length > 0) {
+        localStorage.setItem(key, JSON.stringify(viewpoints));
+      } else {
+        localStorage.removeItem(key);
+      }
+      this.revision.update((revision) => revision + 1);
+      return true;
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'saveViewpoints',
+        modelName,
+      });
+      return false;
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import { TestBed } from '@angular/core/testing';
+import { WritableSignal, signal } from '@angular/core';
+import type * as FRAGS from '@thatopen/fragments';
+import { ZoneService } from './zone.service';
+import { ErrorHandlerService } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { IfcFilterService } from './ifc-filter.service';
+import { SelectionService } from './selection.service';
+import { SpaceAuthoringService } from './space-authoring.service';
+import { SpaceService } from './space.service';
+import { ThemeService } from './theme.service';
+import { AuthoredSpace, SpaceRow } from '../../shared/models/space.model';
+import { ZONE_CONFIG } from '../../shared/constants/viewer.constants';
+
+describe('ZoneService', () => {
+  let service: ZoneService;
+  let fragmentsService: jasmine.SpyObj<FragmentsService>;
+  let spaceAuthoringService: jasmine.SpyObj<SpaceAuthoringService>;
+  let spaces: WritableSignal<SpaceRow[]>;
+
+  const row = (localId: number, name: string, netFloorArea: number, occupancy: number | null): SpaceRow => ({
+    modelId: 'm1',
+    localId,
+    globalId: null,
+    name,
+    longName: null,
+    usage: null,
+    storey: 'Level 1',
+    quantities: { netFloorArea, grossFloorArea: null, volume: null, perimeter: null },
+    occupancy,
+    computed: [],
+  });
+
+  const authored = {
+    id: 'a',
+    modelId: 'm1',
+    number: '103',
+    outline: [
+      { x: 0, y: 0 },
+      { x: 2, y: 0 },
+      { x: 2, y: 2 },
+      { x: 0, y: 2 },
+    ],
+  } as AuthoredSpace;
+
+  const zoneData = {
+    Name: { value: 'Compartment 1' },
+    ObjectType: { value: 'Fire compartment' },
+    IsGroupedBy: [
+      { _category: { value: 'IFCSPACE' }, Name: { value: '101' } },
+      { _category: { value: 'IFCSPACE' }, Name: { value: '102' } },
+    ],
+  } as unknown as FRAGS.ItemData;
+
+  beforeEach(() => {
+    localStorage.removeItem(ZONE_CONFIG.storageKey);
+    spaces = signal<SpaceRow[]>([]);
+
+    const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', [
+      'getModelIds',
+      'getItemsOfCategories',
+      'getItemsData',
+      'highlightItems',
+      'resetHighlight',
+    ]);
+    fragmentsServiceSpy.getModelIds.and.returnValue(['m1']);
+    fragmentsServiceSpy.getItemsOfCategories.and.returnValue(Promise.resolve({ IFCZONE: [50] }));
+    fragmentsServiceSpy.getItemsData.and.returnValue(Promise.resolve([zoneData]));
+    fragmentsServiceSpy.highlightItems.and.returnValue(Promise.resolve());
+    fragmentsServiceSpy.resetHighlight.and.returnValue(Promise.resolve());
+
+    const spaceServiceSpy = jasmine.createSpyObj('SpaceService', ['load'], { spaces });
+    spaceServiceSpy.load.and.callFake(() => {
+      spaces.set([row(1, '101', 20, 2), row(2, '102', 10, null)]);
+      return Promise.resolve();
+    });
+
+    const selectionServiceSpy = jasmine.createSpyObj('SelectionService', ['refreshHighlight']);
+    selectionServiceSpy.refreshHighlight.and.returnValue(Promise.resolve());
+    const ifcFilterServiceSpy = jasmine.createSpyObj('IfcFilterService', ['setClassVisibility']);
+    ifcFilterServiceSpy.setClassVisibility.and.returnValue(Promise.resolve());
+    const themeServiceSpy = jasmine.createSpyObj('ThemeService', ['clear']);
+    themeServiceSpy.clear.and.returnValue(Promise.resolve());
+
+    TestBed.configureTestingModule({
+      providers: [
+        ZoneService,
+        { provide: ErrorHandlerService, useValue: jasmine.createSpyObj('ErrorHandlerService', ['handleError']) },
+        { provide: FragmentsService, useValue: fragmentsServiceSpy },
+        { provide: IfcFilterService, useValue: ifcFilterServiceSpy },
+        { provide: SelectionService, useValue: selectionServiceSpy },
+        {
+          provide: SpaceAuthoringService,
+          useValue: jasmine.createSpyObj('SpaceAuthoringService', ['setSpaceColors'], { spaces: signal([authored]) }),
+        },
+        { provide: SpaceService, useValue: spaceServiceSpy },
+        { provide: ThemeService, useValue: themeServiceSpy },
+      ],
+    });
+
+    service = TestBed.inject(ZoneService);
+    fragmentsService = TestBed.inject(FragmentsService) as jasmine.SpyObj<FragmentsService>;
+    spaceAuthoringService = TestBed.inject(SpaceAuthoringService) as jasmine.SpyObj<SpaceAuthoringService>;
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(ZONE_CONFIG.storageKey);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should load the zones of the models with their totals', async () => {
+    await service.load();
+
+    const [zone] = service.rows();
+    expect(zone!.zone.id).toBe('m1:50');
+    expect(zone!.zone.category).toBe('Fire compartment');
+    expect(zone!.area).toBe(30);
+    expect(zone!.occupancy).toBe(2);
+    expect(service.categories()).toEqual(['Fire compartment']);
+  });
+
+  it('should import and store a zone mapping', async () => {
+    await service.load();
+
+    const result = await service.importCsv('Space,Zone,Type,Occupancy\n101,Sales,Department,4\n103,Sales,Department,');
+
+    expect(result!.assignments.length).toBe(2);
+    const imported = service.rows().find((item) => item.zone.source === 'import')!;
+    expect(imported.area).toBe(24);
+    expect(imported.occupancy).toBe(4);
+    expect(localStorage.getItem(ZONE_CONFIG.storageKey)).toContain('Sales');
+  });
+
+  it('should report files that are not a zone mapping', async () => {
+    const result = await service.importCsv('Space,Zone\n');
+
+    expect(result).toBeNull();
+    expect(service.error()).toContain('no space to zone assignment');
+  });
+
+  it('should list the zones of a category', async () => {
+    await service.load();
+    await service.importCsv('101,Sales,Department');
+
+    await service.selectCategory('Department');
+
+    expect(service.rows().map((item) => item.zone.name)).toEqual(['Sales']);
+  });
+
+  it('should color the spaces by zone', async () => {
+    await service.load();
+    await service.importCsv('103,Sales,Department');
+
+    await service.showOverlay();
+
+    expect(fragmentsService.highlightItems).toHaveBeenCalledWith('m1', [1, 2], jasmine.any(Object));
+    expect(spaceAuthoringService.setSpaceColors).toHaveBeenCalledWith(
+      new Map([['a', service.mapping().zones[0]!.color]])
+    );
+  });
+
+  it('should restore the spaces when the overlay is turned off', async () => {
+    await service.load();
+    await service.showOverlay();
+
+    await service.clearOverlay();
+
+    expect(service.isOverlayActive()).toBe(false);
+    expect(fragmentsService.resetHighlight).toHaveBeenCalledWith('m1', [1, 2]);
+    expect(spaceAuthoringService.setSpaceColors).toHaveBeenCalledWith(new Map());
+  });
+
+  it('should drop the zones of an unloaded model', async () => {
+    await service.load();
+
+    service.removeModel('m1');
+
+    expect(service.zones()).toEqual([]);
+  });
+});
@@ -0,0 +1,331 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import * as THREE from 'three';
+import * as FRAGS from '@thatopen/fragments';
+import { ErrorHandlerService, ErrorSeverity } from './error-handler.service';
+import { FragmentsService } from './fragments.service';
+import { IfcFilterService } from './ifc-filter.service';
+import { SelectionService } from './selection.service';
+import { SpaceAuthoringService } from './space-authoring.service';
+import { SpaceService } from './space.service';
+import { ThemeService } from './theme.service';
+import { ElementReference } from '../../shared/models/selection.model';
+import { Zone, ZoneImport, ZoneMapping } from '../../shared/models/zone.model';
+import { ZONE_CONFIG } from '../../shared/constants/viewer.constants';
+import { getThemeColor } from '../../shared/utils/theme.utils';
+import {
+  getZoneRows,
+  getZoneTotals,
+  parseZoneCsv,
+  parseZoneMapping,
+  toModelZone,
+  toZoneMapping,
+  toZoneSpaces,
+  zonesToCsv,
+} from '../../shared/utils/zone.utils';
+
+/**
+ * Service for grouping spaces into zones such as departments, fire compartments and HVAC zones
+ *
+ * Features:
+ * - IfcZones of the loaded models with their grouped IfcSpaces
+ * - Zones imported from a CSV mapping of room number to zone (stored in the browser)
+ * - Area and occupancy per zone and in total, for IfcSpaces and authored rooms
+ * - Color-coded zone overlay of the spaces, filtered by zone category
+ * - CSV export of the zone totals
+ *
+ * @example
+ * ```typescript
+ * await this.zoneService.load();
+ * this.zoneService.importCsv('Space,Zone,Type\n101,Sales,Department');
+ * console.log(this.zoneService.totals().area);
+ *
+ * await this.zoneService.showOverlay();
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ZoneService {
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly fragmentsService = inject(FragmentsService);
+  private readonly ifcFilterService = inject(IfcFilterService);
+  private readonly selectionService = inject(SelectionService);
+  private readonly spaceAuthoringService = inject(SpaceAuthoringService);
+  private readonly spaceService = inject(SpaceService);
+  private readonly themeService = inject(ThemeService);
+
+  // State
+  private painted: ElementReference[] = [];
+
+  // Signals for reactive state
+  private readonly modelZones = signal<Zone[]>([]);
+  readonly mapping = signal<ZoneMapping>(this.read());
+  readonly category = signal<string | null>(null);
+  readonly isOverlayActive = signal<boolean>(false);
+  readonly isLoading = signal<boolean>(false);
+  readonly error = signal<string | null>(null);
+  readonly zones = computed(() => [...this.modelZones(), ...this.mapping().zones]);
+  readonly categories = computed(() =>
+    [...new Set(this.zones().map((zone) => zone.category))].sort((a, b) => a.localeCompare(b))
+  );
+  readonly spaces = computed(() =>
+    toZoneSpaces(this.spaceService.spaces(), this.spaceAuthoringService.spaces(), this.mapping().occupancy)
+  );
+  readonly rows = computed(() => {
+    const category = this.category();
+    const zones = this.zones().filter((zone) => category === null || zone.category === category);
+    return getZoneRows(zones, this.spaces());
+  });
+  readonly totals = computed(() => getZoneTotals(this.rows()));
+
+  /**
+   * Load the spaces and the IfcZones of every loaded model
+   */
+  async load(): Promise<void> {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    try {
+      await this.spaceService.load();
+
+      const zones: Zone[] = [];
+      for (const modelId of this.fragmentsService.getModelIds()) {
+        const items = await this.fragmentsService.getItemsOfCategories(modelId, [/^IFCZONE$/]);
+        const localIds = Object.values(items).flat();
+        if (localIds.length === 0) {
+          continue;
+        }
+
+        const data = await this.fragmentsService.getItemsData(modelId, localIds, {
+          attributesDefault: false,
+          attributes: ['Name', 'LongName', 'ObjectType'],
+          relations: { IsGroupedBy: { attributes: true, relations: false } },
+        });
+        data.forEach((item, index) =>
+          zones.push(toModelZone(item, { modelId, localId: localIds[index]! }, getThemeColor(zones.length)))
+        );
+      }
+      this.modelZones.set(zones);
+
+      console.log(`🗂️ Zones loaded: ${zones.length} from the models, ${this.mapping().zones.length} imported`);
+      await this.repaint();
+    } catch (error) {
+      this.modelZones.set([]);
+      this.errorHandler.handleError(error, ErrorSeverity.ERROR, {
+        operation: 'loadZones',
+      });
+      this.error.set('The zones could not be loaded');
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  /**
+   * Replace the imported zones with a CSV mapping of room number to zone
+   * Zones keep their color when imported again
+   * @param text - CSV text
+   * @returns Assignments and skipped rows, or null if the file is not a zone mapping
+   */
+  async importCsv(text: string): Promise<ZoneImport | null> {
+    let result: ZoneImport;
+    try {
+      result = parseZoneCsv(text);
+    } catch (error) {
+      this.error.set((error as Error).message);
+      return null;
+    }
+
+    const colors = Object.fromEntries(this.mapping().zones.map((zone) => [zone.id, zone.color]));
+    this.mapping.set(toZoneMapping(result.assignments, colors));
+    this.error.set(null);
+    this.write();
+
+    console.log(`🗂️ Imported ${result.assignments.length} zone assignments, ${result.skipped.length} skipped`);
+    await this.repaint();
+    return result;
+  }
+
+  /**
+   * Remove the imported zones
+   */
+  async clearImported(): Promise<void> {
+    this.mapping.set({ zones: [], occupancy: {} });
+    this.write();
+    await this.repaint();
+  }
+
+  /**
+   * Show the zones of one category (null for every category)
+   * @param category - Zone category
+   */
+  async selectCategory(category: string | null): Promise<void> {
+    this.category.set(category);
+    await this.repaint();
+  }
+
+  /**
+   * Change the color of a zone
+   * @param id - Zone ID
+   * @param color - Hex color
+   */
+  async setZoneColor(id: string, color: string): Promise<void> {
+    const recolor = (zones: Zone[]) => zones.map((zone) => (zone.id === id ? { ...zone, color } : zone));
+    if (this.mapping().zones.some((zone) => zone.id === id)) {
+      this.mapping.update((mapping) => ({ ...mapping, zones: recolor(mapping.zones) }));
+      this.write();
+    } else {
+      this.modelZones.update(recolor);
+    }
+    await this.repaint();
+  }
+
+  /**
+   * Color the spaces by zone
+   * Replaces a thematic view and shows the IfcSpace class
+   */
+  async showOverlay(): Promise<void> {
+    await this.themeService.clear();
+    await this.ifcFilterService.setClassVisibility('IfcSpace', true);
+    this.isOverlayActive.set(true);
+    await this.repaint();
+  }
+
+  /**
+   * Turn the zone overlay off and restore the space colors
+   */
+  async clearOverlay(): Promise<void> {
+    this.isOverlayActive.set(false);
+    await this.repaint();
+  }
+
+  /**
+   * Drop the zones of an unloaded model
+   * @param modelId - Fragment model UUID
+   */
+  removeModel(modelId: string): void {
+    this.modelZones.update((zones) => zones.filter((zone) => zone.modelId !== modelId));
+    this.painted = this.painted.filter((element) => element.modelId !== modelId);
+  }
+
+  /**
+   * Export the zone totals as CSV
+   * @returns CSV text with a header row and a totals row
+   */
+  exportCsv(): string {
+    return zonesToCsv(this.rows());
+  }
+
+  /**
+   * Restore the painted spaces, then paint the zones shown when the overlay is on
+   * A space in several zones takes the color of the last one
+   */
+  private async repaint(): Promise<void> {
+    try {
+      const modelIds = this.fragmentsService.getModelIds();
+      for (const [modelId, localIds] of this.groupByModel(this.painted)) {
+        if (modelIds.includes(modelId)) {
+          await this.fragmentsService.resetHighlight(modelId, localIds);
+        }
+      }
+      this.painted = [];
+
+      const elementColors = new Map<string, { element: ElementReference; color: string }>();
+      const authoredColors = new Map<string, string>();
+      if (this.isOverlayActive()) {
+        for (const { zone, spaces } of this.rows()) {
+          for (const space of spaces) {
+            if (space.element) {
+              elementColors.set(`${space.element.modelId}:${space.element.localId}`, {
+                element: space.element,
+                color: zone.color,
+              });
+            } else if (space.authoredId) {
+              authoredColors.set(space.authoredId, zone.color);
+            }
+          }
+        }
+      }
+
+      const byColor = new Map<string, ElementReference[]>();
+      elementColors.forEach(({ element, color }) => byColor.set(color, [...(byColor.get(color) ?? []), element]));
+      for (const [color, elements] of byColor) {
+        await this.paint(elements, color);
+        this.painted.push(...elements);
+      }
+
+      this.spaceAuthoringService.setSpaceColors(authoredColors);
+      await this.selectionService.refreshHighlight();
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'paintZones',
+      });
+    }
+  }
+
+  /**
+   * Color elements with an opaque material
+   */
+  private async paint(elements: ElementReference[], color: string): Promise<void> {
+    const material: FRAGS.MaterialDefinition = {
+      color: new THREE.Color(color),
+      renderedFaces: FRAGS.RenderedFaces.TWO,
+      opacity: 1,
+      transparent: false,
+    };
+
+    for (const [modelId, localIds] of this.groupByModel(elements)) {
+      await this.fragmentsService.highlightItems(modelId, localIds, material);
+    }
+  }
+
+  /**
+   * Local IDs of elements per model
+   */
+  private groupByModel(elements: ElementReference[]): Map<string, number[]> {
+    const byModel = new Map<string, number[]>();
+    for (const { modelId, localId } of elements) {
+      const localIds = byModel.get(modelId);
+      if (localIds) {
+        localIds.push(localId);
+      } else {
+        byModel.set(modelId, [localId]);
+      }
+    }
+    return byModel;
+  }
+
+  /**
+   * Read the imported zones from local storage
+   */
+  private read(): ZoneMapping {
+    try {
+      const stored = localStorage.getItem(ZONE_CONFIG.storageKey);
+      return stored ? parseZoneMapping(stored) : { zones: [], occupancy: {} };
+    } catch (error) {
+      console.warn('⚠️ Stored zones are unreadable:', error);
+      return { zones: [], occupancy: {} };
+    }
+  }
+
+  /**
+   * Store the imported zones
+   * @returns True if stored
+   */
+  private write(): boolean {
+    const mapping = this.mapping();
+
+    try {
+      if (mapping.zones.length > 0) {
+        localStorage.setItem(ZONE_CONFIG.storageKey, JSON.stringify(mapping));
+      } else {
+        localStorage.removeItem(ZONE_CONFIG.storageKey);
+      }
+      return true;
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'saveZones',
+      });
+      return false;
+    }
+  }
+}
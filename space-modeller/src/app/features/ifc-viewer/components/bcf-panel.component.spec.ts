@@ -0,0 +1,134 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { WritableSignal, computed, signal } from '@angular/core';
+import { BcfPanelComponent } from './bcf-panel.component';
+import { BcfService } from '../../../core/services/bcf.service';
+import { BcfTopic } from '../../../shared/models/bcf.model';
+
+describe('BcfPanelComponent', () => {
+  let component: BcfPanelComponent;
+  let fixture: ComponentFixture<BcfPanelComponent>;
+  let bcfService: jasmine.SpyObj<BcfService>;
+
+  const clash: BcfTopic = {
+    guid: 'topic-1',
+    title: 'Clash',
+    type: 'Issue',
+    status: 'Open',
+    assignedTo: 'mep@example.com',
+    description: 'Duct runs through the wall',
+    author: 'arch@example.com',
+    creationDate: '2024-01-01T00:00:00.000Z',
+    modifiedDate: null,
+    comments: [{ guid: 'comment-1', comment: 'Please reroute', author: 'arch@example.com', date: '2024-01-02T00:00:00.000Z' }],
+    viewpoint: null,
+  };
+
+  let topics: WritableSignal<BcfTopic[]>;
+
+  beforeEach(async () => {
+    topics = signal<BcfTopic[]>([clash]);
+
+    const bcfServiceSpy = jasmine.createSpyObj(
+      'BcfService',
+      ['setAuthor', 'updateTopic', 'addComment', 'removeTopic', 'clear', 'exportBcf', 'importBcf'],
+      {
+        topics,
+        hasTopics: computed(() => topics().length > 0),
+        author: signal('arch@example.com'),
+      }
+    );
+    bcfServiceSpy.exportBcf.and.returnValue(new Uint8Array([1]));
+    bcfServiceSpy.importBcf.and.returnValue(2);
+
+    await TestBed.configureTestingModule({
+      imports: [BcfPanelComponent],
+      providers: [{ provide: BcfService, useValue: bcfServiceSpy }],
+    }).compileComponents();
+
+    bcfService = TestBed.inject(BcfService) as jasmine.SpyObj<BcfService>;
+    fixture = TestBed.createComponent(BcfPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should list topics with their status, assignee and comments', () => {
+    const items = fixture.nativeElement.querySelectorAll('.bcf-topic');
+
+    expect(items.length).toBe(1);
+    expect(items[0].querySelector('.bcf-topic-title').textContent.trim()).toBe('Clash');
+    expect(items[0].querySelector('.bcf-meta').textContent).toContain('Open');
+    expect(items[0].querySelector('.bcf-meta').textContent).toContain('mep@example.com');
+    expect(items[0].querySelector('.bcf-meta').textContent).toContain('1 comment');
+  });
+
+  it('should ask the viewer to create a topic with a title', () => {
+    spyOn(component.createTopic, 'emit');
+
+    component.submit();
+    expect(component.createTopic.emit).not.toHaveBeenCalled();
+
+    component.onDraftInput('title', { target: { value: 'Clash' } } as unknown as Event);
+    component.submit();
+
+    expect(component.createTopic.emit).toHaveBeenCalledWith(jasmine.objectContaining({ title: 'Clash', status: 'Open' }));
+    expect(component.draft().title).toBe('');
+  });
+
+  it('should not create topics while disabled', () => {
+    fixture.componentRef.setInput('disabled', true);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.bcf-new').disabled).toBe(true);
+  });
+
+  it('should restore a topic and show its details', () => {
+    spyOn(component.restoreTopic, 'emit');
+
+    (fixture.nativeElement.querySelector('.bcf-open') as HTMLButtonElement).click();
+    fixture.detectChanges();
+
+    expect(component.restoreTopic.emit).toHaveBeenCalledWith(clash);
+    expect(fixture.nativeElement.querySelector('.bcf-comment-text').textContent).toContain('Please reroute');
+  });
+
+  it('should edit topics and add comments', () => {
+    const input = document.createElement('input');
+    input.value = 'Done';
+
+    component.onStatusChange(clash, { target: { value: 'Closed' } } as unknown as Event);
+    component.addComment(clash, input);
+    component.remove(clash);
+
+    expect(bcfService.updateTopic).toHaveBeenCalledWith('topic-1', { status: 'Closed' });
+    expect(bcfService.addComment).toHaveBeenCalledWith('topic-1', 'Done');
+    expect(input.value).toBe('');
+    expect(bcfService.removeTopic).toHaveBeenCalledWith('topic-1');
+  });
+
+  it('should export with the selected BCF version', () => {
+    const link = document.createElement('a');
+    spyOn(link, 'click');
+    spyOn(document, 'createElement').and.returnValue(link);
+
+    component.onVersionChange({ target: { value: '3.0' } } as unknown as Event);
+    component.exportBcf();
+
+    expect(bcfService.exportBcf).toHaveBeenCalledWith('3.0');
+    expect(link.download).toBe('issues.bcfzip');
+    expect(link.click).toHaveBeenCalled();
+  });
+
+  it('should report imported topics', async () => {
+    const file = new File([new Uint8Array([1, 2])], 'issues.bcfzip');
+    const input = { files: [file], value: 'issues.bcfzip' } as unknown as HTMLInputElement;
+
+    await component.onImportFile({ target: input } as unknown as Event);
+
+    expect(bcfService.importBcf).toHaveBeenCalled();
+    expect(component.importMessage()).toBe('Imported 2 topics');
+  });
+});
@@ -0,0 +1,197 @@
+import { ChangeDetectionStrategy, Component, ElementRef, inject, input, output, signal, viewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { BcfService } from '../../../core/services/bcf.service';
+import { BcfTopic, BcfTopicDraft, BcfVersion } from '../../../shared/models/bcf.model';
+import { BCF_CONFIG } from '../../../shared/constants/viewer.constants';
+
+/**
+ * BCF Panel Component
+ *
+ * Sidebar section for BCF coordination issues.
+ *
+ * Features:
+ * - Create topics bound to the current view (the viewer captures camera and snapshot)
+ * - Edit status and assignee, add comments
+ * - Restore a topic viewpoint
+ * - Export to BCF 2.1 / 3.0 .bcfzip and import .bcfzip archives
+ *
+ * @example
+ * ```html
+ * <app-bcf-panel [disabled]="!hasModel()" (createTopic)="createBcfTopic($event)" (restoreTopic)="restoreBcfTopic($event)" />
+ * ```
+ */
+@Component({
+  selector: 'app-bcf-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './bcf-panel.component.html',
+  styleUrls: ['./bcf-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class BcfPanelComponent {
+  private readonly bcfService = inject(BcfService);
+
+  // Template References
+  private readonly importInputRef = viewChild.required<ElementRef<HTMLInputElement>>('importInput');
+
+  // Inputs (new topics need a loaded model)
+  readonly disabled = input<boolean>(false);
+
+  // Outputs (the camera and snapshot are owned by the viewer)
+  readonly createTopic = output<BcfTopicDraft>();
+  readonly restoreTopic = output<BcfTopic>();
+
+  // Computed from service
+  readonly topics = this.bcfService.topics;
+  readonly hasTopics = this.bcfService.hasTopics;
+  readonly author = this.bcfService.author;
+
+  // Local state
+  readonly statuses: readonly string[] = BCF_CONFIG.statuses;
+  readonly versions: BcfVersion[] = ['2.1', '3.0'];
+  readonly version = signal<BcfVersion>('2.1');
+  readonly isFormOpen = signal<boolean>(false);
+  readonly draft = signal<BcfTopicDraft>(this.emptyDraft());
+  readonly expandedGuid = signal<string | null>(null);
+  readonly importMessage = signal<string | null>(null);
+
+  /**
+   * Show or hide the new topic form
+   */
+  toggleForm(): void {
+    this.isFormOpen.update((open) => !open);
+  }
+
+  /**
+   * Update a field of the new topic
+   */
+  onDraftInput(field: keyof BcfTopicDraft, event: Event): void {
+    const value = (event.target as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement).value;
+    this.draft.update((draft) => ({ ...draft, [field]: value }));
+  }
+
+  /**
+   * Ask the viewer to create a topic for the current view
+   */
+  submit(): void {
+    if (!this.draft().title.trim()) {
+      return;
+    }
+
+    this.createTopic.emit(this.draft());
+    this.draft.set(this.emptyDraft());
+    this.isFormOpen.set(false);
+  }
+
+  /**
+   * Set the author of new topics and comments
+   */
+  onAuthorChange(event: Event): void {
+    this.bcfService.setAuthor((event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Ask the viewer to restore the viewpoint of a topic and show its details
+   */
+  open(topic: BcfTopic): void {
+    this.expandedGuid.set(topic.guid);
+    this.restoreTopic.emit(topic);
+  }
+
+  /**
+   * Change the status of a topic
+   */
+  onStatusChange(topic: BcfTopic, event: Event): void {
+    this.bcfService.updateTopic(topic.guid, { status: (event.target as HTMLSelectElement).value });
+  }
+
+  /**
+   * Change the assignee of a topic
+   */
+  onAssigneeChange(topic: BcfTopic, event: Event): void {
+    this.bcfService.updateTopic(topic.guid, { assignedTo: (event.target as HTMLInputElement).value.trim() });
+  }
+
+  /**
+   * Add a comment to a topic
+   */
+  addComment(topic: BcfTopic, input: HTMLInputElement): void {
+    this.bcfService.addComment(topic.guid, input.value);
+    input.value = '';
+  }
+
+  /**
+   * Delete a topic
+   */
+  remove(topic: BcfTopic): void {
+    this.bcfService.removeTopic(topic.guid);
+  }
+
+  /**
+   * Delete every topic
+   */
+  clearAll(): void {
+    this.bcfService.clear();
+  }
+
+  /**
+   * Select the BCF version of exported archives
+   */
+  onVersionChange(event: Event): void {
+    this.version.set((event.target as HTMLSelectElement).value as BcfVersion);
+  }
+
+  /**
+   * Download the topics as a .bcfzip archive
+   */
+  exportBcf(): void {
+    const data = this.bcfService.exportBcf(this.version());
+    if (!data) {
+      return;
+    }
+
+    const blob = new Blob([data], { type: 'application/zip' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'issues.bcfzip';
+    link.click();
+
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Open the file picker for a .bcfzip archive
+   */
+  openImport(): void {
+    this.importInputRef().nativeElement.click();
+  }
+
+  /**
+   * Import the picked .bcfzip archive
+   */
+  async onImportFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) {
+      return;
+    }
+
+    const count = this.bcfService.importBcf(new Uint8Array(await file.arrayBuffer()));
+    this.importMessage.set(
+      count > 0 ? `Imported ${count} topic${count === 1 ? '' : 's'}` : `No topics found in ${file.name}`
+    );
+  }
+
+  /**
+   * Track by function for list performance
+   */
+  trackByGuid(index: number, topic: BcfTopic): string {
+    return topic.guid;
+  }
+
+  private emptyDraft(): BcfTopicDraft {
+    return { title: '', status: BCF_CONFIG.statuses[0], assignedTo: '', description: '' };
+  }
+}
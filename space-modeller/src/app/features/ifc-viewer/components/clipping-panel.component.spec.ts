@@ -0,0 +1,153 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { WritableSignal, computed, signal } from '@angular/core';
+import { ClippingPanelComponent } from './clipping-panel.component';
+import { ClippingService } from '../../../core/services/clipping.service';
+import { ClippingPlaneInfo, SectionBoxInfo } from '../../../shared/models/clipping.model';
+
+describe('ClippingPanelComponent', () => {
+  let component: ClippingPanelComponent;
+  let fixture: ComponentFixture<ClippingPanelComponent>;
+  let clippingService: jasmine.SpyObj<ClippingService>;
+
+  const horizontal: ClippingPlaneInfo = {
+    id: 'plane-1',
+    label: 'Plane 1 (Y)',
+    axis: 'y',
+    normal: { x: 0, y: -1, z: 0 },
+    constant: 2,
+    enabled: true,
+  };
+  const hidden: ClippingPlaneInfo = {
+    id: 'plane-2',
+    label: 'Plane 2 (X)',
+    axis: 'x',
+    normal: { x: -1, y: 0, z: 0 },
+    constant: 5,
+    enabled: false,
+  };
+
+  let planes: WritableSignal<ClippingPlaneInfo[]>;
+  let hasModelBox: WritableSignal<boolean>;
+
+  beforeEach(async () => {
+    planes = signal<ClippingPlaneInfo[]>([horizontal, hidden]);
+    hasModelBox = signal(true);
+    const sectionBox = signal<SectionBoxInfo>({
+      enabled: false,
+      min: { x: 0, y: 0, z: 0 },
+      max: { x: 10, y: 4, z: 6 },
+    });
+
+    const clippingServiceSpy = jasmine.createSpyObj(
+      'ClippingService',
+      [
+        'addPlane',
+        'flipPlane',
+        'togglePlane',
+        'removePlane',
+        'clearPlanes',
+        'setPlaneOffset',
+        'getPlaneOffsetRange',
+        'setSectionBoxEnabled',
+        'toggleSectionBox',
+        'resetSectionBox',
+      ],
+      {
+        planes,
+        sectionBox,
+        hasModelBox,
+        canAddPlane: computed(() => hasModelBox() && planes().length < 6),
+        hasActiveClipping: computed(() => planes().some((p) => p.enabled) || sectionBox().enabled),
+      }
+    );
+    clippingServiceSpy.getPlaneOffsetRange.and.returnValue({ min: -4, max: 0 });
+
+    await TestBed.configureTestingModule({
+      imports: [ClippingPanelComponent],
+      providers: [{ provide: ClippingService, useValue: clippingServiceSpy }],
+    }).compileComponents();
+
+    clippingService = TestBed.inject(ClippingService) as jasmine.SpyObj<ClippingService>;
+    fixture = TestBed.createComponent(ClippingPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show a hint until a model is loaded', () => {
+    hasModelBox.set(false);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.clipping-empty')).toBeTruthy();
+    expect(fixture.nativeElement.querySelector('.clipping-add')).toBeNull();
+  });
+
+  it('should render a row with an offset slider per plane', () => {
+    const rows = fixture.nativeElement.querySelectorAll('.clipping-plane');
+    const slider = rows[0].querySelector('.clipping-offset') as HTMLInputElement;
+
+    expect(rows.length).toBe(2);
+    expect(rows[1].classList).toContain('disabled');
+    expect(component.rows()[0]!.offset).toBe(-2);
+    expect(slider.min).toBe('-4');
+  });
+
+  it('should add axis-aligned planes', () => {
+    const buttons = fixture.nativeElement.querySelectorAll('.clipping-add-button');
+    (buttons[1] as HTMLButtonElement).click();
+
+    expect(clippingService.addPlane).toHaveBeenCalledWith('y');
+  });
+
+  it('should ask the viewer for a view plane', () => {
+    spyOn(component.addViewPlane, 'emit');
+
+    component.requestViewPlane();
+
+    expect(component.addViewPlane.emit).toHaveBeenCalled();
+  });
+
+  it('should disable adding planes at the limit', () => {
+    planes.set(Array.from({ length: 6 }, (_, i) => ({ ...horizontal, id: `plane-${i}` })));
+    fixture.detectChanges();
+
+    const buttons = fixture.nativeElement.querySelectorAll('.clipping-add-button');
+    expect(Array.from(buttons).every((b) => (b as HTMLButtonElement).disabled)).toBe(true);
+  });
+
+  it('should move a plane from its slider', () => {
+    const slider = fixture.nativeElement.querySelector('.clipping-offset') as HTMLInputElement;
+    slider.value = '-3';
+    slider.dispatchEvent(new Event('input'));
+
+    expect(clippingService.setPlaneOffset).toHaveBeenCalledWith('plane-1', -3);
+  });
+
+  it('should flip, hide and delete planes', () => {
+    component.flipPlane('plane-1');
+    component.togglePlane('plane-1');
+    component.removePlane('plane-2');
+
+    expect(clippingService.flipPlane).toHaveBeenCalledWith('plane-1');
+    expect(clippingService.togglePlane).toHaveBeenCalledWith('plane-1');
+    expect(clippingService.removePlane).toHaveBeenCalledWith('plane-2');
+  });
+
+  it('should clear planes and the section box', () => {
+    component.clearAll();
+
+    expect(clippingService.clearPlanes).toHaveBeenCalled();
+    expect(clippingService.setSectionBoxEnabled).toHaveBeenCalledWith(false);
+  });
+
+  it('should toggle and refit the section box', () => {
+    component.toggleSectionBox();
+    component.resetSectionBox();
+
+    expect(clippingService.toggleSectionBox).toHaveBeenCalled();
+    expect(clippingService.resetSectionBox).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,145 @@
+import { ChangeDetectionStrategy, Component, computed, inject, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ClippingService } from '../../../core/services/clipping.service';
+import { ClippingPlaneInfo } from '../../../shared/models/clipping.model';
+import { CLIPPING_CONFIG } from '../../../shared/constants/viewer.constants';
+
+/**
+ * Plane row with its offset slider range
+ */
+interface ClippingPlaneRow {
+  plane: ClippingPlaneInfo;
+  offset: number;
+  min: number;
+  max: number;
+  step: number;
+}
+
+/**
+ * Clipping Panel Component
+ *
+ * Sidebar section to cut into the loaded models.
+ *
+ * Features:
+ * - Add axis-aligned (X, Y, Z) or view-aligned section planes
+ * - Move planes with an offset slider (or drag their handle in the viewport)
+ * - Flip, hide and delete planes
+ * - Toggle and refit the section box
+ *
+ * @example
+ * ```html
+ * <app-clipping-panel (addViewPlane)="addViewSectionPlane()" />
+ * ```
+ */
+@Component({
+  selector: 'app-clipping-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './clipping-panel.component.html',
+  styleUrls: ['./clipping-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ClippingPanelComponent {
+  private readonly clippingService = inject(ClippingService);
+
+  // Outputs (the view direction is owned by the viewer)
+  readonly addViewPlane = output<void>();
+
+  // Computed from service
+  readonly planes = this.clippingService.planes;
+  readonly sectionBox = this.clippingService.sectionBox;
+  readonly hasModelBox = this.clippingService.hasModelBox;
+  readonly canAddPlane = this.clippingService.canAddPlane;
+  readonly hasActiveClipping = this.clippingService.hasActiveClipping;
+  readonly maxPlanes = CLIPPING_CONFIG.maxPlanes;
+
+  readonly axes = ['x', 'y', 'z'] as const;
+
+  // Plane rows with slider ranges
+  readonly rows = computed(() =>
+    this.planes().map((plane): ClippingPlaneRow => {
+      const range = this.clippingService.getPlaneOffsetRange(plane.id) ?? { min: 0, max: 0 };
+      return {
+        plane,
+        offset: -plane.constant,
+        min: range.min,
+        max: range.max,
+        step: (range.max - range.min) / 200 || 0.01,
+      };
+    })
+  );
+
+  /**
+   * Add an axis-aligned plane
+   */
+  addPlane(axis: 'x' | 'y' | 'z'): void {
+    this.clippingService.addPlane(axis);
+  }
+
+  /**
+   * Ask the viewer to add a plane facing the camera
+   */
+  requestViewPlane(): void {
+    this.addViewPlane.emit();
+  }
+
+  /**
+   * Move a plane from its offset slider
+   */
+  onOffsetInput(id: string, event: Event): void {
+    const value = Number((event.target as HTMLInputElement).value);
+    if (!Number.isNaN(value)) {
+      this.clippingService.setPlaneOffset(id, value);
+    }
+  }
+
+  /**
+   * Flip the cut side of a plane
+   */
+  flipPlane(id: string): void {
+    this.clippingService.flipPlane(id);
+  }
+
+  /**
+   * Hide or show a plane
+   */
+  togglePlane(id: string): void {
+    this.clippingService.togglePlane(id);
+  }
+
+  /**
+   * Delete a plane
+   */
+  removePlane(id: string): void {
+    this.clippingService.removePlane(id);
+  }
+
+  /**
+   * Delete every plane and disable the section box
+   */
+  clearAll(): void {
+    this.clippingService.clearPlanes();
+    this.clippingService.setSectionBoxEnabled(false);
+  }
+
+  /**
+   * Toggle the section box
+   */
+  toggleSectionBox(): void {
+    this.clippingService.toggleSectionBox();
+  }
+
+  /**
+   * Fit the section box to the models again
+   */
+  resetSectionBox(): void {
+    this.clippingService.resetSectionBox();
+  }
+
+  /**
+   * Track by function for list performance
+   */
+  trackByPlane(index: number, row: ClippingPlaneRow): string {
+    return row.plane.id;
+  }
+}
@@ -0,0 +1,97 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { WritableSignal, signal } from '@angular/core';
+import { DrawingViewsPanelComponent } from './drawing-views-panel.component';
+import { DrawingViewService } from '../../../core/services/drawing-view.service';
+import { ModelManagerService } from '../../../core/services/model-manager.service';
+import { IFCModelState, ModelLoadingStatus } from '../../../shared/models/ifc.model';
+import { DrawingView } from '../../../shared/models/drawing.model';
+
+describe('DrawingViewsPanelComponent', () => {
+  let component: DrawingViewsPanelComponent;
+  let fixture: ComponentFixture<DrawingViewsPanelComponent>;
+  let drawingViewService: jasmine.SpyObj<DrawingViewService>;
+  let loadedModels: WritableSignal<IFCModelState[]>;
+
+  const views: DrawingView[] = [
+    { id: 'north', name: 'North Elevation', kind: 'elevation', direction: { x: 0, y: 0, z: -1 }, planeId: null },
+    { id: 'plane-1', name: 'Plane 1 (X) Section', kind: 'section', direction: { x: -1, y: 0, z: 0 }, planeId: 'plane-1' },
+  ];
+
+  beforeEach(async () => {
+    loadedModels = signal([
+      { id: 's1', name: 'tower', status: ModelLoadingStatus.LOADED, progress: 100, fragmentUuid: 'm1' },
+    ]);
+
+    const drawingViewServiceSpy = jasmine.createSpyObj('DrawingViewService', ['export'], {
+      views: signal(views),
+    });
+    drawingViewServiceSpy.export.and.returnValue(
+      Promise.resolve({ success: true, data: new Uint8Array([1, 2]), fileSize: 2 })
+    );
+
+    await TestBed.configureTestingModule({
+      imports: [DrawingViewsPanelComponent],
+      providers: [
+        { provide: DrawingViewService, useValue: drawingViewServiceSpy },
+        {
+          provide: ModelManagerService,
+          useValue: jasmine.createSpyObj('ModelManagerService', [], { loadedModels }),
+        },
+      ],
+    }).compileComponents();
+
+    drawingViewService = TestBed.inject(DrawingViewService) as jasmine.SpyObj<DrawingViewService>;
+    fixture = TestBed.createComponent(DrawingViewsPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should list the views', () => {
+    const names = fixture.nativeElement.querySelectorAll('.views-name') as NodeListOf<HTMLElement>;
+
+    expect(names.length).toBe(2);
+    expect(names[1]!.textContent).toContain('Plane 1 (X) Section');
+  });
+
+  it('should show a hint without models', () => {
+    loadedModels.set([]);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.views-list')).toBeNull();
+  });
+
+  it('should ask the viewer to show a view', () => {
+    spyOn(component.showView, 'emit');
+
+    component.show(views[0]!);
+
+    expect(component.showView.emit).toHaveBeenCalledOnceWith(views[0]!);
+  });
+
+  it('should export and download a view', async () => {
+    const link = document.createElement('a');
+    spyOn(document, 'createElement').and.returnValue(link);
+    spyOn(link, 'click');
+
+    await component.export(views[1]!);
+
+    expect(drawingViewService.export).toHaveBeenCalledWith('plane-1');
+    expect(link.download).toBe('tower-plane-1-x-section.svg');
+    expect(link.click).toHaveBeenCalled();
+    expect(component.exportingId()).toBeNull();
+  });
+
+  it('should show export errors', async () => {
+    drawingViewService.export.and.returnValue(
+      Promise.resolve({ success: false, error: 'No visible geometry in this view' })
+    );
+
+    await component.export(views[0]!);
+
+    expect(component.resultMessage()).toBe('No visible geometry in this view');
+  });
+});
@@ -0,0 +1,103 @@
+import { ChangeDetectionStrategy, Component, computed, inject, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DrawingViewService } from '../../../core/services/drawing-view.service';
+import { ModelManagerService } from '../../../core/services/model-manager.service';
+import { DrawingView } from '../../../shared/models/drawing.model';
+import { DRAWING_VIEW_CONFIG } from '../../../shared/constants/viewer.constants';
+import { formatBytes } from '../../../shared/utils/three.utils';
+
+/**
+ * Drawing Views Panel Component
+ *
+ * Sidebar section for elevation and section drawings.
+ *
+ * Features:
+ * - North, south, east and west elevations and a section per section plane
+ * - Show a view in the orthographic camera (set up by the viewer)
+ * - Hidden-line SVG export with title block
+ *
+ * @example
+ * ```html
+ * <app-drawing-views-panel (showView)="showDrawingView($event)" />
+ * ```
+ */
+@Component({
+  selector: 'app-drawing-views-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './drawing-views-panel.component.html',
+  styleUrls: ['./drawing-views-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class DrawingViewsPanelComponent {
+  private readonly drawingViewService = inject(DrawingViewService);
+  private readonly modelManager = inject(ModelManagerService);
+
+  // Outputs (the camera is owned by the viewer)
+  readonly showView = output<DrawingView>();
+
+  // Computed from service
+  readonly views = this.drawingViewService.views;
+  readonly hasModels = computed(() => this.modelManager.loadedModels().length > 0);
+
+  // Local state
+  readonly exportingId = signal<string | null>(null);
+  readonly resultMessage = signal<string | null>(null);
+
+  /**
+   * Show a view in the viewport
+   */
+  show(view: DrawingView): void {
+    this.resultMessage.set(null);
+    this.showView.emit(view);
+  }
+
+  /**
+   * Export a view as SVG and download it
+   */
+  async export(view: DrawingView): Promise<void> {
+    if (this.exportingId()) {
+      return;
+    }
+
+    this.exportingId.set(view.id);
+    this.resultMessage.set(null);
+
+    try {
+      const result = await this.drawingViewService.export(view.id);
+      if (!result.success || !result.data) {
+        this.resultMessage.set(result.error ?? 'Export failed');
+        return;
+      }
+
+      const fileName = `${this.getBaseName()}-${this.toFileName(view.name)}.svg`;
+      const blob = new Blob([result.data], { type: DRAWING_VIEW_CONFIG.mimeType });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+
+      URL.revokeObjectURL(url);
+
+      this.resultMessage.set(`${fileName}: ${formatBytes(result.fileSize ?? 0)}`);
+    } finally {
+      this.exportingId.set(null);
+    }
+  }
+
+  /**
+   * Name of the only loaded model, or "models" for several
+   */
+  private getBaseName(): string {
+    const models = this.modelManager.loadedModels();
+    return models.length === 1 ? models[0]!.name : 'models';
+  }
+
+  /**
+   * View name usable in a file name
+   */
+  private toFileName(name: string): string {
+    return name.trim().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'view';
+  }
+}
@@ -0,0 +1,108 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { WritableSignal, computed, signal } from '@angular/core';
+import { GltfExportPanelComponent } from './gltf-export-panel.component';
+import { GltfExportService } from '../../../core/services/gltf-export.service';
+import { SelectionService } from '../../../core/services/selection.service';
+import { ClippingService } from '../../../core/services/clipping.service';
+import { ModelManagerService } from '../../../core/services/model-manager.service';
+import { ModelLoadingStatus } from '../../../shared/models/ifc.model';
+
+describe('GltfExportPanelComponent', () => {
+  let component: GltfExportPanelComponent;
+  let fixture: ComponentFixture<GltfExportPanelComponent>;
+  let gltfExportService: jasmine.SpyObj<GltfExportService>;
+  let hasSelection: WritableSignal<boolean>;
+  let hasActiveClipping: WritableSignal<boolean>;
+
+  const model = { id: 's1', name: 'tower', status: ModelLoadingStatus.LOADED, progress: 100, fragmentUuid: 'm1' };
+
+  beforeEach(async () => {
+    hasSelection = signal(false);
+    hasActiveClipping = signal(false);
+
+    const gltfExportServiceSpy = jasmine.createSpyObj('GltfExportService', ['export']);
+    gltfExportServiceSpy.export.and.returnValue(
+      Promise.resolve({ success: true, data: new Uint8Array([1, 2, 3]), fileSize: 3, duration: 42 })
+    );
+
+    await TestBed.configureTestingModule({
+      imports: [GltfExportPanelComponent],
+      providers: [
+        { provide: GltfExportService, useValue: gltfExportServiceSpy },
+        { provide: SelectionService, useValue: jasmine.createSpyObj('SelectionService', [], { hasSelection }) },
+        { provide: ClippingService, useValue: jasmine.createSpyObj('ClippingService', [], { hasActiveClipping }) },
+        {
+          provide: ModelManagerService,
+          useValue: jasmine.createSpyObj('ModelManagerService', [], {
+            models: signal([model]),
+            activeModel: computed(() => model),
+          }),
+        },
+      ],
+    }).compileComponents();
+
+    gltfExportService = TestBed.inject(GltfExportService) as jasmine.SpyObj<GltfExportService>;
+    fixture = TestBed.createComponent(GltfExportPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should turn off selection and clipping options that do not apply', () => {
+    component.onFlagChange('selectionOnly', { target: { checked: true } } as unknown as Event);
+
+    expect(component.options().selectionOnly).toBe(false);
+    expect(component.options().applyClipping).toBe(false);
+
+    hasSelection.set(true);
+    hasActiveClipping.set(true);
+
+    expect(component.options().selectionOnly).toBe(true);
+    expect(component.options().applyClipping).toBe(true);
+  });
+
+  it('should disable unavailable options', () => {
+    const inputs = fixture.nativeElement.querySelectorAll('.gltf-option input') as NodeListOf<HTMLInputElement>;
+
+    expect(inputs[0]!.disabled).toBe(true);
+    expect(inputs[1]!.disabled).toBe(false);
+    expect(inputs[2]!.disabled).toBe(true);
+  });
+
+  it('should export and download the file with its size and duration', async () => {
+    const link = document.createElement('a');
+    spyOn(document, 'createElement').and.returnValue(link);
+    spyOn(link, 'click');
+
+    component.onFormatChange({ target: { value: 'gltf' } } as unknown as Event);
+    component.onFlagChange('mergeByClass', { target: { checked: true } } as unknown as Event);
+    await component.export();
+
+    expect(gltfExportService.export).toHaveBeenCalledWith(
+      jasmine.objectContaining({ format: 'gltf', mergeByClass: true, includeProperties: true })
+    );
+    expect(link.download).toBe('tower.gltf');
+    expect(link.click).toHaveBeenCalled();
+    expect(component.resultMessage()).toContain('42 ms');
+  });
+
+  it('should show export errors', async () => {
+    gltfExportService.export.and.returnValue(Promise.resolve({ success: false, error: 'No visible geometry to export' }));
+
+    await component.export();
+
+    expect(component.resultMessage()).toBe('No visible geometry to export');
+    expect(component.isExporting()).toBe(false);
+  });
+
+  it('should not export while disabled', async () => {
+    fixture.componentRef.setInput('disabled', true);
+
+    await component.export();
+
+    expect(gltfExportService.export).not.toHaveBeenCalled();
+  });
+});
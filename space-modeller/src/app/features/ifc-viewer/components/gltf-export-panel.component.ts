@@ -0,0 +1,134 @@
+import { ChangeDetectionStrategy, Component, computed, inject, input, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { GltfExportService } from '../../../core/services/gltf-export.service';
+import { SelectionService } from '../../../core/services/selection.service';
+import { ClippingService } from '../../../core/services/clipping.service';
+import { ModelManagerService } from '../../../core/services/model-manager.service';
+import { GltfExportOptions, GltfFormat } from '../../../shared/models/export.model';
+import { GLTF_EXPORT_CONFIG } from '../../../shared/constants/viewer.constants';
+import { formatBytes } from '../../../shared/utils/three.utils';
+
+/**
+ * Export options that can be toggled in the panel
+ */
+type GltfExportFlag = 'selectionOnly' | 'mergeByClass' | 'applyClipping' | 'includeProperties';
+
+/**
+ * glTF Export Panel Component
+ *
+ * Sidebar options for exporting the visible geometry as GLB or glTF.
+ *
+ * Features:
+ * - GLB (binary) or glTF (JSON with embedded buffers)
+ * - Selection-only export, merging by class, current clipping and IFC properties as extras
+ * - Size and duration of the last export
+ *
+ * @example
+ * ```html
+ * <app-gltf-export-panel [disabled]="!hasModel() || isLoading()" />
+ * ```
+ */
+@Component({
+  selector: 'app-gltf-export-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './gltf-export-panel.component.html',
+  styleUrls: ['./gltf-export-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class GltfExportPanelComponent {
+  private readonly gltfExportService = inject(GltfExportService);
+  private readonly selectionService = inject(SelectionService);
+  private readonly clippingService = inject(ClippingService);
+  private readonly modelManager = inject(ModelManagerService);
+
+  // Inputs (exports need a loaded model)
+  readonly disabled = input<boolean>(false);
+
+  // Computed from services
+  readonly hasSelection = this.selectionService.hasSelection;
+  readonly hasActiveClipping = this.clippingService.hasActiveClipping;
+
+  // Local state
+  readonly formats: { value: GltfFormat; label: string }[] = [
+    { value: 'glb', label: 'GLB (binary)' },
+    { value: 'gltf', label: 'glTF (JSON)' },
+  ];
+  readonly format = signal<GltfFormat>('glb');
+  readonly flags = signal<Record<GltfExportFlag, boolean>>({
+    selectionOnly: false,
+    mergeByClass: false,
+    applyClipping: true,
+    includeProperties: true,
+  });
+  readonly isExporting = signal<boolean>(false);
+  readonly resultMessage = signal<string | null>(null);
+
+  // Options as they apply to the current state (no selection or clipping turns the option off)
+  readonly options = computed<GltfExportOptions>(() => ({
+    format: this.format(),
+    selectionOnly: this.flags().selectionOnly && this.hasSelection(),
+    mergeByClass: this.flags().mergeByClass,
+    applyClipping: this.flags().applyClipping && this.hasActiveClipping(),
+    includeProperties: this.flags().includeProperties,
+  }));
+
+  /**
+   * Change the export format
+   */
+  onFormatChange(event: Event): void {
+    this.format.set((event.target as HTMLSelectElement).value as GltfFormat);
+  }
+
+  /**
+   * Toggle an export option
+   */
+  onFlagChange(flag: GltfExportFlag, event: Event): void {
+    const checked = (event.target as HTMLInputElement).checked;
+    this.flags.update((flags) => ({ ...flags, [flag]: checked }));
+  }
+
+  /**
+   * Export the visible geometry and download it
+   */
+  async export(): Promise<void> {
+    if (this.disabled() || this.isExporting()) {
+      return;
+    }
+
+    const options = this.options();
+    this.isExporting.set(true);
+    this.resultMessage.set(null);
+
+    try {
+      const result = await this.gltfExportService.export(options);
+      if (!result.success || !result.data) {
+        this.resultMessage.set(result.error ?? 'Export failed');
+        return;
+      }
+
+      const fileName = `${this.getBaseName(options)}.${options.format}`;
+      const blob = new Blob([result.data], { type: GLTF_EXPORT_CONFIG.mimeTypes[options.format] });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+
+      URL.revokeObjectURL(url);
+
+      this.resultMessage.set(`${fileName}: ${formatBytes(result.fileSize ?? 0)} in ${result.duration ?? 0} ms`);
+    } finally {
+      this.isExporting.set(false);
+    }
+  }
+
+  /**
+   * File name without extension
+   */
+  private getBaseName(options: GltfExportOptions): string {
+    const models = this.modelManager.models();
+    const name = models.length === 1 ? models[0]!.name : this.modelManager.activeModel()?.name ?? 'models';
+    return options.selectionOnly ? `${name}-selection` : name;
+  }
+}
@@ -0,0 +1,136 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { WritableSignal, computed, signal } from '@angular/core';
+import { MeasurementPanelComponent } from './measurement-panel.component';
+import { MeasurementService } from '../../../core/services/measurement.service';
+import { Measurement, MeasurementType } from '../../../shared/models/measurement.model';
+import { DEFAULT_PROJECT_UNITS } from '../../../shared/constants/viewer.constants';
+
+describe('MeasurementPanelComponent', () => {
+  let component: MeasurementPanelComponent;
+  let fixture: ComponentFixture<MeasurementPanelComponent>;
+  let measurementService: jasmine.SpyObj<MeasurementService>;
+
+  const distance: Measurement = {
+    id: 'm-1',
+    type: 'distance',
+    label: 'Distance 1',
+    value: 2,
+    points: [
+      { x: 0, y: 0, z: 0 },
+      { x: 2, y: 0, z: 0 },
+    ],
+  };
+
+  let tool: WritableSignal<MeasurementType>;
+  let measurements: WritableSignal<Measurement[]>;
+  let draftPointCount: WritableSignal<number>;
+
+  beforeEach(async () => {
+    tool = signal<MeasurementType>('distance');
+    measurements = signal<Measurement[]>([distance]);
+    draftPointCount = signal(0);
+
+    const measurementServiceSpy = jasmine.createSpyObj(
+      'MeasurementService',
+      [
+        'setTool',
+        'finishDraft',
+        'cancelDraft',
+        'removeMeasurement',
+        'clearMeasurements',
+        'formatValue',
+        'exportCsv',
+      ],
+      {
+        tool,
+        measurements,
+        draftPointCount,
+        units: signal(DEFAULT_PROJECT_UNITS),
+        hasMeasurements: computed(() => measurements().length > 0),
+        canFinish: computed(() => tool() === 'polyline' && draftPointCount() >= 2),
+      }
+    );
+    measurementServiceSpy.formatValue.and.returnValue('2.000 m');
+    measurementServiceSpy.exportCsv.and.returnValue('Label,Type,Value,Unit,Points');
+
+    await TestBed.configureTestingModule({
+      imports: [MeasurementPanelComponent],
+      providers: [{ provide: MeasurementService, useValue: measurementServiceSpy }],
+    }).compileComponents();
+
+    measurementService = TestBed.inject(MeasurementService) as jasmine.SpyObj<MeasurementService>;
+    fixture = TestBed.createComponent(MeasurementPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should list measurements with their formatted values', () => {
+    const items = fixture.nativeElement.querySelectorAll('.measurement-item');
+
+    expect(items.length).toBe(1);
+    expect(items[0].querySelector('.measurement-value').textContent.trim()).toBe('2.000 m');
+  });
+
+  it('should select a tool and ask the viewer to start measuring', () => {
+    spyOn(component.activate, 'emit');
+
+    component.selectTool('angle');
+
+    expect(measurementService.setTool).toHaveBeenCalledWith('angle');
+    expect(component.activate.emit).toHaveBeenCalled();
+  });
+
+  it('should highlight the tool only while measuring', () => {
+    expect(fixture.nativeElement.querySelector('.measurement-tool.active')).toBeNull();
+
+    fixture.componentRef.setInput('active', true);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.measurement-tool.active').textContent.trim()).toBe('Distance');
+    expect(fixture.nativeElement.querySelector('.measurement-hint').textContent).toContain('two points');
+  });
+
+  it('should finish and cancel a polyline', () => {
+    tool.set('polyline');
+    draftPointCount.set(2);
+    fixture.detectChanges();
+
+    const buttons = fixture.nativeElement.querySelectorAll('.measurement-draft .measurement-button');
+    (buttons[0] as HTMLButtonElement).click();
+    (buttons[1] as HTMLButtonElement).click();
+
+    expect(measurementService.finishDraft).toHaveBeenCalled();
+    expect(measurementService.cancelDraft).toHaveBeenCalled();
+  });
+
+  it('should delete and clear measurements', () => {
+    component.removeMeasurement('m-1');
+    component.clearAll();
+
+    expect(measurementService.removeMeasurement).toHaveBeenCalledWith('m-1');
+    expect(measurementService.clearMeasurements).toHaveBeenCalled();
+  });
+
+  it('should download the measurements as CSV', () => {
+    const link = document.createElement('a');
+    spyOn(link, 'click');
+    spyOn(document, 'createElement').and.returnValue(link);
+
+    component.exportCsv();
+
+    expect(measurementService.exportCsv).toHaveBeenCalled();
+    expect(link.download).toBe('measurements.csv');
+    expect(link.click).toHaveBeenCalled();
+  });
+
+  it('should hide the list actions without measurements', () => {
+    measurements.set([]);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.measurement-header .measurement-button')).toBeNull();
+  });
+});
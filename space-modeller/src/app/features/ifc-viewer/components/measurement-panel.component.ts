@@ -0,0 +1,143 @@
+import { ChangeDetectionStrategy, Component, computed, inject, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MeasurementService } from '../../../core/services/measurement.service';
+import { Measurement, MeasurementType } from '../../../shared/models/measurement.model';
+
+/**
+ * Measurement tool with its button label and usage hint
+ */
+interface MeasurementTool {
+  value: MeasurementType;
+  label: string;
+  hint: string;
+}
+
+/**
+ * Measurement row with its formatted value
+ */
+interface MeasurementRow {
+  measurement: Measurement;
+  value: string;
+}
+
+/**
+ * Measurement Panel Component
+ *
+ * Sidebar section to measure the loaded models.
+ *
+ * Features:
+ * - Distance, polyline, angle, area and volume tools
+ * - Finish or cancel an unfinished measurement
+ * - List of measurements in the project units
+ * - Delete measurements and export them to CSV
+ *
+ * @example
+ * ```html
+ * <app-measurement-panel [active]="isMeasuring()" (activate)="startMeasuring()" />
+ * ```
+ */
+@Component({
+  selector: 'app-measurement-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './measurement-panel.component.html',
+  styleUrls: ['./measurement-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class MeasurementPanelComponent {
+  private readonly measurementService = inject(MeasurementService);
+
+  // Inputs (the interaction mode is owned by the viewer)
+  readonly active = input<boolean>(false);
+
+  // Outputs
+  readonly activate = output<void>();
+
+  // Computed from service
+  readonly tool = this.measurementService.tool;
+  readonly measurements = this.measurementService.measurements;
+  readonly hasMeasurements = this.measurementService.hasMeasurements;
+  readonly draftPointCount = this.measurementService.draftPointCount;
+  readonly canFinish = this.measurementService.canFinish;
+
+  readonly tools: readonly MeasurementTool[] = [
+    { value: 'distance', label: 'Distance', hint: 'Click two points' },
+    { value: 'polyline', label: 'Polyline', hint: 'Click points, double-click to finish' },
+    { value: 'angle', label: 'Angle', hint: 'Click a point, the vertex, then another point' },
+    { value: 'area', label: 'Area', hint: 'Click a face' },
+    { value: 'volume', label: 'Volume', hint: 'Click an element' },
+  ];
+
+  readonly hint = computed(() => this.tools.find((t) => t.value === this.tool())?.hint ?? '');
+
+  // Measurement rows with values in the project units
+  readonly rows = computed(() => {
+    this.measurementService.units();
+    return this.measurements().map(
+      (measurement): MeasurementRow => ({
+        measurement,
+        value: this.measurementService.formatValue(measurement),
+      })
+    );
+  });
+
+  /**
+   * Select a tool and switch the viewport to measuring
+   */
+  selectTool(tool: MeasurementType): void {
+    this.measurementService.setTool(tool);
+    if (!this.active()) {
+      this.activate.emit();
+    }
+  }
+
+  /**
+   * Complete the polyline being drawn
+   */
+  finish(): void {
+    this.measurementService.finishDraft();
+  }
+
+  /**
+   * Drop the points of the measurement being drawn
+   */
+  cancel(): void {
+    this.measurementService.cancelDraft();
+  }
+
+  /**
+   * Delete a measurement
+   */
+  removeMeasurement(id: string): void {
+    this.measurementService.removeMeasurement(id);
+  }
+
+  /**
+   * Delete every measurement
+   */
+  clearAll(): void {
+    this.measurementService.clearMeasurements();
+  }
+
+  /**
+   * Download the measurements as a CSV file
+   */
+  exportCsv(): void {
+    const blob = new Blob([this.measurementService.exportCsv()], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'measurements.csv';
+    link.click();
+
+    URL.revokeObjectURL(url);
+    console.log(`✅ Exported ${this.measurements().length} measurements`);
+  }
+
+  /**
+   * Track by function for list performance
+   */
+  trackByMeasurement(index: number, row: MeasurementRow): string {
+    return row.measurement.id;
+  }
+}
@@ -0,0 +1,141 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { WritableSignal, computed, signal } from '@angular/core';
+import { ModelDiffPanelComponent } from './model-diff-panel.component';
+import { ModelDiffService } from '../../../core/services/model-diff.service';
+import { ModelManagerService } from '../../../core/services/model-manager.service';
+import { DiffEntry, DiffStatus } from '../../../shared/models/diff.model';
+import { IFCModelState, ModelLoadingStatus } from '../../../shared/models/ifc.model';
+import { filterDiffEntries, getDiffSummary } from '../../../shared/utils/diff.utils';
+
+describe('ModelDiffPanelComponent', () => {
+  let component: ModelDiffPanelComponent;
+  let fixture: ComponentFixture<ModelDiffPanelComponent>;
+  let modelDiffService: jasmine.SpyObj<ModelDiffService>;
+  let entries: WritableSignal<DiffEntry[]>;
+  let models: WritableSignal<IFCModelState[]>;
+
+  const model = (id: string): IFCModelState =>
+    ({ id, name: `${id}.ifc`, fragmentUuid: `${id}-uuid`, status: ModelLoadingStatus.LOADED }) as IFCModelState;
+
+  const diffEntries: DiffEntry[] = [
+    {
+      globalId: 'guid-d',
+      status: 'added',
+      ifcClass: 'IfcDoor',
+      name: 'Door 1',
+      base: null,
+      revision: { modelId: 'v2-uuid', localId: 14 },
+      geometryChanged: false,
+      properties: [],
+    },
+    {
+      globalId: 'guid-a',
+      status: 'properties',
+      ifcClass: 'IfcWall',
+      name: 'Wall 1',
+      base: { modelId: 'v1-uuid', localId: 1 },
+      revision: { modelId: 'v2-uuid', localId: 11 },
+      geometryChanged: false,
+      properties: [{ key: 'Tag', before: 'W1', after: 'W1b' }],
+    },
+  ];
+
+  beforeEach(async () => {
+    entries = signal<DiffEntry[]>([]);
+    models = signal<IFCModelState[]>([model('v1'), model('v2')]);
+    const statuses = signal<DiffStatus[]>(['added', 'removed', 'geometry', 'properties']);
+    const ifcClass = signal<string | null>(null);
+    const search = signal('');
+
+    const modelDiffServiceSpy = jasmine.createSpyObj(
+      'ModelDiffService',
+      ['compare', 'clear', 'toggleStatus', 'select', 'exportJson', 'exportCsv'],
+      {
+        entries,
+        statuses,
+        ifcClass,
+        search,
+        summary: computed(() => getDiffSummary(entries())),
+        classes: computed(() => [...new Set(entries().map((entry) => entry.ifcClass))]),
+        filteredEntries: computed(() =>
+          filterDiffEntries(entries(), { statuses: statuses(), ifcClass: ifcClass(), search: search() })
+        ),
+        isComparing: signal(false),
+        error: signal<string | null>(null),
+      }
+    );
+    modelDiffServiceSpy.compare.and.returnValue(Promise.resolve());
+    modelDiffServiceSpy.clear.and.returnValue(Promise.resolve());
+    modelDiffServiceSpy.toggleStatus.and.returnValue(Promise.resolve());
+    modelDiffServiceSpy.select.and.returnValue(Promise.resolve());
+
+    await TestBed.configureTestingModule({
+      imports: [ModelDiffPanelComponent],
+      providers: [
+        { provide: ModelDiffService, useValue: modelDiffServiceSpy },
+        { provide: ModelManagerService, useValue: { loadedModels: models } },
+      ],
+    }).compileComponents();
+
+    modelDiffService = TestBed.inject(ModelDiffService) as jasmine.SpyObj<ModelDiffService>;
+    fixture = TestBed.createComponent(ModelDiffPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should compare the first two models by default', async () => {
+    await component.compare();
+
+    expect(modelDiffService.compare).toHaveBeenCalledWith('v1-uuid', 'v2-uuid');
+  });
+
+  it('should compare the picked models', async () => {
+    component.onBaseChange({ target: { value: 'v2-uuid' } } as unknown as Event);
+    component.onRevisionChange({ target: { value: 'v1-uuid' } } as unknown as Event);
+    await component.compare();
+
+    expect(modelDiffService.compare).toHaveBeenCalledWith('v2-uuid', 'v1-uuid');
+  });
+
+  it('should list the changes with their counts', () => {
+    entries.set(diffEntries);
+    fixture.detectChanges();
+
+    const items = fixture.nativeElement.querySelectorAll('.diff-entry');
+    expect(items.length).toBe(2);
+    expect(items[1].textContent).toContain('1 value changed');
+    expect(fixture.nativeElement.querySelector('.diff-statuses').textContent).toContain('Added');
+  });
+
+  it('should filter the changes by class and search text', () => {
+    entries.set(diffEntries);
+    component.onClassChange({ target: { value: 'IfcWall' } } as unknown as Event);
+    fixture.detectChanges();
+    expect(fixture.nativeElement.querySelectorAll('.diff-entry').length).toBe(1);
+
+    component.onClassChange({ target: { value: '' } } as unknown as Event);
+    component.onSearchInput({ target: { value: 'door' } } as unknown as Event);
+    fixture.detectChanges();
+    expect(fixture.nativeElement.querySelector('.diff-entry').textContent).toContain('Door 1');
+  });
+
+  it('should toggle a kind of change and select an entry', async () => {
+    await component.toggleStatus('unchanged');
+    expect(modelDiffService.toggleStatus).toHaveBeenCalledWith('unchanged');
+
+    await component.select(diffEntries[0]!);
+    expect(modelDiffService.select).toHaveBeenCalledWith(diffEntries[0]!);
+  });
+
+  it('should show a hint with fewer than two models', () => {
+    models.set([model('v1')]);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.diff-select')).toBeNull();
+    expect(fixture.nativeElement.textContent).toContain('Load two revisions');
+  });
+});
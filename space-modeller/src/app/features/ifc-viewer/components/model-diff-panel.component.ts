@@ -0,0 +1,181 @@
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ModelDiffService } from '../../../core/services/model-diff.service';
+import { ModelManagerService } from '../../../core/services/model-manager.service';
+import { DiffEntry, DiffStatus } from '../../../shared/models/diff.model';
+import { DIFF_CONFIG } from '../../../shared/constants/viewer.constants';
+import { downloadCsv } from '../../../shared/utils/csv.utils';
+import { getDiffLabel, getShownDiffStatus } from '../../../shared/utils/diff.utils';
+import { downloadBlob } from '../../../shared/utils/download.utils';
+
+/**
+ * Model Diff Panel Component
+ *
+ * Sidebar section that compares two loaded revisions of a model.
+ *
+ * Features:
+ * - Base and revision picked from the loaded models (the first two by default)
+ * - Counts of added, removed, geometry changed, properties changed and unchanged elements
+ * - Kinds of change toggled in the list and the viewport, with their colors
+ * - Changes filtered by IFC class and search text, selected on click
+ * - JSON and CSV report download
+ *
+ * @example
+ * ```html
+ * <app-model-diff-panel />
+ * ```
+ */
+@Component({
+  selector: 'app-model-diff-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './model-diff-panel.component.html',
+  styleUrls: ['./model-diff-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ModelDiffPanelComponent {
+  private readonly modelDiffService = inject(ModelDiffService);
+  private readonly modelManager = inject(ModelManagerService);
+
+  // Computed from service
+  readonly models = this.modelManager.loadedModels;
+  readonly entries = this.modelDiffService.entries;
+  readonly filteredEntries = this.modelDiffService.filteredEntries;
+  readonly summary = this.modelDiffService.summary;
+  readonly classes = this.modelDiffService.classes;
+  readonly statuses = this.modelDiffService.statuses;
+  readonly ifcClass = this.modelDiffService.ifcClass;
+  readonly search = this.modelDiffService.search;
+  readonly isComparing = this.modelDiffService.isComparing;
+  readonly error = this.modelDiffService.error;
+
+  // Local state
+  private readonly pickedBase = signal<string | null>(null);
+  private readonly pickedRevision = signal<string | null>(null);
+  readonly baseId = computed(() => this.pick(this.pickedBase(), 0));
+  readonly revisionId = computed(() => this.pick(this.pickedRevision(), 1));
+  readonly listed = computed(() => this.filteredEntries().slice(0, DIFF_CONFIG.maxListed));
+
+  readonly statusOptions = (Object.keys(DIFF_CONFIG.statuses) as DiffStatus[]).map((status) => ({
+    status,
+    ...DIFF_CONFIG.statuses[status],
+  }));
+
+  /**
+   * Pick the base model
+   */
+  onBaseChange(event: Event): void {
+    this.pickedBase.set((event.target as HTMLSelectElement).value || null);
+  }
+
+  /**
+   * Pick the revision model
+   */
+  onRevisionChange(event: Event): void {
+    this.pickedRevision.set((event.target as HTMLSelectElement).value || null);
+  }
+
+  /**
+   * Compare the picked models
+   */
+  async compare(): Promise<void> {
+    const baseId = this.baseId();
+    const revisionId = this.revisionId();
+    if (baseId && revisionId) {
+      await this.modelDiffService.compare(baseId, revisionId);
+    }
+  }
+
+  /**
+   * End the comparison
+   */
+  async clear(): Promise<void> {
+    await this.modelDiffService.clear();
+  }
+
+  /**
+   * Show or hide a kind of change
+   */
+  async toggleStatus(status: DiffStatus): Promise<void> {
+    await this.modelDiffService.toggleStatus(status);
+  }
+
+  /**
+   * List the changes of one IFC class
+   */
+  onClassChange(event: Event): void {
+    this.ifcClass.set((event.target as HTMLSelectElement).value || null);
+  }
+
+  /**
+   * Search the changes
+   */
+  onSearchInput(event: Event): void {
+    this.search.set((event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Select the element of a change
+   */
+  async select(entry: DiffEntry): Promise<void> {
+    await this.modelDiffService.select(entry);
+  }
+
+  /**
+   * Color of a kind of change
+   */
+  color(status: DiffStatus): string {
+    return DIFF_CONFIG.statuses[status].color;
+  }
+
+  /**
+   * Color of a listed change, as painted in the viewport
+   */
+  entryColor(entry: DiffEntry): string {
+    return this.color(getShownDiffStatus(entry, this.statuses()) ?? entry.status);
+  }
+
+  /**
+   * Label of the change of an entry
+   */
+  label(entry: DiffEntry): string {
+    return getDiffLabel(entry);
+  }
+
+  /**
+   * Text of the changed values of an entry
+   */
+  describe(entry: DiffEntry): string {
+    return entry.properties
+      .map((change) => `${change.key}: ${change.before ?? '–'} → ${change.after ?? '–'}`)
+      .join('\n');
+  }
+
+  /**
+   * Download the report as a JSON file
+   */
+  exportJson(): void {
+    downloadBlob(new Blob([this.modelDiffService.exportJson()], { type: 'application/json' }), 'model-diff.json');
+    this.logExport();
+  }
+
+  /**
+   * Download the report as a CSV file
+   */
+  exportCsv(): void {
+    downloadCsv(this.modelDiffService.exportCsv(), 'model-diff.csv');
+    this.logExport();
+  }
+
+  private logExport(): void {
+    console.log(`✅ Exported the comparison of ${this.entries().length} elements`);
+  }
+
+  /**
+   * Picked model if still loaded, else the loaded model at an index
+   */
+  private pick(picked: string | null, index: number): string | null {
+    const uuids = this.models().map((model) => model.fragmentUuid!);
+    return picked && uuids.includes(picked) ? picked : (uuids[index] ?? null);
+  }
+}
@@ -0,0 +1,125 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { WritableSignal, computed, signal } from '@angular/core';
+import { ModelListComponent } from './model-list.component';
+import { ModelManagerService } from '../../../core/services/model-manager.service';
+import { IFCModelState, ModelLoadingStatus } from '../../../shared/models/ifc.model';
+
+describe('ModelListComponent', () => {
+  let component: ModelListComponent;
+  let fixture: ComponentFixture<ModelListComponent>;
+  let modelManager: jasmine.SpyObj<ModelManagerService>;
+  let models: WritableSignal<IFCModelState[]>;
+
+  // Mock data
+  const mockModels: IFCModelState[] = [
+    {
+      id: 'architecture',
+      name: 'architecture',
+      status: ModelLoadingStatus.LOADED,
+      progress: 100,
+      fragmentUuid: 'arch-uuid',
+      fileSize: 2048,
+      visible: true,
+    },
+    {
+      id: 'structure',
+      name: 'structure',
+      status: ModelLoadingStatus.LOADED,
+      progress: 100,
+      fragmentUuid: 'struct-uuid',
+      fileSize: 4096,
+      visible: false,
+    },
+  ];
+
+  beforeEach(async () => {
+    models = signal(mockModels);
+    const modelManagerSpy = jasmine.createSpyObj(
+      'ModelManagerService',
+      ['setActiveModel', 'toggleModelVisibility', 'shiftModel'],
+      {
+        models,
+        activeModelId: signal('architecture'),
+        modelCount: computed(() => models().length),
+      }
+    );
+
+    await TestBed.configureTestingModule({
+      imports: [ModelListComponent],
+      providers: [{ provide: ModelManagerService, useValue: modelManagerSpy }],
+    }).compileComponents();
+
+    modelManager = TestBed.inject(ModelManagerService) as jasmine.SpyObj<ModelManagerService>;
+    fixture = TestBed.createComponent(ModelListComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  describe('Template', () => {
+    it('should render one row per model', () => {
+      const rows = fixture.nativeElement.querySelectorAll('.model-item');
+      expect(rows.length).toBe(2);
+    });
+
+    it('should show cancelled loads', () => {
+      models.set([{ id: 'mep', name: 'mep', status: ModelLoadingStatus.CANCELLED, progress: 40 }]);
+      fixture.detectChanges();
+
+      const row = fixture.nativeElement.querySelector('.model-item.cancelled');
+      expect(row.querySelector('.model-meta').textContent.trim()).toBe('Cancelled');
+    });
+
+    it('should mark the active model', () => {
+      const active = fixture.nativeElement.querySelector('.model-item.active');
+      expect(active.textContent).toContain('architecture');
+    });
+
+    it('should mark hidden models', () => {
+      const hidden = fixture.nativeElement.querySelector('.model-item.hidden-model');
+      expect(hidden.textContent).toContain('structure');
+    });
+  });
+
+  describe('Actions', () => {
+    it('should select a model', () => {
+      component.select(mockModels[1]!);
+      expect(modelManager.setActiveModel).toHaveBeenCalledWith('structure');
+    });
+
+    it('should toggle visibility', () => {
+      component.toggleVisibility(mockModels[0]!);
+      expect(modelManager.toggleModelVisibility).toHaveBeenCalledWith('architecture');
+    });
+
+    it('should move a model', () => {
+      component.move(mockModels[1]!, -1);
+      expect(modelManager.shiftModel).toHaveBeenCalledWith('structure', -1);
+    });
+
+    it('should emit focus requests', () => {
+      spyOn(component.focusModel, 'emit');
+      component.focus(mockModels[0]!);
+      expect(component.focusModel.emit).toHaveBeenCalledWith('architecture');
+    });
+
+    it('should emit unload requests', () => {
+      spyOn(component.unloadModel, 'emit');
+      component.unload(mockModels[1]!);
+      expect(component.unloadModel.emit).toHaveBeenCalledWith('structure');
+    });
+  });
+
+  describe('formatSize', () => {
+    it('should format file sizes', () => {
+      expect(component.formatSize(2048)).toBe('2 KB');
+    });
+
+    it('should return empty string for unknown size', () => {
+      expect(component.formatSize(undefined)).toBe('');
+    });
+  });
+});
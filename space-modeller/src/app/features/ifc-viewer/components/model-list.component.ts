@@ -0,0 +1,98 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  inject,
+  output,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ModelManagerService } from '../../../core/services/model-manager.service';
+import { IFCModelState } from '../../../shared/models/ifc.model';
+import { formatBytes } from '../../../shared/utils/three.utils';
+
+/**
+ * Model List Component
+ * 
+ * Displays every model loaded side by side in the viewer.
+ * Each row can toggle visibility, focus the camera, be reordered or be unloaded.
+ * 
+ * Features:
+ * - Per-model visibility toggle
+ * - Focus camera on a model
+ * - Move models up / down in the list
+ * - Unload a single model
+ * - Active model highlighting
+ * 
+ * @example
+ * ```html
+ * <app-model-list (focusModel)="focusModel($event)" (unloadModel)="unloadModel($event)" />
+ * ```
+ */
+@Component({
+  selector: 'app-model-list',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './model-list.component.html',
+  styleUrls: ['./model-list.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ModelListComponent {
+  private readonly modelManager = inject(ModelManagerService);
+
+  // Outputs (camera and scene cleanup are owned by the viewer)
+  readonly focusModel = output<string>();
+  readonly unloadModel = output<string>();
+
+  // Computed from service
+  readonly models = this.modelManager.models;
+  readonly activeModelId = this.modelManager.activeModelId;
+  readonly modelCount = this.modelManager.modelCount;
+
+  /**
+   * Make a model the active one
+   */
+  select(model: IFCModelState): void {
+    this.modelManager.setActiveModel(model.id);
+  }
+
+  /**
+   * Toggle visibility of a model
+   */
+  toggleVisibility(model: IFCModelState): void {
+    this.modelManager.toggleModelVisibility(model.id);
+  }
+
+  /**
+   * Move a model up or down in the list
+   */
+  move(model: IFCModelState, offset: -1 | 1): void {
+    this.modelManager.shiftModel(model.id, offset);
+  }
+
+  /**
+   * Ask the viewer to focus the camera on a model
+   */
+  focus(model: IFCModelState): void {
+    this.focusModel.emit(model.id);
+  }
+
+  /**
+   * Ask the viewer to unload a model
+   */
+  unload(model: IFCModelState): void {
+    this.unloadModel.emit(model.id);
+  }
+
+  /**
+   * Format file size for display
+   */
+  formatSize(bytes: number | undefined): string {
+    return bytes ? formatBytes(bytes) : '';
+  }
+
+  /**
+   * Track by function for list performance
+   */
+  trackById(index: number, item: IFCModelState): string {
+    return item.id;
+  }
+}
@@ -0,0 +1,118 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { WritableSignal, computed, signal } from '@angular/core';
+import { PlanPanelComponent } from './plan-panel.component';
+import { PlanService } from '../../../core/services/plan.service';
+import { ModelManagerService } from '../../../core/services/model-manager.service';
+import { ModelLoadingStatus } from '../../../shared/models/ifc.model';
+import { PlanStorey } from '../../../shared/models/plan.model';
+
+describe('PlanPanelComponent', () => {
+  let component: PlanPanelComponent;
+  let fixture: ComponentFixture<PlanPanelComponent>;
+  let planService: jasmine.SpyObj<PlanService>;
+  let activeStoreyKey: WritableSignal<string | null>;
+
+  const storeys: PlanStorey[] = [
+    { key: 'm1:1', modelId: 'm1', localId: 1, name: 'Ground', elevation: 0 },
+    { key: 'm1:2', modelId: 'm1', localId: 2, name: 'Level 1', elevation: 3.2 },
+  ];
+
+  beforeEach(async () => {
+    activeStoreyKey = signal<string | null>(null);
+    const activeStorey = computed(() => storeys.find((storey) => storey.key === activeStoreyKey()) ?? null);
+
+    const planServiceSpy = jasmine.createSpyObj('PlanService', ['setCutHeight', 'export'], {
+      storeys: signal(storeys),
+      activeStorey,
+      isActive: computed(() => activeStorey() !== null),
+      cutHeight: signal(1.2),
+    });
+    planServiceSpy.export.and.returnValue(Promise.resolve({ success: true, data: new Uint8Array([1, 2]), fileSize: 2 }));
+
+    await TestBed.configureTestingModule({
+      imports: [PlanPanelComponent],
+      providers: [
+        { provide: PlanService, useValue: planServiceSpy },
+        {
+          provide: ModelManagerService,
+          useValue: jasmine.createSpyObj('ModelManagerService', [], {
+            models: signal([
+              { id: 's1', name: 'tower', status: ModelLoadingStatus.LOADED, progress: 100, fragmentUuid: 'm1' },
+            ]),
+          }),
+        },
+      ],
+    }).compileComponents();
+
+    planService = TestBed.inject(PlanService) as jasmine.SpyObj<PlanService>;
+    fixture = TestBed.createComponent(PlanPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should list the storeys with their elevations', () => {
+    const options = fixture.nativeElement.querySelectorAll('option') as NodeListOf<HTMLOptionElement>;
+
+    expect(options.length).toBe(2);
+    expect(options[1]!.textContent).toContain('Level 1 (+3.20 m)');
+  });
+
+  it('should enter the plan of the selected storey', () => {
+    spyOn(component.enterPlan, 'emit');
+
+    component.onStoreyChange({ target: { value: 'm1:2' } } as unknown as Event);
+    component.togglePlan();
+
+    expect(component.enterPlan.emit).toHaveBeenCalledOnceWith('m1:2');
+  });
+
+  it('should switch storeys and exit in plan mode', () => {
+    spyOn(component.enterPlan, 'emit');
+    spyOn(component.exitPlan, 'emit');
+    activeStoreyKey.set('m1:1');
+
+    component.onStoreyChange({ target: { value: 'm1:2' } } as unknown as Event);
+    component.togglePlan();
+
+    expect(component.enterPlan.emit).toHaveBeenCalledWith('m1:2');
+    expect(component.exitPlan.emit).toHaveBeenCalled();
+  });
+
+  it('should change the cut height', () => {
+    component.onCutHeightChange({ target: { value: '1.5' } } as unknown as Event);
+
+    expect(planService.setCutHeight).toHaveBeenCalledWith(1.5);
+  });
+
+  it('should only export in plan mode', async () => {
+    await component.export('svg');
+
+    expect(planService.export).not.toHaveBeenCalled();
+  });
+
+  it('should export and download the plan', async () => {
+    const link = document.createElement('a');
+    spyOn(document, 'createElement').and.returnValue(link);
+    spyOn(link, 'click');
+    activeStoreyKey.set('m1:2');
+
+    await component.export('pdf');
+
+    expect(planService.export).toHaveBeenCalledWith('pdf');
+    expect(link.download).toBe('tower-Level-1-plan.pdf');
+    expect(link.click).toHaveBeenCalled();
+  });
+
+  it('should show export errors', async () => {
+    planService.export.and.returnValue(Promise.resolve({ success: false, error: 'No visible geometry on this storey' }));
+    activeStoreyKey.set('m1:1');
+
+    await component.export('svg');
+
+    expect(component.resultMessage()).toBe('No visible geometry on this storey');
+  });
+});
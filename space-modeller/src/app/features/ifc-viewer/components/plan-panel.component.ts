@@ -0,0 +1,152 @@
+import { ChangeDetectionStrategy, Component, computed, inject, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { PlanService } from '../../../core/services/plan.service';
+import { ModelManagerService } from '../../../core/services/model-manager.service';
+import { DrawingFormat } from '../../../shared/models/drawing.model';
+import { PLAN_CONFIG } from '../../../shared/constants/viewer.constants';
+import { formatElevation } from '../../../shared/utils/plan.utils';
+import { formatBytes } from '../../../shared/utils/three.utils';
+
+/**
+ * Plan Panel Component
+ *
+ * Sidebar section for 2D floor plans of the building storeys.
+ *
+ * Features:
+ * - Storey selector with elevations
+ * - Cut height above the storey elevation
+ * - Enter and leave plan mode (top-down orthographic view, set up by the viewer)
+ * - SVG and PDF export of the current plan
+ *
+ * @example
+ * ```html
+ * <app-plan-panel (enterPlan)="enterPlan($event)" (exitPlan)="exitPlan()" />
+ * ```
+ */
+@Component({
+  selector: 'app-plan-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './plan-panel.component.html',
+  styleUrls: ['./plan-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class PlanPanelComponent {
+  private readonly planService = inject(PlanService);
+  private readonly modelManager = inject(ModelManagerService);
+
+  // Outputs (the camera is owned by the viewer)
+  readonly enterPlan = output<string>();
+  readonly exitPlan = output<void>();
+
+  // Computed from service
+  readonly storeys = this.planService.storeys;
+  readonly activeStorey = this.planService.activeStorey;
+  readonly isActive = this.planService.isActive;
+  readonly cutHeight = this.planService.cutHeight;
+
+  readonly minCutHeight = PLAN_CONFIG.minCutHeight;
+  readonly maxCutHeight = PLAN_CONFIG.maxCutHeight;
+  readonly formats: { value: DrawingFormat; label: string }[] = [
+    { value: 'svg', label: 'SVG' },
+    { value: 'pdf', label: 'PDF' },
+  ];
+
+  // Local state
+  readonly selectedKey = signal<string | null>(null);
+  readonly isExporting = signal<boolean>(false);
+  readonly resultMessage = signal<string | null>(null);
+
+  // Selected storey (the active one in plan mode, else the first one)
+  readonly selectedStorey = computed(() => {
+    const storeys = this.storeys();
+    const key = this.activeStorey()?.key ?? this.selectedKey();
+    return storeys.find((storey) => storey.key === key) ?? storeys[0] ?? null;
+  });
+
+  readonly formatElevation = formatElevation;
+
+  /**
+   * Select a storey, switching the plan when in plan mode
+   */
+  onStoreyChange(event: Event): void {
+    const key = (event.target as HTMLSelectElement).value;
+    this.selectedKey.set(key);
+    this.resultMessage.set(null);
+
+    if (this.isActive()) {
+      this.enterPlan.emit(key);
+    }
+  }
+
+  /**
+   * Change the cut height
+   */
+  onCutHeightChange(event: Event): void {
+    this.planService.setCutHeight(parseFloat((event.target as HTMLInputElement).value));
+  }
+
+  /**
+   * Enter or leave plan mode
+   */
+  togglePlan(): void {
+    if (this.isActive()) {
+      this.exitPlan.emit();
+      return;
+    }
+
+    const storey = this.selectedStorey();
+    if (storey) {
+      this.enterPlan.emit(storey.key);
+    }
+  }
+
+  /**
+   * Export the current plan and download it
+   */
+  async export(format: DrawingFormat): Promise<void> {
+    const storey = this.activeStorey();
+    if (!storey || this.isExporting()) {
+      return;
+    }
+
+    this.isExporting.set(true);
+    this.resultMessage.set(null);
+
+    try {
+      const result = await this.planService.export(format);
+      if (!result.success || !result.data) {
+        this.resultMessage.set(result.error ?? 'Export failed');
+        return;
+      }
+
+      const fileName = `${this.getBaseName(storey.modelId)}-${this.toFileName(storey.name)}-plan.${format}`;
+      const blob = new Blob([result.data], { type: PLAN_CONFIG.mimeTypes[format] });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+
+      URL.revokeObjectURL(url);
+
+      this.resultMessage.set(`${fileName}: ${formatBytes(result.fileSize ?? 0)}`);
+    } finally {
+      this.isExporting.set(false);
+    }
+  }
+
+  /**
+   * Name of the model a storey belongs to
+   */
+  private getBaseName(modelId: string): string {
+    return this.modelManager.models().find((model) => model.fragmentUuid === modelId)?.name ?? 'model';
+  }
+
+  /**
+   * Storey name usable in a file name
+   */
+  private toFileName(name: string): string {
+    return name.trim().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'storey';
+  }
+}
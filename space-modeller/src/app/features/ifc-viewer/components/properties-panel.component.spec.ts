@@ -0,0 +1,119 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { WritableSignal, signal } from '@angular/core';
+import { PropertiesPanelComponent } from './properties-panel.component';
+import { SelectionService } from '../../../core/services/selection.service';
+import { ElementProperties, ElementReference } from '../../../shared/models/selection.model';
+
+describe('PropertiesPanelComponent', () => {
+  let component: PropertiesPanelComponent;
+  let fixture: ComponentFixture<PropertiesPanelComponent>;
+  let selectionService: jasmine.SpyObj<SelectionService>;
+  let selection: WritableSignal<ElementReference | null>;
+  let properties: WritableSignal<ElementProperties | null>;
+
+  // Mock data
+  const mockProperties: ElementProperties = {
+    modelId: 'model-1',
+    localId: 42,
+    globalId: '2O2Fr$t4X7Zf8NOew3FLOH',
+    name: 'Basic Wall',
+    ifcClass: 'IfcWall',
+    attributes: [{ name: 'Tag', value: '1234' }],
+    propertySets: [
+      {
+        name: 'Pset_WallCommon',
+        properties: [{ name: 'IsExternal', value: true }],
+      },
+    ],
+    quantitySets: [
+      {
+        name: 'Qto_WallBaseQuantities',
+        properties: [{ name: 'Length', value: 5.2 }],
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    selection = signal<ElementReference | null>(null);
+    properties = signal<ElementProperties | null>(null);
+
+    const selectionServiceSpy = jasmine.createSpyObj('SelectionService', ['clearSelection'], {
+      selection,
+      properties,
+      isLoadingProperties: signal(false),
+    });
+    selectionServiceSpy.clearSelection.and.returnValue(Promise.resolve());
+
+    await TestBed.configureTestingModule({
+      imports: [PropertiesPanelComponent],
+      providers: [{ provide: SelectionService, useValue: selectionServiceSpy }],
+    }).compileComponents();
+
+    selectionService = TestBed.inject(SelectionService) as jasmine.SpyObj<SelectionService>;
+    fixture = TestBed.createComponent(PropertiesPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show a hint when nothing is selected', () => {
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelector('.properties-empty')?.textContent).toContain('Click an element');
+  });
+
+  describe('with a selection', () => {
+    beforeEach(() => {
+      selection.set({ modelId: 'model-1', localId: 42 });
+      properties.set(mockProperties);
+      fixture.detectChanges();
+    });
+
+    it('should render the element identity', () => {
+      const compiled = fixture.nativeElement as HTMLElement;
+      const identity = compiled.querySelector('.properties-identity')?.textContent ?? '';
+
+      expect(identity).toContain('IfcWall');
+      expect(identity).toContain('Basic Wall');
+      expect(identity).toContain('2O2Fr$t4X7Zf8NOew3FLOH');
+      expect(identity).toContain('42');
+    });
+
+    it('should render attributes, property sets and quantity sets', () => {
+      const compiled = fixture.nativeElement as HTMLElement;
+      const sets = compiled.querySelectorAll('.property-set');
+
+      expect(sets.length).toBe(3);
+      expect(sets[1]?.textContent).toContain('Pset_WallCommon');
+      expect(sets[2]?.textContent).toContain('Qto_WallBaseQuantities');
+    });
+
+    it('should collapse a property set', () => {
+      component.toggleSet('pset-Pset_WallCommon');
+      fixture.detectChanges();
+
+      expect(component.isExpanded('pset-Pset_WallCommon')).toBe(false);
+      const compiled = fixture.nativeElement as HTMLElement;
+      expect(compiled.querySelectorAll('.property-list').length).toBe(2);
+    });
+
+    it('should clear the selection', () => {
+      const button = fixture.nativeElement.querySelector('.properties-clear') as HTMLButtonElement;
+      button.click();
+
+      expect(selectionService.clearSelection).toHaveBeenCalled();
+    });
+  });
+
+  describe('formatValue', () => {
+    it('should format values for display', () => {
+      expect(component.formatValue(null)).toBe('—');
+      expect(component.formatValue(true)).toBe('True');
+      expect(component.formatValue(1.23456)).toBe('1.235');
+      expect(component.formatValue(3)).toBe('3');
+      expect(component.formatValue('Label')).toBe('Label');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  inject,
+  signal,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SelectionService } from '../../../core/services/selection.service';
+import { ElementPropertySet, ElementPropertyValue } from '../../../shared/models/selection.model';
+
+/**
+ * Properties Panel Component
+ * 
+ * Inspector for the element picked in the viewport.
+ * 
+ * Features:
+ * - GlobalId, Name and IFC class of the selection
+ * - Direct attributes
+ * - Collapsible property sets and quantity sets
+ * - Clear selection
+ * 
+ * @example
+ * ```html
+ * <app-properties-panel />
+ * ```
+ */
+@Component({
+  selector: 'app-properties-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './properties-panel.component.html',
+  styleUrls: ['./properties-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class PropertiesPanelComponent {
+  private readonly selectionService = inject(SelectionService);
+
+  // Computed from service
+  readonly selection = this.selectionService.selection;
+  readonly properties = this.selectionService.properties;
+  readonly isLoading = this.selectionService.isLoadingProperties;
+
+  // Names of collapsed property and quantity sets
+  readonly collapsedSets = signal<ReadonlySet<string>>(new Set());
+
+  /**
+   * Clear the current selection
+   */
+  clearSelection(): void {
+    this.selectionService.clearSelection().catch(console.error);
+  }
+
+  /**
+   * Expand or collapse a property set
+   */
+  toggleSet(key: string): void {
+    this.collapsedSets.update((collapsed) => {
+      const next = new Set(collapsed);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  }
+
+  /**
+   * Check if a property set is expanded
+   */
+  isExpanded(key: string): boolean {
+    return !this.collapsedSets().has(key);
+  }
+
+  /**
+   * Format a property value for display
+   */
+  formatValue(value: ElementPropertyValue): string {
+    if (value === null || value === '') {
+      return '—';
+    }
+    if (typeof value === 'boolean') {
+      return value ? 'True' : 'False';
+    }
+    if (typeof value === 'number' && !Number.isInteger(value)) {
+      return String(Math.round(value * 1000) / 1000);
+    }
+    return String(value);
+  }
+
+  /**
+   * Track by function for property sets
+   */
+  trackBySet(index: number, set: ElementPropertySet): string {
+    return `${index}-${set.name}`;
+  }
+}
@@ -0,0 +1,124 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { WritableSignal, computed, signal } from '@angular/core';
+import { QueryBarComponent } from './query-bar.component';
+import { QueryService } from '../../../core/services/query.service';
+import { QueryResult, SavedQuery } from '../../../shared/models/query.model';
+
+describe('QueryBarComponent', () => {
+  let component: QueryBarComponent;
+  let fixture: ComponentFixture<QueryBarComponent>;
+  let queryService: jasmine.SpyObj<QueryService>;
+  let result: WritableSignal<QueryResult | null>;
+  let error: WritableSignal<string | null>;
+  let savedQueries: WritableSignal<SavedQuery[]>;
+
+  const walls: SavedQuery = {
+    id: 'q1',
+    name: 'External walls',
+    query: 'IfcWall AND Pset_WallCommon.IsExternal = true',
+    createdAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const wallResult: QueryResult = {
+    query: 'IfcWall OR IfcDoor',
+    action: 'isolate',
+    color: '#22c55e',
+    elements: [
+      { modelId: 'm1', localId: 1 },
+      { modelId: 'm1', localId: 2 },
+      { modelId: 'm1', localId: 3 },
+    ],
+    classCounts: [
+      { name: 'IfcDoor', count: 1 },
+      { name: 'IfcWall', count: 2 },
+    ],
+  };
+
+  beforeEach(async () => {
+    result = signal<QueryResult | null>(null);
+    error = signal<string | null>(null);
+    savedQueries = signal<SavedQuery[]>([walls]);
+
+    const queryServiceSpy = jasmine.createSpyObj('QueryService', ['run', 'clear', 'saveQuery', 'deleteQuery'], {
+      result,
+      error,
+      isRunning: signal(false),
+      matchCount: computed(() => result()?.elements.length ?? 0),
+      matchedClassCount: computed(() => result()?.classCounts.length ?? 0),
+      savedQueries,
+      user: signal('anonymous'),
+    });
+    queryServiceSpy.run.and.returnValue(Promise.resolve(null));
+    queryServiceSpy.clear.and.returnValue(Promise.resolve());
+    queryServiceSpy.saveQuery.and.returnValue(walls);
+
+    await TestBed.configureTestingModule({
+      imports: [QueryBarComponent],
+      providers: [{ provide: QueryService, useValue: queryServiceSpy }],
+    }).compileComponents();
+
+    queryService = TestBed.inject(QueryService) as jasmine.SpyObj<QueryService>;
+    fixture = TestBed.createComponent(QueryBarComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should run the query with the chosen action', async () => {
+    await component.run();
+    expect(queryService.run).not.toHaveBeenCalled();
+
+    component.query.set('IfcDoor');
+    component.action.set('color');
+    component.color.set('#ff0000');
+    await component.run();
+
+    expect(queryService.run).toHaveBeenCalledWith('IfcDoor', 'color', '#ff0000');
+  });
+
+  it('should show the match statistics, largest class first', () => {
+    result.set(wallResult);
+    fixture.detectChanges();
+
+    const names = fixture.nativeElement.querySelectorAll('.query-class-name');
+    expect(fixture.nativeElement.querySelector('.query-summary').textContent).toContain('3 elements in 2');
+    expect(names[0].textContent).toBe('IfcWall');
+    expect(names[1].textContent).toBe('IfcDoor');
+  });
+
+  it('should show query errors', () => {
+    error.set('Expected a condition at the end');
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.query-error').textContent).toContain('Expected a condition');
+  });
+
+  it('should save the query under a name', () => {
+    component.query.set('IfcDoor');
+    component.saveName.set('Doors');
+
+    component.save();
+
+    expect(queryService.saveQuery).toHaveBeenCalledWith('Doors', 'IfcDoor');
+    expect(component.saveName()).toBe('');
+  });
+
+  it('should run and delete saved queries', async () => {
+    await component.apply(walls);
+    component.remove(walls);
+
+    expect(component.query()).toBe(walls.query);
+    expect(queryService.run).toHaveBeenCalledWith(walls.query, 'isolate', '#22c55e');
+    expect(queryService.deleteQuery).toHaveBeenCalledWith('q1');
+  });
+
+  it('should list the saved queries', () => {
+    const items = fixture.nativeElement.querySelectorAll('.query-saved-item');
+
+    expect(items.length).toBe(1);
+    expect(items[0].querySelector('.query-apply').textContent.trim()).toBe('External walls');
+  });
+});
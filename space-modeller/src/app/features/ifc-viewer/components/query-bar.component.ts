@@ -0,0 +1,143 @@
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { QueryService } from '../../../core/services/query.service';
+import { QueryAction, SavedQuery } from '../../../shared/models/query.model';
+import { QUERY_CONFIG } from '../../../shared/constants/viewer.constants';
+
+/**
+ * Query Bar Component
+ *
+ * Sidebar section for property queries over the loaded elements.
+ *
+ * Features:
+ * - Query input (e.g. `IfcWall AND Pset_WallCommon.IsExternal = true`)
+ * - Isolate, hide, highlight or color the matches
+ * - Match statistics per IFC class
+ * - Saved queries of the current user
+ *
+ * @example
+ * ```html
+ * <app-query-bar />
+ * ```
+ */
+@Component({
+  selector: 'app-query-bar',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './query-bar.component.html',
+  styleUrls: ['./query-bar.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class QueryBarComponent {
+  private readonly queryService = inject(QueryService);
+
+  readonly actions: { value: QueryAction; label: string }[] = [
+    { value: 'isolate', label: 'Isolate' },
+    { value: 'hide', label: 'Hide' },
+    { value: 'highlight', label: 'Highlight' },
+    { value: 'color', label: 'Color' },
+  ];
+
+  // Computed from service
+  readonly result = this.queryService.result;
+  readonly error = this.queryService.error;
+  readonly isRunning = this.queryService.isRunning;
+  readonly matchCount = this.queryService.matchCount;
+  readonly matchedClassCount = this.queryService.matchedClassCount;
+  readonly savedQueries = this.queryService.savedQueries;
+  readonly user = this.queryService.user;
+
+  // Local state
+  readonly query = signal<string>('');
+  readonly action = signal<QueryAction>('isolate');
+  readonly color = signal<string>(QUERY_CONFIG.defaultColor);
+  readonly saveName = signal<string>('');
+
+  /**
+   * Classes with the most matches, largest first
+   */
+  readonly topClasses = computed(() =>
+    [...(this.result()?.classCounts ?? [])]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, QUERY_CONFIG.maxClassCounts)
+  );
+
+  readonly hiddenClassCount = computed(() => this.matchedClassCount() - this.topClasses().length);
+
+  /**
+   * Update the query text
+   */
+  onQueryInput(event: Event): void {
+    this.query.set((event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Update the action applied to the matches
+   */
+  onActionChange(event: Event): void {
+    this.action.set((event.target as HTMLSelectElement).value as QueryAction);
+  }
+
+  /**
+   * Update the color of the color action
+   */
+  onColorInput(event: Event): void {
+    this.color.set((event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Update the name of the next saved query
+   */
+  onSaveNameInput(event: Event): void {
+    this.saveName.set((event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Run the query
+   */
+  async run(): Promise<void> {
+    if (!this.query().trim()) {
+      return;
+    }
+
+    await this.queryService.run(this.query(), this.action(), this.color());
+  }
+
+  /**
+   * Undo the current result
+   */
+  async clear(): Promise<void> {
+    await this.queryService.clear();
+  }
+
+  /**
+   * Save the query for the current user
+   */
+  save(): void {
+    if (this.queryService.saveQuery(this.saveName(), this.query())) {
+      this.saveName.set('');
+    }
+  }
+
+  /**
+   * Run a saved query
+   */
+  async apply(saved: SavedQuery): Promise<void> {
+    this.query.set(saved.query);
+    await this.run();
+  }
+
+  /**
+   * Delete a saved query
+   */
+  remove(saved: SavedQuery): void {
+    this.queryService.deleteQuery(saved.id);
+  }
+
+  /**
+   * Track by function for list performance
+   */
+  trackById(index: number, saved: SavedQuery): string {
+    return saved.id;
+  }
+}
@@ -0,0 +1,103 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { WritableSignal, computed, signal } from '@angular/core';
+import { RecentModelsComponent } from './recent-models.component';
+import { ModelLibraryService } from '../../../core/services/model-library.service';
+import { ModelLoadingStatus } from '../../../shared/models/ifc.model';
+import { CachedModel, StorageQuota } from '../../../shared/models/model-library.model';
+
+describe('RecentModelsComponent', () => {
+  let component: RecentModelsComponent;
+  let fixture: ComponentFixture<RecentModelsComponent>;
+  let modelLibrary: jasmine.SpyObj<ModelLibraryService>;
+
+  const tower: CachedModel = {
+    hash: 'hash-1',
+    fileName: 'Tower.ifc',
+    dataSize: 1536 * 1024,
+    state: { id: 'model-1', name: 'tower', status: ModelLoadingStatus.LOADED, progress: 100 },
+    stats: null,
+    storedAt: new Date(2024, 0, 1),
+    lastOpenedAt: new Date(2024, 0, 2),
+  };
+
+  let entries: WritableSignal<CachedModel[]>;
+  let quota: WritableSignal<StorageQuota | null>;
+
+  beforeEach(async () => {
+    entries = signal<CachedModel[]>([tower]);
+    quota = signal<StorageQuota | null>(null);
+
+    const modelLibrarySpy = jasmine.createSpyObj('ModelLibraryService', ['remove', 'evictOldest', 'clear'], {
+      entries,
+      quota,
+      hasEntries: computed(() => entries().length > 0),
+      totalSize: computed(() => entries().reduce((sum, e) => sum + e.dataSize, 0)),
+    });
+    modelLibrarySpy.remove.and.returnValue(Promise.resolve());
+    modelLibrarySpy.evictOldest.and.returnValue(Promise.resolve());
+    modelLibrarySpy.clear.and.returnValue(Promise.resolve());
+
+    await TestBed.configureTestingModule({
+      imports: [RecentModelsComponent],
+      providers: [{ provide: ModelLibraryService, useValue: modelLibrarySpy }],
+    }).compileComponents();
+
+    modelLibrary = TestBed.inject(ModelLibraryService) as jasmine.SpyObj<ModelLibraryService>;
+    fixture = TestBed.createComponent(RecentModelsComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should list stored models with their size', () => {
+    const items = fixture.nativeElement.querySelectorAll('.recent-item');
+
+    expect(items.length).toBe(1);
+    expect(items[0].querySelector('.recent-name').textContent.trim()).toBe('tower');
+    expect(items[0].querySelector('.recent-meta').textContent).toContain('1.5 MB');
+  });
+
+  it('should ask the viewer to open a model', () => {
+    spyOn(component.openModel, 'emit');
+
+    (fixture.nativeElement.querySelector('.recent-open') as HTMLButtonElement).click();
+
+    expect(component.openModel.emit).toHaveBeenCalledWith('hash-1');
+  });
+
+  it('should not open models while disabled', () => {
+    fixture.componentRef.setInput('disabled', true);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.recent-open').disabled).toBe(true);
+  });
+
+  it('should remove, evict and clear stored models', () => {
+    component.remove(tower);
+    component.evictOldest();
+    component.clearAll();
+
+    expect(modelLibrary.remove).toHaveBeenCalledWith('hash-1');
+    expect(modelLibrary.evictOldest).toHaveBeenCalled();
+    expect(modelLibrary.clear).toHaveBeenCalled();
+  });
+
+  it('should show the storage quota', () => {
+    quota.set({ usage: 512 * 1024 * 1024, quota: 2 * 1024 * 1024 * 1024 });
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.recent-quota').textContent).toContain('512 MB of 2 GB used');
+    expect(fixture.nativeElement.querySelector('.recent-quota-fill').style.width).toBe('25%');
+  });
+
+  it('should show a hint without stored models', () => {
+    entries.set([]);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.recent-list')).toBeNull();
+    expect(fixture.nativeElement.querySelector('.recent-header .recent-button')).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import { ChangeDetectionStrategy, Component, computed, inject, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ModelLibraryService } from '../../../core/services/model-library.service';
+import { CachedModel } from '../../../shared/models/model-library.model';
+import { formatBytes } from '../../../shared/utils/three.utils';
+import { formatQuota, getQuotaPercent } from '../../../shared/utils/model-library.utils';
+
+/**
+ * Recent Models Component
+ *
+ * Sidebar section listing the converted models stored in the local model library.
+ *
+ * Features:
+ * - Reopen a stored model without IFC conversion
+ * - Stored fragments size per model
+ * - Remove a model, the least recently opened one, or every model
+ * - Browser storage quota display
+ *
+ * @example
+ * ```html
+ * <app-recent-models [disabled]="isLoading()" (openModel)="openCachedModel($event)" />
+ * ```
+ */
+@Component({
+  selector: 'app-recent-models',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './recent-models.component.html',
+  styleUrls: ['./recent-models.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class RecentModelsComponent {
+  private readonly modelLibrary = inject(ModelLibraryService);
+
+  // Inputs (opening is blocked while another model loads)
+  readonly disabled = input<boolean>(false);
+
+  // Outputs (loading is owned by the viewer)
+  readonly openModel = output<string>();
+
+  // Computed from service
+  readonly entries = this.modelLibrary.entries;
+  readonly hasEntries = this.modelLibrary.hasEntries;
+  readonly totalSize = computed(() => formatBytes(this.modelLibrary.totalSize(), 1));
+
+  readonly quota = computed(() => {
+    const quota = this.modelLibrary.quota();
+    return quota && quota.quota > 0
+      ? { label: formatQuota(quota), percent: getQuotaPercent(quota) }
+      : null;
+  });
+
+  /**
+   * Ask the viewer to open a stored model
+   */
+  open(entry: CachedModel): void {
+    this.openModel.emit(entry.hash);
+  }
+
+  /**
+   * Remove a stored model
+   */
+  remove(entry: CachedModel): void {
+    this.modelLibrary.remove(entry.hash).catch(console.error);
+  }
+
+  /**
+   * Remove the least recently opened model
+   */
+  evictOldest(): void {
+    this.modelLibrary.evictOldest().catch(console.error);
+  }
+
+  /**
+   * Remove every stored model
+   */
+  clearAll(): void {
+    this.modelLibrary.clear().catch(console.error);
+  }
+
+  /**
+   * Format stored size for display
+   */
+  formatSize(bytes: number): string {
+    return formatBytes(bytes, 1);
+  }
+
+  /**
+   * Track by function for list performance
+   */
+  trackByHash(index: number, entry: CachedModel): string {
+    return entry.hash;
+  }
+}
@@ -0,0 +1,139 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { computed, signal } from '@angular/core';
+import { ScheduleDialogComponent } from './schedule-dialog.component';
+import { ScheduleService } from '../../../core/services/schedule.service';
+import { IfcFilterService } from '../../../core/services/ifc-filter.service';
+import { ModelManagerService } from '../../../core/services/model-manager.service';
+import { ModelLoadingStatus } from '../../../shared/models/ifc.model';
+import { ScheduleColumn } from '../../../shared/models/export.model';
+import { SCHEDULE_BASE_COLUMNS } from '../../../shared/utils/schedule.utils';
+
+describe('ScheduleDialogComponent', () => {
+  let component: ScheduleDialogComponent;
+  let fixture: ComponentFixture<ScheduleDialogComponent>;
+  let scheduleService: jasmine.SpyObj<ScheduleService>;
+
+  const model = { id: 's1', name: 'tower', status: ModelLoadingStatus.LOADED, progress: 100, fragmentUuid: 'm1' };
+  const columns: ScheduleColumn[] = [
+    ...SCHEDULE_BASE_COLUMNS,
+    { key: 'property:Pset_WallCommon.FireRating', label: 'Pset_WallCommon.FireRating', source: 'property' },
+    { key: 'quantity:Qto_WallBaseQuantities.Length', label: 'Qto_WallBaseQuantities.Length', source: 'quantity' },
+  ];
+
+  beforeEach(async () => {
+    const scheduleServiceSpy = jasmine.createSpyObj('ScheduleService', ['load', 'export', 'getElementCount'], {
+      isLoading: signal(false),
+      columns: signal(columns),
+    });
+    scheduleServiceSpy.load.and.returnValue(Promise.resolve());
+    scheduleServiceSpy.getElementCount.and.callFake((excludeHidden: boolean) => (excludeHidden ? 2 : 3));
+    scheduleServiceSpy.export.and.returnValue(
+      Promise.resolve({ success: true, data: new Uint8Array([1, 2, 3]), fileSize: 3, duration: 5 })
+    );
+
+    await TestBed.configureTestingModule({
+      imports: [ScheduleDialogComponent],
+      providers: [
+        { provide: ScheduleService, useValue: scheduleServiceSpy },
+        {
+          provide: IfcFilterService,
+          useValue: jasmine.createSpyObj('IfcFilterService', [], {
+            availableClasses: signal([
+              { name: 'IfcDoor', count: 1, visible: false },
+              { name: 'IfcWall', count: 2, visible: true },
+            ]),
+          }),
+        },
+        {
+          provide: ModelManagerService,
+          useValue: jasmine.createSpyObj('ModelManagerService', [], {
+            models: signal([model]),
+            activeModel: computed(() => model),
+          }),
+        },
+      ],
+    }).compileComponents();
+
+    scheduleService = TestBed.inject(ScheduleService) as jasmine.SpyObj<ScheduleService>;
+    fixture = TestBed.createComponent(ScheduleDialogComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create and load the elements', () => {
+    expect(component).toBeTruthy();
+    expect(scheduleService.load).toHaveBeenCalled();
+  });
+
+  it('should select the element columns by default', () => {
+    expect(component.selectedColumns().map((column) => column.key)).toEqual(
+      SCHEDULE_BASE_COLUMNS.map((column) => column.key)
+    );
+  });
+
+  it('should group the columns and filter them by the search', () => {
+    expect(component.groups().map((group) => group.label)).toEqual(['Element', 'Property sets', 'Quantity sets']);
+
+    component.onSearchInput({ target: { value: 'length' } } as unknown as Event);
+
+    expect(component.groups().map((group) => group.label)).toEqual(['Element', 'Quantity sets']);
+  });
+
+  it('should toggle columns and whole groups', () => {
+    const [base, properties] = component.groups();
+
+    component.toggleColumn(properties!.columns[0]!);
+    expect(component.isSelected(properties!.columns[0]!)).toBe(true);
+
+    component.setGroupSelected(base!, false);
+    expect(component.selectedColumns().map((column) => column.key)).toEqual(['property:Pset_WallCommon.FireRating']);
+  });
+
+  it('should count the rows without hidden classes', () => {
+    expect(component.hiddenClassCount()).toBe(1);
+    expect(component.rowCount()).toBe(2);
+
+    component.onExcludeHiddenChange({ target: { checked: false } } as unknown as Event);
+
+    expect(component.rowCount()).toBe(3);
+  });
+
+  it('should export, download and close', async () => {
+    const link = document.createElement('a');
+    spyOn(document, 'createElement').and.returnValue(link);
+    spyOn(link, 'click');
+    spyOn(component.closed, 'emit');
+
+    component.onFormatChange({ target: { value: 'csv' } } as unknown as Event);
+    await component.export();
+
+    expect(scheduleService.export).toHaveBeenCalledWith({
+      format: 'csv',
+      columns: SCHEDULE_BASE_COLUMNS.map((column) => column.key),
+      excludeHiddenClasses: true,
+    });
+    expect(link.download).toBe('tower-schedule.csv');
+    expect(link.click).toHaveBeenCalled();
+    expect(component.closed.emit).toHaveBeenCalled();
+  });
+
+  it('should show export errors and stay open', async () => {
+    scheduleService.export.and.returnValue(Promise.resolve({ success: false, error: 'No elements to export' }));
+    spyOn(component.closed, 'emit');
+
+    await component.export();
+
+    expect(component.errorMessage()).toBe('No elements to export');
+    expect(component.closed.emit).not.toHaveBeenCalled();
+  });
+
+  it('should close on Escape and on backdrop clicks', () => {
+    spyOn(component.closed, 'emit');
+
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+    fixture.nativeElement.querySelector('.schedule-dialog').click();
+    fixture.nativeElement.querySelector('.schedule-backdrop').click();
+
+    expect(component.closed.emit).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,214 @@
+import { ChangeDetectionStrategy, Component, OnInit, computed, inject, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ScheduleService } from '../../../core/services/schedule.service';
+import { IfcFilterService } from '../../../core/services/ifc-filter.service';
+import { ModelManagerService } from '../../../core/services/model-manager.service';
+import { ScheduleColumn, ScheduleFormat } from '../../../shared/models/export.model';
+import { SCHEDULE_CONFIG } from '../../../shared/constants/viewer.constants';
+import { SCHEDULE_BASE_COLUMNS } from '../../../shared/utils/schedule.utils';
+
+/**
+ * Group of columns shown together in the dialog
+ */
+interface ScheduleColumnGroup {
+  label: string;
+  columns: ScheduleColumn[];
+}
+
+/**
+ * Schedule Dialog Component
+ *
+ * Modal dialog for exporting an element schedule as CSV or XLSX.
+ *
+ * Features:
+ * - Column selection grouped into element, property set and quantity set columns
+ * - Search across the property and quantity columns
+ * - Optionally leaves out the classes hidden in the class filter
+ * - Closes with Escape, the close button or a click on the backdrop
+ *
+ * @example
+ * ```html
+ * @if (showScheduleDialog()) {
+ *   <app-schedule-dialog (closed)="showScheduleDialog.set(false)" />
+ * }
+ * ```
+ */
+@Component({
+  selector: 'app-schedule-dialog',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './schedule-dialog.component.html',
+  styleUrls: ['./schedule-dialog.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  host: {
+    '(document:keydown.escape)': 'close()',
+  },
+})
+export class ScheduleDialogComponent implements OnInit {
+  private readonly scheduleService = inject(ScheduleService);
+  private readonly ifcFilterService = inject(IfcFilterService);
+  private readonly modelManager = inject(ModelManagerService);
+
+  // Outputs
+  readonly closed = output<void>();
+
+  // Computed from services
+  readonly isLoading = this.scheduleService.isLoading;
+  readonly columns = this.scheduleService.columns;
+  readonly hiddenClassCount = computed(
+    () => this.ifcFilterService.availableClasses().filter((ifcClass) => !ifcClass.visible).length
+  );
+
+  // Local state
+  readonly formats: { value: ScheduleFormat; label: string }[] = [
+    { value: 'xlsx', label: 'Excel (.xlsx)' },
+    { value: 'csv', label: 'CSV (.csv)' },
+  ];
+  readonly format = signal<ScheduleFormat>('xlsx');
+  readonly selectedKeys = signal<ReadonlySet<string>>(new Set(SCHEDULE_BASE_COLUMNS.map((column) => column.key)));
+  readonly excludeHiddenClasses = signal<boolean>(true);
+  readonly searchQuery = signal<string>('');
+  readonly isExporting = signal<boolean>(false);
+  readonly errorMessage = signal<string | null>(null);
+
+  // Element columns always shown, property and quantity columns filtered by the search
+  readonly groups = computed<ScheduleColumnGroup[]>(() => {
+    const query = this.searchQuery().trim().toLowerCase();
+    const matches = (column: ScheduleColumn) => !query || column.label.toLowerCase().includes(query);
+    const columns = this.columns();
+
+    return [
+      { label: 'Element', columns: columns.filter((column) => column.source === 'base') },
+      { label: 'Property sets', columns: columns.filter((column) => column.source === 'property' && matches(column)) },
+      { label: 'Quantity sets', columns: columns.filter((column) => column.source === 'quantity' && matches(column)) },
+    ].filter((group) => group.columns.length > 0);
+  });
+
+  readonly selectedColumns = computed(() => this.columns().filter((column) => this.selectedKeys().has(column.key)));
+  readonly rowCount = computed(() =>
+    this.scheduleService.getElementCount(this.excludeHiddenClasses() && this.hiddenClassCount() > 0)
+  );
+
+  ngOnInit(): void {
+    this.scheduleService.load().catch(console.error);
+  }
+
+  /**
+   * Check if a column is selected
+   */
+  isSelected(column: ScheduleColumn): boolean {
+    return this.selectedKeys().has(column.key);
+  }
+
+  /**
+   * Toggle a column
+   */
+  toggleColumn(column: ScheduleColumn): void {
+    this.selectedKeys.update((keys) => {
+      const next = new Set(keys);
+      if (!next.delete(column.key)) {
+        next.add(column.key);
+      }
+      return next;
+    });
+  }
+
+  /**
+   * Select or clear every column of a group
+   */
+  setGroupSelected(group: ScheduleColumnGroup, selected: boolean): void {
+    this.selectedKeys.update((keys) => {
+      const next = new Set(keys);
+      for (const column of group.columns) {
+        if (selected) {
+          next.add(column.key);
+        } else {
+          next.delete(column.key);
+        }
+      }
+      return next;
+    });
+  }
+
+  /**
+   * Change the export format
+   */
+  onFormatChange(event: Event): void {
+    this.format.set((event.target as HTMLSelectElement).value as ScheduleFormat);
+  }
+
+  /**
+   * Filter the property and quantity columns
+   */
+  onSearchInput(event: Event): void {
+    this.searchQuery.set((event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Toggle leaving out hidden classes
+   */
+  onExcludeHiddenChange(event: Event): void {
+    this.excludeHiddenClasses.set((event.target as HTMLInputElement).checked);
+  }
+
+  /**
+   * Close when the backdrop itself is clicked
+   */
+  onBackdropClick(event: MouseEvent): void {
+    if (event.target === event.currentTarget) {
+      this.close();
+    }
+  }
+
+  /**
+   * Close the dialog
+   */
+  close(): void {
+    this.closed.emit();
+  }
+
+  /**
+   * Export the schedule, download it and close the dialog
+   */
+  async export(): Promise<void> {
+    if (this.isExporting() || this.isLoading()) {
+      return;
+    }
+
+    const format = this.format();
+    this.isExporting.set(true);
+    this.errorMessage.set(null);
+
+    try {
+      const result = await this.scheduleService.export({
+        format,
+        columns: this.selectedColumns().map((column) => column.key),
+        excludeHiddenClasses: this.excludeHiddenClasses(),
+      });
+      if (!result.success || !result.data) {
+        this.errorMessage.set(result.error ?? 'Export failed');
+        return;
+      }
+
+      const blob = new Blob([result.data], { type: SCHEDULE_CONFIG.mimeTypes[format] });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${this.getBaseName()}-schedule.${format}`;
+      link.click();
+
+      URL.revokeObjectURL(url);
+      this.close();
+    } finally {
+      this.isExporting.set(false);
+    }
+  }
+
+  /**
+   * File name without suffix and extension
+   */
+  private getBaseName(): string {
+    const models = this.modelManager.models();
+    return models.length === 1 ? models[0]!.name : this.modelManager.activeModel()?.name ?? 'models';
+  }
+}
@@ -0,0 +1,126 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { WritableSignal, computed, signal } from '@angular/core';
+import { SpaceAuthoringPanelComponent } from './space-authoring-panel.component';
+import { SpaceAuthoringService } from '../../../core/services/space-authoring.service';
+import { PlanService } from '../../../core/services/plan.service';
+import { AuthoredSpace, SpaceAuthoringTool } from '../../../shared/models/space.model';
+import { PlanStorey } from '../../../shared/models/plan.model';
+
+describe('SpaceAuthoringPanelComponent', () => {
+  let component: SpaceAuthoringPanelComponent;
+  let fixture: ComponentFixture<SpaceAuthoringPanelComponent>;
+  let spaceAuthoringService: jasmine.SpyObj<SpaceAuthoringService>;
+  let activeStorey: WritableSignal<PlanStorey | null>;
+  let tool: WritableSignal<SpaceAuthoringTool | null>;
+  let selectedIds: WritableSignal<string[]>;
+
+  const storey: PlanStorey = { key: 'm1:1', modelId: 'm1', localId: 1, name: 'Ground', elevation: 0 };
+
+  const space = (id: string, number: string): AuthoredSpace => ({
+    id,
+    modelId: 'm1',
+    storey: 'Ground',
+    storeyGlobalId: null,
+    number,
+    name: `Room ${number}`,
+    usage: '',
+    outline: [
+      { x: 0, y: 0 },
+      { x: 4, y: 0 },
+      { x: 4, y: 3 },
+      { x: 0, y: 3 },
+    ],
+    elevation: 0,
+    height: 3,
+    createdAt: '2024-01-01T00:00:00.000Z',
+  });
+
+  beforeEach(async () => {
+    activeStorey = signal<PlanStorey | null>(storey);
+    tool = signal<SpaceAuthoringTool | null>(null);
+    selectedIds = signal<string[]>([]);
+
+    const spaceAuthoringServiceSpy = jasmine.createSpyObj(
+      'SpaceAuthoringService',
+      ['setTool', 'finishDraft', 'cancelDraft', 'update', 'toggleSelected', 'merge', 'remove'],
+      {
+        tool,
+        isActive: computed(() => tool() !== null),
+        draftPointCount: signal(0),
+        canFinish: signal(false),
+        selectedIds,
+        error: signal<string | null>(null),
+        storeySpaces: signal([space('a', '1'), space('b', '2')]),
+      }
+    );
+    spaceAuthoringServiceSpy.finishDraft.and.returnValue(Promise.resolve(null));
+
+    await TestBed.configureTestingModule({
+      imports: [SpaceAuthoringPanelComponent],
+      providers: [
+        { provide: SpaceAuthoringService, useValue: spaceAuthoringServiceSpy },
+        { provide: PlanService, useValue: jasmine.createSpyObj('PlanService', [], { activeStorey }) },
+      ],
+    }).compileComponents();
+
+    spaceAuthoringService = TestBed.inject(SpaceAuthoringService) as jasmine.SpyObj<SpaceAuthoringService>;
+    fixture = TestBed.createComponent(SpaceAuthoringPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should list the rooms of the storey with their areas', () => {
+    const items = fixture.nativeElement.querySelectorAll('.authoring-item');
+
+    expect(items.length).toBe(2);
+    expect(items[0].querySelector('.authoring-number').value).toBe('1');
+    expect(items[0].textContent).toContain('12.00 m²');
+  });
+
+  it('should select a tool and stop when it is selected again', () => {
+    component.selectTool('draw');
+    expect(spaceAuthoringService.setTool).toHaveBeenCalledWith('draw');
+
+    tool.set('draw');
+    component.selectTool('draw');
+    expect(spaceAuthoringService.setTool).toHaveBeenCalledWith(null);
+  });
+
+  it('should edit a room', () => {
+    const input = fixture.nativeElement.querySelector('.authoring-height') as HTMLInputElement;
+    input.value = '2.8';
+    input.dispatchEvent(new Event('change'));
+
+    expect(spaceAuthoringService.update).toHaveBeenCalledWith('a', { height: 2.8 });
+  });
+
+  it('should merge the selected rooms', () => {
+    selectedIds.set(['a', 'b']);
+    fixture.detectChanges();
+
+    const button = Array.from(fixture.nativeElement.querySelectorAll('button') as NodeListOf<HTMLButtonElement>).find(
+      (item) => item.textContent?.includes('Merge')
+    );
+    button!.click();
+
+    expect(spaceAuthoringService.merge).toHaveBeenCalledWith(['a', 'b']);
+  });
+
+  it('should delete a room', () => {
+    component.remove(space('a', '1'));
+
+    expect(spaceAuthoringService.remove).toHaveBeenCalledWith('a');
+  });
+
+  it('should ask for a storey plan', () => {
+    activeStorey.set(null);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.textContent).toContain('Show a storey plan');
+    expect(fixture.nativeElement.querySelector('.authoring-tools')).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+import { ChangeDetectionStrategy, Component, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SpaceAuthoringService } from '../../../core/services/space-authoring.service';
+import { PlanService } from '../../../core/services/plan.service';
+import { AuthoredSpace, SpaceAuthoringTool } from '../../../shared/models/space.model';
+import { getOutlineArea } from '../../../shared/utils/space-authoring.utils';
+import { formatSpaceValue } from '../../../shared/utils/space.utils';
+
+/**
+ * Authoring tool with its button label and usage hint
+ */
+interface AuthoringTool {
+  value: SpaceAuthoringTool;
+  label: string;
+  hint: string;
+}
+
+/**
+ * Text field of an authored space
+ */
+type AuthoredSpaceField = 'number' | 'name' | 'usage';
+
+/**
+ * Space Authoring Panel Component
+ *
+ * Sidebar section to draw spaces on the storey shown as floor plan.
+ *
+ * Features:
+ * - Draw, detect and split tools
+ * - Number, name, usage and height of the rooms of the storey
+ * - Merge selected rooms and delete rooms
+ *
+ * @example
+ * ```html
+ * <app-space-authoring-panel />
+ * ```
+ */
+@Component({
+  selector: 'app-space-authoring-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './space-authoring-panel.component.html',
+  styleUrls: ['./space-authoring-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class SpaceAuthoringPanelComponent {
+  private readonly spaceAuthoringService = inject(SpaceAuthoringService);
+  private readonly planService = inject(PlanService);
+
+  // Computed from service
+  readonly tool = this.spaceAuthoringService.tool;
+  readonly isActive = this.spaceAuthoringService.isActive;
+  readonly draftPointCount = this.spaceAuthoringService.draftPointCount;
+  readonly canFinish = this.spaceAuthoringService.canFinish;
+  readonly selectedIds = this.spaceAuthoringService.selectedIds;
+  readonly error = this.spaceAuthoringService.error;
+  readonly storey = this.planService.activeStorey;
+
+  readonly tools: readonly AuthoringTool[] = [
+    { value: 'draw', label: 'Draw', hint: 'Click the corners, click the first corner or double-click to close' },
+    { value: 'detect', label: 'Detect', hint: 'Click inside a room enclosed by walls' },
+    { value: 'split', label: 'Split', hint: 'Click two points of a line across the room' },
+  ];
+
+  readonly hint = computed(() => this.tools.find((t) => t.value === this.tool())?.hint ?? '');
+
+  // Rooms of the storey with their floor areas
+  readonly rows = computed(() =>
+    this.spaceAuthoringService.storeySpaces().map((space) => ({
+      space,
+      area: formatSpaceValue(getOutlineArea(space.outline)),
+    }))
+  );
+
+  /**
+   * Select a tool, or stop authoring when it is already selected
+   */
+  selectTool(tool: SpaceAuthoringTool): void {
+    this.spaceAuthoringService.setTool(this.tool() === tool ? null : tool);
+  }
+
+  /**
+   * Stop authoring
+   */
+  stop(): void {
+    this.spaceAuthoringService.setTool(null);
+  }
+
+  /**
+   * Close the outline being drawn
+   */
+  async finish(): Promise<void> {
+    await this.spaceAuthoringService.finishDraft();
+  }
+
+  /**
+   * Drop the outline being drawn
+   */
+  cancel(): void {
+    this.spaceAuthoringService.cancelDraft();
+  }
+
+  /**
+   * Change the number, name or usage of a room
+   */
+  onFieldChange(space: AuthoredSpace, field: AuthoredSpaceField, event: Event): void {
+    this.spaceAuthoringService.update(space.id, { [field]: (event.target as HTMLInputElement).value });
+  }
+
+  /**
+   * Change the height of a room
+   */
+  onHeightChange(space: AuthoredSpace, event: Event): void {
+    this.spaceAuthoringService.update(space.id, { height: parseFloat((event.target as HTMLInputElement).value) });
+  }
+
+  /**
+   * Select or deselect a room for merging
+   */
+  toggleSelected(space: AuthoredSpace): void {
+    this.spaceAuthoringService.toggleSelected(space.id);
+  }
+
+  /**
+   * Merge the selected rooms
+   */
+  mergeSelected(): void {
+    this.spaceAuthoringService.merge(this.selectedIds());
+  }
+
+  /**
+   * Delete a room
+   */
+  remove(space: AuthoredSpace): void {
+    this.spaceAuthoringService.remove(space.id);
+  }
+}
@@ -0,0 +1,161 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { WritableSignal, signal } from '@angular/core';
+import { SpacesPanelComponent } from './spaces-panel.component';
+import { SpaceService } from '../../../core/services/space.service';
+import { SpatialTreeService } from '../../../core/services/spatial-tree.service';
+import { SpaceRow } from '../../../shared/models/space.model';
+import { SpatialNode } from '../../../shared/models/spatial.model';
+import { getSpaceTotals } from '../../../shared/utils/space.utils';
+
+describe('SpacesPanelComponent', () => {
+  let component: SpacesPanelComponent;
+  let fixture: ComponentFixture<SpacesPanelComponent>;
+  let spaceService: jasmine.SpyObj<SpaceService>;
+  let spatialTreeService: jasmine.SpyObj<SpatialTreeService>;
+  let spaces: WritableSignal<SpaceRow[]>;
+
+  const rows: SpaceRow[] = [
+    {
+      modelId: 'm1',
+      localId: 5,
+      globalId: 'guid-5',
+      name: '101',
+      longName: 'Office',
+      usage: 'Office',
+      storey: 'Level 1',
+      quantities: { netFloorArea: 20, grossFloorArea: 22, volume: 60, perimeter: 18 },
+      occupancy: 2,
+      computed: [],
+    },
+    {
+      modelId: 'm1',
+      localId: 6,
+      globalId: 'guid-6',
+      name: '102',
+      longName: null,
+      usage: null,
+      storey: 'Level 1',
+      quantities: { netFloorArea: 6, grossFloorArea: 6, volume: null, perimeter: 10 },
+      occupancy: null,
+      computed: ['netFloorArea', 'grossFloorArea', 'perimeter'],
+    },
+  ];
+
+  const node = { key: 'm1:5', modelId: 'm1', localId: 5, itemIds: [5] } as SpatialNode;
+
+  beforeEach(async () => {
+    spaces = signal<SpaceRow[]>(rows);
+
+    const spaceServiceSpy = jasmine.createSpyObj('SpaceService', ['load', 'isolate', 'exportCsv', 'edit', 'isEdited'], {
+      spaces,
+      totals: signal(getSpaceTotals(rows)),
+      isLoading: signal(false),
+    });
+    spaceServiceSpy.load.and.returnValue(Promise.resolve());
+    spaceServiceSpy.isolate.and.returnValue(Promise.resolve(node));
+    spaceServiceSpy.exportCsv.and.returnValue('Name\n101');
+    spaceServiceSpy.isEdited.and.returnValue(false);
+
+    const spatialTreeServiceSpy = jasmine.createSpyObj('SpatialTreeService', ['showAll'], {
+      hasHiddenItems: signal(true),
+    });
+    spatialTreeServiceSpy.showAll.and.returnValue(Promise.resolve());
+
+    await TestBed.configureTestingModule({
+      imports: [SpacesPanelComponent],
+      providers: [
+        { provide: SpaceService, useValue: spaceServiceSpy },
+        { provide: SpatialTreeService, useValue: spatialTreeServiceSpy },
+      ],
+    }).compileComponents();
+
+    spaceService = TestBed.inject(SpaceService) as jasmine.SpyObj<SpaceService>;
+    spatialTreeService = TestBed.inject(SpatialTreeService) as jasmine.SpyObj<SpatialTreeService>;
+    fixture = TestBed.createComponent(SpacesPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should list the rooms with their values and totals', () => {
+    const items = fixture.nativeElement.querySelectorAll('.spaces-row');
+    const totals = fixture.nativeElement.querySelector('.spaces-totals').textContent;
+
+    expect(items.length).toBe(2);
+    expect(items[0].textContent).toContain('Office');
+    expect(items[0].textContent).toContain('NFA 20.00');
+    expect(items[1].textContent).toContain('V –');
+    expect(totals).toContain('2 spaces');
+    expect(totals).toContain('NFA 26.00 m²');
+  });
+
+  it('should mark the values computed from the geometry', () => {
+    const items = fixture.nativeElement.querySelectorAll('.spaces-row');
+
+    expect(items[0].querySelectorAll('.computed').length).toBe(0);
+    expect(items[1].querySelectorAll('.computed').length).toBe(3);
+  });
+
+  it('should load the room schedule', async () => {
+    await component.load();
+
+    expect(spaceService.load).toHaveBeenCalled();
+    expect(component.hasLoaded()).toBe(true);
+  });
+
+  it('should isolate a room and ask the viewer to frame it', async () => {
+    const focusSpy = jasmine.createSpy('focusNode');
+    component.focusNode.subscribe(focusSpy);
+
+    await component.focusSpace(rows[0]!);
+
+    expect(spaceService.isolate).toHaveBeenCalledWith(rows[0]!);
+    expect(focusSpy).toHaveBeenCalledWith(node);
+    expect(component.activeKey()).toBe('m1:5');
+  });
+
+  it('should show every element again', async () => {
+    await component.focusSpace(rows[0]!);
+
+    await component.showAll();
+
+    expect(spatialTreeService.showAll).toHaveBeenCalled();
+    expect(component.activeKey()).toBeNull();
+  });
+
+  it('should edit the values of a room', () => {
+    component.toggleEdit(rows[0]!);
+    fixture.detectChanges();
+
+    const inputs = fixture.nativeElement.querySelectorAll('.spaces-editor input') as NodeListOf<HTMLInputElement>;
+    expect(inputs.length).toBe(7);
+    inputs[1]!.value = 'Open office';
+    inputs[1]!.dispatchEvent(new Event('change'));
+    inputs[3]!.value = '21.5';
+    inputs[3]!.dispatchEvent(new Event('change'));
+
+    expect(spaceService.edit).toHaveBeenCalledWith(rows[0]!, { longName: 'Open office' });
+    expect(spaceService.edit).toHaveBeenCalledWith(rows[0]!, { quantities: { netFloorArea: 21.5 } });
+  });
+
+  it('should download the room schedule as CSV', () => {
+    const link = document.createElement('a');
+    spyOn(document, 'createElement').and.returnValue(link);
+    spyOn(link, 'click');
+
+    component.exportCsv();
+
+    expect(link.download).toBe('spaces.csv');
+    expect(link.click).toHaveBeenCalled();
+  });
+
+  it('should show a hint without spaces', () => {
+    spaces.set([]);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.textContent).toContain('List the rooms');
+  });
+});
@@ -0,0 +1,143 @@
+import { ChangeDetectionStrategy, Component, inject, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SpaceService } from '../../../core/services/space.service';
+import { SpatialTreeService } from '../../../core/services/spatial-tree.service';
+import { SpaceQuantityKey, SpaceRow } from '../../../shared/models/space.model';
+import { SpatialNode } from '../../../shared/models/spatial.model';
+import { formatSpaceValue } from '../../../shared/utils/space.utils';
+import { downloadCsv } from '../../../shared/utils/csv.utils';
+
+/**
+ * Text field of a space of the IFC file
+ */
+type SpaceField = 'name' | 'longName' | 'usage';
+
+/**
+ * Spaces Panel Component
+ *
+ * Sidebar section with the room schedule of the IfcSpace elements.
+ *
+ * Features:
+ * - Name, long name, storey, net/gross floor area, volume and perimeter per room
+ * - Values computed from the geometry are marked
+ * - Totals of areas and volumes
+ * - Clicking a room isolates and frames it
+ * - Name, long name, usage and quantities editable per room (written back by the IFC export)
+ * - CSV export
+ *
+ * @example
+ * ```html
+ * <app-spaces-panel (focusNode)="focusSpatialNode($event)" />
+ * ```
+ */
+@Component({
+  selector: 'app-spaces-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './spaces-panel.component.html',
+  styleUrls: ['./spaces-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class SpacesPanelComponent {
+  private readonly spaceService = inject(SpaceService);
+  private readonly spatialTreeService = inject(SpatialTreeService);
+
+  // Outputs (camera framing is owned by the viewer)
+  readonly focusNode = output<SpatialNode>();
+
+  // Computed from service
+  readonly spaces = this.spaceService.spaces;
+  readonly totals = this.spaceService.totals;
+  readonly isLoading = this.spaceService.isLoading;
+  readonly hasHiddenItems = this.spatialTreeService.hasHiddenItems;
+
+  // Local state
+  readonly activeKey = signal<string | null>(null);
+  readonly editingKey = signal<string | null>(null);
+  readonly hasLoaded = signal<boolean>(false);
+
+  readonly format = formatSpaceValue;
+
+  readonly quantityFields: readonly { key: SpaceQuantityKey; label: string }[] = [
+    { key: 'netFloorArea', label: 'Net floor area (m²)' },
+    { key: 'grossFloorArea', label: 'Gross floor area (m²)' },
+    { key: 'volume', label: 'Volume (m³)' },
+    { key: 'perimeter', label: 'Perimeter (m)' },
+  ];
+
+  /**
+   * Load or refresh the room schedule
+   */
+  async load(): Promise<void> {
+    await this.spaceService.load();
+    this.hasLoaded.set(true);
+  }
+
+  /**
+   * Isolate a room and ask the viewer to frame it
+   */
+  async focusSpace(space: SpaceRow): Promise<void> {
+    const node = await this.spaceService.isolate(space);
+    this.activeKey.set(this.getKey(space));
+    this.focusNode.emit(node);
+  }
+
+  /**
+   * Show every element again
+   */
+  async showAll(): Promise<void> {
+    await this.spatialTreeService.showAll();
+    this.activeKey.set(null);
+  }
+
+  /**
+   * Download the room schedule as a CSV file
+   */
+  exportCsv(): void {
+    downloadCsv(this.spaceService.exportCsv(), 'spaces.csv');
+    console.log(`✅ Exported ${this.spaces().length} spaces`);
+  }
+
+  /**
+   * Open or close the editor of a room
+   */
+  toggleEdit(space: SpaceRow): void {
+    const key = this.getKey(space);
+    this.editingKey.set(this.editingKey() === key ? null : key);
+  }
+
+  /**
+   * Change the name, long name or usage of a room
+   */
+  onFieldChange(space: SpaceRow, field: SpaceField, event: Event): void {
+    this.spaceService.edit(space, { [field]: (event.target as HTMLInputElement).value });
+  }
+
+  /**
+   * Change a quantity of a room
+   */
+  onQuantityChange(space: SpaceRow, key: SpaceQuantityKey, event: Event): void {
+    this.spaceService.edit(space, { quantities: { [key]: parseFloat((event.target as HTMLInputElement).value) } });
+  }
+
+  /**
+   * Whether a room was edited
+   */
+  isEdited(space: SpaceRow): boolean {
+    return this.spaceService.isEdited(space);
+  }
+
+  /**
+   * Whether a value of a room was computed from its geometry
+   */
+  isComputed(space: SpaceRow, key: SpaceQuantityKey): boolean {
+    return space.computed.includes(key);
+  }
+
+  /**
+   * Unique key of a room
+   */
+  getKey(space: SpaceRow): string {
+    return `${space.modelId}:${space.localId}`;
+  }
+}
@@ -0,0 +1,164 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { computed, signal } from '@angular/core';
+import { SpatialTreeComponent } from './spatial-tree.component';
+import { SpatialTreeService } from '../../../core/services/spatial-tree.service';
+import { SelectionService } from '../../../core/services/selection.service';
+import { SpatialNode } from '../../../shared/models/spatial.model';
+import { ElementReference } from '../../../shared/models/selection.model';
+
+describe('SpatialTreeComponent', () => {
+  let component: SpatialTreeComponent;
+  let fixture: ComponentFixture<SpatialTreeComponent>;
+  let spatialTreeService: jasmine.SpyObj<SpatialTreeService>;
+  let selectionService: jasmine.SpyObj<SelectionService>;
+
+  // Mock data: model → storey → IfcWall group → wall
+  const wall: SpatialNode = {
+    key: 'model-1:10',
+    modelId: 'model-1',
+    localId: 10,
+    name: 'Wall A',
+    ifcClass: 'IfcWall',
+    kind: 'element',
+    itemIds: [10],
+    elementCount: 1,
+    children: [],
+  };
+  const walls: SpatialNode = {
+    key: 'model-1:2/IfcWall',
+    modelId: 'model-1',
+    localId: null,
+    name: 'IfcWall',
+    ifcClass: 'IfcWall',
+    kind: 'group',
+    itemIds: [10],
+    elementCount: 1,
+    children: [wall],
+  };
+  const storey: SpatialNode = {
+    key: 'model-1:2',
+    modelId: 'model-1',
+    localId: 2,
+    name: 'Level 1',
+    ifcClass: 'IfcBuildingStorey',
+    kind: 'spatial',
+    itemIds: [2, 10],
+    elementCount: 1,
+    children: [walls],
+  };
+  const tree: SpatialNode = {
+    key: 'model-1',
+    modelId: 'model-1',
+    localId: null,
+    name: 'Architecture',
+    ifcClass: 'Model',
+    kind: 'model',
+    itemIds: [2, 10],
+    elementCount: 1,
+    children: [storey],
+  };
+
+  beforeEach(async () => {
+    const trees = signal<SpatialNode[]>([tree]);
+    const spatialTreeServiceSpy = jasmine.createSpyObj(
+      'SpatialTreeService',
+      ['getVisibility', 'toggleNodeVisibility', 'isolate', 'showAll'],
+      {
+        trees,
+        hasHiddenItems: signal(false),
+        totalElements: computed(() => trees().reduce((sum, t) => sum + t.elementCount, 0)),
+      }
+    );
+    spatialTreeServiceSpy.getVisibility.and.returnValue('visible');
+    spatialTreeServiceSpy.toggleNodeVisibility.and.returnValue(Promise.resolve());
+    spatialTreeServiceSpy.isolate.and.returnValue(Promise.resolve());
+    spatialTreeServiceSpy.showAll.and.returnValue(Promise.resolve());
+
+    const selectionServiceSpy = jasmine.createSpyObj('SelectionService', ['select'], {
+      selection: signal<ElementReference | null>(null),
+    });
+    selectionServiceSpy.select.and.returnValue(Promise.resolve());
+
+    await TestBed.configureTestingModule({
+      imports: [SpatialTreeComponent],
+      providers: [
+        { provide: SpatialTreeService, useValue: spatialTreeServiceSpy },
+        { provide: SelectionService, useValue: selectionServiceSpy },
+      ],
+    }).compileComponents();
+
+    spatialTreeService = TestBed.inject(SpatialTreeService) as jasmine.SpyObj<SpatialTreeService>;
+    selectionService = TestBed.inject(SelectionService) as jasmine.SpyObj<SelectionService>;
+    fixture = TestBed.createComponent(SpatialTreeComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should expand spatial nodes and collapse class groups by default', () => {
+    expect(component.rows().map((r) => r.node.key)).toEqual([
+      'model-1',
+      'model-1:2',
+      'model-1:2/IfcWall',
+    ]);
+  });
+
+  it('should expand a collapsed group', () => {
+    component.toggleExpanded(walls);
+
+    expect(component.rows().map((r) => r.node.key)).toContain('model-1:10');
+    expect(component.rows().find((r) => r.node.key === 'model-1:2/IfcWall')?.depth).toBe(2);
+  });
+
+  it('should collapse an expanded spatial node', () => {
+    component.toggleExpanded(storey);
+
+    expect(component.rows().length).toBe(2);
+  });
+
+  it('should render element counts', () => {
+    const counts = fixture.nativeElement.querySelectorAll('.tree-node-count');
+
+    expect(counts.length).toBe(3);
+    expect(counts[0].textContent.trim()).toBe('1');
+  });
+
+  it('should toggle visibility of a node', () => {
+    const checkbox = fixture.nativeElement.querySelectorAll('.tree-checkbox')[1] as HTMLInputElement;
+    checkbox.click();
+
+    expect(spatialTreeService.toggleNodeVisibility).toHaveBeenCalledWith(storey);
+  });
+
+  it('should isolate a node', () => {
+    component.isolate(storey);
+
+    expect(spatialTreeService.isolate).toHaveBeenCalledWith(storey);
+  });
+
+  it('should emit focusNode when a node is focused', () => {
+    spyOn(component.focusNode, 'emit');
+
+    component.focus(storey);
+
+    expect(component.focusNode.emit).toHaveBeenCalledWith(storey);
+  });
+
+  it('should select element nodes in the viewport and frame them', () => {
+    spyOn(component.focusNode, 'emit');
+
+    component.select(wall);
+
+    expect(selectionService.select).toHaveBeenCalledWith('model-1', 10);
+    expect(component.focusNode.emit).toHaveBeenCalledWith(wall);
+  });
+
+  it('should not select spatial nodes in the viewport', () => {
+    component.select(storey);
+
+    expect(selectionService.select).not.toHaveBeenCalled();
+  });
+});
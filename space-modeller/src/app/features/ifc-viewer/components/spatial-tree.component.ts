@@ -0,0 +1,158 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  inject,
+  output,
+  signal,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SpatialTreeService } from '../../../core/services/spatial-tree.service';
+import { SelectionService } from '../../../core/services/selection.service';
+import { SpatialNode, SpatialNodeVisibility } from '../../../shared/models/spatial.model';
+
+/**
+ * Row of the flattened tree
+ */
+interface SpatialTreeRow {
+  node: SpatialNode;
+  depth: number;
+  expanded: boolean;
+  visibility: SpatialNodeVisibility;
+}
+
+/**
+ * Spatial Tree Component
+ * 
+ * Collapsible tree of the IFC spatial decomposition of every loaded model
+ * (Project → Site → Building → Storey → Element).
+ * 
+ * Features:
+ * - Expand / collapse nodes (spatial nodes start expanded, class groups collapsed)
+ * - Visibility checkbox per node with partial state
+ * - Isolate and focus actions
+ * - Element counts
+ * - Selecting an element node selects it in the viewport
+ * 
+ * @example
+ * ```html
+ * <app-spatial-tree (focusNode)="focusSpatialNode($event)" />
+ * ```
+ */
+@Component({
+  selector: 'app-spatial-tree',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './spatial-tree.component.html',
+  styleUrls: ['./spatial-tree.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class SpatialTreeComponent {
+  private readonly spatialTreeService = inject(SpatialTreeService);
+  private readonly selectionService = inject(SelectionService);
+
+  // Outputs (camera framing is owned by the viewer)
+  readonly focusNode = output<SpatialNode>();
+
+  // Computed from service
+  readonly trees = this.spatialTreeService.trees;
+  readonly hasHiddenItems = this.spatialTreeService.hasHiddenItems;
+  readonly totalElements = this.spatialTreeService.totalElements;
+
+  // Keys of nodes whose expansion differs from the default
+  private readonly toggledKeys = signal<ReadonlySet<string>>(new Set());
+
+  readonly selectedKey = computed(() => {
+    const selection = this.selectionService.selection();
+    return selection ? `${selection.modelId}:${selection.localId}` : null;
+  });
+
+  // Visible rows of the tree
+  readonly rows = computed(() => {
+    const toggled = this.toggledKeys();
+    const rows: SpatialTreeRow[] = [];
+
+    const visit = (node: SpatialNode, depth: number): void => {
+      const expanded = this.isDefaultExpanded(node) !== toggled.has(node.key);
+      rows.push({
+        node,
+        depth,
+        expanded,
+        visibility: this.spatialTreeService.getVisibility(node),
+      });
+      if (expanded) {
+        node.children.forEach((child) => visit(child, depth + 1));
+      }
+    };
+
+    this.trees().forEach((tree) => visit(tree, 0));
+    return rows;
+  });
+
+  /**
+   * Spatial nodes start expanded, class groups and elements collapsed
+   */
+  private isDefaultExpanded(node: SpatialNode): boolean {
+    return node.kind === 'model' || node.kind === 'spatial';
+  }
+
+  /**
+   * Expand or collapse a node
+   */
+  toggleExpanded(node: SpatialNode): void {
+    this.toggledKeys.update((toggled) => {
+      const next = new Set(toggled);
+      if (next.has(node.key)) {
+        next.delete(node.key);
+      } else {
+        next.add(node.key);
+      }
+      return next;
+    });
+  }
+
+  /**
+   * Toggle the visibility of a node
+   */
+  toggleVisibility(node: SpatialNode): void {
+    this.spatialTreeService.toggleNodeVisibility(node).catch(console.error);
+  }
+
+  /**
+   * Hide everything except a node
+   */
+  isolate(node: SpatialNode): void {
+    this.spatialTreeService.isolate(node).catch(console.error);
+  }
+
+  /**
+   * Show every node again
+   */
+  showAll(): void {
+    this.spatialTreeService.showAll().catch(console.error);
+  }
+
+  /**
+   * Ask the viewer to frame a node
+   */
+  focus(node: SpatialNode): void {
+    this.focusNode.emit(node);
+  }
+
+  /**
+   * Select a node: elements are selected in the viewport, every node is framed
+   */
+  select(node: SpatialNode): void {
+    if (node.kind === 'element' && node.localId !== null) {
+      this.selectionService.select(node.modelId, node.localId).catch(console.error);
+    }
+    this.focus(node);
+  }
+
+  /**
+   * Track by function for list performance
+   */
+  trackByKey(index: number, row: SpatialTreeRow): string {
+    return row.node.key;
+  }
+}
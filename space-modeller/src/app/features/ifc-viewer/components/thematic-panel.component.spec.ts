@@ -0,0 +1,148 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { WritableSignal, computed, signal } from '@angular/core';
+import { ThematicPanelComponent } from './thematic-panel.component';
+import { ThemeService } from '../../../core/services/theme.service';
+import { ThemeLegendEntry, ThemePreset } from '../../../shared/models/theme.model';
+import { THEME_CONFIG } from '../../../shared/constants/viewer.constants';
+
+describe('ThematicPanelComponent', () => {
+  let component: ThematicPanelComponent;
+  let fixture: ComponentFixture<ThematicPanelComponent>;
+  let themeService: jasmine.SpyObj<ThemeService>;
+  let legend: WritableSignal<ThemeLegendEntry[]>;
+  let isActive: WritableSignal<boolean>;
+
+  const preset: ThemePreset = {
+    version: 1,
+    name: 'U-values',
+    mode: 'range',
+    field: 'Pset_WallCommon.ThermalTransmittance',
+    colors: {},
+    ranges: [
+      { min: 0, max: 0.5, color: '#2563eb' },
+      { min: 0.5, max: 1, color: '#dc2626' },
+      { min: 1, max: 2, color: '#dc2626' },
+    ],
+  };
+
+  beforeEach(async () => {
+    legend = signal<ThemeLegendEntry[]>([
+      { label: 'IfcDoor', color: '#4ecdc4', count: 3 },
+      { label: 'IfcWall', color: '#ff6b6b', count: 12 },
+    ]);
+    isActive = signal(true);
+
+    const themeServiceSpy = jasmine.createSpyObj(
+      'ThemeService',
+      ['apply', 'clear', 'setGroupColor', 'exportPreset', 'importPreset'],
+      {
+        isActive: computed(() => isActive()),
+        isApplying: signal(false),
+        legend,
+        fields: signal(['Pset_WallCommon.FireRating', 'Pset_WallCommon.ThermalTransmittance']),
+        error: signal(null),
+      }
+    );
+    themeServiceSpy.apply.and.returnValue(Promise.resolve(true));
+    themeServiceSpy.clear.and.returnValue(Promise.resolve());
+    themeServiceSpy.setGroupColor.and.returnValue(Promise.resolve());
+    themeServiceSpy.exportPreset.and.returnValue('{}');
+    themeServiceSpy.importPreset.and.returnValue(Promise.resolve(preset));
+
+    await TestBed.configureTestingModule({
+      imports: [ThematicPanelComponent],
+      providers: [{ provide: ThemeService, useValue: themeServiceSpy }],
+    }).compileComponents();
+
+    themeService = TestBed.inject(ThemeService) as jasmine.SpyObj<ThemeService>;
+    fixture = TestBed.createComponent(ThematicPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show the legend with counts', () => {
+    const entries = fixture.nativeElement.querySelectorAll('.thematic-entry');
+
+    expect(entries.length).toBe(2);
+    expect(entries[1].querySelector('.thematic-value').textContent).toBe('IfcWall');
+    expect(entries[1].querySelector('.thematic-count-label').textContent).toBe('12');
+    expect(entries[1].querySelector('.thematic-swatch').value).toBe('#ff6b6b');
+  });
+
+  it('should apply the chosen mode and property', async () => {
+    component.mode.set('range');
+    component.field.set('Pset_WallCommon.ThermalTransmittance');
+    component.rangeCount.set(4);
+    fixture.detectChanges();
+
+    await component.apply();
+
+    expect(fixture.nativeElement.querySelectorAll('.thematic-select').length).toBe(2);
+    expect(themeService.apply).toHaveBeenCalledWith({
+      mode: 'range',
+      field: 'Pset_WallCommon.ThermalTransmittance',
+      rangeCount: 4,
+      colors: {},
+      ranges: [],
+    });
+  });
+
+  it('should not send a property for the other modes', async () => {
+    component.field.set('Pset_WallCommon.FireRating');
+
+    await component.apply();
+
+    expect(themeService.apply.calls.mostRecent().args[0].field).toBeNull();
+  });
+
+  it('should clamp the number of ranges', () => {
+    component.onRangeCountInput({ target: { value: '50' } } as unknown as Event);
+
+    expect(component.rangeCount()).toBe(THEME_CONFIG.maxRangeCount);
+  });
+
+  it('should recolor legend entries and turn the colors off', async () => {
+    await component.onColorInput('IfcWall', { target: { value: '#000000' } } as unknown as Event);
+    await component.turnOff();
+
+    expect(themeService.setGroupColor).toHaveBeenCalledWith('IfcWall', '#000000');
+    expect(themeService.clear).toHaveBeenCalled();
+  });
+
+  it('should download the preset', () => {
+    const link = document.createElement('a');
+    spyOn(document, 'createElement').and.returnValue(link);
+    spyOn(link, 'click');
+
+    component.exportPreset();
+
+    expect(themeService.exportPreset).toHaveBeenCalledWith('class');
+    expect(link.download).toBe('class-colors.json');
+    expect(link.click).toHaveBeenCalled();
+  });
+
+  it('should apply imported presets', async () => {
+    const file = new File(['{}'], 'u-values.json');
+    const input = { files: [file], value: 'u-values.json' } as unknown as HTMLInputElement;
+
+    await component.onImportFile({ target: input } as unknown as Event);
+
+    expect(themeService.importPreset).toHaveBeenCalledWith('{}');
+    expect(component.mode()).toBe('range');
+    expect(component.field()).toBe(preset.field!);
+    expect(component.rangeCount()).toBe(3);
+    expect(input.value).toBe('');
+  });
+
+  it('should show a hint when inactive', () => {
+    isActive.set(false);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.thematic-legend')).toBeNull();
+    expect(fixture.nativeElement.querySelector('.thematic-hint').textContent).toContain('Recolor the model');
+  });
+});
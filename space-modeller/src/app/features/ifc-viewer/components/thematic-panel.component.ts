@@ -0,0 +1,165 @@
+import { ChangeDetectionStrategy, Component, ElementRef, inject, signal, viewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ThemeService } from '../../../core/services/theme.service';
+import { ThemeMode } from '../../../shared/models/theme.model';
+import { THEME_CONFIG } from '../../../shared/constants/viewer.constants';
+
+/**
+ * Thematic Panel Component
+ *
+ * Sidebar section that recolors the model by element values.
+ *
+ * Features:
+ * - Color by class, storey, material, property value or numeric ranges
+ * - Legend with element counts and editable colors
+ * - Turn the colors off to restore the original materials
+ * - Export and import the color mapping as a JSON preset
+ *
+ * @example
+ * ```html
+ * <app-thematic-panel />
+ * ```
+ */
+@Component({
+  selector: 'app-thematic-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './thematic-panel.component.html',
+  styleUrls: ['./thematic-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ThematicPanelComponent {
+  private readonly themeService = inject(ThemeService);
+
+  // Template References
+  private readonly importInputRef = viewChild.required<ElementRef<HTMLInputElement>>('importInput');
+
+  readonly modes: { value: ThemeMode; label: string }[] = [
+    { value: 'class', label: 'IFC class' },
+    { value: 'storey', label: 'Storey' },
+    { value: 'material', label: 'Material' },
+    { value: 'property', label: 'Property value' },
+    { value: 'range', label: 'Numeric ranges' },
+  ];
+  readonly minRangeCount = THEME_CONFIG.minRangeCount;
+  readonly maxRangeCount = THEME_CONFIG.maxRangeCount;
+
+  // Computed from service
+  readonly isActive = this.themeService.isActive;
+  readonly isApplying = this.themeService.isApplying;
+  readonly legend = this.themeService.legend;
+  readonly fields = this.themeService.fields;
+  readonly error = this.themeService.error;
+
+  // Local state
+  readonly mode = signal<ThemeMode>('class');
+  readonly field = signal<string>('');
+  readonly rangeCount = signal<number>(THEME_CONFIG.defaultRangeCount);
+
+  /**
+   * Update what the elements are colored by
+   */
+  onModeChange(event: Event): void {
+    this.mode.set((event.target as HTMLSelectElement).value as ThemeMode);
+  }
+
+  /**
+   * Update the property of the property and range modes
+   */
+  onFieldChange(event: Event): void {
+    this.field.set((event.target as HTMLSelectElement).value);
+  }
+
+  /**
+   * Update the number of ranges (clamped to the allowed count)
+   */
+  onRangeCountInput(event: Event): void {
+    const value = Math.round(Number((event.target as HTMLInputElement).value));
+    if (Number.isFinite(value)) {
+      this.rangeCount.set(Math.min(this.maxRangeCount, Math.max(this.minRangeCount, value)));
+    }
+  }
+
+  /**
+   * Whether the mode colors by a property
+   */
+  needsField(): boolean {
+    return this.mode() === 'property' || this.mode() === 'range';
+  }
+
+  /**
+   * Recolor the model
+   */
+  async apply(): Promise<void> {
+    await this.themeService.apply({
+      mode: this.mode(),
+      field: this.needsField() ? this.field() || null : null,
+      rangeCount: this.rangeCount(),
+      colors: {},
+      ranges: [],
+    });
+  }
+
+  /**
+   * Restore the original materials
+   */
+  async turnOff(): Promise<void> {
+    await this.themeService.clear();
+  }
+
+  /**
+   * Change the color of a legend entry
+   */
+  async onColorInput(label: string, event: Event): Promise<void> {
+    await this.themeService.setGroupColor(label, (event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Download the color mapping as a JSON preset
+   */
+  exportPreset(): void {
+    const name = this.field() && this.needsField() ? this.field() : this.mode();
+    const json = this.themeService.exportPreset(name);
+    if (!json) {
+      return;
+    }
+
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name.replace(/[^\w-]+/g, '-')}-colors.json`;
+    link.click();
+
+    URL.revokeObjectURL(url);
+    console.log(`✅ Exported ${this.legend().length} colors`);
+  }
+
+  /**
+   * Open the file picker for a preset
+   */
+  openImport(): void {
+    this.importInputRef().nativeElement.click();
+  }
+
+  /**
+   * Apply the picked preset
+   */
+  async onImportFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) {
+      return;
+    }
+
+    const preset = await this.themeService.importPreset(await file.text());
+    if (preset) {
+      this.mode.set(preset.mode);
+      this.field.set(preset.field ?? '');
+      if (preset.ranges.length > 0) {
+        this.rangeCount.set(preset.ranges.length);
+      }
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { WritableSignal, computed, signal } from '@angular/core';
+import { ViewpointsPanelComponent } from './viewpoints-panel.component';
+import { ViewpointService } from '../../../core/services/viewpoint.service';
+import { Viewpoint } from '../../../shared/models/viewpoint.model';
+
+describe('ViewpointsPanelComponent', () => {
+  let component: ViewpointsPanelComponent;
+  let fixture: ComponentFixture<ViewpointsPanelComponent>;
+  let viewpointService: jasmine.SpyObj<ViewpointService>;
+
+  const entrance: Viewpoint = {
+    id: 'vp-1',
+    name: 'Entrance',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    camera: {
+      type: 'orthographic',
+      position: { x: 10, y: 10, z: 10 },
+      target: { x: 0, y: 0, z: 0 },
+      zoom: 2,
+    },
+    hiddenClasses: ['IfcSpace'],
+    selectedGlobalId: null,
+    clipping: {
+      planes: [],
+      sectionBox: { enabled: true, min: { x: 0, y: 0, z: 0 }, max: { x: 1, y: 1, z: 1 } },
+    },
+  };
+
+  let modelName: WritableSignal<string | null>;
+  let viewpoints: WritableSignal<Viewpoint[]>;
+
+  beforeEach(async () => {
+    modelName = signal<string | null>('tower');
+    viewpoints = signal<Viewpoint[]>([entrance]);
+
+    const viewpointServiceSpy = jasmine.createSpyObj('ViewpointService', ['remove', 'clear', 'exportJson', 'importJson'], {
+      modelName,
+      viewpoints,
+      hasViewpoints: computed(() => viewpoints().length > 0),
+      nextName: signal('Viewpoint 2'),
+    });
+    viewpointServiceSpy.exportJson.and.returnValue('{}');
+    viewpointServiceSpy.importJson.and.returnValue(0);
+
+    await TestBed.configureTestingModule({
+      imports: [ViewpointsPanelComponent],
+      providers: [{ provide: ViewpointService, useValue: viewpointServiceSpy }],
+    }).compileComponents();
+
+    viewpointService = TestBed.inject(ViewpointService) as jasmine.SpyObj<ViewpointService>;
+    fixture = TestBed.createComponent(ViewpointsPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should list viewpoints with their state', () => {
+    const items = fixture.nativeElement.querySelectorAll('.viewpoints-item');
+
+    expect(items.length).toBe(1);
+    expect(items[0].querySelector('.viewpoints-label').textContent.trim()).toBe('Entrance');
+    expect(items[0].querySelector('.viewpoints-meta').textContent).toContain('2D');
+    expect(items[0].querySelector('.viewpoints-meta').textContent).toContain('1 hidden');
+    expect(items[0].querySelector('.viewpoints-meta').textContent).toContain('section');
+  });
+
+  it('should ask the viewer to save the view with the typed or default name', () => {
+    spyOn(component.saveViewpoint, 'emit');
+
+    component.save();
+    component.name.set('Roof');
+    component.save();
+
+    expect(component.saveViewpoint.emit).toHaveBeenCalledWith('Viewpoint 2');
+    expect(component.saveViewpoint.emit).toHaveBeenCalledWith('Roof');
+    expect(component.name()).toBe('');
+  });
+
+  it('should ask the viewer to restore a viewpoint', () => {
+    spyOn(component.restoreViewpoint, 'emit');
+
+    (fixture.nativeElement.querySelector('.viewpoints-restore') as HTMLButtonElement).click();
+
+    expect(component.restoreViewpoint.emit).toHaveBeenCalledWith(entrance);
+  });
+
+  it('should remove and clear viewpoints', () => {
+    component.remove(entrance);
+    component.clearAll();
+
+    expect(viewpointService.remove).toHaveBeenCalledWith('vp-1');
+    expect(viewpointService.clear).toHaveBeenCalled();
+  });
+
+  it('should report files without viewpoints', async () => {
+    const file = new File(['{"models": []}'], 'other.json');
+    const input = { files: [file], value: 'other.json' } as unknown as HTMLInputElement;
+
+    await component.onImportFile({ target: input } as unknown as Event);
+
+    expect(viewpointService.importJson).toHaveBeenCalledWith('{"models": []}');
+    expect(component.importMessage()).toBe('No viewpoints found in other.json');
+    expect(input.value).toBe('');
+  });
+
+  it('should show a hint without a model', () => {
+    modelName.set(null);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.viewpoints-save')).toBeNull();
+    expect(fixture.nativeElement.querySelector('.viewpoints-hint').textContent).toContain('Load a model');
+  });
+});
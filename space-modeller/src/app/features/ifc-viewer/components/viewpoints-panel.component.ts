@@ -0,0 +1,131 @@
+import { ChangeDetectionStrategy, Component, ElementRef, inject, output, signal, viewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ViewpointService } from '../../../core/services/viewpoint.service';
+import { Viewpoint } from '../../../shared/models/viewpoint.model';
+
+/**
+ * Viewpoints Panel Component
+ *
+ * Sidebar section for the saved viewpoints of the active model.
+ *
+ * Features:
+ * - Save the current view under a name
+ * - Restore a viewpoint (animated by the viewer)
+ * - Delete one or every viewpoint
+ * - Export and import viewpoints as JSON
+ *
+ * @example
+ * ```html
+ * <app-viewpoints-panel (saveViewpoint)="saveViewpoint($event)" (restoreViewpoint)="restoreViewpoint($event)" />
+ * ```
+ */
+@Component({
+  selector: 'app-viewpoints-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './viewpoints-panel.component.html',
+  styleUrls: ['./viewpoints-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ViewpointsPanelComponent {
+  private readonly viewpointService = inject(ViewpointService);
+
+  // Template References
+  private readonly importInputRef = viewChild.required<ElementRef<HTMLInputElement>>('importInput');
+
+  // Outputs (the camera is owned by the viewer)
+  readonly saveViewpoint = output<string>();
+  readonly restoreViewpoint = output<Viewpoint>();
+
+  // Computed from service
+  readonly modelName = this.viewpointService.modelName;
+  readonly viewpoints = this.viewpointService.viewpoints;
+  readonly hasViewpoints = this.viewpointService.hasViewpoints;
+  readonly nextName = this.viewpointService.nextName;
+
+  // Local state
+  readonly name = signal<string>('');
+  readonly importMessage = signal<string | null>(null);
+
+  /**
+   * Update the name of the next viewpoint
+   */
+  onNameInput(event: Event): void {
+    this.name.set((event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Ask the viewer to save the current view
+   */
+  save(): void {
+    this.saveViewpoint.emit(this.name().trim() || this.nextName());
+    this.name.set('');
+  }
+
+  /**
+   * Ask the viewer to restore a viewpoint
+   */
+  restore(viewpoint: Viewpoint): void {
+    this.restoreViewpoint.emit(viewpoint);
+  }
+
+  /**
+   * Delete a viewpoint
+   */
+  remove(viewpoint: Viewpoint): void {
+    this.viewpointService.remove(viewpoint.id);
+  }
+
+  /**
+   * Delete every viewpoint of the model
+   */
+  clearAll(): void {
+    this.viewpointService.clear();
+  }
+
+  /**
+   * Download the viewpoints as a JSON file
+   */
+  exportJson(): void {
+    const blob = new Blob([this.viewpointService.exportJson()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${this.modelName() ?? 'model'}-viewpoints.json`;
+    link.click();
+
+    URL.revokeObjectURL(url);
+    console.log(`✅ Exported ${this.viewpoints().length} viewpoints`);
+  }
+
+  /**
+   * Open the file picker for a viewpoints file
+   */
+  openImport(): void {
+    this.importInputRef().nativeElement.click();
+  }
+
+  /**
+   * Import the picked viewpoints file
+   */
+  async onImportFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) {
+      return;
+    }
+
+    const count = this.viewpointService.importJson(await file.text());
+    this.importMessage.set(
+      count > 0 ? `Imported ${count} viewpoint${count === 1 ? '' : 's'}` : `No viewpoints found in ${file.name}`
+    );
+  }
+
+  /**
+   * Track by function for list performance
+   */
+  trackById(index: number, viewpoint: Viewpoint): string {
+    return viewpoint.id;
+  }
+}
@@ -0,0 +1,126 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { WritableSignal, computed, signal } from '@angular/core';
+import { ZonesPanelComponent } from './zones-panel.component';
+import { ZoneService } from '../../../core/services/zone.service';
+import { ZoneMapping, ZoneRow } from '../../../shared/models/zone.model';
+import { getZoneTotals } from '../../../shared/utils/zone.utils';
+
+describe('ZonesPanelComponent', () => {
+  let component: ZonesPanelComponent;
+  let fixture: ComponentFixture<ZonesPanelComponent>;
+  let zoneService: jasmine.SpyObj<ZoneService>;
+  let rows: WritableSignal<ZoneRow[]>;
+  let isOverlayActive: WritableSignal<boolean>;
+
+  const zoneRows: ZoneRow[] = [
+    {
+      zone: {
+        id: 'Department:Sales',
+        name: 'Sales',
+        category: 'Department',
+        color: '#3b82f6',
+        spaceNumbers: ['101', '109'],
+        source: 'import',
+        modelId: null,
+      },
+      spaces: [{ number: '101', element: { modelId: 'm1', localId: 1 }, authoredId: null, area: 20, occupancy: 4 }],
+      area: 20,
+      occupancy: 4,
+      missing: ['109'],
+    },
+  ];
+
+  beforeEach(async () => {
+    rows = signal<ZoneRow[]>(zoneRows);
+    isOverlayActive = signal(false);
+
+    const zoneServiceSpy = jasmine.createSpyObj(
+      'ZoneService',
+      ['load', 'importCsv', 'clearImported', 'selectCategory', 'setZoneColor', 'showOverlay', 'clearOverlay', 'exportCsv'],
+      {
+        rows,
+        totals: computed(() => getZoneTotals(rows())),
+        categories: computed(() => rows().map((row) => row.zone.category)),
+        category: signal<string | null>(null),
+        mapping: signal<ZoneMapping>({ zones: zoneRows.map((row) => row.zone), occupancy: {} }),
+        isOverlayActive,
+        isLoading: signal(false),
+        error: signal<string | null>(null),
+      }
+    );
+    zoneServiceSpy.load.and.returnValue(Promise.resolve());
+    zoneServiceSpy.importCsv.and.returnValue(Promise.resolve({ assignments: [], skipped: [3] }));
+    zoneServiceSpy.selectCategory.and.returnValue(Promise.resolve());
+    zoneServiceSpy.showOverlay.and.returnValue(Promise.resolve());
+    zoneServiceSpy.clearOverlay.and.returnValue(Promise.resolve());
+    zoneServiceSpy.setZoneColor.and.returnValue(Promise.resolve());
+
+    await TestBed.configureTestingModule({
+      imports: [ZonesPanelComponent],
+      providers: [{ provide: ZoneService, useValue: zoneServiceSpy }],
+    }).compileComponents();
+
+    zoneService = TestBed.inject(ZoneService) as jasmine.SpyObj<ZoneService>;
+    fixture = TestBed.createComponent(ZonesPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should list the zones with their totals and missing spaces', () => {
+    const entries = fixture.nativeElement.querySelectorAll('.zones-entry');
+    const text = fixture.nativeElement.textContent;
+
+    expect(entries.length).toBe(1);
+    expect(entries[0].textContent).toContain('Sales');
+    expect(entries[0].textContent).toContain('20.00 m²');
+    expect(text).toContain('Not found: 109');
+    expect(text).toContain('4 occupants');
+  });
+
+  it('should toggle the zone colors', async () => {
+    await component.toggleOverlay();
+    expect(zoneService.showOverlay).toHaveBeenCalled();
+
+    isOverlayActive.set(true);
+    await component.toggleOverlay();
+    expect(zoneService.clearOverlay).toHaveBeenCalled();
+  });
+
+  it('should filter by category', async () => {
+    await component.onCategoryChange({ target: { value: '' } } as unknown as Event);
+    expect(zoneService.selectCategory).toHaveBeenCalledWith(null);
+
+    await component.onCategoryChange({ target: { value: 'Department' } } as unknown as Event);
+    expect(zoneService.selectCategory).toHaveBeenCalledWith('Department');
+  });
+
+  it('should change the color of a zone', async () => {
+    await component.onColorInput('Department:Sales', { target: { value: '#ff0000' } } as unknown as Event);
+
+    expect(zoneService.setZoneColor).toHaveBeenCalledWith('Department:Sales', '#ff0000');
+  });
+
+  it('should import a zone mapping and report skipped rows', async () => {
+    const file = new File(['Space,Zone\n101,Sales'], 'zones.csv');
+    const input = { files: [file], value: 'zones.csv' } as unknown as HTMLInputElement;
+
+    await component.onImportFile({ target: input } as unknown as Event);
+    fixture.detectChanges();
+
+    expect(zoneService.importCsv).toHaveBeenCalledWith('Space,Zone\n101,Sales');
+    expect(input.value).toBe('');
+    expect(fixture.nativeElement.textContent).toContain('Skipped rows without a space or zone: 3');
+  });
+
+  it('should show a hint without zones', () => {
+    rows.set([]);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.zones-list')).toBeNull();
+    expect(fixture.nativeElement.textContent).toContain('Group the spaces');
+  });
+});
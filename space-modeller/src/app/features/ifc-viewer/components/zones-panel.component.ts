@@ -0,0 +1,125 @@
+import { ChangeDetectionStrategy, Component, ElementRef, inject, signal, viewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ZoneService } from '../../../core/services/zone.service';
+import { formatSpaceValue } from '../../../shared/utils/space.utils';
+import { downloadCsv } from '../../../shared/utils/csv.utils';
+
+/**
+ * Zones Panel Component
+ *
+ * Sidebar section that groups the spaces into zones such as departments, fire compartments
+ * and HVAC zones.
+ *
+ * Features:
+ * - Zones of the models (IfcZone) and of an imported CSV mapping of room number to zone
+ * - Spaces, area and occupancy per zone and in total
+ * - Room numbers of the mapping that match no space
+ * - Color-coded zone overlay with editable colors, filtered by zone category
+ * - CSV export
+ *
+ * @example
+ * ```html
+ * <app-zones-panel />
+ * ```
+ */
+@Component({
+  selector: 'app-zones-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './zones-panel.component.html',
+  styleUrls: ['./zones-panel.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ZonesPanelComponent {
+  private readonly zoneService = inject(ZoneService);
+
+  // Template References
+  private readonly importInputRef = viewChild.required<ElementRef<HTMLInputElement>>('importInput');
+
+  // Computed from service
+  readonly rows = this.zoneService.rows;
+  readonly totals = this.zoneService.totals;
+  readonly categories = this.zoneService.categories;
+  readonly category = this.zoneService.category;
+  readonly mapping = this.zoneService.mapping;
+  readonly isOverlayActive = this.zoneService.isOverlayActive;
+  readonly isLoading = this.zoneService.isLoading;
+  readonly error = this.zoneService.error;
+
+  // Local state
+  readonly hasLoaded = signal<boolean>(false);
+  readonly skipped = signal<number[]>([]);
+
+  readonly format = formatSpaceValue;
+
+  /**
+   * Load or refresh the spaces and the zones of the models
+   */
+  async load(): Promise<void> {
+    await this.zoneService.load();
+    this.hasLoaded.set(true);
+  }
+
+  /**
+   * Show the zones of the chosen category
+   */
+  async onCategoryChange(event: Event): Promise<void> {
+    await this.zoneService.selectCategory((event.target as HTMLSelectElement).value || null);
+  }
+
+  /**
+   * Turn the zone colors on or off
+   */
+  async toggleOverlay(): Promise<void> {
+    if (this.isOverlayActive()) {
+      await this.zoneService.clearOverlay();
+    } else {
+      await this.zoneService.showOverlay();
+    }
+  }
+
+  /**
+   * Change the color of a zone
+   */
+  async onColorInput(id: string, event: Event): Promise<void> {
+    await this.zoneService.setZoneColor(id, (event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Remove the imported zones
+   */
+  async clearImported(): Promise<void> {
+    await this.zoneService.clearImported();
+    this.skipped.set([]);
+  }
+
+  /**
+   * Download the zone totals as a CSV file
+   */
+  exportCsv(): void {
+    downloadCsv(this.zoneService.exportCsv(), 'zones.csv');
+    console.log(`✅ Exported ${this.rows().length} zones`);
+  }
+
+  /**
+   * Open the file picker for a zone mapping
+   */
+  openImport(): void {
+    this.importInputRef().nativeElement.click();
+  }
+
+  /**
+   * Import the picked zone mapping
+   */
+  async onImportFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) {
+      return;
+    }
+
+    const result = await this.zoneService.importCsv(await file.text());
+    this.skipped.set(result?.skipped ?? []);
+  }
+}
@@ -1,12 +1,29 @@
 import { ComponentFixture, TestBed, fakeAsync, tick, flush } from '@angular/core/testing';
-import { signal } from '@angular/core';
+import { computed, signal } from '@angular/core';
+import { ActivatedRoute, ActivatedRouteSnapshot, Router, convertToParamMap, provideRouter } from '@angular/router';
 import * as THREE from 'three';
 import { IfcViewerComponent } from './ifc-viewer.component';
 import { FragmentsService } from '../../core/services/fragments.service';
 import { ErrorHandlerService, ErrorSeverity } from '../../core/services/error-handler.service';
 import { ConfigService } from '../../core/services/config.service';
 import { IfcFilterService } from '../../core/services/ifc-filter.service';
-import { ModelLoadingStatus } from '../../shared/models/ifc.model';
+import { ModelManagerService } from '../../core/services/model-manager.service';
+import { SelectionService } from '../../core/services/selection.service';
+import { SpatialTreeService } from '../../core/services/spatial-tree.service';
+import { ClippingService } from '../../core/services/clipping.service';
+import { MeasurementService } from '../../core/services/measurement.service';
+import { ModelLibraryService } from '../../core/services/model-library.service';
+import { ViewpointService } from '../../core/services/viewpoint.service';
+import { BcfService } from '../../core/services/bcf.service';
+import { PlanService } from '../../core/services/plan.service';
+import { DrawingViewService } from '../../core/services/drawing-view.service';
+import { IfcWriterService } from '../../core/services/ifc-writer.service';
+import { ModelLoadingStatus, ViewerInteractionMode } from '../../shared/models/ifc.model';
+import { CachedModel, CachedModelData } from '../../shared/models/model-library.model';
+import { Viewpoint, ViewpointCamera } from '../../shared/models/viewpoint.model';
+import { BcfTopic } from '../../shared/models/bcf.model';
+import { DrawingView } from '../../shared/models/drawing.model';
+import { CAMERA_CONFIG, VIEW_CUBE_CONFIG } from '../../shared/constants/viewer.constants';
 import { of, BehaviorSubject } from 'rxjs';
 
 describe('IfcViewerComponent', () => {
@@ -16,6 +33,8 @@ describe('IfcViewerComponent', () => {
   let errorHandler: jasmine.SpyObj<ErrorHandlerService>;
   let configService: jasmine.SpyObj<ConfigService>;
   let ifcFilterService: jasmine.SpyObj<IfcFilterService>;
+  let modelLibrary: jasmine.SpyObj<ModelLibraryService>;
+  let modelManager: ModelManagerService;
 
   // Mock configuration
   const mockConfig = {
@@ -36,10 +55,17 @@ describe('IfcViewerComponent', () => {
     const fragmentsServiceSpy = jasmine.createSpyObj('FragmentsService', [
       'initialize',
       'loadIfc',
+      'loadFragments',
       'getModel',
       'getModelStatistics',
       'exportFragment',
       'removeModel',
+      'setModelVisibility',
+      'getSpatialStructure',
+      'getAllModels',
+      'getModelIds',
+      'getItemsOfCategories',
+      'getItemsData',
       'bindCamera',
       'updateCulling',
       'dispose',
@@ -57,15 +83,37 @@ describe('IfcViewerComponent', () => {
 
     const ifcFilterServiceSpy = jasmine.createSpyObj('IfcFilterService', [
       'extractClasses',
+      'removeModel',
       'clear',
       'toggleClassVisibility',
       'showAllClasses',
       'hideAllClasses',
-    ]);
+      'setExternalClassCount',
+    ], {
+      ifcClasses: signal(new Map()),
+      availableClasses: signal([]),
+    });
+
+    const libraryEntries = signal<CachedModel[]>([]);
+    const modelLibrarySpy = jasmine.createSpyObj(
+      'ModelLibraryService',
+      ['hash', 'load', 'store', 'refresh', 'remove', 'evictOldest', 'clear', 'dispose'],
+      {
+        entries: libraryEntries,
+        quota: signal(null),
+        hasEntries: computed(() => libraryEntries().length > 0),
+        totalSize: computed(() => 0),
+      }
+    );
 
     // Setup default spy return values
+    modelLibrarySpy.hash.and.returnValue(Promise.resolve('hash-1'));
+    modelLibrarySpy.load.and.returnValue(Promise.resolve(null));
+    modelLibrarySpy.store.and.returnValue(Promise.resolve(true));
+    modelLibrarySpy.refresh.and.returnValue(Promise.resolve());
     fragmentsServiceSpy.initialize.and.returnValue(Promise.resolve());
     fragmentsServiceSpy.loadIfc.and.returnValue(Promise.resolve('test-uuid'));
+    fragmentsServiceSpy.loadFragments.and.returnValue(Promise.resolve('test-uuid'));
     fragmentsServiceSpy.getModel.and.returnValue({ modelId: 'test-uuid', object: new THREE.Group() } as any);
     fragmentsServiceSpy.getModelStatistics.and.returnValue({
       fragmentCount: 10,
@@ -83,6 +131,11 @@ describe('IfcViewerComponent', () => {
       })
     );
     fragmentsServiceSpy.removeModel.and.returnValue(Promise.resolve(true));
+    fragmentsServiceSpy.getSpatialStructure.and.returnValue(Promise.resolve(null));
+    fragmentsServiceSpy.getAllModels.and.returnValue([]);
+    fragmentsServiceSpy.getModelIds.and.returnValue([]);
+    fragmentsServiceSpy.getItemsOfCategories.and.returnValue(Promise.resolve({}));
+    fragmentsServiceSpy.getItemsData.and.returnValue(Promise.resolve([]));
     ifcFilterServiceSpy.extractClasses.and.returnValue(Promise.resolve([]));
 
     await TestBed.configureTestingModule({
@@ -92,6 +145,8 @@ describe('IfcViewerComponent', () => {
         { provide: ErrorHandlerService, useValue: errorHandlerSpy },
         { provide: ConfigService, useValue: configServiceSpy },
         { provide: IfcFilterService, useValue: ifcFilterServiceSpy },
+        { provide: ModelLibraryService, useValue: modelLibrarySpy },
+        provideRouter([]),
       ],
     }).compileComponents();
 
@@ -99,6 +154,8 @@ describe('IfcViewerComponent', () => {
     errorHandler = TestBed.inject(ErrorHandlerService) as jasmine.SpyObj<ErrorHandlerService>;
     configService = TestBed.inject(ConfigService) as jasmine.SpyObj<ConfigService>;
     ifcFilterService = TestBed.inject(IfcFilterService) as jasmine.SpyObj<IfcFilterService>;
+    modelLibrary = TestBed.inject(ModelLibraryService) as jasmine.SpyObj<ModelLibraryService>;
+    modelManager = TestBed.inject(ModelManagerService);
 
     fixture = TestBed.createComponent(IfcViewerComponent);
     component = fixture.componentInstance;
@@ -134,7 +191,7 @@ describe('IfcViewerComponent', () => {
       expect(component.canExport()).toBe(false);
 
       // Set a loaded model
-      component.currentModel.set({
+      modelManager.addModel({
         id: 'test-id',
         name: 'test-model',
         status: ModelLoadingStatus.LOADED,
@@ -175,6 +232,27 @@ describe('IfcViewerComponent', () => {
       expect(fragmentsService.loadIfc).toHaveBeenCalled();
     }));
 
+    it('should load exported fragments files without IFC conversion', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      const file = new File(['test content'], 'Tower.frag');
+      const event = {
+        target: { files: [file], value: 'Tower.frag' },
+      } as unknown as Event;
+
+      component.onFileSelected(event);
+      tick(1000);
+
+      expect(fragmentsService.loadFragments).toHaveBeenCalledWith(
+        jasmine.any(Uint8Array),
+        'tower',
+        jasmine.any(Function),
+        jasmine.any(AbortSignal)
+      );
+      expect(fragmentsService.loadIfc).not.toHaveBeenCalled();
+    }));
+
     it('should reject invalid files', fakeAsync(() => {
       fixture.detectChanges();
       tick(1000);
@@ -265,12 +343,12 @@ describe('IfcViewerComponent', () => {
       expect(errorHandler.handleError).toHaveBeenCalled();
     }));
 
-    it('should clear previous model before loading new one', fakeAsync(() => {
+    it('should keep previously loaded models when loading another one', fakeAsync(() => {
       fixture.detectChanges();
       tick(1000);
 
       // Load first model
-      component.currentModel.set({
+      modelManager.addModel({
         id: 'first-id',
         name: 'first-model',
         status: ModelLoadingStatus.LOADED,
@@ -292,8 +370,623 @@ describe('IfcViewerComponent', () => {
       tick(1000);
       flush();
 
-      expect(fragmentsService.removeModel).toHaveBeenCalledWith('first-uuid');
-      expect(ifcFilterService.clear).toHaveBeenCalled();
+      expect(fragmentsService.removeModel).not.toHaveBeenCalled();
+      expect(ifcFilterService.clear).not.toHaveBeenCalled();
+      expect(modelManager.modelCount()).toBe(2);
+      expect(component.currentModel()?.fragmentUuid).toBe('test-uuid');
+    }));
+  });
+
+  describe('Drag and Drop', () => {
+    const dragEvent = (files: File[], types = ['Files']) =>
+      ({
+        preventDefault: jasmine.createSpy('preventDefault'),
+        dataTransfer: { types, files, dropEffect: 'none' },
+      }) as unknown as DragEvent;
+
+    it('should show the drop zone while files are dragged over the canvas', () => {
+      fixture.detectChanges();
+
+      const event = dragEvent([]);
+      component.onDragOver(event);
+      fixture.detectChanges();
+
+      expect(event.preventDefault).toHaveBeenCalled();
+      expect(event.dataTransfer!.dropEffect).toBe('copy');
+      expect(fixture.nativeElement.querySelector('.drop-overlay')).toBeTruthy();
+
+      component.onDragLeave(dragEvent([]));
+      fixture.detectChanges();
+
+      expect(fixture.nativeElement.querySelector('.drop-overlay')).toBeNull();
+    });
+
+    it('should ignore drags without files', () => {
+      const event = dragEvent([], ['text/plain']);
+
+      component.onDragOver(event);
+
+      expect(event.preventDefault).not.toHaveBeenCalled();
+      expect(component.isDragOver()).toBe(false);
+    });
+
+    it('should load every dropped file', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      const files = [
+        new File(['first'], 'first.ifc', { type: 'application/ifc' }),
+        new File(['second'], 'second.ifc', { type: 'application/ifc' }),
+      ];
+
+      component.onDrop(dragEvent(files));
+      tick(1000);
+      flush();
+
+      expect(fragmentsService.loadIfc).toHaveBeenCalledTimes(2);
+      expect(component.models().length).toBe(2);
+      expect(component.isDragOver()).toBe(false);
+    }));
+
+    it('should report invalid files individually and load the others', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      const files = [
+        new File(['notes'], 'notes.txt', { type: 'text/plain' }),
+        new File(['model'], 'model.ifc', { type: 'application/ifc' }),
+      ];
+
+      component.onDrop(dragEvent(files));
+      tick(1000);
+      flush();
+
+      expect(errorHandler.handleError).toHaveBeenCalledWith(
+        jasmine.any(String),
+        ErrorSeverity.WARNING,
+        jasmine.objectContaining({ operation: 'fileValidation', fileName: 'notes.txt' })
+      );
+      expect(fragmentsService.loadIfc).toHaveBeenCalledTimes(1);
+    }));
+
+    it('should not import while a model is loading', fakeAsync(() => {
+      component.isLoading.set(true);
+
+      component.onDrop(dragEvent([new File(['model'], 'model.ifc')]));
+      tick(100);
+
+      expect(fragmentsService.loadIfc).not.toHaveBeenCalled();
+    }));
+  });
+
+  describe('Model Library', () => {
+    const cached: CachedModelData = {
+      entry: {
+        hash: 'hash-1',
+        fileName: 'Tower.ifc',
+        dataSize: 3,
+        state: { id: 'old-id', name: 'tower', status: ModelLoadingStatus.LOADED, progress: 100, fileSize: 2048 },
+        stats: null,
+        storedAt: new Date(),
+        lastOpenedAt: new Date(),
+      },
+      data: new Uint8Array([7, 7, 7]),
+    };
+
+    const selectFile = (file: File) =>
+      component.onFileSelected({ target: { files: [file], value: file.name } } as unknown as Event);
+
+    it('should store the converted fragments after importing an IFC file', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      selectFile(new File(['test content'], 'test.ifc', { type: 'application/ifc' }));
+      tick(1000);
+      flush();
+
+      expect(modelLibrary.hash).toHaveBeenCalledWith(jasmine.any(Uint8Array));
+      expect(fragmentsService.exportFragment).toHaveBeenCalledWith('test-uuid');
+      expect(modelLibrary.store).toHaveBeenCalledWith(
+        'hash-1',
+        'test.ifc',
+        new Uint8Array([1, 2, 3]),
+        jasmine.objectContaining({ name: 'test', fragmentUuid: 'test-uuid' }),
+        jasmine.objectContaining({ meshCount: 50 })
+      );
+    }));
+
+    it('should reuse converted fragments when the same IFC file is imported again', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+      modelLibrary.load.and.returnValue(Promise.resolve(cached));
+
+      selectFile(new File(['test content'], 'test.ifc', { type: 'application/ifc' }));
+      tick(1000);
+      flush();
+
+      expect(fragmentsService.loadFragments).toHaveBeenCalledWith(
+        cached.data,
+        'test',
+        jasmine.any(Function),
+        jasmine.any(AbortSignal)
+      );
+      expect(fragmentsService.loadIfc).not.toHaveBeenCalled();
+      expect(modelLibrary.store).not.toHaveBeenCalled();
+    }));
+
+    it('should open a model from the recent models list', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+      modelLibrary.load.and.returnValue(Promise.resolve(cached));
+
+      component.openCachedModel('hash-1');
+      tick(1000);
+      flush();
+
+      expect(fragmentsService.loadFragments).toHaveBeenCalledWith(
+        cached.data,
+        'tower',
+        jasmine.any(Function),
+        jasmine.any(AbortSignal)
+      );
+      expect(component.models().length).toBe(1);
+      expect(component.models()[0]!.status).toBe(ModelLoadingStatus.LOADED);
+      expect(component.isLoading()).toBe(false);
+    }));
+
+    it('should report models that are no longer stored', fakeAsync(() => {
+      component.openCachedModel('missing');
+      tick(100);
+
+      expect(fragmentsService.loadFragments).not.toHaveBeenCalled();
+      expect(component.errorMessage()).toContain('no longer available');
+      expect(modelLibrary.refresh).toHaveBeenCalled();
+    }));
+  });
+
+  describe('Loading Cancellation', () => {
+    const selectFile = (file: File) =>
+      component.onFileSelected({ target: { files: [file], value: file.name } } as unknown as Event);
+
+    // Conversion that reports geometry progress and only ends when cancelled
+    const convertUntilCancelled = () =>
+      fragmentsService.loadIfc.and.callFake((_buffer, _name, onProgress, signal) => {
+        onProgress?.(42.5, 'geometry');
+        return new Promise<string>((_resolve, reject) => {
+          signal!.addEventListener('abort', () => reject(new DOMException('Cancelled', 'AbortError')));
+        });
+      });
+
+    it('should show the loading stage and a cancel button', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+      convertUntilCancelled();
+
+      selectFile(new File(['test content'], 'test.ifc'));
+      tick(100);
+      fixture.detectChanges();
+
+      expect(component.loadingStage()).toBe('Converting geometry');
+      expect(fixture.nativeElement.querySelector('.loading-text').textContent).toContain('42.5%');
+      expect(fixture.nativeElement.querySelector('.loading-cancel')).toBeTruthy();
+
+      component.cancelLoading();
+      flush();
+    }));
+
+    it('should mark the model as cancelled without reporting an error', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+      convertUntilCancelled();
+
+      selectFile(new File(['test content'], 'test.ifc'));
+      tick(100);
+      component.cancelLoading();
+      tick(100);
+      flush();
+
+      expect(component.models()[0]!.status).toBe(ModelLoadingStatus.CANCELLED);
+      expect(component.errorMessage()).toBeNull();
+      expect(component.isLoading()).toBe(false);
+      expect(component.canCancelLoading()).toBe(false);
+      expect(errorHandler.handleError).not.toHaveBeenCalledWith(
+        jasmine.anything(),
+        jasmine.anything(),
+        jasmine.objectContaining({ operation: 'loadIfcFile' })
+      );
+      expect(modelLibrary.store).not.toHaveBeenCalled();
+    }));
+
+    it('should dispose fragments loaded before cancelling', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+      ifcFilterService.extractClasses.and.callFake(() => {
+        component.cancelLoading();
+        return Promise.resolve([]);
+      });
+
+      selectFile(new File(['test content'], 'test.ifc'));
+      tick(1000);
+      flush();
+
+      expect(fragmentsService.removeModel).toHaveBeenCalledWith('test-uuid');
+      expect(component.models()[0]!.status).toBe(ModelLoadingStatus.CANCELLED);
+      expect(component.models()[0]!.fragmentUuid).toBeUndefined();
+    }));
+  });
+
+  describe('Multiple Models', () => {
+    beforeEach(() => {
+      modelManager.addModel({
+        id: 'architecture',
+        name: 'architecture',
+        status: ModelLoadingStatus.LOADED,
+        fragmentUuid: 'arch-uuid',
+        progress: 100,
+      });
+      modelManager.addModel({
+        id: 'structure',
+        name: 'structure',
+        status: ModelLoadingStatus.LOADED,
+        fragmentUuid: 'struct-uuid',
+        progress: 100,
+      });
+    });
+
+    it('should unload a single model', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      component.unloadModel('architecture');
+      tick(100);
+
+      expect(fragmentsService.removeModel).toHaveBeenCalledWith('arch-uuid');
+      expect(ifcFilterService.removeModel).toHaveBeenCalledWith('arch-uuid');
+      expect(component.models().map((m) => m.id)).toEqual(['structure']);
+    }));
+
+    it('should make a focused model active', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      component.focusModel('architecture');
+
+      expect(fragmentsService.getModel).toHaveBeenCalledWith('arch-uuid');
+      expect(component.currentModel()?.id).toBe('architecture');
+    }));
+
+    it('should render the model list', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+      fixture.detectChanges();
+
+      const rows = fixture.nativeElement.querySelectorAll('.model-item');
+      expect(rows.length).toBe(2);
+    }));
+  });
+
+  describe('Element Selection', () => {
+    let selectionService: SelectionService;
+
+    beforeEach(() => {
+      selectionService = TestBed.inject(SelectionService);
+      spyOn(selectionService, 'pickAt').and.returnValue(Promise.resolve(null));
+    });
+
+    it('should default to select mode', () => {
+      expect(component.interactionMode()).toBe(ViewerInteractionMode.SELECT);
+    });
+
+    it('should switch interaction mode', () => {
+      component.setInteractionMode(ViewerInteractionMode.ORBIT);
+
+      expect(component.interactionMode()).toBe(ViewerInteractionMode.ORBIT);
+    });
+
+    it('should pick elements when models are loaded', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      Object.defineProperty(fragmentsService, 'isInitialized', { get: () => true });
+      modelManager.addModel({
+        id: 'architecture',
+        name: 'architecture',
+        status: ModelLoadingStatus.LOADED,
+        fragmentUuid: 'arch-uuid',
+        progress: 100,
+      });
+
+      (component as any).pickElement(new THREE.Vector2(10, 10));
+      tick();
+
+      expect(selectionService.pickAt).toHaveBeenCalled();
+    }));
+
+    it('should not pick without loaded models', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      (component as any).pickElement(new THREE.Vector2(10, 10));
+      tick();
+
+      expect(selectionService.pickAt).not.toHaveBeenCalled();
+    }));
+
+    it('should render the properties panel', () => {
+      fixture.detectChanges();
+
+      expect(fixture.nativeElement.querySelector('app-properties-panel')).toBeTruthy();
+    });
+  });
+
+  describe('Spatial Tree', () => {
+    const storey = {
+      key: 'arch-uuid:2',
+      modelId: 'arch-uuid',
+      localId: 2,
+      name: 'Level 1',
+      ifcClass: 'IfcBuildingStorey',
+      kind: 'spatial' as const,
+      itemIds: [2, 10],
+      elementCount: 1,
+      children: [],
+    };
+
+    it('should render the spatial tree next to the class filter', () => {
+      fixture.detectChanges();
+
+      const tree = fixture.nativeElement.querySelector('app-spatial-tree');
+      expect(tree).toBeTruthy();
+      expect(tree.parentElement.nextElementSibling.querySelector('app-ifc-class-filter')).toBeTruthy();
+    });
+
+    it('should build the tree after loading a model', fakeAsync(() => {
+      const spatialTreeService = TestBed.inject(SpatialTreeService);
+      spyOn(spatialTreeService, 'buildTree').and.returnValue(Promise.resolve(null));
+      fixture.detectChanges();
+      tick(1000);
+
+      const file = new File(['test content'], 'test.ifc', { type: 'application/ifc' });
+      const mockInput = {
+        files: [file],
+        value: 'test.ifc',
+      } as unknown as HTMLInputElement;
+
+      component.onFileSelected({ target: mockInput } as unknown as Event);
+      tick(100);
+      flush();
+
+      expect(spatialTreeService.buildTree).toHaveBeenCalledWith('test-uuid', 'test');
+    }));
+
+    it('should frame a spatial node', fakeAsync(() => {
+      const spatialTreeService = TestBed.inject(SpatialTreeService);
+      const box = new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(4, 4, 4));
+      spyOn(spatialTreeService, 'getNodeBox').and.returnValue(Promise.resolve(box));
+      fixture.detectChanges();
+      tick(1000);
+
+      component.focusSpatialNode(storey);
+      tick();
+
+      expect(spatialTreeService.getNodeBox).toHaveBeenCalledWith(storey);
+      expect(component.controls()?.target.equals(new THREE.Vector3(2, 2, 2))).toBe(true);
+    }));
+  });
+
+  describe('Measurements', () => {
+    let measurementService: MeasurementService;
+
+    beforeEach(() => {
+      measurementService = TestBed.inject(MeasurementService);
+    });
+
+    it('should render the measurement panel', () => {
+      fixture.detectChanges();
+
+      expect(fixture.nativeElement.querySelector('app-measurement-panel')).toBeTruthy();
+    });
+
+    it('should offer a measure mode', () => {
+      component.startMeasuring();
+
+      expect(component.interactionModes.some((m) => m.value === ViewerInteractionMode.MEASURE)).toBe(true);
+      expect(component.isMeasuring()).toBe(true);
+    });
+
+    it('should read the project units after loading a model', fakeAsync(() => {
+      spyOn(measurementService, 'loadUnits').and.returnValue(Promise.resolve());
+      fixture.detectChanges();
+      tick(1000);
+
+      const file = new File(['test content'], 'test.ifc', { type: 'application/ifc' });
+      const mockInput = {
+        files: [file],
+        value: 'test.ifc',
+      } as unknown as HTMLInputElement;
+
+      component.onFileSelected({ target: mockInput } as unknown as Event);
+      tick(100);
+      flush();
+
+      expect(measurementService.loadUnits).toHaveBeenCalledWith('test-uuid');
+    }));
+
+    it('should measure instead of picking in measure mode', fakeAsync(() => {
+      spyOn(measurementService, 'pickAt').and.returnValue(Promise.resolve(null));
+      fixture.detectChanges();
+      tick(1000);
+
+      Object.defineProperty(fragmentsService, 'isInitialized', { get: () => true });
+      modelManager.addModel({
+        id: 'architecture',
+        name: 'architecture',
+        status: ModelLoadingStatus.LOADED,
+        fragmentUuid: 'arch-uuid',
+        progress: 100,
+      });
+
+      (component as any).measureAt(new THREE.Vector2(10, 10));
+      tick();
+
+      expect(measurementService.pickAt).toHaveBeenCalled();
+    }));
+
+    it('should drop an unfinished measurement when leaving measure mode', () => {
+      spyOn(measurementService, 'cancelDraft');
+      component.startMeasuring();
+
+      component.setInteractionMode(ViewerInteractionMode.SELECT);
+
+      expect(measurementService.cancelDraft).toHaveBeenCalled();
+    });
+  });
+
+  describe('Section Planes', () => {
+    it('should render the clipping panel', () => {
+      fixture.detectChanges();
+
+      expect(fixture.nativeElement.querySelector('app-clipping-panel')).toBeTruthy();
+    });
+
+    it('should fit section planes after loading a model', fakeAsync(() => {
+      const clippingService = TestBed.inject(ClippingService);
+      spyOn(clippingService, 'fitToModels');
+      fixture.detectChanges();
+      tick(1000);
+
+      const file = new File(['test content'], 'test.ifc', { type: 'application/ifc' });
+      const mockInput = {
+        files: [file],
+        value: 'test.ifc',
+      } as unknown as HTMLInputElement;
+
+      component.onFileSelected({ target: mockInput } as unknown as Event);
+      tick(100);
+      flush();
+
+      expect(clippingService.fitToModels).toHaveBeenCalled();
+    }));
+
+    it('should add a view plane through the orbit target', fakeAsync(() => {
+      const clippingService = TestBed.inject(ClippingService);
+      spyOn(clippingService, 'addPlane').and.returnValue(null);
+      fixture.detectChanges();
+      tick(1000);
+
+      component.addViewSectionPlane();
+
+      const [axis, view] = (clippingService.addPlane as jasmine.Spy).calls.mostRecent().args;
+      expect(axis).toBe('view');
+      expect(view.target.equals(component.controls()!.target)).toBe(true);
+      expect(view.direction.dot(component.camera()!.getWorldDirection(new THREE.Vector3()))).toBeGreaterThan(0);
+    }));
+  });
+
+  describe('Floor Plans', () => {
+    let planService: PlanService;
+
+    const finishTransition = () =>
+      (component as any).stepCameraTransition(Date.now() + VIEW_CUBE_CONFIG.transitionDuration);
+
+    beforeEach(() => {
+      planService = TestBed.inject(PlanService);
+      planService.storeys.set([{ key: 'test-uuid:2', modelId: 'test-uuid', localId: 2, name: 'Level 1', elevation: 3 }]);
+      spyOn(planService, 'getStoreyBox').and.returnValue(
+        Promise.resolve(new THREE.Box3(new THREE.Vector3(0, 3, 0), new THREE.Vector3(10, 6, 10)))
+      );
+      fragmentsService.updateCulling.and.returnValue(Promise.resolve());
+    });
+
+    it('should look down on the storey in the orthographic camera', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      component.enterPlan('test-uuid:2');
+      flush();
+      finishTransition();
+
+      const camera = component.camera()!;
+      expect(component.isPlanMode()).toBe(true);
+      expect(component.cameraType()).toBe('orthographic');
+      expect(component.controls()!.enableRotate).toBe(false);
+      expect(component.controls()!.target.toArray()).toEqual([5, 3, 5]);
+      expect(camera.position.y).toBeGreaterThan(3);
+      expect(camera.position.x).toBeCloseTo(5);
+    }));
+
+    it('should restore the previous view when leaving plan mode', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      component.enterPlan('test-uuid:2');
+      flush();
+      finishTransition();
+      component.exitPlan();
+      finishTransition();
+
+      expect(component.isPlanMode()).toBe(false);
+      expect(component.cameraType()).toBe('perspective');
+      expect(component.controls()!.enableRotate).toBe(true);
+      expect(component.camera()!.position.x).toBeCloseTo(10);
+    }));
+
+    it('should disable the camera select in plan mode', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      component.enterPlan('test-uuid:2');
+      flush();
+      fixture.detectChanges();
+
+      expect(fixture.nativeElement.querySelector('.camera-select').disabled).toBe(true);
+    }));
+  });
+
+  describe('Drawing Views', () => {
+    const finishTransition = () =>
+      (component as any).stepCameraTransition(Date.now() + VIEW_CUBE_CONFIG.transitionDuration);
+
+    const showView = (view: DrawingView) => {
+      fixture.detectChanges();
+      tick(1000);
+      (component as any).scene.add(new THREE.Mesh(new THREE.BoxGeometry(10, 10, 10).translate(5, 5, 5)));
+
+      component.showDrawingView(view);
+      finishTransition();
+    };
+
+    it('should look at the north facade in the orthographic camera', fakeAsync(() => {
+      showView({
+        id: 'north',
+        name: 'North Elevation',
+        kind: 'elevation',
+        direction: { x: 0, y: 0, z: -1 },
+        planeId: null,
+      });
+
+      const camera = component.camera()!;
+      expect(component.cameraType()).toBe('orthographic');
+      expect(component.controls()!.target.z).toBeCloseTo(5);
+      expect(camera.position.z).toBeLessThan(0);
+      expect(camera.position.x).toBeCloseTo(5);
+    }));
+
+    it('should look at sections on their plane', fakeAsync(() => {
+      spyOn(TestBed.inject(DrawingViewService), 'getSectionPlane').and.returnValue(
+        new THREE.Plane(new THREE.Vector3(1, 0, 0), -2)
+      );
+
+      showView({
+        id: 'p1',
+        name: 'Plane 1 (X) Section',
+        kind: 'section',
+        direction: { x: -1, y: 0, z: 0 },
+        planeId: 'p1',
+      });
+
+      expect(component.controls()!.target.x).toBeCloseTo(2);
+      expect(component.camera()!.position.x).toBeLessThan(2);
     }));
   });
 
@@ -302,7 +995,7 @@ describe('IfcViewerComponent', () => {
       fixture.detectChanges();
       tick(1000);
 
-      component.currentModel.set({
+      modelManager.addModel({
         id: 'test-id',
         name: 'test-model',
         status: ModelLoadingStatus.LOADED,
@@ -341,7 +1034,7 @@ describe('IfcViewerComponent', () => {
       fixture.detectChanges();
       tick(1000);
 
-      component.currentModel.set({
+      modelManager.addModel({
         id: 'test-id',
         name: 'test-model',
         status: ModelLoadingStatus.LOADED,
@@ -365,6 +1058,66 @@ describe('IfcViewerComponent', () => {
     }));
   });
 
+  describe('IFC Export', () => {
+    let ifcWriterService: IfcWriterService;
+
+    beforeEach(() => {
+      ifcWriterService = TestBed.inject(IfcWriterService);
+      modelManager.addModel({
+        id: 'test-id',
+        name: 'test-model',
+        status: ModelLoadingStatus.LOADED,
+        fragmentUuid: 'test-uuid',
+        progress: 100,
+        fileSize: 1000,
+      });
+    });
+
+    it('should only export models opened from an IFC file', () => {
+      expect(component.canExportIfc()).toBe(false);
+
+      ifcWriterService.setSource('test-uuid', new Uint8Array([1]));
+
+      expect(component.canExportIfc()).toBe(true);
+    });
+
+    it('should download the written IFC file', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      spyOn(ifcWriterService, 'export').and.returnValue(
+        Promise.resolve({ success: true, data: new Uint8Array([1, 2]), fileSize: 2 })
+      );
+      const mockLink = document.createElement('a');
+      spyOn(mockLink, 'click');
+      spyOn(document, 'createElement').and.returnValue(mockLink);
+      spyOn(URL, 'createObjectURL').and.returnValue('blob:test');
+      spyOn(URL, 'revokeObjectURL');
+
+      component.downloadIfc();
+      tick(1000);
+
+      expect(ifcWriterService.export).toHaveBeenCalledWith('test-uuid');
+      expect(mockLink.download).toBe('test-model.ifc');
+      expect(mockLink.click).toHaveBeenCalled();
+    }));
+
+    it('should report a failed IFC export', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      spyOn(ifcWriterService, 'export').and.returnValue(
+        Promise.resolve({ success: false, error: 'The IFC file of this model is not available' })
+      );
+
+      component.downloadIfc();
+      tick(1000);
+
+      expect(component.errorMessage()).toBe('Failed to export IFC');
+      expect(errorHandler.handleError).toHaveBeenCalled();
+    }));
+  });
+
   describe('Camera Controls', () => {
     it('should switch from perspective to orthographic camera', fakeAsync(() => {
       fixture.detectChanges();
@@ -420,6 +1173,227 @@ describe('IfcViewerComponent', () => {
     }));
   });
 
+  describe('Orientation Cube Navigation', () => {
+    const finishTransition = () =>
+      (component as any).stepCameraTransition(Date.now() + VIEW_CUBE_CONFIG.transitionDuration);
+
+    beforeEach(() => {
+      fragmentsService.updateCulling.and.returnValue(Promise.resolve());
+    });
+
+    it('should animate to the picked view around the orbit target', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      const camera = component.camera()!;
+      const target = component.controls()!.target;
+      const distance = camera.position.distanceTo(target);
+
+      component.setCubeView({ x: 0, y: 1, z: 0 });
+      (component as any).stepCameraTransition(Date.now());
+      expect(camera.position.distanceTo(target)).toBeCloseTo(distance);
+
+      finishTransition();
+
+      expect(camera.position.x).toBeCloseTo(target.x);
+      expect(camera.position.y - target.y).toBeCloseTo(distance, 1);
+      expect(fragmentsService.updateCulling).toHaveBeenCalled();
+    }));
+
+    it('should rotate the view by 90 degrees', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      const camera = component.camera()!;
+      component.setCubeView({ x: 0, y: 0, z: 1 });
+      finishTransition();
+
+      component.rotateCubeView('right');
+      finishTransition();
+
+      expect(camera.position.z).toBeCloseTo(0);
+      expect(camera.position.x).toBeGreaterThan(0);
+    }));
+
+    it('should return to the default view without models', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      const camera = component.camera()!;
+      component.setCubeView({ x: -1, y: 0, z: 0 });
+      finishTransition();
+
+      component.resetView();
+      finishTransition();
+
+      expect(camera.position.x).toBeCloseTo(10);
+      expect(camera.position.y).toBeCloseTo(10);
+      expect(camera.position.z).toBeCloseTo(10);
+    }));
+
+    it('should drive the orthographic camera', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      component.onCameraChange({ target: { value: 'orthographic' } } as unknown as Event);
+      component.setCubeView({ x: 1, y: 0, z: 0 });
+      finishTransition();
+
+      const camera = component.camera()!;
+      expect(camera).toBeInstanceOf(THREE.OrthographicCamera);
+      expect(camera.position.y).toBeCloseTo(component.controls()!.target.y);
+      expect(camera.position.x).toBeGreaterThan(component.controls()!.target.x);
+    }));
+
+    it('should stop the animation when the user starts navigating', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      const camera = component.camera()!;
+      const position = camera.position.clone();
+
+      component.setCubeView({ x: 0, y: 0, z: -1 });
+      component.controls()!.dispatchEvent({ type: 'start' });
+      finishTransition();
+
+      expect(camera.position.equals(position)).toBe(true);
+    }));
+  });
+
+  describe('Viewpoints', () => {
+    let viewpointService: ViewpointService;
+
+    const finishTransition = () =>
+      (component as any).stepCameraTransition(Date.now() + VIEW_CUBE_CONFIG.transitionDuration);
+
+    const viewpoint = (camera: ViewpointCamera): Viewpoint => ({
+      id: 'vp-1',
+      name: 'Plan',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      camera,
+      hiddenClasses: [],
+      selectedGlobalId: null,
+      clipping: {
+        planes: [],
+        sectionBox: { enabled: false, min: { x: 0, y: 0, z: 0 }, max: { x: 0, y: 0, z: 0 } },
+      },
+    });
+
+    beforeEach(() => {
+      viewpointService = TestBed.inject(ViewpointService);
+      spyOn(viewpointService, 'save').and.returnValue(Promise.resolve(null));
+      spyOn(viewpointService, 'apply').and.returnValue(Promise.resolve());
+      fragmentsService.updateCulling.and.returnValue(Promise.resolve());
+    });
+
+    it('should save the current camera', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      component.saveViewpoint('Entrance');
+
+      const [name, camera] = (viewpointService.save as jasmine.Spy).calls.mostRecent().args;
+      expect(name).toBe('Entrance');
+      expect(camera.type).toBe('perspective');
+      expect(camera.position.x).toBeCloseTo(10);
+      expect(camera.target).toEqual({ x: 0, y: 0, z: 0 });
+      expect(camera.zoom).toBe(1);
+    }));
+
+    it('should switch the camera and animate to an orthographic viewpoint', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      const saved = viewpoint({
+        type: 'orthographic',
+        position: { x: 0, y: 20, z: 0.01 },
+        target: { x: 0, y: 0, z: 0 },
+        zoom: 2,
+      });
+
+      component.restoreViewpoint(saved);
+      finishTransition();
+
+      const camera = component.camera()!;
+      expect(component.cameraType()).toBe('orthographic');
+      expect(camera.position.y).toBeCloseTo(20);
+      expect(camera.zoom).toBeCloseTo(2);
+      expect(viewpointService.apply).toHaveBeenCalledWith(saved);
+
+      // Saving again captures the same relative zoom
+      component.saveViewpoint('Plan');
+      const [, captured] = (viewpointService.save as jasmine.Spy).calls.mostRecent().args;
+      expect(captured.zoom).toBeCloseTo(2);
+    }));
+  });
+
+  describe('BCF Issues', () => {
+    let bcfService: BcfService;
+
+    beforeEach(() => {
+      bcfService = TestBed.inject(BcfService);
+      spyOn(bcfService, 'createTopic').and.returnValue(Promise.resolve({} as BcfTopic));
+      spyOn(bcfService, 'apply').and.returnValue(Promise.resolve());
+      fragmentsService.updateCulling.and.returnValue(Promise.resolve());
+    });
+
+    it('should create topics with the current camera and a snapshot', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      const draft = { title: 'Clash', status: 'Open', assignedTo: '', description: '' };
+      component.createBcfTopic(draft);
+
+      const [passedDraft, capture] = (bcfService.createTopic as jasmine.Spy).calls.mostRecent().args;
+      expect(passedDraft).toBe(draft);
+      expect(capture.camera.type).toBe('perspective');
+      expect(capture.fieldOfView).toBe(CAMERA_CONFIG.fov);
+      expect(capture.snapshot).toMatch(/^data:image\/png/);
+    }));
+
+    it('should animate to the camera of a topic and restore its state', fakeAsync(() => {
+      fixture.detectChanges();
+      tick(1000);
+
+      const topic: BcfTopic = {
+        guid: 'topic-1',
+        title: 'Clash',
+        type: 'Issue',
+        status: 'Open',
+        assignedTo: '',
+        description: '',
+        author: '',
+        creationDate: '2024-01-01T00:00:00.000Z',
+        modifiedDate: null,
+        comments: [],
+        viewpoint: {
+          guid: 'viewpoint-1',
+          camera: {
+            type: 'perspective',
+            position: { x: 0, y: 0, z: 20 },
+            direction: { x: 0, y: 0, z: -1 },
+            up: { x: 0, y: 1, z: 0 },
+            fieldOfView: 60,
+            viewToWorldScale: 1,
+            aspectRatio: 1,
+          },
+          selection: [],
+          defaultVisibility: true,
+          exceptions: [],
+          clippingPlanes: [],
+          snapshot: null,
+        },
+      };
+
+      component.restoreBcfTopic(topic);
+      (component as any).stepCameraTransition(Date.now() + VIEW_CUBE_CONFIG.transitionDuration);
+
+      expect(component.camera()!.position.z).toBeCloseTo(20);
+      expect(component.controls()!.target.z).toBeLessThan(20);
+      expect(bcfService.apply).toHaveBeenCalledWith(topic);
+    }));
+  });
+
   describe('Sidebar', () => {
     it('should toggle sidebar state', () => {
       expect(component.isSidebarCollapsed()).toBe(false);
@@ -496,7 +1470,7 @@ describe('IfcViewerComponent', () => {
       fixture.detectChanges();
       const fileInput = fixture.nativeElement.querySelector('input[type="file"]');
       expect(fileInput).toBeTruthy();
-      expect(fileInput.accept).toBe('.ifc');
+      expect(fileInput.accept).toBe('.ifc,.frag');
     });
 
     it('should show loading state', fakeAsync(() => {
@@ -535,7 +1509,7 @@ describe('IfcViewerComponent', () => {
       fixture.detectChanges();
       tick(1000);
 
-      component.currentModel.set({
+      modelManager.addModel({
         id: 'test-id',
         name: 'test-model',
         status: ModelLoadingStatus.LOADED,
@@ -552,5 +1526,103 @@ describe('IfcViewerComponent', () => {
       }
     }));
   });
-});
 
+  describe('Deep Links', () => {
+    let router: Router;
+    let viewpointService: ViewpointService;
+
+    const cached: CachedModelData = {
+      entry: {
+        hash: 'hash-1',
+        fileName: 'Tower.ifc',
+        dataSize: 3,
+        state: { id: 'old-id', name: 'tower', status: ModelLoadingStatus.LOADED, progress: 100, fileSize: 2048 },
+        stats: null,
+        storedAt: new Date(),
+        lastOpenedAt: new Date(),
+      },
+      data: new Uint8Array([7, 7, 7]),
+    };
+
+    const openWith = (params: Record<string, string>, queryParams: Record<string, string>) => {
+      TestBed.inject(ActivatedRoute).snapshot = {
+        paramMap: convertToParamMap(params),
+        queryParams,
+      } as unknown as ActivatedRouteSnapshot;
+    };
+
+    const lastUrl = () => router.serializeUrl((router.navigateByUrl as jasmine.Spy).calls.mostRecent().args[0]);
+
+    beforeEach(() => {
+      router = TestBed.inject(Router);
+      viewpointService = TestBed.inject(ViewpointService);
+      spyOn(router, 'navigateByUrl').and.returnValue(Promise.resolve(true));
+      spyOn(viewpointService, 'apply').and.returnValue(Promise.resolve());
+      fragmentsService.updateCulling.and.returnValue(Promise.resolve());
+    });
+
+    it('should open a library model and restore the linked view', fakeAsync(() => {
+      modelLibrary.load.and.returnValue(Promise.resolve(cached));
+      openWith(
+        { id: 'hash-1' },
+        { pos: '0,20,0.01', target: '0,0,0', camera: 'orthographic', zoom: '2', hide: 'IfcSpace', select: 'guid-7' }
+      );
+
+      fixture.detectChanges();
+      tick(1000);
+      flush();
+      (component as any).stepCameraTransition(Date.now() + VIEW_CUBE_CONFIG.transitionDuration);
+
+      expect(modelLibrary.load).toHaveBeenCalledWith('hash-1');
+      expect(component.models().length).toBe(1);
+      expect(component.cameraType()).toBe('orthographic');
+      expect(component.camera()!.position.y).toBeCloseTo(20);
+      expect(viewpointService.apply).toHaveBeenCalledWith(
+        jasmine.objectContaining({ hiddenClasses: ['IfcSpace'], selectedGlobalId: 'guid-7' })
+      );
+    }));
+
+    it('should download models from allowed URLs', fakeAsync(() => {
+      spyOn(window, 'fetch').and.returnValue(
+        Promise.resolve(new Response(new Blob([new Uint8Array(2048)]), { status: 200 }))
+      );
+      openWith({}, { url: '/models/tower.ifc' });
+
+      fixture.detectChanges();
+      tick(1000);
+      flush();
+
+      expect(window.fetch).toHaveBeenCalledWith('/models/tower.ifc');
+      expect(fragmentsService.loadIfc).toHaveBeenCalled();
+      expect(component.models()[0]!.name).toBe('tower');
+    }));
+
+    it('should not download models from other sites', fakeAsync(() => {
+      spyOn(window, 'fetch');
+      openWith({}, { url: 'https://example.org/tower.ifc' });
+
+      fixture.detectChanges();
+      tick(1000);
+      flush();
+
+      expect(window.fetch).not.toHaveBeenCalled();
+      expect(component.errorMessage()).toContain('local development server');
+    }));
+
+    it('should link models stored in the library with the current view', fakeAsync(() => {
+      openWith({}, {});
+      fixture.detectChanges();
+      tick(1000);
+
+      component.onFileSelected({
+        target: { files: [new File(['test content'], 'test.ifc')], value: 'test.ifc' },
+      } as unknown as Event);
+      tick(1000);
+      flush();
+      component.controls()!.dispatchEvent({ type: 'end' });
+      TestBed.flushEffects();
+
+      expect(lastUrl()).toMatch(/^\/model\/hash-1\?pos=[^&]+&target=[^&]+&camera=perspective$/);
+    }));
+  });
+});
@@ -9,8 +9,11 @@ import {
   signal,
   DestroyRef,
   computed,
+  effect,
+  untracked,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router } from '@angular/router';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
@@ -18,6 +21,24 @@ import Stats from 'stats.js';
 
 // Components
 import { IfcClassFilterComponent } from './components/ifc-class-filter.component';
+import { ModelListComponent } from './components/model-list.component';
+import { PropertiesPanelComponent } from './components/properties-panel.component';
+import { SpatialTreeComponent } from './components/spatial-tree.component';
+import { ClippingPanelComponent } from './components/clipping-panel.component';
+import { MeasurementPanelComponent } from './components/measurement-panel.component';
+import { RecentModelsComponent } from './components/recent-models.component';
+import { ViewpointsPanelComponent } from './components/viewpoints-panel.component';
+import { BcfPanelComponent } from './components/bcf-panel.component';
+import { GltfExportPanelComponent } from './components/gltf-export-panel.component';
+import { ScheduleDialogComponent } from './components/schedule-dialog.component';
+import { PlanPanelComponent } from './components/plan-panel.component';
+import { DrawingViewsPanelComponent } from './components/drawing-views-panel.component';
+import { QueryBarComponent } from './components/query-bar.component';
+import { ThematicPanelComponent } from './components/thematic-panel.component';
+import { SpacesPanelComponent } from './components/spaces-panel.component';
+import { ZonesPanelComponent } from './components/zones-panel.component';
+import { ModelDiffPanelComponent } from './components/model-diff-panel.component';
+import { SpaceAuthoringPanelComponent } from './components/space-authoring-panel.component';
 import { OrientationCubeComponent } from '../../shared/components/orientation-cube.component';
 
 // Services
@@ -25,6 +46,23 @@ import { FragmentsService } from '../../core/services/fragments.service';
 import { ErrorHandlerService, ErrorSeverity } from '../../core/services/error-handler.service';
 import { ConfigService } from '../../core/services/config.service';
 import { IfcFilterService } from '../../core/services/ifc-filter.service';
+import { ModelManagerService } from '../../core/services/model-manager.service';
+import { SelectionService } from '../../core/services/selection.service';
+import { SpatialTreeService } from '../../core/services/spatial-tree.service';
+import { ClippingService } from '../../core/services/clipping.service';
+import { MeasurementService } from '../../core/services/measurement.service';
+import { ModelLibraryService } from '../../core/services/model-library.service';
+import { ViewpointService } from '../../core/services/viewpoint.service';
+import { BcfService } from '../../core/services/bcf.service';
+import { PlanService } from '../../core/services/plan.service';
+import { DrawingViewService } from '../../core/services/drawing-view.service';
+import { QueryService } from '../../core/services/query.service';
+import { ThemeService } from '../../core/services/theme.service';
+import { SpaceService } from '../../core/services/space.service';
+import { SpaceAuthoringService } from '../../core/services/space-authoring.service';
+import { IfcWriterService } from '../../core/services/ifc-writer.service';
+import { ZoneService } from '../../core/services/zone.service';
+import { ModelDiffService } from '../../core/services/model-diff.service';
 
 // Constants
 import {
@@ -32,10 +70,28 @@ import {
   CAMERA_CONFIG,
   CONTROLS_CONFIG,
   LIGHTING_CONFIG,
+  SELECTION_CONFIG,
+  FILE_VALIDATION,
+  LOADING_STAGES,
+  VIEW_CUBE_CONFIG,
+  BCF_CONFIG,
+  DEEP_LINK_CONFIG,
 } from '../../shared/constants/viewer.constants';
 
 // Models
-import { IFCModelState, ModelLoadingStatus, ModelStatistics } from '../../shared/models/ifc.model';
+import {
+  IFCModelState,
+  LoadProgressCallback,
+  ModelLoadingStatus,
+  ModelStatistics,
+  ViewerInteractionMode,
+} from '../../shared/models/ifc.model';
+import { SpatialNode } from '../../shared/models/spatial.model';
+import { CameraType, Vector3Config, ViewRotation } from '../../shared/models/viewer.model';
+import { Viewpoint, ViewpointCamera } from '../../shared/models/viewpoint.model';
+import { BcfTopic, BcfTopicDraft } from '../../shared/models/bcf.model';
+import { ViewLink } from '../../shared/models/deep-link.model';
+import { DrawingView } from '../../shared/models/drawing.model';
 
 // Utils
 import {
@@ -46,7 +102,30 @@ import {
   disposeObject,
   formatBytes,
 } from '../../shared/utils/three.utils';
-import { validateIfcFile, sanitizeFileName } from '../../shared/utils/validation.utils';
+import { validateIfcFile, sanitizeFileName, getFileExtension } from '../../shared/utils/validation.utils';
+import { getStagedProgress, isAbortError, throwIfAborted } from '../../shared/utils/loading.utils';
+import { easeInOutCubic, getViewPosition, interpolateOrbit, rotateOrbit } from '../../shared/utils/camera.utils';
+import { parseTrueNorth } from '../../shared/utils/plan.utils';
+import {
+  getModelUrlFileName,
+  isAllowedModelUrl,
+  parseViewQueryParams,
+  toViewQueryParams,
+} from '../../shared/utils/deep-link.utils';
+
+/**
+ * Animated camera move between two orbit views
+ */
+interface CameraTransition {
+  from: { position: THREE.Vector3; target: THREE.Vector3; zoom: number };
+  to: { position: THREE.Vector3; target: THREE.Vector3; zoom: number };
+  startTime: number;
+  /**
+   * Fit the orthographic frustum to the new distance once finished and apply this
+   * relative zoom (null keeps the frustum)
+   */
+  refitZoom: number | null;
+}
 
 /**
  * IFC Viewer Component
@@ -55,8 +134,28 @@ import { validateIfcFile, sanitizeFileName } from '../../shared/utils/validation
  * 
  * Features:
  * - IFC file loading with progress tracking
+ * - Drag-and-drop import of one or many files onto the viewport
+ * - Multiple models loaded side by side
+ * - Element picking with a properties inspector
+ * - Spatial structure tree
+ * - Section planes and section box with capped cuts
+ * - Distance, angle, area and volume measurements
  * - Orbit controls for navigation
- * - Fragment export capability
+ * - Clickable orientation cube with animated view snapping
+ * - Named viewpoints restored with an animated camera move
+ * - BCF issues with snapshots, .bcfzip import and export
+ * - Shareable links to library models (/model/:id) or model URLs (?url=) with the current view
+ * - Fragment export and glTF / GLB export of the visible geometry
+ * - Element schedules with selectable columns as CSV or XLSX
+ * - Storey floor plans with a configurable cut height, exported as SVG or PDF
+ * - Elevations and sections with hidden lines removed, exported as SVG
+ * - Property queries that isolate, hide, highlight or color elements
+ * - Thematic colors by class, storey, material, property value or numeric range with a legend
+ * - Room schedule of the IfcSpace elements with areas, volumes and perimeters
+ * - Spaces drawn or detected on storey plans, split, merged and stored with the model
+ * - Zones of spaces from the model or a CSV mapping with colors, area and occupancy totals
+ * - Comparison of two model revisions by GlobalId with colored changes and a JSON/CSV report
+ * - IFC export of models loaded from .ifc with the authored spaces and imported zones added
  * - Performance monitoring
  * - Error handling and user feedback
  * - Responsive design
@@ -70,7 +169,29 @@ import { validateIfcFile, sanitizeFileName } from '../../shared/utils/validation
 @Component({
   selector: 'app-ifc-viewer',
   standalone: true,
-  imports: [CommonModule, IfcClassFilterComponent, OrientationCubeComponent],
+  imports: [
+    CommonModule,
+    IfcClassFilterComponent,
+    ModelListComponent,
+    PropertiesPanelComponent,
+    SpatialTreeComponent,
+    ClippingPanelComponent,
+    MeasurementPanelComponent,
+    RecentModelsComponent,
+    ViewpointsPanelComponent,
+    BcfPanelComponent,
+    GltfExportPanelComponent,
+    ScheduleDialogComponent,
+    PlanPanelComponent,
+    DrawingViewsPanelComponent,
+    QueryBarComponent,
+    ThematicPanelComponent,
+    SpacesPanelComponent,
+    ZonesPanelComponent,
+    ModelDiffPanelComponent,
+    SpaceAuthoringPanelComponent,
+    OrientationCubeComponent,
+  ],
   templateUrl: './ifc-viewer.component.html',
   styleUrls: ['./ifc-viewer.component.css'],
   changeDetection: ChangeDetectionStrategy.OnPush,
@@ -83,6 +204,25 @@ export class IfcViewerComponent {
   private readonly errorHandler = inject(ErrorHandlerService);
   private readonly configService = inject(ConfigService);
   private readonly ifcFilterService = inject(IfcFilterService);
+  private readonly modelManager = inject(ModelManagerService);
+  private readonly selectionService = inject(SelectionService);
+  private readonly spatialTreeService = inject(SpatialTreeService);
+  private readonly clippingService = inject(ClippingService);
+  private readonly measurementService = inject(MeasurementService);
+  private readonly modelLibrary = inject(ModelLibraryService);
+  private readonly viewpointService = inject(ViewpointService);
+  private readonly bcfService = inject(BcfService);
+  private readonly planService = inject(PlanService);
+  private readonly drawingViewService = inject(DrawingViewService);
+  private readonly queryService = inject(QueryService);
+  private readonly themeService = inject(ThemeService);
+  private readonly spaceService = inject(SpaceService);
+  private readonly spaceAuthoringService = inject(SpaceAuthoringService);
+  private readonly ifcWriterService = inject(IfcWriterService);
+  private readonly zoneService = inject(ZoneService);
+  private readonly modelDiffService = inject(ModelDiffService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
 
   // Template References
   private readonly canvasRef = viewChild.required<ElementRef<HTMLCanvasElement>>('canvas');
@@ -99,15 +239,28 @@ export class IfcViewerComponent {
   private stats?: Stats;
   private animationFrameId?: number;
   private resizeObserver?: ResizeObserver;
+  private cameraTransition: CameraTransition | null = null;
+  private viewLinkReady = false; // The URL is only rewritten once the link it was opened with is applied
 
   // State Management (Signals)
   readonly camera = signal<THREE.PerspectiveCamera | THREE.OrthographicCamera | null>(null); // For orientation cube
   readonly controls = signal<OrbitControls | null>(null); // For orientation cube
-  readonly currentModel = signal<IFCModelState | null>(null);
+  readonly models = this.modelManager.models;
+  readonly currentModel = this.modelManager.activeModel; // Active model (export, model info)
   readonly isLoading = signal<boolean>(false);
+  private readonly loadAbortController = signal<AbortController | null>(null); // Cancels the model being loaded
   readonly errorMessage = signal<string | null>(null);
   readonly isSidebarCollapsed = signal<boolean>(false); // Sidebar collapse state
-  readonly cameraType = signal<'perspective' | 'orthographic'>('perspective'); // Camera view type
+  readonly cameraType = signal<CameraType>('perspective'); // Camera view type
+  readonly interactionMode = signal<ViewerInteractionMode>(ViewerInteractionMode.SELECT); // Left click behaviour
+  readonly isDragOver = signal<boolean>(false); // Files dragged over the viewport
+  readonly showScheduleDialog = signal<boolean>(false); // Element schedule export dialog
+  readonly isPlanMode = this.planService.isActive; // Top-down storey plan
+  private planReturnCamera: ViewpointCamera | null = null; // Camera restored when leaving plan mode
+  private readonly cameraRevision = signal<number>(0); // Bumped whenever the camera comes to rest
+  private readonly libraryLink = signal<{ hash: string; modelStateId: string } | null>(null); // Model behind /model/:id
+  readonly acceptedExtensions = FILE_VALIDATION.allowedExtensions.join(', ');
+  readonly acceptedFileTypes = FILE_VALIDATION.allowedExtensions.join(','); // File input accept list
   
   // Camera options for dropdown
   readonly cameraOptions = [
@@ -115,12 +268,29 @@ export class IfcViewerComponent {
     { value: 'orthographic', label: '2D View (Orthographic)' }
   ] as const;
 
+  // Interaction modes for the mode toggle
+  readonly interactionModes = [
+    { value: ViewerInteractionMode.ORBIT, label: 'Orbit' },
+    { value: ViewerInteractionMode.SELECT, label: 'Select' },
+    { value: ViewerInteractionMode.MEASURE, label: 'Measure' },
+  ] as const;
+
   // Computed Signals
   readonly hasModel = computed(() => this.currentModel() !== null);
+  readonly isMeasuring = computed(() => this.interactionMode() === ViewerInteractionMode.MEASURE);
+  readonly canCancelLoading = computed(() => this.loadAbortController() !== null);
+  readonly loadingStage = computed(() => {
+    const stage = this.currentModel()?.stage;
+    return stage ? LOADING_STAGES[stage].label : 'Loading model';
+  });
   readonly canExport = computed(() => {
     const model = this.currentModel();
     return model?.status === ModelLoadingStatus.LOADED && !!model?.fragmentUuid;
   });
+  readonly canExportIfc = computed(() => {
+    const uuid = this.currentModel()?.fragmentUuid;
+    return this.canExport() && !!uuid && this.ifcWriterService.sourceModelIds().includes(uuid);
+  });
 
   constructor() {
     // Initialize after view is rendered
@@ -141,6 +311,22 @@ export class IfcViewerComponent {
         // Update visual elements based on config changes
         this.updateVisualSettings(config);
       });
+
+    // Keep the URL in sync with the view so it can be shared
+    effect(() => {
+      this.cameraRevision();
+      this.cameraType();
+      this.libraryLink();
+      this.models();
+      this.ifcFilterService.availableClasses();
+      this.selectionService.properties();
+      untracked(() => this.syncViewLink());
+    });
+
+    // Authored spaces follow the IfcSpace class filter
+    effect(() => {
+      this.spaceAuthoringService.setVisible(this.ifcFilterService.ifcClasses().get('IfcSpace')?.visible ?? false);
+    });
   }
 
   /**
@@ -158,6 +344,12 @@ export class IfcViewerComponent {
       
       // Initialize scene
       this.initializeScene();
+
+      // Attach section planes to the renderer and scene
+      this.clippingService.attach(this.renderer, this.scene);
+
+      // Add the spaces drawn on storey plans to the scene
+      this.spaceAuthoringService.attach(this.scene);
       
       // Initialize camera
       this.initializeCamera(canvas);
@@ -184,6 +376,9 @@ export class IfcViewerComponent {
       // Initialize FragmentsService
       await this.fragmentsService.initialize(this.scene, this._camera);
 
+      // List the models stored in the local library (non-critical, errors are reported by the service)
+      await this.modelLibrary.refresh();
+
       // Initial render
       this.updateSize();
       this.renderer.render(this.scene, this._camera);
@@ -192,6 +387,9 @@ export class IfcViewerComponent {
       this.ngZone.runOutsideAngular(() => this.animate());
 
       console.log('✅ IFC Viewer initialized successfully');
+
+      // Open the model and view of the link the viewer was opened with
+      await this.openViewLink();
     } catch (error) {
       console.error('❌ Failed to initialize viewer:', error);
       throw error;
@@ -307,14 +505,32 @@ export class IfcViewerComponent {
     this._controls.screenSpacePanning = CONTROLS_CONFIG.screenSpacePanning;
     this._controls.update();
 
+    // User navigation takes over from an animated view change
+    this._controls.addEventListener('start', () => {
+      this.cameraTransition = null;
+    });
+
     // Add camera rest event for culling updates
     this._controls.addEventListener('end', () => {
       this.fragmentsService.updateCulling().catch(console.error);
+      this.ngZone.run(() => this.cameraRevision.update((revision) => revision + 1));
     });
 
     // Setup enhanced cursor feedback
     this.setupCursorFeedback(canvas);
 
+    // Setup element picking
+    this.setupPicking(canvas);
+
+    // Setup section plane and section box handles
+    this.setupClippingHandles(canvas);
+
+    // Setup measurement snapping preview
+    this.setupMeasuring(canvas);
+
+    // Setup the outline preview of space authoring
+    this.setupSpaceAuthoring(canvas);
+
     // Set controls signal
     this.controls.set(this._controls);
 
@@ -386,6 +602,178 @@ export class IfcViewerComponent {
     console.log('✓ Enhanced cursor feedback initialized');
   } 
 
+  /**
+   * Setup element picking (or measuring) on left click
+   * A press that moves further than the click tolerance is an orbit drag, not a pick
+   */
+  private setupPicking(canvas: HTMLCanvasElement): void {
+    const downPosition = new THREE.Vector2();
+
+    canvas.addEventListener('pointerdown', (event: PointerEvent) => {
+      if (event.button === 0) {
+        downPosition.set(event.clientX, event.clientY);
+      }
+    });
+
+    canvas.addEventListener('pointerup', (event: PointerEvent) => {
+      const mode = this.interactionMode();
+      const isAuthoring = this.spaceAuthoringService.isActive();
+      if (
+        event.button !== 0 ||
+        (!isAuthoring && mode !== ViewerInteractionMode.SELECT && mode !== ViewerInteractionMode.MEASURE) ||
+        this.clippingService.isDragging
+      ) {
+        return;
+      }
+
+      const upPosition = new THREE.Vector2(event.clientX, event.clientY);
+      if (upPosition.distanceTo(downPosition) > SELECTION_CONFIG.clickTolerance) {
+        return;
+      }
+
+      this.ngZone.run(() => {
+        // Space authoring tools take the click in every interaction mode
+        if (isAuthoring) {
+          this.spaceAuthoringService.pickAt(this._camera, upPosition, canvas).catch(console.error);
+        } else if (mode === ViewerInteractionMode.MEASURE) {
+          this.measureAt(upPosition).catch(console.error);
+        } else {
+          this.pickElement(upPosition).catch(console.error);
+        }
+      });
+    });
+
+    console.log('✓ Element picking initialized');
+  }
+
+  /**
+   * Setup dragging of section plane and section box handles
+   * Registered after picking so a released handle is not picked as an element
+   */
+  private setupClippingHandles(canvas: HTMLCanvasElement): void {
+    canvas.addEventListener('pointerdown', (event: PointerEvent) => {
+      if (event.button !== 0) {
+        return;
+      }
+
+      const position = new THREE.Vector2(event.clientX, event.clientY);
+      if (this.clippingService.beginDrag(this._camera, position, canvas)) {
+        // Orbit controls ignore pointer moves while disabled
+        this._controls.enabled = false;
+      }
+    });
+
+    canvas.addEventListener('pointermove', (event: PointerEvent) => {
+      if (this.clippingService.isDragging) {
+        const position = new THREE.Vector2(event.clientX, event.clientY);
+        this.clippingService.dragTo(this._camera, position, canvas);
+      }
+    });
+
+    const endDrag = () => {
+      if (!this.clippingService.isDragging) {
+        return;
+      }
+
+      this.ngZone.run(() => this.clippingService.endDrag());
+      this._controls.enabled = true;
+    };
+    canvas.addEventListener('pointerup', endDrag);
+    canvas.addEventListener('pointercancel', endDrag);
+
+    console.log('✓ Clipping handles initialized');
+  }
+
+  /**
+   * Setup the snap marker preview and finishing polylines on double click
+   * Hover snapping runs outside Angular, only completed measurements update the sidebar
+   */
+  private setupMeasuring(canvas: HTMLCanvasElement): void {
+    canvas.addEventListener('pointermove', (event: PointerEvent) => {
+      if (!this.isMeasuring() || event.buttons !== 0 || !this.fragmentsService.isInitialized) {
+        return;
+      }
+
+      const position = new THREE.Vector2(event.clientX, event.clientY);
+      this.measurementService.hover(this._camera, position, canvas).catch(console.error);
+    });
+
+    canvas.addEventListener('pointerleave', () => {
+      this.measurementService.clearHover();
+    });
+
+    canvas.addEventListener('dblclick', () => {
+      if (this.isMeasuring()) {
+        this.ngZone.run(() => this.measurementService.finishDraft());
+      }
+    });
+
+    console.log('✓ Measuring initialized');
+  }
+
+  /**
+   * Setup the outline preview of space authoring and closing outlines on double click
+   */
+  private setupSpaceAuthoring(canvas: HTMLCanvasElement): void {
+    canvas.addEventListener('pointermove', (event: PointerEvent) => {
+      if (this.spaceAuthoringService.isActive() && event.buttons === 0) {
+        this.spaceAuthoringService.hover(this._camera, new THREE.Vector2(event.clientX, event.clientY), canvas);
+      }
+    });
+
+    canvas.addEventListener('pointerleave', () => {
+      this.spaceAuthoringService.clearHover();
+    });
+
+    canvas.addEventListener('dblclick', () => {
+      if (this.spaceAuthoringService.isActive()) {
+        this.ngZone.run(() => this.spaceAuthoringService.finishDraft().catch(console.error));
+      }
+    });
+
+    console.log('✓ Space authoring initialized');
+  }
+
+  /**
+   * Add a measurement point (or measure the face or element) at a screen position
+   */
+  private async measureAt(position: THREE.Vector2): Promise<void> {
+    if (!this.fragmentsService.isInitialized || this.modelManager.loadedModels().length === 0) {
+      return;
+    }
+
+    await this.measurementService.pickAt(this._camera, position, this.canvasRef().nativeElement);
+  }
+
+  /**
+   * Pick the element under a screen position
+   */
+  private async pickElement(position: THREE.Vector2): Promise<void> {
+    if (!this.fragmentsService.isInitialized || this.modelManager.loadedModels().length === 0) {
+      return;
+    }
+
+    await this.selectionService.pickAt(this._camera, position, this.canvasRef().nativeElement);
+  }
+
+  /**
+   * Change what a left click in the viewport does
+   */
+  setInteractionMode(mode: ViewerInteractionMode): void {
+    if (mode !== ViewerInteractionMode.MEASURE) {
+      this.measurementService.cancelDraft();
+      this.measurementService.clearHover();
+    }
+    this.interactionMode.set(mode);
+  }
+
+  /**
+   * Switch the viewport to measuring (requested by the measurement panel)
+   */
+  startMeasuring(): void {
+    this.setInteractionMode(ViewerInteractionMode.MEASURE);
+  }
+
   /**
    * Initialize lighting
    */
@@ -505,11 +893,22 @@ export class IfcViewerComponent {
     this.animationFrameId = requestAnimationFrame(() => this.animate());
 
     this.stats?.begin();
+    this.stepCameraTransition(Date.now());
     this._controls.update();
-    this.renderer.render(this.scene, this._camera);
+    this.renderFrame();
     this.stats?.end();
   }
 
+  /**
+   * Render the scene and the clipping, measurement and space authoring overlays
+   */
+  private renderFrame(): void {
+    this.renderer.render(this.scene, this._camera);
+    this.clippingService.renderOverlay(this.renderer, this._camera);
+    this.measurementService.renderOverlay(this.renderer, this._camera);
+    this.spaceAuthoringService.renderOverlay(this.renderer, this._camera);
+  }
+
   /**
    * Handle file selection from input
    */
@@ -521,162 +920,431 @@ export class IfcViewerComponent {
       return;
     }
 
-    // Validate file
-    const validation = validateIfcFile(file);
-    if (!validation.valid) {
-      this.errorMessage.set(validation.error || 'Invalid file');
-      this.errorHandler.handleError(validation.error, ErrorSeverity.WARNING, {
-        operation: 'fileValidation',
-        fileName: file.name,
-      });
-      input.value = '';
+    // Validate and load the file
+    await this.importFiles([file]);
+
+    // Reset input
+    input.value = '';
+  }
+
+  /**
+   * Show the drop zone while files are dragged over the viewport
+   */
+  onDragOver(event: DragEvent): void {
+    if (!event.dataTransfer?.types.includes('Files')) {
       return;
     }
 
+    // Accepting the drag requires preventing the default handling
+    event.preventDefault();
+    event.dataTransfer.dropEffect = this.isLoading() ? 'none' : 'copy';
+    this.isDragOver.set(true);
+  }
+
+  /**
+   * Hide the drop zone when the drag leaves the viewport
+   */
+  onDragLeave(event: DragEvent): void {
+    event.preventDefault();
+    this.isDragOver.set(false);
+  }
+
+  /**
+   * Import the files dropped onto the viewport
+   */
+  async onDrop(event: DragEvent): Promise<void> {
+    event.preventDefault();
+    this.isDragOver.set(false);
+
+    const files = Array.from(event.dataTransfer?.files ?? []);
+    if (files.length === 0 || this.isLoading()) {
+      return;
+    }
+
+    console.log(`📥 Dropped ${files.length} file(s)`);
+    await this.importFiles(files);
+  }
+
+  /**
+   * Validate and load files one after another
+   * Invalid or failing files are reported individually and do not stop the others
+   */
+  private async importFiles(files: File[]): Promise<void> {
     // Clear previous error
     this.errorMessage.set(null);
 
-    // Load the file
-    await this.loadIfcFile(file);
+    for (const file of files) {
+      const validation = validateIfcFile(file);
+      if (!validation.valid) {
+        this.errorMessage.set(validation.error || 'Invalid file');
+        this.errorHandler.handleError(validation.error, ErrorSeverity.WARNING, {
+          operation: 'fileValidation',
+          fileName: file.name,
+        });
+        continue;
+      }
 
-    // Reset input
-    input.value = '';
+      await this.loadIfcFile(file);
+    }
   }
 
   /**
-   * Load and process IFC file
+   * Load and process an IFC or exported fragments file
+   * IFC files converted before are reopened from the model library
+   * The model is appended next to the models that are already loaded
    */
   private async loadIfcFile(file: File): Promise<void> {
-    // Remove previous model if one exists
-    await this.clearPreviousModel();
-
-    this.isLoading.set(true);
+    const signal = this.startLoading();
 
+    const extension = getFileExtension(file.name);
     const modelState: IFCModelState = {
       id: crypto.randomUUID(),
-      name: sanitizeFileName(file.name.replace('.ifc', '')),
+      name: sanitizeFileName(file.name.slice(0, file.name.length - extension.length)),
       status: ModelLoadingStatus.LOADING,
       progress: 0,
+      stage: 'reading',
       fileSize: file.size,
     };
 
-    this.currentModel.set(modelState);
+    this.modelManager.addModel(modelState);
+    const onProgress = this.trackProgress(modelState.id);
+    let uuid: string | null = null;
 
     try {
-      console.log(`📂 Loading IFC file: ${file.name} (${formatBytes(file.size)})`);
+      console.log(`📂 Loading model file: ${file.name} (${formatBytes(file.size)})`);
 
       // Read file as array buffer
       const arrayBuffer = await file.arrayBuffer();
       const buffer = new Uint8Array(arrayBuffer);
+      onProgress(getStagedProgress('reading', 0.5), 'reading');
+
+      // Look up converted fragments of the same content
+      const hash = await this.modelLibrary.hash(buffer);
+      const cached = hash && extension === '.ifc' ? await this.modelLibrary.load(hash) : null;
+      onProgress(getStagedProgress('reading', 1), 'reading');
+      throwIfAborted(signal, modelState.name);
+
+      // Fragments (exported or cached) skip the IFC conversion
+      if (cached) {
+        console.log(`📚 ${file.name} was converted before, reopening it from the model library`);
+        uuid = await this.fragmentsService.loadFragments(cached.data, modelState.name, onProgress, signal);
+      } else if (extension === '.frag') {
+        uuid = await this.fragmentsService.loadFragments(buffer, modelState.name, onProgress, signal);
+      } else {
+        uuid = await this.fragmentsService.loadIfc(buffer, modelState.name, onProgress, signal);
+      }
 
-      // Load IFC with progress tracking
-      const uuid = await this.fragmentsService.loadIfc(
-        buffer,
-        modelState.name,
-        (progress) => {
-          this.ngZone.run(() => {
-            this.currentModel.update((state) =>
-              state ? { ...state, progress } : state
-            );
-          });
-        }
-      );
+      // The true north is not kept in fragments, so it is read from the IFC file
+      // The file itself is kept to write it back with the authored spaces
+      if (extension === '.ifc') {
+        this.planService.setTrueNorth(uuid, parseTrueNorth(buffer));
+        this.ifcWriterService.setSource(uuid, buffer);
+      }
 
-      // Update state: mark as processing
-      this.ngZone.run(() => {
-        this.currentModel.update((state) =>
-          state
-            ? { ...state, status: ModelLoadingStatus.PROCESSING, progress: 100 }
-            : state
-        );
-      });
+      await this.processLoadedModel(modelState, uuid, hash, signal);
+      console.log(`✅ Successfully loaded: ${file.name}`);
 
-      // Get the loaded model
-      const model = this.fragmentsService.getModel(uuid);
-      if (!model) {
-        throw new Error('Failed to retrieve loaded model from service');
+      // Keep the converted fragments so the next import skips the conversion
+      if (hash && !cached) {
+        const stored = await this.storeInLibrary(hash, file.name, modelState.id, extension === '.frag' ? buffer : null);
+        if (stored) {
+          this.libraryLink.set({ hash, modelStateId: modelState.id });
+        }
+      } else if (hash) {
+        this.libraryLink.set({ hash, modelStateId: modelState.id });
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        await this.handleModelLoadCancelled(modelState, uuid);
+      } else {
+        this.handleModelLoadError(modelState, error, {
+          operation: 'loadIfcFile',
+          fileName: file.name,
+          fileSize: file.size,
+        });
       }
+    } finally {
+      this.finishLoading();
+    }
+  }
+
+  /**
+   * Reopen a model stored in the model library
+   * @param hash - Content hash of the stored model
+   */
+  async openCachedModel(hash: string): Promise<void> {
+    if (this.isLoading()) {
+      return;
+    }
+
+    this.errorMessage.set(null);
+    const signal = this.startLoading();
 
-      console.log('✅ Model loaded successfully');
+    const cached = await this.modelLibrary.load(hash);
+    if (!cached) {
+      this.errorMessage.set('Model is no longer available in the library');
+      await this.modelLibrary.refresh();
+      this.finishLoading();
+      return;
+    }
 
-      // Fix materials
-      const fixed = this.fixSceneMaterials();
-      console.log(`✓ Fixed ${fixed} materials`);
+    const modelState: IFCModelState = {
+      id: crypto.randomUUID(),
+      name: cached.entry.state.name,
+      status: ModelLoadingStatus.LOADING,
+      progress: getStagedProgress('reading', 1),
+      stage: 'reading',
+      fileSize: cached.entry.state.fileSize,
+    };
 
-      // Center camera on model
-      this.centerCameraOnScene();
+    this.modelManager.addModel(modelState);
+    let uuid: string | null = null;
 
-      // Add visual helpers if enabled
-      const config = this.configService.config;
-      if (config.showBoundingBoxHelper || config.showAxesHelper) {
-        this.addSceneHelpers();
+    try {
+      console.log(`📚 Opening cached model: ${modelState.name} (${formatBytes(cached.entry.dataSize)})`);
+
+      uuid = await this.fragmentsService.loadFragments(
+        cached.data,
+        modelState.name,
+        this.trackProgress(modelState.id),
+        signal
+      );
+
+      await this.processLoadedModel(modelState, uuid, hash, signal);
+      this.libraryLink.set({ hash, modelStateId: modelState.id });
+      console.log(`✅ Successfully opened: ${modelState.name}`);
+    } catch (error) {
+      if (isAbortError(error)) {
+        await this.handleModelLoadCancelled(modelState, uuid);
+      } else {
+        this.handleModelLoadError(modelState, error, {
+          operation: 'openCachedModel',
+          fileName: cached.entry.fileName,
+          dataSize: cached.entry.dataSize,
+        });
       }
+    } finally {
+      this.finishLoading();
+    }
+  }
 
-      // Bind camera for culling
-      this.fragmentsService.bindCamera(this._camera);
+  /**
+   * Cancel the model being loaded
+   * Partial results are released once the current loading step returns
+   */
+  cancelLoading(): void {
+    const controller = this.loadAbortController();
+    if (controller && !controller.signal.aborted) {
+      console.log('⏹️ Cancelling model loading...');
+      controller.abort();
+    }
+  }
 
-      // Get model statistics
-      const stats = this.fragmentsService.getModelStatistics(uuid);
+  /**
+   * Show the loading overlay and create the signal to cancel the load
+   */
+  private startLoading(): AbortSignal {
+    const controller = new AbortController();
+    this.loadAbortController.set(controller);
+    this.isLoading.set(true);
+    return controller.signal;
+  }
 
-      // Extract IFC classes for filtering
-      await this.extractIfcClasses(uuid);
+  /**
+   * Hide the loading overlay
+   */
+  private finishLoading(): void {
+    this.ngZone.run(() => {
+      this.loadAbortController.set(null);
+      this.isLoading.set(false);
+    });
+  }
 
-      // Update state: mark as fully loaded
+  /**
+   * Progress callback updating the progress and stage of a model state
+   */
+  private trackProgress(modelStateId: string): LoadProgressCallback {
+    return (progress, stage) => {
       this.ngZone.run(() => {
-        this.currentModel.update((state) => {
-          if (!state) return state;
-          
-          return {
-            ...state,
-            status: ModelLoadingStatus.LOADED,
-            fragmentUuid: uuid,
-            loadedAt: new Date(),
-            stats: stats || undefined,
-          };
-        });
+        this.modelManager.updateModel(modelStateId, { progress, stage });
       });
+    };
+  }
 
-      console.log(`✅ Successfully loaded: ${file.name}`);
-      if (stats) {
-        console.log(`📊 Model stats:`, {
-          fragments: stats.fragmentCount,
-          meshes: stats.meshCount,
-          vertices: stats.vertexCount,
-          faces: stats.faceCount,
-          memory: stats.memoryUsage ? `${stats.memoryUsage.toFixed(2)} MB` : 'N/A',
-        });
-      }
-    } catch (error) {
-      console.error('❌ Failed to load IFC file:', error);
+  /**
+   * Set up a freshly loaded fragments model and mark its state as loaded
+   * @param modelState - State of the model being loaded
+   * @param uuid - Fragment model UUID
+   * @param hash - Content hash of the model file (null if it could not be hashed)
+   * @param signal - Signal to cancel loading between the post-processing steps
+   */
+  private async processLoadedModel(
+    modelState: IFCModelState,
+    uuid: string,
+    hash: string | null,
+    signal?: AbortSignal
+  ): Promise<void> {
+    // Update state: mark as processing
+    this.ngZone.run(() => {
+      this.modelManager.updateModel(modelState.id, {
+        status: ModelLoadingStatus.PROCESSING,
+        progress: getStagedProgress('post-processing', 0),
+        stage: 'post-processing',
+      });
+    });
+
+    // Get the loaded model
+    const model = this.fragmentsService.getModel(uuid);
+    if (!model) {
+      throw new Error('Failed to retrieve loaded model from service');
+    }
 
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.log('✅ Model loaded successfully');
 
-      this.ngZone.run(() => {
-        this.currentModel.update((state) =>
-          state
-            ? {
-                ...state,
-                status: ModelLoadingStatus.FAILED,
-                error: {
-                  message: errorMessage,
-                  timestamp: new Date(),
-                },
-              }
-            : state
-        );
-        this.errorMessage.set(errorMessage);
+    // Fix materials
+    const fixed = this.fixSceneMaterials();
+    console.log(`✓ Fixed ${fixed} materials`);
+
+    // Center camera on model
+    this.centerCameraOnScene();
+
+    // Rebuild visual helpers so they enclose every loaded model
+    this.refreshSceneHelpers();
+
+    // Fit section planes and the section box to every loaded model
+    this.clippingService.fitToModels();
+
+    // Bind camera for culling
+    this.fragmentsService.bindCamera(this._camera);
+
+    // Get model statistics
+    const stats = this.fragmentsService.getModelStatistics(uuid);
+
+    // Extract IFC classes for filtering
+    await this.extractIfcClasses(uuid);
+    throwIfAborted(signal, modelState.name);
+    this.trackProgress(modelState.id)(getStagedProgress('post-processing', 0.4), 'post-processing');
+
+    // Build the spatial structure tree (non-critical, errors are reported by the service)
+    await this.spatialTreeService.buildTree(uuid, modelState.name);
+    await this.planService.refreshStoreys();
+    throwIfAborted(signal, modelState.name);
+
+    // Show the spaces drawn on this model before
+    this.spaceAuthoringService.loadModel(uuid, hash ?? modelState.name);
+    this.trackProgress(modelState.id)(getStagedProgress('post-processing', 0.8), 'post-processing');
+
+    // Show measurements in the project units (non-critical, errors are reported by the service)
+    await this.measurementService.loadUnits(uuid);
+    throwIfAborted(signal, modelState.name);
+
+    // Update state: mark as fully loaded
+    this.ngZone.run(() => {
+      this.modelManager.updateModel(modelState.id, {
+        status: ModelLoadingStatus.LOADED,
+        progress: 100,
+        stage: undefined,
+        fragmentUuid: uuid,
+        loadedAt: new Date(),
+        stats: stats || undefined,
       });
+    });
 
-      this.errorHandler.handleError(error, ErrorSeverity.ERROR, {
-        operation: 'loadIfcFile',
-        fileName: file.name,
-        fileSize: file.size,
+    if (stats) {
+      console.log(`📊 Model stats:`, {
+        fragments: stats.fragmentCount,
+        meshes: stats.meshCount,
+        vertices: stats.vertexCount,
+        faces: stats.faceCount,
+        memory: stats.memoryUsage ? `${stats.memoryUsage.toFixed(2)} MB` : 'N/A',
       });
-    } finally {
-      this.ngZone.run(() => {
-        this.isLoading.set(false);
+    }
+  }
+
+  /**
+   * Mark a model as cancelled and dispose of whatever it loaded so far
+   * @param modelState - State of the cancelled model
+   * @param uuid - Fragment UUID if the fragments were already loaded
+   */
+  private async handleModelLoadCancelled(modelState: IFCModelState, uuid: string | null): Promise<void> {
+    await this.modelManager.cancelModel(modelState.id, uuid ?? undefined);
+
+    if (uuid) {
+      await this.removeModelData(uuid);
+      this.refreshSceneHelpers();
+      this.clippingService.fitToModels();
+    }
+  }
+
+  /**
+   * Drop what the feature services keep of an unloaded or cancelled model
+   * @param uuid - Fragment UUID of the model
+   */
+  private async removeModelData(uuid: string): Promise<void> {
+    this.planService.removeModel(uuid);
+    await this.queryService.removeModel(uuid);
+    this.themeService.removeModel(uuid);
+    this.spaceService.removeModel(uuid);
+    this.spaceAuthoringService.removeModel(uuid);
+    this.zoneService.removeModel(uuid);
+    await this.modelDiffService.removeModel(uuid);
+    this.ifcWriterService.removeModel(uuid);
+  }
+
+  /**
+   * Mark a model as failed and report the error
+   */
+  private handleModelLoadError(
+    modelState: IFCModelState,
+    error: unknown,
+    context: Record<string, unknown>
+  ): void {
+    console.error('❌ Failed to load model file:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    this.ngZone.run(() => {
+      this.modelManager.updateModel(modelState.id, {
+        status: ModelLoadingStatus.FAILED,
+        error: {
+          message: errorMessage,
+          timestamp: new Date(),
+        },
       });
+      this.errorMessage.set(errorMessage);
+    });
+
+    this.errorHandler.handleError(error, ErrorSeverity.ERROR, context);
+  }
+
+  /**
+   * Store the fragments of a loaded model in the model library (non-critical)
+   * @param hash - Content hash of the imported file
+   * @param fileName - Name of the imported file
+   * @param modelStateId - State of the loaded model
+   * @param data - Fragments data, exported from the model when null
+   * @returns Whether the model was stored
+   */
+  private async storeInLibrary(
+    hash: string,
+    fileName: string,
+    modelStateId: string,
+    data: Uint8Array | null
+  ): Promise<boolean> {
+    const state = this.modelManager.getModel(modelStateId);
+    if (!state?.fragmentUuid) {
+      return false;
     }
+
+    if (!data) {
+      const result = await this.fragmentsService.exportFragment(state.fragmentUuid);
+      if (!result.success || !result.data) {
+        return false;
+      }
+      data = result.data;
+    }
+
+    return this.modelLibrary.store(hash, fileName, data, state, state.stats ?? null);
   }
 
   /**
@@ -691,8 +1359,14 @@ export class IfcViewerComponent {
    */
   private centerCameraOnScene(): void {
     console.log('🎥 Centering camera on scene');
+    this.frameObject(this.scene);
+  }
 
-    const bbox = calculateBoundingBox(this.scene);
+  /**
+   * Move both cameras so that an object (or bounding box) fills the view
+   */
+  private frameObject(object: THREE.Object3D | THREE.Box3): void {
+    const bbox = object instanceof THREE.Box3 ? object : calculateBoundingBox(object);
     
     if (!bbox || bbox.isEmpty()) {
       console.warn('⚠️ No geometry found, using default camera position');
@@ -700,12 +1374,13 @@ export class IfcViewerComponent {
     }
 
     const cameraPos = calculateCameraPosition(
-      this.scene,
+      object,
       this.perspectiveCamera,
       CAMERA_CONFIG.fitPadding
     );
 
     // Update both cameras
+    this.cameraTransition = null;
     this.perspectiveCamera.position.copy(cameraPos.position);
     this.orthographicCamera.position.copy(cameraPos.position);
     this._camera.position.copy(cameraPos.position);
@@ -769,24 +1444,163 @@ export class IfcViewerComponent {
   }
 
   /**
-   * Clear previous model and all helpers from the scene
+   * Frame a node of the spatial tree
    */
-  private async clearPreviousModel(): Promise<void> {
-    const currentModel = this.currentModel();
-    
-    if (currentModel?.fragmentUuid) {
-      console.log('🗑️ Removing previous model from scene...');
-      
-      // Clear IFC filter state
-      this.ifcFilterService.clear();
-      
-      // Remove the model from the fragments service
-      await this.fragmentsService.removeModel(currentModel.fragmentUuid);
-      
-      // Remove visual helpers (bounding box, axes)
-      this.removeSceneHelpers();
-      
-      console.log('✓ Previous model removed');
+  async focusSpatialNode(node: SpatialNode): Promise<void> {
+    const box = await this.spatialTreeService.getNodeBox(node);
+    if (!box) {
+      console.warn(`⚠️ ${node.name} has no geometry to frame`);
+      return;
+    }
+
+    console.log(`🎥 Focusing on: ${node.name}`);
+    this.frameObject(box);
+  }
+
+  /**
+   * Add a section plane perpendicular to the current view through the orbit target
+   */
+  addViewSectionPlane(): void {
+    const direction = this._controls.target.clone().sub(this._camera.position);
+    if (direction.lengthSq() === 0) {
+      return;
+    }
+
+    this.clippingService.addPlane('view', { direction, target: this._controls.target.clone() });
+  }
+
+  /**
+   * Show the floor plan of a storey from above in the orthographic camera
+   * The view before the first plan is restored when leaving plan mode
+   * @param key - Storey key
+   */
+  async enterPlan(key: string): Promise<void> {
+    const storey = this.planService.activate(key);
+    if (!storey) {
+      return;
+    }
+    this.spaceAuthoringService.cancelDraft();
+
+    if (!this.planReturnCamera) {
+      this.planReturnCamera = this.captureCamera();
+    }
+    this.setCameraType('orthographic');
+    this._controls.enableRotate = false;
+
+    const box = (await this.planService.getStoreyBox(key)) ?? calculateBoundingBox(this.scene);
+    if (!box || box.isEmpty()) {
+      return;
+    }
+
+    // Look straight down on the storey, project north up
+    const up = new THREE.Vector3(0, 1, 0);
+    const fit = calculateCameraPosition(box, this.perspectiveCamera, CAMERA_CONFIG.fitPadding, up);
+    const center = box.getCenter(new THREE.Vector3());
+    const target = new THREE.Vector3(center.x, storey.elevation, center.z);
+    const position = getViewPosition(target, up, fit.position.distanceTo(fit.target));
+
+    console.log(`📐 Floor plan: ${storey.name}`);
+    this.startCameraTransition(position, target, 1);
+  }
+
+  /**
+   * Leave plan mode and return to the view before it
+   */
+  exitPlan(): void {
+    this.planService.deactivate();
+    this.spaceAuthoringService.setTool(null);
+    this._controls.enableRotate = CONTROLS_CONFIG.enableRotate;
+
+    const camera = this.planReturnCamera;
+    this.planReturnCamera = null;
+    if (camera) {
+      this.animateToCamera(camera);
+    }
+  }
+
+  /**
+   * Show an elevation or section in the orthographic camera
+   * Sections look at the middle of the models on the section plane
+   * @param view - Drawing view
+   */
+  showDrawingView(view: DrawingView): void {
+    const box = calculateBoundingBox(this.scene);
+    if (!box || box.isEmpty()) {
+      console.warn('⚠️ No geometry found to show');
+      return;
+    }
+
+    if (this.isPlanMode()) {
+      this.exitPlan();
+    }
+    this.setCameraType('orthographic');
+
+    const direction = new THREE.Vector3(view.direction.x, view.direction.y, view.direction.z);
+    const fit = calculateCameraPosition(box, this.perspectiveCamera, CAMERA_CONFIG.fitPadding, direction);
+    const plane = this.drawingViewService.getSectionPlane(view);
+    const target = plane ? plane.projectPoint(fit.target, new THREE.Vector3()) : fit.target;
+    const position = getViewPosition(target, direction, fit.position.distanceTo(fit.target));
+
+    console.log(`📐 Drawing view: ${view.name}`);
+    this.startCameraTransition(position, target, 1);
+  }
+
+  /**
+   * Focus the camera on a single loaded model
+   */
+  focusModel(id: string): void {
+    const state = this.modelManager.getModel(id);
+    if (!state?.fragmentUuid) {
+      return;
+    }
+
+    const model = this.fragmentsService.getModel(state.fragmentUuid);
+    if (!model?.object) {
+      return;
+    }
+
+    console.log(`🎥 Focusing on model: ${state.name}`);
+    this.modelManager.setActiveModel(id);
+    this.frameObject(model.object);
+  }
+
+  /**
+   * Unload a single model and rebuild the scene helpers
+   */
+  async unloadModel(id: string): Promise<void> {
+    try {
+      const fragmentUuid = this.modelManager.getModel(id)?.fragmentUuid;
+      const wasPlanMode = this.isPlanMode();
+      await this.modelManager.unloadModel(id);
+      if (fragmentUuid) {
+        await this.removeModelData(fragmentUuid);
+      }
+      if (wasPlanMode && !this.isPlanMode()) {
+        this.exitPlan();
+      }
+      this.refreshSceneHelpers();
+      this.clippingService.fitToModels();
+      console.log('✓ Model unloaded');
+    } catch (error) {
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'unloadModel',
+        modelId: id,
+      });
+    }
+  }
+
+  /**
+   * Re-create visual helpers so they match the models currently in the scene
+   */
+  private refreshSceneHelpers(): void {
+    this.removeSceneHelpers();
+
+    const config = this.configService.config;
+    if (
+      this.modelManager.loadedModels().length > 0 &&
+      (config.showBoundingBoxHelper || config.showAxesHelper)
+    ) {
+      this.addSceneHelpers();
     }
   }
 
@@ -850,6 +1664,47 @@ export class IfcViewerComponent {
     }
   }
 
+  /**
+   * Download current model as .ifc file with the authored spaces
+   */
+  async downloadIfc(): Promise<void> {
+    const model = this.currentModel();
+    if (!model?.fragmentUuid) {
+      console.warn('No model loaded to export');
+      return;
+    }
+
+    try {
+      console.log('📤 Exporting IFC...');
+
+      const result = await this.ifcWriterService.export(model.fragmentUuid);
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Export failed');
+      }
+
+      // Create blob and download
+      const blob = new Blob([result.data], { type: 'application/x-step' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${model.name}.ifc`;
+      link.click();
+
+      // Cleanup
+      URL.revokeObjectURL(url);
+
+      console.log(`✅ IFC exported: ${model.name}.ifc (${formatBytes(result.fileSize || 0)})`);
+    } catch (error) {
+      console.error('❌ Failed to export IFC:', error);
+      this.errorHandler.handleError(error, ErrorSeverity.ERROR, {
+        operation: 'downloadIfc',
+        modelId: model.fragmentUuid,
+      });
+      this.errorMessage.set('Failed to export IFC');
+    }
+  }
+
   /**
    * Open file picker
    */
@@ -864,18 +1719,358 @@ export class IfcViewerComponent {
     this.isSidebarCollapsed.update((collapsed) => !collapsed);
   }
 
+  /**
+   * Snap the view to a direction picked on the orientation cube
+   * @param direction - View direction (orbit target → camera)
+   */
+  setCubeView(direction: Vector3Config): void {
+    const target = this._controls.target.clone();
+    const distance = this._camera.position.distanceTo(target);
+    const position = getViewPosition(
+      target,
+      new THREE.Vector3(direction.x, direction.y, direction.z),
+      distance
+    );
+
+    this.startCameraTransition(position, target);
+  }
+
+  /**
+   * Orbit the view by 90° around the orbit target
+   */
+  rotateCubeView(rotation: ViewRotation): void {
+    const target = this._controls.target.clone();
+    this.startCameraTransition(rotateOrbit(this._camera.position, target, rotation), target);
+  }
+
+  /**
+   * Return to the default view of all loaded models
+   */
+  resetView(): void {
+    const bbox = calculateBoundingBox(this.scene);
+
+    if (!bbox || bbox.isEmpty()) {
+      const config = this.configService.config;
+      this.startCameraTransition(
+        new THREE.Vector3(config.cameraPosition.x, config.cameraPosition.y, config.cameraPosition.z),
+        new THREE.Vector3(config.cameraTarget.x, config.cameraTarget.y, config.cameraTarget.z),
+        1
+      );
+      return;
+    }
+
+    const cameraPos = calculateCameraPosition(bbox, this.perspectiveCamera, CAMERA_CONFIG.fitPadding);
+    this.startCameraTransition(cameraPos.position, cameraPos.target, 1);
+  }
+
+  /**
+   * Fit all loaded models into the view, keeping the view direction
+   */
+  fitView(): void {
+    const bbox = calculateBoundingBox(this.scene);
+    if (!bbox || bbox.isEmpty()) {
+      console.warn('⚠️ No geometry found to fit');
+      return;
+    }
+
+    const direction = this._camera.position.clone().sub(this._controls.target).normalize();
+    const cameraPos = calculateCameraPosition(
+      bbox,
+      this.perspectiveCamera,
+      CAMERA_CONFIG.fitPadding,
+      direction
+    );
+    this.startCameraTransition(cameraPos.position, cameraPos.target, 1);
+  }
+
+  /**
+   * Save the current view as a named viewpoint
+   * @param name - Viewpoint name
+   */
+  saveViewpoint(name: string): void {
+    this.viewpointService.save(name, this.captureCamera()).catch(console.error);
+  }
+
+  /**
+   * Animate to a saved viewpoint and restore its visibility, section and selection state
+   * @param viewpoint - Viewpoint to restore
+   */
+  restoreViewpoint(viewpoint: Viewpoint): void {
+    this.animateToCamera(viewpoint.camera);
+    this.viewpointService.apply(viewpoint).catch(console.error);
+  }
+
+  /**
+   * Create a BCF topic bound to the current view, with a snapshot of the canvas
+   * @param draft - Title, status, assignee and description
+   */
+  createBcfTopic(draft: BcfTopicDraft): void {
+    const canvas = this.canvasRef().nativeElement;
+
+    this.bcfService
+      .createTopic(draft, {
+        camera: this.captureCamera(),
+        fieldOfView: this.perspectiveCamera.fov,
+        aspectRatio: canvas.clientWidth / canvas.clientHeight,
+        snapshot: this.captureSnapshot(),
+      })
+      .catch(console.error);
+  }
+
+  /**
+   * Animate to the viewpoint of a BCF topic and restore its visibility, selection and sections
+   * @param topic - BCF topic
+   */
+  restoreBcfTopic(topic: BcfTopic): void {
+    const bbox = calculateBoundingBox(this.scene);
+    const center = bbox && !bbox.isEmpty() ? bbox.getCenter(new THREE.Vector3()) : null;
+
+    const camera = this.bcfService.getCamera(topic, center);
+    if (camera) {
+      this.animateToCamera(camera);
+    }
+
+    this.bcfService.apply(topic).catch(console.error);
+  }
+
+  /**
+   * Open the model of the link the viewer was opened with and restore its view
+   * `/model/:id` opens a model of the model library, `?url=` downloads a model file
+   */
+  private async openViewLink(): Promise<void> {
+    const modelId = this.route.snapshot.paramMap.get('id');
+    const link = parseViewQueryParams(this.route.snapshot.queryParams);
+
+    try {
+      if (modelId) {
+        await this.openCachedModel(modelId);
+      } else if (link.url) {
+        await this.loadModelFromUrl(link.url);
+      }
+
+      if (this.hasModel()) {
+        await this.applyViewLink(link);
+      }
+    } catch (error) {
+      this.errorMessage.set('The shared link could not be opened');
+      this.errorHandler.handleError(error, ErrorSeverity.WARNING, {
+        operation: 'openViewLink',
+        modelId,
+        url: link.url,
+      });
+    } finally {
+      this.viewLinkReady = true;
+      this.syncViewLink();
+    }
+  }
+
+  /**
+   * Download a model file and import it
+   * Only the app's own origin and local development servers are allowed
+   * @param url - Absolute or relative URL of a .ifc or .frag file
+   */
+  private async loadModelFromUrl(url: string): Promise<void> {
+    if (!isAllowedModelUrl(url, location.origin)) {
+      this.errorMessage.set('Models can only be opened from this site or a local development server');
+      this.errorHandler.handleError(`Model URL not allowed: ${url}`, ErrorSeverity.WARNING, {
+        operation: 'loadModelFromUrl',
+        url,
+      });
+      return;
+    }
+
+    console.log(`🌐 Downloading model: ${url}`);
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+    }
+
+    const blob = await response.blob();
+    await this.importFiles([new File([blob], getModelUrlFileName(url, location.origin))]);
+  }
+
+  /**
+   * Restore the camera, hidden classes and selection of a link
+   */
+  private async applyViewLink(link: ViewLink): Promise<void> {
+    if (link.camera) {
+      this.animateToCamera(link.camera);
+    }
+
+    if (link.hiddenClasses.length > 0 || link.selectedGlobalId) {
+      await this.viewpointService.apply({
+        name: 'Shared link',
+        hiddenClasses: link.hiddenClasses,
+        selectedGlobalId: link.selectedGlobalId,
+        clipping: { planes: this.clippingService.planes(), sectionBox: this.clippingService.sectionBox() },
+      });
+    }
+  }
+
+  /**
+   * Write the current model and view to the URL (replacing the history entry)
+   * Models stored in the library are linked as /model/:id, other models keep the ?url= they were opened from
+   */
+  private syncViewLink(): void {
+    if (!this.viewLinkReady) {
+      return;
+    }
+
+    const library = this.libraryLink();
+    const modelId = library && this.modelManager.getModel(library.modelStateId) ? library.hash : null;
+    const hasModel = this.models().length > 0;
+
+    const queryParams = toViewQueryParams({
+      url: hasModel && !modelId ? parseViewQueryParams(this.route.snapshot.queryParams).url : null,
+      camera: hasModel ? this.captureCamera() : null,
+      hiddenClasses: this.ifcFilterService
+        .availableClasses()
+        .filter((ifcClass) => !ifcClass.visible)
+        .map((ifcClass) => ifcClass.name),
+      selectedGlobalId: this.selectionService.properties()?.globalId ?? null,
+    });
+
+    const tree = this.router.createUrlTree(modelId ? ['/', DEEP_LINK_CONFIG.modelPath, modelId] : ['/'], {
+      queryParams,
+    });
+    if (this.router.serializeUrl(tree) !== this.router.url) {
+      this.router.navigateByUrl(tree, { replaceUrl: true }).catch(console.error);
+    }
+  }
+
+  /**
+   * Switch to the camera type of a saved camera and animate to it
+   */
+  private animateToCamera(camera: ViewpointCamera): void {
+    const { type, position, target, zoom } = camera;
+    this.setCameraType(type);
+
+    this.startCameraTransition(
+      new THREE.Vector3(position.x, position.y, position.z),
+      new THREE.Vector3(target.x, target.y, target.z),
+      type === 'orthographic' ? zoom : null
+    );
+  }
+
+  /**
+   * Render the current view into an image
+   * Rendered right before reading the canvas, so the drawing buffer does not need to be preserved
+   * @returns Data URL or null if the canvas could not be read
+   */
+  private captureSnapshot(): string | null {
+    try {
+      this.renderFrame();
+      return this.canvasRef().nativeElement.toDataURL(BCF_CONFIG.snapshotType);
+    } catch (error) {
+      console.warn('⚠️ Snapshot could not be captured:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Current camera state for a viewpoint
+   */
+  private captureCamera(): ViewpointCamera {
+    const target = this._controls.target;
+    let zoom = 1;
+
+    if (this._camera === this.orthographicCamera) {
+      // Zoom relative to the frustum fitted to the target distance, which is what a refit restores
+      const frustumHeight = this.orthographicCamera.top - this.orthographicCamera.bottom;
+      zoom = (this._camera.zoom * this._camera.position.distanceTo(target) * 0.5) / frustumHeight;
+    }
+
+    return {
+      type: this.cameraType(),
+      position: { x: this._camera.position.x, y: this._camera.position.y, z: this._camera.position.z },
+      target: { x: target.x, y: target.y, z: target.z },
+      zoom,
+    };
+  }
+
+  /**
+   * Start an animated camera move around the orbit target
+   * @param position - Final camera position
+   * @param target - Final orbit target
+   * @param refitZoom - Relative zoom of the orthographic frustum fitted to the new distance
+   *   (null keeps the current frustum and zoom)
+   */
+  private startCameraTransition(
+    position: THREE.Vector3,
+    target: THREE.Vector3,
+    refitZoom: number | null = null
+  ): void {
+    let zoom = this._camera.zoom;
+
+    if (refitZoom !== null && this._camera === this.orthographicCamera) {
+      // Zoom to the framing the refitted frustum will have, so the final refit does not jump
+      const frustumHeight = this.orthographicCamera.top - this.orthographicCamera.bottom;
+      zoom = (frustumHeight * refitZoom) / (position.distanceTo(target) * 0.5);
+    }
+
+    this.cameraTransition = {
+      from: {
+        position: this._camera.position.clone(),
+        target: this._controls.target.clone(),
+        zoom: this._camera.zoom,
+      },
+      to: { position: position.clone(), target: target.clone(), zoom },
+      startTime: Date.now(),
+      refitZoom,
+    };
+  }
+
+  /**
+   * Advance the animated camera move (called every frame)
+   */
+  private stepCameraTransition(now: number): void {
+    const transition = this.cameraTransition;
+    if (!transition) {
+      return;
+    }
+
+    const t = easeInOutCubic((now - transition.startTime) / VIEW_CUBE_CONFIG.transitionDuration);
+    const view = interpolateOrbit(transition.from, transition.to, t);
+
+    this._camera.position.copy(view.position);
+    this._controls.target.copy(view.target);
+    this._camera.zoom = THREE.MathUtils.lerp(transition.from.zoom, transition.to.zoom, t);
+    this._camera.updateProjectionMatrix();
+
+    if (t < 1) {
+      return;
+    }
+
+    this.cameraTransition = null;
+
+    if (transition.refitZoom !== null && this._camera === this.orthographicCamera) {
+      this.adjustOrthographicZoom();
+      this.orthographicCamera.zoom = transition.refitZoom;
+      this.orthographicCamera.updateProjectionMatrix();
+    }
+
+    this.fragmentsService.updateCulling().catch(console.error);
+    this.ngZone.run(() => this.cameraRevision.update((revision) => revision + 1));
+  }
+
   /**
    * Change camera view type
    */
   onCameraChange(event: Event): void {
     const select = event.target as HTMLSelectElement;
-    const newType = select.value as 'perspective' | 'orthographic';
-    
+    this.setCameraType(select.value as CameraType);
+  }
+
+  /**
+   * Switch the active camera, keeping the position and orbit target
+   */
+  private setCameraType(newType: CameraType): void {
     if (newType === this.cameraType()) {
       return; // No change needed
     }
 
     console.log(`🎥 Switching to ${newType} camera`);
+    this.cameraTransition = null;
 
     // Store current camera position and target
     const currentPosition = this._camera.position.clone();
@@ -934,6 +2129,9 @@ export class IfcViewerComponent {
     try {
       console.log('🗑️ Cleaning up IFC Viewer...');
 
+      // Stop the model being loaded
+      this.loadAbortController()?.abort();
+
       // Cancel animation frame
       if (this.animationFrameId) {
         cancelAnimationFrame(this.animationFrameId);
@@ -944,6 +2142,18 @@ export class IfcViewerComponent {
         this.stats.dom.remove();
       }
 
+      // Release section planes and their helpers
+      this.clippingService.dispose();
+
+      // Release measurements and their labels
+      this.measurementService.dispose();
+
+      // Release the authored spaces
+      this.spaceAuthoringService.dispose();
+
+      // Close the model library database
+      this.modelLibrary.dispose();
+
       // Dispose controls
       if (this._controls) {
         this._controls.dispose();
@@ -2,6 +2,7 @@ import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { Component, signal } from '@angular/core';
 import * as THREE from 'three';
 import { OrientationCubeComponent } from './orientation-cube.component';
+import { Vector3Config, ViewRotation } from '../models/viewer.model';
 
 /**
  * Test host component that provides a camera input
@@ -9,10 +10,22 @@ import { OrientationCubeComponent } from './orientation-cube.component';
 @Component({
   standalone: true,
   imports: [OrientationCubeComponent],
-  template: `<app-orientation-cube [camera]="camera()" />`,
+  template: `
+    <app-orientation-cube
+      [camera]="camera()"
+      (viewSelect)="selected.push($event)"
+      (viewRotate)="rotations.push($event)"
+      (viewHome)="homes = homes + 1"
+      (viewFit)="fits = fits + 1"
+    />
+  `,
 })
 class TestHostComponent {
   readonly camera = signal(new THREE.PerspectiveCamera(75, 1, 0.1, 1000));
+  readonly selected: Vector3Config[] = [];
+  readonly rotations: ViewRotation[] = [];
+  homes = 0;
+  fits = 0;
 }
 
 describe('OrientationCubeComponent', () => {
@@ -69,6 +82,63 @@ describe('OrientationCubeComponent', () => {
     expect(styles.pointerEvents).toBe('none');
   });
 
+  it('should accept pointer events on the cube and its buttons', () => {
+    const canvas = hostFixture.nativeElement.querySelector('canvas');
+
+    expect(window.getComputedStyle(canvas).pointerEvents).toBe('auto');
+  });
+
+  it('should emit home, fit and rotate events from the buttons', () => {
+    const click = (selector: string) =>
+      (hostFixture.nativeElement.querySelector(selector) as HTMLButtonElement).click();
+
+    click('.cube-home');
+    click('.cube-fit');
+    click('.cube-arrow-left');
+    click('.cube-arrow-right');
+    click('.cube-arrow-up');
+    click('.cube-arrow-down');
+
+    expect(hostComponent.homes).toBe(1);
+    expect(hostComponent.fits).toBe(1);
+    expect(hostComponent.rotations).toEqual(['left', 'right', 'up', 'down']);
+  });
+
+  it('should emit the view direction of the clicked face', () => {
+    const canvas = hostFixture.nativeElement.querySelector('canvas') as HTMLCanvasElement;
+    const rect = canvas.getBoundingClientRect();
+
+    // Default camera looks along -Z, so the front (+Z) face is in the middle of the cube
+    canvas.dispatchEvent(
+      new MouseEvent('click', {
+        clientX: rect.left + rect.width / 2,
+        clientY: rect.top + rect.height / 2,
+      })
+    );
+
+    expect(hostComponent.selected.length).toBe(1);
+    expect(hostComponent.selected[0]).toEqual({ x: 0, y: 0, z: 1 });
+  });
+
+  it('should label the faces like the elevations', () => {
+    const fillText = spyOn(CanvasRenderingContext2D.prototype, 'fillText').and.callThrough();
+
+    (component as any).createFaceMaterials();
+
+    const labels = fillText.calls.allArgs().map(([text]) => text);
+    // +X, -X, +Y, +Z, -Z (the bottom face has no label)
+    expect(labels.filter((text) => text.startsWith('('))).toEqual(['(E)', '(W)', '(Top)', '(S)', '(N)']);
+  });
+
+  it('should ignore clicks next to the cube', () => {
+    const canvas = hostFixture.nativeElement.querySelector('canvas') as HTMLCanvasElement;
+    const rect = canvas.getBoundingClientRect();
+
+    canvas.dispatchEvent(new MouseEvent('click', { clientX: rect.left + 2, clientY: rect.top + 2 }));
+
+    expect(hostComponent.selected.length).toBe(0);
+  });
+
   it('should have correct dimensions', () => {
     const hostElement = hostFixture.nativeElement.querySelector('app-orientation-cube');
     const styles = window.getComputedStyle(hostElement);
@@ -7,6 +7,7 @@ import {
   NgZone,
   afterNextRender,
   input,
+  output,
   effect,
   DestroyRef,
   signal,
@@ -14,6 +15,9 @@ import {
 import { CommonModule } from '@angular/common';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import * as THREE from 'three';
+import { VIEW_CUBE_CONFIG } from '../constants/viewer.constants';
+import { Vector3Config, ViewRotation } from '../models/viewer.model';
+import { getCardinalLabel, getCubeRegion, getCubeRegionBox } from '../utils/camera.utils';
 
 /**
  * Orientation Cube Component
@@ -27,18 +31,29 @@ import * as THREE from 'three';
  * - Cardinal direction labels (N/S/E/W)
  * - HiDPI support with crisp text rendering
  * - Smooth rotation updates via requestAnimationFrame
- * - No interaction (pointer-events: none)
+ * - Clickable faces, edges and corners with hover highlight
+ * - Home, fit and 90° rotate buttons
  * 
- * Axis mapping:
- * - +Z = Front (N)
- * - -Z = Back (S)
+ * The cube only emits navigation events; the host animates its own camera.
+ * View directions point from the orbit target towards the camera.
+ * 
+ * Axis mapping (project north is world -Z, as in the generated elevations):
+ * - +Z = Front (S)
+ * - -Z = Back (N)
  * - -X = Left (W)
  * - +X = Right (E)
  * - +Y = Top
  * 
  * @example
  * ```html
- * <app-orientation-cube [camera]="myCamera" />
+ * <app-orientation-cube
+ *   [camera]="myCamera"
+ *   [target]="controls.target"
+ *   (viewSelect)="setView($event)"
+ *   (viewRotate)="rotateView($event)"
+ *   (viewHome)="resetView()"
+ *   (viewFit)="fitView()"
+ * />
  * ```
  */
 @Component({
@@ -47,11 +62,22 @@ import * as THREE from 'three';
   imports: [CommonModule],
   template: `
     <div class="cube-wrapper">
-      <canvas 
-        #canvas 
-        class="orientation-cube-canvas"
-        aria-hidden="true"
-      ></canvas>
+      <div class="cube-view">
+        <button class="cube-button cube-home" type="button" (click)="viewHome.emit()" title="Home view" aria-label="Home view">⌂</button>
+        <button class="cube-button cube-arrow-up" type="button" (click)="viewRotate.emit('up')" title="Rotate up" aria-label="Rotate view up 90 degrees">▲</button>
+        <button class="cube-button cube-fit" type="button" (click)="viewFit.emit()" title="Fit to models" aria-label="Fit view to models">⤢</button>
+        <button class="cube-button cube-arrow-left" type="button" (click)="viewRotate.emit('left')" title="Rotate left" aria-label="Rotate view left 90 degrees">◀</button>
+        <canvas 
+          #canvas 
+          class="orientation-cube-canvas"
+          aria-hidden="true"
+          (click)="onCanvasClick($event)"
+          (pointermove)="onCanvasPointerMove($event)"
+          (pointerleave)="onCanvasPointerLeave()"
+        ></canvas>
+        <button class="cube-button cube-arrow-right" type="button" (click)="viewRotate.emit('right')" title="Rotate right" aria-label="Rotate view right 90 degrees">▶</button>
+        <button class="cube-button cube-arrow-down" type="button" (click)="viewRotate.emit('down')" title="Rotate down" aria-label="Rotate view down 90 degrees">▼</button>
+      </div>
       <div class="coordinates-panel">
         <div class="coord-section">
           <span class="coord-label">Position:</span>
@@ -88,6 +114,43 @@ import * as THREE from 'three';
       gap: 8px;
     }
 
+    .cube-view {
+      display: grid;
+      grid-template-columns: 20px 120px 20px;
+      grid-template-rows: 20px 120px 20px;
+      align-items: center;
+      justify-items: center;
+      align-self: flex-end;
+      pointer-events: auto;
+    }
+
+    .cube-home { grid-area: 1 / 1; }
+    .cube-arrow-up { grid-area: 1 / 2; }
+    .cube-fit { grid-area: 1 / 3; }
+    .cube-arrow-left { grid-area: 2 / 1; }
+    .orientation-cube-canvas { grid-area: 2 / 2; }
+    .cube-arrow-right { grid-area: 2 / 3; }
+    .cube-arrow-down { grid-area: 3 / 2; }
+
+    .cube-button {
+      width: 20px;
+      height: 20px;
+      padding: 0;
+      border: none;
+      border-radius: 4px;
+      background: rgba(255, 255, 255, 0.85);
+      color: #333;
+      font-size: 11px;
+      line-height: 20px;
+      cursor: pointer;
+      box-shadow: 0 1px 4px rgba(0, 0, 0, 0.15);
+    }
+
+    .cube-button:hover {
+      background: #4a90e2;
+      color: #ffffff;
+    }
+
     .orientation-cube-canvas {
       width: 120px;
       height: 120px;
@@ -141,6 +204,11 @@ import * as THREE from 'three';
         box-shadow: 0 2px 8px rgba(0, 0, 0, 0.3);
       }
 
+      .cube-button {
+        background: rgba(30, 30, 30, 0.85);
+        color: #e0e0e0;
+      }
+
       .coordinates-panel {
         background: rgba(30, 30, 30, 0.95);
         box-shadow: 0 2px 8px rgba(0, 0, 0, 0.3);
@@ -162,6 +230,12 @@ export class OrientationCubeComponent {
   readonly camera = input.required<THREE.Camera>();
   readonly target = input<THREE.Vector3>();
 
+  // Outputs
+  readonly viewSelect = output<Vector3Config>();
+  readonly viewRotate = output<ViewRotation>();
+  readonly viewHome = output<void>();
+  readonly viewFit = output<void>();
+
   // Dependencies
   private readonly ngZone = inject(NgZone);
   private readonly destroyRef = inject(DestroyRef);
@@ -174,6 +248,8 @@ export class OrientationCubeComponent {
   private scene!: THREE.Scene;
   private cubeCamera!: THREE.PerspectiveCamera;
   private cube!: THREE.Mesh;
+  private highlight!: THREE.Mesh;
+  private readonly raycaster = new THREE.Raycaster();
   private animationFrameId?: number;
 
   // Camera tracking signals
@@ -182,8 +258,8 @@ export class OrientationCubeComponent {
 
   // Face colors (subtle, high contrast)
   private readonly faceColors = {
-    front: 0x4a90e2,  // Blue (North)
-    back: 0x50c878,   // Green (South)
+    front: 0x4a90e2,  // Blue (South)
+    back: 0x50c878,   // Green (North)
     right: 0xf5a623,  // Orange (East)
     left: 0xe94b3c,   // Red (West)
     top: 0x9b59b6,    // Purple
@@ -212,7 +288,7 @@ export class OrientationCubeComponent {
    */
   private initializeCube(): void {
     const canvas = this.canvasRef().nativeElement;
-    const size = 120;
+    const size = VIEW_CUBE_CONFIG.size;
     const dpr = Math.min(window.devicePixelRatio, 2);
 
     // Setup renderer
@@ -258,6 +334,19 @@ export class OrientationCubeComponent {
     const wireframe = new THREE.LineSegments(edges, lineMaterial);
     this.cube.add(wireframe);
 
+    // Hover highlight for the face, edge or corner under the pointer
+    this.highlight = new THREE.Mesh(
+      new THREE.BoxGeometry(1, 1, 1),
+      new THREE.MeshBasicMaterial({
+        color: VIEW_CUBE_CONFIG.highlightColor,
+        opacity: VIEW_CUBE_CONFIG.highlightOpacity,
+        transparent: true,
+        depthWrite: false,
+      })
+    );
+    this.highlight.visible = false;
+    this.cube.add(this.highlight);
+
     console.log('✓ Orientation cube initialized');
   }
 
@@ -266,12 +355,12 @@ export class OrientationCubeComponent {
    */
   private createFaceMaterials(): THREE.Material[] {
     const faces = [
-      { name: 'Right', cardinal: 'E', color: this.faceColors.right },   // +X
-      { name: 'Left', cardinal: 'W', color: this.faceColors.left },     // -X
-      { name: 'Top', cardinal: 'Top', color: this.faceColors.top },     // +Y
-      { name: 'Bottom', cardinal: '', color: this.faceColors.bottom },  // -Y (not labeled)
-      { name: 'Front', cardinal: 'N', color: this.faceColors.front },   // +Z
-      { name: 'Back', cardinal: 'S', color: this.faceColors.back },     // -Z
+      { name: 'Right', cardinal: getCardinalLabel({ x: 1, y: 0, z: 0 }), color: this.faceColors.right }, // +X
+      { name: 'Left', cardinal: getCardinalLabel({ x: -1, y: 0, z: 0 }), color: this.faceColors.left }, // -X
+      { name: 'Top', cardinal: 'Top', color: this.faceColors.top }, // +Y
+      { name: 'Bottom', cardinal: null, color: this.faceColors.bottom }, // -Y (not labeled)
+      { name: 'Front', cardinal: getCardinalLabel({ x: 0, y: 0, z: 1 }), color: this.faceColors.front }, // +Z
+      { name: 'Back', cardinal: getCardinalLabel({ x: 0, y: 0, z: -1 }), color: this.faceColors.back }, // -Z
     ];
 
     return faces.map((face) => {
@@ -335,6 +424,75 @@ export class OrientationCubeComponent {
     this.cube.quaternion.copy(quaternion);
   }
 
+  /**
+   * Snap the view to the clicked face, edge or corner
+   */
+  onCanvasClick(event: MouseEvent): void {
+    const region = this.pickRegion(event);
+    if (region) {
+      this.viewSelect.emit({ x: region.x, y: region.y, z: region.z });
+    }
+  }
+
+  /**
+   * Highlight the face, edge or corner under the pointer
+   */
+  onCanvasPointerMove(event: PointerEvent): void {
+    const region = this.pickRegion(event);
+    const canvas = this.canvasRef().nativeElement;
+
+    if (!region || !this.highlight) {
+      this.onCanvasPointerLeave();
+      return;
+    }
+
+    // Slightly larger than the region so it sits on top of the cube faces
+    const box = getCubeRegionBox(region, VIEW_CUBE_CONFIG.edgeSize);
+    box.getSize(this.highlight.scale).addScalar(0.01);
+    box.getCenter(this.highlight.position).multiplyScalar(1.01);
+    this.highlight.visible = true;
+    canvas.style.cursor = 'pointer';
+  }
+
+  /**
+   * Clear the hover highlight
+   */
+  onCanvasPointerLeave(): void {
+    if (this.highlight) {
+      this.highlight.visible = false;
+    }
+    this.canvasRef().nativeElement.style.cursor = '';
+  }
+
+  /**
+   * Find the cube region under a pointer position
+   * @returns Region direction in cube (world axis) coordinates or null if the cube was missed
+   */
+  private pickRegion(event: MouseEvent): THREE.Vector3 | null {
+    if (!this.cube) {
+      return null;
+    }
+
+    const rect = this.canvasRef().nativeElement.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) {
+      return null;
+    }
+
+    const pointer = new THREE.Vector2(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+
+    this.cube.updateMatrixWorld();
+    this.raycaster.setFromCamera(pointer, this.cubeCamera);
+    const [hit] = this.raycaster.intersectObject(this.cube, false);
+    if (!hit) {
+      return null;
+    }
+
+    return getCubeRegion(this.cube.worldToLocal(hit.point.clone()), VIEW_CUBE_CONFIG.edgeSize);
+  }
+
   /**
    * Animation loop
    */
@@ -418,9 +576,9 @@ export class OrientationCubeComponent {
       }
       this.cube.geometry.dispose();
 
-      // Dispose wireframe
+      // Dispose wireframe and hover highlight
       this.cube.children.forEach((child) => {
-        if (child instanceof THREE.LineSegments) {
+        if (child instanceof THREE.LineSegments || child instanceof THREE.Mesh) {
           child.geometry.dispose();
           (child.material as THREE.Material).dispose();
         }
@@ -1,4 +1,7 @@
 import { ViewerConfig } from '../models/viewer.model';
+import { ProjectUnits } from '../models/measurement.model';
+import { LoadingStage } from '../models/ifc.model';
+import { DiffStatus } from '../models/diff.model';
 
 /**
  * Default viewer configuration
@@ -102,6 +105,116 @@ export const CONTROLS_CONFIG = {
   },
 } as const;
 
+/**
+ * Orientation cube (view cube) constants
+ */
+export const VIEW_CUBE_CONFIG = {
+  /** Canvas size in CSS pixels */
+  size: 120,
+  /** Width of the edge and corner regions as a fraction of the cube size */
+  edgeSize: 0.2,
+  /** Color of the hovered face, edge or corner */
+  highlightColor: 0xffffff,
+  /** Opacity of the hover highlight */
+  highlightOpacity: 0.45,
+  /** Duration of the animated view change in ms */
+  transitionDuration: 450,
+} as const;
+
+/**
+ * Compass directions as view directions (from the models towards the viewer)
+ * Project north is the IFC +Y axis, which is world -Z. Elevations and orientation
+ * cube faces are both named after the side of the building they look at.
+ */
+export const CARDINAL_DIRECTIONS = {
+  north: { label: 'N', name: 'North', direction: { x: 0, y: 0, z: -1 } },
+  south: { label: 'S', name: 'South', direction: { x: 0, y: 0, z: 1 } },
+  east: { label: 'E', name: 'East', direction: { x: 1, y: 0, z: 0 } },
+  west: { label: 'W', name: 'West', direction: { x: -1, y: 0, z: 0 } },
+} as const;
+
+/**
+ * Saved viewpoints constants
+ */
+export const VIEWPOINT_CONFIG = {
+  /** Local storage key prefix (followed by the model name) */
+  storagePrefix: 'space-modeller-viewpoints:',
+  /** Format marker of exported viewpoint files */
+  fileFormat: 'space-modeller-viewpoints',
+  /** Version of exported viewpoint files */
+  fileVersion: 1,
+} as const;
+
+/**
+ * BCF (BIM Collaboration Format) issue constants
+ */
+export const BCF_CONFIG = {
+  /** Local storage key of the topic author */
+  authorStorageKey: 'space-modeller-bcf-author',
+  /** Topic statuses offered when creating and editing topics */
+  statuses: ['Open', 'In Progress', 'Resolved', 'Closed'],
+  /** Type of created topics */
+  topicType: 'Issue',
+  /** Orbit target distance of imported perspective cameras without loaded models */
+  defaultTargetDistance: 10,
+  /** Snapshot image type */
+  snapshotType: 'image/png',
+} as const;
+
+/**
+ * Deep link (shareable URL) constants
+ */
+export const DEEP_LINK_CONFIG = {
+  /** First path segment of links to models in the model library (/model/:id) */
+  modelPath: 'model',
+  /** Query parameter names */
+  params: {
+    url: 'url',
+    position: 'pos',
+    target: 'target',
+    cameraType: 'camera',
+    zoom: 'zoom',
+    hiddenClasses: 'hide',
+    selectedGlobalId: 'select',
+  },
+  /** Decimals kept for camera coordinates */
+  precision: 3,
+  /** Host names of local development servers models may be loaded from */
+  localHosts: ['localhost', '127.0.0.1', '[::1]'],
+} as const;
+
+/**
+ * glTF / GLB export constants
+ */
+export const GLTF_EXPORT_CONFIG = {
+  /** Items whose geometry is requested from a model at once */
+  batchSize: 500,
+  /** Metalness of the exported materials (fragments materials are not metallic) */
+  metalness: 0,
+  /** Roughness of the exported materials */
+  roughness: 1,
+  /** MIME type of each format */
+  mimeTypes: {
+    glb: 'model/gltf-binary',
+    gltf: 'model/gltf+json',
+  },
+} as const;
+
+/**
+ * Element schedule export constants
+ */
+export const SCHEDULE_CONFIG = {
+  /** Items whose data is requested from a model at once */
+  batchSize: 500,
+  /** Worksheet name of the XLSX export */
+  sheetName: 'Schedule',
+  /** MIME type of each format */
+  mimeTypes: {
+    csv: 'text/csv;charset=utf-8',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+} as const;
+
 /**
  * Lighting configuration
  * Balanced lighting for architectural visualization
@@ -138,10 +251,371 @@ export const PERFORMANCE_CONFIG = {
  */
 export const FILE_VALIDATION = {
   /** Allowed file extensions */
-  allowedExtensions: ['.ifc'],
+  allowedExtensions: ['.ifc', '.frag'],
   /** Max file size in bytes */
   maxFileSize: 500 * 1024 * 1024, // 500 MB
   /** Min file size in bytes */
   minFileSize: 1024, // 1 KB
 } as const;
 
+
+/**
+ * Element selection constants
+ */
+export const SELECTION_CONFIG = {
+  /** Highlight color of the selected element */
+  highlightColor: 0x3b82f6,
+  /** Highlight opacity */
+  highlightOpacity: 0.9,
+  /** Max pointer travel in pixels for a click to count as a pick (not an orbit drag) */
+  clickTolerance: 4,
+} as const;
+
+/**
+ * Section plane and section box constants
+ */
+export const CLIPPING_CONFIG = {
+  /** Max number of section planes (the section box uses its own six) */
+  maxPlanes: 6,
+  /** Fill color of the capped cut faces */
+  capColor: 0xd4a373,
+  /** Color of the cut outlines */
+  edgeColor: 0x1f2937,
+  /** Color of the plane helpers and section box */
+  helperColor: 0x3b82f6,
+  /** Opacity of the plane helpers */
+  helperOpacity: 0.12,
+  /** Section box padding around the model bounding box (fraction of its size) */
+  boxPadding: 0.02,
+  /** Handle size relative to the model bounding box diagonal */
+  handleScale: 0.02,
+  /** Distance the caps are moved inside the kept half-space to avoid z-fighting */
+  capOffset: 0.01,
+  /** Delay in ms before caps are recomputed after a change */
+  capsDelay: 150,
+  /** Minimum section box size along each axis */
+  minBoxSize: 0.1,
+} as const;
+
+/**
+ * Storey floor plan constants
+ */
+export const PLAN_CONFIG = {
+  /** Default cut height above the storey elevation in meters */
+  cutHeight: 1.2,
+  /** Range of the cut height in meters */
+  minCutHeight: 0.1,
+  maxCutHeight: 5,
+  /** Depth below the storey elevation that stays visible in meters */
+  viewDepth: 0.5,
+  /** Fill color of the cut faces in the viewport */
+  viewCutColor: 0x52525b,
+  /** Color of the cut outlines in the viewport */
+  viewEdgeColor: 0x000000,
+  /** Items whose geometry is requested from a model at once */
+  batchSize: 500,
+  /** Minimum angle in degrees between faces for an edge to be drawn in projection */
+  edgeAngle: 30,
+  /** Bytes of an IFC file decoded at once when searching its true north */
+  scanChunkSize: 1 << 20,
+  /** Drawing styles (line widths in mm on the sheet) */
+  style: {
+    cutFill: '#3f3f46',
+    cutStroke: '#000000',
+    cutWidth: 0.35,
+    projectionStroke: '#6b7280',
+    projectionWidth: 0.13,
+  },
+  /** MIME type of each format */
+  mimeTypes: {
+    svg: 'image/svg+xml',
+    pdf: 'application/pdf',
+  },
+} as const;
+
+/**
+ * Drawing sheet constants (plans, elevations and sections)
+ */
+export const DRAWING_CONFIG = {
+  /** Paper size in mm (A3 landscape) */
+  paper: { width: 420, height: 297 },
+  /** Margin around the drawing area in mm */
+  margin: 10,
+  /** Height of the title strip at the bottom of the sheet in mm */
+  titleHeight: 20,
+  /** Width of a title block field in mm */
+  titleCellWidth: 40,
+  /** Drawing scales (1:n), the largest scale that fits is used */
+  scales: [20, 50, 100, 200, 500, 1000, 2000, 5000],
+  /** Target length of the scale bar in mm on the sheet */
+  scaleBarLength: 50,
+  /** North arrow radius in mm */
+  northArrowRadius: 8,
+  /** Font */
+  fontFamily: 'Helvetica, Arial, sans-serif',
+  /** Average glyph width relative to the font size (used to place text in PDFs) */
+  glyphWidth: 0.5,
+} as const;
+
+/**
+ * Elevation and section drawing constants
+ */
+export const DRAWING_VIEW_CONFIG = {
+  /** Cells of the hidden-line depth buffer along its longest side */
+  resolution: 2048,
+  /** Depth in meters an edge may lie behind the nearest face and still be drawn */
+  depthTolerance: 0.02,
+  /** Minimum angle in degrees between faces for an edge to be drawn */
+  edgeAngle: 30,
+  /** Items whose geometry is requested from a model at once */
+  batchSize: 500,
+  /** Drawing styles (line widths in mm on the sheet) */
+  style: {
+    cutFill: '#3f3f46',
+    cutStroke: '#000000',
+    cutWidth: 0.35,
+    projectionStroke: '#000000',
+    projectionWidth: 0.18,
+  },
+  /** MIME type of the exported drawings */
+  mimeType: 'image/svg+xml',
+} as const;
+
+/**
+ * Property query constants
+ */
+export const QUERY_CONFIG = {
+  /** Local storage key prefix (followed by the user name) */
+  storagePrefix: 'space-modeller-queries:',
+  /** User name of the saved queries when no BCF author is set */
+  anonymousUser: 'anonymous',
+  /** Relative tolerance of numeric equality */
+  numberTolerance: 1e-6,
+  /** Color of highlighted matches */
+  highlightColor: '#facc15',
+  /** Default color of colored matches */
+  defaultColor: '#22c55e',
+  /** Highlight opacity */
+  highlightOpacity: 0.9,
+  /** Classes listed in the result statistics */
+  maxClassCounts: 8,
+} as const;
+
+/**
+ * Thematic view constants
+ */
+export const THEME_CONFIG = {
+  /** Colors of values, assigned in legend order (generated beyond the palette) */
+  palette: [
+    '#3b82f6',
+    '#f97316',
+    '#22c55e',
+    '#ef4444',
+    '#a855f7',
+    '#eab308',
+    '#14b8a6',
+    '#ec4899',
+    '#84cc16',
+    '#6366f1',
+    '#f59e0b',
+    '#06b6d4',
+  ],
+  /** Color of elements without a value */
+  noValueColor: '#6b7280',
+  noValueLabel: 'No value',
+  /** Colors of the lowest and the highest range */
+  rangeColors: ['#2563eb', '#dc2626'],
+  defaultRangeCount: 5,
+  minRangeCount: 2,
+  maxRangeCount: 10,
+  /** Significant digits of range labels */
+  rangeDigits: 3,
+  /** Preset format version */
+  presetVersion: 1,
+} as const;
+
+/**
+ * Room schedule constants
+ */
+export const SPACE_CONFIG = {
+  /** Quantity set read first */
+  quantitySet: 'Qto_SpaceBaseQuantities',
+  /** Quantities read for each value, in order of preference */
+  quantityNames: {
+    netFloorArea: ['NetFloorArea'],
+    grossFloorArea: ['GrossFloorArea'],
+    volume: ['NetVolume', 'GrossVolume'],
+    perimeter: ['GrossPerimeter', 'NetPerimeter'],
+  },
+  /** Property set and property of the number of occupants */
+  occupancySet: 'Pset_SpaceOccupancyRequirements',
+  occupancyProperty: 'OccupancyNumber',
+  /** Minimum downward component of a face normal counted as floor */
+  floorNormal: 0.7,
+  /** Vertices closer than this are merged when tracing the floor outline (meters) */
+  vertexTolerance: 0.0001,
+  /** Spaces whose geometry is requested from a model at once */
+  batchSize: 50,
+  /** Decimals of displayed and exported values */
+  decimals: 2,
+} as const;
+
+/**
+ * Space authoring constants
+ */
+export const SPACE_AUTHORING_CONFIG = {
+  /** Local storage key prefix, followed by the content hash of the model file */
+  storagePrefix: 'space-modeller-spaces:',
+  /** Height used when the storey above is unknown (meters) */
+  defaultHeight: 3,
+  minHeight: 0.5,
+  maxHeight: 20,
+  /** Clicking this close to the first corner closes the outline (meters) */
+  closeTolerance: 0.25,
+  /** Points closer than this are merged (meters) */
+  pointTolerance: 0.01,
+  /** Smallest room area kept after drawing or splitting (square meters) */
+  minArea: 0.05,
+  /** Grid cell of the enclosed area detection (meters) */
+  detectCellSize: 0.05,
+  /** Half size of the area searched around the clicked point (meters) */
+  detectRadius: 25,
+  /** Room fill, outline and selection colors */
+  fillColor: 0x22c55e,
+  fillOpacity: 0.25,
+  lineColor: 0x15803d,
+  selectedColor: 0xf59e0b,
+  draftColor: 0xf59e0b,
+  /** Screen size of draft points (pixels) */
+  pointSize: 8,
+} as const;
+
+/**
+ * Zone constants
+ */
+export const ZONE_CONFIG = {
+  /** Local storage key of the imported zone mapping */
+  storageKey: 'space-modeller-zones',
+  /** Header names of the mapping columns (lowercase), by column */
+  columns: {
+    spaceNumber: ['space', 'space number', 'room', 'room number', 'number'],
+    zone: ['zone', 'zone name', 'name'],
+    category: ['type', 'category', 'zone type', 'group'],
+    occupancy: ['occupancy', 'occupants', 'occupancy number'],
+  },
+  /** Category of zones without one */
+  defaultCategory: 'Zone',
+  /** Description of the zones written to IFC files */
+  description: 'Imported zone mapping',
+} as const;
+
+/**
+ * Model comparison constants
+ */
+export const DIFF_CONFIG = {
+  /** Changes in list order with their label and color */
+  statuses: {
+    added: { label: 'Added', color: '#22c55e' },
+    removed: { label: 'Removed', color: '#ef4444' },
+    geometry: { label: 'Geometry changed', color: '#f97316' },
+    properties: { label: 'Properties changed', color: '#3b82f6' },
+    unchanged: { label: 'Unchanged', color: '#9ca3af' },
+  } satisfies Record<DiffStatus, { label: string; color: string }>,
+  /** Changes shown before the user picks */
+  defaultStatuses: ['added', 'removed', 'geometry', 'properties'] as DiffStatus[],
+  /** Opacity of unchanged elements when they are colored */
+  unchangedOpacity: 0.3,
+  /** Label of elements whose geometry and properties changed */
+  geometryAndPropertiesLabel: 'Geometry and properties changed',
+  /** Largest box corner movement still counted as the same geometry (meters) */
+  tolerance: 0.001,
+  /** Largest relative change of surface area or volume still counted as the same shape */
+  shapeTolerance: 0.001,
+  /** Elements whose boxes and geometry are requested from a model at once */
+  batchSize: 500,
+  /** Changes listed in the panel (the export has all of them) */
+  maxListed: 500,
+} as const;
+
+/**
+ * IFC writer constants
+ */
+export const IFC_WRITER_CONFIG = {
+  /** Quantity set written for each space */
+  quantitySet: 'Qto_SpaceBaseQuantities',
+  /** Identifier of the representation context of the space solids */
+  bodyContext: 'Body',
+  /** IfcSpace.InteriorOrExteriorSpace of IFC2X3 files */
+  interiorOrExterior: 'INTERNAL',
+  /** IfcSpace.PredefinedType of IFC4 and IFC4X3 files */
+  predefinedType: 'SPACE',
+} as const;
+
+/**
+ * Measurement tool constants
+ */
+export const MEASUREMENT_CONFIG = {
+  /** Color of measurement lines and points */
+  lineColor: 0xf59e0b,
+  /** Color of the measured face (area) */
+  areaColor: 0xf59e0b,
+  /** Opacity of the measured face */
+  areaOpacity: 0.35,
+  /** Color of the snap marker per snapped feature */
+  snapColors: {
+    vertex: 0x22c55e,
+    edge: 0xeab308,
+    face: 0x3b82f6,
+  },
+  /** Point size in pixels */
+  pointSize: 8,
+  /** Snap marker size in pixels */
+  markerSize: 12,
+  /** Label height as a fraction of the viewport height */
+  labelHeight: 0.035,
+  /** Label text color */
+  labelColor: '#ffffff',
+  /** Label background color */
+  labelBackground: 'rgba(17, 24, 39, 0.85)',
+  /** Points closer than this (in meters) are treated as the same point */
+  pointTolerance: 1e-4,
+} as const;
+
+/**
+ * Units used when a model has no IfcUnitAssignment (SI units, angles in degrees)
+ */
+export const DEFAULT_PROJECT_UNITS: ProjectUnits = {
+  length: { symbol: 'm', factor: 1, decimals: 3 },
+  area: { symbol: 'm²', factor: 1, decimals: 2 },
+  volume: { symbol: 'm³', factor: 1, decimals: 3 },
+  angle: { symbol: '°', factor: 180 / Math.PI, decimals: 1 },
+};
+
+/**
+ * Local model library configuration (converted fragments stored in IndexedDB)
+ */
+export const MODEL_LIBRARY_CONFIG = {
+  /** IndexedDB database name */
+  databaseName: 'space-modeller-library',
+  /** IndexedDB schema version */
+  databaseVersion: 1,
+  /** Object store holding CachedModel metadata */
+  metadataStore: 'models',
+  /** Object store holding the fragments data */
+  dataStore: 'fragments',
+  /** Least recently opened models are evicted above this count */
+  maxEntries: 20,
+  /** Least recently opened models are evicted above this total size */
+  maxBytes: 1024 * 1024 * 1024, // 1 GB
+} as const;
+
+/**
+ * Loading stages with their label and share of the overall progress (0-100)
+ */
+export const LOADING_STAGES: Record<LoadingStage, { label: string; start: number; end: number }> = {
+  reading: { label: 'Reading file', start: 0, end: 5 },
+  parsing: { label: 'Parsing IFC', start: 5, end: 15 },
+  geometry: { label: 'Converting geometry', start: 15, end: 70 },
+  fragments: { label: 'Building fragments', start: 70, end: 90 },
+  'post-processing': { label: 'Preparing model', start: 90, end: 100 },
+};
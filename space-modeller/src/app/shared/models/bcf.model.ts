@@ -0,0 +1,109 @@
+import { CameraType, Vector3Config } from './viewer.model';
+
+/**
+ * Supported BCF versions
+ */
+export type BcfVersion = '2.1' | '3.0';
+
+/**
+ * BCF camera in viewer (Y-up) coordinates
+ * BCF files store IFC (Z-up) coordinates; the conversion happens when reading and writing XML
+ */
+export interface BcfCamera {
+  /** Camera projection */
+  type: CameraType;
+  /** Camera position */
+  position: Vector3Config;
+  /** Unit view direction */
+  direction: Vector3Config;
+  /** Unit up vector */
+  up: Vector3Config;
+  /** Vertical field of view in degrees (perspective cameras) */
+  fieldOfView: number;
+  /** Visible height in world units (orthographic cameras) */
+  viewToWorldScale: number;
+  /** Width / height of the view */
+  aspectRatio: number;
+}
+
+/**
+ * BCF clipping plane in viewer coordinates
+ */
+export interface BcfClippingPlane {
+  /** Point on the plane */
+  location: Vector3Config;
+  /** Unit normal pointing into the clipped (invisible) half-space */
+  direction: Vector3Config;
+}
+
+/**
+ * BCF viewpoint (visualization info) with its snapshot
+ */
+export interface BcfViewpoint {
+  /** Viewpoint GUID */
+  guid: string;
+  /** Camera, or null for viewpoints without one */
+  camera: BcfCamera | null;
+  /** IFC GlobalIds of the selected elements */
+  selection: string[];
+  /** Whether elements are visible unless listed in the exceptions */
+  defaultVisibility: boolean;
+  /** IFC GlobalIds of the elements with the opposite visibility */
+  exceptions: string[];
+  /** Clipping planes */
+  clippingPlanes: BcfClippingPlane[];
+  /** Snapshot image as a data URL */
+  snapshot: string | null;
+}
+
+/**
+ * Comment on a BCF topic
+ */
+export interface BcfComment {
+  /** Comment GUID */
+  guid: string;
+  /** Comment text */
+  comment: string;
+  /** Author (usually an email address) */
+  author: string;
+  /** Creation time (ISO 8601) */
+  date: string;
+}
+
+/**
+ * BCF topic (issue)
+ */
+export interface BcfTopic {
+  /** Topic GUID */
+  guid: string;
+  /** Title */
+  title: string;
+  /** Topic type (e.g. "Issue") */
+  type: string;
+  /** Topic status (e.g. "Open") */
+  status: string;
+  /** Assignee (usually an email address) */
+  assignedTo: string;
+  /** Description */
+  description: string;
+  /** Author */
+  author: string;
+  /** Creation time (ISO 8601) */
+  creationDate: string;
+  /** Last modification time (ISO 8601) */
+  modifiedDate: string | null;
+  /** Comments, oldest first */
+  comments: BcfComment[];
+  /** Viewpoint the topic is bound to */
+  viewpoint: BcfViewpoint | null;
+}
+
+/**
+ * User input for a new topic
+ */
+export interface BcfTopicDraft {
+  title: string;
+  status: string;
+  assignedTo: string;
+  description: string;
+}
@@ -0,0 +1,56 @@
+/**
+ * Orientation of a section plane
+ * - x / y / z: axis-aligned through the model center
+ * - view: free-oriented, perpendicular to the current view direction
+ */
+export type ClippingPlaneAxis = 'x' | 'y' | 'z' | 'view';
+
+/**
+ * Plain 3D vector (serializable, unlike THREE.Vector3)
+ */
+export interface ClippingVector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Section plane shown in the sidebar
+ * The kept half-space is where normal · point + constant >= 0
+ */
+export interface ClippingPlaneInfo {
+  /** Unique plane identifier */
+  id: string;
+  /** Display label (e.g. "Plane 1 (Y)") */
+  label: string;
+  /** How the plane was created */
+  axis: ClippingPlaneAxis;
+  /** Unit normal pointing into the kept half-space */
+  normal: ClippingVector;
+  /** Plane constant */
+  constant: number;
+  /** Whether the plane cuts the model (hidden planes keep their position) */
+  enabled: boolean;
+}
+
+/**
+ * Section box state (six inward facing planes)
+ */
+export interface SectionBoxInfo {
+  /** Whether the section box cuts the model */
+  enabled: boolean;
+  /** Minimum corner */
+  min: ClippingVector;
+  /** Maximum corner */
+  max: ClippingVector;
+}
+
+/**
+ * Horizontal slice kept by a floor plan (world Y, elements above the top are cut away)
+ */
+export interface PlanCut {
+  /** Lowest visible height */
+  bottom: number;
+  /** Cut height */
+  top: number;
+}
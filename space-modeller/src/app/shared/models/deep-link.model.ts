@@ -0,0 +1,15 @@
+import { ViewpointCamera } from './viewpoint.model';
+
+/**
+ * View state encoded in the query parameters of a shareable link
+ */
+export interface ViewLink {
+  /** URL of a .ifc or .frag file to load */
+  url: string | null;
+  /** Camera state (null keeps the camera framing the loaded models) */
+  camera: ViewpointCamera | null;
+  /** IFC classes hidden in the class filter */
+  hiddenClasses: string[];
+  /** IFC GlobalId of the selected element */
+  selectedGlobalId: string | null;
+}
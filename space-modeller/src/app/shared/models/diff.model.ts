@@ -0,0 +1,110 @@
+import { ElementPropertyValue, ElementReference } from './selection.model';
+
+/**
+ * Change of an element between two revisions of a model
+ * - added: only in the revision
+ * - removed: only in the base
+ * - geometry: moved, resized or reshaped (property changes may come along)
+ * - properties: same geometry, changed attributes, properties, type, material or storey
+ * - unchanged: same geometry and properties
+ */
+export type DiffStatus = 'added' | 'removed' | 'geometry' | 'properties' | 'unchanged';
+
+/**
+ * Bounding box of an element in the coordinates of its IFC file (meters)
+ */
+export interface DiffBox {
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+/**
+ * Size of the triangle mesh of an element, independent of its placement
+ */
+export interface DiffShape {
+  /** Surface area (square meters) */
+  area: number;
+  /** Enclosed volume (cubic meters) */
+  volume: number;
+}
+
+/**
+ * Element of one revision as compared
+ */
+export interface DiffElement {
+  /** IFC GlobalId, matching the element across revisions */
+  globalId: string;
+  ifcClass: string;
+  name: string | null;
+  element: ElementReference;
+  /** Compared values by key (attribute name, Pset.Property, Type, Material or Storey) */
+  properties: Record<string, ElementPropertyValue>;
+  box: DiffBox | null;
+  shape: DiffShape | null;
+}
+
+/**
+ * Value that differs between the revisions
+ */
+export interface DiffPropertyChange {
+  key: string;
+  /** Value in the base (undefined when missing) */
+  before: ElementPropertyValue | undefined;
+  /** Value in the revision (undefined when missing) */
+  after: ElementPropertyValue | undefined;
+}
+
+/**
+ * Element matched by GlobalId with its change
+ */
+export interface DiffEntry {
+  globalId: string;
+  status: DiffStatus;
+  /** IFC class of the revision (of the base when removed) */
+  ifcClass: string;
+  name: string | null;
+  /** Element in the base model */
+  base: ElementReference | null;
+  /** Element in the revision model */
+  revision: ElementReference | null;
+  geometryChanged: boolean;
+  properties: DiffPropertyChange[];
+}
+
+/**
+ * Number of elements by change
+ * Elements with changed geometry and properties count for both
+ */
+export type DiffSummary = Record<DiffStatus, number>;
+
+/**
+ * Filter of the listed changes
+ */
+export interface DiffFilter {
+  statuses: DiffStatus[];
+  /** IFC class, all classes when null */
+  ifcClass: string | null;
+  /** Text searched in the GlobalId, name and class */
+  search: string;
+}
+
+/**
+ * Exported comparison of two revisions
+ */
+export interface DiffReport {
+  /** ISO date of the export */
+  createdAt: string;
+  /** Name of the base model */
+  base: string;
+  /** Name of the revision model */
+  revision: string;
+  summary: DiffSummary;
+  /** Changed elements (unchanged ones are left out) */
+  changes: {
+    globalId: string;
+    status: DiffStatus;
+    ifcClass: string;
+    name: string | null;
+    properties: DiffPropertyChange[];
+  }[];
+}
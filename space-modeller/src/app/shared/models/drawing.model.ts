@@ -0,0 +1,130 @@
+import { Vector3Config } from './viewer.model';
+
+/**
+ * Point of a drawing
+ * Model drawings use meters with y pointing north, sheets use mm with y pointing down
+ */
+export interface DrawingPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Drawing file format
+ */
+export type DrawingFormat = 'svg' | 'pdf';
+
+/**
+ * 2D drawing content in model coordinates (meters)
+ */
+export interface Drawing {
+  /** Cut faces as triangles */
+  cutFills: DrawingPoint[][];
+  /** Cut outlines as line segments */
+  cutEdges: DrawingPoint[][];
+  /** Edges seen beyond the cut as line segments */
+  projectionEdges: DrawingPoint[][];
+}
+
+/**
+ * Labelled field of a title block
+ */
+export interface DrawingDetail {
+  label: string;
+  value: string;
+}
+
+/**
+ * Title block and annotations of a drawing sheet
+ */
+export interface DrawingSheetOptions {
+  /** Drawing title (e.g. storey name) */
+  title: string;
+  /** Second title line (e.g. cut height) */
+  subtitle: string;
+  /** Title block fields (e.g. model and date), followed by the scale */
+  details: DrawingDetail[];
+  /** Clockwise angle in radians from the sheet up direction to true north, null hides the north arrow */
+  northAngle: number | null;
+}
+
+/**
+ * Colors (#rrggbb) and line widths (mm) of a drawing
+ */
+export interface DrawingStyle {
+  cutFill: string;
+  cutStroke: string;
+  cutWidth: number;
+  projectionStroke: string;
+  projectionWidth: number;
+}
+
+/**
+ * Path on a sheet made of one or more polylines
+ */
+export interface SheetPath {
+  /** Polylines in sheet coordinates (mm) */
+  subpaths: DrawingPoint[][];
+  /** Close every polyline */
+  closed: boolean;
+  /** Fill color (#rrggbb) or null */
+  fill: string | null;
+  /** Stroke color (#rrggbb) or null */
+  stroke: string | null;
+  /** Stroke width in mm */
+  strokeWidth: number;
+}
+
+/**
+ * Text on a sheet
+ */
+export interface SheetText {
+  /** Anchor position in mm */
+  x: number;
+  y: number;
+  /** Text content */
+  text: string;
+  /** Font size in mm */
+  size: number;
+  /** Horizontal alignment at the anchor */
+  anchor: 'start' | 'middle' | 'end';
+  /** Bold font */
+  bold: boolean;
+}
+
+/**
+ * Drawing sheet ready to be written as SVG or PDF
+ */
+export interface DrawingSheet {
+  /** Paper size in mm */
+  width: number;
+  height: number;
+  /** Document title */
+  title: string;
+  /** Drawing scale (1:n) */
+  scale: number;
+  /** Paths in drawing order */
+  paths: SheetPath[];
+  /** Texts drawn on top of the paths */
+  texts: SheetText[];
+}
+
+/**
+ * Kind of drawing view
+ */
+export type DrawingViewKind = 'elevation' | 'section';
+
+/**
+ * Elevation or section view of the loaded models
+ */
+export interface DrawingView {
+  /** Unique view identifier (cardinal direction or clipping plane id) */
+  id: string;
+  /** Display name (e.g. "North Elevation") */
+  name: string;
+  kind: DrawingViewKind;
+  /** Unit vector from the models towards the viewer */
+  direction: Vector3Config;
+  /** Clipping plane cutting a section (null for elevations) */
+  planeId: string | null;
+}
@@ -0,0 +1,75 @@
+import { ElementProperties } from './selection.model';
+
+/**
+ * glTF container format
+ * - glb: single binary file
+ * - gltf: JSON file with embedded buffers
+ */
+export type GltfFormat = 'glb' | 'gltf';
+
+/**
+ * Options of a glTF / GLB export of the visible geometry
+ */
+export interface GltfExportOptions {
+  /** Container format */
+  format: GltfFormat;
+  /** Export only the selected element */
+  selectionOnly: boolean;
+  /** Merge the elements of each IFC class into one node per material */
+  mergeByClass: boolean;
+  /** Cut the geometry with the active section planes and section box */
+  applyClipping: boolean;
+  /** Write the IFC attributes, property sets and quantities into the node extras */
+  includeProperties: boolean;
+}
+
+/**
+ * Element schedule file format
+ */
+export type ScheduleFormat = 'csv' | 'xlsx';
+
+/**
+ * Origin of a schedule column
+ * - base: GlobalId, class, name, storey and type
+ * - property: a property of a property set
+ * - quantity: a quantity of a quantity set
+ */
+export type ScheduleColumnSource = 'base' | 'property' | 'quantity';
+
+/**
+ * Column of an element schedule
+ */
+export interface ScheduleColumn {
+  /** Unique key (e.g. globalId or property:Pset_WallCommon.FireRating) */
+  key: string;
+  /** Header text */
+  label: string;
+  /** Origin of the values */
+  source: ScheduleColumnSource;
+}
+
+/**
+ * Element of a schedule with its resolved storey and type
+ */
+export interface ScheduleElement {
+  /** Attributes, property sets and quantities */
+  properties: ElementProperties;
+  /** Name of the containing IfcBuildingStorey */
+  storey: string | null;
+  /** Name of the element type */
+  type: string | null;
+  /** Names of the associated materials */
+  material: string | null;
+}
+
+/**
+ * Options of an element schedule export
+ */
+export interface ScheduleExportOptions {
+  /** File format */
+  format: ScheduleFormat;
+  /** Column keys in output order */
+  columns: string[];
+  /** Leave out the elements of classes hidden in the class filter */
+  excludeHiddenClasses: boolean;
+}
@@ -37,8 +37,26 @@ export enum ModelLoadingStatus {
   PROCESSING = 'processing',
   LOADED = 'loaded',
   FAILED = 'failed',
+  CANCELLED = 'cancelled',
 }
 
+/**
+ * Named stage of loading a model
+ * - reading: reading the file and looking it up in the model library
+ * - parsing: opening the IFC file with web-ifc
+ * - geometry: converting the IFC geometry
+ * - fragments: converting attributes and relations and building the fragments model
+ * - post-processing: setting up the scene, classes, spatial tree and units
+ */
+export type LoadingStage = 'reading' | 'parsing' | 'geometry' | 'fragments' | 'post-processing';
+
+/**
+ * Progress callback of model loading
+ * @param progress - Overall progress (0-100)
+ * @param stage - Stage the progress belongs to
+ */
+export type LoadProgressCallback = (progress: number, stage: LoadingStage) => void;
+
 /**
  * Extended model state with detailed status tracking
  */
@@ -51,6 +69,8 @@ export interface IFCModelState {
   status: ModelLoadingStatus;
   /** Loading progress (0-100) */
   progress: number;
+  /** Current loading stage while loading */
+  stage?: LoadingStage;
   /** Fragment UUID if loaded */
   fragmentUuid?: string;
   /** File size in bytes */
@@ -65,6 +85,8 @@ export interface IFCModelState {
   };
   /** Model statistics */
   stats?: ModelStatistics | null;
+  /** Whether the model is rendered in the viewport (defaults to true) */
+  visible?: boolean;
   /** @deprecated Use status instead - kept for backward compatibility */
   loading?: boolean;
 }
@@ -173,3 +195,10 @@ export interface ExportResult {
   error?: string;
 }
 
+/**
+ * Line of an IFC file read with web-ifc and flattened (referenced lines nested in place)
+ * Attribute values are { type, value } objects, arrays or nested lines
+ */
+export interface IfcLineData {
+  [attribute: string]: unknown;
+}
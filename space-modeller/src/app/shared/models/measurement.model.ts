@@ -0,0 +1,73 @@
+import { ElementReference } from './selection.model';
+
+/**
+ * Measurement tool
+ * - distance: between two points
+ * - polyline: total length of a chain of points
+ * - angle: at the second of three points
+ * - area: of the clicked face
+ * - volume: of the clicked element
+ */
+export type MeasurementType = 'distance' | 'polyline' | 'angle' | 'area' | 'volume';
+
+/**
+ * Geometry feature a measured point snapped to
+ */
+export type MeasurementSnap = 'vertex' | 'edge' | 'face';
+
+/**
+ * Plain 3D point in world space (serializable, unlike THREE.Vector3)
+ */
+export interface MeasurementPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Completed measurement shown in the viewport and in the measurements list
+ */
+export interface Measurement {
+  /** Unique measurement identifier */
+  id: string;
+  /** Measurement tool */
+  type: MeasurementType;
+  /** Display label (e.g. "Distance 1") */
+  label: string;
+  /** Value in SI units (m, m², m³ or rad) */
+  value: number;
+  /** Picked points (the anchor point for areas and volumes) */
+  points: MeasurementPoint[];
+  /** Measured element (areas and volumes) */
+  element?: ElementReference;
+}
+
+/**
+ * Display unit of a measured quantity
+ */
+export interface MeasurementUnit {
+  /** Unit symbol (e.g. mm, m², °) */
+  symbol: string;
+  /** Factor converting the SI value to this unit */
+  factor: number;
+  /** Decimals shown */
+  decimals: number;
+}
+
+/**
+ * Display units of a project, read from its IfcUnitAssignment
+ */
+export interface ProjectUnits {
+  length: MeasurementUnit;
+  area: MeasurementUnit;
+  volume: MeasurementUnit;
+  angle: MeasurementUnit;
+}
+
+/**
+ * Item read from the fragments model or a flattened web-ifc line (IfcUnitAssignment, IfcSIUnit, ...)
+ * Attribute values are { value } objects and relations are arrays of items
+ */
+export interface UnitItemData {
+  [attribute: string]: unknown;
+}
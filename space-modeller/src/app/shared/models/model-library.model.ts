@@ -0,0 +1,50 @@
+import { IFCModelState, ModelStatistics } from './ifc.model';
+
+/**
+ * Converted model stored in the local model library
+ * The fragments data itself is stored separately, keyed by the same hash
+ */
+export interface CachedModel {
+  /** SHA-256 hash of the imported file content */
+  hash: string;
+  /** Name of the imported file */
+  fileName: string;
+  /** Size of the stored fragments data in bytes */
+  dataSize: number;
+  /** Model metadata at the time it was stored */
+  state: IFCModelState;
+  /** Model statistics at the time it was stored */
+  stats: ModelStatistics | null;
+  /** When the model was stored */
+  storedAt: Date;
+  /** When the model was last opened, used for eviction */
+  lastOpenedAt: Date;
+}
+
+/**
+ * Cached model with its fragments data
+ */
+export interface CachedModelData {
+  entry: CachedModel;
+  data: Uint8Array;
+}
+
+/**
+ * Browser storage usage reported by the Storage API
+ */
+export interface StorageQuota {
+  /** Bytes used by this origin */
+  usage: number;
+  /** Bytes available to this origin */
+  quota: number;
+}
+
+/**
+ * Limits of the local model library
+ */
+export interface ModelLibraryLimits {
+  /** Maximum number of stored models */
+  maxEntries: number;
+  /** Maximum total size of stored fragments in bytes */
+  maxBytes: number;
+}
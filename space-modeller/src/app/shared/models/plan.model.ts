@@ -0,0 +1,15 @@
+/**
+ * Building storey that can be shown as a floor plan
+ */
+export interface PlanStorey {
+  /** Spatial tree node key (modelId:localId) */
+  key: string;
+  /** Fragment model UUID */
+  modelId: string;
+  /** Local ID of the IfcBuildingStorey */
+  localId: number;
+  /** Storey name */
+  name: string;
+  /** Storey elevation in world space (meters) */
+  elevation: number;
+}
@@ -0,0 +1,65 @@
+import { ElementReference } from './selection.model';
+
+/**
+ * Comparison operator of a property query
+ * - ~: wildcard match (* and ?), or "contains" without wildcards
+ */
+export type QueryOperator = '=' | '!=' | '~' | '>' | '>=' | '<' | '<=';
+
+/**
+ * Literal value of a property query
+ */
+export type QueryValue = string | number | boolean;
+
+/**
+ * Parsed property query
+ * - class: bare IFC class (e.g. IfcWall)
+ * - comparison: field, operator and value (e.g. Pset_WallCommon.IsExternal = true)
+ */
+export type QueryNode =
+  | { kind: 'and' | 'or'; left: QueryNode; right: QueryNode }
+  | { kind: 'not'; operand: QueryNode }
+  | { kind: 'class'; ifcClass: string }
+  | { kind: 'comparison'; field: string; operator: QueryOperator; value: QueryValue };
+
+/**
+ * What happens to the elements matching a query
+ */
+export type QueryAction = 'isolate' | 'hide' | 'highlight' | 'color';
+
+/**
+ * Number of matching elements of an IFC class
+ */
+export interface QueryClassCount {
+  name: string;
+  count: number;
+}
+
+/**
+ * Elements matching a query and the action applied to them
+ */
+export interface QueryResult {
+  /** Query text */
+  query: string;
+  action: QueryAction;
+  /** Hex color of the color action */
+  color: string;
+  /** Matching elements */
+  elements: ElementReference[];
+  /** Matches per IFC class, sorted by class name */
+  classCounts: QueryClassCount[];
+}
+
+/**
+ * Query saved by a user
+ */
+export interface SavedQuery {
+  /** Unique identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Query text */
+  query: string;
+  /** Creation time (ISO 8601) */
+  createdAt: string;
+}
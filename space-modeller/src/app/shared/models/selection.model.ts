@@ -0,0 +1,54 @@
+/**
+ * Reference to a single IFC element inside a loaded fragments model
+ */
+export interface ElementReference {
+  /** Fragment model UUID */
+  modelId: string;
+  /** Local ID of the item (the IFC expressID) */
+  localId: number;
+}
+
+/**
+ * Primitive value of an IFC attribute or property
+ */
+export type ElementPropertyValue = string | number | boolean | null;
+
+/**
+ * Single attribute, property or quantity of an element
+ */
+export interface ElementProperty {
+  /** Property name */
+  name: string;
+  /** Property value */
+  value: ElementPropertyValue;
+  /** IFC value type (e.g. IFCLABEL, IFCLENGTHMEASURE) */
+  type?: string;
+}
+
+/**
+ * Property set (IfcPropertySet) or quantity set (IfcElementQuantity)
+ */
+export interface ElementPropertySet {
+  /** Set name (e.g. Pset_WallCommon, Qto_WallBaseQuantities) */
+  name: string;
+  /** Properties or quantities contained in the set */
+  properties: ElementProperty[];
+}
+
+/**
+ * Properties of a picked element shown in the properties inspector
+ */
+export interface ElementProperties extends ElementReference {
+  /** IFC GlobalId */
+  globalId: string | null;
+  /** Element name */
+  name: string | null;
+  /** IFC class (e.g. IfcWall) */
+  ifcClass: string;
+  /** Direct attributes of the element */
+  attributes: ElementProperty[];
+  /** Property sets */
+  propertySets: ElementPropertySet[];
+  /** Quantity sets */
+  quantitySets: ElementPropertySet[];
+}
@@ -0,0 +1,142 @@
+import { ElementReference } from './selection.model';
+import { DrawingPoint } from './drawing.model';
+
+/**
+ * Area, volume and perimeter of a space (null when unknown)
+ */
+export interface SpaceQuantities {
+  netFloorArea: number | null;
+  grossFloorArea: number | null;
+  volume: number | null;
+  perimeter: number | null;
+}
+
+/**
+ * Quantity of a space
+ */
+export type SpaceQuantityKey = keyof SpaceQuantities;
+
+/**
+ * Row of the room schedule
+ */
+export interface SpaceRow extends ElementReference {
+  /** IFC GlobalId */
+  globalId: string | null;
+  /** Room number or short name (IfcSpace.Name) */
+  name: string | null;
+  /** Full room name (IfcSpace.LongName) */
+  longName: string | null;
+  /** Usage (IfcSpace.ObjectType) */
+  usage: string | null;
+  /** Name of the containing IfcBuildingStorey */
+  storey: string | null;
+  /** Quantities in meters */
+  quantities: SpaceQuantities;
+  /** Number of occupants (Pset_SpaceOccupancyRequirements.OccupancyNumber) */
+  occupancy: number | null;
+  /** Quantities computed from the geometry because the quantity sets lack them */
+  computed: SpaceQuantityKey[];
+}
+
+/**
+ * Values of a space of the IFC file changed in the room schedule (values left out are kept)
+ */
+export interface SpaceEdit {
+  /** Room number or short name (IfcSpace.Name) */
+  name?: string;
+  /** Full room name (IfcSpace.LongName) */
+  longName?: string;
+  /** Usage (IfcSpace.ObjectType) */
+  usage?: string;
+  /** Quantities in meters */
+  quantities?: Partial<Record<SpaceQuantityKey, number>>;
+}
+
+/**
+ * Edited space of the IFC file as written back
+ */
+export interface EditedSpace {
+  /** IFC GlobalId of the IfcSpace */
+  globalId: string;
+  edit: SpaceEdit;
+}
+
+/**
+ * Sums of the room schedule (unknown values count as zero)
+ */
+export interface SpaceTotals {
+  count: number;
+  netFloorArea: number;
+  grossFloorArea: number;
+  volume: number;
+}
+
+/**
+ * Tool of the space authoring mode
+ * - draw: click the corners of a room, click the first corner again to close it
+ * - detect: click inside a room enclosed by walls
+ * - split: click two points of a line across a room
+ */
+export type SpaceAuthoringTool = 'draw' | 'detect' | 'split';
+
+/**
+ * Space drawn on a storey plan, extruded from the storey elevation
+ */
+export interface AuthoredSpace {
+  id: string;
+  /** Fragment model UUID of the storey (not stored, spaces are stored per model file) */
+  modelId: string;
+  /** Storey name */
+  storey: string;
+  /** GlobalId of the IfcBuildingStorey */
+  storeyGlobalId: string | null;
+  /** Room number (IfcSpace.Name) */
+  number: string;
+  /** Room name (IfcSpace.LongName) */
+  name: string;
+  /** Usage (IfcSpace.ObjectType) */
+  usage: string;
+  /** Floor outline in plan coordinates (meters, y north), counter-clockwise */
+  outline: DrawingPoint[];
+  /** Floor elevation in world space (meters) */
+  elevation: number;
+  /** Extrusion height (meters) */
+  height: number;
+  createdAt: string;
+}
+
+/**
+ * Editable fields of an authored space
+ */
+export type AuthoredSpaceChanges = Partial<Pick<AuthoredSpace, 'number' | 'name' | 'usage' | 'height'>>;
+
+/**
+ * Quantity of Qto_SpaceBaseQuantities written for an authored space
+ */
+export interface SpaceBaseQuantity {
+  name: string;
+  /** Measure of the value, which selects the IfcQuantityLength, Area or Volume entity */
+  measure: 'length' | 'area' | 'volume';
+  /** Value in meters, square meters or cubic meters */
+  value: number;
+}
+
+/**
+ * Edited quantity of Qto_SpaceBaseQuantities
+ */
+export interface EditedSpaceQuantity extends SpaceBaseQuantity {
+  /** Quantities of the set holding the value (the value is added under the first name when the set has none) */
+  names: readonly string[];
+}
+
+/**
+ * Floor outline of an authored space relative to the placement of its storey (file length units)
+ */
+export interface SpaceProfile {
+  /** Height of the floor above the storey placement */
+  elevation: number;
+  /** Counter-clockwise outline in the XY plane of the storey placement */
+  points: DrawingPoint[];
+  /** Extrusion depth */
+  depth: number;
+}
@@ -0,0 +1,37 @@
+/**
+ * Kind of node in the spatial structure tree
+ * - model: one root per loaded model
+ * - spatial: IfcProject, IfcSite, IfcBuilding, IfcBuildingStorey, IfcSpace...
+ * - group: elements of one IFC class contained in a spatial node
+ * - element: a single IFC element
+ */
+export type SpatialNodeKind = 'model' | 'spatial' | 'group' | 'element';
+
+/**
+ * Node of the spatial structure tree
+ */
+export interface SpatialNode {
+  /** Unique key across all models */
+  key: string;
+  /** Fragment model UUID */
+  modelId: string;
+  /** Local ID (expressID), null for model and group nodes */
+  localId: number | null;
+  /** Display name */
+  name: string;
+  /** IFC class (e.g. IfcBuildingStorey) */
+  ifcClass: string;
+  /** Node kind */
+  kind: SpatialNodeKind;
+  /** Local IDs of every item in this subtree (used for visibility and framing) */
+  itemIds: number[];
+  /** Number of elements in this subtree */
+  elementCount: number;
+  /** Child nodes */
+  children: SpatialNode[];
+}
+
+/**
+ * Visibility of a tree node derived from its items
+ */
+export type SpatialNodeVisibility = 'visible' | 'hidden' | 'partial';
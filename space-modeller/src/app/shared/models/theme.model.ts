@@ -0,0 +1,68 @@
+import { ElementReference } from './selection.model';
+
+/**
+ * What the elements are colored by
+ * - property: one color per distinct value of a property, quantity or attribute
+ * - range: numeric value ranges of a property (e.g. U-value)
+ */
+export type ThemeMode = 'class' | 'storey' | 'material' | 'property' | 'range';
+
+/**
+ * Numeric value range of a range theme (min inclusive, max inclusive for the last range)
+ */
+export interface ThemeRange {
+  min: number;
+  max: number;
+  color: string;
+}
+
+/**
+ * Options of a thematic view
+ */
+export interface ThemeOptions {
+  mode: ThemeMode;
+  /** Property of the property and range modes (e.g. Pset_WallCommon.FireRating) */
+  field: string | null;
+  /** Number of ranges of the range mode */
+  rangeCount: number;
+  /** Colors of values that override the generated ones */
+  colors: Record<string, string>;
+  /** Ranges that override the generated ones (range mode) */
+  ranges: ThemeRange[];
+}
+
+/**
+ * Elements sharing a value and its color
+ */
+export interface ThemeGroup {
+  /** Value or range label ("No value" for elements without one) */
+  label: string;
+  color: string;
+  elements: ElementReference[];
+  /** Range of the group (range mode) */
+  range?: ThemeRange;
+}
+
+/**
+ * Entry of the generated legend
+ */
+export interface ThemeLegendEntry {
+  label: string;
+  color: string;
+  count: number;
+}
+
+/**
+ * Color mapping saved as a JSON preset
+ */
+export interface ThemePreset {
+  /** Preset format version */
+  version: number;
+  name: string;
+  mode: ThemeMode;
+  field: string | null;
+  /** Colors by value label */
+  colors: Record<string, string>;
+  /** Ranges of the range mode */
+  ranges: ThemeRange[];
+}
@@ -9,6 +9,23 @@ export interface Vector3Config {
   z: number;
 }
 
+/**
+ * Camera projection of the viewport
+ */
+export type CameraType = 'perspective' | 'orthographic';
+
+/**
+ * 90° view rotation requested from the orientation cube
+ * - left / right: turn around the vertical axis through the orbit target
+ * - up / down: tilt towards the top / bottom view
+ */
+export type ViewRotation = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * Compass direction of a horizontal view (project north is the IFC +Y axis)
+ */
+export type CardinalDirection = 'north' | 'south' | 'east' | 'west';
+
 /**
  * Configuration interface for the IFC viewer
  */
@@ -0,0 +1,67 @@
+import { CameraType, Vector3Config } from './viewer.model';
+import { ClippingPlaneInfo, SectionBoxInfo } from './clipping.model';
+
+/**
+ * Camera state of a viewpoint
+ */
+export interface ViewpointCamera {
+  /** Camera projection */
+  type: CameraType;
+  /** Camera position */
+  position: Vector3Config;
+  /** Orbit target */
+  target: Vector3Config;
+  /**
+   * Orthographic zoom relative to the frustum fitted to the target distance
+   * (1 for perspective viewpoints)
+   */
+  zoom: number;
+}
+
+/**
+ * Section planes and section box of a viewpoint
+ */
+export interface ViewpointClipping {
+  planes: ClippingPlaneInfo[];
+  sectionBox: SectionBoxInfo;
+}
+
+/**
+ * Named review position with the camera, section and visibility state
+ * Plain JSON so it can be stored in local storage and shared as a file
+ */
+export interface Viewpoint {
+  /** Unique viewpoint identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Creation time (ISO 8601) */
+  createdAt: string;
+  /** Camera state */
+  camera: ViewpointCamera;
+  /** IFC classes hidden in the class filter */
+  hiddenClasses: string[];
+  /** IFC GlobalId of the selected element */
+  selectedGlobalId: string | null;
+  /** Section planes and section box */
+  clipping: ViewpointClipping;
+}
+
+/**
+ * Visibility, selection and section state of a viewpoint (everything except the camera)
+ */
+export type ViewpointState = Pick<Viewpoint, 'name' | 'hiddenClasses' | 'selectedGlobalId' | 'clipping'>;
+
+/**
+ * Exported viewpoints file
+ */
+export interface ViewpointsFile {
+  /** Format marker */
+  format: string;
+  /** File format version */
+  version: number;
+  /** Name of the model the viewpoints were saved for */
+  model: string;
+  /** Saved viewpoints */
+  viewpoints: Viewpoint[];
+}
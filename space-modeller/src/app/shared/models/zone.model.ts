@@ -0,0 +1,96 @@
+import { ElementReference } from './selection.model';
+
+/**
+ * Where a zone is defined
+ * - model: IfcZone of a loaded model
+ * - import: row of an imported CSV mapping
+ */
+export type ZoneSource = 'model' | 'import';
+
+/**
+ * Group of spaces such as a department, fire compartment or HVAC zone
+ */
+export interface Zone {
+  /** Category and name key (model zones add their model UUID) */
+  id: string;
+  /** Zone name (IfcZone.Name) */
+  name: string;
+  /** Kind of grouping (IfcZone.ObjectType, e.g. Department or Fire compartment) */
+  category: string;
+  color: string;
+  /** Room numbers of the grouped spaces (IfcSpace.Name) */
+  spaceNumbers: string[];
+  source: ZoneSource;
+  /** Fragment model UUID of a model zone */
+  modelId: string | null;
+}
+
+/**
+ * Space that can be grouped, from the room schedule or the authored rooms
+ */
+export interface ZoneSpace {
+  /** Room number (IfcSpace.Name) */
+  number: string;
+  /** IfcSpace of a loaded model */
+  element: ElementReference | null;
+  /** ID of an authored room */
+  authoredId: string | null;
+  /** Net floor area (gross when unknown) in square meters */
+  area: number | null;
+  /** Number of occupants */
+  occupancy: number | null;
+}
+
+/**
+ * Row of the zone totals
+ */
+export interface ZoneRow {
+  zone: Zone;
+  /** Spaces of the zone found in the loaded models and authored rooms */
+  spaces: ZoneSpace[];
+  /** Sum of the floor areas (unknown areas count as zero) */
+  area: number;
+  /** Sum of the occupants (unknown occupancy counts as zero) */
+  occupancy: number;
+  /** Room numbers of the zone without a space */
+  missing: string[];
+}
+
+/**
+ * Sums of the zone totals (spaces in several zones count once)
+ */
+export interface ZoneTotals {
+  zoneCount: number;
+  spaceCount: number;
+  area: number;
+  occupancy: number;
+}
+
+/**
+ * Line of an imported zone mapping
+ */
+export interface ZoneAssignment {
+  spaceNumber: string;
+  zone: string;
+  category: string;
+  /** Occupancy of the space, overriding the one of the model */
+  occupancy: number | null;
+}
+
+/**
+ * Imported zones with the occupancy of their spaces, as stored
+ */
+export interface ZoneMapping {
+  zones: Zone[];
+  /** Occupancy by room number */
+  occupancy: Record<string, number>;
+}
+
+/**
+ * Result of reading a zone mapping file
+ */
+export interface ZoneImport {
+  assignments: ZoneAssignment[];
+  /** Rows without a space number or zone (1-based, empty lines not counted) */
+  skipped: number[];
+}
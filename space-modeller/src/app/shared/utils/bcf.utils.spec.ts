@@ -0,0 +1,266 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import {
+  bytesToDataUrl,
+  dataUrlToBytes,
+  fromBcfCamera,
+  fromBcfClippingPlanes,
+  fromIfcVector,
+  getBcfTargetDistance,
+  readBcfMarkup,
+  readBcfViewpoint,
+  readBcfZip,
+  resolveBcfVisibility,
+  toBcfCamera,
+  toBcfClippingPlanes,
+  toIfcVector,
+  writeBcfMarkup,
+  writeBcfVersion,
+  writeBcfViewpoint,
+  writeBcfZip,
+} from './bcf.utils';
+import { BcfTopic } from '../models/bcf.model';
+
+describe('BCF Utils', () => {
+  // 1×1 transparent PNG
+  const snapshot =
+    'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+  const topic = (): BcfTopic => ({
+    guid: 'topic-1',
+    title: 'Clash <wall> & duct',
+    type: 'Issue',
+    status: 'Open',
+    assignedTo: 'mep@example.com',
+    description: 'Duct runs through the wall',
+    author: 'arch@example.com',
+    creationDate: '2024-01-01T00:00:00.000Z',
+    modifiedDate: null,
+    comments: [{ guid: 'comment-1', comment: 'Please reroute', author: 'arch@example.com', date: '2024-01-02T00:00:00.000Z' }],
+    viewpoint: {
+      guid: 'viewpoint-1',
+      camera: {
+        type: 'perspective',
+        position: { x: 10, y: 5, z: 10 },
+        direction: { x: -1, y: 0, z: 0 },
+        up: { x: 0, y: 1, z: 0 },
+        fieldOfView: 60,
+        viewToWorldScale: 1,
+        aspectRatio: 1.5,
+      },
+      selection: ['2O2Fr$t4X7Zf8NOew3FLOH'],
+      defaultVisibility: true,
+      exceptions: ['1hOSvn6df7F8_7GcBWlS2Q'],
+      clippingPlanes: [{ location: { x: 0, y: 2, z: 0 }, direction: { x: 0, y: 1, z: 0 } }],
+      snapshot,
+    },
+  });
+
+  describe('coordinates', () => {
+    it('should convert between viewer (Y-up) and IFC (Z-up) coordinates', () => {
+      expect(toIfcVector({ x: 1, y: 2, z: 3 })).toEqual({ x: 1, y: -3, z: 2 });
+      expect(fromIfcVector(toIfcVector({ x: 1, y: 2, z: 3 }))).toEqual({ x: 1, y: 2, z: 3 });
+    });
+  });
+
+  describe('cameras', () => {
+    it('should convert an orbit camera to a BCF camera and back', () => {
+      const camera = toBcfCamera(
+        { type: 'orthographic', position: { x: 0, y: 10, z: 0 }, target: { x: 0, y: 0, z: 0 }, zoom: 2 },
+        60,
+        1.5
+      );
+
+      expect(camera.direction).toEqual({ x: 0, y: -1, z: 0 });
+      expect(camera.up).toEqual({ x: 0, y: 0, z: -1 });
+      expect(camera.viewToWorldScale).toBe(2.5);
+
+      const restored = fromBcfCamera(camera, 10);
+      expect(restored.target).toEqual({ x: 0, y: 0, z: 0 });
+      expect(restored.zoom).toBe(2);
+    });
+
+    it('should place the orbit target in front of the model center', () => {
+      const camera = topic().viewpoint!.camera!;
+
+      expect(getBcfTargetDistance(camera, { x: 2, y: 0, z: 0 }, 10)).toBe(8);
+      expect(getBcfTargetDistance(camera, { x: 20, y: 0, z: 0 }, 10)).toBe(10);
+      expect(getBcfTargetDistance(camera, null, 10)).toBe(10);
+    });
+
+    it('should keep the up vector perpendicular to the view direction', () => {
+      const camera = toBcfCamera(
+        { type: 'perspective', position: { x: 10, y: 10, z: 10 }, target: { x: 0, y: 0, z: 0 }, zoom: 1 },
+        60,
+        1
+      );
+
+      const { direction, up } = camera;
+      expect(direction.x * up.x + direction.y * up.y + direction.z * up.z).toBeCloseTo(0);
+      expect(up.y).toBeGreaterThan(0);
+    });
+  });
+
+  describe('clipping planes', () => {
+    it('should point BCF planes into the clipped half-space', () => {
+      const planes = toBcfClippingPlanes(
+        [{ id: 'p1', label: 'Plane 1 (Y)', axis: 'y', normal: { x: 0, y: -1, z: 0 }, constant: 2, enabled: true }],
+        { enabled: false, min: { x: 0, y: 0, z: 0 }, max: { x: 0, y: 0, z: 0 } }
+      );
+
+      expect(planes.length).toBe(1);
+      expect(planes[0]!.location.y).toBe(2);
+      expect(planes[0]!.direction.y).toBe(1);
+    });
+
+    it('should restore six box planes as the section box', () => {
+      const box = { enabled: true, min: { x: -1, y: -2, z: -3 }, max: { x: 1, y: 2, z: 3 } };
+      const plane = { id: 'p1', label: 'Plane 1 (X)', axis: 'x' as const, normal: { x: -1, y: 0, z: 0 }, constant: 0.5, enabled: true };
+
+      const clipping = fromBcfClippingPlanes(toBcfClippingPlanes([plane], box));
+
+      expect(clipping.sectionBox).toEqual(box);
+      expect(clipping.planes.length).toBe(1);
+      expect(clipping.planes[0]!.axis).toBe('x');
+      expect(clipping.planes[0]!.normal.x).toBeCloseTo(-1);
+      expect(clipping.planes[0]!.constant).toBeCloseTo(0.5);
+    });
+
+    it('should keep free planes as view planes', () => {
+      const clipping = fromBcfClippingPlanes([{ location: { x: 0, y: 0, z: 0 }, direction: { x: 1, y: 1, z: 0 } }]);
+
+      expect(clipping.planes[0]!.axis).toBe('view');
+      expect(clipping.sectionBox.enabled).toBe(false);
+    });
+  });
+
+  describe('resolveBcfVisibility', () => {
+    const classItems = new Map([
+      ['IfcWall', new Map([['m1', [1, 2]]])],
+      ['IfcDoor', new Map([['m1', [3, 4]]])],
+    ]);
+
+    it('should hide fully listed classes and single exceptions', () => {
+      const result = resolveBcfVisibility(
+        classItems,
+        [
+          { modelId: 'm1', localId: 1 },
+          { modelId: 'm1', localId: 2 },
+          { modelId: 'm1', localId: 3 },
+        ],
+        true
+      );
+
+      expect(result.hiddenClasses).toEqual(['IfcWall']);
+      expect(result.hiddenItems.get('m1')).toEqual([3]);
+    });
+
+    it('should only show the listed elements without default visibility', () => {
+      const result = resolveBcfVisibility(classItems, [{ modelId: 'm1', localId: 4 }], false);
+
+      expect(result.hiddenClasses).toEqual(['IfcWall']);
+      expect(result.hiddenItems.get('m1')).toEqual([3]);
+    });
+  });
+
+  describe('data URLs', () => {
+    it('should round-trip bytes', () => {
+      const bytes = dataUrlToBytes(snapshot);
+
+      expect(bytes[1]).toBe(0x50); // "P" of the PNG signature
+      expect(bytesToDataUrl(bytes, 'image/png')).toBe(snapshot);
+    });
+  });
+
+  describe('XML', () => {
+    it('should write the version file of each BCF version', () => {
+      expect(writeBcfVersion('2.1')).toContain('<Version VersionId="2.1"><DetailedVersion>2.1</DetailedVersion></Version>');
+      expect(writeBcfVersion('3.0')).toContain('<Version VersionId="3.0"/>');
+    });
+
+    it('should escape text and place comments by version', () => {
+      const markup21 = writeBcfMarkup(topic(), '2.1');
+      const markup30 = writeBcfMarkup(topic(), '3.0');
+
+      expect(markup21).toContain('<Title>Clash &lt;wall&gt; &amp; duct</Title>');
+      expect(markup21).toContain('</Topic><Comment Guid="comment-1">');
+      expect(markup21).toContain('<Viewpoints Guid="viewpoint-1"><Viewpoint>viewpoint.bcfv</Viewpoint>');
+      expect(markup30).toContain('<Comments><Comment Guid="comment-1">');
+      expect(markup30).toContain('<Viewpoints><ViewPoint Guid="viewpoint-1">');
+    });
+
+    it('should read the markup of both versions', () => {
+      (['2.1', '3.0'] as const).forEach((version) => {
+        const markup = readBcfMarkup(writeBcfMarkup(topic(), version));
+
+        expect(markup.topic.title).toBe('Clash <wall> & duct');
+        expect(markup.topic.status).toBe('Open');
+        expect(markup.topic.assignedTo).toBe('mep@example.com');
+        expect(markup.topic.comments).toEqual(topic().comments);
+        expect(markup.viewpointGuid).toBe('viewpoint-1');
+        expect(markup.viewpointFile).toBe('viewpoint.bcfv');
+        expect(markup.snapshotFile).toBe('snapshot.png');
+      });
+    });
+
+    it('should write cameras in IFC coordinates and read them back', () => {
+      const viewpoint = topic().viewpoint!;
+      const xml = writeBcfViewpoint(viewpoint, '3.0');
+
+      expect(xml).toContain('<CameraViewPoint><X>10</X><Y>-10</Y><Z>5</Z></CameraViewPoint>');
+      expect(xml).toContain('<AspectRatio>1.5</AspectRatio>');
+      expect(writeBcfViewpoint(viewpoint, '2.1')).not.toContain('AspectRatio');
+
+      const read = readBcfViewpoint(xml, 'fallback');
+      expect(read.guid).toBe('viewpoint-1');
+      expect(read.camera!.position).toEqual({ x: 10, y: 5, z: 10 });
+      expect(read.camera!.fieldOfView).toBe(60);
+      expect(read.selection).toEqual(viewpoint.selection);
+      expect(read.defaultVisibility).toBe(true);
+      expect(read.exceptions).toEqual(viewpoint.exceptions);
+      expect(read.clippingPlanes.length).toBe(1);
+    });
+
+    it('should treat viewpoints without visibility as fully visible', () => {
+      const read = readBcfViewpoint('<VisualizationInfo Guid="v"><Components/></VisualizationInfo>', 'v');
+
+      expect(read.camera).toBeNull();
+      expect(read.defaultVisibility).toBe(true);
+      expect(read.exceptions).toEqual([]);
+    });
+  });
+
+  describe('bcfzip', () => {
+    it('should write one folder per topic with its snapshot', () => {
+      const files = unzipSync(writeBcfZip([topic()], '2.1'));
+
+      expect(Object.keys(files)).toContain('bcf.version');
+      expect(Object.keys(files)).toContain('topic-1/markup.bcf');
+      expect(Object.keys(files)).toContain('topic-1/viewpoint.bcfv');
+      expect(files['topic-1/snapshot.png'].length).toBeGreaterThan(0);
+      expect(files['extensions.xml']).toBeUndefined();
+    });
+
+    it('should round-trip topics', () => {
+      (['2.1', '3.0'] as const).forEach((version) => {
+        const result = readBcfZip(writeBcfZip([topic()], version));
+
+        expect(result.version).toBe(version);
+        expect(result.topics.length).toBe(1);
+        expect(result.topics[0]!.title).toBe('Clash <wall> & duct');
+        expect(result.topics[0]!.viewpoint!.snapshot).toBe(snapshot);
+      });
+    });
+
+    it('should reject unsupported versions', () => {
+      const data = zipSync({ 'bcf.version': strToU8('<Version VersionId="1.0"/>') });
+
+      expect(() => readBcfZip(data)).toThrowError('Unsupported BCF version: 1.0');
+    });
+
+    it('should write the extensions of BCF 3.0', () => {
+      const files = unzipSync(writeBcfZip([topic()], '3.0'));
+
+      expect(strFromU8(files['extensions.xml'])).toContain('<TopicStatus>Open</TopicStatus>');
+    });
+  });
+});
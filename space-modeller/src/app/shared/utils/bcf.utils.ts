@@ -0,0 +1,646 @@
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from 'fflate';
+import { BcfCamera, BcfClippingPlane, BcfTopic, BcfVersion, BcfViewpoint } from '../models/bcf.model';
+import { ClippingPlaneAxis, ClippingPlaneInfo, SectionBoxInfo } from '../models/clipping.model';
+import { ElementReference } from '../models/selection.model';
+import { Vector3Config } from '../models/viewer.model';
+import { ViewpointCamera, ViewpointClipping } from '../models/viewpoint.model';
+
+/**
+ * BCF (BIM Collaboration Format) utility functions
+ *
+ * Reads and writes BCF 2.1 and 3.0 .bcfzip archives. Topics are kept in viewer
+ * coordinates (Y-up); BCF files use IFC coordinates (Z-up), so vectors are
+ * converted when the XML is written and read.
+ */
+
+const AXES: Record<'x' | 'y' | 'z', Vector3Config> = {
+  x: { x: 1, y: 0, z: 0 },
+  y: { x: 0, y: 1, z: 0 },
+  z: { x: 0, y: 0, z: 1 },
+};
+
+const ALIGNED_EPSILON = 1e-6;
+
+function dot(a: Vector3Config, b: Vector3Config): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function scale(v: Vector3Config, factor: number): Vector3Config {
+  return { x: v.x * factor, y: v.y * factor, z: v.z * factor };
+}
+
+function normalize(v: Vector3Config): Vector3Config {
+  const length = Math.sqrt(dot(v, v));
+  return length > 0 ? scale(v, 1 / length) : { x: 0, y: 0, z: 0 };
+}
+
+/**
+ * Convert a viewer (Y-up) vector to IFC (Z-up) coordinates
+ */
+export function toIfcVector(v: Vector3Config): Vector3Config {
+  return { x: v.x, y: -v.z, z: v.y };
+}
+
+/**
+ * Convert an IFC (Z-up) vector to viewer (Y-up) coordinates
+ */
+export function fromIfcVector(v: Vector3Config): Vector3Config {
+  return { x: v.x, y: v.z, z: -v.y };
+}
+
+/**
+ * Build the BCF camera of a viewpoint camera
+ * @param camera - Viewpoint camera (orbit position and target)
+ * @param fieldOfView - Vertical field of view of the perspective camera in degrees
+ * @param aspectRatio - Width / height of the view
+ */
+export function toBcfCamera(camera: ViewpointCamera, fieldOfView: number, aspectRatio: number): BcfCamera {
+  const offset = {
+    x: camera.target.x - camera.position.x,
+    y: camera.target.y - camera.position.y,
+    z: camera.target.z - camera.position.z,
+  };
+  const distance = Math.sqrt(dot(offset, offset));
+  const direction = normalize(offset);
+
+  // Up vector perpendicular to the view direction, as close to the world up as possible
+  let up = normalize({ x: -direction.x * direction.y, y: 1 - direction.y * direction.y, z: -direction.z * direction.y });
+  if (dot(up, up) === 0) {
+    up = { x: 0, y: 0, z: -1 };
+  }
+
+  return {
+    type: camera.type,
+    position: { ...camera.position },
+    direction,
+    up,
+    fieldOfView,
+    // The relative zoom is measured against a frustum half as high as the target distance
+    viewToWorldScale: (distance * 0.5) / camera.zoom,
+    aspectRatio,
+  };
+}
+
+/**
+ * Build a viewpoint camera from a BCF camera
+ * BCF cameras have no orbit target, so it is placed along the view direction
+ * @param camera - BCF camera
+ * @param targetDistance - Distance from the camera to the orbit target
+ */
+export function fromBcfCamera(camera: BcfCamera, targetDistance: number): ViewpointCamera {
+  const direction = normalize(camera.direction);
+
+  return {
+    type: camera.type,
+    position: { ...camera.position },
+    target: {
+      x: camera.position.x + direction.x * targetDistance,
+      y: camera.position.y + direction.y * targetDistance,
+      z: camera.position.z + direction.z * targetDistance,
+    },
+    zoom: camera.type === 'orthographic' ? (targetDistance * 0.5) / camera.viewToWorldScale : 1,
+  };
+}
+
+/**
+ * Orbit target distance for a BCF camera
+ * @param camera - BCF camera
+ * @param center - Center of the loaded models (null without models)
+ * @param fallback - Distance used if the center is unknown or behind the camera
+ * @returns Distance from the camera to the center projected on the view direction
+ */
+export function getBcfTargetDistance(camera: BcfCamera, center: Vector3Config | null, fallback: number): number {
+  if (!center) {
+    return fallback;
+  }
+
+  const distance = dot(
+    { x: center.x - camera.position.x, y: center.y - camera.position.y, z: center.z - camera.position.z },
+    normalize(camera.direction)
+  );
+  return distance > 0 ? distance : fallback;
+}
+
+/**
+ * Convert section planes and the section box to BCF clipping planes
+ * Disabled planes are skipped; an enabled section box becomes six planes
+ */
+export function toBcfClippingPlanes(planes: ClippingPlaneInfo[], sectionBox: SectionBoxInfo): BcfClippingPlane[] {
+  const clippingPlanes = planes
+    .filter((plane) => plane.enabled)
+    .map((plane) => {
+      const normal = normalize(plane.normal);
+      return { location: scale(normal, -plane.constant), direction: scale(normal, -1) };
+    });
+
+  if (sectionBox.enabled) {
+    (['x', 'y', 'z'] as const).forEach((axis) => {
+      clippingPlanes.push(
+        { location: { ...sectionBox.min }, direction: scale(AXES[axis], -1) },
+        { location: { ...sectionBox.max }, direction: { ...AXES[axis] } }
+      );
+    });
+  }
+
+  return clippingPlanes;
+}
+
+/**
+ * Convert BCF clipping planes to section planes
+ * Six axis-aligned planes enclosing a box are restored as the section box
+ */
+export function fromBcfClippingPlanes(clippingPlanes: BcfClippingPlane[]): ViewpointClipping {
+  const planes = clippingPlanes.map((clippingPlane) => {
+    const normal = scale(normalize(clippingPlane.direction), -1);
+    const axis = (['x', 'y', 'z'] as const).find(
+      (candidate) => Math.abs(Math.abs(dot(normal, AXES[candidate])) - 1) < ALIGNED_EPSILON
+    );
+    return {
+      normal,
+      constant: -dot(normal, clippingPlane.location),
+      axis: (axis ?? 'view') as ClippingPlaneAxis,
+    };
+  });
+
+  // Pairs of opposite axis-aligned planes: min where the normal is +axis, max where it is -axis.
+  // Searched from the end because exported box planes follow the section planes.
+  const reversed = [...planes].reverse();
+  const [x, y, z] = (['x', 'y', 'z'] as const).map((axis) => {
+    const min = reversed.find((plane) => plane.axis === axis && dot(plane.normal, AXES[axis]) > 0);
+    const max = reversed.find((plane) => plane.axis === axis && dot(plane.normal, AXES[axis]) < 0);
+    return min && max && -min.constant < max.constant ? { min, max } : null;
+  });
+
+  let sectionBox: SectionBoxInfo = { enabled: false, min: { x: 0, y: 0, z: 0 }, max: { x: 0, y: 0, z: 0 } };
+  let remaining = planes;
+
+  if (x && y && z) {
+    sectionBox = {
+      enabled: true,
+      min: { x: -x.min.constant, y: -y.min.constant, z: -z.min.constant },
+      max: { x: x.max.constant, y: y.max.constant, z: z.max.constant },
+    };
+    const boxPlanes = [x, y, z].flatMap((pair) => [pair.min, pair.max]);
+    remaining = planes.filter((plane) => !boxPlanes.includes(plane));
+  }
+
+  return {
+    planes: remaining.map((plane, index) => ({
+      id: crypto.randomUUID(),
+      label: `Plane ${index + 1} (${plane.axis === 'view' ? 'View' : plane.axis.toUpperCase()})`,
+      axis: plane.axis,
+      normal: plane.normal,
+      constant: plane.constant,
+      enabled: true,
+    })),
+    sectionBox,
+  };
+}
+
+/**
+ * Hidden classes and elements for a BCF visibility state
+ * Classes without visible elements are hidden as a whole; the other hidden elements
+ * are returned individually.
+ * @param classItems - Local IDs of each IFC class, per model
+ * @param exceptions - Elements listed in the visibility exceptions
+ * @param defaultVisibility - Whether elements are visible unless listed
+ */
+export function resolveBcfVisibility(
+  classItems: Map<string, Map<string, number[]>>,
+  exceptions: ElementReference[],
+  defaultVisibility: boolean
+): { hiddenClasses: string[]; hiddenItems: Map<string, number[]> } {
+  const listed = new Set(exceptions.map((element) => `${element.modelId}:${element.localId}`));
+  const hiddenClasses: string[] = [];
+  const hiddenItems = new Map<string, number[]>();
+
+  classItems.forEach((items, className) => {
+    const hidden = new Map<string, number[]>();
+    let visibleCount = 0;
+
+    items.forEach((localIds, modelId) => {
+      const hiddenIds = localIds.filter((localId) => listed.has(`${modelId}:${localId}`) === defaultVisibility);
+      visibleCount += localIds.length - hiddenIds.length;
+      if (hiddenIds.length > 0) {
+        hidden.set(modelId, hiddenIds);
+      }
+    });
+
+    if (visibleCount === 0) {
+      hiddenClasses.push(className);
+      return;
+    }
+
+    hidden.forEach((localIds, modelId) => {
+      hiddenItems.set(modelId, [...(hiddenItems.get(modelId) ?? []), ...localIds]);
+    });
+  });
+
+  return { hiddenClasses, hiddenItems };
+}
+
+/**
+ * Convert a data URL to bytes
+ */
+export function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Convert bytes to a data URL
+ */
+export function bytesToDataUrl(bytes: Uint8Array, mimeType: string): string {
+  let binary = '';
+  // Chunked to stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+// ---------------------------------------------------------------------------
+// XML writing
+// ---------------------------------------------------------------------------
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function element(name: string, content: string | string[] = [], attributes: Record<string, string> = {}): string {
+  const attributeText = Object.entries(attributes)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+  const body = Array.isArray(content) ? content.join('') : escapeXml(content);
+  return body ? `<${name}${attributeText}>${body}</${name}>` : `<${name}${attributeText}/>`;
+}
+
+function vectorElement(name: string, v: Vector3Config): string {
+  const ifc = toIfcVector(v);
+  return element(name, [element('X', String(ifc.x)), element('Y', String(ifc.y)), element('Z', String(ifc.z))]);
+}
+
+function componentsElement(name: string, guids: string[]): string {
+  return guids.length > 0 ? element(name, guids.map((guid) => element('Component', [], { IfcGuid: guid }))) : '';
+}
+
+/**
+ * Write bcf.version
+ */
+export function writeBcfVersion(version: BcfVersion): string {
+  return (
+    XML_DECLARATION +
+    (version === '2.1'
+      ? element('Version', [element('DetailedVersion', '2.1')], { VersionId: '2.1' })
+      : element('Version', [], { VersionId: '3.0' }))
+  );
+}
+
+/**
+ * Write extensions.xml (BCF 3.0) with the types, statuses and users of the topics
+ */
+export function writeBcfExtensions(topics: BcfTopic[]): string {
+  const unique = (values: string[]) => Array.from(new Set(values.filter((value) => value)));
+  const list = (name: string, itemName: string, values: string[]) =>
+    values.length > 0 ? element(name, values.map((value) => element(itemName, value))) : '';
+
+  return (
+    XML_DECLARATION +
+    element('Extensions', [
+      list('TopicTypes', 'TopicType', unique(topics.map((topic) => topic.type))),
+      list('TopicStatuses', 'TopicStatus', unique(topics.map((topic) => topic.status))),
+      list(
+        'Users',
+        'User',
+        unique(topics.flatMap((topic) => [topic.author, topic.assignedTo, ...topic.comments.map((c) => c.author)]))
+      ),
+    ])
+  );
+}
+
+/**
+ * Write the markup.bcf of a topic
+ * @param topic - Topic
+ * @param version - BCF version (2.1 keeps comments and viewpoints next to the topic, 3.0 inside it)
+ */
+export function writeBcfMarkup(topic: BcfTopic, version: BcfVersion): string {
+  const viewpointGuid = topic.viewpoint?.guid;
+  const viewpointFiles = topic.viewpoint
+    ? [element('Viewpoint', 'viewpoint.bcfv'), topic.viewpoint.snapshot ? element('Snapshot', 'snapshot.png') : '']
+    : [];
+
+  const comments = topic.comments.map((comment) =>
+    element(
+      'Comment',
+      [
+        element('Date', comment.date),
+        element('Author', comment.author),
+        element('Comment', comment.comment),
+        viewpointGuid ? element('Viewpoint', [], { Guid: viewpointGuid }) : '',
+      ],
+      { Guid: comment.guid }
+    )
+  );
+
+  const topicContent = [
+    element('Title', topic.title),
+    element('CreationDate', topic.creationDate),
+    element('CreationAuthor', topic.author),
+    topic.modifiedDate ? element('ModifiedDate', topic.modifiedDate) : '',
+    topic.assignedTo ? element('AssignedTo', topic.assignedTo) : '',
+    topic.description ? element('Description', topic.description) : '',
+  ];
+  const topicAttributes = { Guid: topic.guid, TopicType: topic.type, TopicStatus: topic.status };
+
+  if (version === '2.1') {
+    return (
+      XML_DECLARATION +
+      element('Markup', [
+        element('Topic', topicContent, topicAttributes),
+        ...comments,
+        viewpointGuid ? element('Viewpoints', viewpointFiles, { Guid: viewpointGuid }) : '',
+      ])
+    );
+  }
+
+  return (
+    XML_DECLARATION +
+    element('Markup', [
+      element(
+        'Topic',
+        [
+          ...topicContent,
+          comments.length > 0 ? element('Comments', comments) : '',
+          viewpointGuid ? element('Viewpoints', [element('ViewPoint', viewpointFiles, { Guid: viewpointGuid })]) : '',
+        ],
+        topicAttributes
+      ),
+    ])
+  );
+}
+
+/**
+ * Write the viewpoint.bcfv (visualization info) of a viewpoint
+ */
+export function writeBcfViewpoint(viewpoint: BcfViewpoint, version: BcfVersion): string {
+  const camera = viewpoint.camera;
+  let cameraElement = '';
+
+  if (camera) {
+    const cameraContent = [
+      vectorElement('CameraViewPoint', camera.position),
+      vectorElement('CameraDirection', camera.direction),
+      vectorElement('CameraUpVector', camera.up),
+      camera.type === 'orthographic'
+        ? element('ViewToWorldScale', String(camera.viewToWorldScale))
+        : element('FieldOfView', String(camera.fieldOfView)),
+      version === '3.0' ? element('AspectRatio', String(camera.aspectRatio)) : '',
+    ];
+    cameraElement = element(camera.type === 'orthographic' ? 'OrthogonalCamera' : 'PerspectiveCamera', cameraContent);
+  }
+
+  const clippingPlanes = viewpoint.clippingPlanes.map((plane) =>
+    element('ClippingPlane', [vectorElement('Location', plane.location), vectorElement('Direction', plane.direction)])
+  );
+
+  return (
+    XML_DECLARATION +
+    element(
+      'VisualizationInfo',
+      [
+        element('Components', [
+          componentsElement('Selection', viewpoint.selection),
+          element('Visibility', [componentsElement('Exceptions', viewpoint.exceptions)], {
+            DefaultVisibility: String(viewpoint.defaultVisibility),
+          }),
+        ]),
+        cameraElement,
+        clippingPlanes.length > 0 ? element('ClippingPlanes', clippingPlanes) : '',
+      ],
+      { Guid: viewpoint.guid }
+    )
+  );
+}
+
+/**
+ * Write a .bcfzip archive
+ * Each topic is stored in a folder named by its GUID with its markup, viewpoint and snapshot
+ * @param topics - Topics to export
+ * @param version - BCF version
+ */
+export function writeBcfZip(topics: BcfTopic[], version: BcfVersion): Uint8Array {
+  const files: Zippable = { 'bcf.version': strToU8(writeBcfVersion(version)) };
+
+  if (version === '3.0') {
+    files['extensions.xml'] = strToU8(writeBcfExtensions(topics));
+  }
+
+  topics.forEach((topic) => {
+    const folder: Zippable = { 'markup.bcf': strToU8(writeBcfMarkup(topic, version)) };
+    if (topic.viewpoint) {
+      folder['viewpoint.bcfv'] = strToU8(writeBcfViewpoint(topic.viewpoint, version));
+      if (topic.viewpoint.snapshot) {
+        // PNG data is already compressed
+        folder['snapshot.png'] = [dataUrlToBytes(topic.viewpoint.snapshot), { level: 0 }];
+      }
+    }
+    files[topic.guid] = folder;
+  });
+
+  return zipSync(files);
+}
+
+// ---------------------------------------------------------------------------
+// XML reading
+// ---------------------------------------------------------------------------
+
+function parseXml(text: string, fileName: string): Document {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Invalid XML in ${fileName}`);
+  }
+  return document;
+}
+
+function children(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter((child) => child.localName === name);
+}
+
+function child(parent: Element | undefined, name: string): Element | undefined {
+  return parent ? children(parent, name)[0] : undefined;
+}
+
+function childText(parent: Element | undefined, name: string): string {
+  return child(parent, name)?.textContent?.trim() ?? '';
+}
+
+function descendants(parent: Element | Document, name: string): Element[] {
+  return Array.from(parent.getElementsByTagName('*')).filter((node) => node.localName === name);
+}
+
+function readVector(parent: Element | undefined, name: string): Vector3Config {
+  const vector = child(parent, name);
+  return fromIfcVector({
+    x: Number(childText(vector, 'X')) || 0,
+    y: Number(childText(vector, 'Y')) || 0,
+    z: Number(childText(vector, 'Z')) || 0,
+  });
+}
+
+function readGuids(parent: Element | undefined): string[] {
+  return parent
+    ? children(parent, 'Component')
+        .map((component) => component.getAttribute('IfcGuid') ?? '')
+        .filter((guid) => guid)
+    : [];
+}
+
+/**
+ * Read the version of a bcf.version file
+ * @returns Version ID (e.g. "2.1")
+ */
+export function readBcfVersion(text: string): string {
+  return parseXml(text, 'bcf.version').documentElement.getAttribute('VersionId') ?? '';
+}
+
+/**
+ * Read a viewpoint.bcfv (visualization info)
+ * @param text - XML text
+ * @param guid - Viewpoint GUID from the markup (used if the file has none)
+ */
+export function readBcfViewpoint(text: string, guid: string): BcfViewpoint {
+  const root = parseXml(text, 'viewpoint.bcfv').documentElement;
+  const components = child(root, 'Components');
+  const visibility = child(components, 'Visibility');
+  const perspective = child(root, 'PerspectiveCamera');
+  const orthogonal = child(root, 'OrthogonalCamera');
+  const cameraElement = perspective ?? orthogonal;
+
+  let camera: BcfCamera | null = null;
+  if (cameraElement) {
+    camera = {
+      type: perspective ? 'perspective' : 'orthographic',
+      position: readVector(cameraElement, 'CameraViewPoint'),
+      direction: readVector(cameraElement, 'CameraDirection'),
+      up: readVector(cameraElement, 'CameraUpVector'),
+      fieldOfView: Number(childText(cameraElement, 'FieldOfView')) || 60,
+      viewToWorldScale: Number(childText(cameraElement, 'ViewToWorldScale')) || 1,
+      aspectRatio: Number(childText(cameraElement, 'AspectRatio')) || 1,
+    };
+  }
+
+  return {
+    guid: root.getAttribute('Guid') || guid,
+    camera,
+    selection: readGuids(child(components, 'Selection')),
+    // Without a visibility element everything is visible; the schema default of the attribute is false
+    defaultVisibility: visibility ? visibility.getAttribute('DefaultVisibility') === 'true' : true,
+    exceptions: readGuids(child(visibility, 'Exceptions')),
+    clippingPlanes: children(child(root, 'ClippingPlanes') ?? root, 'ClippingPlane').map((plane) => ({
+      location: readVector(plane, 'Location'),
+      direction: readVector(plane, 'Direction'),
+    })),
+    snapshot: null,
+  };
+}
+
+/**
+ * Read the markup.bcf of a topic (without the viewpoint contents)
+ * Comments and viewpoints are read both from the topic (3.0) and the markup (2.1)
+ * @returns Topic and the file names of its first viewpoint
+ */
+export function readBcfMarkup(text: string): {
+  topic: BcfTopic;
+  viewpointGuid: string | null;
+  viewpointFile: string | null;
+  snapshotFile: string | null;
+} {
+  const document = parseXml(text, 'markup.bcf');
+  const topicElement = descendants(document, 'Topic')[0];
+  if (!topicElement) {
+    throw new Error('Markup without a topic');
+  }
+
+  const comments = descendants(document, 'Comment')
+    .filter((comment) => comment.hasAttribute('Guid'))
+    .map((comment) => ({
+      guid: comment.getAttribute('Guid') ?? '',
+      comment: childText(comment, 'Comment'),
+      author: childText(comment, 'Author'),
+      date: childText(comment, 'Date'),
+    }));
+
+  // 2.1: <Viewpoints Guid>, 3.0: <Viewpoints><ViewPoint Guid>
+  const viewpointElement = [...descendants(document, 'Viewpoints'), ...descendants(document, 'ViewPoint')].find(
+    (viewpoint) => viewpoint.hasAttribute('Guid')
+  );
+
+  return {
+    topic: {
+      guid: topicElement.getAttribute('Guid') ?? crypto.randomUUID(),
+      title: childText(topicElement, 'Title') || 'Untitled',
+      type: topicElement.getAttribute('TopicType') ?? '',
+      status: topicElement.getAttribute('TopicStatus') ?? '',
+      assignedTo: childText(topicElement, 'AssignedTo'),
+      description: childText(topicElement, 'Description'),
+      author: childText(topicElement, 'CreationAuthor'),
+      creationDate: childText(topicElement, 'CreationDate'),
+      modifiedDate: childText(topicElement, 'ModifiedDate') || null,
+      comments,
+      viewpoint: null,
+    },
+    viewpointGuid: viewpointElement?.getAttribute('Guid') ?? null,
+    viewpointFile: viewpointElement ? childText(viewpointElement, 'Viewpoint') || 'viewpoint.bcfv' : null,
+    snapshotFile: viewpointElement ? childText(viewpointElement, 'Snapshot') || null : null,
+  };
+}
+
+/**
+ * Read a .bcfzip archive
+ * @param data - Archive contents
+ * @returns Topics with their first viewpoint and snapshot
+ * @throws Error if the archive is not a BCF 2.x / 3.x file
+ */
+export function readBcfZip(data: Uint8Array): { version: string; topics: BcfTopic[] } {
+  const files = unzipSync(data);
+  const versionFile = files['bcf.version'];
+  const version = versionFile ? readBcfVersion(strFromU8(versionFile)) : '2.1';
+
+  if (!/^[23]\./.test(version)) {
+    throw new Error(`Unsupported BCF version: ${version}`);
+  }
+
+  const topics = Object.keys(files)
+    .filter((path) => /^[^/]+\/markup\.bcf$/.test(path))
+    .sort()
+    .map((path) => {
+      const folder = path.slice(0, path.indexOf('/') + 1);
+      const markup = readBcfMarkup(strFromU8(files[path]));
+      const viewpointData = markup.viewpointFile ? files[folder + markup.viewpointFile] : undefined;
+
+      if (viewpointData) {
+        const snapshotData = markup.snapshotFile ? files[folder + markup.snapshotFile] : undefined;
+        markup.topic.viewpoint = {
+          ...readBcfViewpoint(strFromU8(viewpointData), markup.viewpointGuid ?? crypto.randomUUID()),
+          snapshot: snapshotData
+            ? bytesToDataUrl(snapshotData, /\.jpe?g$/i.test(markup.snapshotFile!) ? 'image/jpeg' : 'image/png')
+            : null,
+        };
+      }
+
+      return markup.topic;
+    });
+
+  return { version, topics };
+}
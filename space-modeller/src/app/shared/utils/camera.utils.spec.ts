@@ -0,0 +1,139 @@
+import * as THREE from 'three';
+import {
+  easeInOutCubic,
+  getCardinalLabel,
+  getCubeRegion,
+  getCubeRegionBox,
+  getViewPosition,
+  interpolateOrbit,
+  rotateOrbit,
+} from './camera.utils';
+
+describe('Camera Utils', () => {
+  const origin = new THREE.Vector3(0, 0, 0);
+
+  describe('getCubeRegion', () => {
+    it('should snap the middle of a face to the face', () => {
+      expect(getCubeRegion(new THREE.Vector3(0.1, -0.2, 0.5), 0.2).toArray()).toEqual([0, 0, 1]);
+      expect(getCubeRegion(new THREE.Vector3(0, 0.5, 0), 0.2).toArray()).toEqual([0, 1, 0]);
+    });
+
+    it('should snap points near one border to the edge', () => {
+      expect(getCubeRegion(new THREE.Vector3(0.45, 0, 0.5), 0.2).toArray()).toEqual([1, 0, 1]);
+    });
+
+    it('should snap points near two borders to the corner', () => {
+      expect(getCubeRegion(new THREE.Vector3(-0.4, 0.45, 0.5), 0.2).toArray()).toEqual([-1, 1, 1]);
+    });
+  });
+
+  describe('getCubeRegionBox', () => {
+    it('should cover the inner square of a face', () => {
+      const box = getCubeRegionBox(new THREE.Vector3(0, 0, 1), 0.2);
+
+      expect(box.min.toArray()).toEqual([-0.3, -0.3, 0.3]);
+      expect(box.max.toArray()).toEqual([0.3, 0.3, 0.5]);
+    });
+
+    it('should cover a corner', () => {
+      const box = getCubeRegionBox(new THREE.Vector3(-1, 1, 1), 0.2);
+
+      expect(box.min.toArray()).toEqual([-0.5, 0.3, 0.3]);
+      expect(box.max.toArray()).toEqual([-0.3, 0.5, 0.5]);
+    });
+  });
+
+  describe('getViewPosition', () => {
+    it('should place the camera along the direction at the distance', () => {
+      const position = getViewPosition(new THREE.Vector3(1, 2, 3), new THREE.Vector3(1, 0, 1), 10);
+
+      expect(position.distanceTo(new THREE.Vector3(1, 2, 3))).toBeCloseTo(10);
+      expect(position.x).toBeCloseTo(1 + 10 / Math.SQRT2);
+      expect(position.y).toBeCloseTo(2);
+    });
+
+    it('should tilt top views towards the front', () => {
+      const position = getViewPosition(origin, new THREE.Vector3(0, 1, 0), 10);
+
+      expect(position.y).toBeCloseTo(10);
+      expect(position.z).toBeGreaterThan(0);
+      expect(position.x).toBe(0);
+    });
+  });
+
+  describe('rotateOrbit', () => {
+    const front = new THREE.Vector3(0, 0, 10);
+
+    it('should turn around the vertical axis', () => {
+      const left = rotateOrbit(front, origin, 'left');
+      const right = rotateOrbit(front, origin, 'right');
+
+      expect(left.x).toBeCloseTo(-10);
+      expect(left.z).toBeCloseTo(0);
+      expect(right.x).toBeCloseTo(10);
+    });
+
+    it('should tilt up to the top view and stop at the vertical', () => {
+      const top = rotateOrbit(front, origin, 'up');
+
+      expect(top.y).toBeCloseTo(10);
+      expect(rotateOrbit(top, origin, 'up').y).toBeCloseTo(10);
+    });
+
+    it('should keep the distance to the target', () => {
+      const target = new THREE.Vector3(5, 5, 5);
+
+      expect(rotateOrbit(new THREE.Vector3(5, 5, 15), target, 'down').distanceTo(target)).toBeCloseTo(10);
+    });
+  });
+
+  describe('interpolateOrbit', () => {
+    const from = { position: new THREE.Vector3(0, 0, 10), target: origin };
+    const to = { position: new THREE.Vector3(20, 0, 0), target: new THREE.Vector3(0, 0, 0) };
+
+    it('should return the start and end views', () => {
+      expect(interpolateOrbit(from, to, 0).position.toArray()).toEqual([0, 0, 10]);
+
+      const end = interpolateOrbit(from, to, 1).position;
+      expect(end.x).toBeCloseTo(20);
+      expect(end.z).toBeCloseTo(0);
+    });
+
+    it('should swing around the target instead of cutting through it', () => {
+      const middle = interpolateOrbit(from, to, 0.5).position;
+
+      expect(middle.length()).toBeCloseTo(15);
+      expect(middle.x).toBeCloseTo(middle.z);
+    });
+
+    it('should move the target linearly', () => {
+      const moved = { position: new THREE.Vector3(10, 0, 10), target: new THREE.Vector3(10, 0, 0) };
+
+      expect(interpolateOrbit(from, moved, 0.5).target.x).toBeCloseTo(5);
+    });
+  });
+
+  describe('easeInOutCubic', () => {
+    it('should ease between 0 and 1', () => {
+      expect(easeInOutCubic(0)).toBe(0);
+      expect(easeInOutCubic(0.5)).toBe(0.5);
+      expect(easeInOutCubic(1)).toBe(1);
+      expect(easeInOutCubic(0.25)).toBeLessThan(0.25);
+      expect(easeInOutCubic(2)).toBe(1);
+    });
+  });
+
+  describe('getCardinalLabel', () => {
+    it('should label the views from project north (world -Z)', () => {
+      expect(getCardinalLabel({ x: 0, y: 0, z: -1 })).toBe('N');
+      expect(getCardinalLabel({ x: 0, y: 0, z: 1 })).toBe('S');
+      expect(getCardinalLabel({ x: 1, y: 0, z: 0 })).toBe('E');
+      expect(getCardinalLabel({ x: -1, y: 0, z: 0 })).toBe('W');
+    });
+
+    it('should not label other directions', () => {
+      expect(getCardinalLabel({ x: 0, y: 1, z: 0 })).toBeNull();
+      expect(getCardinalLabel({ x: 1, y: 0, z: 1 })).toBeNull();
+    });
+  });
+});
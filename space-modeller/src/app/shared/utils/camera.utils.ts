@@ -0,0 +1,169 @@
+import * as THREE from 'three';
+import { CARDINAL_DIRECTIONS } from '../constants/viewer.constants';
+import { Vector3Config, ViewRotation } from '../models/viewer.model';
+
+/**
+ * Camera navigation utility functions for the orientation cube
+ *
+ * View directions point from the orbit target towards the camera and use the
+ * cube axis mapping: +Z front (S), -Z back (N), +X right (E), -X left (W), +Y top.
+ */
+
+/**
+ * Polar angle kept between a top/bottom view and the vertical axis
+ * OrbitControls cannot look exactly along its up axis
+ */
+const VERTICAL_VIEW_OFFSET = 1e-3;
+
+/**
+ * Snap a point on the unit cube to the face, edge or corner it belongs to
+ * @param point - Point in cube coordinates (each component in [-0.5, 0.5])
+ * @param edgeSize - Width of the edge and corner regions as a fraction of the cube size
+ * @returns Region direction with components -1, 0 or 1
+ */
+export function getCubeRegion(point: THREE.Vector3, edgeSize: number): THREE.Vector3 {
+  const limit = 0.5 - edgeSize;
+  const snap = (value: number) => (Math.abs(value) >= limit ? Math.sign(value) : 0);
+
+  return new THREE.Vector3(snap(point.x), snap(point.y), snap(point.z));
+}
+
+/**
+ * Box covering a face, edge or corner region of the unit cube
+ * @param region - Region direction from getCubeRegion
+ * @param edgeSize - Width of the edge and corner regions as a fraction of the cube size
+ * @returns Region box in cube coordinates
+ */
+export function getCubeRegionBox(region: THREE.Vector3, edgeSize: number): THREE.Box3 {
+  const range = (component: number): [number, number] => {
+    if (component > 0) return [0.5 - edgeSize, 0.5];
+    if (component < 0) return [-0.5, -0.5 + edgeSize];
+    return [-0.5 + edgeSize, 0.5 - edgeSize];
+  };
+
+  const [minX, maxX] = range(region.x);
+  const [minY, maxY] = range(region.y);
+  const [minZ, maxZ] = range(region.z);
+
+  return new THREE.Box3(new THREE.Vector3(minX, minY, minZ), new THREE.Vector3(maxX, maxY, maxZ));
+}
+
+/**
+ * Camera position looking at a target from a direction
+ * Top and bottom views are tilted slightly towards the front so the front stays at the bottom of the screen
+ * @param target - Orbit target
+ * @param direction - View direction (target → camera)
+ * @param distance - Distance from the target
+ * @returns Camera position
+ */
+export function getViewPosition(
+  target: THREE.Vector3,
+  direction: THREE.Vector3,
+  distance: number
+): THREE.Vector3 {
+  const offset = direction.clone().normalize();
+
+  if (Math.abs(offset.x) < VERTICAL_VIEW_OFFSET && Math.abs(offset.z) < VERTICAL_VIEW_OFFSET) {
+    offset.set(0, Math.sign(offset.y) || 1, VERTICAL_VIEW_OFFSET).normalize();
+  }
+
+  return target.clone().add(offset.multiplyScalar(distance));
+}
+
+/**
+ * Orbit a camera position by 90° around the target
+ * - left / right turn around the vertical axis
+ * - up / down tilt towards the top / bottom view, stopping at the vertical
+ * @param position - Camera position
+ * @param target - Orbit target
+ * @param rotation - Rotation direction
+ * @returns New camera position
+ */
+export function rotateOrbit(
+  position: THREE.Vector3,
+  target: THREE.Vector3,
+  rotation: ViewRotation
+): THREE.Vector3 {
+  const spherical = new THREE.Spherical().setFromVector3(position.clone().sub(target));
+  const quarter = Math.PI / 2;
+
+  switch (rotation) {
+    case 'left':
+      spherical.theta -= quarter;
+      break;
+    case 'right':
+      spherical.theta += quarter;
+      break;
+    case 'up':
+      spherical.phi -= quarter;
+      break;
+    case 'down':
+      spherical.phi += quarter;
+      break;
+  }
+
+  spherical.phi = THREE.MathUtils.clamp(
+    spherical.phi,
+    VERTICAL_VIEW_OFFSET,
+    Math.PI - VERTICAL_VIEW_OFFSET
+  );
+
+  return target.clone().add(new THREE.Vector3().setFromSpherical(spherical));
+}
+
+/**
+ * Interpolate between two orbit views
+ * The target moves linearly while the camera swings around it
+ * @param from - Start camera position and target
+ * @param to - End camera position and target
+ * @param t - Progress (0-1)
+ * @returns Interpolated camera position and target
+ */
+export function interpolateOrbit(
+  from: { position: THREE.Vector3; target: THREE.Vector3 },
+  to: { position: THREE.Vector3; target: THREE.Vector3 },
+  t: number
+): { position: THREE.Vector3; target: THREE.Vector3 } {
+  const fromOffset = from.position.clone().sub(from.target);
+  const toOffset = to.position.clone().sub(to.target);
+  const target = from.target.clone().lerp(to.target, t);
+
+  const fromLength = fromOffset.length();
+  const toLength = toOffset.length();
+  if (fromLength === 0 || toLength === 0) {
+    return { position: from.position.clone().lerp(to.position, t), target };
+  }
+
+  const rotation = new THREE.Quaternion().setFromUnitVectors(
+    fromOffset.clone().divideScalar(fromLength),
+    toOffset.clone().divideScalar(toLength)
+  );
+  const offset = fromOffset
+    .applyQuaternion(new THREE.Quaternion().slerp(rotation, t))
+    .setLength(THREE.MathUtils.lerp(fromLength, toLength, t));
+
+  return { position: target.clone().add(offset), target };
+}
+
+/**
+ * Ease-in-out cubic curve for camera animations
+ * @param t - Linear progress (0-1)
+ * @returns Eased progress (0-1)
+ */
+export function easeInOutCubic(t: number): number {
+  const clamped = THREE.MathUtils.clamp(t, 0, 1);
+  return clamped < 0.5 ? 4 * clamped ** 3 : 1 - (-2 * clamped + 2) ** 3 / 2;
+}
+
+/**
+ * Compass label of a horizontal view direction
+ * @param direction - View direction (target → camera)
+ * @returns N, S, E or W, or null if the direction is not a compass direction
+ */
+export function getCardinalLabel(direction: Vector3Config): string | null {
+  const [x, y, z] = [direction.x, direction.y, direction.z].map(Math.sign);
+  const cardinal = Object.values(CARDINAL_DIRECTIONS).find(
+    ({ direction: compass }) => compass.x === x && compass.y === y && compass.z === z
+  );
+  return cardinal?.label ?? null;
+}
@@ -0,0 +1,98 @@
+import * as THREE from 'three';
+import {
+  createAxisPlane,
+  createSectionBoxPlanes,
+  createViewPlane,
+  fitSectionBox,
+  getAxisDragOffset,
+  getPlaneOffsetRange,
+  toClippingVector,
+} from './clipping.utils';
+
+describe('Clipping Utils', () => {
+  const box = new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(10, 4, 6));
+
+  describe('toClippingVector', () => {
+    it('should convert a vector to a plain object', () => {
+      expect(toClippingVector(new THREE.Vector3(1, 2, 3))).toEqual({ x: 1, y: 2, z: 3 });
+    });
+  });
+
+  describe('createAxisPlane', () => {
+    it('should create a horizontal cut through the box center keeping the lower half', () => {
+      const plane = createAxisPlane('y', box);
+
+      expect(plane.normal.y).toBe(-1);
+      expect(plane.distanceToPoint(new THREE.Vector3(5, 2, 3))).toBeCloseTo(0);
+      expect(plane.distanceToPoint(new THREE.Vector3(5, 1, 3))).toBeGreaterThan(0);
+      expect(plane.distanceToPoint(new THREE.Vector3(5, 3, 3))).toBeLessThan(0);
+    });
+
+    it('should create vertical cuts along x and z', () => {
+      expect(createAxisPlane('x', box).distanceToPoint(new THREE.Vector3(5, 0, 0))).toBeCloseTo(0);
+      expect(createAxisPlane('z', box).distanceToPoint(new THREE.Vector3(0, 0, 3))).toBeCloseTo(0);
+    });
+  });
+
+  describe('createViewPlane', () => {
+    it('should cut away everything between the camera and the point', () => {
+      const plane = createViewPlane(new THREE.Vector3(0, 0, -5), new THREE.Vector3(0, 0, 0));
+
+      expect(plane.normal.z).toBe(-1);
+      expect(plane.distanceToPoint(new THREE.Vector3(0, 0, 2))).toBeLessThan(0);
+      expect(plane.distanceToPoint(new THREE.Vector3(0, 0, -2))).toBeGreaterThan(0);
+    });
+  });
+
+  describe('fitSectionBox', () => {
+    it('should pad the box by a fraction of its size', () => {
+      const fitted = fitSectionBox(box, 0.1);
+
+      expect(fitted.min.x).toBeCloseTo(-1);
+      expect(fitted.min.y).toBeCloseTo(-0.4);
+      expect(fitted.max.z).toBeCloseTo(6.6);
+      expect(box.min.x).toBe(0);
+    });
+  });
+
+  describe('createSectionBoxPlanes', () => {
+    it('should create six planes keeping the inside of the box', () => {
+      const planes = createSectionBoxPlanes(box);
+      const inside = new THREE.Vector3(5, 2, 3);
+      const outside = new THREE.Vector3(5, 5, 3);
+
+      expect(planes.length).toBe(6);
+      expect(planes.every((p) => p.distanceToPoint(inside) > 0)).toBe(true);
+      expect(planes.some((p) => p.distanceToPoint(outside) < 0)).toBe(true);
+      expect(planes[3]!.distanceToPoint(new THREE.Vector3(0, 4, 0))).toBeCloseTo(0);
+    });
+  });
+
+  describe('getPlaneOffsetRange', () => {
+    it('should return the offsets of the box extremes along the normal', () => {
+      const down = getPlaneOffsetRange(new THREE.Vector3(0, -1, 0), box);
+      const right = getPlaneOffsetRange(new THREE.Vector3(1, 0, 0), box);
+
+      expect(down.min).toBeCloseTo(-4);
+      expect(down.max).toBeCloseTo(0);
+      expect(right.min).toBeCloseTo(0);
+      expect(right.max).toBeCloseTo(10);
+    });
+  });
+
+  describe('getAxisDragOffset', () => {
+    it('should return the axis position closest to the ray', () => {
+      const ray = new THREE.Ray(new THREE.Vector3(3, 10, 0), new THREE.Vector3(0, -1, 0));
+
+      const offset = getAxisDragOffset(ray, new THREE.Vector3(0, 0, 0), new THREE.Vector3(1, 0, 0));
+
+      expect(offset).toBeCloseTo(3);
+    });
+
+    it('should return null for rays parallel to the axis', () => {
+      const ray = new THREE.Ray(new THREE.Vector3(0, 1, 0), new THREE.Vector3(1, 0, 0));
+
+      expect(getAxisDragOffset(ray, new THREE.Vector3(), new THREE.Vector3(1, 0, 0))).toBeNull();
+    });
+  });
+});
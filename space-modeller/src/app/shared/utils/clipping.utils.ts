@@ -0,0 +1,126 @@
+import * as THREE from 'three';
+import { ClippingVector } from '../models/clipping.model';
+
+/**
+ * Section plane and section box utility functions
+ *
+ * Planes follow the THREE.Plane convention: the kept half-space is where
+ * normal · point + constant >= 0, everything on the other side is cut away.
+ */
+
+const AXIS_VECTORS = {
+  x: new THREE.Vector3(1, 0, 0),
+  y: new THREE.Vector3(0, 1, 0),
+  z: new THREE.Vector3(0, 0, 1),
+} as const;
+
+/**
+ * Convert a THREE.Vector3 to a plain serializable vector
+ */
+export function toClippingVector(vector: THREE.Vector3): ClippingVector {
+  return { x: vector.x, y: vector.y, z: vector.z };
+}
+
+/**
+ * Create an axis-aligned plane through the center of a box
+ * The kept half-space is the lower side of the axis (e.g. below a horizontal cut)
+ * @param axis - Axis the plane is perpendicular to
+ * @param box - Box the plane is centered in
+ * @returns Section plane
+ */
+export function createAxisPlane(axis: 'x' | 'y' | 'z', box: THREE.Box3): THREE.Plane {
+  const normal = AXIS_VECTORS[axis].clone().negate();
+  return new THREE.Plane().setFromNormalAndCoplanarPoint(normal, box.getCenter(new THREE.Vector3()));
+}
+
+/**
+ * Create a free-oriented plane perpendicular to a view direction
+ * Everything between the camera and the point is cut away
+ * @param direction - View direction (camera → target)
+ * @param point - Point on the plane (usually the orbit target)
+ * @returns Section plane
+ */
+export function createViewPlane(direction: THREE.Vector3, point: THREE.Vector3): THREE.Plane {
+  return new THREE.Plane().setFromNormalAndCoplanarPoint(direction.clone().normalize(), point);
+}
+
+/**
+ * Grow a box by a fraction of its size so the section box does not touch the model
+ * @param box - Model bounding box
+ * @param padding - Fraction of the box size added on each side
+ * @returns New padded box
+ */
+export function fitSectionBox(box: THREE.Box3, padding: number): THREE.Box3 {
+  const size = box.getSize(new THREE.Vector3());
+  return box.clone().expandByVector(size.multiplyScalar(padding));
+}
+
+/**
+ * Create the six inward facing planes of a section box
+ * Order: min x, max x, min y, max y, min z, max z
+ * @param box - Section box
+ * @returns Six section planes
+ */
+export function createSectionBoxPlanes(box: THREE.Box3): THREE.Plane[] {
+  const planes: THREE.Plane[] = [];
+  for (const axis of ['x', 'y', 'z'] as const) {
+    const normal = AXIS_VECTORS[axis];
+    planes.push(new THREE.Plane(normal.clone(), -box.min[axis]));
+    planes.push(new THREE.Plane(normal.clone().negate(), box.max[axis]));
+  }
+  return planes;
+}
+
+/**
+ * Get the range of plane offsets (distance along the normal) that intersect a box
+ * @param normal - Unit plane normal
+ * @param box - Box the plane moves through
+ * @returns Min and max offset, where offset = -constant
+ */
+export function getPlaneOffsetRange(
+  normal: THREE.Vector3,
+  box: THREE.Box3
+): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+  const corner = new THREE.Vector3();
+
+  for (let i = 0; i < 8; i++) {
+    corner.set(
+      i & 1 ? box.max.x : box.min.x,
+      i & 2 ? box.max.y : box.min.y,
+      i & 4 ? box.max.z : box.min.z
+    );
+    const offset = normal.dot(corner);
+    min = Math.min(min, offset);
+    max = Math.max(max, offset);
+  }
+
+  return { min, max };
+}
+
+/**
+ * Get the position along an axis that is closest to a ray (used to drag handles)
+ * @param ray - Pointer ray
+ * @param origin - Point on the axis
+ * @param direction - Unit axis direction
+ * @returns Signed distance from the origin along the axis or null if the ray is parallel
+ */
+export function getAxisDragOffset(
+  ray: THREE.Ray,
+  origin: THREE.Vector3,
+  direction: THREE.Vector3
+): number | null {
+  // Closest points between two lines: origin + t * direction and ray.origin + s * ray.direction
+  const w = origin.clone().sub(ray.origin);
+  const b = direction.dot(ray.direction);
+  const denominator = 1 - b * b;
+
+  if (Math.abs(denominator) < 1e-6) {
+    return null;
+  }
+
+  const d = direction.dot(w);
+  const e = ray.direction.dot(w);
+  return (b * e - d) / denominator;
+}
@@ -0,0 +1,68 @@
+import { encodeCsv, parseCsv, toCsv, toCsvField } from './csv.utils';
+
+describe('CSV Utils', () => {
+  describe('toCsvField', () => {
+    it('should keep plain values as they are', () => {
+      expect(toCsvField('Wall')).toBe('Wall');
+      expect(toCsvField(2.5)).toBe('2.5');
+      expect(toCsvField(true)).toBe('true');
+    });
+
+    it('should write null as an empty field', () => {
+      expect(toCsvField(null)).toBe('');
+    });
+
+    it('should quote separators, quotes and line breaks', () => {
+      expect(toCsvField('a,b')).toBe('"a,b"');
+      expect(toCsvField('say "hi"')).toBe('"say ""hi"""');
+      expect(toCsvField('line\nbreak')).toBe('"line\nbreak"');
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should write one line per row', () => {
+      expect(
+        toCsv([
+          ['Name', 'Area'],
+          ['Room, 1', 12],
+          ['Room 2', null],
+        ])
+      ).toBe('Name,Area\n"Room, 1",12\nRoom 2,');
+    });
+  });
+
+  describe('encodeCsv', () => {
+    it('should start the file with a byte order mark', () => {
+      const data = encodeCsv('Name\nRoom 1');
+
+      expect([...data.slice(0, 3)]).toEqual([0xef, 0xbb, 0xbf]);
+      expect(new TextDecoder().decode(data)).toBe('Name\nRoom 1');
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should read quoted fields and skip empty lines', () => {
+      expect(parseCsv('\uFEFFName,Area\r\n"Room, ""1""",12\n\n"Line\nbreak",')).toEqual([
+        ['Name', 'Area'],
+        ['Room, "1"', '12'],
+        ['Line\nbreak', ''],
+      ]);
+    });
+
+    it('should read semicolon separated files', () => {
+      expect(parseCsv('Space;Zone\n1,5;A')).toEqual([
+        ['Space', 'Zone'],
+        ['1,5', 'A'],
+      ]);
+    });
+
+    it('should read what toCsv writes', () => {
+      const rows = [
+        ['Name', 'Note'],
+        ['Room, 1', 'say "hi"'],
+      ];
+
+      expect(parseCsv(toCsv(rows))).toEqual(rows);
+    });
+  });
+});
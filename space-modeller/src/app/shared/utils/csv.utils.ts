@@ -0,0 +1,99 @@
+import { downloadBlob } from './download.utils';
+
+/**
+ * CSV utility functions
+ */
+
+/**
+ * Value of a CSV cell (null writes an empty cell)
+ */
+export type CsvValue = string | number | boolean | null;
+
+/**
+ * Quote a CSV field when needed
+ */
+export function toCsvField(value: CsvValue): string {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write rows as CSV text
+ * @param rows - Rows of cells, the header first
+ * @returns CSV text with one line per row
+ */
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(toCsvField).join(',')).join('\n');
+}
+
+/**
+ * Encode CSV text as a UTF-8 file
+ * The byte order mark makes spreadsheet applications read the CSV as UTF-8
+ * @param csv - CSV text
+ * @returns File contents
+ */
+export function encodeCsv(csv: string): Uint8Array {
+  return new TextEncoder().encode(`\uFEFF${csv}`);
+}
+
+/**
+ * Download CSV text as a UTF-8 file
+ * @param csv - CSV text
+ * @param fileName - Name of the downloaded file
+ */
+export function downloadCsv(csv: string, fileName: string): void {
+  downloadBlob(new Blob([encodeCsv(csv)], { type: 'text/csv' }), fileName);
+}
+
+/**
+ * Read CSV text into rows of fields
+ * Fields are separated by commas or, when the first line has more of them, semicolons
+ * (spreadsheet exports in many locales); quoted fields may contain separators and line breaks
+ * @param text - CSV text (a leading byte order mark is ignored)
+ * @returns Rows without empty lines
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const separator = (firstLine.match(/;/g) ?? []).length > (firstLine.match(/,/g) ?? []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index]!;
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
@@ -0,0 +1,100 @@
+import {
+  getModelUrlFileName,
+  isAllowedModelUrl,
+  parseViewQueryParams,
+  toViewQueryParams,
+} from './deep-link.utils';
+import { ViewLink } from '../models/deep-link.model';
+
+describe('Deep Link Utils', () => {
+  const origin = 'https://viewer.example.com';
+
+  const link: ViewLink = {
+    url: null,
+    camera: {
+      type: 'orthographic',
+      position: { x: 12.34567, y: -0.0001, z: 4 },
+      target: { x: 0, y: 1.5, z: 0 },
+      zoom: 2,
+    },
+    hiddenClasses: ['IfcSpace', 'IfcSlab'],
+    selectedGlobalId: '2O2Fr$t4X7Zf8NOew3FLOH',
+  };
+
+  describe('toViewQueryParams', () => {
+    it('should encode the camera, hidden classes and selection', () => {
+      expect(toViewQueryParams(link)).toEqual({
+        pos: '12.346,0,4',
+        target: '0,1.5,0',
+        camera: 'orthographic',
+        zoom: '2',
+        hide: 'IfcSpace,IfcSlab',
+        select: '2O2Fr$t4X7Zf8NOew3FLOH',
+      });
+    });
+
+    it('should leave out empty values and the zoom of perspective cameras', () => {
+      const params = toViewQueryParams({
+        url: '/models/tower.ifc',
+        camera: { type: 'perspective', position: { x: 1, y: 2, z: 3 }, target: { x: 0, y: 0, z: 0 }, zoom: 1 },
+        hiddenClasses: [],
+        selectedGlobalId: null,
+      });
+
+      expect(params).toEqual({ url: '/models/tower.ifc', pos: '1,2,3', target: '0,0,0', camera: 'perspective' });
+    });
+  });
+
+  describe('parseViewQueryParams', () => {
+    it('should round-trip a view', () => {
+      const parsed = parseViewQueryParams(toViewQueryParams(link));
+
+      expect(parsed.camera!.type).toBe('orthographic');
+      expect(parsed.camera!.position).toEqual({ x: 12.346, y: 0, z: 4 });
+      expect(parsed.camera!.zoom).toBe(2);
+      expect(parsed.hiddenClasses).toEqual(link.hiddenClasses);
+      expect(parsed.selectedGlobalId).toBe(link.selectedGlobalId);
+    });
+
+    it('should ignore malformed values', () => {
+      const parsed = parseViewQueryParams({ pos: '1,2', target: '0,0,0', camera: 'fisheye', hide: ' , ', select: '' });
+
+      expect(parsed).toEqual({ url: null, camera: null, hiddenClasses: [], selectedGlobalId: null });
+    });
+
+    it('should default to a perspective camera', () => {
+      const parsed = parseViewQueryParams({ pos: '1,2,3', target: '0,0,0', zoom: '-1' });
+
+      expect(parsed.camera).toEqual({
+        type: 'perspective',
+        position: { x: 1, y: 2, z: 3 },
+        target: { x: 0, y: 0, z: 0 },
+        zoom: 1,
+      });
+    });
+  });
+
+  describe('isAllowedModelUrl', () => {
+    it('should accept model files of the same origin', () => {
+      expect(isAllowedModelUrl('/models/tower.ifc', origin)).toBe(true);
+      expect(isAllowedModelUrl('https://viewer.example.com/models/tower.FRAG', origin)).toBe(true);
+    });
+
+    it('should accept local development servers', () => {
+      expect(isAllowedModelUrl('http://localhost:8080/tower.ifc', origin)).toBe(true);
+      expect(isAllowedModelUrl('http://127.0.0.1:3000/tower.ifc', origin)).toBe(true);
+    });
+
+    it('should reject remote hosts, other schemes and other file types', () => {
+      expect(isAllowedModelUrl('https://evil.example.org/tower.ifc', origin)).toBe(false);
+      expect(isAllowedModelUrl('javascript:alert(1)//.ifc', origin)).toBe(false);
+      expect(isAllowedModelUrl('/models/tower.zip', origin)).toBe(false);
+    });
+  });
+
+  describe('getModelUrlFileName', () => {
+    it('should use the decoded last path segment', () => {
+      expect(getModelUrlFileName('/models/My%20Tower.ifc?v=2', origin)).toBe('My Tower.ifc');
+    });
+  });
+});
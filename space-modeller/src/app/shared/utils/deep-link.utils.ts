@@ -0,0 +1,139 @@
+import { DEEP_LINK_CONFIG, FILE_VALIDATION } from '../constants/viewer.constants';
+import { ViewLink } from '../models/deep-link.model';
+import { Vector3Config } from '../models/viewer.model';
+
+/**
+ * Deep link utility functions
+ *
+ * The view state is encoded in short, readable query parameters:
+ * `?pos=12,8,-4&target=0,1.5,0&camera=orthographic&zoom=2&hide=IfcSpace,IfcSlab&select=2O2Fr$t4X7Zf8NOew3FLOH`
+ * Links are typed or pasted by users, so parsing ignores malformed values.
+ */
+
+const { params: PARAMS, precision: PRECISION } = DEEP_LINK_CONFIG;
+
+function round(value: number): number {
+  // `|| 0` turns -0 into 0
+  return Number(value.toFixed(PRECISION)) || 0;
+}
+
+function formatVector(vector: Vector3Config): string {
+  return [vector.x, vector.y, vector.z].map(round).join(',');
+}
+
+function parseVector(value: unknown): Vector3Config | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const parts = value.split(',');
+  const [x, y, z] = parts.map((part) => (part.trim() === '' ? NaN : Number(part)));
+  if (parts.length !== 3 || ![x, y, z].every(Number.isFinite)) {
+    return null;
+  }
+
+  return { x: x!, y: y!, z: z! };
+}
+
+function parseString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Encode a view as query parameters
+ * @param link - View state
+ * @returns Query parameters (empty values are left out)
+ */
+export function toViewQueryParams(link: ViewLink): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  if (link.url) {
+    params[PARAMS.url] = link.url;
+  }
+
+  if (link.camera) {
+    params[PARAMS.position] = formatVector(link.camera.position);
+    params[PARAMS.target] = formatVector(link.camera.target);
+    params[PARAMS.cameraType] = link.camera.type;
+    if (link.camera.type === 'orthographic') {
+      params[PARAMS.zoom] = String(round(link.camera.zoom));
+    }
+  }
+
+  if (link.hiddenClasses.length > 0) {
+    params[PARAMS.hiddenClasses] = link.hiddenClasses.join(',');
+  }
+
+  if (link.selectedGlobalId) {
+    params[PARAMS.selectedGlobalId] = link.selectedGlobalId;
+  }
+
+  return params;
+}
+
+/**
+ * Decode the view of query parameters
+ * The camera is only restored when both the position and the target are valid
+ * @param params - Query parameters
+ * @returns View state
+ */
+export function parseViewQueryParams(params: Record<string, unknown>): ViewLink {
+  const position = parseVector(params[PARAMS.position]);
+  const target = parseVector(params[PARAMS.target]);
+  const type = params[PARAMS.cameraType] === 'orthographic' ? 'orthographic' : 'perspective';
+  const zoom = Number(params[PARAMS.zoom]);
+
+  return {
+    url: parseString(params[PARAMS.url]),
+    camera:
+      position && target
+        ? { type, position, target, zoom: type === 'orthographic' && zoom > 0 && Number.isFinite(zoom) ? zoom : 1 }
+        : null,
+    hiddenClasses: (parseString(params[PARAMS.hiddenClasses]) ?? '')
+      .split(',')
+      .map((name) => name.trim())
+      .filter((name) => name !== ''),
+    selectedGlobalId: parseString(params[PARAMS.selectedGlobalId]),
+  };
+}
+
+/**
+ * Whether a model may be loaded from a URL
+ * Only .ifc and .frag files served by the app itself or a local development server are accepted,
+ * so a shared link cannot make the viewer fetch arbitrary remote content.
+ * @param url - Absolute or relative model URL
+ * @param origin - Origin of the app (e.g. location.origin)
+ */
+export function isAllowedModelUrl(url: string, origin: string): boolean {
+  let resolved: URL;
+  try {
+    resolved = new URL(url, origin);
+  } catch {
+    return false;
+  }
+
+  if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') {
+    return false;
+  }
+
+  const isLocal =
+    resolved.origin === new URL(origin).origin ||
+    (DEEP_LINK_CONFIG.localHosts as readonly string[]).includes(resolved.hostname);
+  const pathname = resolved.pathname.toLowerCase();
+
+  return isLocal && FILE_VALIDATION.allowedExtensions.some((extension) => pathname.endsWith(extension));
+}
+
+/**
+ * File name of a model URL (last path segment)
+ * @param url - Absolute or relative model URL
+ * @param origin - Origin of the app
+ */
+export function getModelUrlFileName(url: string, origin: string): string {
+  const segment = new URL(url, origin).pathname.split('/').pop() ?? '';
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
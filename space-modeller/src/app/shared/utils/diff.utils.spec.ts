@@ -0,0 +1,239 @@
+import * as THREE from 'three';
+import type * as FRAGS from '@thatopen/fragments';
+import {
+  diffElements,
+  diffReportToCsv,
+  filterDiffEntries,
+  getDiffLabel,
+  getDiffSummary,
+  getShownDiffStatus,
+  isSameBox,
+  isSameShape,
+  toDiffBox,
+  toDiffElement,
+  toDiffReport,
+  toDiffShape,
+} from './diff.utils';
+import { DiffBox, DiffElement, DiffFilter, DiffShape } from '../models/diff.model';
+import { ScheduleElement } from '../models/export.model';
+
+describe('Diff Utils', () => {
+  const box = (x: number): DiffBox => ({ min: [x, 0, 0], max: [x + 1, 1, 3] });
+
+  const element = (
+    globalId: string,
+    properties: DiffElement['properties'] = {},
+    diffBox: DiffBox | null = box(0),
+    ifcClass = 'IfcWall',
+    modelId = 'base',
+    shape: DiffShape | null = null
+  ): DiffElement => ({
+    globalId,
+    ifcClass,
+    name: `Element ${globalId}`,
+    element: { modelId, localId: globalId.charCodeAt(0) },
+    properties,
+    box: diffBox,
+    shape,
+  });
+
+  describe('toDiffBox', () => {
+    it('should undo the model placement and coordinate offset', () => {
+      const world = new THREE.Box3(new THREE.Vector3(11, 2, -4), new THREE.Vector3(12, 5, -2));
+      const matrix = new THREE.Matrix4().makeTranslation(10, 0, 0);
+
+      expect(toDiffBox(world, matrix, [0, 2, -1])).toEqual({ min: [1, 1, 0], max: [2, 3, 3] });
+    });
+  });
+
+  describe('toDiffShape', () => {
+    const mesh = (geometry: THREE.BufferGeometry, transform = new THREE.Matrix4()): FRAGS.MeshData => ({
+      transform,
+      positions: geometry.getAttribute('position').array as Float32Array,
+      indices: geometry.getIndex()?.array as Uint16Array | undefined,
+    });
+
+    it('should measure the area and volume of closed meshes', () => {
+      const shape = toDiffShape([mesh(new THREE.BoxGeometry(2, 2, 2))]);
+
+      expect(shape?.area).toBeCloseTo(24);
+      expect(shape?.volume).toBeCloseTo(8);
+    });
+
+    it('should not change when the element is moved', () => {
+      const moved = new THREE.Matrix4().makeRotationZ(0.3).setPosition(5, -2, 7);
+
+      expect(toDiffShape([mesh(new THREE.BoxGeometry(1, 2, 3), moved)])?.volume).toBeCloseTo(6);
+      expect(toDiffShape([mesh(new THREE.BoxGeometry(1, 2, 3).toNonIndexed(), moved)])?.area).toBeCloseTo(22);
+    });
+
+    it('should return null without triangles', () => {
+      expect(toDiffShape([])).toBeNull();
+      expect(toDiffShape([{ transform: new THREE.Matrix4() }])).toBeNull();
+    });
+  });
+
+  describe('toDiffElement', () => {
+    const scheduleElement = (globalId: string | null): ScheduleElement => ({
+      properties: {
+        modelId: 'm1',
+        localId: 7,
+        globalId,
+        name: 'Wall 1',
+        ifcClass: 'IfcWall',
+        attributes: [{ name: 'Tag', value: 'W1' }],
+        propertySets: [{ name: 'Pset_WallCommon', properties: [{ name: 'IsExternal', value: true }] }],
+        quantitySets: [{ name: 'Qto_WallBaseQuantities', properties: [{ name: 'Length', value: 4 }] }],
+      },
+      storey: 'Level 1',
+      type: 'Basic Wall',
+      material: 'Concrete',
+    });
+
+    it('should flatten the compared values without quantities', () => {
+      const result = toDiffElement(scheduleElement('guid-1'), box(0));
+
+      expect(result?.element).toEqual({ modelId: 'm1', localId: 7 });
+      expect(result?.properties).toEqual({
+        Name: 'Wall 1',
+        Tag: 'W1',
+        'Pset_WallCommon.IsExternal': true,
+        Type: 'Basic Wall',
+        Material: 'Concrete',
+        Storey: 'Level 1',
+      });
+    });
+
+    it('should skip elements without a GlobalId', () => {
+      expect(toDiffElement(scheduleElement(null), null)).toBeNull();
+    });
+  });
+
+  describe('isSameBox', () => {
+    it('should compare within the tolerance', () => {
+      expect(isSameBox(box(0), box(0.0005))).toBe(true);
+      expect(isSameBox(box(0), box(0.01))).toBe(false);
+      expect(isSameBox(null, null)).toBe(true);
+      expect(isSameBox(box(0), null)).toBe(false);
+    });
+  });
+
+  describe('isSameShape', () => {
+    it('should compare within the relative tolerance', () => {
+      expect(isSameShape({ area: 24, volume: 8 }, { area: 24.01, volume: 8.001 })).toBe(true);
+      expect(isSameShape({ area: 24, volume: 8 }, { area: 22, volume: 6 })).toBe(false);
+      expect(isSameShape(null, null)).toBe(true);
+      expect(isSameShape({ area: 24, volume: 8 }, null)).toBe(false);
+    });
+  });
+
+  describe('diffElements', () => {
+    it('should classify the elements matched by GlobalId', () => {
+      const entries = diffElements(
+        [
+          element('a', { Tag: 'W1' }),
+          element('b', { Tag: 'W2' }),
+          element('c', { Tag: 'W3' }),
+          element('d', { Tag: 'W4' }),
+        ],
+        [
+          element('a', { Tag: 'W1' }, box(0), 'IfcWall', 'rev'),
+          element('b', { Tag: 'W2' }, box(2), 'IfcWall', 'rev'),
+          element('c', { Tag: 'W3b', Mark: null }, box(0), 'IfcWall', 'rev'),
+          element('e', {}, box(0), 'IfcDoor', 'rev'),
+        ]
+      );
+
+      expect(entries.map((entry) => [entry.globalId, entry.status])).toEqual([
+        ['e', 'added'],
+        ['d', 'removed'],
+        ['b', 'geometry'],
+        ['c', 'properties'],
+        ['a', 'unchanged'],
+      ]);
+      expect(entries[1]!.base?.modelId).toBe('base');
+      expect(entries[1]!.revision).toBeNull();
+      expect(entries[3]!.properties).toEqual([{ key: 'Tag', before: 'W3', after: 'W3b' }]);
+    });
+
+    it('should report property changes of moved elements', () => {
+      const [entry] = diffElements([element('a', { Tag: 'W1' })], [element('a', { Tag: 'W2' }, box(1))]);
+
+      expect(entry!.status).toBe('geometry');
+      expect(entry!.geometryChanged).toBe(true);
+      expect(entry!.properties.length).toBe(1);
+      expect(getDiffLabel(entry!)).toBe('Geometry and properties changed');
+    });
+
+    it('should report elements reshaped within the same box', () => {
+      const [entry] = diffElements(
+        [element('a', {}, box(0), 'IfcWall', 'base', { area: 14, volume: 3 })],
+        [element('a', {}, box(0), 'IfcWall', 'rev', { area: 12, volume: 2 })]
+      );
+
+      expect(entry!.status).toBe('geometry');
+      expect(getDiffLabel(entry!)).toBe('Geometry changed');
+    });
+  });
+
+  describe('getShownDiffStatus', () => {
+    const [entry] = diffElements([element('a', { Tag: 'W1' })], [element('a', { Tag: 'W2' }, box(1))]);
+
+    it('should prefer the own change of an entry', () => {
+      expect(getShownDiffStatus(entry!, ['properties', 'geometry'])).toBe('geometry');
+      expect(getShownDiffStatus(entry!, ['properties'])).toBe('properties');
+      expect(getShownDiffStatus(entry!, ['added'])).toBeNull();
+    });
+  });
+
+  describe('filterDiffEntries', () => {
+    const entries = diffElements(
+      [element('a', {}, box(0)), element('b')],
+      [element('a', {}, box(1)), element('c', {}, box(0), 'IfcDoor')]
+    );
+
+    it('should filter by change, class and search text', () => {
+      const all = { statuses: ['added', 'removed', 'geometry'], ifcClass: null, search: '' } as const;
+
+      expect(filterDiffEntries(entries, { ...all, statuses: [...all.statuses] }).length).toBe(3);
+      expect(filterDiffEntries(entries, { ...all, statuses: ['added'] }).map((entry) => entry.globalId)).toEqual(['c']);
+      expect(filterDiffEntries(entries, { ...all, statuses: [...all.statuses], ifcClass: 'IfcWall' }).length).toBe(2);
+      expect(filterDiffEntries(entries, { ...all, statuses: [...all.statuses], search: 'ELEMENT B' }).length).toBe(1);
+    });
+
+    it('should list elements with changed geometry and properties under both', () => {
+      const changed = diffElements([element('a', { Tag: 'W1' })], [element('a', { Tag: 'W2' }, box(1))]);
+      const filter: DiffFilter = { statuses: ['properties'], ifcClass: null, search: '' };
+
+      expect(filterDiffEntries(changed, filter).length).toBe(1);
+      expect(filterDiffEntries(changed, { ...filter, statuses: ['geometry'] }).length).toBe(1);
+    });
+  });
+
+  describe('reports', () => {
+    const entries = diffElements(
+      [element('a', { Tag: 'W1' }), element('b'), element('d'), element('e', { Tag: 'D1' })],
+      [element('a', { Tag: 'W, 2' }), element('b'), element('c'), element('e', { Tag: 'D2' }, box(1))]
+    );
+
+    it('should summarize the changes and leave out unchanged elements', () => {
+      const report = toDiffReport(entries, 'v1.ifc', 'v2.ifc', new Date('2026-01-02T03:04:05Z'));
+
+      expect(getDiffSummary(entries)).toEqual({ added: 1, removed: 1, geometry: 1, properties: 2, unchanged: 1 });
+      expect(report.createdAt).toBe('2026-01-02T03:04:05.000Z');
+      expect(report.changes.map((change) => change.globalId)).toEqual(['c', 'd', 'e', 'a']);
+    });
+
+    it('should write one CSV row per changed value', () => {
+      const csv = diffReportToCsv(toDiffReport(entries, 'v1.ifc', 'v2.ifc'));
+
+      expect(csv.split('\n')).toEqual([
+        'GlobalId,Change,Class,Name,Property,Before,After',
+        'c,Added,IfcWall,Element c,,,',
+        'd,Removed,IfcWall,Element d,,,',
+        'e,Geometry and properties changed,IfcWall,Element e,Tag,D1,D2',
+        'a,Properties changed,IfcWall,Element a,Tag,W1,"W, 2"',
+      ]);
+    });
+  });
+});
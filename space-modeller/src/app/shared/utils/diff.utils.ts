@@ -0,0 +1,364 @@
+import * as THREE from 'three';
+import type * as FRAGS from '@thatopen/fragments';
+import { ScheduleElement } from '../models/export.model';
+import { ElementPropertyValue } from '../models/selection.model';
+import {
+  DiffBox,
+  DiffElement,
+  DiffEntry,
+  DiffFilter,
+  DiffPropertyChange,
+  DiffReport,
+  DiffShape,
+  DiffStatus,
+  DiffSummary,
+} from '../models/diff.model';
+import { DIFF_CONFIG } from '../constants/viewer.constants';
+import { CsvValue, toCsv } from './csv.utils';
+
+/**
+ * Model comparison utility functions
+ * Elements of two revisions are matched by their IFC GlobalId
+ */
+
+const STATUS_ORDER = Object.keys(DIFF_CONFIG.statuses) as DiffStatus[];
+
+/**
+ * Convert a world box of an element to the coordinates of its IFC file
+ * Undoes the model placement and the fragments coordinate offset, so revisions loaded
+ * with different offsets still compare (Y up to Z up)
+ * @param box - World space box
+ * @param modelMatrix - World matrix of the model object
+ * @param coordinates - Coordinate offset of the model (fragments getCoordinates)
+ * @returns Box in meters
+ */
+export function toDiffBox(box: THREE.Box3, modelMatrix: THREE.Matrix4, coordinates: number[] | null): DiffBox {
+  const local = box.clone().applyMatrix4(modelMatrix.clone().invert());
+  local.translate(new THREE.Vector3(-(coordinates?.[0] ?? 0), -(coordinates?.[1] ?? 0), -(coordinates?.[2] ?? 0)));
+
+  return {
+    min: [local.min.x, -local.max.z, local.min.y],
+    max: [local.max.x, -local.min.z, local.max.y],
+  };
+}
+
+/**
+ * Measure the triangle meshes of an element
+ * Area and volume do not change when the element is only moved, so a reshaped element
+ * is found even when it keeps its bounding box
+ * @param meshes - Meshes of the element (fragments getItemsGeometry)
+ * @returns Shape, or null without triangles
+ */
+export function toDiffShape(meshes: FRAGS.MeshData[]): DiffShape | null {
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const ab = new THREE.Vector3();
+  const ac = new THREE.Vector3();
+  let triangles = 0;
+  let area = 0;
+  let volume = 0;
+
+  for (const mesh of meshes) {
+    if (!mesh.positions) {
+      continue;
+    }
+
+    const count = mesh.indices ? mesh.indices.length : mesh.positions.length / 3;
+    const positions = mesh.positions;
+    const vertex = (index: number, target: THREE.Vector3) =>
+      target.fromArray(positions, (mesh.indices ? mesh.indices[index]! : index) * 3).applyMatrix4(mesh.transform);
+
+    for (let offset = 0; offset + 2 < count; offset += 3) {
+      vertex(offset, a);
+      vertex(offset + 1, b);
+      vertex(offset + 2, c);
+      area += ab.subVectors(b, a).cross(ac.subVectors(c, a)).length() / 2;
+      volume += a.dot(ab.crossVectors(b, c)) / 6;
+      triangles++;
+    }
+  }
+
+  return triangles > 0 ? { area, volume: Math.abs(volume) } : null;
+}
+
+/**
+ * Element of a revision as compared
+ * Quantity sets are left out since they follow from the geometry
+ * @param element - Schedule element with its properties, type, material and storey
+ * @param box - Box of the element in file coordinates
+ * @param shape - Area and volume of the element geometry
+ * @returns Compared element, or null without a GlobalId
+ */
+export function toDiffElement(
+  element: ScheduleElement,
+  box: DiffBox | null,
+  shape: DiffShape | null = null
+): DiffElement | null {
+  const { properties } = element;
+  if (!properties.globalId) {
+    return null;
+  }
+
+  const values: Record<string, ElementPropertyValue> = { Name: properties.name };
+  for (const attribute of properties.attributes) {
+    values[attribute.name] = attribute.value;
+  }
+  for (const set of properties.propertySets) {
+    for (const property of set.properties) {
+      values[`${set.name}.${property.name}`] = property.value;
+    }
+  }
+  values['Type'] = element.type;
+  values['Material'] = element.material;
+  values['Storey'] = element.storey;
+
+  return {
+    globalId: properties.globalId,
+    ifcClass: properties.ifcClass,
+    name: properties.name,
+    element: { modelId: properties.modelId, localId: properties.localId },
+    properties: values,
+    box,
+    shape,
+  };
+}
+
+/**
+ * Check whether two boxes match within a tolerance
+ * Two missing boxes match, a missing and a present one do not
+ */
+export function isSameBox(a: DiffBox | null, b: DiffBox | null, tolerance: number = DIFF_CONFIG.tolerance): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+
+  return [0, 1, 2].every(
+    (axis) => Math.abs(a.min[axis]! - b.min[axis]!) <= tolerance && Math.abs(a.max[axis]! - b.max[axis]!) <= tolerance
+  );
+}
+
+/**
+ * Check whether two shapes match within a relative tolerance
+ * Two missing shapes match, a missing and a present one do not
+ */
+export function isSameShape(
+  a: DiffShape | null,
+  b: DiffShape | null,
+  tolerance: number = DIFF_CONFIG.shapeTolerance
+): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+
+  const isClose = (x: number, y: number) => Math.abs(x - y) <= tolerance * Math.max(Math.abs(x), Math.abs(y), 1e-9);
+  return isClose(a.area, b.area) && isClose(a.volume, b.volume);
+}
+
+/**
+ * Values that differ between two revisions of an element
+ * Values missing on one side and null on the other count as equal
+ * @returns Changes sorted by key
+ */
+export function getDiffPropertyChanges(base: DiffElement, revision: DiffElement): DiffPropertyChange[] {
+  const keys = new Set([...Object.keys(base.properties), ...Object.keys(revision.properties)]);
+  const changes: DiffPropertyChange[] = [];
+
+  for (const key of keys) {
+    const before = base.properties[key];
+    const after = revision.properties[key];
+    if ((before ?? null) !== (after ?? null)) {
+      changes.push({ key, before, after });
+    }
+  }
+
+  return changes.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Compare two revisions of a model
+ * @param base - Elements of the older revision
+ * @param revision - Elements of the newer revision
+ * @param tolerance - Largest box corner movement counted as the same geometry (meters)
+ * @returns One entry per GlobalId, sorted by change, class and GlobalId
+ */
+export function diffElements(
+  base: DiffElement[],
+  revision: DiffElement[],
+  tolerance: number = DIFF_CONFIG.tolerance
+): DiffEntry[] {
+  const baseById = new Map<string, DiffElement>();
+  for (const element of base) {
+    if (!baseById.has(element.globalId)) {
+      baseById.set(element.globalId, element);
+    }
+  }
+
+  const entries: DiffEntry[] = [];
+  const matched = new Set<string>();
+
+  for (const element of revision) {
+    if (matched.has(element.globalId)) {
+      continue;
+    }
+    matched.add(element.globalId);
+
+    const before = baseById.get(element.globalId);
+    if (!before) {
+      entries.push(toEntry(element, 'added', null, element, false, []));
+      continue;
+    }
+
+    const geometryChanged =
+      !isSameBox(before.box, element.box, tolerance) || !isSameShape(before.shape, element.shape);
+    const properties = getDiffPropertyChanges(before, element);
+    const status: DiffStatus = geometryChanged ? 'geometry' : properties.length > 0 ? 'properties' : 'unchanged';
+    entries.push(toEntry(element, status, before, element, geometryChanged, properties));
+  }
+
+  for (const element of baseById.values()) {
+    if (!matched.has(element.globalId)) {
+      entries.push(toEntry(element, 'removed', element, null, false, []));
+    }
+  }
+
+  return entries.sort(
+    (a, b) =>
+      STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+      a.ifcClass.localeCompare(b.ifcClass) ||
+      a.globalId.localeCompare(b.globalId)
+  );
+}
+
+/**
+ * Whether an entry has a kind of change
+ * Elements whose geometry changed also have their changed properties
+ */
+export function hasDiffStatus(entry: DiffEntry, status: DiffStatus): boolean {
+  return entry.status === status || (status === 'properties' && entry.properties.length > 0);
+}
+
+/**
+ * Kind of change an entry is shown with, its own status first
+ * @param entry - Compared element
+ * @param statuses - Shown kinds of change
+ * @returns Shown kind of change, or null when the entry is hidden
+ */
+export function getShownDiffStatus(entry: DiffEntry, statuses: DiffStatus[]): DiffStatus | null {
+  if (statuses.includes(entry.status)) {
+    return entry.status;
+  }
+  return statuses.find((status) => hasDiffStatus(entry, status)) ?? null;
+}
+
+/**
+ * Label of the change of an entry
+ */
+export function getDiffLabel(entry: Pick<DiffEntry, 'status' | 'properties'>): string {
+  return entry.status === 'geometry' && entry.properties.length > 0
+    ? DIFF_CONFIG.geometryAndPropertiesLabel
+    : DIFF_CONFIG.statuses[entry.status].label;
+}
+
+/**
+ * Number of entries by change
+ * Entries whose geometry and properties changed count for both
+ */
+export function getDiffSummary(entries: DiffEntry[]): DiffSummary {
+  const summary: DiffSummary = { added: 0, removed: 0, geometry: 0, properties: 0, unchanged: 0 };
+  for (const entry of entries) {
+    STATUS_ORDER.filter((status) => hasDiffStatus(entry, status)).forEach((status) => summary[status]++);
+  }
+  return summary;
+}
+
+/**
+ * Entries matching a filter
+ * @param entries - Compared elements
+ * @param filter - Changes, class and search text (case insensitive)
+ */
+export function filterDiffEntries(entries: DiffEntry[], filter: DiffFilter): DiffEntry[] {
+  const search = filter.search.trim().toLowerCase();
+
+  return entries.filter(
+    (entry) =>
+      getShownDiffStatus(entry, filter.statuses) !== null &&
+      (!filter.ifcClass || entry.ifcClass === filter.ifcClass) &&
+      (!search ||
+        entry.globalId.toLowerCase().includes(search) ||
+        entry.ifcClass.toLowerCase().includes(search) ||
+        (entry.name?.toLowerCase().includes(search) ?? false))
+  );
+}
+
+/**
+ * Build the exported report of a comparison
+ * @param entries - Compared elements
+ * @param base - Name of the base model
+ * @param revision - Name of the revision model
+ * @param createdAt - Date of the export
+ */
+export function toDiffReport(
+  entries: DiffEntry[],
+  base: string,
+  revision: string,
+  createdAt: Date = new Date()
+): DiffReport {
+  return {
+    createdAt: createdAt.toISOString(),
+    base,
+    revision,
+    summary: getDiffSummary(entries),
+    changes: entries
+      .filter((entry) => entry.status !== 'unchanged')
+      .map((entry) => ({
+        globalId: entry.globalId,
+        status: entry.status,
+        ifcClass: entry.ifcClass,
+        name: entry.name,
+        properties: entry.properties,
+      })),
+  };
+}
+
+/**
+ * Export a report as CSV
+ * @param report - Comparison report
+ * @returns CSV text with one row per changed value (one row for changes without values)
+ */
+export function diffReportToCsv(report: DiffReport): string {
+  const header = ['GlobalId', 'Change', 'Class', 'Name', 'Property', 'Before', 'After'];
+  const rows: CsvValue[][] = [];
+
+  for (const change of report.changes) {
+    const start: CsvValue[] = [change.globalId, getDiffLabel(change), change.ifcClass, change.name];
+    if (change.properties.length === 0) {
+      rows.push([...start, null, null, null]);
+    }
+    for (const property of change.properties) {
+      rows.push([...start, property.key, property.before ?? null, property.after ?? null]);
+    }
+  }
+
+  return toCsv([header, ...rows]);
+}
+
+function toEntry(
+  element: DiffElement,
+  status: DiffStatus,
+  base: DiffElement | null,
+  revision: DiffElement | null,
+  geometryChanged: boolean,
+  properties: DiffPropertyChange[]
+): DiffEntry {
+  return {
+    globalId: element.globalId,
+    status,
+    ifcClass: element.ifcClass,
+    name: element.name,
+    base: base?.element ?? null,
+    revision: revision?.element ?? null,
+    geometryChanged,
+    properties,
+  };
+}
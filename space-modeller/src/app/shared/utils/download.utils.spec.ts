@@ -0,0 +1,21 @@
+import { downloadBlob } from './download.utils';
+
+describe('Download Utils', () => {
+  describe('downloadBlob', () => {
+    it('should click a link to the file and release its URL', () => {
+      const link = { href: '', download: '', click: jasmine.createSpy('click') };
+      spyOn(document, 'createElement').and.returnValue(link as unknown as HTMLAnchorElement);
+      spyOn(URL, 'createObjectURL').and.returnValue('blob:file');
+      spyOn(URL, 'revokeObjectURL');
+      const blob = new Blob(['a,b']);
+
+      downloadBlob(blob, 'rooms.csv');
+
+      expect(URL.createObjectURL).toHaveBeenCalledWith(blob);
+      expect(link.href).toBe('blob:file');
+      expect(link.download).toBe('rooms.csv');
+      expect(link.click).toHaveBeenCalled();
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:file');
+    });
+  });
+});
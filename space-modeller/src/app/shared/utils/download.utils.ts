@@ -0,0 +1,18 @@
+/**
+ * Download utility functions
+ */
+
+/**
+ * Save a file through a temporary link
+ * @param blob - File contents
+ * @param fileName - Name of the downloaded file
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
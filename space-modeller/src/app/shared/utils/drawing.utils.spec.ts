@@ -0,0 +1,153 @@
+import {
+  getDrawingBounds,
+  getScaleBarLength,
+  layoutDrawingSheet,
+  selectDrawingScale,
+  writeDrawingPdf,
+  writeDrawingSvg,
+} from './drawing.utils';
+import { Drawing, DrawingStyle } from '../models/drawing.model';
+
+describe('Drawing Utils', () => {
+  const style: DrawingStyle = {
+    cutFill: '#3f3f46',
+    cutStroke: '#000000',
+    cutWidth: 0.35,
+    projectionStroke: '#6b7280',
+    projectionWidth: 0.13,
+  };
+
+  // 10 m x 5 m slab cut with a projected edge
+  const drawing: Drawing = {
+    cutFills: [
+      [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 5 },
+      ],
+    ],
+    cutEdges: [
+      [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+      ],
+    ],
+    projectionEdges: [
+      [
+        { x: 0, y: 5 },
+        { x: 10, y: 5 },
+      ],
+    ],
+  };
+
+  describe('getDrawingBounds', () => {
+    it('should return the bounds of all points', () => {
+      expect(getDrawingBounds(drawing)).toEqual({ minX: 0, minY: 0, maxX: 10, maxY: 5 });
+    });
+
+    it('should return null for an empty drawing', () => {
+      expect(getDrawingBounds({ cutFills: [], cutEdges: [], projectionEdges: [] })).toBeNull();
+    });
+  });
+
+  describe('selectDrawingScale', () => {
+    it('should return the largest scale that fits', () => {
+      expect(selectDrawingScale(10, 5, 400, 257)).toBe(50);
+      expect(selectDrawingScale(30, 5, 400, 257)).toBe(100);
+    });
+
+    it('should return the smallest scale when nothing fits', () => {
+      expect(selectDrawingScale(100000, 5, 400, 257)).toBe(5000);
+    });
+  });
+
+  describe('getScaleBarLength', () => {
+    it('should return a round length close to the target', () => {
+      // 50 mm at 1:100 is 5 m
+      expect(getScaleBarLength(100)).toBe(5);
+      expect(getScaleBarLength(200)).toBe(10);
+      expect(getScaleBarLength(50)).toBe(2);
+    });
+  });
+
+  describe('layoutDrawingSheet', () => {
+    const options = {
+      title: 'Level 1',
+      subtitle: 'Cut',
+      details: [{ label: 'Model', value: 'tower' }],
+      northAngle: null,
+    };
+
+    it('should place the drawing with y pointing down', () => {
+      const sheet = layoutDrawingSheet(drawing, options, style);
+      const cut = sheet.paths.find((path) => path.stroke === style.cutStroke && path.strokeWidth === style.cutWidth)!;
+      const projection = sheet.paths.find((path) => path.stroke === style.projectionStroke)!;
+
+      expect(sheet.scale).toBe(50);
+      // 10 m at 1:50 is 200 mm
+      expect(cut.subpaths[0]![1]!.x - cut.subpaths[0]![0]!.x).toBeCloseTo(200);
+      // The projected edge at y = 5 is above the cut at y = 0
+      expect(projection.subpaths[0]![0]!.y).toBeLessThan(cut.subpaths[0]![0]!.y);
+    });
+
+    it('should write the title block and scale', () => {
+      const sheet = layoutDrawingSheet(drawing, options, style);
+      const texts = sheet.texts.map((text) => text.text);
+
+      expect(texts).toContain('Level 1');
+      expect(texts).toContain('Cut');
+      expect(texts).toContain('Model');
+      expect(texts).toContain('tower');
+      expect(texts).toContain('1:50');
+      expect(texts).toContain('2 m');
+      expect(texts).not.toContain('N');
+    });
+
+    it('should shorten long title block values', () => {
+      const sheet = layoutDrawingSheet(
+        drawing,
+        { title: '', subtitle: '', details: [{ label: 'Model', value: 'x'.repeat(60) }], northAngle: null },
+        style
+      );
+
+      expect(sheet.texts.find((text) => text.text.startsWith('xxx'))!.text).toMatch(/^x{17}\.\.\.$/);
+    });
+
+    it('should rotate the north arrow to true north', () => {
+      const sheet = layoutDrawingSheet(drawing, { title: '', subtitle: '', details: [], northAngle: Math.PI / 2 }, style);
+      const north = sheet.texts.find((text) => text.text === 'N')!;
+      const arrow = sheet.paths[sheet.paths.length - 1]!.subpaths[0]!;
+
+      // Pointing right: the tip is right of the arrow base
+      expect(arrow[0]!.x).toBeGreaterThan(arrow[2]!.x);
+      expect(north.x).toBeGreaterThan(arrow[0]!.x);
+    });
+  });
+
+  describe('writeDrawingSvg', () => {
+    it('should write paths and escaped texts in mm', () => {
+      const sheet = layoutDrawingSheet(drawing, { title: 'A & B', subtitle: '', details: [], northAngle: 0 }, style);
+      const svg = writeDrawingSvg(sheet);
+
+      expect(svg).toContain('width="420mm" height="297mm" viewBox="0 0 420 297"');
+      expect(svg).toContain('<title>A &amp; B</title>');
+      expect(svg).toContain(`fill="${style.cutFill}"`);
+      expect(svg).toContain('>N</text>');
+    });
+  });
+
+  describe('writeDrawingPdf', () => {
+    it('should write a PDF with a valid cross-reference table', () => {
+      const sheet = layoutDrawingSheet(drawing, { title: 'Level (1)', subtitle: '', details: [], northAngle: 0 }, style);
+      const pdf = new TextDecoder().decode(writeDrawingPdf(sheet));
+      const xref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+      const offsets = pdf.match(/(\d{10}) 00000 n/g)!.map((entry) => Number(entry.slice(0, 10)));
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf.slice(xref, xref + 4)).toBe('xref');
+      offsets.forEach((offset, index) => expect(pdf.slice(offset, offset + 8)).toBe(`${index + 1} 0 obj\n`.slice(0, 8)));
+      expect(pdf).toContain('(Level \\(1\\)) Tj');
+      expect(pdf).toContain('/MediaBox [0 0 1190.55 841.89]');
+    });
+  });
+});
@@ -0,0 +1,406 @@
+import { DRAWING_CONFIG } from '../constants/viewer.constants';
+import {
+  Drawing,
+  DrawingDetail,
+  DrawingPoint,
+  DrawingSheet,
+  DrawingSheetOptions,
+  DrawingStyle,
+  SheetPath,
+  SheetText,
+} from '../models/drawing.model';
+
+/**
+ * Drawing utility functions
+ *
+ * 2D drawings (model coordinates in meters, y up) are laid out on a sheet in mm
+ * (y down) with a title strip, scale bar and north arrow, then written as SVG or PDF.
+ */
+
+/**
+ * Bounds of a drawing in model coordinates
+ */
+export interface DrawingBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Bounds of all points of a drawing
+ * @returns Bounds or null for an empty drawing
+ */
+export function getDrawingBounds(drawing: Drawing): DrawingBounds | null {
+  let bounds: DrawingBounds | null = null;
+
+  for (const polyline of [...drawing.cutFills, ...drawing.cutEdges, ...drawing.projectionEdges]) {
+    for (const point of polyline) {
+      if (!bounds) {
+        bounds = { minX: point.x, minY: point.y, maxX: point.x, maxY: point.y };
+        continue;
+      }
+      bounds.minX = Math.min(bounds.minX, point.x);
+      bounds.minY = Math.min(bounds.minY, point.y);
+      bounds.maxX = Math.max(bounds.maxX, point.x);
+      bounds.maxY = Math.max(bounds.maxY, point.y);
+    }
+  }
+
+  return bounds;
+}
+
+/**
+ * Largest drawing scale at which a drawing fits an area
+ * @param width - Drawing width in meters
+ * @param height - Drawing height in meters
+ * @param areaWidth - Available width in mm
+ * @param areaHeight - Available height in mm
+ * @returns Scale denominator (the smallest scale when nothing fits)
+ */
+export function selectDrawingScale(width: number, height: number, areaWidth: number, areaHeight: number): number {
+  const scales = DRAWING_CONFIG.scales;
+  const fitting = scales.find((scale) => (width * 1000) / scale <= areaWidth && (height * 1000) / scale <= areaHeight);
+  return fitting ?? scales[scales.length - 1]!;
+}
+
+/**
+ * Length of the scale bar in meters, a 1, 2 or 5 multiple of a power of ten
+ * that is at most the target length on the sheet
+ * @param scale - Scale denominator
+ */
+export function getScaleBarLength(scale: number): number {
+  const target = (DRAWING_CONFIG.scaleBarLength * scale) / 1000;
+  const power = Math.pow(10, Math.floor(Math.log10(target)));
+  const step = [5, 2, 1].find((factor) => factor * power <= target) ?? 1;
+  return step * power;
+}
+
+/**
+ * Lay out a drawing on a sheet with its title block, scale bar and north arrow
+ * @param drawing - Drawing in model coordinates (meters)
+ * @param options - Title block and north direction
+ * @param style - Fill and line styles of the drawing
+ * @returns Sheet in mm
+ */
+export function layoutDrawingSheet(
+  drawing: Drawing,
+  options: DrawingSheetOptions,
+  style: DrawingStyle
+): DrawingSheet {
+  const { width, height } = DRAWING_CONFIG.paper;
+  const margin = DRAWING_CONFIG.margin;
+  const titleTop = height - margin - DRAWING_CONFIG.titleHeight;
+  const areaWidth = width - 2 * margin;
+  const areaHeight = titleTop - margin;
+
+  const bounds = getDrawingBounds(drawing) ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  const scale = selectDrawingScale(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY, areaWidth, areaHeight);
+  const factor = 1000 / scale;
+
+  // Center the drawing in the area above the title strip
+  const originX = margin + (areaWidth - (bounds.maxX - bounds.minX) * factor) / 2;
+  const originY = margin + (areaHeight - (bounds.maxY - bounds.minY) * factor) / 2;
+  const toSheet = (polyline: DrawingPoint[]) =>
+    polyline.map((point) => ({
+      x: originX + (point.x - bounds.minX) * factor,
+      y: originY + (bounds.maxY - point.y) * factor,
+    }));
+
+  const paths: SheetPath[] = [];
+  const texts: SheetText[] = [];
+
+  if (drawing.projectionEdges.length > 0) {
+    paths.push(
+      createPath(drawing.projectionEdges.map(toSheet), false, null, style.projectionStroke, style.projectionWidth)
+    );
+  }
+  if (drawing.cutFills.length > 0) {
+    // Stroked with the fill color so the seams between triangles do not show
+    paths.push(createPath(drawing.cutFills.map(toSheet), true, style.cutFill, style.cutFill, 0.1));
+  }
+  if (drawing.cutEdges.length > 0) {
+    paths.push(createPath(drawing.cutEdges.map(toSheet), false, null, style.cutStroke, style.cutWidth));
+  }
+
+  // Frame and title strip
+  paths.push(
+    createPath([rectangle(margin, margin, areaWidth, height - 2 * margin)], true, null, '#000000', 0.5),
+    createPath(
+      [
+        [
+          { x: margin, y: titleTop },
+          { x: width - margin, y: titleTop },
+        ],
+      ],
+      false,
+      null,
+      '#000000',
+      0.35
+    )
+  );
+  texts.push(
+    { x: margin + 4, y: titleTop + 8, text: options.title, size: 5, anchor: 'start', bold: true },
+    { x: margin + 4, y: titleTop + 14.5, text: options.subtitle, size: 3.5, anchor: 'start', bold: false }
+  );
+
+  addScaleBar(paths, texts, scale, width / 2, titleTop + DRAWING_CONFIG.titleHeight / 2);
+  addTitleBlock(paths, texts, [...options.details, { label: 'Scale', value: `1:${scale}` }], width - margin, titleTop);
+
+  if (options.northAngle !== null) {
+    const radius = DRAWING_CONFIG.northArrowRadius;
+    addNorthArrow(paths, texts, options.northAngle, width - margin - radius - 6, margin + radius + 8);
+  }
+
+  return { width, height, title: options.title, scale, paths, texts };
+}
+
+/**
+ * Write a sheet as an SVG document (user units are mm)
+ */
+export function writeDrawingSvg(sheet: DrawingSheet): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${sheet.width}mm" height="${sheet.height}mm" viewBox="0 0 ${sheet.width} ${sheet.height}">`,
+    `<title>${escapeXml(sheet.title)}</title>`,
+    `<rect width="${sheet.width}" height="${sheet.height}" fill="#ffffff"/>`,
+  ];
+
+  for (const path of sheet.paths) {
+    const data = path.subpaths
+      .map(
+        (subpath) =>
+          subpath.map((point, index) => `${index === 0 ? 'M' : 'L'}${toNumber(point.x)} ${toNumber(point.y)}`).join('') +
+          (path.closed ? 'Z' : '')
+      )
+      .join('');
+    lines.push(
+      `<path d="${data}" fill="${path.fill ?? 'none'}" stroke="${path.stroke ?? 'none'}" stroke-width="${toNumber(path.strokeWidth)}" stroke-linecap="round" stroke-linejoin="round"/>`
+    );
+  }
+
+  for (const text of sheet.texts) {
+    lines.push(
+      `<text x="${toNumber(text.x)}" y="${toNumber(text.y)}" font-family="${DRAWING_CONFIG.fontFamily}" font-size="${toNumber(text.size)}" text-anchor="${text.anchor}"${text.bold ? ' font-weight="bold"' : ''}>${escapeXml(text.text)}</text>`
+    );
+  }
+
+  lines.push('</svg>');
+  return lines.join('\n');
+}
+
+/**
+ * Write a sheet as a single page PDF document
+ */
+export function writeDrawingPdf(sheet: DrawingSheet): Uint8Array {
+  const pointsPerMm = 72 / 25.4;
+  const pageWidth = toNumber(sheet.width * pointsPerMm);
+  const pageHeight = toNumber(sheet.height * pointsPerMm);
+
+  // Sheet coordinates (mm, y down) are mapped to points with the origin at the bottom left
+  const content = [`q ${pointsPerMm.toFixed(4)} 0 0 ${(-pointsPerMm).toFixed(4)} 0 ${pageHeight} cm 1 J 1 j`];
+
+  for (const path of sheet.paths) {
+    if (path.fill) {
+      content.push(`${toPdfColor(path.fill)} rg`);
+    }
+    if (path.stroke) {
+      content.push(`${toPdfColor(path.stroke)} RG ${toNumber(path.strokeWidth)} w`);
+    }
+    for (const subpath of path.subpaths) {
+      content.push(
+        subpath
+          .map((point, index) => `${toNumber(point.x)} ${toNumber(point.y)} ${index === 0 ? 'm' : 'l'}`)
+          .join(' ') + (path.closed ? ' h' : '')
+      );
+    }
+    content.push(path.fill && path.stroke ? 'B' : path.fill ? 'f' : 'S');
+  }
+
+  content.push('0 g');
+  for (const text of sheet.texts) {
+    // Fonts have no metrics here, the average glyph width places centered and right aligned text
+    const textWidth = text.text.length * text.size * DRAWING_CONFIG.glyphWidth;
+    const x = text.anchor === 'middle' ? text.x - textWidth / 2 : text.anchor === 'end' ? text.x - textWidth : text.x;
+    content.push(
+      `BT /${text.bold ? 'F2' : 'F1'} ${toNumber(text.size)} Tf 1 0 0 -1 ${toNumber(x)} ${toNumber(text.y)} Tm (${toPdfString(text.text)}) Tj ET`
+    );
+  }
+  content.push('Q');
+
+  const stream = content.join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> /Contents 4 0 R >>`,
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${toPdfString(sheet.title)}) /Producer (Space Modeller) >>`,
+  ];
+
+  // All content is ASCII, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new TextEncoder().encode(pdf);
+}
+
+/**
+ * Alternating black and white scale bar with its length below
+ */
+function addScaleBar(paths: SheetPath[], texts: SheetText[], scale: number, centerX: number, centerY: number): void {
+  const length = getScaleBarLength(scale);
+  const barWidth = (length * 1000) / scale;
+  const left = centerX - barWidth / 2;
+  const top = centerY - 2.5;
+  const segments = 4;
+  const segmentWidth = barWidth / segments;
+
+  const filled = Array.from({ length: segments }, (_, index) => index)
+    .filter((index) => index % 2 === 0)
+    .map((index) => rectangle(left + index * segmentWidth, top, segmentWidth, 1.5));
+  paths.push(
+    createPath([rectangle(left, top, barWidth, 1.5)], true, '#ffffff', '#000000', 0.2),
+    createPath(filled, true, '#000000', '#000000', 0.2)
+  );
+
+  texts.push(
+    { x: left, y: top + 5.5, text: '0', size: 2.5, anchor: 'middle', bold: false },
+    { x: left + barWidth, y: top + 5.5, text: `${length} m`, size: 2.5, anchor: 'middle', bold: false }
+  );
+}
+
+/**
+ * Title block cells ending at the right edge of the frame, a label above each value
+ */
+function addTitleBlock(
+  paths: SheetPath[],
+  texts: SheetText[],
+  details: DrawingDetail[],
+  right: number,
+  top: number
+): void {
+  const cellWidth = DRAWING_CONFIG.titleCellWidth;
+  const bottom = top + DRAWING_CONFIG.titleHeight;
+  const maxLength = Math.floor((cellWidth - 4) / (3.5 * DRAWING_CONFIG.glyphWidth));
+
+  details.forEach((detail, index) => {
+    const left = right - (details.length - index) * cellWidth;
+    const value = detail.value.length > maxLength ? `${detail.value.slice(0, maxLength - 3)}...` : detail.value;
+
+    paths.push(
+      createPath(
+        [
+          [
+            { x: left, y: top },
+            { x: left, y: bottom },
+          ],
+        ],
+        false,
+        null,
+        '#000000',
+        0.25
+      )
+    );
+    texts.push(
+      { x: left + 2, y: top + 5, text: detail.label, size: 2.5, anchor: 'start', bold: false },
+      { x: left + 2, y: top + 13, text: value, size: 3.5, anchor: 'start', bold: true }
+    );
+  });
+}
+
+/**
+ * North arrow in a circle, rotated clockwise by the angle to true north
+ */
+function addNorthArrow(paths: SheetPath[], texts: SheetText[], angle: number, centerX: number, centerY: number): void {
+  const radius = DRAWING_CONFIG.northArrowRadius;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const rotate = (x: number, y: number) => ({ x: centerX + x * cos - y * sin, y: centerY + x * sin + y * cos });
+
+  const circle = Array.from({ length: 32 }, (_, index) => {
+    const theta = (index / 32) * Math.PI * 2;
+    return { x: centerX + Math.cos(theta) * radius, y: centerY + Math.sin(theta) * radius };
+  });
+  const arrow = [
+    rotate(0, -radius),
+    rotate(radius * 0.4, radius * 0.6),
+    rotate(0, radius * 0.3),
+    rotate(-radius * 0.4, radius * 0.6),
+  ];
+  paths.push(
+    createPath([circle], true, null, '#000000', 0.25),
+    createPath([arrow], true, '#000000', '#000000', 0.1)
+  );
+
+  const label = rotate(0, -radius - 2);
+  texts.push({ x: label.x, y: label.y + 1, text: 'N', size: 3.5, anchor: 'middle', bold: true });
+}
+
+/**
+ * Create a sheet path
+ */
+function createPath(
+  subpaths: DrawingPoint[][],
+  closed: boolean,
+  fill: string | null,
+  stroke: string | null,
+  strokeWidth: number
+): SheetPath {
+  return { subpaths, closed, fill, stroke, strokeWidth };
+}
+
+/**
+ * Corners of a rectangle
+ */
+function rectangle(x: number, y: number, width: number, height: number): DrawingPoint[] {
+  return [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height },
+  ];
+}
+
+/**
+ * Number with at most two decimals (without negative zero)
+ */
+function toNumber(value: number): string {
+  return String(Math.round(value * 100) / 100 + 0);
+}
+
+/**
+ * PDF color operands of a #rrggbb color
+ */
+function toPdfColor(color: string): string {
+  const value = parseInt(color.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map((channel) => toNumber(channel / 255)).join(' ');
+}
+
+/**
+ * Escape a PDF string literal (characters outside ASCII are replaced)
+ */
+function toPdfString(text: string): string {
+  return text.replace(/[^\x20-\x7e]/g, '?').replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Escape XML text and attribute values
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,161 @@
+import * as THREE from 'three';
+import { RenderedFaces } from '@thatopen/fragments';
+import type * as FRAGS from '@thatopen/fragments';
+import {
+  buildItemGeometry,
+  clipTriangles,
+  createGltfMaterial,
+  getGltfNodeName,
+  getMaterialKey,
+  mergeItemGeometries,
+  toGltfExtras,
+} from './gltf.utils';
+import { ElementProperties } from '../models/selection.model';
+
+describe('glTF Utils', () => {
+  // Unit square in the XZ plane made of two triangles
+  const square = (): FRAGS.MeshData => ({
+    transform: new THREE.Matrix4(),
+    positions: new Float32Array([0, 0, 0, 1, 0, 0, 1, 0, 1, 0, 0, 1]),
+    indices: new Uint16Array([0, 2, 1, 0, 3, 2]),
+  });
+
+  const definition = (opacity: number): FRAGS.MaterialDefinition =>
+    ({
+      color: new THREE.Color(1, 0, 0),
+      opacity,
+      transparent: opacity < 1,
+      renderedFaces: RenderedFaces.TWO,
+    }) as FRAGS.MaterialDefinition;
+
+  describe('getGltfNodeName', () => {
+    it('should combine the GlobalId and the IFC class', () => {
+      expect(getGltfNodeName('2O2Fr$t4X7Zf8NOew3FLOH', 'IfcWall', 7)).toBe('2O2Fr$t4X7Zf8NOew3FLOH (IfcWall)');
+      expect(getGltfNodeName(null, 'IfcWall', 7)).toBe('#7 (IfcWall)');
+    });
+  });
+
+  describe('clipTriangles', () => {
+    it('should keep triangles on the positive side', () => {
+      const triangle = [0, 0, 0, 1, 0, 0, 0, 1, 0];
+
+      expect(clipTriangles(triangle, [new THREE.Plane(new THREE.Vector3(0, 0, 1), 1)]).length).toBe(9);
+      expect(clipTriangles(triangle, [new THREE.Plane(new THREE.Vector3(0, 0, 1), -1)]).length).toBe(0);
+    });
+
+    it('should cut triangles crossing a plane', () => {
+      // Keep x <= 0.5
+      const clipped = clipTriangles([0, 0, 0, 1, 0, 0, 0, 1, 0], [new THREE.Plane(new THREE.Vector3(-1, 0, 0), 0.5)]);
+
+      // The cut leaves a quad (two triangles) with no vertex beyond the plane
+      expect(clipped.length).toBe(18);
+      expect(Math.max(...Array.from(clipped).filter((_, index) => index % 3 === 0))).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('buildItemGeometry', () => {
+    it('should merge and transform the meshes of an element', () => {
+      const moved = square();
+      moved.transform = new THREE.Matrix4().makeTranslation(0, 2, 0);
+
+      const geometry = buildItemGeometry([square(), moved], new THREE.Matrix4().makeTranslation(10, 0, 0))!;
+      geometry.computeBoundingBox();
+
+      expect(geometry.getIndex()!.count).toBe(12);
+      expect(geometry.boundingBox!.min.toArray()).toEqual([10, 0, 0]);
+      expect(geometry.boundingBox!.max.toArray()).toEqual([11, 2, 1]);
+      expect(geometry.getAttribute('normal')).toBeDefined();
+    });
+
+    it('should cut the geometry with planes', () => {
+      const geometry = buildItemGeometry([square()], new THREE.Matrix4(), [
+        new THREE.Plane(new THREE.Vector3(-1, 0, 0), 0.5),
+      ])!;
+      geometry.computeBoundingBox();
+
+      expect(geometry.getIndex()).toBeNull();
+      expect(geometry.boundingBox!.max.x).toBeCloseTo(0.5);
+    });
+
+    it('should return null without triangles', () => {
+      expect(buildItemGeometry([{ transform: new THREE.Matrix4() }], new THREE.Matrix4())).toBeNull();
+      expect(
+        buildItemGeometry([square()], new THREE.Matrix4(), [new THREE.Plane(new THREE.Vector3(0, -1, 0), -1)])
+      ).toBeNull();
+    });
+  });
+
+  describe('mergeItemGeometries', () => {
+    it('should merge indexed and non-indexed geometries with different attributes', () => {
+      const indexed = buildItemGeometry([square()], new THREE.Matrix4())!;
+      const clipped = buildItemGeometry([square()], new THREE.Matrix4(), [
+        new THREE.Plane(new THREE.Vector3(-1, 0, 0), 0.5),
+      ])!;
+      const vertexCount = clipped.getAttribute('position').count;
+      clipped.setAttribute('uv', new THREE.Float32BufferAttribute(new Array(vertexCount * 2).fill(0), 2));
+      indexed.deleteAttribute('normal');
+
+      const merged = mergeItemGeometries([indexed, clipped])!;
+
+      expect(merged.getIndex()).toBeNull();
+      expect(Object.keys(merged.attributes)).toEqual(['position']);
+      expect(merged.getAttribute('position').count).toBe(6 + vertexCount);
+      expect(indexed.getIndex()).not.toBeNull();
+    });
+
+    it('should keep the indices when every geometry has them', () => {
+      const merged = mergeItemGeometries([
+        buildItemGeometry([square()], new THREE.Matrix4())!,
+        buildItemGeometry([square()], new THREE.Matrix4())!,
+      ])!;
+
+      expect(merged.getIndex()!.count).toBe(12);
+      expect(merged.getAttribute('normal')).toBeDefined();
+    });
+
+    it('should return null without geometries', () => {
+      expect(mergeItemGeometries([])).toBeNull();
+    });
+  });
+
+  describe('materials', () => {
+    it('should share materials with the same color, opacity and faces', () => {
+      expect(getMaterialKey(definition(1))).toBe(getMaterialKey(definition(1)));
+      expect(getMaterialKey(definition(1))).not.toBe(getMaterialKey(definition(0.5)));
+      expect(getMaterialKey(undefined)).toBe('default');
+    });
+
+    it('should create named standard materials', () => {
+      const material = createGltfMaterial(definition(0.5));
+
+      expect(material.name).toBe('#ff0000 50%');
+      expect(material.transparent).toBe(true);
+      expect(material.side).toBe(THREE.DoubleSide);
+      expect(createGltfMaterial(undefined).opacity).toBe(1);
+    });
+  });
+
+  describe('toGltfExtras', () => {
+    it('should flatten properties to name → value objects', () => {
+      const properties: ElementProperties = {
+        modelId: 'm1',
+        localId: 7,
+        globalId: 'guid-7',
+        name: 'Wall 1',
+        ifcClass: 'IfcWall',
+        attributes: [{ name: 'Tag', value: 'W1' }],
+        propertySets: [{ name: 'Pset_WallCommon', properties: [{ name: 'IsExternal', value: true }] }],
+        quantitySets: [{ name: 'Qto_WallBaseQuantities', properties: [{ name: 'Length', value: 4.2 }] }],
+      };
+
+      expect(toGltfExtras(properties)).toEqual({
+        globalId: 'guid-7',
+        ifcClass: 'IfcWall',
+        name: 'Wall 1',
+        attributes: { Tag: 'W1' },
+        propertySets: { Pset_WallCommon: { IsExternal: true } },
+        quantitySets: { Qto_WallBaseQuantities: { Length: 4.2 } },
+      });
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { RenderedFaces } from '@thatopen/fragments';
+import type * as FRAGS from '@thatopen/fragments';
+import { GLTF_EXPORT_CONFIG } from '../constants/viewer.constants';
+import { ElementProperties, ElementPropertySet } from '../models/selection.model';
+
+/**
+ * glTF export utility functions
+ *
+ * Fragments geometry is rebuilt as plain Three.js meshes (one per element, or one per
+ * class and material when merged) so the GLTFExporter can write it.
+ */
+
+/**
+ * Node name of an exported element
+ * @param globalId - IFC GlobalId (the local ID is used for elements without one)
+ * @param ifcClass - IFC class (e.g. IfcWall)
+ * @param localId - Local ID of the element
+ * @returns Name such as "2O2Fr$t4X7Zf8NOew3FLOH (IfcWall)"
+ */
+export function getGltfNodeName(globalId: string | null, ifcClass: string, localId: number): string {
+  return `${globalId ?? `#${localId}`} (${ifcClass})`;
+}
+
+/**
+ * Cut triangles with planes, keeping the parts on the positive side of every plane
+ * (the side the renderer keeps visible)
+ * @param positions - Non-indexed triangle positions (9 values per triangle)
+ * @param planes - Cutting planes
+ * @returns Positions of the remaining triangles
+ */
+export function clipTriangles(positions: ArrayLike<number>, planes: THREE.Plane[]): Float32Array {
+  const result: number[] = [];
+
+  for (let offset = 0; offset + 9 <= positions.length; offset += 9) {
+    let polygon = [0, 3, 6].map(
+      (vertex) =>
+        new THREE.Vector3(positions[offset + vertex], positions[offset + vertex + 1], positions[offset + vertex + 2])
+    );
+
+    // Sutherland–Hodgman against each plane
+    for (const plane of planes) {
+      const clipped: THREE.Vector3[] = [];
+      polygon.forEach((current, index) => {
+        const next = polygon[(index + 1) % polygon.length]!;
+        const currentDistance = plane.distanceToPoint(current);
+        const nextDistance = plane.distanceToPoint(next);
+
+        if (currentDistance >= 0) {
+          clipped.push(current);
+        }
+        if ((currentDistance >= 0) !== (nextDistance >= 0)) {
+          const t = currentDistance / (currentDistance - nextDistance);
+          clipped.push(current.clone().lerp(next, t));
+        }
+      });
+
+      polygon = clipped;
+      if (polygon.length < 3) {
+        break;
+      }
+    }
+
+    // Fan triangulation of the remaining convex polygon
+    for (let index = 1; index + 1 < polygon.length; index++) {
+      [polygon[0]!, polygon[index]!, polygon[index + 1]!].forEach((vertex) =>
+        result.push(vertex.x, vertex.y, vertex.z)
+      );
+    }
+  }
+
+  return new Float32Array(result);
+}
+
+/**
+ * Build the geometry of an element from its fragments meshes
+ * @param meshes - Meshes of the element (model space)
+ * @param matrix - Model to world transform
+ * @param planes - Planes cutting the geometry (none to keep it whole)
+ * @returns Geometry in world space or null if nothing is left
+ */
+export function buildItemGeometry(
+  meshes: FRAGS.MeshData[],
+  matrix: THREE.Matrix4,
+  planes: THREE.Plane[] = []
+): THREE.BufferGeometry | null {
+  const positions: number[] = [];
+  const indices: number[] = [];
+  const vertex = new THREE.Vector3();
+
+  for (const mesh of meshes) {
+    if (!mesh.positions || mesh.positions.length < 9) {
+      continue;
+    }
+
+    const transform = matrix.clone().multiply(mesh.transform);
+    const base = positions.length / 3;
+    for (let offset = 0; offset + 3 <= mesh.positions.length; offset += 3) {
+      vertex.fromArray(mesh.positions, offset).applyMatrix4(transform);
+      positions.push(vertex.x, vertex.y, vertex.z);
+    }
+
+    const count = mesh.positions.length / 3;
+    const meshIndices = mesh.indices ?? Array.from({ length: count - (count % 3) }, (_, index) => index);
+    for (let index = 0; index < meshIndices.length; index++) {
+      indices.push(base + meshIndices[index]!);
+    }
+  }
+
+  if (indices.length < 3) {
+    return null;
+  }
+
+  let geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setIndex(indices);
+
+  if (planes.length > 0) {
+    const clipped = clipTriangles(geometry.toNonIndexed().getAttribute('position').array, planes);
+    geometry.dispose();
+    if (clipped.length === 0) {
+      return null;
+    }
+
+    geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(clipped, 3));
+  }
+
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+/**
+ * Merge element geometries into one
+ * Indexed and non-indexed geometries are mixed by dropping the indices, and attributes
+ * that not every geometry has (normals, UVs) are left out, since three.js cannot merge either
+ * @param geometries - Element geometries (left untouched)
+ * @returns Merged geometry or null if the geometries still cannot be merged
+ */
+export function mergeItemGeometries(geometries: THREE.BufferGeometry[]): THREE.BufferGeometry | null {
+  if (geometries.length === 0) {
+    return null;
+  }
+
+  const first = geometries[0]!;
+  const shared = Object.keys(first.attributes).filter((name) =>
+    geometries.every((geometry) => geometry.getAttribute(name)?.itemSize === first.getAttribute(name).itemSize)
+  );
+  const indexed = geometries.every((geometry) => geometry.getIndex() !== null);
+
+  const prepared = geometries.map((geometry) => {
+    const source = indexed || geometry.getIndex() === null ? geometry : geometry.toNonIndexed();
+    const copy = new THREE.BufferGeometry();
+    shared.forEach((name) => copy.setAttribute(name, source.getAttribute(name)));
+    copy.setIndex(indexed ? geometry.getIndex() : null);
+    if (source !== geometry) {
+      source.dispose();
+    }
+    return copy;
+  });
+
+  const merged = mergeGeometries(prepared);
+  prepared.forEach((geometry) => geometry.dispose());
+  return merged;
+}
+
+/**
+ * Key of a fragments material, used to share exported materials between elements
+ */
+export function getMaterialKey(definition: FRAGS.MaterialDefinition | undefined): string {
+  if (!definition) {
+    return 'default';
+  }
+
+  return `${definition.color.getHexString()}-${definition.opacity}-${definition.renderedFaces}`;
+}
+
+/**
+ * Create the exported material of a fragments material
+ * @param definition - Fragments material (a neutral grey when the element has none)
+ * @returns Material named after its color
+ */
+export function createGltfMaterial(definition: FRAGS.MaterialDefinition | undefined): THREE.MeshStandardMaterial {
+  const color = definition?.color ?? new THREE.Color(0.8, 0.8, 0.8);
+  const opacity = definition?.opacity ?? 1;
+
+  const material = new THREE.MeshStandardMaterial({
+    color,
+    opacity,
+    transparent: opacity < 1,
+    side: definition?.renderedFaces === RenderedFaces.TWO ? THREE.DoubleSide : THREE.FrontSide,
+    metalness: GLTF_EXPORT_CONFIG.metalness,
+    roughness: GLTF_EXPORT_CONFIG.roughness,
+  });
+  material.name = `#${color.getHexString()}${opacity < 1 ? ` ${Math.round(opacity * 100)}%` : ''}`;
+  return material;
+}
+
+/**
+ * Property sets as nested name → value objects
+ */
+function toPropertyObject(sets: ElementPropertySet[]): Record<string, Record<string, unknown>> {
+  return Object.fromEntries(
+    sets.map((set) => [set.name, Object.fromEntries(set.properties.map((property) => [property.name, property.value]))])
+  );
+}
+
+/**
+ * glTF extras of an element (plain JSON)
+ * @param properties - Element properties
+ * @returns GlobalId, class, name, attributes, property sets and quantity sets
+ */
+export function toGltfExtras(properties: ElementProperties): Record<string, unknown> {
+  return {
+    globalId: properties.globalId,
+    ifcClass: properties.ifcClass,
+    name: properties.name,
+    attributes: Object.fromEntries(properties.attributes.map((attribute) => [attribute.name, attribute.value])),
+    propertySets: toPropertyObject(properties.propertySets),
+    quantitySets: toPropertyObject(properties.quantitySets),
+  };
+}
@@ -0,0 +1,115 @@
+import * as THREE from 'three';
+import type * as FRAGS from '@thatopen/fragments';
+import {
+  createDepthBuffer,
+  getViewBasis,
+  getVisibleSegments,
+  projectSection,
+  projectToView,
+  rasterizeTriangle,
+} from './hidden-line.utils';
+
+describe('Hidden Line Utils', () => {
+  const bounds = { minX: 0, minY: 0, maxX: 10, maxY: 10 };
+
+  // Square facing the viewer at depth 1, covering x and y from 2 to 8
+  const square = () => {
+    const buffer = createDepthBuffer(bounds, 100);
+    rasterizeTriangle(buffer, new THREE.Vector3(2, 2, 1), new THREE.Vector3(8, 2, 1), new THREE.Vector3(8, 8, 1));
+    rasterizeTriangle(buffer, new THREE.Vector3(2, 2, 1), new THREE.Vector3(8, 8, 1), new THREE.Vector3(2, 8, 1));
+    return buffer;
+  };
+
+  describe('getViewBasis', () => {
+    it('should look at the north facade with east on the left', () => {
+      const basis = getViewBasis({ x: 0, y: 0, z: -1 });
+
+      expect(basis.right.x).toBeCloseTo(-1);
+      expect(basis.up.y).toBeCloseTo(1);
+    });
+
+    it('should look at the east facade with north on the right', () => {
+      const basis = getViewBasis({ x: 1, y: 0, z: 0 });
+
+      expect(basis.right.z).toBeCloseTo(-1);
+      expect(basis.up.y).toBeCloseTo(1);
+    });
+
+    it('should keep north up when looking down', () => {
+      const basis = getViewBasis({ x: 0, y: 1, z: 0 });
+
+      expect(basis.right.x).toBeCloseTo(1);
+      expect(basis.up.z).toBeCloseTo(-1);
+    });
+  });
+
+  describe('projectToView', () => {
+    it('should return the view position and the depth towards the viewer', () => {
+      const point = projectToView(new THREE.Vector3(2, 3, -4), getViewBasis({ x: 0, y: 0, z: -1 }));
+
+      expect(point.x).toBeCloseTo(-2);
+      expect(point.y).toBeCloseTo(3);
+      expect(point.z).toBeCloseTo(4);
+    });
+  });
+
+  describe('rasterizeTriangle', () => {
+    it('should keep the nearest depth of each cell', () => {
+      const buffer = square();
+      const cell = 30 * buffer.width + 30;
+
+      rasterizeTriangle(buffer, new THREE.Vector3(0, 0, 0), new THREE.Vector3(10, 0, 0), new THREE.Vector3(0, 10, 0));
+      expect(buffer.depths[cell]).toBeCloseTo(1);
+
+      rasterizeTriangle(buffer, new THREE.Vector3(0, 0, 2), new THREE.Vector3(10, 0, 2), new THREE.Vector3(0, 10, 2));
+      expect(buffer.depths[cell]).toBeCloseTo(2);
+      expect(buffer.depths[0]).toBeCloseTo(2);
+      expect(buffer.depths[buffer.depths.length - 1]).toBe(-Infinity);
+    });
+  });
+
+  describe('getVisibleSegments', () => {
+    it('should hide the parts of an edge behind a face', () => {
+      const segments = getVisibleSegments(square(), new THREE.Vector3(0, 5, 0), new THREE.Vector3(10, 5, 0));
+
+      expect(segments.length).toBe(2);
+      expect(segments[0]![0]!.x).toBeCloseTo(0);
+      expect(segments[0]![1]!.x).toBeCloseTo(2, 0);
+      expect(segments[1]![0]!.x).toBeCloseTo(8, 0);
+      expect(segments[1]![1]!.x).toBeCloseTo(10);
+    });
+
+    it('should keep edges in front of and on a face', () => {
+      const buffer = square();
+
+      expect(getVisibleSegments(buffer, new THREE.Vector3(0, 5, 2), new THREE.Vector3(10, 5, 2)).length).toBe(1);
+      expect(getVisibleSegments(buffer, new THREE.Vector3(2, 2, 1), new THREE.Vector3(8, 2, 1))).toEqual([
+        [
+          { x: 2, y: 2 },
+          { x: 8, y: 2 },
+        ],
+      ]);
+    });
+
+    it('should skip edges seen end-on', () => {
+      expect(getVisibleSegments(square(), new THREE.Vector3(1, 1, 0), new THREE.Vector3(1, 1, 3))).toEqual([]);
+    });
+  });
+
+  describe('projectSection', () => {
+    it('should project the cut edges and fills onto the view', () => {
+      const section = {
+        buffer: new Float32Array([0, 0, 0, 1, 0, 0, 1, 2, 0]),
+        index: 2,
+        fillsIndices: [0, 1, 2],
+      } as unknown as FRAGS.ModelSection;
+
+      const drawing = projectSection(section, getViewBasis({ x: 0, y: 0, z: 1 }));
+
+      expect(drawing.cutEdges.length).toBe(1);
+      expect(drawing.cutEdges[0]![1]!.x).toBeCloseTo(1);
+      expect(drawing.cutFills[0]![2]!.y).toBeCloseTo(2);
+      expect(drawing.projectionEdges).toEqual([]);
+    });
+  });
+});
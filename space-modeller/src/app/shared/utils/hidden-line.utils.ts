@@ -0,0 +1,220 @@
+import * as THREE from 'three';
+import type * as FRAGS from '@thatopen/fragments';
+import { DRAWING_VIEW_CONFIG } from '../constants/viewer.constants';
+import { Drawing, DrawingPoint } from '../models/drawing.model';
+import { Vector3Config } from '../models/viewer.model';
+import { DrawingBounds } from './drawing.utils';
+
+/**
+ * Hidden-line utility functions for elevations and sections
+ *
+ * Geometry is projected orthographically onto the view plane: view x points
+ * right, view y points up and the depth grows towards the viewer. Faces are
+ * rasterized into a depth buffer and edges are only drawn where no face lies
+ * in front of them.
+ */
+
+/**
+ * Axes of an orthographic view in world space
+ */
+export interface ViewBasis {
+  /** View x axis */
+  right: THREE.Vector3;
+  /** View y axis */
+  up: THREE.Vector3;
+  /** Unit vector towards the viewer */
+  direction: THREE.Vector3;
+}
+
+/**
+ * Nearest face depth of each cell of a view
+ */
+export interface DepthBuffer {
+  minX: number;
+  minY: number;
+  cellSize: number;
+  width: number;
+  height: number;
+  /** Row-major depths (-Infinity where no face was drawn) */
+  depths: Float32Array;
+}
+
+/**
+ * Axes of a view looking against a direction
+ * World up stays up; views along the vertical keep project north up
+ * @param direction - Vector from the models towards the viewer
+ */
+export function getViewBasis(direction: Vector3Config): ViewBasis {
+  const towardsViewer = new THREE.Vector3(direction.x, direction.y, direction.z).normalize();
+  const worldUp = Math.abs(towardsViewer.y) > 0.999 ? new THREE.Vector3(0, 0, -1) : new THREE.Vector3(0, 1, 0);
+  const right = new THREE.Vector3().crossVectors(worldUp, towardsViewer).normalize();
+  const up = new THREE.Vector3().crossVectors(towardsViewer, right).normalize();
+
+  return { right, up, direction: towardsViewer };
+}
+
+/**
+ * Project a world position onto a view
+ * @returns View x, view y and depth (larger is nearer)
+ */
+export function projectToView(point: THREE.Vector3, basis: ViewBasis, target = new THREE.Vector3()): THREE.Vector3 {
+  return target.set(point.dot(basis.right), point.dot(basis.up), point.dot(basis.direction));
+}
+
+/**
+ * Create an empty depth buffer covering the given view bounds
+ * @param bounds - View bounds in meters
+ * @param resolution - Cells along the longest side
+ */
+export function createDepthBuffer(
+  bounds: DrawingBounds,
+  resolution: number = DRAWING_VIEW_CONFIG.resolution
+): DepthBuffer {
+  const cellSize = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY, 1e-6) / resolution;
+  const width = Math.max(1, Math.ceil((bounds.maxX - bounds.minX) / cellSize) + 1);
+  const height = Math.max(1, Math.ceil((bounds.maxY - bounds.minY) / cellSize) + 1);
+
+  return {
+    minX: bounds.minX,
+    minY: bounds.minY,
+    cellSize,
+    width,
+    height,
+    depths: new Float32Array(width * height).fill(-Infinity),
+  };
+}
+
+/**
+ * Draw a projected triangle into a depth buffer, keeping the nearest depth of each cell
+ * @param a - View x, y and depth of the first corner
+ */
+export function rasterizeTriangle(buffer: DepthBuffer, a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): void {
+  const area = (b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y);
+  if (Math.abs(area) < 1e-12) {
+    return;
+  }
+
+  // Cell centers inside the triangle
+  const toCell = (value: number, min: number) => (value - min) / buffer.cellSize - 0.5;
+  const startX = Math.max(0, Math.ceil(toCell(Math.min(a.x, b.x, c.x), buffer.minX)));
+  const endX = Math.min(buffer.width - 1, Math.floor(toCell(Math.max(a.x, b.x, c.x), buffer.minX)));
+  const startY = Math.max(0, Math.ceil(toCell(Math.min(a.y, b.y, c.y), buffer.minY)));
+  const endY = Math.min(buffer.height - 1, Math.floor(toCell(Math.max(a.y, b.y, c.y), buffer.minY)));
+
+  for (let row = startY; row <= endY; row++) {
+    const y = buffer.minY + (row + 0.5) * buffer.cellSize;
+    for (let column = startX; column <= endX; column++) {
+      const x = buffer.minX + (column + 0.5) * buffer.cellSize;
+      const u = ((b.x - x) * (c.y - y) - (c.x - x) * (b.y - y)) / area;
+      const v = ((c.x - x) * (a.y - y) - (a.x - x) * (c.y - y)) / area;
+      const w = 1 - u - v;
+      if (u < 0 || v < 0 || w < 0) {
+        continue;
+      }
+
+      const depth = u * a.z + v * b.z + w * c.z;
+      const index = row * buffer.width + column;
+      if (depth > buffer.depths[index]!) {
+        buffer.depths[index] = depth;
+      }
+    }
+  }
+}
+
+/**
+ * Visible parts of a projected edge
+ * A point is visible unless every face around it lies in front of it by more than the tolerance
+ * @param a - View x, y and depth of the edge start
+ * @param b - View x, y and depth of the edge end
+ * @param tolerance - Depth tolerance in meters
+ * @returns Visible line segments in view coordinates (none for edges seen end-on)
+ */
+export function getVisibleSegments(
+  buffer: DepthBuffer,
+  a: THREE.Vector3,
+  b: THREE.Vector3,
+  tolerance: number = DRAWING_VIEW_CONFIG.depthTolerance
+): DrawingPoint[][] {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  // Edges along the view direction collapse to a point
+  if (length < 1e-9) {
+    return [];
+  }
+
+  const steps = Math.max(1, Math.ceil((2 * length) / buffer.cellSize));
+  const segments: DrawingPoint[][] = [];
+  let start: number | null = null;
+
+  const pointAt = (t: number): DrawingPoint => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+  for (let step = 0; step <= steps; step++) {
+    const t = step / steps;
+    const visible = isVisible(buffer, pointAt(t), a.z + (b.z - a.z) * t, tolerance);
+
+    if (visible && start === null) {
+      start = t;
+    } else if (!visible && start !== null) {
+      const end = (step - 1) / steps;
+      if (end > start) {
+        segments.push([pointAt(start), pointAt(end)]);
+      }
+      start = null;
+    }
+  }
+
+  if (start !== null && start < 1) {
+    segments.push([pointAt(start), pointAt(1)]);
+  }
+
+  return segments;
+}
+
+/**
+ * Cut faces and outlines of a section seen from a view
+ * @param section - Section with world space positions
+ * @param basis - View axes
+ * @returns Drawing with the cut fills and edges
+ */
+export function projectSection(section: FRAGS.ModelSection, basis: ViewBasis): Drawing {
+  const vertex = new THREE.Vector3();
+  const projected = new THREE.Vector3();
+  const point = (index: number): DrawingPoint => {
+    projectToView(vertex.fromArray(section.buffer, index * 3), basis, projected);
+    return { x: projected.x, y: projected.y };
+  };
+
+  const cutEdges: DrawingPoint[][] = [];
+  for (let index = 0; index + 1 < section.index; index += 2) {
+    cutEdges.push([point(index), point(index + 1)]);
+  }
+
+  const cutFills: DrawingPoint[][] = [];
+  for (let index = 0; index + 2 < section.fillsIndices.length; index += 3) {
+    cutFills.push([0, 1, 2].map((offset) => point(section.fillsIndices[index + offset]!)));
+  }
+
+  return { cutFills, cutEdges, projectionEdges: [] };
+}
+
+/**
+ * Whether a view position at a depth is in front of the faces of the surrounding cells
+ */
+function isVisible(buffer: DepthBuffer, point: DrawingPoint, depth: number, tolerance: number): boolean {
+  const column = Math.floor((point.x - buffer.minX) / buffer.cellSize);
+  const row = Math.floor((point.y - buffer.minY) / buffer.cellSize);
+  // Faces get steep towards an outline, so a cell more is allowed
+  const limit = depth + tolerance + buffer.cellSize;
+
+  for (let y = row - 1; y <= row + 1; y++) {
+    for (let x = column - 1; x <= column + 1; x++) {
+      if (x < 0 || y < 0 || x >= buffer.width || y >= buffer.height) {
+        return true;
+      }
+      if (buffer.depths[y * buffer.width + x]! <= limit) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,148 @@
+import * as THREE from 'three';
+import {
+  getAxisPlacementMatrix,
+  getEditedSpaceQuantities,
+  getObjectPlacementMatrix,
+  getSpaceBaseQuantities,
+  getSpaceProfile,
+  toIfcPoint,
+} from './ifc-writer.utils';
+import { IfcLineData } from '../models/ifc.model';
+import { AuthoredSpace } from '../models/space.model';
+import { DEFAULT_PROJECT_UNITS } from '../constants/viewer.constants';
+
+describe('IFC Writer Utils', () => {
+  const values = (numbers: number[]) => numbers.map((value) => ({ type: 4, value }));
+
+  const axisPlacement = (location: number[], refDirection?: number[]): IfcLineData => ({
+    Location: { Coordinates: values(location) },
+    Axis: null,
+    RefDirection: refDirection ? { DirectionRatios: values(refDirection) } : null,
+  });
+
+  const placement = (location: number[], refDirection?: number[], relTo: IfcLineData | null = null): IfcLineData => ({
+    PlacementRelTo: relTo,
+    RelativePlacement: axisPlacement(location, refDirection),
+  });
+
+  const space: AuthoredSpace = {
+    id: 'a',
+    modelId: 'm1',
+    storey: 'Level 1',
+    storeyGlobalId: null,
+    number: '101',
+    name: 'Office',
+    usage: 'Work',
+    outline: [
+      { x: 0, y: 0 },
+      { x: 4, y: 0 },
+      { x: 4, y: 3 },
+      { x: 0, y: 3 },
+    ],
+    elevation: 3,
+    height: 2.5,
+    createdAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const expectPoint = (point: THREE.Vector3, x: number, y: number, z: number) => {
+    expect(point.distanceTo(new THREE.Vector3(x, y, z))).toBeLessThan(1e-9);
+  };
+
+  describe('getAxisPlacementMatrix', () => {
+    it('should place at the location with the default axes', () => {
+      const matrix = getAxisPlacementMatrix(axisPlacement([1, 2, 3]));
+
+      expectPoint(new THREE.Vector3(1, 0, 0).applyMatrix4(matrix), 2, 2, 3);
+    });
+
+    it('should rotate to the reference direction', () => {
+      const matrix = getAxisPlacementMatrix(axisPlacement([0, 0, 0], [0, 1, 0]));
+
+      expectPoint(new THREE.Vector3(1, 0, 0).applyMatrix4(matrix), 0, 1, 0);
+      expectPoint(new THREE.Vector3(0, 1, 0).applyMatrix4(matrix), -1, 0, 0);
+    });
+  });
+
+  describe('getObjectPlacementMatrix', () => {
+    it('should follow the placement chain', () => {
+      const site = placement([10, 0, 0], [0, 1, 0]);
+      const storey = placement([0, 0, 3], undefined, site);
+
+      const matrix = getObjectPlacementMatrix(storey);
+
+      expectPoint(new THREE.Vector3(1, 0, 0).applyMatrix4(matrix), 10, 1, 3);
+    });
+
+    it('should ignore unresolved references', () => {
+      const storey = placement([0, 0, 3], undefined, { type: 5, value: 12 } as IfcLineData);
+
+      expectPoint(new THREE.Vector3().applyMatrix4(getObjectPlacementMatrix(storey)), 0, 0, 3);
+      expect(getObjectPlacementMatrix(null).equals(new THREE.Matrix4())).toBe(true);
+    });
+  });
+
+  describe('toIfcPoint', () => {
+    it('should convert world to Z up IFC coordinates', () => {
+      const matrix = new THREE.Matrix4().makeTranslation(0, 0, 5);
+
+      expectPoint(toIfcPoint(new THREE.Vector3(1, 2, 3), matrix, [1, 0, 0]), 0, 2, 2);
+    });
+  });
+
+  describe('getSpaceProfile', () => {
+    it('should place the outline relative to the storey in file units', () => {
+      const storeyMatrix = new THREE.Matrix4().makeTranslation(1000, 0, 3000);
+
+      const profile = getSpaceProfile(space, new THREE.Matrix4(), null, storeyMatrix, 1000);
+
+      expect(profile.elevation).toBeCloseTo(0);
+      expect(profile.depth).toBe(2500);
+      expect(profile.points[0]!.x).toBeCloseTo(-1000);
+      expect(profile.points[2]!.x).toBeCloseTo(3000);
+      expect(profile.points[2]!.y).toBeCloseTo(3000);
+    });
+
+    it('should keep the outline counter-clockwise', () => {
+      const mirrored = new THREE.Matrix4().makeScale(-1, 1, 1);
+
+      const profile = getSpaceProfile(space, new THREE.Matrix4(), null, mirrored, 1);
+      const [a, b, c] = profile.points;
+
+      expect((b!.x - a!.x) * (c!.y - a!.y) - (b!.y - a!.y) * (c!.x - a!.x)).toBeGreaterThan(0);
+    });
+  });
+
+  describe('getSpaceBaseQuantities', () => {
+    it('should compute the quantities from the outline and height', () => {
+      const quantities = getSpaceBaseQuantities(space);
+      const value = (name: string) => quantities.find((quantity) => quantity.name === name)?.value;
+
+      expect(value('NetFloorArea')).toBeCloseTo(12);
+      expect(value('GrossPerimeter')).toBeCloseTo(14);
+      expect(value('Height')).toBeCloseTo(2.5);
+      expect(value('NetVolume')).toBeCloseTo(30);
+    });
+
+    it('should convert the values to the project units', () => {
+      const units = { ...DEFAULT_PROJECT_UNITS, length: { symbol: 'mm', factor: 1000, decimals: 0 } };
+
+      const height = getSpaceBaseQuantities(space, units).find((quantity) => quantity.name === 'Height');
+
+      expect(height!.value).toBeCloseTo(2500);
+      expect(height!.measure).toBe('length');
+    });
+  });
+
+  describe('getEditedSpaceQuantities', () => {
+    it('should name the edited quantities and convert them to the project units', () => {
+      const units = { ...DEFAULT_PROJECT_UNITS, length: { symbol: 'mm', factor: 1000, decimals: 0 } };
+
+      const quantities = getEditedSpaceQuantities({ volume: 30, perimeter: 14 }, units);
+
+      expect(quantities).toEqual([
+        { name: 'NetVolume', names: ['NetVolume', 'GrossVolume'], measure: 'volume', value: 30 },
+        { name: 'GrossPerimeter', names: ['GrossPerimeter', 'NetPerimeter'], measure: 'length', value: 14000 },
+      ]);
+    });
+  });
+});
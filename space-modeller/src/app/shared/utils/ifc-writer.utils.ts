@@ -0,0 +1,195 @@
+import * as THREE from 'three';
+import { IfcLineData } from '../models/ifc.model';
+import { ProjectUnits } from '../models/measurement.model';
+import {
+  AuthoredSpace,
+  EditedSpaceQuantity,
+  SpaceBaseQuantity,
+  SpaceEdit,
+  SpaceProfile,
+  SpaceQuantityKey,
+} from '../models/space.model';
+import { DEFAULT_PROJECT_UNITS, SPACE_CONFIG } from '../constants/viewer.constants';
+import { getOutlineArea, getOutlinePerimeter, getOutlineSignedArea } from './space-authoring.utils';
+
+/**
+ * IFC writer utility functions
+ * IFC coordinates are Z up, world coordinates are Y up with the plan y axis pointing to -Z
+ */
+
+/**
+ * Matrix of an IfcAxis2Placement3D (or 2D) line
+ * The X axis is the reference direction made perpendicular to the Z axis
+ * @param placement - Flattened placement line
+ * @returns Placement matrix in file units
+ */
+export function getAxisPlacementMatrix(placement: IfcLineData): THREE.Matrix4 {
+  const location = readNumbers(readLine(placement, 'Location')?.['Coordinates']);
+  const axis = readNumbers(readLine(placement, 'Axis')?.['DirectionRatios']);
+  const refDirection = readNumbers(readLine(placement, 'RefDirection')?.['DirectionRatios']);
+
+  const z = axis.length === 3 ? new THREE.Vector3(axis[0], axis[1], axis[2]).normalize() : new THREE.Vector3(0, 0, 1);
+  const x =
+    refDirection.length >= 2
+      ? new THREE.Vector3(refDirection[0], refDirection[1], refDirection[2] ?? 0)
+      : new THREE.Vector3(1, 0, 0);
+  x.addScaledVector(z, -x.dot(z));
+  if (x.lengthSq() < 1e-12) {
+    // Reference direction parallel to the axis
+    x.set(1, 0, 0).addScaledVector(z, -z.x);
+    if (x.lengthSq() < 1e-12) {
+      x.set(0, 1, 0).addScaledVector(z, -z.y);
+    }
+  }
+  x.normalize();
+  const y = new THREE.Vector3().crossVectors(z, x);
+
+  return new THREE.Matrix4()
+    .makeBasis(x, y, z)
+    .setPosition(location[0] ?? 0, location[1] ?? 0, location[2] ?? 0);
+}
+
+/**
+ * Absolute matrix of an IfcObjectPlacement, following its PlacementRelTo chain
+ * Placements without a relative placement (e.g. grid placements) count as identity
+ * @param placement - Flattened IfcLocalPlacement line or null
+ * @returns Placement matrix in file units
+ */
+export function getObjectPlacementMatrix(placement: IfcLineData | null): THREE.Matrix4 {
+  const matrix = new THREE.Matrix4();
+  const visited = new Set<IfcLineData>();
+
+  for (let current = placement; current && !visited.has(current); current = readLine(current, 'PlacementRelTo')) {
+    visited.add(current);
+    const relative = readLine(current, 'RelativePlacement');
+    if (relative) {
+      matrix.premultiply(getAxisPlacementMatrix(relative));
+    }
+  }
+
+  return matrix;
+}
+
+/**
+ * Convert a world point to IFC coordinates of a model
+ * Inverse of placing the model: model matrix, then the fragments coordinate offset (Y up)
+ * @param point - World point
+ * @param modelMatrix - World matrix of the model object
+ * @param coordinates - Coordinate offset of the model (fragments getCoordinates)
+ * @returns IFC point in meters (Z up)
+ */
+export function toIfcPoint(
+  point: THREE.Vector3,
+  modelMatrix: THREE.Matrix4,
+  coordinates: number[] | null
+): THREE.Vector3 {
+  const local = point.clone().applyMatrix4(modelMatrix.clone().invert());
+  local.x -= coordinates?.[0] ?? 0;
+  local.y -= coordinates?.[1] ?? 0;
+  local.z -= coordinates?.[2] ?? 0;
+  return new THREE.Vector3(local.x, -local.z, local.y);
+}
+
+/**
+ * Floor outline and extrusion depth of an authored space relative to its storey placement
+ * @param space - Authored space
+ * @param modelMatrix - World matrix of the model object
+ * @param coordinates - Coordinate offset of the model
+ * @param storeyMatrix - Absolute placement matrix of the storey (file units)
+ * @param lengthFactor - File length units per meter (1000 for millimeters)
+ * @returns Profile in file units
+ */
+export function getSpaceProfile(
+  space: AuthoredSpace,
+  modelMatrix: THREE.Matrix4,
+  coordinates: number[] | null,
+  storeyMatrix: THREE.Matrix4,
+  lengthFactor: number
+): SpaceProfile {
+  const toStorey = storeyMatrix.clone().invert();
+  const local = space.outline.map((point) =>
+    toIfcPoint(new THREE.Vector3(point.x, space.elevation, -point.y), modelMatrix, coordinates)
+      .multiplyScalar(lengthFactor)
+      .applyMatrix4(toStorey)
+  );
+
+  const points = local.map((point) => ({ x: point.x, y: point.y }));
+  if (getOutlineSignedArea(points) < 0) {
+    points.reverse();
+  }
+
+  return {
+    elevation: local.reduce((sum, point) => sum + point.z, 0) / Math.max(local.length, 1),
+    points,
+    depth: space.height * lengthFactor,
+  };
+}
+
+/**
+ * Qto_SpaceBaseQuantities of an authored space from its outline and height
+ * @param space - Authored space
+ * @param units - Project units the values are converted to
+ * @returns Quantities in project units
+ */
+export function getSpaceBaseQuantities(
+  space: AuthoredSpace,
+  units: ProjectUnits = DEFAULT_PROJECT_UNITS
+): SpaceBaseQuantity[] {
+  const area = getOutlineArea(space.outline);
+  const quantities: SpaceBaseQuantity[] = [
+    { name: 'Height', measure: 'length', value: space.height },
+    { name: 'GrossPerimeter', measure: 'length', value: getOutlinePerimeter(space.outline) },
+    { name: 'GrossFloorArea', measure: 'area', value: area },
+    { name: 'NetFloorArea', measure: 'area', value: area },
+    { name: 'GrossVolume', measure: 'volume', value: area * space.height },
+    { name: 'NetVolume', measure: 'volume', value: area * space.height },
+  ];
+
+  return quantities.map((quantity) => ({ ...quantity, value: quantity.value * units[quantity.measure].factor }));
+}
+
+/**
+ * Qto_SpaceBaseQuantities of the quantities edited in the room schedule
+ * @param quantities - Edited quantities in meters
+ * @param units - Project units the values are converted to
+ * @returns Quantities in project units, with the names they are read from
+ */
+export function getEditedSpaceQuantities(
+  quantities: SpaceEdit['quantities'],
+  units: ProjectUnits = DEFAULT_PROJECT_UNITS
+): EditedSpaceQuantity[] {
+  const measures: Record<SpaceQuantityKey, SpaceBaseQuantity['measure']> = {
+    netFloorArea: 'area',
+    grossFloorArea: 'area',
+    volume: 'volume',
+    perimeter: 'length',
+  };
+
+  return Object.entries(quantities ?? {}).map(([key, value]) => {
+    const measure = measures[key as SpaceQuantityKey];
+    const names = SPACE_CONFIG.quantityNames[key as SpaceQuantityKey];
+    return { name: names[0], names, measure, value: value * units[measure].factor };
+  });
+}
+
+/**
+ * Nested line of an attribute (null for missing attributes and unresolved references)
+ */
+function readLine(data: IfcLineData, attribute: string): IfcLineData | null {
+  const value = data[attribute];
+  // References that were not flattened are { type, value } handles
+  return value && typeof value === 'object' && !Array.isArray(value) && !('value' in value)
+    ? (value as IfcLineData)
+    : null;
+}
+
+/**
+ * Numbers of a list attribute (plain numbers or { value } objects)
+ */
+function readNumbers(value: unknown): number[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.map((item) => Number(item && typeof item === 'object' && 'value' in item ? item.value : item));
+}
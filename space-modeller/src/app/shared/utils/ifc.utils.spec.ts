@@ -0,0 +1,166 @@
+import type * as FRAGS from '@thatopen/fragments';
+import { getElementMaterialName, getElementTypeName, parseElementProperties, toIfcClassName } from './ifc.utils';
+
+describe('IFC Utils', () => {
+  describe('toIfcClassName', () => {
+    it('should convert upper-case categories to the schema spelling', () => {
+      expect(toIfcClassName('IFCWALL')).toBe('IfcWall');
+      expect(toIfcClassName('IFCWALLSTANDARDCASE')).toBe('IfcWallStandardCase');
+      expect(toIfcClassName('IFCBUILDINGELEMENTPROXY')).toBe('IfcBuildingElementProxy');
+    });
+
+    it('should keep names that already use the schema spelling', () => {
+      expect(toIfcClassName('IfcSlab')).toBe('IfcSlab');
+    });
+
+    it('should fall back to a readable name for unknown entities', () => {
+      expect(toIfcClassName('IFCSOMETHINGNEW')).toBe('IfcSomethingnew');
+    });
+
+    it('should return Unknown for an empty category', () => {
+      expect(toIfcClassName('')).toBe('Unknown');
+    });
+  });
+
+  describe('parseElementProperties', () => {
+    const data: FRAGS.ItemData = {
+      _category: { value: 'IFCWALL' },
+      _localId: { value: 42 },
+      GlobalId: { value: '2O2Fr$t4X7Zf8NOew3FLOH', type: 'IFCGLOBALLYUNIQUEID' },
+      Name: { value: 'Basic Wall:Exterior', type: 'IFCLABEL' },
+      ObjectType: { value: 'Exterior', type: 'IFCLABEL' },
+      Tag: { value: '1234', type: 'IFCIDENTIFIER' },
+      IsDefinedBy: [
+        {
+          _category: { value: 'IFCPROPERTYSET' },
+          Name: { value: 'Pset_WallCommon' },
+          HasProperties: [
+            {
+              _category: { value: 'IFCPROPERTYSINGLEVALUE' },
+              Name: { value: 'IsExternal' },
+              NominalValue: { value: true, type: 'IFCBOOLEAN' },
+            },
+            {
+              _category: { value: 'IFCPROPERTYSINGLEVALUE' },
+              Name: { value: 'FireRating' },
+              NominalValue: { value: 'REI60', type: 'IFCLABEL' },
+            },
+          ],
+        },
+        {
+          _category: { value: 'IFCELEMENTQUANTITY' },
+          Name: { value: 'Qto_WallBaseQuantities' },
+          Quantities: [
+            {
+              _category: { value: 'IFCQUANTITYLENGTH' },
+              Name: { value: 'Length' },
+              LengthValue: { value: 5.2, type: 'IFCLENGTHMEASURE' },
+            },
+            {
+              _category: { value: 'IFCQUANTITYAREA' },
+              Name: { value: 'NetSideArea' },
+              AreaValue: { value: 14.3, type: 'IFCAREAMEASURE' },
+            },
+          ],
+        },
+      ],
+    };
+
+    it('should read the header fields', () => {
+      const result = parseElementProperties(data, 'model-1', 42);
+
+      expect(result.modelId).toBe('model-1');
+      expect(result.localId).toBe(42);
+      expect(result.globalId).toBe('2O2Fr$t4X7Zf8NOew3FLOH');
+      expect(result.name).toBe('Basic Wall:Exterior');
+      expect(result.ifcClass).toBe('IfcWall');
+    });
+
+    it('should list direct attributes without internal or header fields', () => {
+      const result = parseElementProperties(data, 'model-1', 42);
+
+      expect(result.attributes.map((a) => a.name)).toEqual(['ObjectType', 'Tag']);
+    });
+
+    it('should parse property sets', () => {
+      const result = parseElementProperties(data, 'model-1', 42);
+
+      expect(result.propertySets.length).toBe(1);
+      expect(result.propertySets[0]!.name).toBe('Pset_WallCommon');
+      expect(result.propertySets[0]!.properties).toEqual([
+        { name: 'IsExternal', value: true, type: 'IFCBOOLEAN' },
+        { name: 'FireRating', value: 'REI60', type: 'IFCLABEL' },
+      ]);
+    });
+
+    it('should parse quantity sets', () => {
+      const result = parseElementProperties(data, 'model-1', 42);
+
+      expect(result.quantitySets.length).toBe(1);
+      expect(result.quantitySets[0]!.name).toBe('Qto_WallBaseQuantities');
+      expect(result.quantitySets[0]!.properties).toEqual([
+        { name: 'Length', value: 5.2, type: 'IFCLENGTHMEASURE' },
+        { name: 'NetSideArea', value: 14.3, type: 'IFCAREAMEASURE' },
+      ]);
+    });
+
+    it('should fall back to the fragments GUID when GlobalId is missing', () => {
+      const result = parseElementProperties(
+        { _category: { value: 'IFCSLAB' }, _guid: { value: 'guid-from-fragments' } },
+        'model-1',
+        7
+      );
+
+      expect(result.globalId).toBe('guid-from-fragments');
+      expect(result.name).toBeNull();
+      expect(result.propertySets).toEqual([]);
+      expect(result.quantitySets).toEqual([]);
+    });
+  });
+
+  describe('getElementTypeName', () => {
+    it('should read the name of the type object', () => {
+      const data = {
+        ObjectType: { value: 'Generic wall' },
+        IsDefinedBy: [
+          { _category: { value: 'IFCPROPERTYSET' }, Name: { value: 'Pset_WallCommon' } },
+          { _category: { value: 'IFCWALLTYPE' }, Name: { value: 'Basic Wall:200mm' } },
+        ],
+      };
+
+      expect(getElementTypeName(data)).toBe('Basic Wall:200mm');
+    });
+
+    it('should accept IFC2x3 door and window styles', () => {
+      const data = { IsDefinedBy: [{ _category: { value: 'IFCDOORSTYLE' }, Name: { value: 'Single Flush' } }] };
+
+      expect(getElementTypeName(data)).toBe('Single Flush');
+    });
+
+    it('should fall back to the ObjectType attribute', () => {
+      expect(getElementTypeName({ ObjectType: { value: 'Generic wall' }, IsDefinedBy: [] })).toBe('Generic wall');
+      expect(getElementTypeName({})).toBeNull();
+    });
+  });
+
+  describe('getElementMaterialName', () => {
+    it('should join the names of the associated materials', () => {
+      const data: FRAGS.ItemData = {
+        HasAssociations: [
+          { _category: { value: 'IFCMATERIALLAYERSET' }, LayerSetName: { value: 'Exterior Wall' } },
+          { _category: { value: 'IFCMATERIAL' }, Name: { value: 'Concrete' } },
+          { _category: { value: 'IFCCLASSIFICATIONREFERENCE' }, Name: { value: 'Ss_25_10' } },
+        ],
+      };
+
+      expect(getElementMaterialName(data)).toBe('Exterior Wall, Concrete');
+    });
+
+    it('should return null without named materials', () => {
+      const usage = { HasAssociations: [{ _category: { value: 'IFCMATERIALLAYERSETUSAGE' } }] };
+
+      expect(getElementMaterialName(usage)).toBeNull();
+      expect(getElementMaterialName({})).toBeNull();
+    });
+  });
+});
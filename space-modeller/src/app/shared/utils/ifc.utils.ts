@@ -0,0 +1,238 @@
+import type * as FRAGS from '@thatopen/fragments';
+import { IFC2X3, IFC4, IFC4X3 } from 'web-ifc';
+import {
+  ElementProperties,
+  ElementProperty,
+  ElementPropertySet,
+  ElementPropertyValue,
+} from '../models/selection.model';
+
+/**
+ * IFC utility functions
+ */
+
+/**
+ * Attributes that are shown in the inspector header instead of the attribute list
+ */
+const HEADER_ATTRIBUTES = new Set(['GlobalId', 'Name']);
+
+/**
+ * Lookup of upper-case IFC entity names to their schema spelling
+ * Built lazily from the web-ifc schema namespaces
+ */
+let ifcClassNames: Map<string, string> | null = null;
+
+function getIfcClassNames(): Map<string, string> {
+  if (!ifcClassNames) {
+    ifcClassNames = new Map();
+    for (const schema of [IFC2X3, IFC4, IFC4X3]) {
+      for (const name of Object.keys(schema)) {
+        if (name.startsWith('Ifc')) {
+          ifcClassNames.set(name.toUpperCase(), name);
+        }
+      }
+    }
+  }
+  return ifcClassNames;
+}
+
+/**
+ * Convert an IFC category as stored in fragments (e.g. IFCWALLSTANDARDCASE)
+ * to its schema spelling (e.g. IfcWallStandardCase)
+ * @param category - IFC category in any casing
+ * @returns IFC class name
+ */
+export function toIfcClassName(category: string): string {
+  if (!category) {
+    return 'Unknown';
+  }
+
+  const known = getIfcClassNames().get(category.toUpperCase());
+  if (known) {
+    return known;
+  }
+
+  // Unknown entity: keep the Ifc prefix readable
+  if (/^ifc/i.test(category)) {
+    return `Ifc${category.charAt(3).toUpperCase()}${category.slice(4).toLowerCase()}`;
+  }
+  return category;
+}
+
+/**
+ * Check if a value is a fragments item attribute ({ value, type })
+ */
+function isItemAttribute(value: unknown): value is FRAGS.ItemAttribute {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && 'value' in value;
+}
+
+/**
+ * Read the primitive value of an item attribute
+ */
+function readAttributeValue(attribute: unknown): ElementPropertyValue {
+  if (!isItemAttribute(attribute)) {
+    return null;
+  }
+
+  const value = attribute.value;
+  if (
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  ) {
+    return value;
+  }
+  return value === null || value === undefined ? null : String(value);
+}
+
+/**
+ * Read the IFC category of an item data entry
+ */
+function readCategory(item: FRAGS.ItemData): string {
+  const category = readAttributeValue(item['_category']);
+  return typeof category === 'string' ? category : '';
+}
+
+/**
+ * Convert a single IfcProperty or IfcPhysicalQuantity to an element property
+ * The value is read from NominalValue or the first *Value attribute (LengthValue, AreaValue, ...)
+ */
+function toElementProperty(item: FRAGS.ItemData): ElementProperty | null {
+  const name = readAttributeValue(item['Name']);
+  if (name === null) {
+    return null;
+  }
+
+  const valueKey =
+    'NominalValue' in item
+      ? 'NominalValue'
+      : Object.keys(item).find((key) => key.endsWith('Value') && isItemAttribute(item[key]));
+
+  const attribute = valueKey ? item[valueKey] : undefined;
+  return {
+    name: String(name),
+    value: readAttributeValue(attribute),
+    type: isItemAttribute(attribute) ? attribute.type : undefined,
+  };
+}
+
+/**
+ * Convert an IfcPropertySet or IfcElementQuantity to an element property set
+ */
+function toElementPropertySet(item: FRAGS.ItemData, childKey: string): ElementPropertySet {
+  const children = item[childKey];
+  const properties = Array.isArray(children)
+    ? children
+        .map((child) => toElementProperty(child))
+        .filter((property): property is ElementProperty => property !== null)
+    : [];
+
+  return {
+    name: String(readAttributeValue(item['Name']) ?? 'Unnamed'),
+    properties,
+  };
+}
+
+/**
+ * Build the inspector properties of an element from fragments item data
+ * Expects data requested with the IsDefinedBy relation (property and quantity sets)
+ *
+ * @param data - Item data returned by FragmentsModel.getItemsData
+ * @param modelId - Fragment model UUID
+ * @param localId - Local ID of the item
+ * @returns Element properties
+ */
+export function parseElementProperties(
+  data: FRAGS.ItemData,
+  modelId: string,
+  localId: number
+): ElementProperties {
+  const attributes: ElementProperty[] = [];
+  const propertySets: ElementPropertySet[] = [];
+  const quantitySets: ElementPropertySet[] = [];
+
+  for (const [key, entry] of Object.entries(data)) {
+    if (key.startsWith('_') || HEADER_ATTRIBUTES.has(key) || !isItemAttribute(entry)) {
+      continue;
+    }
+    attributes.push({ name: key, value: readAttributeValue(entry), type: entry.type });
+  }
+
+  const definitions = data['IsDefinedBy'];
+  if (Array.isArray(definitions)) {
+    for (const definition of definitions) {
+      const category = readCategory(definition).toUpperCase();
+      if (category === 'IFCELEMENTQUANTITY') {
+        quantitySets.push(toElementPropertySet(definition, 'Quantities'));
+      } else if (category === 'IFCPROPERTYSET') {
+        propertySets.push(toElementPropertySet(definition, 'HasProperties'));
+      }
+    }
+  }
+
+  const globalId = readAttributeValue(data['GlobalId']) ?? readAttributeValue(data['_guid']);
+  const name = readAttributeValue(data['Name']);
+
+  return {
+    modelId,
+    localId,
+    globalId: globalId === null ? null : String(globalId),
+    name: name === null ? null : String(name),
+    ifcClass: toIfcClassName(readCategory(data)),
+    attributes,
+    propertySets,
+    quantitySets,
+  };
+}
+
+/**
+ * Name of the type object of an element (IfcWallType, IfcDoorStyle...)
+ * Fragments lists the IfcRelDefinesByType objects with the property sets under IsDefinedBy;
+ * falls back to the ObjectType attribute when the element has no type object
+ *
+ * @param data - Item data requested with the IsDefinedBy relation
+ * @returns Type name or null
+ */
+export function getElementTypeName(data: FRAGS.ItemData): string | null {
+  const definitions = data['IsDefinedBy'];
+  if (Array.isArray(definitions)) {
+    const type = definitions.find((definition) => /(TYPE|STYLE)$/.test(readCategory(definition).toUpperCase()));
+    const name = type ? readAttributeValue(type['Name']) : null;
+    if (name !== null && name !== '') {
+      return String(name);
+    }
+  }
+
+  const objectType = readAttributeValue(data['ObjectType']);
+  return objectType === null || objectType === '' ? null : String(objectType);
+}
+
+/**
+ * Names of the materials associated with an element (IfcRelAssociatesMaterial)
+ * Reads IfcMaterial, IfcMaterialList, layer, profile and constituent sets and their usages
+ *
+ * @param data - Item data requested with the HasAssociations relation
+ * @returns Material names joined by ", " or null
+ */
+export function getElementMaterialName(data: FRAGS.ItemData): string | null {
+  const associations = data['HasAssociations'];
+  if (!Array.isArray(associations)) {
+    return null;
+  }
+
+  const names = new Set<string>();
+  for (const association of associations) {
+    if (!readCategory(association).toUpperCase().startsWith('IFCMATERIAL')) {
+      continue;
+    }
+
+    const name = ['Name', 'LayerSetName', 'MaterialSetName']
+      .map((key) => readAttributeValue(association[key]))
+      .find((value) => value !== null && value !== '');
+    if (name !== undefined && name !== null) {
+      names.add(String(name));
+    }
+  }
+
+  return names.size > 0 ? Array.from(names).join(', ') : null;
+}
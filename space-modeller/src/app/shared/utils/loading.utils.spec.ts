@@ -0,0 +1,74 @@
+import {
+  createAbortError,
+  getConversionProgress,
+  getStagedProgress,
+  isAbortError,
+  throwIfAborted,
+} from './loading.utils';
+
+describe('Loading Utils', () => {
+  describe('getStagedProgress', () => {
+    it('should map stage progress to the overall progress', () => {
+      expect(getStagedProgress('reading', 0)).toBe(0);
+      expect(getStagedProgress('geometry', 0.5)).toBeCloseTo(42.5);
+      expect(getStagedProgress('post-processing', 1)).toBe(100);
+    });
+
+    it('should clamp progress outside the stage', () => {
+      expect(getStagedProgress('parsing', 2)).toBe(15);
+      expect(getStagedProgress('parsing', -1)).toBe(5);
+    });
+  });
+
+  describe('getConversionProgress', () => {
+    it('should report parsing when the conversion starts', () => {
+      expect(getConversionProgress(0, { process: 'conversion', state: 'start' })).toEqual({
+        stage: 'parsing',
+        progress: 15,
+      });
+    });
+
+    it('should spread geometry over the geometry stage', () => {
+      const result = getConversionProgress(0.25, { process: 'geometries', state: 'inProgress' });
+
+      expect(result.stage).toBe('geometry');
+      expect(result.progress).toBeCloseTo(42.5);
+    });
+
+    it('should report attributes, relations and the end of the conversion as fragments', () => {
+      const attributes = getConversionProgress(0.6, { process: 'attributes', state: 'start' });
+      const relations = getConversionProgress(0.8, { process: 'relations', state: 'inProgress' });
+      const finish = getConversionProgress(1, { process: 'conversion', state: 'finish' });
+
+      expect(attributes).toEqual({ stage: 'fragments', progress: 70 });
+      expect(relations.progress).toBeCloseTo(78);
+      expect(finish.progress).toBeCloseTo(86);
+    });
+  });
+
+  describe('abort errors', () => {
+    it('should recognize cancelled loads', () => {
+      const error = createAbortError('tower');
+
+      expect(error.message).toContain('tower');
+      expect(isAbortError(error)).toBe(true);
+      expect(isAbortError(Object.assign(new Error('aborted'), { name: 'LoadAbortedError' }))).toBe(true);
+    });
+
+    it('should throw only once the signal is aborted', () => {
+      const controller = new AbortController();
+
+      expect(() => throwIfAborted(controller.signal, 'tower')).not.toThrow();
+      expect(() => throwIfAborted(undefined, 'tower')).not.toThrow();
+
+      controller.abort();
+
+      expect(() => throwIfAborted(controller.signal, 'tower')).toThrowMatching(isAbortError);
+    });
+
+    it('should not treat other errors as cancellations', () => {
+      expect(isAbortError(new Error('Load failed'))).toBe(false);
+      expect(isAbortError('AbortError')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import type * as FRAGS from '@thatopen/fragments';
+import { LoadingStage } from '../models/ifc.model';
+import { LOADING_STAGES } from '../constants/viewer.constants';
+
+/**
+ * Model loading utility functions
+ */
+
+/**
+ * Conversion progress where the geometry ends and the attributes start
+ * Matches the progress reported by the fragments IfcImporter
+ */
+const CONVERSION_GEOMETRY_END = 0.5;
+const CONVERSION_ATTRIBUTES_START = 0.6;
+
+/**
+ * Share of the fragments stage covered by the IFC conversion (the rest is building the model)
+ */
+const CONVERSION_FRAGMENTS_SHARE = 0.8;
+
+/**
+ * Overall progress of a point within a loading stage
+ * @param stage - Loading stage
+ * @param fraction - Progress within the stage (0-1)
+ * @returns Overall progress (0-100)
+ */
+export function getStagedProgress(stage: LoadingStage, fraction: number): number {
+  const { start, end } = LOADING_STAGES[stage];
+  const clamped = Math.min(1, Math.max(0, fraction));
+  return start + (end - start) * clamped;
+}
+
+/**
+ * Map progress reported by the IFC conversion to a loading stage
+ * @param progress - Conversion progress (0-1)
+ * @param data - Conversion step
+ * @returns Loading stage and overall progress (0-100)
+ */
+export function getConversionProgress(
+  progress: number,
+  data: FRAGS.ProgressData
+): { stage: LoadingStage; progress: number } {
+  switch (data.process) {
+    case 'conversion':
+      return data.state === 'finish'
+        ? { stage: 'fragments', progress: getStagedProgress('fragments', CONVERSION_FRAGMENTS_SHARE) }
+        : { stage: 'parsing', progress: getStagedProgress('parsing', 1) };
+    case 'geometries':
+      return { stage: 'geometry', progress: getStagedProgress('geometry', progress / CONVERSION_GEOMETRY_END) };
+    default: {
+      const fraction = (progress - CONVERSION_ATTRIBUTES_START) / (1 - CONVERSION_ATTRIBUTES_START);
+      return { stage: 'fragments', progress: getStagedProgress('fragments', fraction * CONVERSION_FRAGMENTS_SHARE) };
+    }
+  }
+}
+
+/**
+ * Error thrown when loading is cancelled (same name as fetch aborts)
+ * @param name - Name of the model being loaded
+ */
+export function createAbortError(name: string): DOMException {
+  return new DOMException(`Loading "${name}" was cancelled`, 'AbortError');
+}
+
+/**
+ * Throw an AbortError if loading was cancelled
+ * @param signal - Cancellation signal
+ * @param name - Name of the model being loaded
+ */
+export function throwIfAborted(signal: AbortSignal | undefined, name: string): void {
+  if (signal?.aborted) {
+    throw createAbortError(name);
+  }
+}
+
+/**
+ * Check whether an error comes from a cancelled load
+ * @param error - Caught error
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    (error instanceof Error || error instanceof DOMException) &&
+    (error.name === 'AbortError' || error.name === 'LoadAbortedError')
+  );
+}
@@ -0,0 +1,198 @@
+import * as THREE from 'three';
+import { SnappingClass } from '@thatopen/fragments';
+import {
+  formatMeasurement,
+  getAngle,
+  getFaceArea,
+  getLabelScale,
+  getPolylineLength,
+  measurementsToCsv,
+  parseProjectUnits,
+  selectSnapResult,
+  toMeasurementPoint,
+  toMeasurementSnap,
+} from './measurement.utils';
+import { Measurement } from '../models/measurement.model';
+import { DEFAULT_PROJECT_UNITS } from '../constants/viewer.constants';
+
+describe('Measurement Utils', () => {
+  const unit = (type: string, name: string, prefix?: string) => ({
+    _category: { value: 'IFCSIUNIT' },
+    UnitType: { value: type },
+    Name: { value: name },
+    ...(prefix ? { Prefix: { value: prefix } } : {}),
+  });
+
+  describe('toMeasurementPoint', () => {
+    it('should convert a vector to a plain object', () => {
+      expect(toMeasurementPoint(new THREE.Vector3(1, 2, 3))).toEqual({ x: 1, y: 2, z: 3 });
+    });
+  });
+
+  describe('getPolylineLength', () => {
+    it('should sum the segment lengths', () => {
+      const points = [new THREE.Vector3(0, 0, 0), new THREE.Vector3(3, 0, 0), new THREE.Vector3(3, 4, 0)];
+
+      expect(getPolylineLength(points)).toBeCloseTo(7);
+    });
+
+    it('should be zero for a single point', () => {
+      expect(getPolylineLength([new THREE.Vector3(1, 1, 1)])).toBe(0);
+    });
+  });
+
+  describe('getAngle', () => {
+    it('should measure the angle at the vertex', () => {
+      const angle = getAngle(new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 0, 0), new THREE.Vector3(0, 0, 1));
+
+      expect(angle).toBeCloseTo(Math.PI / 2);
+    });
+
+    it('should return zero for a degenerate leg', () => {
+      const vertex = new THREE.Vector3(1, 1, 1);
+
+      expect(getAngle(vertex, vertex, new THREE.Vector3())).toBe(0);
+    });
+  });
+
+  describe('getFaceArea', () => {
+    it('should sum the triangle areas of a face', () => {
+      // 4 x 2 rectangle split into two triangles
+      const points = [0, 0, 0, 4, 0, 0, 4, 0, 2, 0, 0, 2];
+      const indices = [0, 1, 2, 0, 2, 3];
+
+      expect(getFaceArea(points, indices)).toBeCloseTo(8);
+    });
+  });
+
+  describe('selectSnapResult', () => {
+    it('should prefer vertices over edges and faces', () => {
+      const results = [
+        { snappingClass: SnappingClass.FACE, distance: 1 },
+        { snappingClass: SnappingClass.POINT, distance: 3 },
+        { snappingClass: SnappingClass.LINE, distance: 2 },
+      ];
+
+      expect(selectSnapResult(results)).toBe(results[1]!);
+    });
+
+    it('should pick the closest result of the same class', () => {
+      const results = [
+        { snappingClass: SnappingClass.LINE, distance: 5 },
+        { snappingClass: SnappingClass.LINE, distance: 2 },
+      ];
+
+      expect(selectSnapResult(results)).toBe(results[1]!);
+      expect(selectSnapResult([])).toBeNull();
+    });
+  });
+
+  describe('toMeasurementSnap', () => {
+    it('should map snapping classes to features', () => {
+      expect(toMeasurementSnap(SnappingClass.POINT)).toBe('vertex');
+      expect(toMeasurementSnap(SnappingClass.LINE)).toBe('edge');
+      expect(toMeasurementSnap(SnappingClass.FACE)).toBe('face');
+    });
+  });
+
+  describe('parseProjectUnits', () => {
+    it('should keep SI defaults without a unit assignment', () => {
+      expect(parseProjectUnits([])).toEqual(DEFAULT_PROJECT_UNITS);
+    });
+
+    it('should read prefixed SI units', () => {
+      const units = parseProjectUnits([
+        {
+          Units: [
+            unit('.LENGTHUNIT.', '.METRE.', '.MILLI.'),
+            unit('AREAUNIT', 'SQUARE_METRE'),
+            unit('VOLUMEUNIT', 'CUBIC_METRE', 'CENTI'),
+            unit('PLANEANGLEUNIT', 'RADIAN'),
+          ],
+        },
+      ]);
+
+      expect(units.length).toEqual({ symbol: 'mm', factor: 1000, decimals: 0 });
+      expect(units.area.symbol).toBe('m²');
+      expect(units.volume.symbol).toBe('cm³');
+      expect(units.volume.factor).toBeCloseTo(1e6);
+      expect(units.angle).toEqual({ symbol: 'rad', factor: 1, decimals: 3 });
+    });
+
+    it('should read conversion based units', () => {
+      const units = parseProjectUnits([
+        { Units: [unit('LENGTHUNIT', 'FOOT'), unit('PLANEANGLEUNIT', 'DEGREE')] },
+      ]);
+
+      expect(units.length.symbol).toBe('ft');
+      expect(units.length.factor).toBeCloseTo(1 / 0.3048);
+      expect(units.angle.symbol).toBe('°');
+    });
+
+    it('should read flattened web-ifc lines', () => {
+      const millimeter = {
+        expressID: 2,
+        type: 448429030,
+        UnitType: { type: 3, value: 'LENGTHUNIT' },
+        Name: { type: 3, value: 'METRE' },
+        Prefix: { type: 3, value: 'MILLI' },
+      };
+      const units = parseProjectUnits([{ expressID: 1, type: 253582803, Units: [millimeter] }]);
+
+      expect(units.length).toEqual({ symbol: 'mm', factor: 1000, decimals: 0 });
+    });
+
+    it('should ignore units that are not measured', () => {
+      const units = parseProjectUnits([{ Units: [unit('MASSUNIT', 'GRAM', 'KILO')] }]);
+
+      expect(units).toEqual(DEFAULT_PROJECT_UNITS);
+    });
+  });
+
+  describe('formatMeasurement', () => {
+    it('should format values in the project units', () => {
+      const units = { ...DEFAULT_PROJECT_UNITS, length: { symbol: 'mm', factor: 1000, decimals: 0 } };
+
+      expect(formatMeasurement(1.25, 'distance', units)).toBe('1250 mm');
+      expect(formatMeasurement(12.5, 'area', units)).toBe('12.50 m²');
+      expect(formatMeasurement(Math.PI / 2, 'angle', units)).toBe('90.0°');
+    });
+  });
+
+  describe('measurementsToCsv', () => {
+    it('should export a header and one row per measurement', () => {
+      const measurements: Measurement[] = [
+        {
+          id: '1',
+          type: 'distance',
+          label: 'Distance, 1',
+          value: 2,
+          points: [
+            { x: 0, y: 0, z: 0 },
+            { x: 2, y: 0, z: 0 },
+          ],
+        },
+      ];
+
+      const lines = measurementsToCsv(measurements, DEFAULT_PROJECT_UNITS).split('\n');
+
+      expect(lines[0]).toBe('Label,Type,Value,Unit,Points');
+      expect(lines[1]).toBe('"Distance, 1",distance,2.000,m,(0.000 0.000 0.000) (2.000 0.000 0.000)');
+    });
+  });
+
+  describe('getLabelScale', () => {
+    it('should scale perspective labels per unit of depth', () => {
+      const camera = new THREE.PerspectiveCamera(90, 1, 0.1, 100);
+
+      expect(getLabelScale(camera, 0.5)).toBeCloseTo(1);
+    });
+
+    it('should scale orthographic labels with the zoom', () => {
+      const camera = new THREE.OrthographicCamera(-10, 10, 10, -10);
+      camera.zoom = 2;
+
+      expect(getLabelScale(camera, 0.1)).toBeCloseTo(1);
+    });
+  });
+});
@@ -0,0 +1,333 @@
+import * as THREE from 'three';
+import type * as FRAGS from '@thatopen/fragments';
+import { SnappingClass } from '@thatopen/fragments';
+import {
+  Measurement,
+  MeasurementPoint,
+  MeasurementSnap,
+  MeasurementType,
+  MeasurementUnit,
+  ProjectUnits,
+  UnitItemData,
+} from '../models/measurement.model';
+import { DEFAULT_PROJECT_UNITS } from '../constants/viewer.constants';
+import { toCsv } from './csv.utils';
+
+/**
+ * Measurement utility functions
+ */
+
+/**
+ * SI prefixes of IfcSIUnit (multiplier of the base unit)
+ */
+const SI_PREFIXES: Record<string, { symbol: string; scale: number }> = {
+  KILO: { symbol: 'k', scale: 1e3 },
+  HECTO: { symbol: 'h', scale: 1e2 },
+  DECA: { symbol: 'da', scale: 1e1 },
+  DECI: { symbol: 'd', scale: 1e-1 },
+  CENTI: { symbol: 'c', scale: 1e-2 },
+  MILLI: { symbol: 'm', scale: 1e-3 },
+  MICRO: { symbol: 'µ', scale: 1e-6 },
+};
+
+/**
+ * Common IfcConversionBasedUnit names with their size in SI units
+ */
+const CONVERSION_UNITS: Record<string, { symbol: string; scale: number }> = {
+  INCH: { symbol: 'in', scale: 0.0254 },
+  FOOT: { symbol: 'ft', scale: 0.3048 },
+  YARD: { symbol: 'yd', scale: 0.9144 },
+  'SQUARE INCH': { symbol: 'in²', scale: 0.0254 ** 2 },
+  'SQUARE FOOT': { symbol: 'ft²', scale: 0.3048 ** 2 },
+  'CUBIC INCH': { symbol: 'in³', scale: 0.0254 ** 3 },
+  'CUBIC FOOT': { symbol: 'ft³', scale: 0.3048 ** 3 },
+  DEGREE: { symbol: '°', scale: Math.PI / 180 },
+};
+
+/**
+ * IfcUnitEnum values of the quantities that are measured
+ */
+const UNIT_TYPES: Record<string, keyof ProjectUnits> = {
+  LENGTHUNIT: 'length',
+  AREAUNIT: 'area',
+  VOLUMEUNIT: 'volume',
+  PLANEANGLEUNIT: 'angle',
+};
+
+/**
+ * Power of the length unit in each quantity (used for SI prefixes and decimals)
+ */
+const UNIT_DIMENSIONS: Record<keyof ProjectUnits, number> = {
+  length: 1,
+  area: 2,
+  volume: 3,
+  angle: 0,
+};
+
+/**
+ * Convert a vector to a plain measurement point
+ * @param vector - Three.js vector
+ * @returns Serializable point
+ */
+export function toMeasurementPoint(vector: THREE.Vector3): MeasurementPoint {
+  return { x: vector.x, y: vector.y, z: vector.z };
+}
+
+/**
+ * Total length of a chain of points
+ * @param points - Points in order
+ * @returns Sum of the segment lengths
+ */
+export function getPolylineLength(points: THREE.Vector3[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += points[i]!.distanceTo(points[i - 1]!);
+  }
+  return length;
+}
+
+/**
+ * Angle between two legs sharing a vertex
+ * @param start - End of the first leg
+ * @param vertex - Shared vertex
+ * @param end - End of the second leg
+ * @returns Angle in radians (0 when a leg has no length)
+ */
+export function getAngle(start: THREE.Vector3, vertex: THREE.Vector3, end: THREE.Vector3): number {
+  const a = start.clone().sub(vertex);
+  const b = end.clone().sub(vertex);
+  if (a.lengthSq() === 0 || b.lengthSq() === 0) {
+    return 0;
+  }
+  return a.angleTo(b);
+}
+
+/**
+ * Area of a triangulated face
+ * @param points - Flat xyz coordinates of the face vertices
+ * @param indices - Triangle indices into the vertices
+ * @returns Sum of the triangle areas
+ */
+export function getFaceArea(points: ArrayLike<number>, indices: ArrayLike<number>): number {
+  const vertex = (index: number) =>
+    new THREE.Vector3(points[index * 3], points[index * 3 + 1], points[index * 3 + 2]);
+  const triangle = new THREE.Triangle();
+
+  let area = 0;
+  for (let i = 0; i + 2 < indices.length; i += 3) {
+    triangle.set(vertex(indices[i]!), vertex(indices[i + 1]!), vertex(indices[i + 2]!));
+    area += triangle.getArea();
+  }
+  return area;
+}
+
+/**
+ * Pick the best snap among the results of a snapping raycast
+ * Vertices win over edges and edges over faces; ties go to the closest result
+ * @param results - Snapping raycast results
+ * @returns Best result or null if there is none
+ */
+export function selectSnapResult<T extends Pick<FRAGS.RaycastResult, 'snappingClass' | 'distance'>>(
+  results: T[]
+): T | null {
+  const priority = [SnappingClass.POINT, SnappingClass.LINE, SnappingClass.FACE];
+
+  let best: T | null = null;
+  for (const result of results) {
+    const rank = priority.indexOf(result.snappingClass);
+    if (rank === -1) {
+      continue;
+    }
+
+    const bestRank = best ? priority.indexOf(best.snappingClass) : Infinity;
+    if (!best || rank < bestRank || (rank === bestRank && result.distance < best.distance)) {
+      best = result;
+    }
+  }
+  return best;
+}
+
+/**
+ * Convert a fragments snapping class to the snapped feature
+ * @param snappingClass - Fragments snapping class
+ * @returns Snapped feature
+ */
+export function toMeasurementSnap(snappingClass: SnappingClass): MeasurementSnap {
+  switch (snappingClass) {
+    case SnappingClass.POINT:
+      return 'vertex';
+    case SnappingClass.LINE:
+      return 'edge';
+    default:
+      return 'face';
+  }
+}
+
+/**
+ * Read the primitive value of an item attribute as an upper-case enum string
+ * web-ifc enum values may keep their STEP dots (e.g. .MILLI.)
+ */
+function readEnumValue(data: UnitItemData, name: string): string | null {
+  const attribute = data[name];
+  if (
+    !attribute ||
+    typeof attribute !== 'object' ||
+    !('value' in attribute) ||
+    attribute.value === null ||
+    attribute.value === undefined
+  ) {
+    return null;
+  }
+  return String(attribute.value).replace(/\./g, '').replace(/_/g, ' ').trim().toUpperCase();
+}
+
+/**
+ * Decimals shown for a unit: fewer for small units (mm) and more for large ones (m)
+ */
+function getUnitDecimals(quantity: keyof ProjectUnits, factor: number): number {
+  if (quantity === 'angle') {
+    return factor === 1 ? 3 : 1;
+  }
+
+  const base = DEFAULT_PROJECT_UNITS[quantity].decimals;
+  const dimension = UNIT_DIMENSIONS[quantity];
+  return Math.max(0, base - Math.round(Math.log10(factor) / dimension));
+}
+
+/**
+ * Build the display unit of an IfcSIUnit or IfcConversionBasedUnit
+ */
+function parseUnit(data: UnitItemData, quantity: keyof ProjectUnits): MeasurementUnit | null {
+  const name = readEnumValue(data, 'Name');
+  if (!name) {
+    return null;
+  }
+
+  const conversion = CONVERSION_UNITS[name];
+  if (conversion) {
+    const factor = 1 / conversion.scale;
+    return { symbol: conversion.symbol, factor, decimals: getUnitDecimals(quantity, factor) };
+  }
+
+  const siSymbols: Record<string, string> = {
+    METRE: 'm',
+    'SQUARE METRE': 'm²',
+    'CUBIC METRE': 'm³',
+    RADIAN: 'rad',
+  };
+  const symbol = siSymbols[name];
+  if (!symbol) {
+    return null;
+  }
+
+  const prefix = SI_PREFIXES[readEnumValue(data, 'Prefix') ?? ''];
+  const dimension = UNIT_DIMENSIONS[quantity];
+  const factor = prefix && dimension > 0 ? 1 / prefix.scale ** dimension : 1;
+  return {
+    symbol: prefix && dimension > 0 ? `${prefix.symbol}${symbol}` : symbol,
+    factor,
+    decimals: getUnitDecimals(quantity, factor),
+  };
+}
+
+/**
+ * Read the display units of a project from its IfcUnitAssignment items
+ * Quantities without an assigned unit keep the SI defaults
+ * @param assignments - IfcUnitAssignment items with their Units relation (fragments item data or web-ifc lines)
+ * @returns Project units
+ */
+export function parseProjectUnits(assignments: UnitItemData[]): ProjectUnits {
+  const units: ProjectUnits = { ...DEFAULT_PROJECT_UNITS };
+
+  for (const assignment of assignments) {
+    const assigned = assignment['Units'];
+    if (!Array.isArray(assigned)) {
+      continue;
+    }
+
+    for (const unitData of assigned) {
+      const quantity = UNIT_TYPES[(readEnumValue(unitData, 'UnitType') ?? '').replace(/ /g, '')];
+      const unit = quantity ? parseUnit(unitData, quantity) : null;
+      if (quantity && unit) {
+        units[quantity] = unit;
+      }
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Get the display unit of a measurement type
+ * @param type - Measurement tool
+ * @param units - Project units
+ * @returns Display unit
+ */
+export function getMeasurementUnit(type: MeasurementType, units: ProjectUnits): MeasurementUnit {
+  switch (type) {
+    case 'area':
+      return units.area;
+    case 'volume':
+      return units.volume;
+    case 'angle':
+      return units.angle;
+    default:
+      return units.length;
+  }
+}
+
+/**
+ * Format a measured value in the project units
+ * @param value - Value in SI units
+ * @param type - Measurement tool
+ * @param units - Project units
+ * @returns Value with its unit symbol (e.g. "1250 mm")
+ */
+export function formatMeasurement(value: number, type: MeasurementType, units: ProjectUnits): string {
+  const unit = getMeasurementUnit(type, units);
+  const text = (value * unit.factor).toFixed(unit.decimals);
+  return unit.symbol === '°' ? `${text}°` : `${text} ${unit.symbol}`;
+}
+
+/**
+ * Export measurements as CSV (values in the project units)
+ * @param measurements - Measurements to export
+ * @param units - Project units
+ * @returns CSV text with a header row
+ */
+export function measurementsToCsv(measurements: Measurement[], units: ProjectUnits): string {
+  const header = ['Label', 'Type', 'Value', 'Unit', 'Points'];
+  const rows = measurements.map((measurement) => {
+    const unit = getMeasurementUnit(measurement.type, units);
+    const points = measurement.points
+      .map((p) => `(${p.x.toFixed(3)} ${p.y.toFixed(3)} ${p.z.toFixed(3)})`)
+      .join(' ');
+
+    return [
+      measurement.label,
+      measurement.type,
+      (measurement.value * unit.factor).toFixed(unit.decimals),
+      unit.symbol,
+      points,
+    ];
+  });
+
+  return toCsv([header, ...rows]);
+}
+
+/**
+ * Sprite scale that keeps a label at a fixed fraction of the viewport height
+ * Perspective labels use sizeAttenuation = false, so the scale is per unit of depth
+ * @param camera - Active camera
+ * @param heightFraction - Label height as a fraction of the viewport height
+ * @returns Sprite height in world units
+ */
+export function getLabelScale(
+  camera: THREE.PerspectiveCamera | THREE.OrthographicCamera,
+  heightFraction: number
+): number {
+  if (camera instanceof THREE.PerspectiveCamera) {
+    return heightFraction * 2 * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2);
+  }
+  return (heightFraction * (camera.top - camera.bottom)) / camera.zoom;
+}
@@ -0,0 +1,110 @@
+import * as THREE from 'three';
+import {
+  formatQuota,
+  getQuotaPercent,
+  hashBuffer,
+  selectEvictions,
+  sortByLastOpened,
+  toCachedState,
+} from './model-library.utils';
+import { ModelLoadingStatus } from '../models/ifc.model';
+import { CachedModel } from '../models/model-library.model';
+
+describe('Model Library Utils', () => {
+  const entry = (hash: string, dataSize: number, lastOpened: number): CachedModel => ({
+    hash,
+    fileName: `${hash}.ifc`,
+    dataSize,
+    state: { id: hash, name: hash, status: ModelLoadingStatus.LOADED, progress: 100 },
+    stats: null,
+    storedAt: new Date(0),
+    lastOpenedAt: new Date(lastOpened),
+  });
+
+  describe('hashBuffer', () => {
+    it('should hash content with SHA-256', async () => {
+      const hash = await hashBuffer(new TextEncoder().encode('abc'));
+
+      expect(hash).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    it('should give the same hash for the same content', async () => {
+      const a = await hashBuffer(new Uint8Array([1, 2, 3]));
+      const b = await hashBuffer(new Uint8Array([1, 2, 3]).buffer);
+
+      expect(a).toBe(b);
+    });
+  });
+
+  describe('toCachedState', () => {
+    it('should drop session fields and the bounding box', () => {
+      const cached = toCachedState({
+        id: 'model-1',
+        name: 'tower',
+        status: ModelLoadingStatus.PROCESSING,
+        progress: 40,
+        fragmentUuid: 'uuid',
+        fileSize: 2048,
+        visible: false,
+        stats: {
+          fragmentCount: 1,
+          meshCount: 2,
+          vertexCount: 3,
+          faceCount: 4,
+          boundingBox: {
+            min: new THREE.Vector3(),
+            max: new THREE.Vector3(),
+            size: new THREE.Vector3(),
+            center: new THREE.Vector3(),
+          },
+        },
+      });
+
+      expect(cached).toEqual({
+        id: 'model-1',
+        name: 'tower',
+        status: ModelLoadingStatus.LOADED,
+        progress: 100,
+        fileSize: 2048,
+        loadedAt: undefined,
+        stats: { fragmentCount: 1, meshCount: 2, vertexCount: 3, faceCount: 4 },
+      });
+    });
+  });
+
+  describe('sortByLastOpened', () => {
+    it('should put the most recently opened model first', () => {
+      const sorted = sortByLastOpened([entry('a', 1, 10), entry('b', 1, 30), entry('c', 1, 20)]);
+
+      expect(sorted.map((e) => e.hash)).toEqual(['b', 'c', 'a']);
+    });
+  });
+
+  describe('selectEvictions', () => {
+    const entries = [entry('old', 40, 1), entry('new', 40, 3), entry('mid', 40, 2)];
+
+    it('should evict nothing within the limits', () => {
+      expect(selectEvictions(entries, { maxEntries: 5, maxBytes: 200 }, 40)).toEqual([]);
+    });
+
+    it('should evict the least recently opened models to make room', () => {
+      expect(selectEvictions(entries, { maxEntries: 5, maxBytes: 110 }, 60)).toEqual(['old', 'mid']);
+    });
+
+    it('should keep the entry count below the limit', () => {
+      expect(selectEvictions(entries, { maxEntries: 3, maxBytes: 1000 }, 10)).toEqual(['old']);
+      expect(selectEvictions(entries, { maxEntries: 2, maxBytes: 1000 })).toEqual(['old']);
+    });
+  });
+
+  describe('quota', () => {
+    it('should compute the used share', () => {
+      expect(getQuotaPercent({ usage: 25, quota: 100 })).toBe(25);
+      expect(getQuotaPercent({ usage: 1, quota: 0 })).toBe(0);
+    });
+
+    it('should format usage with formatBytes', () => {
+      expect(formatQuota({ usage: 1536 * 1024, quota: 2 * 1024 * 1024 * 1024 })).toBe('1.5 MB of 2 GB');
+    });
+  });
+});
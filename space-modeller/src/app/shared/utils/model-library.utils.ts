@@ -0,0 +1,102 @@
+import { IFCModelState, ModelLoadingStatus, ModelStatistics } from '../models/ifc.model';
+import { CachedModel, ModelLibraryLimits, StorageQuota } from '../models/model-library.model';
+import { formatBytes } from './three.utils';
+
+/**
+ * Local model library utility functions
+ */
+
+/**
+ * Hash file content with SHA-256
+ * Requires a secure context (https or localhost)
+ * @param buffer - File content
+ * @returns Lower-case hex digest
+ */
+export async function hashBuffer(buffer: Uint8Array | ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Snapshot of a model state that can be stored and reopened later
+ * Session-specific fields (fragment UUID, progress, errors, visibility) are dropped
+ * @param state - Loaded model state
+ */
+export function toCachedState(state: IFCModelState): IFCModelState {
+  return {
+    id: state.id,
+    name: state.name,
+    status: ModelLoadingStatus.LOADED,
+    progress: 100,
+    fileSize: state.fileSize,
+    loadedAt: state.loadedAt,
+    stats: state.stats ? toCachedStatistics(state.stats) : state.stats,
+  };
+}
+
+/**
+ * Statistics without the bounding box (THREE objects lose their prototype in IndexedDB)
+ * @param stats - Model statistics
+ */
+export function toCachedStatistics(stats: ModelStatistics): ModelStatistics {
+  const { boundingBox, ...cached } = stats;
+  return cached;
+}
+
+/**
+ * Sort cached models, most recently opened first
+ * @param entries - Cached models
+ * @returns New sorted array
+ */
+export function sortByLastOpened(entries: CachedModel[]): CachedModel[] {
+  return [...entries].sort((a, b) => b.lastOpenedAt.getTime() - a.lastOpenedAt.getTime());
+}
+
+/**
+ * Pick the least recently opened models to evict so a new model fits the limits
+ * @param entries - Cached models
+ * @param limits - Library limits
+ * @param incomingBytes - Size of the model about to be stored (0 to only enforce the limits)
+ * @returns Hashes of the models to evict
+ */
+export function selectEvictions(
+  entries: CachedModel[],
+  limits: ModelLibraryLimits,
+  incomingBytes = 0
+): string[] {
+  const incomingCount = incomingBytes > 0 ? 1 : 0;
+  let count = entries.length + incomingCount;
+  let bytes = entries.reduce((sum, entry) => sum + entry.dataSize, 0) + incomingBytes;
+
+  const evicted: string[] = [];
+  for (const entry of sortByLastOpened(entries).reverse()) {
+    if (count <= limits.maxEntries && bytes <= limits.maxBytes) {
+      break;
+    }
+    evicted.push(entry.hash);
+    count--;
+    bytes -= entry.dataSize;
+  }
+
+  return evicted;
+}
+
+/**
+ * Share of the storage quota in use
+ * @param quota - Storage usage
+ * @returns Percentage (0-100)
+ */
+export function getQuotaPercent(quota: StorageQuota): number {
+  if (quota.quota <= 0) {
+    return 0;
+  }
+  return Math.min(100, (quota.usage / quota.quota) * 100);
+}
+
+/**
+ * Format storage usage for display, e.g. "12.5 MB of 2 GB"
+ * @param quota - Storage usage
+ */
+export function formatQuota(quota: StorageQuota): string {
+  return `${formatBytes(quota.usage, 1)} of ${formatBytes(quota.quota, 1)}`;
+}
@@ -0,0 +1,97 @@
+import * as THREE from 'three';
+import type * as FRAGS from '@thatopen/fragments';
+import {
+  formatElevation,
+  getEdgeSegments,
+  getNorthAngle,
+  parseTrueNorth,
+  sectionToDrawing,
+  toPlanPoint,
+} from './plan.utils';
+
+describe('Plan Utils', () => {
+  const encode = (text: string) => new TextEncoder().encode(text);
+
+  describe('toPlanPoint', () => {
+    it('should map world -z to plan y', () => {
+      expect(toPlanPoint(new THREE.Vector3(1, 5, 2))).toEqual({ x: 1, y: -2 });
+    });
+  });
+
+  describe('sectionToDrawing', () => {
+    it('should split the section into edges and fill triangles', () => {
+      const section = {
+        buffer: new Float32Array([0, 1, -2, 1, 1, -2, 1, 1, -1, 0, 1, -1]),
+        index: 4,
+        fillsIndices: [0, 1, 2],
+      } as unknown as FRAGS.ModelSection;
+
+      const drawing = sectionToDrawing(section);
+
+      expect(drawing.cutEdges).toEqual([
+        [
+          { x: 0, y: 2 },
+          { x: 1, y: 2 },
+        ],
+        [
+          { x: 1, y: 1 },
+          { x: 0, y: 1 },
+        ],
+      ]);
+      expect(drawing.cutFills.length).toBe(1);
+      expect(drawing.cutFills[0]![2]).toEqual({ x: 1, y: 1 });
+      expect(drawing.projectionEdges).toEqual([]);
+    });
+  });
+
+  describe('getEdgeSegments', () => {
+    it('should return the plan edges of a box without vertical edges', () => {
+      const geometry = new THREE.BoxGeometry(2, 2, 2);
+
+      const segments = getEdgeSegments(geometry);
+
+      // 12 box edges, 4 of them vertical
+      expect(segments.length).toBe(8);
+      geometry.dispose();
+    });
+  });
+
+  describe('parseTrueNorth', () => {
+    it('should read the true north of the model context', () => {
+      const ifc = encode(
+        [
+          "#10=IFCDIRECTION((0.,1.));",
+          "#11=IFCDIRECTION((1.,1.,0.));",
+          "#12=IFCGEOMETRICREPRESENTATIONSUBCONTEXT('Axis','Model',*,*,*,*,#13,$,.MODEL_VIEW.,$);",
+          "#13=IFCGEOMETRICREPRESENTATIONCONTEXT($,'Model',3,1.E-05,#20,#11);",
+        ].join('\n')
+      );
+
+      const north = parseTrueNorth(ifc)!;
+
+      expect(north.x).toBeCloseTo(Math.SQRT1_2);
+      expect(north.y).toBeCloseTo(Math.SQRT1_2);
+    });
+
+    it('should return null without a true north', () => {
+      expect(parseTrueNorth(encode("#13=IFCGEOMETRICREPRESENTATIONCONTEXT($,'Model',3,1.E-05,#20,$);"))).toBeNull();
+      expect(parseTrueNorth(encode('ISO-10303-21;'))).toBeNull();
+    });
+  });
+
+  describe('getNorthAngle', () => {
+    it('should return the clockwise angle to true north', () => {
+      expect(getNorthAngle(new THREE.Vector2(0, 1))).toBeCloseTo(0);
+      expect(getNorthAngle(new THREE.Vector2(1, 0))).toBeCloseTo(Math.PI / 2);
+      expect(getNorthAngle(new THREE.Vector2(-1, 0))).toBeCloseTo(-Math.PI / 2);
+    });
+  });
+
+  describe('formatElevation', () => {
+    it('should format elevations with their sign', () => {
+      expect(formatElevation(3.2)).toBe('+3.20 m');
+      expect(formatElevation(-0.5)).toBe('-0.50 m');
+      expect(formatElevation(-0.001)).toBe('+0.00 m');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import * as THREE from 'three';
+import type * as FRAGS from '@thatopen/fragments';
+import { PLAN_CONFIG } from '../constants/viewer.constants';
+import { Drawing, DrawingPoint } from '../models/drawing.model';
+
+/**
+ * Floor plan utility functions
+ *
+ * Plans look down the world y axis: plan x is world x and plan y is world -z
+ * (the IFC y axis), so project north points up.
+ */
+
+/**
+ * Plan position of a world position
+ */
+export function toPlanPoint(vector: THREE.Vector3): DrawingPoint {
+  return { x: vector.x, y: -vector.z };
+}
+
+/**
+ * Cut faces and outlines of a horizontal section
+ * @param section - Section with world space positions
+ * @returns Drawing with the cut fills and edges
+ */
+export function sectionToDrawing(section: FRAGS.ModelSection): Drawing {
+  const vertex = new THREE.Vector3();
+  const point = (index: number) => toPlanPoint(vertex.fromArray(section.buffer, index * 3));
+
+  const cutEdges: DrawingPoint[][] = [];
+  for (let index = 0; index + 1 < section.index; index += 2) {
+    cutEdges.push([point(index), point(index + 1)]);
+  }
+
+  const cutFills: DrawingPoint[][] = [];
+  for (let index = 0; index + 2 < section.fillsIndices.length; index += 3) {
+    cutFills.push([0, 1, 2].map((offset) => point(section.fillsIndices[index + offset]!)));
+  }
+
+  return { cutFills, cutEdges, projectionEdges: [] };
+}
+
+/**
+ * Plan line segments of the sharp edges of a geometry (world space)
+ * @param geometry - Element geometry
+ * @param thresholdAngle - Minimum angle in degrees between faces
+ */
+export function getEdgeSegments(
+  geometry: THREE.BufferGeometry,
+  thresholdAngle: number = PLAN_CONFIG.edgeAngle
+): DrawingPoint[][] {
+  const edges = new THREE.EdgesGeometry(geometry, thresholdAngle);
+  const positions = edges.getAttribute('position');
+  const start = new THREE.Vector3();
+  const end = new THREE.Vector3();
+  const segments: DrawingPoint[][] = [];
+
+  for (let index = 0; index + 1 < positions.count; index += 2) {
+    start.fromBufferAttribute(positions, index);
+    end.fromBufferAttribute(positions, index + 1);
+
+    // Vertical edges collapse to a point in plan
+    if (Math.abs(start.x - end.x) + Math.abs(start.z - end.z) > 1e-6) {
+      segments.push([toPlanPoint(start), toPlanPoint(end)]);
+    }
+  }
+
+  edges.dispose();
+  return segments;
+}
+
+/**
+ * Find the true north of the model context in an IFC file
+ * @param bytes - IFC (STEP) file
+ * @returns True north direction (x, y) in IFC coordinates or null if not set
+ */
+export function parseTrueNorth(bytes: Uint8Array): THREE.Vector2 | null {
+  const decoder = new TextDecoder();
+  const chunkSize = PLAN_CONFIG.scanChunkSize;
+  // IFCGEOMETRICREPRESENTATIONCONTEXT(ContextIdentifier, ContextType, CoordinateSpaceDimension, Precision, WorldCoordinateSystem, TrueNorth)
+  const contextPattern = /IFCGEOMETRICREPRESENTATIONCONTEXT\s*\(\s*[^,]*,[^,]*,[^,]*,[^,]*,[^,]*,\s*#(\d+)\s*\)/i;
+
+  // Decode in chunks that overlap a little so entities on a chunk border are found
+  let reference: string | null = null;
+  let text = '';
+  for (let start = 0; start < bytes.length && !reference; start += chunkSize) {
+    text = decoder.decode(bytes.subarray(Math.max(0, start - 200), start + chunkSize));
+    reference = contextPattern.exec(text)?.[1] ?? null;
+  }
+  if (!reference) {
+    return null;
+  }
+
+  const directionPattern = new RegExp(`#${reference}\\s*=\\s*IFCDIRECTION\\s*\\(\\s*\\(([^)]*)\\)`, 'i');
+  for (let start = 0; start < bytes.length; start += chunkSize) {
+    text = decoder.decode(bytes.subarray(Math.max(0, start - 200), start + chunkSize));
+    const match = directionPattern.exec(text);
+    if (match) {
+      const [x, y] = match[1]!.split(',').map((value) => parseFloat(value));
+      if (x === undefined || y === undefined || isNaN(x) || isNaN(y) || (x === 0 && y === 0)) {
+        return null;
+      }
+      return new THREE.Vector2(x, y).normalize();
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Clockwise angle from plan up (project north) to true north
+ * @param trueNorth - True north direction in IFC coordinates
+ * @returns Angle in radians
+ */
+export function getNorthAngle(trueNorth: THREE.Vector2): number {
+  return Math.atan2(trueNorth.x, trueNorth.y);
+}
+
+/**
+ * Format an elevation with its sign (e.g. "+3.20 m")
+ */
+export function formatElevation(elevation: number): string {
+  const value = Math.abs(elevation) < 0.005 ? 0 : elevation;
+  return `${value >= 0 ? '+' : '-'}${Math.abs(value).toFixed(2)} m`;
+}
@@ -0,0 +1,184 @@
+import {
+  compareQueryValue,
+  getQueryClassCounts,
+  getQueryFieldValues,
+  getQueryStorageKey,
+  matchWildcard,
+  matchesQuery,
+  parseQuery,
+  parseSavedQueries,
+} from './query.utils';
+import { ScheduleElement } from '../models/export.model';
+import { QUERY_CONFIG } from '../constants/viewer.constants';
+
+describe('Query Utils', () => {
+  const element = (ifcClass: string, name: string, isExternal: boolean, storey = 'Level 2'): ScheduleElement => ({
+    properties: {
+      modelId: 'm1',
+      localId: 1,
+      globalId: '2O2Fr$t4X7Zf8NOew3FLOH',
+      name,
+      ifcClass,
+      attributes: [{ name: 'ObjectType', value: 'Basic Wall' }],
+      propertySets: [
+        {
+          name: 'Pset_WallCommon',
+          properties: [
+            { name: 'IsExternal', value: isExternal },
+            { name: 'FireRating', value: 'REI 60' },
+          ],
+        },
+      ],
+      quantitySets: [{ name: 'Qto_WallBaseQuantities', properties: [{ name: 'Length', value: 4.5 }] }],
+    },
+    storey,
+    type: 'Wall 200',
+    material: 'Concrete',
+  });
+
+  const matches = (query: string, item: ScheduleElement) => matchesQuery(parseQuery(query), item);
+
+  describe('parseQuery', () => {
+    it('should parse classes and comparisons joined by AND', () => {
+      expect(parseQuery('IfcWall AND Pset_WallCommon.IsExternal = true')).toEqual({
+        kind: 'and',
+        left: { kind: 'class', ifcClass: 'IfcWall' },
+        right: { kind: 'comparison', field: 'Pset_WallCommon.IsExternal', operator: '=', value: true },
+      });
+    });
+
+    it('should bind AND tighter than OR', () => {
+      const query = parseQuery('IfcDoor OR IfcWindow and Name ~ "Door*"');
+
+      expect(query.kind).toBe('or');
+      expect(query.kind === 'or' && query.right.kind).toBe('and');
+    });
+
+    it('should parse quoted text, numbers and NOT', () => {
+      expect(parseQuery('NOT (Storey = "Level 2")')).toEqual({
+        kind: 'not',
+        operand: { kind: 'comparison', field: 'Storey', operator: '=', value: 'Level 2' },
+      });
+      expect(parseQuery('Length>=2.5')).toEqual({ kind: 'comparison', field: 'Length', operator: '>=', value: 2.5 });
+      expect(parseQuery("Name = 'say \\'hi\\''")).toEqual({
+        kind: 'comparison',
+        field: 'Name',
+        operator: '=',
+        value: "say 'hi'",
+      });
+    });
+
+    it('should report syntax errors with their position', () => {
+      expect(() => parseQuery('')).toThrowError('Enter a query');
+      expect(() => parseQuery('Name =')).toThrowError('Expected a value after "=" at the end');
+      expect(() => parseQuery('IfcWall AND')).toThrowError('Expected a condition at the end');
+      expect(() => parseQuery('(IfcWall')).toThrowError('Expected ")" at the end');
+      expect(() => parseQuery('Wall AND IfcDoor')).toThrowError('Expected an operator after "Wall" at position 6');
+      expect(() => parseQuery('Name = "Door')).toThrowError('Unterminated text at position 8');
+      expect(() => parseQuery('IfcWall IfcDoor')).toThrowError('Unexpected "IfcDoor" at position 9');
+    });
+  });
+
+  describe('matchesQuery', () => {
+    const wall = element('IfcWall', 'Wall-01', true);
+    const door = element('IfcDoor', 'Door-12', false, 'Level 1');
+
+    it('should match the example queries', () => {
+      expect(matches('IfcWall AND Pset_WallCommon.IsExternal = true', wall)).toBe(true);
+      expect(matches('IfcWall AND Pset_WallCommon.IsExternal = true', door)).toBe(false);
+      expect(matches('Storey = "Level 2" AND Name ~ "Door*"', wall)).toBe(false);
+      expect(matches('Storey = "Level 1" AND Name ~ "Door*"', door)).toBe(true);
+    });
+
+    it('should ignore the case of classes, fields and text', () => {
+      expect(matches('ifcwall and name = wall-01', wall)).toBe(true);
+      expect(matches('pset_wallcommon.firerating = "rei 60"', wall)).toBe(true);
+    });
+
+    it('should support NOT and OR', () => {
+      expect(matches('NOT IfcWall', door)).toBe(true);
+      expect(matches('IfcSlab OR IfcDoor', door)).toBe(true);
+    });
+
+    it('should not match missing fields', () => {
+      expect(matches('Pset_DoorCommon.FireRating = "REI 60"', wall)).toBe(false);
+      expect(matches('Pset_DoorCommon.FireRating != "REI 60"', wall)).toBe(false);
+    });
+  });
+
+  describe('getQueryFieldValues', () => {
+    const wall = element('IfcWall', 'Wall-01', true);
+
+    it('should resolve base fields, attributes and properties', () => {
+      expect(getQueryFieldValues(wall, 'Class')).toEqual(['IfcWall']);
+      expect(getQueryFieldValues(wall, 'type')).toEqual(['Wall 200']);
+      expect(getQueryFieldValues(wall, 'Material')).toEqual(['Concrete']);
+      expect(getQueryFieldValues(wall, 'ObjectType')).toEqual(['Basic Wall']);
+      expect(getQueryFieldValues(wall, 'Qto_WallBaseQuantities.Length')).toEqual([4.5]);
+      expect(getQueryFieldValues(wall, 'FireRating')).toEqual(['REI 60']);
+      expect(getQueryFieldValues(wall, 'constructor')).toEqual([]);
+    });
+  });
+
+  describe('compareQueryValue', () => {
+    it('should compare numbers numerically', () => {
+      expect(compareQueryValue(4.5, '>', 4)).toBe(true);
+      expect(compareQueryValue('10', '<=', 9)).toBe(false);
+      expect(compareQueryValue(0.1 + 0.2, '=', 0.3)).toBe(true);
+      expect(compareQueryValue('abc', '>', 1)).toBe(false);
+    });
+
+    it('should read IFC logicals as booleans', () => {
+      expect(compareQueryValue('.T.', '=', true)).toBe(true);
+      expect(compareQueryValue('FALSE', '!=', true)).toBe(true);
+    });
+
+    it('should never match null values', () => {
+      expect(compareQueryValue(null, '!=', 'x')).toBe(false);
+    });
+  });
+
+  describe('matchWildcard', () => {
+    it('should match wildcards and contained text', () => {
+      expect(matchWildcard('Door-12', 'door*')).toBe(true);
+      expect(matchWildcard('Door-12', 'D??r-1?')).toBe(true);
+      expect(matchWildcard('Main Door', 'Door*')).toBe(false);
+      expect(matchWildcard('Main Door', 'door')).toBe(true);
+      expect(matchWildcard('a.b', 'a?b')).toBe(true);
+      expect(matchWildcard('axb', 'a.b')).toBe(false);
+    });
+  });
+
+  describe('getQueryClassCounts', () => {
+    it('should count the elements of each class', () => {
+      const elements = [element('IfcWall', 'A', true), element('IfcDoor', 'B', true), element('IfcWall', 'C', true)];
+
+      expect(getQueryClassCounts(elements)).toEqual([
+        { name: 'IfcDoor', count: 1 },
+        { name: 'IfcWall', count: 2 },
+      ]);
+    });
+  });
+
+  describe('getQueryStorageKey', () => {
+    it('should key the saved queries by user', () => {
+      expect(getQueryStorageKey(' Jane@Example.com ')).toBe(`${QUERY_CONFIG.storagePrefix}jane@example.com`);
+      expect(getQueryStorageKey('')).toBe(`${QUERY_CONFIG.storagePrefix}${QUERY_CONFIG.anonymousUser}`);
+    });
+  });
+
+  describe('parseSavedQueries', () => {
+    it('should skip invalid entries', () => {
+      const queries = parseSavedQueries(
+        JSON.stringify([{ id: 'q1', name: 'External walls', query: 'IfcWall' }, { name: 'No query' }, 'x'])
+      );
+
+      expect(queries.length).toBe(1);
+      expect(queries[0]!.name).toBe('External walls');
+    });
+
+    it('should return no queries for other JSON', () => {
+      expect(parseSavedQueries('{}')).toEqual([]);
+    });
+  });
+});
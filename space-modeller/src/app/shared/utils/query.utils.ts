@@ -0,0 +1,432 @@
+import { QUERY_CONFIG } from '../constants/viewer.constants';
+import { ScheduleElement } from '../models/export.model';
+import { ElementPropertyValue } from '../models/selection.model';
+import { QueryClassCount, QueryNode, QueryOperator, QueryValue, SavedQuery } from '../models/query.model';
+
+/**
+ * Property query utility functions
+ *
+ * Grammar (keywords and field names are case-insensitive):
+ *
+ *   query      = or
+ *   or         = and { "OR" and }
+ *   and        = not { "AND" not }
+ *   not        = "NOT" not | "(" query ")" | comparison | class
+ *   comparison = field ( "=" | "!=" | "~" | ">" | ">=" | "<" | "<=" ) value
+ *   class      = IFC class name (e.g. IfcWall)
+ *
+ * Fields are Class, Name, GlobalId, Storey, Type, Material, an attribute (e.g. ObjectType),
+ * a property or quantity (e.g. Pset_WallCommon.IsExternal) or a bare property
+ * name searched in every set. Values are numbers, true / false or text, quoted
+ * when it contains spaces or operators.
+ *
+ * @example
+ * ```typescript
+ * const query = parseQuery('IfcWall AND Pset_WallCommon.IsExternal = true');
+ * const walls = elements.filter((element) => matchesQuery(query, element));
+ * ```
+ */
+
+type QueryToken =
+  | { kind: 'word'; text: string; position: number }
+  | { kind: 'string'; text: string; position: number }
+  | { kind: 'operator'; text: QueryOperator; position: number }
+  | { kind: 'paren'; text: '(' | ')'; position: number };
+
+const OPERATORS: QueryOperator[] = ['!=', '>=', '<=', '=', '~', '>', '<'];
+
+/**
+ * Parse a property query
+ * @param text - Query text
+ * @returns Query tree
+ * @throws Error describing the first syntax error and its position
+ */
+export function parseQuery(text: string): QueryNode {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) {
+    throw new Error('Enter a query');
+  }
+
+  let index = 0;
+  const peek = () => tokens[index];
+  const isKeyword = (token: QueryToken | undefined, keyword: string) =>
+    token?.kind === 'word' && token.text.toUpperCase() === keyword;
+  const fail = (message: string, token = peek()): never => {
+    throw new Error(token ? `${message} at position ${token.position + 1}` : `${message} at the end`);
+  };
+
+  const parseOr = (): QueryNode => {
+    let node = parseAnd();
+    while (isKeyword(peek(), 'OR')) {
+      index++;
+      node = { kind: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): QueryNode => {
+    let node = parseNot();
+    while (isKeyword(peek(), 'AND')) {
+      index++;
+      node = { kind: 'and', left: node, right: parseNot() };
+    }
+    return node;
+  };
+
+  const parseNot = (): QueryNode => {
+    const token = peek();
+    if (!token) {
+      return fail('Expected a condition');
+    }
+
+    if (isKeyword(token, 'NOT')) {
+      index++;
+      return { kind: 'not', operand: parseNot() };
+    }
+
+    if (token.kind === 'paren' && token.text === '(') {
+      index++;
+      const node = parseOr();
+      const close = peek();
+      if (close?.kind !== 'paren' || close.text !== ')') {
+        return fail('Expected ")"');
+      }
+      index++;
+      return node;
+    }
+
+    if (token.kind !== 'word' || ['AND', 'OR'].includes(token.text.toUpperCase())) {
+      return fail(`Unexpected "${token.text}"`, token);
+    }
+
+    index++;
+    const operator = peek();
+    if (operator?.kind !== 'operator') {
+      if (/^ifc\w+$/i.test(token.text)) {
+        return { kind: 'class', ifcClass: token.text };
+      }
+      return fail(`Expected an operator after "${token.text}"`);
+    }
+
+    index++;
+    const value = peek();
+    if (value?.kind !== 'word' && value?.kind !== 'string') {
+      return fail(`Expected a value after "${operator.text}"`);
+    }
+
+    index++;
+    return { kind: 'comparison', field: token.text, operator: operator.text, value: toQueryValue(value) };
+  };
+
+  const node = parseOr();
+  if (index < tokens.length) {
+    fail(`Unexpected "${tokens[index]!.text}"`);
+  }
+  return node;
+}
+
+/**
+ * Whether an element matches a query
+ * @param query - Parsed query
+ * @param element - Element with its properties, storey and type
+ */
+export function matchesQuery(query: QueryNode, element: ScheduleElement): boolean {
+  switch (query.kind) {
+    case 'and':
+      return matchesQuery(query.left, element) && matchesQuery(query.right, element);
+    case 'or':
+      return matchesQuery(query.left, element) || matchesQuery(query.right, element);
+    case 'not':
+      return !matchesQuery(query.operand, element);
+    case 'class':
+      return element.properties.ifcClass.toLowerCase() === query.ifcClass.toLowerCase();
+    case 'comparison':
+      return getQueryFieldValues(element, query.field).some((value) =>
+        compareQueryValue(value, query.operator, query.value)
+      );
+  }
+}
+
+/**
+ * Values of a query field on an element
+ * A bare name that is not a base field or attribute is looked up in every property and quantity set
+ * @param element - Element with its properties, storey and type
+ * @param field - Field name (e.g. Name, Pset_WallCommon.IsExternal)
+ * @returns Values found (empty when the element does not have the field)
+ */
+export function getQueryFieldValues(element: ScheduleElement, field: string): ElementPropertyValue[] {
+  const { properties } = element;
+  const key = field.toLowerCase();
+  const sets = [...properties.propertySets, ...properties.quantitySets];
+
+  const separator = key.indexOf('.');
+  if (separator > 0) {
+    const setName = key.slice(0, separator);
+    const propertyName = key.slice(separator + 1);
+    return sets
+      .filter((set) => set.name.toLowerCase() === setName)
+      .flatMap((set) => set.properties.filter((property) => property.name.toLowerCase() === propertyName))
+      .map((property) => property.value);
+  }
+
+  const base = new Map<string, ElementPropertyValue>([
+    ['class', properties.ifcClass],
+    ['ifcclass', properties.ifcClass],
+    ['name', properties.name],
+    ['globalid', properties.globalId],
+    ['storey', element.storey],
+    ['type', element.type],
+    ['material', element.material],
+  ]);
+  if (base.has(key)) {
+    const value = base.get(key) ?? null;
+    return value === null ? [] : [value];
+  }
+
+  const attribute = properties.attributes.find((item) => item.name.toLowerCase() === key);
+  if (attribute) {
+    return [attribute.value];
+  }
+
+  return sets
+    .flatMap((set) => set.properties.filter((property) => property.name.toLowerCase() === key))
+    .map((property) => property.value);
+}
+
+/**
+ * Compare an element value with a query value
+ * Text is compared case-insensitively, numbers and booleans by value; a missing value never matches
+ * @param actual - Element value
+ * @param operator - Comparison operator
+ * @param expected - Query value
+ */
+export function compareQueryValue(
+  actual: ElementPropertyValue,
+  operator: QueryOperator,
+  expected: QueryValue
+): boolean {
+  if (actual === null) {
+    return false;
+  }
+
+  if (operator === '~') {
+    return matchWildcard(String(actual), String(expected));
+  }
+
+  if (operator === '=' || operator === '!=') {
+    return isEqualValue(actual, expected) === (operator === '=');
+  }
+
+  const left = toNumber(actual);
+  const right = toNumber(expected);
+  if (left === null || right === null) {
+    return false;
+  }
+
+  switch (operator) {
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+  }
+}
+
+/**
+ * Case-insensitive wildcard match (* any text, ? one character)
+ * Patterns without wildcards match text containing them
+ * @param text - Text to test
+ * @param pattern - Wildcard pattern
+ */
+export function matchWildcard(text: string, pattern: string): boolean {
+  if (!/[*?]/.test(pattern)) {
+    return text.toLowerCase().includes(pattern.toLowerCase());
+  }
+
+  const source = pattern
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'is').test(text);
+}
+
+/**
+ * Number of matching elements per IFC class
+ * @param elements - Matching elements
+ * @returns Counts sorted by class name
+ */
+export function getQueryClassCounts(elements: ScheduleElement[]): QueryClassCount[] {
+  const counts = new Map<string, number>();
+  for (const element of elements) {
+    counts.set(element.properties.ifcClass, (counts.get(element.properties.ifcClass) ?? 0) + 1);
+  }
+
+  return Array.from(counts, ([name, count]) => ({ name, count })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Local storage key of the saved queries of a user
+ * @param user - User name (the BCF author)
+ */
+export function getQueryStorageKey(user: string): string {
+  return `${QUERY_CONFIG.storagePrefix}${user.trim().toLowerCase() || QUERY_CONFIG.anonymousUser}`;
+}
+
+/**
+ * Parse saved queries read from local storage
+ * Invalid entries are skipped
+ * @param text - JSON text
+ * @returns Valid saved queries
+ * @throws Error if the text is not JSON
+ */
+export function parseSavedQueries(text: string): SavedQuery[] {
+  const json: unknown = JSON.parse(text);
+  if (!Array.isArray(json)) {
+    return [];
+  }
+
+  const queries: SavedQuery[] = [];
+  for (const value of json) {
+    const query = typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+    if (typeof query['query'] !== 'string' || !query['query'].trim()) {
+      continue;
+    }
+
+    queries.push({
+      id: typeof query['id'] === 'string' && query['id'] ? query['id'] : crypto.randomUUID(),
+      name: typeof query['name'] === 'string' && query['name'].trim() ? query['name'].trim() : query['query'],
+      query: query['query'],
+      createdAt: typeof query['createdAt'] === 'string' ? query['createdAt'] : new Date().toISOString(),
+    });
+  }
+
+  return queries;
+}
+
+/**
+ * Split a query into tokens
+ */
+function tokenize(text: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let position = 0;
+
+  while (position < text.length) {
+    const char = text[position]!;
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: 'paren', text: char, position });
+      position++;
+      continue;
+    }
+
+    const operator = OPERATORS.find((item) => text.startsWith(item, position));
+    if (operator) {
+      tokens.push({ kind: 'operator', text: operator, position });
+      position += operator.length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let end = position + 1;
+      while (end < text.length && text[end] !== char) {
+        // A backslash escapes the next character (e.g. \")
+        if (text[end] === '\\' && end + 1 < text.length) {
+          end++;
+        }
+        value += text[end];
+        end++;
+      }
+      if (end >= text.length) {
+        throw new Error(`Unterminated text at position ${position + 1}`);
+      }
+      tokens.push({ kind: 'string', text: value, position });
+      position = end + 1;
+      continue;
+    }
+
+    const word = /^[^\s()"'=!<>~]+/.exec(text.slice(position))?.[0];
+    if (!word) {
+      throw new Error(`Unexpected "${char}" at position ${position + 1}`);
+    }
+    tokens.push({ kind: 'word', text: word, position });
+    position += word.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Literal value of a value token (quoted text always stays text)
+ */
+function toQueryValue(token: QueryToken): QueryValue {
+  if (token.kind === 'string') {
+    return token.text;
+  }
+
+  const lower = token.text.toLowerCase();
+  if (lower === 'true' || lower === 'false') {
+    return lower === 'true';
+  }
+
+  const number = Number(token.text);
+  return Number.isFinite(number) ? number : token.text;
+}
+
+/**
+ * Equality of an element value and a query value
+ */
+function isEqualValue(actual: Exclude<ElementPropertyValue, null>, expected: QueryValue): boolean {
+  if (typeof expected === 'boolean') {
+    return toBoolean(actual) === expected;
+  }
+
+  if (typeof expected === 'number') {
+    const value = toNumber(actual);
+    const tolerance = QUERY_CONFIG.numberTolerance * Math.max(1, Math.abs(expected));
+    return value !== null && Math.abs(value - expected) <= tolerance;
+  }
+
+  return String(actual).toLowerCase() === expected.toLowerCase();
+}
+
+/**
+ * Boolean of an element value (IFC logicals are read as text, e.g. .T.)
+ */
+function toBoolean(value: Exclude<ElementPropertyValue, null>): boolean | null {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+
+  const text = String(value).trim().toUpperCase();
+  if (['TRUE', '.T.', 'T', '1'].includes(text)) {
+    return true;
+  }
+  if (['FALSE', '.F.', 'F', '0'].includes(text)) {
+    return false;
+  }
+  return null;
+}
+
+/**
+ * Number of an element or query value (null when not numeric)
+ */
+function toNumber(value: ElementPropertyValue | QueryValue): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
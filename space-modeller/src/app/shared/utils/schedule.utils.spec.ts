@@ -0,0 +1,113 @@
+import {
+  SCHEDULE_BASE_COLUMNS,
+  getScheduleColumnKey,
+  getScheduleColumns,
+  getScheduleValue,
+  toScheduleTable,
+} from './schedule.utils';
+import { ScheduleElement } from '../models/export.model';
+
+describe('Schedule Utils', () => {
+  const wall: ScheduleElement = {
+    properties: {
+      modelId: 'm1',
+      localId: 10,
+      globalId: 'guid-10',
+      name: 'Wall A',
+      ifcClass: 'IfcWall',
+      attributes: [],
+      propertySets: [
+        {
+          name: 'Pset_WallCommon',
+          properties: [
+            { name: 'IsExternal', value: true },
+            { name: 'FireRating', value: 'REI60' },
+          ],
+        },
+      ],
+      quantitySets: [{ name: 'Qto_WallBaseQuantities', properties: [{ name: 'Length', value: 5.2 }] }],
+    },
+    storey: 'Level 1',
+    type: 'Basic Wall:200mm',
+    material: 'Concrete',
+  };
+
+  const door: ScheduleElement = {
+    properties: {
+      modelId: 'm1',
+      localId: 20,
+      globalId: 'guid-20',
+      name: null,
+      ifcClass: 'IfcDoor',
+      attributes: [],
+      propertySets: [{ name: 'Pset_DoorCommon', properties: [{ name: 'FireRating', value: 'EI30' }] }],
+      quantitySets: [],
+    },
+    storey: null,
+    type: null,
+    material: null,
+  };
+
+  describe('getScheduleColumnKey', () => {
+    it('should prefix the set and property name with the source', () => {
+      expect(getScheduleColumnKey('quantity', 'Qto_WallBaseQuantities', 'Length')).toBe(
+        'quantity:Qto_WallBaseQuantities.Length'
+      );
+    });
+  });
+
+  describe('getScheduleColumns', () => {
+    it('should list the base columns, then sorted properties and quantities', () => {
+      const columns = getScheduleColumns([wall, door]);
+
+      expect(columns.slice(0, 6)).toEqual([...SCHEDULE_BASE_COLUMNS]);
+      expect(columns.slice(6).map((column) => column.label)).toEqual([
+        'Pset_DoorCommon.FireRating',
+        'Pset_WallCommon.FireRating',
+        'Pset_WallCommon.IsExternal',
+        'Qto_WallBaseQuantities.Length',
+      ]);
+      expect(columns[9]!.source).toBe('quantity');
+    });
+
+    it('should only list the base columns without elements', () => {
+      expect(getScheduleColumns([]).length).toBe(SCHEDULE_BASE_COLUMNS.length);
+    });
+  });
+
+  describe('getScheduleValue', () => {
+    const columns = getScheduleColumns([wall, door]);
+    const column = (label: string) => columns.find((item) => item.label === label)!;
+
+    it('should read the base values', () => {
+      expect(getScheduleValue(wall, column('GlobalId'))).toBe('guid-10');
+      expect(getScheduleValue(wall, column('Storey'))).toBe('Level 1');
+      expect(getScheduleValue(wall, column('Type'))).toBe('Basic Wall:200mm');
+      expect(getScheduleValue(wall, column('Material'))).toBe('Concrete');
+    });
+
+    it('should read property and quantity values', () => {
+      expect(getScheduleValue(wall, column('Pset_WallCommon.IsExternal'))).toBe(true);
+      expect(getScheduleValue(wall, column('Qto_WallBaseQuantities.Length'))).toBe(5.2);
+    });
+
+    it('should return null for missing values', () => {
+      expect(getScheduleValue(door, column('Name'))).toBeNull();
+      expect(getScheduleValue(door, column('Pset_WallCommon.FireRating'))).toBeNull();
+    });
+  });
+
+  describe('toScheduleTable', () => {
+    it('should write a header and one row per element', () => {
+      const columns = getScheduleColumns([wall, door]).filter((column) =>
+        ['GlobalId', 'Class', 'Pset_WallCommon.FireRating'].includes(column.label)
+      );
+
+      expect(toScheduleTable([wall, door], columns)).toEqual([
+        ['GlobalId', 'Class', 'Pset_WallCommon.FireRating'],
+        ['guid-10', 'IfcWall', 'REI60'],
+        ['guid-20', 'IfcDoor', null],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { ScheduleColumn, ScheduleColumnSource, ScheduleElement } from '../models/export.model';
+import { ElementPropertySet } from '../models/selection.model';
+import { CsvValue } from './csv.utils';
+
+/**
+ * Element schedule utility functions
+ */
+
+/**
+ * Columns every schedule can include
+ */
+export const SCHEDULE_BASE_COLUMNS: readonly ScheduleColumn[] = [
+  { key: 'globalId', label: 'GlobalId', source: 'base' },
+  { key: 'ifcClass', label: 'Class', source: 'base' },
+  { key: 'name', label: 'Name', source: 'base' },
+  { key: 'storey', label: 'Storey', source: 'base' },
+  { key: 'type', label: 'Type', source: 'base' },
+  { key: 'material', label: 'Material', source: 'base' },
+];
+
+/**
+ * Key of a property or quantity column
+ * @param source - property or quantity
+ * @param setName - Property or quantity set name
+ * @param propertyName - Property or quantity name
+ * @returns Column key (e.g. property:Pset_WallCommon.FireRating)
+ */
+export function getScheduleColumnKey(
+  source: Exclude<ScheduleColumnSource, 'base'>,
+  setName: string,
+  propertyName: string
+): string {
+  return `${source}:${setName}.${propertyName}`;
+}
+
+/**
+ * Collect the columns of a set of elements: the base columns,
+ * then every property and every quantity sorted by set and name
+ * @param elements - Schedule elements
+ * @returns Available columns
+ */
+export function getScheduleColumns(elements: ScheduleElement[]): ScheduleColumn[] {
+  const collect = (source: 'property' | 'quantity', getSets: (element: ScheduleElement) => ElementPropertySet[]) => {
+    const columns = new Map<string, ScheduleColumn>();
+    for (const element of elements) {
+      for (const set of getSets(element)) {
+        for (const property of set.properties) {
+          const key = getScheduleColumnKey(source, set.name, property.name);
+          if (!columns.has(key)) {
+            columns.set(key, { key, label: `${set.name}.${property.name}`, source });
+          }
+        }
+      }
+    }
+    return Array.from(columns.values()).sort((a, b) => a.label.localeCompare(b.label));
+  };
+
+  return [
+    ...SCHEDULE_BASE_COLUMNS,
+    ...collect('property', (element) => element.properties.propertySets),
+    ...collect('quantity', (element) => element.properties.quantitySets),
+  ];
+}
+
+/**
+ * Value of an element in a schedule column
+ * @param element - Schedule element
+ * @param column - Column
+ * @returns Cell value (null when the element has no value)
+ */
+export function getScheduleValue(element: ScheduleElement, column: ScheduleColumn): CsvValue {
+  const { properties } = element;
+
+  switch (column.source) {
+    case 'base':
+      switch (column.key) {
+        case 'globalId':
+          return properties.globalId;
+        case 'ifcClass':
+          return properties.ifcClass;
+        case 'name':
+          return properties.name;
+        case 'storey':
+          return element.storey;
+        case 'type':
+          return element.type;
+        case 'material':
+          return element.material;
+        default:
+          return null;
+      }
+    case 'property':
+    case 'quantity': {
+      const source = column.source;
+      const sets = source === 'property' ? properties.propertySets : properties.quantitySets;
+      for (const set of sets) {
+        const property = set.properties.find(
+          (item) => getScheduleColumnKey(source, set.name, item.name) === column.key
+        );
+        if (property) {
+          return property.value;
+        }
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Build the schedule table: a header row with the column labels and one row per element
+ * @param elements - Schedule elements
+ * @param columns - Columns in output order
+ * @returns Rows of cells
+ */
+export function toScheduleTable(elements: ScheduleElement[], columns: ScheduleColumn[]): CsvValue[][] {
+  return [
+    columns.map((column) => column.label),
+    ...elements.map((element) => columns.map((column) => getScheduleValue(element, column))),
+  ];
+}
@@ -0,0 +1,186 @@
+import * as THREE from 'three';
+import {
+  detectEnclosedOutline,
+  extrudeOutline,
+  getNextSpaceNumber,
+  getOutlineArea,
+  getOutlinePerimeter,
+  getOutlineSignedArea,
+  getStoreyHeight,
+  isPointInOutline,
+  mergeOutlines,
+  normalizeOutline,
+  parseAuthoredSpaces,
+  splitOutline,
+  toStoredSpaces,
+} from './space-authoring.utils';
+import { DrawingPoint } from '../models/drawing.model';
+import { AuthoredSpace } from '../models/space.model';
+import { PlanStorey } from '../models/plan.model';
+import { SPACE_AUTHORING_CONFIG } from '../constants/viewer.constants';
+
+describe('Space Authoring Utils', () => {
+  const rectangle = (x: number, y: number, width: number, depth: number): DrawingPoint[] => [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + depth },
+    { x, y: y + depth },
+  ];
+
+  const space = (number: string, outline: DrawingPoint[] = rectangle(0, 0, 4, 3)): AuthoredSpace => ({
+    id: `space-${number}`,
+    modelId: 'm1',
+    storey: 'Level 1',
+    storeyGlobalId: 'storey-guid',
+    number,
+    name: 'Office',
+    usage: 'Office',
+    outline,
+    elevation: 0,
+    height: 3,
+    createdAt: '2024-01-01T00:00:00.000Z',
+  });
+
+  describe('outline measures', () => {
+    it('should compute the area and perimeter', () => {
+      const outline = rectangle(0, 0, 4, 3);
+
+      expect(getOutlineSignedArea(outline)).toBe(12);
+      expect(getOutlineSignedArea([...outline].reverse())).toBe(-12);
+      expect(getOutlineArea([...outline].reverse())).toBe(12);
+      expect(getOutlinePerimeter(outline)).toBe(14);
+    });
+
+    it('should find points inside an outline', () => {
+      expect(isPointInOutline({ x: 1, y: 1 }, rectangle(0, 0, 4, 3))).toBe(true);
+      expect(isPointInOutline({ x: 5, y: 1 }, rectangle(0, 0, 4, 3))).toBe(false);
+    });
+  });
+
+  describe('normalizeOutline', () => {
+    it('should merge close points, drop straight corners and orient counter-clockwise', () => {
+      const outline = normalizeOutline([
+        { x: 0, y: 0 },
+        { x: 0, y: 3 },
+        { x: 4, y: 3 },
+        { x: 4, y: 1.5 },
+        { x: 4, y: 0 },
+        { x: 0.001, y: 0 },
+      ])!;
+
+      expect(outline.length).toBe(4);
+      expect(getOutlineSignedArea(outline)).toBeCloseTo(12);
+    });
+
+    it('should reject outlines without an area', () => {
+      expect(normalizeOutline([{ x: 0, y: 0 }, { x: 1, y: 0 }])).toBeNull();
+      expect(normalizeOutline([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }])).toBeNull();
+    });
+  });
+
+  describe('splitOutline', () => {
+    it('should split a room along a line', () => {
+      const [left, right] = splitOutline(rectangle(0, 0, 4, 3), { x: 1, y: -1 }, { x: 1, y: 5 })!;
+
+      expect(getOutlineArea(left)).toBeCloseTo(3);
+      expect(getOutlineArea(right)).toBeCloseTo(9);
+    });
+
+    it('should not split along a line missing the room', () => {
+      expect(splitOutline(rectangle(0, 0, 4, 3), { x: 6, y: -1 }, { x: 6, y: 5 })).toBeNull();
+    });
+  });
+
+  describe('mergeOutlines', () => {
+    it('should merge rooms sharing part of a wall', () => {
+      const merged = mergeOutlines(rectangle(0, 0, 4, 3), rectangle(4, 1, 2, 1))!;
+
+      expect(getOutlineArea(merged)).toBeCloseTo(14);
+      expect(merged.length).toBe(8);
+    });
+
+    it('should undo a split', () => {
+      const [left, right] = splitOutline(rectangle(0, 0, 4, 3), { x: 1, y: -1 }, { x: 1, y: 5 })!;
+
+      const merged = mergeOutlines(left, right)!;
+
+      expect(merged.length).toBe(4);
+      expect(getOutlineArea(merged)).toBeCloseTo(12);
+    });
+
+    it('should not merge rooms without a shared wall', () => {
+      expect(mergeOutlines(rectangle(0, 0, 4, 3), rectangle(5, 0, 2, 2))).toBeNull();
+      expect(mergeOutlines(rectangle(0, 0, 4, 3), rectangle(4, 3, 2, 2))).toBeNull();
+    });
+  });
+
+  describe('detectEnclosedOutline', () => {
+    const walls = (outline: DrawingPoint[]) =>
+      outline.map((point, index) => [point, outline[(index + 1) % outline.length]!]);
+
+    it('should find the room enclosed by walls around a point', () => {
+      const outline = detectEnclosedOutline(walls(rectangle(0, 0, 4, 3)), { x: 1, y: 1 }, 0.1, 5)!;
+
+      expect(outline.length).toBe(4);
+      expect(getOutlineArea(outline)).toBeGreaterThan(11);
+      expect(getOutlineArea(outline)).toBeLessThan(12);
+    });
+
+    it('should not detect a room with an opening', () => {
+      const segments = walls(rectangle(0, 0, 4, 3)).slice(0, 3);
+
+      expect(detectEnclosedOutline(segments, { x: 1, y: 1 }, 0.1, 5)).toBeNull();
+    });
+  });
+
+  describe('extrudeOutline', () => {
+    it('should extrude the floor outline upwards with north at -z', () => {
+      const geometry = extrudeOutline(rectangle(0, 0, 4, 3), 2, 3);
+      geometry.computeBoundingBox();
+      const { min, max } = geometry.boundingBox!;
+
+      expect(min.distanceTo(new THREE.Vector3(0, 2, -3))).toBeLessThan(1e-9);
+      expect(max.distanceTo(new THREE.Vector3(4, 5, 0))).toBeLessThan(1e-9);
+    });
+  });
+
+  describe('getStoreyHeight', () => {
+    const storey = (name: string, elevation: number, modelId = 'm1'): PlanStorey => ({
+      key: `${modelId}:${name}`,
+      modelId,
+      localId: 1,
+      name,
+      elevation,
+    });
+
+    it('should measure up to the next storey of the model', () => {
+      const storeys = [storey('Level 1', 0), storey('Level 2', 3.2), storey('Other', 2, 'm2'), storey('Roof', 7)];
+
+      expect(getStoreyHeight(storeys, storeys[0]!)).toBeCloseTo(3.2);
+      expect(getStoreyHeight(storeys, storeys[3]!)).toBe(SPACE_AUTHORING_CONFIG.defaultHeight);
+    });
+  });
+
+  describe('getNextSpaceNumber', () => {
+    it('should continue the numbering', () => {
+      expect(getNextSpaceNumber([])).toBe('1');
+      expect(getNextSpaceNumber([space('101'), space('Lobby'), space('103')])).toBe('104');
+    });
+  });
+
+  describe('storage', () => {
+    it('should round trip spaces without the model UUID', () => {
+      const stored = JSON.stringify(toStoredSpaces([space('101')]));
+
+      expect(stored).not.toContain('modelId');
+      expect(parseAuthoredSpaces(stored, 'm2')).toEqual([{ ...space('101'), modelId: 'm2' }]);
+    });
+
+    it('should skip invalid entries', () => {
+      const text = JSON.stringify([{ id: 'a', outline: [{ x: 0, y: 0 }], elevation: 0, height: 3 }, null, 'x']);
+
+      expect(parseAuthoredSpaces(text, 'm1')).toEqual([]);
+      expect(parseAuthoredSpaces('{}', 'm1')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,487 @@
+import * as THREE from 'three';
+import { DrawingPoint } from '../models/drawing.model';
+import { PlanStorey } from '../models/plan.model';
+import { AuthoredSpace } from '../models/space.model';
+import { SPACE_AUTHORING_CONFIG } from '../constants/viewer.constants';
+
+/**
+ * Space authoring utility functions
+ * Outlines are polygons in plan coordinates (meters, y north) without a repeated closing point
+ */
+
+/**
+ * Signed area of an outline (positive when counter-clockwise)
+ */
+export function getOutlineSignedArea(outline: DrawingPoint[]): number {
+  let area = 0;
+  outline.forEach((point, index) => {
+    const next = outline[(index + 1) % outline.length]!;
+    area += point.x * next.y - next.x * point.y;
+  });
+  return area / 2;
+}
+
+/**
+ * Area of an outline (square meters)
+ */
+export function getOutlineArea(outline: DrawingPoint[]): number {
+  return Math.abs(getOutlineSignedArea(outline));
+}
+
+/**
+ * Perimeter of an outline (meters)
+ */
+export function getOutlinePerimeter(outline: DrawingPoint[]): number {
+  return outline.reduce((length, point, index) => length + distance(point, outline[(index + 1) % outline.length]!), 0);
+}
+
+/**
+ * Clean up a drawn outline: merge close points, drop straight corners and orient it counter-clockwise
+ * @param points - Corners in drawing order
+ * @param tolerance - Points closer than this are merged, corners deviating less are dropped (meters)
+ * @returns Outline or null if it encloses less than the minimum room area
+ */
+export function normalizeOutline(
+  points: DrawingPoint[],
+  tolerance: number = SPACE_AUTHORING_CONFIG.pointTolerance
+): DrawingPoint[] | null {
+  const outline: DrawingPoint[] = [];
+  for (const point of points) {
+    const last = outline[outline.length - 1];
+    if (!last || distance(last, point) > tolerance) {
+      outline.push({ x: point.x, y: point.y });
+    }
+  }
+  while (outline.length > 1 && distance(outline[0]!, outline[outline.length - 1]!) <= tolerance) {
+    outline.pop();
+  }
+
+  // Drop corners lying on the line between their neighbours (including spikes)
+  let index = 0;
+  while (outline.length >= 3 && index < outline.length) {
+    const previous = outline[(index + outline.length - 1) % outline.length]!;
+    const next = outline[(index + 1) % outline.length]!;
+    if (getDistanceToLine(outline[index]!, previous, next) <= tolerance) {
+      outline.splice(index, 1);
+      index = Math.max(0, index - 1);
+    } else {
+      index++;
+    }
+  }
+
+  if (outline.length < 3 || getOutlineArea(outline) < SPACE_AUTHORING_CONFIG.minArea) {
+    return null;
+  }
+  return getOutlineSignedArea(outline) < 0 ? outline.reverse() : outline;
+}
+
+/**
+ * Whether a point lies inside an outline
+ */
+export function isPointInOutline(point: DrawingPoint, outline: DrawingPoint[]): boolean {
+  let inside = false;
+  outline.forEach((start, index) => {
+    const end = outline[(index + 1) % outline.length]!;
+    if (start.y > point.y !== end.y > point.y) {
+      const x = start.x + ((point.y - start.y) / (end.y - start.y)) * (end.x - start.x);
+      if (point.x < x) {
+        inside = !inside;
+      }
+    }
+  });
+  return inside;
+}
+
+/**
+ * Split an outline along a line
+ * @param outline - Counter-clockwise outline
+ * @param start - First point of the line
+ * @param end - Second point of the line
+ * @returns Outlines left and right of the line, or null if the line does not cross the outline
+ */
+export function splitOutline(
+  outline: DrawingPoint[],
+  start: DrawingPoint,
+  end: DrawingPoint
+): [DrawingPoint[], DrawingPoint[]] | null {
+  if (distance(start, end) <= SPACE_AUTHORING_CONFIG.pointTolerance) {
+    return null;
+  }
+
+  const left = normalizeOutline(clipOutline(outline, start, end, 1));
+  const right = normalizeOutline(clipOutline(outline, start, end, -1));
+  return left && right ? [left, right] : null;
+}
+
+/**
+ * Merge two outlines sharing at least part of an edge
+ * Shared edge parts cancel out and the remaining edges are chained into one outline
+ * @param first - Counter-clockwise outline
+ * @param second - Counter-clockwise outline
+ * @param tolerance - Distance under which points and edges coincide (meters)
+ * @returns Merged outline or null if the outlines do not touch along an edge or enclose a hole
+ */
+export function mergeOutlines(
+  first: DrawingPoint[],
+  second: DrawingPoint[],
+  tolerance: number = SPACE_AUTHORING_CONFIG.pointTolerance
+): DrawingPoint[] | null {
+  // Shared vertices by index so coinciding points compare equal
+  const vertices: DrawingPoint[] = [];
+  const indexOf = (point: DrawingPoint): number => {
+    const found = vertices.findIndex((vertex) => distance(vertex, point) <= tolerance);
+    return found === -1 ? vertices.push(point) - 1 : found;
+  };
+
+  // Edges split at the vertices of the other outline lying on them
+  const edges: [number, number][] = [];
+  const addEdges = (outline: DrawingPoint[], other: DrawingPoint[]) => {
+    outline.forEach((start, index) => {
+      const end = outline[(index + 1) % outline.length]!;
+      const length = distance(start, end);
+      const cuts = other
+        .filter((point) => getDistanceToSegment(point, start, end) <= tolerance)
+        .map((point) => ((point.x - start.x) * (end.x - start.x) + (point.y - start.y) * (end.y - start.y)) / length)
+        .filter((offset) => offset > tolerance && offset < length - tolerance)
+        .sort((a, b) => a - b);
+
+      const points = [start, ...cuts.map((offset) => lerp(start, end, offset / length)), end].map(indexOf);
+      for (let part = 0; part + 1 < points.length; part++) {
+        edges.push([points[part]!, points[part + 1]!]);
+      }
+    });
+  };
+  addEdges(first, second);
+  addEdges(second, first);
+
+  // Edges traversed in both directions are shared
+  const remaining = edges.filter(([from, to]) => !edges.some(([a, b]) => a === to && b === from));
+  if (remaining.length === edges.length || remaining.length < 3) {
+    return null;
+  }
+
+  const outline: DrawingPoint[] = [];
+  const unused = [...remaining];
+  let current = unused.shift()!;
+  const startIndex = current[0];
+  outline.push(vertices[startIndex]!);
+  while (current[1] !== startIndex) {
+    const index = unused.findIndex(([from]) => from === current[1]);
+    if (index === -1) {
+      return null;
+    }
+    current = unused.splice(index, 1)[0]!;
+    outline.push(vertices[current[0]]!);
+  }
+
+  // Edges left over form a hole or a second outline
+  return unused.length === 0 ? normalizeOutline(outline, tolerance) : null;
+}
+
+/**
+ * Find the area enclosed by walls around a point
+ * The wall outlines are rasterized and the free cells around the point are flood filled
+ * @param segments - Wall outlines at the plan cut as line segments (plan coordinates)
+ * @param point - Point inside the room
+ * @param cellSize - Grid cell size (meters)
+ * @param radius - Half size of the searched square around the point (meters)
+ * @returns Outline of the enclosed area or null if the point is not enclosed
+ */
+export function detectEnclosedOutline(
+  segments: DrawingPoint[][],
+  point: DrawingPoint,
+  cellSize: number = SPACE_AUTHORING_CONFIG.detectCellSize,
+  radius: number = SPACE_AUTHORING_CONFIG.detectRadius
+): DrawingPoint[] | null {
+  const size = Math.ceil((2 * radius) / cellSize);
+  const originX = point.x - radius;
+  const originY = point.y - radius;
+  const blocked = new Uint8Array(size * size);
+
+  for (const [start, end] of segments) {
+    if (
+      !start ||
+      !end ||
+      Math.max(start.x, end.x) < originX ||
+      Math.max(start.y, end.y) < originY ||
+      Math.min(start.x, end.x) > originX + 2 * radius ||
+      Math.min(start.y, end.y) > originY + 2 * radius
+    ) {
+      continue;
+    }
+
+    const steps = Math.max(1, Math.ceil(distance(start, end) / (cellSize / 2)));
+    for (let step = 0; step <= steps; step++) {
+      const sample = lerp(start, end, step / steps);
+      const column = Math.floor((sample.x - originX) / cellSize);
+      const row = Math.floor((sample.y - originY) / cellSize);
+      if (column >= 0 && row >= 0 && column < size && row < size) {
+        blocked[row * size + column] = 1;
+      }
+    }
+  }
+
+  // Flood fill the free cells around the point (4-connected, so diagonal wall lines do not leak)
+  const startCell = Math.floor(radius / cellSize) * size + Math.floor(radius / cellSize);
+  if (blocked[startCell]) {
+    return null;
+  }
+
+  const filled = new Uint8Array(size * size);
+  const stack = [startCell];
+  filled[startCell] = 1;
+  while (stack.length > 0) {
+    const cell = stack.pop()!;
+    const column = cell % size;
+    const row = (cell - column) / size;
+    if (column === 0 || row === 0 || column === size - 1 || row === size - 1) {
+      return null;
+    }
+
+    for (const neighbour of [cell - 1, cell + 1, cell - size, cell + size]) {
+      if (!blocked[neighbour] && !filled[neighbour]) {
+        filled[neighbour] = 1;
+        stack.push(neighbour);
+      }
+    }
+  }
+
+  return traceFilledCells(filled, size, cellSize, originX, originY);
+}
+
+/**
+ * Room geometry extruded from the floor outline
+ * @param outline - Floor outline (plan coordinates)
+ * @param elevation - Floor elevation (world y)
+ * @param height - Extrusion height
+ * @returns Geometry in world space
+ */
+export function extrudeOutline(outline: DrawingPoint[], elevation: number, height: number): THREE.BufferGeometry {
+  const shape = new THREE.Shape(outline.map((point) => new THREE.Vector2(point.x, point.y)));
+  const geometry = new THREE.ExtrudeGeometry(shape, { depth: height, bevelEnabled: false });
+
+  // Shape y (north) becomes -z, the extrusion becomes +y
+  geometry.rotateX(-Math.PI / 2);
+  geometry.translate(0, elevation, 0);
+  return geometry;
+}
+
+/**
+ * Height of a storey up to the next storey of its model
+ * @param storeys - Storeys of the loaded models
+ * @param storey - Storey
+ * @returns Height in meters (the default height for the top storey)
+ */
+export function getStoreyHeight(storeys: PlanStorey[], storey: PlanStorey): number {
+  const above = storeys
+    .filter((item) => item.modelId === storey.modelId && item.elevation > storey.elevation + 0.01)
+    .map((item) => item.elevation - storey.elevation);
+  return above.length > 0 ? Math.min(...above) : SPACE_AUTHORING_CONFIG.defaultHeight;
+}
+
+/**
+ * Next free room number (one more than the highest numeric room number)
+ * @param spaces - Existing spaces
+ */
+export function getNextSpaceNumber(spaces: AuthoredSpace[]): string {
+  const numbers = spaces.map((space) => parseInt(space.number, 10)).filter((number) => Number.isFinite(number));
+  return String(numbers.length > 0 ? Math.max(...numbers) + 1 : 1);
+}
+
+/**
+ * Local storage key of the spaces drawn on a model
+ * @param modelKey - Content hash of the model file (its name if it could not be hashed)
+ */
+export function getSpaceStorageKey(modelKey: string): string {
+  return `${SPACE_AUTHORING_CONFIG.storagePrefix}${modelKey}`;
+}
+
+/**
+ * Stored form of spaces (without the runtime model UUID)
+ */
+export function toStoredSpaces(spaces: AuthoredSpace[]): Omit<AuthoredSpace, 'modelId'>[] {
+  return spaces.map(({ modelId: _modelId, ...space }) => space);
+}
+
+/**
+ * Read stored spaces, skipping entries that are not valid
+ * @param text - JSON text
+ * @param modelId - Fragment model UUID the spaces belong to
+ * @returns Spaces
+ * @throws SyntaxError if the text is not JSON
+ */
+export function parseAuthoredSpaces(text: string, modelId: string): AuthoredSpace[] {
+  const json: unknown = JSON.parse(text);
+  if (!Array.isArray(json)) {
+    return [];
+  }
+
+  return json.flatMap((entry: unknown): AuthoredSpace[] => {
+    if (typeof entry !== 'object' || entry === null) {
+      return [];
+    }
+
+    const space = entry as Record<string, unknown>;
+    const outline = Array.isArray(space['outline'])
+      ? (space['outline'] as unknown[]).filter(
+          (point): point is DrawingPoint =>
+            typeof point === 'object' &&
+            point !== null &&
+            Number.isFinite((point as DrawingPoint).x) &&
+            Number.isFinite((point as DrawingPoint).y)
+        )
+      : [];
+    if (
+      typeof space['id'] !== 'string' ||
+      outline.length < 3 ||
+      !Number.isFinite(space['elevation']) ||
+      !Number.isFinite(space['height'])
+    ) {
+      return [];
+    }
+
+    const text = (key: string) => (typeof space[key] === 'string' ? (space[key] as string) : '');
+    return [
+      {
+        id: space['id'],
+        modelId,
+        storey: text('storey'),
+        storeyGlobalId: typeof space['storeyGlobalId'] === 'string' ? space['storeyGlobalId'] : null,
+        number: text('number'),
+        name: text('name'),
+        usage: text('usage'),
+        outline: outline.map((point) => ({ x: point.x, y: point.y })),
+        elevation: space['elevation'] as number,
+        height: space['height'] as number,
+        createdAt: text('createdAt'),
+      },
+    ];
+  });
+}
+
+/**
+ * Outline of the largest region of filled grid cells
+ */
+function traceFilledCells(
+  filled: Uint8Array,
+  size: number,
+  cellSize: number,
+  originX: number,
+  originY: number
+): DrawingPoint[] | null {
+  // Boundary edges between grid corners with the filled cells on the left
+  const corners = size + 1;
+  const edges = new Map<number, number[]>();
+  const addEdge = (fromColumn: number, fromRow: number, toColumn: number, toRow: number) => {
+    const from = fromRow * corners + fromColumn;
+    edges.set(from, [...(edges.get(from) ?? []), toRow * corners + toColumn]);
+  };
+  const isFilled = (column: number, row: number) =>
+    column >= 0 && row >= 0 && column < size && row < size && filled[row * size + column] === 1;
+
+  for (let row = 0; row < size; row++) {
+    for (let column = 0; column < size; column++) {
+      if (!isFilled(column, row)) {
+        continue;
+      }
+      if (!isFilled(column, row - 1)) {
+        addEdge(column, row, column + 1, row);
+      }
+      if (!isFilled(column + 1, row)) {
+        addEdge(column + 1, row, column + 1, row + 1);
+      }
+      if (!isFilled(column, row + 1)) {
+        addEdge(column + 1, row + 1, column, row + 1);
+      }
+      if (!isFilled(column - 1, row)) {
+        addEdge(column, row + 1, column, row);
+      }
+    }
+  }
+
+  // Chain the edges into loops and keep the outer one
+  let best: DrawingPoint[] | null = null;
+  let bestArea = 0;
+  for (const start of Array.from(edges.keys())) {
+    while ((edges.get(start)?.length ?? 0) > 0) {
+      const loop: DrawingPoint[] = [];
+      let corner = start;
+      do {
+        const next = edges.get(corner)?.pop();
+        if (next === undefined) {
+          break;
+        }
+        const column = corner % corners;
+        loop.push({ x: originX + column * cellSize, y: originY + ((corner - column) / corners) * cellSize });
+        corner = next;
+      } while (corner !== start);
+
+      const area = getOutlineSignedArea(loop);
+      if (area > bestArea) {
+        best = loop;
+        bestArea = area;
+      }
+    }
+  }
+
+  // Corners of single cell steps are dropped, so diagonal walls become straight edges
+  return best ? normalizeOutline(best, cellSize * 0.75) : null;
+}
+
+/**
+ * Part of an outline on one side of a line (Sutherland-Hodgman)
+ * @param side - 1 for the left side, -1 for the right side
+ */
+function clipOutline(outline: DrawingPoint[], start: DrawingPoint, end: DrawingPoint, side: 1 | -1): DrawingPoint[] {
+  const offset = (point: DrawingPoint) =>
+    side * ((end.x - start.x) * (point.y - start.y) - (end.y - start.y) * (point.x - start.x));
+  const result: DrawingPoint[] = [];
+
+  outline.forEach((current, index) => {
+    const next = outline[(index + 1) % outline.length]!;
+    const currentOffset = offset(current);
+    const nextOffset = offset(next);
+    if (currentOffset >= 0) {
+      result.push(current);
+    }
+    if ((currentOffset > 0 && nextOffset < 0) || (currentOffset < 0 && nextOffset > 0)) {
+      result.push(lerp(current, next, currentOffset / (currentOffset - nextOffset)));
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Distance of a point to the infinite line through two points
+ */
+function getDistanceToLine(point: DrawingPoint, start: DrawingPoint, end: DrawingPoint): number {
+  const length = distance(start, end);
+  if (length === 0) {
+    return distance(point, start);
+  }
+  return Math.abs((end.x - start.x) * (point.y - start.y) - (end.y - start.y) * (point.x - start.x)) / length;
+}
+
+/**
+ * Distance of a point to a segment
+ */
+function getDistanceToSegment(point: DrawingPoint, start: DrawingPoint, end: DrawingPoint): number {
+  const lengthSq = (end.x - start.x) ** 2 + (end.y - start.y) ** 2;
+  if (lengthSq === 0) {
+    return distance(point, start);
+  }
+  const t = Math.max(
+    0,
+    Math.min(1, ((point.x - start.x) * (end.x - start.x) + (point.y - start.y) * (end.y - start.y)) / lengthSq)
+  );
+  return distance(point, lerp(start, end, t));
+}
+
+function distance(a: DrawingPoint, b: DrawingPoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function lerp(a: DrawingPoint, b: DrawingPoint, t: number): DrawingPoint {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
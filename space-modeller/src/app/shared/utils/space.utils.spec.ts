@@ -0,0 +1,201 @@
+import * as THREE from 'three';
+import {
+  applySpaceEdit,
+  formatSpaceValue,
+  getMissingSpaceQuantities,
+  getSpaceGeometryQuantities,
+  getSpaceQuantities,
+  getSpaceTotals,
+  mergeSpaceEdit,
+  sortSpaceRows,
+  spacesToCsv,
+  toSpaceRow,
+} from './space.utils';
+import { ScheduleElement } from '../models/export.model';
+import { ElementPropertySet } from '../models/selection.model';
+import { ProjectUnits } from '../models/measurement.model';
+import { DEFAULT_PROJECT_UNITS } from '../constants/viewer.constants';
+
+describe('Space Utils', () => {
+  const space = (localId: number, name: string, storey: string, quantitySets: ElementPropertySet[]): ScheduleElement => ({
+    properties: {
+      modelId: 'm1',
+      localId,
+      globalId: `guid-${localId}`,
+      name,
+      ifcClass: 'IfcSpace',
+      attributes: [{ name: 'LongName', value: `Room ${name}` }],
+      propertySets: [],
+      quantitySets,
+    },
+    storey,
+    type: null,
+    material: null,
+  });
+
+  const baseQuantities: ElementPropertySet = {
+    name: 'Qto_SpaceBaseQuantities',
+    properties: [
+      { name: 'NetFloorArea', value: 11.5 },
+      { name: 'GrossFloorArea', value: 12 },
+      { name: 'GrossVolume', value: 36 },
+      { name: 'GrossPerimeter', value: 14 },
+    ],
+  };
+
+  describe('getSpaceQuantities', () => {
+    it('should read the space base quantities first', () => {
+      const element = space(1, '101', 'Level 1', [
+        { name: 'Custom', properties: [{ name: 'NetFloorArea', value: 99 }] },
+        baseQuantities,
+      ]);
+
+      expect(getSpaceQuantities(element.properties)).toEqual({
+        netFloorArea: 11.5,
+        grossFloorArea: 12,
+        volume: 36,
+        perimeter: 14,
+      });
+    });
+
+    it('should convert the quantities of millimeter projects to meters', () => {
+      const units: ProjectUnits = {
+        ...DEFAULT_PROJECT_UNITS,
+        length: { symbol: 'mm', factor: 1000, decimals: 0 },
+        area: { symbol: 'mm²', factor: 1e6, decimals: 0 },
+        volume: { symbol: 'mm³', factor: 1e9, decimals: 0 },
+      };
+      const element = space(1, '101', 'Level 1', [
+        {
+          name: 'Qto_SpaceBaseQuantities',
+          properties: [
+            { name: 'NetFloorArea', value: 11.5e6 },
+            { name: 'GrossVolume', value: 36e9 },
+            { name: 'GrossPerimeter', value: 14000 },
+          ],
+        },
+      ]);
+
+      expect(getSpaceQuantities(element.properties, units)).toEqual({
+        netFloorArea: 11.5,
+        grossFloorArea: null,
+        volume: 36,
+        perimeter: 14,
+      });
+    });
+
+    it('should report missing quantities', () => {
+      const quantities = getSpaceQuantities(space(1, '101', 'Level 1', []).properties);
+
+      expect(getMissingSpaceQuantities(quantities)).toEqual(['netFloorArea', 'grossFloorArea', 'volume', 'perimeter']);
+    });
+  });
+
+  describe('getSpaceGeometryQuantities', () => {
+    it('should measure the floor, volume and outline of a closed mesh', () => {
+      const geometry = new THREE.BoxGeometry(2, 1.5, 3);
+
+      const quantities = getSpaceGeometryQuantities(geometry);
+
+      expect(quantities.netFloorArea).toBeCloseTo(6);
+      expect(quantities.grossFloorArea).toBeCloseTo(6);
+      expect(quantities.volume).toBeCloseTo(9);
+      expect(quantities.perimeter).toBeCloseTo(10);
+    });
+
+    it('should return no quantities without a floor', () => {
+      const geometry = new THREE.PlaneGeometry(2, 2);
+
+      expect(getSpaceGeometryQuantities(geometry)).toEqual({
+        netFloorArea: null,
+        grossFloorArea: null,
+        volume: null,
+        perimeter: null,
+      });
+    });
+  });
+
+  describe('toSpaceRow', () => {
+    it('should fill the missing quantities from the geometry', () => {
+      const element = space(1, '101', 'Level 1', [
+        { name: 'Qto_SpaceBaseQuantities', properties: [{ name: 'NetFloorArea', value: 11.5 }] },
+      ]);
+
+      const row = toSpaceRow(element, { netFloorArea: 6, grossFloorArea: 6, volume: 9, perimeter: 10 });
+
+      expect(row.longName).toBe('Room 101');
+      expect(row.usage).toBeNull();
+      expect(row.quantities).toEqual({ netFloorArea: 11.5, grossFloorArea: 6, volume: 9, perimeter: 10 });
+      expect(row.computed).toEqual(['grossFloorArea', 'volume', 'perimeter']);
+      expect(row.occupancy).toBeNull();
+    });
+
+    it('should read the number of occupants', () => {
+      const element = space(1, '101', 'Level 1', [baseQuantities]);
+      element.properties.propertySets = [
+        { name: 'Pset_SpaceOccupancyRequirements', properties: [{ name: 'OccupancyNumber', value: 4 }] },
+      ];
+
+      expect(toSpaceRow(element).occupancy).toBe(4);
+    });
+  });
+
+  describe('mergeSpaceEdit and applySpaceEdit', () => {
+    it('should keep the valid changes', () => {
+      const edit = mergeSpaceEdit(
+        { name: '101', quantities: { volume: 30 } },
+        { name: '', longName: ' Office ', usage: '', quantities: { netFloorArea: 10, perimeter: NaN } }
+      );
+
+      expect(edit).toEqual({ name: '101', longName: 'Office', usage: '', quantities: { volume: 30, netFloorArea: 10 } });
+    });
+
+    it('should apply the edited values to a row', () => {
+      const element = space(1, '101', 'Level 1', []);
+      element.properties.attributes.push({ name: 'ObjectType', value: 'Office' });
+      const row = toSpaceRow(element, { netFloorArea: 6, grossFloorArea: 6, volume: 9, perimeter: 10 });
+
+      const edited = applySpaceEdit(row, { name: 'A1', usage: '', quantities: { netFloorArea: 5 } });
+
+      expect(row.usage).toBe('Office');
+      expect(edited.name).toBe('A1');
+      expect(edited.longName).toBe('Room 101');
+      expect(edited.usage).toBeNull();
+      expect(edited.quantities.netFloorArea).toBe(5);
+      expect(edited.computed).toEqual(['grossFloorArea', 'volume', 'perimeter']);
+    });
+  });
+
+  describe('sortSpaceRows and getSpaceTotals', () => {
+    it('should sort by storey and name and sum the known values', () => {
+      const rows = [
+        toSpaceRow(space(3, '10', 'Level 1', [baseQuantities])),
+        toSpaceRow(space(2, '2', 'Level 1', [])),
+        toSpaceRow(space(1, '1', 'Level 2', [baseQuantities])),
+      ];
+
+      expect(sortSpaceRows(rows).map((row) => row.localId)).toEqual([2, 3, 1]);
+      expect(getSpaceTotals(rows)).toEqual({ count: 3, netFloorArea: 23, grossFloorArea: 24, volume: 72 });
+    });
+  });
+
+  describe('formatSpaceValue', () => {
+    it('should round known values', () => {
+      expect(formatSpaceValue(11.456)).toBe('11.46');
+      expect(formatSpaceValue(null)).toBe('–');
+    });
+  });
+
+  describe('spacesToCsv', () => {
+    it('should write a row per space and a totals row', () => {
+      const rows = [toSpaceRow(space(1, '101', 'Level 1', [baseQuantities]), null)];
+
+      const lines = spacesToCsv(rows).split('\n');
+
+      expect(lines.length).toBe(3);
+      expect(lines[0]).toContain('Net floor area (m²)');
+      expect(lines[1]).toBe('101,Room 101,Level 1,guid-1,11.5,12,36,14,');
+      expect(lines[2]).toBe('Total (1),,,,11.5,12,36,,');
+    });
+  });
+});
@@ -0,0 +1,312 @@
+import * as THREE from 'three';
+import { ScheduleElement } from '../models/export.model';
+import { ElementProperties } from '../models/selection.model';
+import { ProjectUnits } from '../models/measurement.model';
+import { SpaceEdit, SpaceQuantities, SpaceQuantityKey, SpaceRow, SpaceTotals } from '../models/space.model';
+import { DEFAULT_PROJECT_UNITS, SPACE_CONFIG } from '../constants/viewer.constants';
+import { CsvValue, toCsv } from './csv.utils';
+
+/**
+ * Room schedule utility functions
+ */
+
+const SPACE_QUANTITY_KEYS: readonly SpaceQuantityKey[] = ['netFloorArea', 'grossFloorArea', 'volume', 'perimeter'];
+
+const SPACE_QUANTITY_LABELS: Record<SpaceQuantityKey, string> = {
+  netFloorArea: 'Net floor area',
+  grossFloorArea: 'Gross floor area',
+  volume: 'Volume',
+  perimeter: 'Perimeter',
+};
+
+/**
+ * Read the area, volume and perimeter of a space from its quantity sets
+ * Qto_SpaceBaseQuantities is read first, then any other quantity set
+ * @param properties - Space properties
+ * @param units - Project units the quantities are stored in
+ * @returns Quantities in meters (null when not found)
+ */
+export function getSpaceQuantities(
+  properties: ElementProperties,
+  units: ProjectUnits = DEFAULT_PROJECT_UNITS
+): SpaceQuantities {
+  const sets = [...properties.quantitySets].sort(
+    (a, b) => Number(b.name === SPACE_CONFIG.quantitySet) - Number(a.name === SPACE_CONFIG.quantitySet)
+  );
+
+  const read = (names: readonly string[], factor: number): number | null => {
+    for (const name of names) {
+      for (const set of sets) {
+        const value = set.properties.find((quantity) => quantity.name === name)?.value;
+        if (typeof value === 'number' && Number.isFinite(value)) {
+          return value / factor;
+        }
+      }
+    }
+    return null;
+  };
+
+  return {
+    netFloorArea: read(SPACE_CONFIG.quantityNames.netFloorArea, units.area.factor),
+    grossFloorArea: read(SPACE_CONFIG.quantityNames.grossFloorArea, units.area.factor),
+    volume: read(SPACE_CONFIG.quantityNames.volume, units.volume.factor),
+    perimeter: read(SPACE_CONFIG.quantityNames.perimeter, units.length.factor),
+  };
+}
+
+/**
+ * Compute the area, volume and perimeter of a space from its closed mesh
+ * - floor area: projected area of the downward faces (net and gross alike)
+ * - volume: enclosed volume
+ * - perimeter: length of the outline of the downward faces
+ * @param geometry - Space geometry in world space (y up, meters)
+ * @returns Quantities (null when the mesh has no floor or volume)
+ */
+export function getSpaceGeometryQuantities(geometry: THREE.BufferGeometry): SpaceQuantities {
+  const position = geometry.getAttribute('position');
+  const index = geometry.getIndex();
+  const count = index ? index.count : position.count;
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  const ab = new THREE.Vector3();
+  const ac = new THREE.Vector3();
+
+  let volume = 0;
+  let floorArea = 0;
+  // Floor edges by their merged end points, with the number of faces using them
+  const edges = new Map<string, { start: THREE.Vector3; end: THREE.Vector3; count: number }>();
+
+  for (let offset = 0; offset + 2 < count; offset += 3) {
+    const vertices = [a, b, c];
+    vertices.forEach((vertex, corner) =>
+      vertex.fromBufferAttribute(position, index ? index.getX(offset + corner) : offset + corner)
+    );
+
+    volume += a.dot(normal.crossVectors(b, c)) / 6;
+
+    normal.crossVectors(ab.subVectors(b, a), ac.subVectors(c, a));
+    const length = normal.length();
+    if (length === 0 || normal.y / length > -SPACE_CONFIG.floorNormal) {
+      continue;
+    }
+
+    floorArea += -normal.y / 2;
+    vertices.forEach((start, corner) => {
+      const end = vertices[(corner + 1) % 3]!;
+      const [first, second] = [toVertexKey(start), toVertexKey(end)].sort();
+      const key = `${first}|${second}`;
+      const existing = edges.get(key);
+      if (existing) {
+        existing.count++;
+      } else {
+        edges.set(key, { start: start.clone(), end: end.clone(), count: 1 });
+      }
+    });
+  }
+
+  // Edges shared by two floor faces are inside the floor
+  let perimeter = 0;
+  edges.forEach(({ start, end, count: faces }) => {
+    if (faces === 1) {
+      perimeter += start.distanceTo(end);
+    }
+  });
+
+  const hasFloor = floorArea > 0;
+  return {
+    netFloorArea: hasFloor ? floorArea : null,
+    grossFloorArea: hasFloor ? floorArea : null,
+    volume: Math.abs(volume) > 0 ? Math.abs(volume) : null,
+    perimeter: hasFloor ? perimeter : null,
+  };
+}
+
+/**
+ * Quantities missing from the quantity sets of a space
+ * @param quantities - Quantities read from the quantity sets
+ */
+export function getMissingSpaceQuantities(quantities: SpaceQuantities): SpaceQuantityKey[] {
+  return SPACE_QUANTITY_KEYS.filter((key) => quantities[key] === null);
+}
+
+/**
+ * Build the room schedule row of a space
+ * @param element - Space with its properties and storey
+ * @param measured - Quantities computed from the geometry (used for values missing from the quantity sets)
+ * @param units - Project units of the quantity sets
+ * @returns Row with quantities in meters
+ */
+export function toSpaceRow(
+  element: ScheduleElement,
+  measured: SpaceQuantities | null = null,
+  units: ProjectUnits = DEFAULT_PROJECT_UNITS
+): SpaceRow {
+  const { properties } = element;
+  const quantities = getSpaceQuantities(properties, units);
+  const computed: SpaceQuantityKey[] = [];
+
+  for (const key of getMissingSpaceQuantities(quantities)) {
+    const value = measured?.[key] ?? null;
+    if (value !== null) {
+      quantities[key] = value;
+      computed.push(key);
+    }
+  }
+
+  const attribute = (name: string) => {
+    const value = properties.attributes.find((item) => item.name === name)?.value;
+    return typeof value === 'string' && value !== '' ? value : null;
+  };
+  const occupancy = properties.propertySets
+    .find((set) => set.name === SPACE_CONFIG.occupancySet)
+    ?.properties.find((property) => property.name === SPACE_CONFIG.occupancyProperty)?.value;
+
+  return {
+    modelId: properties.modelId,
+    localId: properties.localId,
+    globalId: properties.globalId,
+    name: properties.name,
+    longName: attribute('LongName'),
+    usage: attribute('ObjectType'),
+    storey: element.storey,
+    quantities,
+    occupancy: typeof occupancy === 'number' && Number.isFinite(occupancy) ? occupancy : null,
+    computed,
+  };
+}
+
+/**
+ * Apply the values edited in the room schedule to a row
+ * Empty names are ignored, empty long names and usages clear them
+ * @param row - Room schedule row
+ * @param edit - Edited values
+ * @returns Row with the edited values, which no longer count as computed
+ */
+export function applySpaceEdit(row: SpaceRow, edit: SpaceEdit): SpaceRow {
+  const quantities = { ...row.quantities, ...edit.quantities };
+  const edited = Object.keys(edit.quantities ?? {});
+
+  return {
+    ...row,
+    name: edit.name || row.name,
+    longName: edit.longName !== undefined ? edit.longName || null : row.longName,
+    usage: edit.usage !== undefined ? edit.usage || null : row.usage,
+    quantities,
+    computed: row.computed.filter((key) => !edited.includes(key)),
+  };
+}
+
+/**
+ * Merge a change into the edited values of a space
+ * Texts are trimmed, quantities that are not finite and positive are dropped
+ * @param edit - Values edited so far
+ * @param changes - Changed values
+ * @returns Edited values
+ */
+export function mergeSpaceEdit(edit: SpaceEdit, changes: SpaceEdit): SpaceEdit {
+  const merged: SpaceEdit = { ...edit };
+  (['name', 'longName', 'usage'] as const).forEach((key) => {
+    const value = changes[key]?.trim();
+    if (value !== undefined && (value !== '' || key !== 'name')) {
+      merged[key] = value;
+    }
+  });
+
+  const quantities = { ...edit.quantities };
+  Object.entries(changes.quantities ?? {}).forEach(([key, value]) => {
+    if (Number.isFinite(value) && value > 0) {
+      quantities[key as SpaceQuantityKey] = value;
+    }
+  });
+
+  return Object.keys(quantities).length > 0 ? { ...merged, quantities } : merged;
+}
+
+/**
+ * Sort rows by storey, then by name (natural order)
+ */
+export function sortSpaceRows(rows: SpaceRow[]): SpaceRow[] {
+  const compare = (a: string | null, b: string | null) =>
+    (a ?? '').localeCompare(b ?? '', undefined, { numeric: true });
+  return [...rows].sort((a, b) => compare(a.storey, b.storey) || compare(a.name, b.name) || a.localId - b.localId);
+}
+
+/**
+ * Sum the areas and volumes of spaces
+ * @param rows - Room schedule rows
+ */
+export function getSpaceTotals(rows: SpaceRow[]): SpaceTotals {
+  return rows.reduce(
+    (totals, { quantities }) => ({
+      count: totals.count + 1,
+      netFloorArea: totals.netFloorArea + (quantities.netFloorArea ?? 0),
+      grossFloorArea: totals.grossFloorArea + (quantities.grossFloorArea ?? 0),
+      volume: totals.volume + (quantities.volume ?? 0),
+    }),
+    { count: 0, netFloorArea: 0, grossFloorArea: 0, volume: 0 }
+  );
+}
+
+/**
+ * Format a space quantity for display
+ * @param value - Value in meters
+ * @returns Rounded value or a dash when unknown
+ */
+export function formatSpaceValue(value: number | null): string {
+  return value === null ? '–' : value.toFixed(SPACE_CONFIG.decimals);
+}
+
+/**
+ * Export the room schedule as CSV with a totals row
+ * @param rows - Room schedule rows
+ * @returns CSV text with a header row
+ */
+export function spacesToCsv(rows: SpaceRow[]): string {
+  const round = (value: number | null): CsvValue =>
+    value === null ? null : Number(value.toFixed(SPACE_CONFIG.decimals));
+  const header = [
+    'Name',
+    'Long name',
+    'Storey',
+    'GlobalId',
+    'Net floor area (m²)',
+    'Gross floor area (m²)',
+    'Volume (m³)',
+    'Perimeter (m)',
+    'Computed from geometry',
+  ];
+
+  const body = rows.map((row): CsvValue[] => [
+    row.name,
+    row.longName,
+    row.storey,
+    row.globalId,
+    ...SPACE_QUANTITY_KEYS.map((key) => round(row.quantities[key])),
+    row.computed.map((key) => SPACE_QUANTITY_LABELS[key]).join(', '),
+  ]);
+
+  const totals = getSpaceTotals(rows);
+  const footer: CsvValue[] = [
+    `Total (${totals.count})`,
+    null,
+    null,
+    null,
+    round(totals.netFloorArea),
+    round(totals.grossFloorArea),
+    round(totals.volume),
+    null,
+    null,
+  ];
+
+  return toCsv([header, ...body, footer]);
+}
+
+/**
+ * Key of a vertex on the merge grid
+ */
+function toVertexKey(vertex: THREE.Vector3): string {
+  const snap = (value: number) => Math.round(value / SPACE_CONFIG.vertexTolerance);
+  return `${snap(vertex.x)},${snap(vertex.y)},${snap(vertex.z)}`;
+}
@@ -0,0 +1,144 @@
+import type * as FRAGS from '@thatopen/fragments';
+import {
+  buildSpatialTree,
+  collectSpatialLocalIds,
+  getSpatialNodeVisibility,
+  getStoreyNames,
+  getStoreyNodes,
+} from './spatial.utils';
+
+describe('Spatial Utils', () => {
+  // Project → Site → Building → Storey → IfcWall group → two walls, plus a door group
+  const structure: FRAGS.SpatialTreeItem = {
+    category: 'IFCPROJECT',
+    localId: 1,
+    children: [
+      {
+        category: 'IFCSITE',
+        localId: 2,
+        children: [
+          {
+            category: 'IFCBUILDING',
+            localId: 3,
+            children: [
+              {
+                category: 'IFCBUILDINGSTOREY',
+                localId: 4,
+                children: [
+                  {
+                    category: 'IFCWALL',
+                    localId: null,
+                    children: [
+                      { category: null, localId: 10 },
+                      { category: null, localId: 11 },
+                    ],
+                  },
+                  {
+                    category: 'IFCDOOR',
+                    localId: null,
+                    children: [{ category: null, localId: 20 }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+
+  const names = new Map<number, string>([
+    [1, 'Project'],
+    [4, 'Level 1'],
+    [10, 'Wall A'],
+  ]);
+
+  describe('collectSpatialLocalIds', () => {
+    it('should collect every local ID', () => {
+      expect(collectSpatialLocalIds(structure).sort((a, b) => a - b)).toEqual([
+        1, 2, 3, 4, 10, 11, 20,
+      ]);
+    });
+  });
+
+  describe('buildSpatialTree', () => {
+    const root = buildSpatialTree(structure, 'model-1', 'Architecture', names);
+    const storey = root.children[0]!.children[0]!.children[0]!.children[0]!;
+
+    it('should wrap the project in a model root', () => {
+      expect(root.kind).toBe('model');
+      expect(root.name).toBe('Architecture');
+      expect(root.children[0]!.ifcClass).toBe('IfcProject');
+      expect(root.children[0]!.name).toBe('Project');
+    });
+
+    it('should classify spatial nodes, groups and elements', () => {
+      expect(storey.kind).toBe('spatial');
+      expect(storey.name).toBe('Level 1');
+      expect(storey.children.map((c) => c.kind)).toEqual(['group', 'group']);
+      expect(storey.children[0]!.children.map((c) => c.kind)).toEqual(['element', 'element']);
+    });
+
+    it('should take the element class from its group', () => {
+      const wall = storey.children[0]!.children[1]!;
+
+      expect(wall.ifcClass).toBe('IfcWall');
+      expect(wall.name).toBe('IfcWall #11');
+      expect(storey.children[0]!.children[0]!.name).toBe('Wall A');
+    });
+
+    it('should count elements per node', () => {
+      expect(root.elementCount).toBe(3);
+      expect(storey.elementCount).toBe(3);
+      expect(storey.children[0]!.elementCount).toBe(2);
+    });
+
+    it('should collect the item IDs of each subtree', () => {
+      expect(storey.itemIds).toEqual([4, 10, 11, 20]);
+      expect(storey.children[1]!.itemIds).toEqual([20]);
+    });
+
+    it('should create unique keys', () => {
+      expect(storey.key).toBe('model-1:4');
+      expect(storey.children[0]!.key).toBe('model-1:4/IfcWall');
+    });
+  });
+
+  describe('getSpatialNodeVisibility', () => {
+    const root = buildSpatialTree(structure, 'model-1', 'Architecture', names);
+    const storey = root.children[0]!.children[0]!.children[0]!.children[0]!;
+    const walls = storey.children[0]!;
+
+    it('should be visible without hidden items', () => {
+      expect(getSpatialNodeVisibility(storey, undefined)).toBe('visible');
+      expect(getSpatialNodeVisibility(storey, new Set())).toBe('visible');
+    });
+
+    it('should be partial when some items are hidden', () => {
+      expect(getSpatialNodeVisibility(storey, new Set([10]))).toBe('partial');
+    });
+
+    it('should be hidden when every item is hidden', () => {
+      expect(getSpatialNodeVisibility(walls, new Set([10, 11]))).toBe('hidden');
+    });
+  });
+
+  describe('getStoreyNodes', () => {
+    it('should return the storey nodes', () => {
+      const storeys = getStoreyNodes(buildSpatialTree(structure, 'model-1', 'Architecture', names));
+
+      expect(storeys.map((node) => node.localId)).toEqual([4]);
+      expect(storeys[0]!.name).toBe('Level 1');
+    });
+  });
+
+  describe('getStoreyNames', () => {
+    it('should map the storey and its elements to the storey name', () => {
+      const storeys = getStoreyNames(buildSpatialTree(structure, 'model-1', 'Architecture', names));
+
+      expect(Array.from(storeys.keys())).toEqual([4, 10, 11, 20]);
+      expect(storeys.get(20)).toBe('Level 1');
+      expect(storeys.has(3)).toBe(false);
+    });
+  });
+});
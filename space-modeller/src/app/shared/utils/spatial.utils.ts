@@ -0,0 +1,152 @@
+import type * as FRAGS from '@thatopen/fragments';
+import { SpatialNode, SpatialNodeVisibility } from '../models/spatial.model';
+import { toIfcClassName } from './ifc.utils';
+
+/**
+ * Spatial structure utility functions
+ */
+
+/**
+ * Collect every local ID of a fragments spatial structure
+ * @param item - Root of the spatial structure
+ * @returns Local IDs of spatial nodes and elements
+ */
+export function collectSpatialLocalIds(item: FRAGS.SpatialTreeItem): number[] {
+  const ids: number[] = [];
+  const stack: FRAGS.SpatialTreeItem[] = [item];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current.localId !== null && current.localId !== undefined) {
+      ids.push(current.localId);
+    }
+    for (const child of current.children ?? []) {
+      stack.push(child);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Build the spatial tree of a model from its fragments spatial structure
+ *
+ * Fragments stores the IfcRelAggregates / IfcRelContainedInSpatialStructure decomposition as:
+ * - spatial nodes with a category and a local ID
+ * - class groups with a category and no local ID
+ * - elements with a local ID and no category (the class comes from the group)
+ *
+ * @param structure - Root returned by FragmentsModel.getSpatialStructure
+ * @param modelId - Fragment model UUID
+ * @param modelName - Display name of the model root
+ * @param names - Names of the items by local ID
+ * @returns Model root node
+ */
+export function buildSpatialTree(
+  structure: FRAGS.SpatialTreeItem,
+  modelId: string,
+  modelName: string,
+  names: ReadonlyMap<number, string>
+): SpatialNode {
+  const build = (item: FRAGS.SpatialTreeItem, parentKey: string, parentClass: string): SpatialNode => {
+    const localId = item.localId ?? null;
+    const hasCategory = !!item.category;
+    const kind = localId === null ? 'group' : hasCategory ? 'spatial' : 'element';
+    const ifcClass = hasCategory ? toIfcClassName(item.category!) : parentClass;
+    const key = localId === null ? `${parentKey}/${ifcClass}` : `${modelId}:${localId}`;
+
+    const children = (item.children ?? []).map((child) => build(child, key, ifcClass));
+
+    const itemIds = localId === null ? [] : [localId];
+    let elementCount = kind === 'element' ? 1 : 0;
+    for (const child of children) {
+      // Loop instead of spread: large storeys exceed the max argument count
+      for (const id of child.itemIds) {
+        itemIds.push(id);
+      }
+      elementCount += child.elementCount;
+    }
+
+    const name =
+      (localId !== null ? names.get(localId) : undefined) ??
+      (kind === 'element' ? `${ifcClass} #${localId}` : ifcClass);
+
+    return { key, modelId, localId, name, ifcClass, kind, itemIds, elementCount, children };
+  };
+
+  const root = build(structure, modelId, 'Unknown');
+
+  return {
+    key: modelId,
+    modelId,
+    localId: null,
+    name: modelName,
+    ifcClass: 'Model',
+    kind: 'model',
+    itemIds: root.itemIds,
+    elementCount: root.elementCount,
+    children: [root],
+  };
+}
+
+/**
+ * Get the visibility of a node from the hidden items of its model
+ * @param node - Tree node
+ * @param hiddenIds - Hidden local IDs of the node's model
+ * @returns visible, hidden or partial
+ */
+export function getSpatialNodeVisibility(
+  node: SpatialNode,
+  hiddenIds: ReadonlySet<number> | undefined
+): SpatialNodeVisibility {
+  if (!hiddenIds || hiddenIds.size === 0 || node.itemIds.length === 0) {
+    return 'visible';
+  }
+
+  let hiddenCount = 0;
+  for (const id of node.itemIds) {
+    if (hiddenIds.has(id)) {
+      hiddenCount++;
+    }
+  }
+
+  if (hiddenCount === 0) {
+    return 'visible';
+  }
+  return hiddenCount === node.itemIds.length ? 'hidden' : 'partial';
+}
+
+/**
+ * IfcBuildingStorey nodes of a spatial tree in tree order
+ * @param root - Tree root (model or spatial node)
+ */
+export function getStoreyNodes(root: SpatialNode): SpatialNode[] {
+  const storeys: SpatialNode[] = [];
+
+  const visit = (node: SpatialNode): void => {
+    if (node.kind === 'spatial' && node.ifcClass === 'IfcBuildingStorey') {
+      storeys.push(node);
+    }
+    node.children.forEach(visit);
+  };
+  visit(root);
+
+  return storeys;
+}
+
+/**
+ * Map the items of a spatial tree to the name of their IfcBuildingStorey
+ * @param root - Tree root (model or spatial node)
+ * @returns Storey name by local ID
+ */
+export function getStoreyNames(root: SpatialNode): Map<number, string> {
+  const storeys = new Map<number, string>();
+
+  for (const node of getStoreyNodes(root)) {
+    for (const id of node.itemIds) {
+      storeys.set(id, node.name);
+    }
+  }
+
+  return storeys;
+}
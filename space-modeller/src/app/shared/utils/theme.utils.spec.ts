@@ -0,0 +1,164 @@
+import {
+  findThemeRange,
+  getThemeColor,
+  getThemeRangeLabel,
+  getThemeRanges,
+  getThemeValue,
+  groupThemeElements,
+  parseThemePreset,
+  toThemePreset,
+} from './theme.utils';
+import { ScheduleElement } from '../models/export.model';
+import { ThemeOptions } from '../models/theme.model';
+import { THEME_CONFIG } from '../constants/viewer.constants';
+
+describe('Theme Utils', () => {
+  const element = (localId: number, ifcClass: string, uValue: number | string | null): ScheduleElement => ({
+    properties: {
+      modelId: 'm1',
+      localId,
+      globalId: `guid-${localId}`,
+      name: `Element ${localId}`,
+      ifcClass,
+      attributes: [],
+      propertySets: uValue === null ? [] : [{ name: 'Pset_WallCommon', properties: [{ name: 'U', value: uValue }] }],
+      quantitySets: [],
+    },
+    storey: localId < 3 ? 'Level 1' : null,
+    type: null,
+    material: 'Concrete',
+  });
+
+  const elements = [
+    element(1, 'IfcWall', 0.2),
+    element(2, 'IfcWall', '0.6'),
+    element(3, 'IfcSlab', 1),
+    element(4, 'IfcDoor', null),
+  ];
+
+  const options = (partial: Partial<ThemeOptions>): ThemeOptions => ({
+    mode: 'class',
+    field: null,
+    rangeCount: 2,
+    colors: {},
+    ranges: [],
+    ...partial,
+  });
+
+  describe('getThemeValue', () => {
+    it('should read the value of each mode', () => {
+      expect(getThemeValue(elements[0]!, 'class', null)).toBe('IfcWall');
+      expect(getThemeValue(elements[0]!, 'storey', null)).toBe('Level 1');
+      expect(getThemeValue(elements[0]!, 'material', null)).toBe('Concrete');
+      expect(getThemeValue(elements[1]!, 'property', 'Pset_WallCommon.U')).toBe('0.6');
+      expect(getThemeValue(elements[0]!, 'range', null)).toBeNull();
+    });
+  });
+
+  describe('getThemeColor', () => {
+    it('should use the palette, then generated colors', () => {
+      expect(getThemeColor(0)).toBe(THEME_CONFIG.palette[0]);
+      expect(getThemeColor(THEME_CONFIG.palette.length)).toMatch(/^#[0-9a-f]{6}$/);
+      expect(getThemeColor(20)).not.toBe(getThemeColor(21));
+    });
+  });
+
+  describe('getThemeRanges', () => {
+    it('should split the interval into equal ranges from the first to the last color', () => {
+      const ranges = getThemeRanges(0, 1, 4);
+
+      expect(ranges.map((range) => range.max)).toEqual([0.25, 0.5, 0.75, 1]);
+      expect(ranges[0]!.color).toBe(THEME_CONFIG.rangeColors[0]);
+      expect(ranges[3]!.color).toBe(THEME_CONFIG.rangeColors[1]);
+    });
+
+    it('should return a single range for a single value', () => {
+      expect(getThemeRanges(2, 2, 5)).toEqual([{ min: 2, max: 2, color: THEME_CONFIG.rangeColors[0] }]);
+    });
+  });
+
+  describe('findThemeRange', () => {
+    it('should include the maximum in the last range only', () => {
+      const ranges = getThemeRanges(0, 1, 2);
+
+      expect(findThemeRange(ranges, 0.5)).toBe(1);
+      expect(findThemeRange(ranges, 1)).toBe(1);
+      expect(findThemeRange(ranges, 1.5)).toBe(-1);
+    });
+  });
+
+  describe('getThemeRangeLabel', () => {
+    it('should round the bounds', () => {
+      expect(getThemeRangeLabel({ min: 0.2, max: 0.6000001, color: '#000000' })).toBe('0.2 – 0.6');
+      expect(getThemeRangeLabel({ min: 2, max: 2, color: '#000000' })).toBe('2');
+    });
+  });
+
+  describe('groupThemeElements', () => {
+    it('should group by value with elements without a value last', () => {
+      const groups = groupThemeElements(elements, options({ mode: 'storey', colors: { 'Level 1': '#123456' } }));
+
+      expect(groups.map((group) => group.label)).toEqual(['Level 1', THEME_CONFIG.noValueLabel]);
+      expect(groups[0]!.color).toBe('#123456');
+      expect(groups[0]!.elements.map((item) => item.localId)).toEqual([1, 2]);
+      expect(groups[1]!.color).toBe(THEME_CONFIG.noValueColor);
+    });
+
+    it('should use the default colors of values', () => {
+      const groups = groupThemeElements(elements, options({ mode: 'class' }), (label) => `#${label.length}00000`);
+
+      expect(groups.map((group) => `${group.label} ${group.color}`)).toEqual([
+        'IfcDoor #700000',
+        'IfcSlab #700000',
+        'IfcWall #700000',
+      ]);
+    });
+
+    it('should group numeric values into ranges', () => {
+      const field = 'U';
+      const groups = groupThemeElements(elements, options({ mode: 'range', field }));
+
+      expect(groups.map((group) => group.label)).toEqual(['0.2 – 0.6', '0.6 – 1', THEME_CONFIG.noValueLabel]);
+      expect(groups[1]!.elements.map((item) => item.localId)).toEqual([2, 3]);
+    });
+
+    it('should use the given ranges', () => {
+      const ranges = [{ min: 0, max: 0.5, color: '#00ff00' }];
+      const groups = groupThemeElements(elements, options({ mode: 'range', field: 'U', ranges }));
+
+      expect(groups[0]!.color).toBe('#00ff00');
+      expect(groups[0]!.elements.length).toBe(1);
+      expect(groups[1]!.elements.length).toBe(3);
+    });
+  });
+
+  describe('presets', () => {
+    it('should round trip the colors and ranges', () => {
+      const theme = options({ mode: 'range', field: 'U' });
+      const preset = toThemePreset('U-values', theme, groupThemeElements(elements, theme));
+      const parsed = parseThemePreset(JSON.stringify(preset));
+
+      expect(parsed).toEqual(preset);
+      expect(parsed.ranges.length).toBe(2);
+      expect(parsed.colors).toEqual({ [THEME_CONFIG.noValueLabel]: THEME_CONFIG.noValueColor });
+    });
+
+    it('should skip invalid colors and ranges', () => {
+      const parsed = parseThemePreset(
+        JSON.stringify({
+          mode: 'class',
+          colors: { IfcWall: '#ff0000', IfcDoor: 'red' },
+          ranges: [{ min: 2, max: 1, color: '#000000' }],
+        })
+      );
+
+      expect(parsed.colors).toEqual({ IfcWall: '#ff0000' });
+      expect(parsed.ranges).toEqual([]);
+      expect(parsed.field).toBeNull();
+    });
+
+    it('should reject other files', () => {
+      expect(() => parseThemePreset('{"mode":"rainbow"}')).toThrowError('Not a color preset file');
+    });
+  });
+});
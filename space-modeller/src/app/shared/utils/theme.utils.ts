@@ -0,0 +1,317 @@
+import { ScheduleElement } from '../models/export.model';
+import { ElementPropertyValue, ElementReference } from '../models/selection.model';
+import { ThemeGroup, ThemeMode, ThemeOptions, ThemePreset, ThemeRange } from '../models/theme.model';
+import { THEME_CONFIG } from '../constants/viewer.constants';
+import { getQueryFieldValues } from './query.utils';
+
+/**
+ * Thematic view utility functions
+ */
+
+const THEME_MODES: readonly ThemeMode[] = ['class', 'storey', 'material', 'property', 'range'];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Value of an element that a theme colors by
+ * @param element - Element with its properties, storey, type and material
+ * @param mode - Theme mode
+ * @param field - Property of the property and range modes (e.g. Pset_WallCommon.FireRating)
+ * @returns First value found or null
+ */
+export function getThemeValue(element: ScheduleElement, mode: ThemeMode, field: string | null): ElementPropertyValue {
+  switch (mode) {
+    case 'class':
+      return element.properties.ifcClass;
+    case 'storey':
+      return element.storey;
+    case 'material':
+      return element.material;
+    case 'property':
+    case 'range':
+      if (!field) {
+        return null;
+      }
+      return getQueryFieldValues(element, field).find((value) => value !== null && value !== '') ?? null;
+  }
+}
+
+/**
+ * Color of the nth value of a theme: the palette, then evenly spread hues
+ * @param index - Index of the value in the legend
+ * @returns Hex color
+ */
+export function getThemeColor(index: number): string {
+  const color = THEME_CONFIG.palette[index];
+  if (color) {
+    return color;
+  }
+
+  // Golden angle steps keep neighbouring values apart
+  return hslToHex((index * 137.508) % 360, 0.65, 0.55);
+}
+
+/**
+ * Split a value interval into equal ranges colored from the first to the last range color
+ * @param min - Lowest value
+ * @param max - Highest value
+ * @param count - Number of ranges (a single range if min equals max)
+ * @returns Ranges in ascending order
+ */
+export function getThemeRanges(min: number, max: number, count: number): ThemeRange[] {
+  const total = max > min ? Math.max(1, Math.round(count)) : 1;
+  const bound = (index: number) => (min * (total - index) + max * index) / total;
+  const [start, end] = THEME_CONFIG.rangeColors;
+
+  return Array.from({ length: total }, (_, index) => ({
+    min: bound(index),
+    max: bound(index + 1),
+    color: total === 1 ? start : mixHexColors(start, end, index / (total - 1)),
+  }));
+}
+
+/**
+ * Index of the range containing a value (the last range includes its maximum)
+ * @param ranges - Ranges in ascending order
+ * @param value - Numeric value
+ * @returns Range index or -1
+ */
+export function findThemeRange(ranges: ThemeRange[], value: number): number {
+  return ranges.findIndex(
+    (range, index) => value >= range.min && (value < range.max || (index === ranges.length - 1 && value <= range.max))
+  );
+}
+
+/**
+ * Label of a range (e.g. "0.18 – 0.35")
+ */
+export function getThemeRangeLabel(range: ThemeRange): string {
+  const format = (value: number) => String(Number(value.toPrecision(THEME_CONFIG.rangeDigits)));
+  return range.min === range.max ? format(range.min) : `${format(range.min)} – ${format(range.max)}`;
+}
+
+/**
+ * Group elements by their theme value and assign the colors
+ * Values are sorted naturally (ranges in ascending order); elements without a value come last
+ * @param elements - Elements to color
+ * @param options - Mode, field, range count and color overrides
+ * @param getDefaultColor - Color of a value without an override (palette by legend index by default)
+ * @returns Groups with at least one element
+ */
+export function groupThemeElements(
+  elements: ScheduleElement[],
+  options: ThemeOptions,
+  getDefaultColor: (label: string, index: number) => string = (_, index) => getThemeColor(index)
+): ThemeGroup[] {
+  if (options.mode === 'range') {
+    return groupThemeRanges(elements, options);
+  }
+
+  const values = new Map<string, ScheduleElement[]>();
+  const missing: ScheduleElement[] = [];
+
+  for (const element of elements) {
+    const value = getThemeValue(element, options.mode, options.field);
+    if (value === null || value === '') {
+      missing.push(element);
+      continue;
+    }
+
+    const label = String(value);
+    const members = values.get(label);
+    if (members) {
+      members.push(element);
+    } else {
+      values.set(label, [element]);
+    }
+  }
+
+  const groups: ThemeGroup[] = Array.from(values.keys())
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .map((label, index) => ({
+      label,
+      color: options.colors[label] ?? getDefaultColor(label, index),
+      elements: toReferences(values.get(label) ?? []),
+    }));
+
+  return withMissingGroup(groups, missing, options);
+}
+
+/**
+ * Build a preset of a theme
+ * @param name - Preset name
+ * @param options - Theme options
+ * @param groups - Current groups (their colors and ranges are saved)
+ * @returns Preset
+ */
+export function toThemePreset(name: string, options: ThemeOptions, groups: ThemeGroup[]): ThemePreset {
+  return {
+    version: THEME_CONFIG.presetVersion,
+    name,
+    mode: options.mode,
+    field: options.field,
+    colors: Object.fromEntries(groups.filter((group) => !group.range).map((group) => [group.label, group.color])),
+    ranges: groups.flatMap((group) => (group.range ? [{ ...group.range, color: group.color }] : [])),
+  };
+}
+
+/**
+ * Read a theme preset file
+ * Colors and ranges that are not valid are skipped
+ * @param text - JSON text
+ * @returns Preset
+ * @throws Error if the file is not a theme preset
+ */
+export function parseThemePreset(text: string): ThemePreset {
+  const json: unknown = JSON.parse(text);
+  if (!isObject(json) || !THEME_MODES.includes(json['mode'] as ThemeMode)) {
+    throw new Error('Not a color preset file');
+  }
+
+  const colors: Record<string, string> = {};
+  if (isObject(json['colors'])) {
+    for (const [label, color] of Object.entries(json['colors'])) {
+      if (typeof color === 'string' && HEX_COLOR.test(color)) {
+        colors[label] = color;
+      }
+    }
+  }
+
+  const ranges = (Array.isArray(json['ranges']) ? json['ranges'] : []).filter(
+    (range): range is ThemeRange =>
+      isObject(range) &&
+      Number.isFinite(range['min']) &&
+      Number.isFinite(range['max']) &&
+      (range['min'] as number) <= (range['max'] as number) &&
+      typeof range['color'] === 'string' &&
+      HEX_COLOR.test(range['color'])
+  );
+
+  return {
+    version: typeof json['version'] === 'number' ? json['version'] : THEME_CONFIG.presetVersion,
+    name: typeof json['name'] === 'string' ? json['name'] : '',
+    mode: json['mode'] as ThemeMode,
+    field: typeof json['field'] === 'string' ? json['field'] : null,
+    colors,
+    ranges: ranges
+      .map((range) => ({ min: range.min, max: range.max, color: range.color }))
+      .sort((a, b) => a.min - b.min),
+  };
+}
+
+/**
+ * Group elements by numeric ranges of the theme field
+ */
+function groupThemeRanges(elements: ScheduleElement[], options: ThemeOptions): ThemeGroup[] {
+  const numbers = new Map<ScheduleElement, number>();
+  const missing: ScheduleElement[] = [];
+
+  for (const element of elements) {
+    const value = toNumber(getThemeValue(element, 'range', options.field));
+    if (value === null) {
+      missing.push(element);
+    } else {
+      numbers.set(element, value);
+    }
+  }
+
+  let ranges = options.ranges;
+  if (ranges.length === 0 && numbers.size > 0) {
+    let min = Infinity;
+    let max = -Infinity;
+    numbers.forEach((value) => {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    });
+    ranges = getThemeRanges(min, max, options.rangeCount);
+  }
+
+  const members = ranges.map((): ScheduleElement[] => []);
+  numbers.forEach((value, element) => {
+    const index = findThemeRange(ranges, value);
+    if (index === -1) {
+      missing.push(element);
+    } else {
+      members[index]!.push(element);
+    }
+  });
+
+  const groups = ranges
+    .map((range, index) => ({
+      label: getThemeRangeLabel(range),
+      color: range.color,
+      elements: toReferences(members[index]!),
+      range,
+    }))
+    .filter((group) => group.elements.length > 0);
+
+  return withMissingGroup(groups, missing, options);
+}
+
+/**
+ * Append the group of elements without a value
+ */
+function withMissingGroup(groups: ThemeGroup[], missing: ScheduleElement[], options: ThemeOptions): ThemeGroup[] {
+  if (missing.length === 0) {
+    return groups;
+  }
+
+  return [
+    ...groups,
+    {
+      label: THEME_CONFIG.noValueLabel,
+      color: options.colors[THEME_CONFIG.noValueLabel] ?? THEME_CONFIG.noValueColor,
+      elements: toReferences(missing),
+    },
+  ];
+}
+
+/**
+ * References of schedule elements
+ */
+function toReferences(elements: ScheduleElement[]): ElementReference[] {
+  return elements.map(({ properties }) => ({ modelId: properties.modelId, localId: properties.localId }));
+}
+
+/**
+ * Read a number from a property value (numeric text included)
+ */
+function toNumber(value: ElementPropertyValue): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  }
+  return null;
+}
+
+/**
+ * Mix two hex colors
+ * @param t - 0 for the first color, 1 for the second
+ */
+function mixHexColors(from: string, to: string, t: number): string {
+  const channel = (color: string, offset: number) => parseInt(color.slice(offset, offset + 2), 16);
+  const mixed = [1, 3, 5].map((offset) =>
+    Math.round(channel(from, offset) + (channel(to, offset) - channel(from, offset)) * t)
+  );
+  return `#${mixed.map((value) => value.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Convert HSL (hue in degrees, saturation and lightness 0-1) to a hex color
+ */
+function hslToHex(hue: number, saturation: number, lightness: number): string {
+  const amplitude = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const value = lightness - amplitude * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
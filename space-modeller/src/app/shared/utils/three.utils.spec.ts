@@ -213,6 +213,25 @@ describe('Three.js Utils', () => {
       (mesh.material as THREE.Material).dispose();
     });
 
+    it('should accept a bounding box', () => {
+      const box = new THREE.Box3(new THREE.Vector3(4, 0, 4), new THREE.Vector3(6, 2, 6));
+
+      const result = calculateCameraPosition(box, camera);
+
+      expect(result.target.equals(new THREE.Vector3(5, 1, 5))).toBe(true);
+      expect(result.position.x).toBeGreaterThan(5);
+    });
+
+    it('should look along a given direction', () => {
+      const box = new THREE.Box3(new THREE.Vector3(-1, -1, -1), new THREE.Vector3(1, 1, 1));
+
+      const result = calculateCameraPosition(box, camera, 1.5, new THREE.Vector3(0, 0, 1));
+
+      expect(result.position.x).toBe(0);
+      expect(result.position.y).toBe(0);
+      expect(result.position.z).toBeGreaterThan(1);
+    });
+
     it('should return default position for empty object', () => {
       const emptyGroup = new THREE.Group();
 
@@ -80,17 +80,19 @@ export function calculateModelStatistics(object: THREE.Object3D): ModelStatistic
 
 /**
  * Calculate optimal camera position to view an object
- * @param object - The object to view
+ * @param object - The object to view, or its bounding box
  * @param camera - The camera to position
  * @param paddingFactor - Extra space around object (default 1.5)
+ * @param direction - View direction scaled by the distance (default: from the front-right-top)
  * @returns Object containing position and target
  */
 export function calculateCameraPosition(
-  object: THREE.Object3D,
+  object: THREE.Object3D | THREE.Box3,
   camera: THREE.PerspectiveCamera,
-  paddingFactor: number = 1.5
+  paddingFactor: number = 1.5,
+  direction: THREE.Vector3 = new THREE.Vector3(0.7, 0.7, 0.7)
 ): { position: THREE.Vector3; target: THREE.Vector3 } {
-  const bbox = calculateBoundingBox(object);
+  const bbox = object instanceof THREE.Box3 ? object : calculateBoundingBox(object);
   
   if (!bbox || bbox.isEmpty()) {
     // Return default position if no geometry
@@ -108,12 +110,8 @@ export function calculateCameraPosition(
   const fov = camera.fov * (Math.PI / 180);
   const distance = Math.abs(maxDim / 2 / Math.tan(fov / 2)) * paddingFactor;
 
-  // Position camera at an angle
-  const position = new THREE.Vector3(
-    center.x + distance * 0.7,
-    center.y + distance * 0.7,
-    center.z + distance * 0.7
-  );
+  // Position camera along the view direction
+  const position = center.clone().addScaledVector(direction, distance);
 
   return {
     position,
@@ -1,5 +1,6 @@
 import {
   validateIfcFile,
+  getFileExtension,
   validateConfig,
   isValidUrl,
   isInRange,
@@ -17,12 +18,18 @@ describe('Validation Utils', () => {
       expect(result.error).toBeUndefined();
     });
 
-    it('should reject file without .ifc extension', () => {
+    it('should accept exported fragments files', () => {
+      const file = new File(['content'], 'model.frag');
+
+      expect(validateIfcFile(file).valid).toBe(true);
+    });
+
+    it('should reject file without .ifc or .frag extension', () => {
       const file = new File(['content'], 'model.txt', { type: 'text/plain' });
       const result = validateIfcFile(file);
       
       expect(result.valid).toBe(false);
-      expect(result.error).toContain('.ifc extension');
+      expect(result.error).toBe('File must have .ifc or .frag extension');
     });
 
     it('should reject file that is too large', () => {
@@ -58,6 +65,18 @@ describe('Validation Utils', () => {
     });
   });
 
+  describe('getFileExtension', () => {
+    it('should return the lower-case extension', () => {
+      expect(getFileExtension('Model.FRAG')).toBe('.frag');
+      expect(getFileExtension('site.v2.ifc')).toBe('.ifc');
+    });
+
+    it('should return empty string without an extension', () => {
+      expect(getFileExtension('model')).toBe('');
+      expect(getFileExtension('.ifc')).toBe('');
+    });
+  });
+
   describe('validateConfig', () => {
     it('should validate complete configuration', () => {
       const config = {
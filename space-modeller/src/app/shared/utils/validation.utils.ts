@@ -2,8 +2,20 @@
  * Validation utility functions
  */
 
+import { FILE_VALIDATION } from '../constants/viewer.constants';
+
+/**
+ * Get the lower-case extension of a file name
+ * @param fileName - File name to inspect
+ * @returns Extension including the dot, or empty string if none
+ */
+export function getFileExtension(fileName: string): string {
+  const index = fileName.lastIndexOf('.');
+  return index > 0 ? fileName.slice(index).toLowerCase() : '';
+}
+
 /**
- * Validate if a file is a valid IFC file
+ * Validate if a file is a model file that can be imported (.ifc or .frag)
  * @param file - The file to validate
  * @returns Validation result with error message if invalid
  */
@@ -14,13 +26,13 @@ export function validateIfcFile(file: File): { valid: boolean; error?: string }
   }
 
   // Check file extension
-  const fileName = file.name.toLowerCase();
-  if (!fileName.endsWith('.ifc')) {
-    return { valid: false, error: 'File must have .ifc extension' };
+  const allowedExtensions: readonly string[] = FILE_VALIDATION.allowedExtensions;
+  if (!allowedExtensions.includes(getFileExtension(file.name))) {
+    return { valid: false, error: `File must have ${allowedExtensions.join(' or ')} extension` };
   }
 
-  // Check file size (default max 500MB)
-  const maxSize = 500 * 1024 * 1024; // 500 MB
+  // Check file size
+  const maxSize = FILE_VALIDATION.maxFileSize;
   if (file.size > maxSize) {
     return {
       valid: false,
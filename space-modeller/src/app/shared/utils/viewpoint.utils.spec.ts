@@ -0,0 +1,120 @@
+import {
+  getNextViewpointName,
+  getViewpointStorageKey,
+  mergeViewpoints,
+  normalizeViewpoint,
+  parseViewpoints,
+  toViewpointsFile,
+} from './viewpoint.utils';
+import { Viewpoint } from '../models/viewpoint.model';
+
+describe('Viewpoint Utils', () => {
+  const viewpoint = (id: string, name: string): Viewpoint => ({
+    id,
+    name,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    camera: {
+      type: 'perspective',
+      position: { x: 10, y: 10, z: 10 },
+      target: { x: 0, y: 0, z: 0 },
+      zoom: 1,
+    },
+    hiddenClasses: ['IfcSpace'],
+    selectedGlobalId: '2O2Fr$t4X7Zf8NOew3FLOH',
+    clipping: {
+      planes: [
+        { id: 'p1', label: 'Plane 1 (Y)', axis: 'y', normal: { x: 0, y: -1, z: 0 }, constant: 2, enabled: true },
+      ],
+      sectionBox: { enabled: false, min: { x: 0, y: 0, z: 0 }, max: { x: 1, y: 1, z: 1 } },
+    },
+  });
+
+  describe('getViewpointStorageKey', () => {
+    it('should prefix the model name', () => {
+      expect(getViewpointStorageKey('tower')).toBe('space-modeller-viewpoints:tower');
+    });
+  });
+
+  describe('getNextViewpointName', () => {
+    it('should number viewpoints after the highest existing number', () => {
+      expect(getNextViewpointName([])).toBe('Viewpoint 1');
+      expect(getNextViewpointName([viewpoint('a', 'Viewpoint 4'), viewpoint('b', 'Entrance')])).toBe(
+        'Viewpoint 5'
+      );
+      expect(getNextViewpointName([viewpoint('a', 'Entrance')])).toBe('Viewpoint 2');
+    });
+  });
+
+  describe('normalizeViewpoint', () => {
+    it('should keep a valid viewpoint unchanged', () => {
+      expect(normalizeViewpoint(viewpoint('a', 'Entrance'))).toEqual(viewpoint('a', 'Entrance'));
+    });
+
+    it('should reject viewpoints without a valid camera', () => {
+      expect(normalizeViewpoint(null)).toBeNull();
+      expect(normalizeViewpoint({ name: 'No camera' })).toBeNull();
+      expect(
+        normalizeViewpoint({ camera: { type: 'fisheye', position: { x: 0, y: 0, z: 0 }, target: { x: 0, y: 0, z: 0 } } })
+      ).toBeNull();
+      expect(
+        normalizeViewpoint({ camera: { type: 'perspective', position: { x: 'a', y: 0, z: 0 }, target: { x: 0, y: 0, z: 0 } } })
+      ).toBeNull();
+    });
+
+    it('should fill in missing optional state', () => {
+      const result = normalizeViewpoint({
+        camera: { type: 'orthographic', position: { x: 1, y: 2, z: 3 }, target: { x: 0, y: 0, z: 0 } },
+        hiddenClasses: ['IfcWall', 3],
+        clipping: { planes: [{ axis: 'z' }] },
+      });
+
+      expect(result!.id).toBeTruthy();
+      expect(result!.name).toBe('Viewpoint');
+      expect(result!.camera.zoom).toBe(1);
+      expect(result!.hiddenClasses).toEqual(['IfcWall']);
+      expect(result!.selectedGlobalId).toBeNull();
+      expect(result!.clipping.planes).toEqual([]);
+      expect(result!.clipping.sectionBox.enabled).toBe(false);
+    });
+  });
+
+  describe('parseViewpoints', () => {
+    it('should read an exported file', () => {
+      const text = JSON.stringify(toViewpointsFile('tower', [viewpoint('a', 'Entrance')]));
+
+      expect(parseViewpoints(text)).toEqual([viewpoint('a', 'Entrance')]);
+    });
+
+    it('should read a plain array and skip invalid entries', () => {
+      const text = JSON.stringify([viewpoint('a', 'Entrance'), { name: 'broken' }]);
+
+      expect(parseViewpoints(text).map((v) => v.id)).toEqual(['a']);
+    });
+
+    it('should throw for other files', () => {
+      expect(() => parseViewpoints('{"models": []}')).toThrowError('Not a viewpoints file');
+      expect(() => parseViewpoints('not json')).toThrow();
+    });
+  });
+
+  describe('toViewpointsFile', () => {
+    it('should add the format marker and model name', () => {
+      const file = toViewpointsFile('tower', []);
+
+      expect(file.format).toBe('space-modeller-viewpoints');
+      expect(file.version).toBe(1);
+      expect(file.model).toBe('tower');
+    });
+  });
+
+  describe('mergeViewpoints', () => {
+    it('should replace viewpoints with the same ID and append new ones', () => {
+      const merged = mergeViewpoints(
+        [viewpoint('a', 'Old'), viewpoint('b', 'Kept')],
+        [viewpoint('a', 'New'), viewpoint('c', 'Added')]
+      );
+
+      expect(merged.map((v) => `${v.id}:${v.name}`)).toEqual(['a:New', 'b:Kept', 'c:Added']);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { VIEWPOINT_CONFIG } from '../constants/viewer.constants';
+import { ClippingPlaneInfo, SectionBoxInfo } from '../models/clipping.model';
+import { Vector3Config } from '../models/viewer.model';
+import { Viewpoint, ViewpointsFile } from '../models/viewpoint.model';
+
+/**
+ * Saved viewpoint utility functions
+ *
+ * Viewpoints read from local storage or imported files are untrusted JSON, so they
+ * are validated and normalized before use.
+ */
+
+const EMPTY_SECTION_BOX: SectionBoxInfo = {
+  enabled: false,
+  min: { x: 0, y: 0, z: 0 },
+  max: { x: 0, y: 0, z: 0 },
+};
+
+const CLIPPING_AXES = ['x', 'y', 'z', 'view'];
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isVector(value: unknown): value is Vector3Config {
+  return isObject(value) && ['x', 'y', 'z'].every((axis) => Number.isFinite(value[axis]));
+}
+
+function toVector(value: Vector3Config): Vector3Config {
+  return { x: value.x, y: value.y, z: value.z };
+}
+
+/**
+ * Local storage key of the viewpoints of a model
+ * @param modelName - Model name
+ */
+export function getViewpointStorageKey(modelName: string): string {
+  return `${VIEWPOINT_CONFIG.storagePrefix}${modelName}`;
+}
+
+/**
+ * Default name for a new viewpoint ("Viewpoint N")
+ * @param viewpoints - Existing viewpoints
+ */
+export function getNextViewpointName(viewpoints: Viewpoint[]): string {
+  const numbers = viewpoints
+    .map((viewpoint) => /^Viewpoint (\d+)$/.exec(viewpoint.name)?.[1])
+    .filter((match): match is string => match !== undefined)
+    .map(Number);
+
+  return `Viewpoint ${Math.max(viewpoints.length, ...numbers) + 1}`;
+}
+
+/**
+ * Validate a section plane read from JSON
+ */
+function normalizePlane(value: unknown): ClippingPlaneInfo | null {
+  if (
+    !isObject(value) ||
+    !isVector(value['normal']) ||
+    !Number.isFinite(value['constant']) ||
+    !CLIPPING_AXES.includes(value['axis'] as string)
+  ) {
+    return null;
+  }
+
+  return {
+    id: typeof value['id'] === 'string' ? value['id'] : '',
+    label: typeof value['label'] === 'string' ? value['label'] : 'Plane',
+    axis: value['axis'] as ClippingPlaneInfo['axis'],
+    normal: toVector(value['normal']),
+    constant: value['constant'] as number,
+    enabled: value['enabled'] !== false,
+  };
+}
+
+/**
+ * Validate a viewpoint read from JSON
+ * Missing optional state (selection, hidden classes, clipping) falls back to empty
+ * @param value - Parsed JSON value
+ * @returns Viewpoint or null if the camera state is invalid
+ */
+export function normalizeViewpoint(value: unknown): Viewpoint | null {
+  if (!isObject(value) || !isObject(value['camera'])) {
+    return null;
+  }
+
+  const { type, position, target, zoom } = value['camera'];
+  if ((type !== 'perspective' && type !== 'orthographic') || !isVector(position) || !isVector(target)) {
+    return null;
+  }
+
+  const clipping = isObject(value['clipping']) ? value['clipping'] : {};
+  const box = clipping['sectionBox'];
+  const planes = Array.isArray(clipping['planes']) ? clipping['planes'] : [];
+  const hiddenClasses = Array.isArray(value['hiddenClasses']) ? value['hiddenClasses'] : [];
+
+  return {
+    id: typeof value['id'] === 'string' && value['id'] ? value['id'] : crypto.randomUUID(),
+    name: typeof value['name'] === 'string' && value['name'].trim() ? value['name'].trim() : 'Viewpoint',
+    createdAt: typeof value['createdAt'] === 'string' ? value['createdAt'] : new Date().toISOString(),
+    camera: {
+      type,
+      position: toVector(position),
+      target: toVector(target),
+      zoom: typeof zoom === 'number' && zoom > 0 ? zoom : 1,
+    },
+    hiddenClasses: hiddenClasses.filter((name): name is string => typeof name === 'string'),
+    selectedGlobalId: typeof value['selectedGlobalId'] === 'string' ? value['selectedGlobalId'] : null,
+    clipping: {
+      planes: planes
+        .map((plane) => normalizePlane(plane))
+        .filter((plane): plane is ClippingPlaneInfo => plane !== null),
+      sectionBox:
+        isObject(box) && isVector(box['min']) && isVector(box['max'])
+          ? { enabled: box['enabled'] === true, min: toVector(box['min']), max: toVector(box['max']) }
+          : { ...EMPTY_SECTION_BOX },
+    },
+  };
+}
+
+/**
+ * Build the exported viewpoints file
+ * @param modelName - Name of the model the viewpoints belong to
+ * @param viewpoints - Viewpoints to export
+ */
+export function toViewpointsFile(modelName: string, viewpoints: Viewpoint[]): ViewpointsFile {
+  return {
+    format: VIEWPOINT_CONFIG.fileFormat,
+    version: VIEWPOINT_CONFIG.fileVersion,
+    model: modelName,
+    viewpoints,
+  };
+}
+
+/**
+ * Parse an exported viewpoints file (or a plain array of viewpoints)
+ * Invalid viewpoints are skipped
+ * @param text - JSON text
+ * @returns Valid viewpoints
+ * @throws Error if the text is not JSON or not a viewpoints file
+ */
+export function parseViewpoints(text: string): Viewpoint[] {
+  const json: unknown = JSON.parse(text);
+  const list = Array.isArray(json) ? json : isObject(json) ? json['viewpoints'] : undefined;
+
+  if (!Array.isArray(list)) {
+    throw new Error('Not a viewpoints file');
+  }
+
+  return list
+    .map((value) => normalizeViewpoint(value))
+    .filter((viewpoint): viewpoint is Viewpoint => viewpoint !== null);
+}
+
+/**
+ * Add viewpoints to a list, replacing viewpoints with the same ID
+ * @param existing - Current viewpoints
+ * @param incoming - Viewpoints to add
+ * @returns Merged list in the original order followed by the new viewpoints
+ */
+export function mergeViewpoints(existing: Viewpoint[], incoming: Viewpoint[]): Viewpoint[] {
+  const byId = new Map(existing.map((viewpoint) => [viewpoint.id, viewpoint]));
+  incoming.forEach((viewpoint) => byId.set(viewpoint.id, viewpoint));
+  return Array.from(byId.values());
+}
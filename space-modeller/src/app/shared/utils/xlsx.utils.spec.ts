@@ -0,0 +1,64 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { getColumnName, toSheetName, writeWorksheet, writeXlsx } from './xlsx.utils';
+
+describe('XLSX Utils', () => {
+  describe('getColumnName', () => {
+    it('should name columns like a spreadsheet', () => {
+      expect(getColumnName(0)).toBe('A');
+      expect(getColumnName(25)).toBe('Z');
+      expect(getColumnName(26)).toBe('AA');
+      expect(getColumnName(701)).toBe('ZZ');
+      expect(getColumnName(702)).toBe('AAA');
+    });
+  });
+
+  describe('toSheetName', () => {
+    it('should remove invalid characters and limit the length', () => {
+      expect(toSheetName('Level [1]/2')).toBe('Level  1  2');
+      expect(toSheetName('x'.repeat(40)).length).toBe(31);
+      expect(toSheetName('')).toBe('Sheet1');
+    });
+  });
+
+  describe('writeWorksheet', () => {
+    it('should write numbers, booleans and escaped inline strings', () => {
+      const xml = writeWorksheet([
+        ['Name', 'Area', 'External'],
+        ['A & B', 12.5, true],
+      ]);
+
+      expect(xml).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Name</t></is></c>');
+      expect(xml).toContain('<t xml:space="preserve">A &amp; B</t>');
+      expect(xml).toContain('<c r="B2"><v>12.5</v></c>');
+      expect(xml).toContain('<c r="C2" t="b"><v>1</v></c>');
+      expect(xml).toContain('state="frozen"');
+    });
+
+    it('should leave out empty cells', () => {
+      const xml = writeWorksheet([['a', null, '']]);
+
+      expect(xml).toContain('<row r="1"><c r="A1"');
+      expect(xml).not.toContain('r="B1"');
+      expect(xml).not.toContain('r="C1"');
+    });
+  });
+
+  describe('writeXlsx', () => {
+    it('should package a workbook with one worksheet', () => {
+      const files = unzipSync(writeXlsx('Schedule', [['GlobalId'], ['abc']]));
+
+      expect(Object.keys(files)).toEqual(
+        jasmine.arrayContaining([
+          '[Content_Types].xml',
+          '_rels/.rels',
+          'xl/workbook.xml',
+          'xl/_rels/workbook.xml.rels',
+          'xl/styles.xml',
+          'xl/worksheets/sheet1.xml',
+        ])
+      );
+      expect(strFromU8(files['xl/workbook.xml']!)).toContain('<sheet name="Schedule"');
+      expect(strFromU8(files['xl/worksheets/sheet1.xml']!)).toContain('abc');
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { strToU8, zipSync } from 'fflate';
+import { CsvValue } from './csv.utils';
+
+/**
+ * XLSX (Office Open XML spreadsheet) writing utilities
+ * Writes a single worksheet with inline strings, enough for tabular exports
+ */
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+const NAMESPACES = {
+  main: 'http://schemas.openxmlformats.org/spreadsheetml/2006/main',
+  relationships: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  packageRelationships: 'http://schemas.openxmlformats.org/package/2006/relationships',
+  contentTypes: 'http://schemas.openxmlformats.org/package/2006/content-types',
+};
+
+const RELATIONSHIP_TYPES = {
+  officeDocument: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument',
+  worksheet: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet',
+  styles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles',
+};
+
+/**
+ * Escape text for XML, dropping characters XML 1.0 does not allow
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Spreadsheet column name of a zero-based index (0 → A, 26 → AA)
+ */
+export function getColumnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Make a valid worksheet name (max. 31 characters, no []:*?/\)
+ */
+export function toSheetName(name: string): string {
+  const sanitized = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31);
+  return sanitized || 'Sheet1';
+}
+
+/**
+ * Write one cell; empty cells are left out
+ */
+function writeCell(reference: string, value: CsvValue, styleIndex: number): string {
+  const style = styleIndex > 0 ? ` s="${styleIndex}"` : '';
+  if (value === null || value === '') {
+    return '';
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${reference}"${style}><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${reference}"${style} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+/**
+ * Write the worksheet XML; the first row is a bold, frozen header
+ */
+export function writeWorksheet(rows: CsvValue[][]): string {
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) =>
+      writeCell(`${getColumnName(columnIndex)}${rowIndex + 1}`, value, rowIndex === 0 ? 1 : 0)
+    );
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  const frozenHeader =
+    rows.length > 1
+      ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+      : '';
+
+  return (
+    `${XML_DECLARATION}<worksheet xmlns="${NAMESPACES.main}" xmlns:r="${NAMESPACES.relationships}">` +
+    `${frozenHeader}<sheetData>${sheetRows.join('')}</sheetData></worksheet>`
+  );
+}
+
+/**
+ * Write a workbook with a single worksheet
+ * @param sheetName - Worksheet name
+ * @param rows - Rows of cells, the header first
+ * @returns XLSX file contents
+ */
+export function writeXlsx(sheetName: string, rows: CsvValue[][]): Uint8Array {
+  const contentTypes =
+    `${XML_DECLARATION}<Types xmlns="${NAMESPACES.contentTypes}">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    '</Types>';
+
+  const packageRels =
+    `${XML_DECLARATION}<Relationships xmlns="${NAMESPACES.packageRelationships}">` +
+    `<Relationship Id="rId1" Type="${RELATIONSHIP_TYPES.officeDocument}" Target="xl/workbook.xml"/>` +
+    '</Relationships>';
+
+  const workbook =
+    `${XML_DECLARATION}<workbook xmlns="${NAMESPACES.main}" xmlns:r="${NAMESPACES.relationships}">` +
+    `<sheets><sheet name="${escapeXml(toSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets>` +
+    '</workbook>';
+
+  const workbookRels =
+    `${XML_DECLARATION}<Relationships xmlns="${NAMESPACES.packageRelationships}">` +
+    `<Relationship Id="rId1" Type="${RELATIONSHIP_TYPES.worksheet}" Target="worksheets/sheet1.xml"/>` +
+    `<Relationship Id="rId2" Type="${RELATIONSHIP_TYPES.styles}" Target="styles.xml"/>` +
+    '</Relationships>';
+
+  // Style 0: default, style 1: bold header
+  const styles =
+    `${XML_DECLARATION}<styleSheet xmlns="${NAMESPACES.main}">` +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+    '</styleSheet>';
+
+  // Flat paths: spreadsheet applications do not expect directory entries
+  return zipSync({
+    '[Content_Types].xml': strToU8(contentTypes),
+    '_rels/.rels': strToU8(packageRels),
+    'xl/workbook.xml': strToU8(workbook),
+    'xl/_rels/workbook.xml.rels': strToU8(workbookRels),
+    'xl/styles.xml': strToU8(styles),
+    'xl/worksheets/sheet1.xml': strToU8(writeWorksheet(rows)),
+  });
+}
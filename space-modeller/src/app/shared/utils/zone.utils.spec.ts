@@ -0,0 +1,177 @@
+import * as FRAGS from '@thatopen/fragments';
+import {
+  getZoneRows,
+  getZoneTotals,
+  parseZoneCsv,
+  parseZoneMapping,
+  toModelZone,
+  toZoneMapping,
+  toZoneSpaces,
+  zonesToCsv,
+} from './zone.utils';
+import { AuthoredSpace, SpaceRow } from '../models/space.model';
+import { Zone, ZoneSpace } from '../models/zone.model';
+import { THEME_CONFIG } from '../constants/viewer.constants';
+
+describe('Zone Utils', () => {
+  const zone = (id: string, spaceNumbers: string[], modelId: string | null = null): Zone => ({
+    id,
+    name: id,
+    category: 'Department',
+    color: '#3b82f6',
+    spaceNumbers,
+    source: modelId ? 'model' : 'import',
+    modelId,
+  });
+
+  const space = (number: string, area: number | null, occupancy: number | null, modelId = 'm1'): ZoneSpace => ({
+    number,
+    element: { modelId, localId: Number(number) },
+    authoredId: null,
+    area,
+    occupancy,
+  });
+
+  describe('parseZoneCsv', () => {
+    it('should read the columns named by the header', () => {
+      const result = parseZoneCsv('Zone;Room Number;Type;Occupancy\nSales;101;Department;4,5\nSales;102;;');
+
+      expect(result.assignments).toEqual([
+        { spaceNumber: '101', zone: 'Sales', category: 'Department', occupancy: 4.5 },
+        { spaceNumber: '102', zone: 'Sales', category: 'Zone', occupancy: null },
+      ]);
+    });
+
+    it('should read files without a header in column order', () => {
+      const result = parseZoneCsv('101,FC-1,Fire compartment\n,FC-2\n102,FC-1');
+
+      expect(result.assignments.map((assignment) => assignment.spaceNumber)).toEqual(['101', '102']);
+      expect(result.assignments[0]!.category).toBe('Fire compartment');
+      expect(result.skipped).toEqual([2]);
+    });
+
+    it('should reject files without assignments', () => {
+      expect(() => parseZoneCsv('Space,Zone\n')).toThrowError(/no space to zone assignment/);
+    });
+  });
+
+  describe('toZoneMapping', () => {
+    it('should group assignments by category and zone', () => {
+      const mapping = toZoneMapping(
+        [
+          { spaceNumber: '101', zone: 'Sales', category: 'Department', occupancy: 4 },
+          { spaceNumber: '102', zone: 'Sales', category: 'Department', occupancy: null },
+          { spaceNumber: '101', zone: 'Sales', category: 'HVAC', occupancy: null },
+        ],
+        { 'HVAC:Sales': '#000000' }
+      );
+
+      expect(mapping.zones.map((item) => [item.id, item.spaceNumbers, item.color])).toEqual([
+        ['Department:Sales', ['101', '102'], THEME_CONFIG.palette[0]],
+        ['HVAC:Sales', ['101'], '#000000'],
+      ]);
+      expect(mapping.occupancy).toEqual({ '101': 4 });
+    });
+  });
+
+  describe('parseZoneMapping', () => {
+    it('should read stored zones and skip invalid entries', () => {
+      const mapping = parseZoneMapping(
+        JSON.stringify({
+          zones: [{ name: 'Sales', category: 'Department', color: 'red', spaceNumbers: ['101', 5] }, { name: 1 }],
+          occupancy: { '101': 4, '102': -1 },
+        })
+      );
+
+      expect(mapping.zones.length).toBe(1);
+      expect(mapping.zones[0]!.id).toBe('Department:Sales');
+      expect(mapping.zones[0]!.color).toBe(THEME_CONFIG.palette[0]);
+      expect(mapping.zones[0]!.spaceNumbers).toEqual(['101']);
+      expect(mapping.occupancy).toEqual({ '101': 4 });
+    });
+  });
+
+  describe('toModelZone', () => {
+    it('should read the grouped spaces of an IfcZone', () => {
+      const item = {
+        Name: { value: 'North wing' },
+        ObjectType: { value: 'HVAC zone' },
+        IsGroupedBy: [
+          { _category: { value: 'IFCSPACE' }, Name: { value: '101' } },
+          { _category: { value: 'IFCZONE' }, Name: { value: 'Nested' } },
+        ],
+      } as unknown as FRAGS.ItemData;
+
+      const result = toModelZone(item, { modelId: 'm1', localId: 7 }, '#ff0000');
+
+      expect(result.id).toBe('m1:7');
+      expect(result.category).toBe('HVAC zone');
+      expect(result.spaceNumbers).toEqual(['101']);
+      expect(result.source).toBe('model');
+    });
+  });
+
+  describe('toZoneSpaces', () => {
+    it('should combine room schedule rows and authored rooms', () => {
+      const row = {
+        modelId: 'm1',
+        localId: 3,
+        name: '101',
+        quantities: { netFloorArea: null, grossFloorArea: 20, volume: null, perimeter: null },
+        occupancy: 2,
+      } as SpaceRow;
+      const authored = {
+        id: 'a',
+        number: '102',
+        outline: [
+          { x: 0, y: 0 },
+          { x: 4, y: 0 },
+          { x: 4, y: 3 },
+        ],
+      } as AuthoredSpace;
+
+      const spaces = toZoneSpaces([row], [authored], { '102': 3 });
+
+      expect(spaces.map((item) => [item.number, item.area, item.occupancy, item.authoredId])).toEqual([
+        ['101', 20, 2, null],
+        ['102', 6, 3, 'a'],
+      ]);
+    });
+  });
+
+  describe('getZoneRows', () => {
+    it('should sum the spaces of each zone and list missing ones', () => {
+      const rows = getZoneRows([zone('A', ['1', '2', '9'])], [space('1', 10, 2), space('2', null, 3)]);
+
+      expect(rows[0]!.spaces.length).toBe(2);
+      expect(rows[0]!.area).toBe(10);
+      expect(rows[0]!.occupancy).toBe(5);
+      expect(rows[0]!.missing).toEqual(['9']);
+    });
+
+    it('should only group spaces of the model of a model zone', () => {
+      const rows = getZoneRows([zone('A', ['1'], 'm2')], [space('1', 10, 2, 'm1'), space('1', 5, 1, 'm2')]);
+
+      expect(rows[0]!.area).toBe(5);
+    });
+  });
+
+  describe('getZoneTotals', () => {
+    it('should count spaces in several zones once', () => {
+      const spaces = [space('1', 10, 2), space('2', 5, 1)];
+      const totals = getZoneTotals(getZoneRows([zone('A', ['1', '2']), zone('B', ['1'])], spaces));
+
+      expect(totals).toEqual({ zoneCount: 2, spaceCount: 2, area: 15, occupancy: 3 });
+    });
+  });
+
+  describe('zonesToCsv', () => {
+    it('should write a row per zone and a totals row', () => {
+      const lines = zonesToCsv(getZoneRows([zone('A', ['1', '9'])], [space('1', 10.004, 2)])).split('\n');
+
+      expect(lines[0]).toContain('Area (m²)');
+      expect(lines[1]).toBe('Department,A,import,1,10,2,"1, 9",9');
+      expect(lines[2]).toBe('Total (1),,,1,10,2,,');
+    });
+  });
+});
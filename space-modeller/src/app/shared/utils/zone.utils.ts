@@ -0,0 +1,318 @@
+import * as FRAGS from '@thatopen/fragments';
+import { ElementReference } from '../models/selection.model';
+import { AuthoredSpace, SpaceRow } from '../models/space.model';
+import { Zone, ZoneAssignment, ZoneImport, ZoneMapping, ZoneRow, ZoneSpace, ZoneTotals } from '../models/zone.model';
+import { SPACE_CONFIG, ZONE_CONFIG } from '../constants/viewer.constants';
+import { CsvValue, parseCsv, toCsv } from './csv.utils';
+import { getOutlineArea } from './space-authoring.utils';
+import { getThemeColor } from './theme.utils';
+
+/**
+ * Zone utility functions
+ * Spaces are matched to zones by their room number (IfcSpace.Name)
+ */
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+type ZoneColumn = keyof typeof ZONE_CONFIG.columns;
+
+/**
+ * ID of an imported zone
+ * @param category - Zone category
+ * @param name - Zone name
+ */
+export function getZoneId(category: string, name: string): string {
+  return `${category}:${name}`;
+}
+
+/**
+ * Read a zone mapping from CSV
+ * The header names the columns (e.g. Space, Zone, Type, Occupancy); without a recognised header
+ * the columns are space number, zone, category and occupancy in this order
+ * @param text - CSV text
+ * @returns Assignments and the numbers of the rows that were skipped
+ * @throws Error if the file has no assignment
+ */
+export function parseZoneCsv(text: string): ZoneImport {
+  const rows = parseCsv(text);
+  const header = rows[0]?.map((cell) => cell.trim().toLowerCase()) ?? [];
+  const findColumn = (column: ZoneColumn) =>
+    header.findIndex((cell) => (ZONE_CONFIG.columns[column] as readonly string[]).includes(cell));
+
+  const hasHeader = findColumn('spaceNumber') >= 0 && findColumn('zone') >= 0;
+  const columns: Record<ZoneColumn, number> = hasHeader
+    ? {
+        spaceNumber: findColumn('spaceNumber'),
+        zone: findColumn('zone'),
+        category: findColumn('category'),
+        occupancy: findColumn('occupancy'),
+      }
+    : { spaceNumber: 0, zone: 1, category: 2, occupancy: 3 };
+
+  const assignments: ZoneAssignment[] = [];
+  const skipped: number[] = [];
+
+  rows.slice(hasHeader ? 1 : 0).forEach((row, index) => {
+    const cell = (column: ZoneColumn) => (columns[column] >= 0 ? (row[columns[column]] ?? '').trim() : '');
+    const spaceNumber = cell('spaceNumber');
+    const zone = cell('zone');
+    if (!spaceNumber || !zone) {
+      skipped.push(index + (hasHeader ? 2 : 1));
+      return;
+    }
+
+    const occupancy = parseFloat(cell('occupancy').replace(',', '.'));
+    assignments.push({
+      spaceNumber,
+      zone,
+      category: cell('category') || ZONE_CONFIG.defaultCategory,
+      occupancy: Number.isFinite(occupancy) && occupancy >= 0 ? occupancy : null,
+    });
+  });
+
+  if (assignments.length === 0) {
+    throw new Error('The file has no space to zone assignment');
+  }
+
+  return { assignments, skipped };
+}
+
+/**
+ * Group imported assignments into zones
+ * @param assignments - Assignments of the imported file
+ * @param colors - Colors of existing zones by ID, kept for zones with the same category and name
+ * @returns Zones in file order and the occupancy of the spaces that set one
+ */
+export function toZoneMapping(assignments: ZoneAssignment[], colors: Record<string, string> = {}): ZoneMapping {
+  const zones = new Map<string, Zone>();
+  const occupancy: Record<string, number> = {};
+
+  for (const assignment of assignments) {
+    const id = getZoneId(assignment.category, assignment.zone);
+    let zone = zones.get(id);
+    if (!zone) {
+      zone = {
+        id,
+        name: assignment.zone,
+        category: assignment.category,
+        color: colors[id] ?? getThemeColor(zones.size),
+        spaceNumbers: [],
+        source: 'import',
+        modelId: null,
+      };
+      zones.set(id, zone);
+    }
+
+    if (!zone.spaceNumbers.includes(assignment.spaceNumber)) {
+      zone.spaceNumbers.push(assignment.spaceNumber);
+    }
+    if (assignment.occupancy !== null) {
+      occupancy[assignment.spaceNumber] = assignment.occupancy;
+    }
+  }
+
+  return { zones: [...zones.values()], occupancy };
+}
+
+/**
+ * Read a stored zone mapping, skipping entries that are not valid
+ * @param text - JSON text
+ * @returns Imported zones and occupancy
+ * @throws SyntaxError if the text is not JSON
+ */
+export function parseZoneMapping(text: string): ZoneMapping {
+  const json: unknown = JSON.parse(text);
+  if (typeof json !== 'object' || json === null) {
+    return { zones: [], occupancy: {} };
+  }
+
+  const mapping = json as Record<string, unknown>;
+  const zones = (Array.isArray(mapping['zones']) ? (mapping['zones'] as unknown[]) : []).flatMap(
+    (entry, index): Zone[] => {
+      if (typeof entry !== 'object' || entry === null) {
+        return [];
+      }
+
+      const zone = entry as Record<string, unknown>;
+      if (typeof zone['name'] !== 'string' || typeof zone['category'] !== 'string') {
+        return [];
+      }
+
+      const spaceNumbers = Array.isArray(zone['spaceNumbers'])
+        ? (zone['spaceNumbers'] as unknown[]).filter((number): number is string => typeof number === 'string')
+        : [];
+      return [
+        {
+          id: getZoneId(zone['category'], zone['name']),
+          name: zone['name'],
+          category: zone['category'],
+          color: typeof zone['color'] === 'string' && HEX_COLOR.test(zone['color']) ? zone['color'] : getThemeColor(index),
+          spaceNumbers,
+          source: 'import',
+          modelId: null,
+        },
+      ];
+    }
+  );
+
+  const occupancy: Record<string, number> = {};
+  if (typeof mapping['occupancy'] === 'object' && mapping['occupancy'] !== null) {
+    for (const [number, value] of Object.entries(mapping['occupancy'])) {
+      if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+        occupancy[number] = value;
+      }
+    }
+  }
+
+  return { zones, occupancy };
+}
+
+/**
+ * Zone of an IfcZone item
+ * @param item - Item data with the IsGroupedBy relation
+ * @param zone - Model UUID and local ID of the item
+ * @param color - Zone color
+ * @returns Zone grouping the named spaces of the item (groups of other zones are skipped)
+ */
+export function toModelZone(item: FRAGS.ItemData, zone: ElementReference, color: string): Zone {
+  const read = (data: FRAGS.ItemData, key: string) => {
+    const value = (data[key] as { value?: unknown } | undefined)?.value;
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+  };
+
+  const grouped = Array.isArray(item['IsGroupedBy']) ? (item['IsGroupedBy'] as FRAGS.ItemData[]) : [];
+  const spaceNumbers = grouped
+    .filter((space) => ['', 'IFCSPACE'].includes(read(space, '_category')))
+    .map((space) => read(space, 'Name'))
+    .filter((number) => number !== '');
+
+  return {
+    id: `${zone.modelId}:${zone.localId}`,
+    name: read(item, 'Name') || read(item, 'LongName') || `IfcZone #${zone.localId}`,
+    category: read(item, 'ObjectType') || ZONE_CONFIG.defaultCategory,
+    color,
+    spaceNumbers: [...new Set(spaceNumbers)],
+    source: 'model',
+    modelId: zone.modelId,
+  };
+}
+
+/**
+ * Spaces that can be grouped: the IfcSpaces of the room schedule and the authored rooms
+ * @param rows - Room schedule rows
+ * @param authored - Authored rooms
+ * @param occupancy - Occupancy by room number overriding the one of the model
+ * @returns Spaces with a room number
+ */
+export function toZoneSpaces(
+  rows: SpaceRow[],
+  authored: AuthoredSpace[],
+  occupancy: Record<string, number> = {}
+): ZoneSpace[] {
+  const spaces: ZoneSpace[] = [
+    ...rows.map((row) => ({
+      number: (row.name ?? '').trim(),
+      element: { modelId: row.modelId, localId: row.localId },
+      authoredId: null,
+      area: row.quantities.netFloorArea ?? row.quantities.grossFloorArea,
+      occupancy: row.occupancy,
+    })),
+    ...authored.map((space) => ({
+      number: space.number.trim(),
+      element: null,
+      authoredId: space.id,
+      area: getOutlineArea(space.outline),
+      occupancy: null,
+    })),
+  ];
+
+  return spaces
+    .filter((space) => space.number !== '')
+    .map((space) => ({ ...space, occupancy: occupancy[space.number] ?? space.occupancy }));
+}
+
+/**
+ * Spaces, area and occupancy of zones
+ * Spaces of model zones are only looked up in their own model
+ * @param zones - Zones
+ * @param spaces - Spaces that can be grouped
+ * @returns One row per zone in zone order
+ */
+export function getZoneRows(zones: Zone[], spaces: ZoneSpace[]): ZoneRow[] {
+  const byNumber = new Map<string, ZoneSpace[]>();
+  for (const space of spaces) {
+    byNumber.set(space.number, [...(byNumber.get(space.number) ?? []), space]);
+  }
+
+  return zones.map((zone) => {
+    const found: ZoneSpace[] = [];
+    const missing: string[] = [];
+    for (const number of zone.spaceNumbers) {
+      const matches = (byNumber.get(number) ?? []).filter(
+        (space) => zone.modelId === null || space.element?.modelId === zone.modelId
+      );
+      if (matches.length > 0) {
+        found.push(...matches);
+      } else {
+        missing.push(number);
+      }
+    }
+
+    return {
+      zone,
+      spaces: found,
+      area: found.reduce((sum, space) => sum + (space.area ?? 0), 0),
+      occupancy: found.reduce((sum, space) => sum + (space.occupancy ?? 0), 0),
+      missing,
+    };
+  });
+}
+
+/**
+ * Sum the zone rows, counting spaces in several zones once
+ * @param rows - Zone rows
+ */
+export function getZoneTotals(rows: ZoneRow[]): ZoneTotals {
+  const spaces = new Set(rows.flatMap((row) => row.spaces));
+  return {
+    zoneCount: rows.length,
+    spaceCount: spaces.size,
+    area: [...spaces].reduce((sum, space) => sum + (space.area ?? 0), 0),
+    occupancy: [...spaces].reduce((sum, space) => sum + (space.occupancy ?? 0), 0),
+  };
+}
+
+/**
+ * Export zone rows as CSV
+ * @param rows - Zone rows
+ * @returns CSV text with a header row and a totals row
+ */
+export function zonesToCsv(rows: ZoneRow[]): string {
+  const round = (value: number): CsvValue => Number(value.toFixed(SPACE_CONFIG.decimals));
+  const header = ['Category', 'Zone', 'Source', 'Spaces', 'Area (m²)', 'Occupancy', 'Space numbers', 'Missing spaces'];
+
+  const body = rows.map((row): CsvValue[] => [
+    row.zone.category,
+    row.zone.name,
+    row.zone.source,
+    row.spaces.length,
+    round(row.area),
+    round(row.occupancy),
+    row.zone.spaceNumbers.join(', '),
+    row.missing.join(', '),
+  ]);
+
+  const totals = getZoneTotals(rows);
+  const footer: CsvValue[] = [
+    `Total (${totals.zoneCount})`,
+    null,
+    null,
+    totals.spaceCount,
+    round(totals.area),
+    round(totals.occupancy),
+    null,
+    null,
+  ];
+
+  return toCsv([header, ...body, footer]);
+}